@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+/**
+ * Executable entry point for age-schema-codegen
+ *
+ * @packageDocumentation
+ */
+
+import { runCodegenCli } from './cli';
+
+runCodegenCli(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,160 @@
+/**
+ * Command line interface for the schema code generator
+ *
+ * @packageDocumentation
+ */
+
+import { promises as fs } from 'fs';
+import { SchemaCodeGenerator } from './generator';
+
+/**
+ * Parsed command line arguments
+ */
+export interface CodegenCliArgs {
+  /**
+   * Path to the schema JSON file
+   */
+  schema?: string;
+
+  /**
+   * Output directory for the generated files
+   */
+  out?: string;
+
+  /**
+   * Module specifier the generated client imports the library from
+   */
+  importPath?: string;
+
+  /**
+   * Whether to skip generating the typed client wrappers
+   */
+  noClient?: boolean;
+
+  /**
+   * Whether help was requested
+   */
+  help?: boolean;
+}
+
+/**
+ * Output streams used by the CLI
+ */
+export interface CodegenCliIO {
+  log: (message: string) => void;
+  error: (message: string) => void;
+}
+
+/**
+ * Usage text printed by --help
+ */
+export const CODEGEN_USAGE = `Usage: age-schema-codegen --schema <file> --out <dir> [options]
+
+Generate TypeScript types and typed operation wrappers from a schema definition.
+
+Options:
+  -s, --schema <file>       Schema JSON file
+  -o, --out <dir>           Output directory for the generated files
+      --import-path <path>  Module the generated client imports from (default: age-schema-client)
+      --no-client           Only generate type declarations
+  -h, --help                Show this help`;
+
+/**
+ * Parse command line arguments
+ *
+ * @param argv - Arguments without the node executable and script path
+ * @returns Parsed arguments
+ * @throws Error if an argument is unknown or missing its value
+ */
+export function parseCodegenArgs(argv: string[]): CodegenCliArgs {
+  const args: CodegenCliArgs = {};
+
+  const takeValue = (index: number, flag: string): string => {
+    const value = argv[index + 1];
+    if (value === undefined || value.startsWith('-')) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '-s':
+      case '--schema':
+        args.schema = takeValue(i++, arg);
+        break;
+      case '-o':
+      case '--out':
+        args.out = takeValue(i++, arg);
+        break;
+      case '--import-path':
+        args.importPath = takeValue(i++, arg);
+        break;
+      case '--no-client':
+        args.noClient = true;
+        break;
+      case '-h':
+      case '--help':
+        args.help = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Run the code generator CLI
+ *
+ * @param argv - Arguments without the node executable and script path
+ * @param io - Output streams
+ * @returns Process exit code
+ */
+export async function runCodegenCli(
+  argv: string[],
+  io: CodegenCliIO = { log: console.log, error: console.error }
+): Promise<number> {
+  let args: CodegenCliArgs;
+  try {
+    args = parseCodegenArgs(argv);
+  } catch (error) {
+    io.error(error.message);
+    io.error(CODEGEN_USAGE);
+    return 1;
+  }
+
+  if (args.help) {
+    io.log(CODEGEN_USAGE);
+    return 0;
+  }
+
+  if (!args.schema || !args.out) {
+    io.error('Both --schema and --out are required');
+    io.error(CODEGEN_USAGE);
+    return 1;
+  }
+
+  try {
+    const schemaJson = await fs.readFile(args.schema, 'utf8');
+    const generator = new SchemaCodeGenerator({
+      ...(args.importPath ? { importPath: args.importPath } : {}),
+      includeClient: !args.noClient,
+    });
+    const written = await generator.writeFiles(schemaJson, args.out);
+    for (const file of written) {
+      io.log(`Generated ${file}`);
+    }
+    return 0;
+  } catch (error) {
+    io.error(`Code generation failed: ${error.message}`);
+    if (Array.isArray(error.errors)) {
+      for (const detail of error.errors) {
+        io.error(`  - ${detail.path ? `${detail.path}: ` : ''}${detail.message}`);
+      }
+    }
+    return 1;
+  }
+}
@@ -0,0 +1,739 @@
+/**
+ * Schema code generator
+ *
+ * Generates TypeScript declarations from a schema definition: one interface
+ * per vertex and edge label, literal unions of the label names, and typed
+ * wrappers around VertexOperations and EdgeOperations that are pre-bound to
+ * the generated property types.
+ *
+ * @packageDocumentation
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SchemaParser } from '../schema/parser';
+import { SchemaValidationError } from '../schema/errors';
+import {
+  SchemaDefinition,
+  VertexLabel,
+  EdgeLabel,
+  PropertyDefinition,
+  PropertyType,
+} from '../schema/types';
+
+/**
+ * Options for the schema code generator
+ */
+export interface SchemaCodeGeneratorOptions {
+  /**
+   * Module specifier the generated client imports the library from
+   * @default 'age-schema-client'
+   */
+  importPath?: string;
+
+  /**
+   * Whether to generate the typed client wrappers
+   * @default true
+   */
+  includeClient?: boolean;
+
+  /**
+   * Whether to validate the schema with SchemaParser before generating
+   * @default true
+   */
+  validateSchema?: boolean;
+}
+
+/**
+ * A file produced by the code generator
+ */
+export interface GeneratedFile {
+  /**
+   * File name relative to the output directory
+   */
+  path: string;
+
+  /**
+   * File contents
+   */
+  content: string;
+}
+
+/**
+ * Default options for the schema code generator
+ */
+const DEFAULT_OPTIONS: Required<SchemaCodeGeneratorOptions> = {
+  importPath: 'age-schema-client',
+  includeClient: true,
+  validateSchema: true,
+};
+
+/**
+ * Header written at the top of every generated file
+ */
+const GENERATED_HEADER = [
+  '/**',
+  ' * This file was generated by age-schema-codegen from a schema definition.',
+  ' * Do not edit it by hand; regenerate it when the schema changes.',
+  ' */',
+  '',
+  '/* eslint-disable */',
+  '',
+].join('\n');
+
+/**
+ * Schema code generator class
+ *
+ * Converts a schema definition into TypeScript source files
+ */
+export class SchemaCodeGenerator {
+  private options: Required<SchemaCodeGeneratorOptions>;
+  private parser: SchemaParser;
+
+  /**
+   * Create a new SchemaCodeGenerator
+   *
+   * @param options - Generator options
+   */
+  constructor(options: SchemaCodeGeneratorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.parser = new SchemaParser({ validateOnParse: this.options.validateSchema });
+  }
+
+  /**
+   * Generate TypeScript source files for a schema
+   *
+   * @param schema - Schema definition or schema JSON string
+   * @returns Generated files
+   * @throws SchemaParseError if the schema JSON cannot be parsed
+   * @throws ValidationErrorCollection if the schema is invalid
+   * @throws SchemaValidationError if two labels generate the same type name
+   */
+  generate(schema: SchemaDefinition | string): GeneratedFile[] {
+    const parsed = this.parseSchema(schema);
+
+    const files: GeneratedFile[] = [
+      { path: 'types.ts', content: this.generateTypes(parsed) },
+    ];
+
+    if (this.options.includeClient) {
+      files.push({ path: 'client.ts', content: this.generateClient(parsed) });
+    }
+
+    files.push({ path: 'index.ts', content: this.generateIndex() });
+
+    return files;
+  }
+
+  /**
+   * Generate TypeScript source files and write them to a directory
+   *
+   * @param schema - Schema definition or schema JSON string
+   * @param outDir - Output directory
+   * @returns Paths of the written files
+   */
+  async writeFiles(schema: SchemaDefinition | string, outDir: string): Promise<string[]> {
+    const files = this.generate(schema);
+    await fs.mkdir(outDir, { recursive: true });
+
+    const written: string[] = [];
+    for (const file of files) {
+      const filePath = path.join(outDir, file.path);
+      await fs.writeFile(filePath, file.content, 'utf8');
+      written.push(filePath);
+    }
+
+    return written;
+  }
+
+  /**
+   * Generate the label and property type declarations
+   *
+   * @param schema - Schema definition
+   * @returns TypeScript source
+   * @throws SchemaValidationError if two labels generate the same type name
+   */
+  generateTypes(schema: SchemaDefinition): string {
+    const vertexLabels = Object.keys(schema.vertices);
+    const edgeLabels = Object.keys(schema.edges);
+    this.checkTypeNames('vertices', vertexLabels, label => this.vertexTypeName(label));
+    this.checkTypeNames('edges', edgeLabels, label => this.edgeTypeName(label));
+    const lines: string[] = [GENERATED_HEADER];
+
+    lines.push('/**', ' * Vertex label names defined by the schema', ' */');
+    lines.push(`export type VertexLabelName = ${this.literalUnion(vertexLabels)};`, '');
+    lines.push('/**', ' * Edge label names defined by the schema', ' */');
+    lines.push(`export type EdgeLabelName = ${this.literalUnion(edgeLabels)};`, '');
+
+    lines.push('/**', ' * Vertex label names as a runtime list', ' */');
+    lines.push(`export const vertexLabels = ${JSON.stringify(vertexLabels)} as const;`, '');
+    lines.push('/**', ' * Edge label names as a runtime list', ' */');
+    lines.push(`export const edgeLabels = ${JSON.stringify(edgeLabels)} as const;`, '');
+
+    for (const [label, vertex] of Object.entries(schema.vertices)) {
+      lines.push(this.generateInterface(this.vertexTypeName(label), label, 'vertex', vertex));
+    }
+
+    for (const [label, edge] of Object.entries(schema.edges)) {
+      lines.push(this.generateInterface(this.edgeTypeName(label), label, 'edge', edge));
+    }
+
+    lines.push('/**', ' * Property types keyed by vertex label', ' */');
+    lines.push(this.generateMap('VertexPropertiesMap', vertexLabels, l => this.vertexTypeName(l)));
+    lines.push('/**', ' * Property types keyed by edge label', ' */');
+    lines.push(this.generateMap('EdgePropertiesMap', edgeLabels, l => this.edgeTypeName(l)));
+
+    lines.push('/**', ' * Source and target vertex labels keyed by edge label', ' */');
+    lines.push(this.generateMap('EdgeEndpoints', edgeLabels, label => {
+      const { from, to } = this.resolveEndpoints(schema, schema.edges[label]);
+      return `{ from: ${from}; to: ${to} }`;
+    }));
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate the typed client wrappers
+   *
+   * @param _schema - Schema definition
+   * @returns TypeScript source
+   */
+  generateClient(_schema: SchemaDefinition): string {
+    const importPath = JSON.stringify(this.options.importPath);
+
+    return `${GENERATED_HEADER}import type {
+  SchemaDefinition,
+  VertexOperations,
+  EdgeOperations,
+  VertexQueryOptions,
+  EdgeQueryOptions,
+} from ${importPath};
+import type {
+  VertexLabelName,
+  EdgeLabelName,
+  VertexPropertiesMap,
+  EdgePropertiesMap,
+  EdgeEndpoints,
+} from './types';
+
+/**
+ * A vertex returned by the typed client
+ */
+export type TypedVertex<L extends VertexLabelName> = {
+  id: string;
+  label: L;
+  properties?: VertexPropertiesMap[L];
+} & VertexPropertiesMap[L];
+
+/**
+ * An edge returned by the typed client
+ */
+export type TypedEdge<L extends EdgeLabelName> = {
+  id: string;
+  label: L;
+  fromId: string;
+  toId: string;
+} & EdgePropertiesMap[L];
+
+/**
+ * Vertex operations bound to the generated property types
+ */
+export class TypedVertexOperations {
+  /**
+   * Create a new TypedVertexOperations instance
+   *
+   * @param ops - Untyped vertex operations
+   */
+  constructor(private readonly ops: VertexOperations<SchemaDefinition>) {}
+
+  /**
+   * Create a new vertex
+   */
+  async createVertex<L extends VertexLabelName>(
+    label: L,
+    data: VertexPropertiesMap[L],
+    graphName?: string
+  ): Promise<TypedVertex<L>> {
+    const vertex = await this.ops.createVertex(label, data as Record<string, any>, graphName);
+    return vertex as unknown as TypedVertex<L>;
+  }
+
+  /**
+   * Get a vertex by ID
+   */
+  async getVertexById<L extends VertexLabelName>(
+    label: L,
+    id: string,
+    graphName?: string
+  ): Promise<TypedVertex<L> | null> {
+    const vertex = await this.ops.getVertexById(label, id, graphName);
+    return vertex as unknown as TypedVertex<L> | null;
+  }
+
+  /**
+   * Get a vertex by property values
+   */
+  async getVertex<L extends VertexLabelName>(
+    label: L,
+    properties: Partial<VertexPropertiesMap[L]>,
+    graphName?: string
+  ): Promise<TypedVertex<L> | null> {
+    const vertex = await this.ops.getVertex(label, properties as Record<string, any>, graphName);
+    return vertex as unknown as TypedVertex<L> | null;
+  }
+
+  /**
+   * Get vertices by label
+   */
+  async getVerticesByLabel<L extends VertexLabelName>(
+    label: L,
+    options: VertexQueryOptions = {},
+    graphName?: string
+  ): Promise<TypedVertex<L>[]> {
+    const vertices = await this.ops.getVerticesByLabel(label, options, graphName);
+    return vertices as unknown as TypedVertex<L>[];
+  }
+
+  /**
+   * Update a vertex by ID
+   */
+  async updateVertexById<L extends VertexLabelName>(
+    label: L,
+    id: string,
+    data: Partial<VertexPropertiesMap[L]>,
+    graphName?: string
+  ): Promise<TypedVertex<L>> {
+    const vertex = await this.ops.updateVertexById(label, id, data as Record<string, any>, graphName);
+    return vertex as unknown as TypedVertex<L>;
+  }
+
+  /**
+   * Update a vertex matched by property values
+   */
+  async updateVertex<L extends VertexLabelName>(
+    label: L,
+    properties: Partial<VertexPropertiesMap[L]>,
+    data: Partial<VertexPropertiesMap[L]>,
+    graphName?: string
+  ): Promise<TypedVertex<L> | null> {
+    const vertex = await this.ops.updateVertex(
+      label,
+      properties as Record<string, any>,
+      data as Record<string, any>,
+      graphName
+    );
+    return vertex as unknown as TypedVertex<L> | null;
+  }
+
+  /**
+   * Delete a vertex by ID
+   */
+  async deleteVertexById<L extends VertexLabelName>(
+    label: L,
+    id: string,
+    graphName?: string
+  ): Promise<TypedVertex<L>> {
+    const vertex = await this.ops.deleteVertexById(label, id, graphName);
+    return vertex as unknown as TypedVertex<L>;
+  }
+
+  /**
+   * Delete a vertex matched by property values
+   */
+  async deleteVertex<L extends VertexLabelName>(
+    label: L,
+    properties: Partial<VertexPropertiesMap[L]>,
+    graphName?: string
+  ): Promise<boolean> {
+    return this.ops.deleteVertex(label, properties as Record<string, any>, graphName);
+  }
+}
+
+/**
+ * Edge operations bound to the generated property and endpoint types
+ */
+export class TypedEdgeOperations {
+  /**
+   * Create a new TypedEdgeOperations instance
+   *
+   * @param ops - Untyped edge operations
+   */
+  constructor(private readonly ops: EdgeOperations<SchemaDefinition>) {}
+
+  /**
+   * Create a new edge between two vertices
+   */
+  async createEdge<L extends EdgeLabelName>(
+    label: L,
+    fromVertex: TypedVertex<EdgeEndpoints[L]['from']>,
+    toVertex: TypedVertex<EdgeEndpoints[L]['to']>,
+    data: EdgePropertiesMap[L],
+    graphName?: string
+  ): Promise<TypedEdge<L>> {
+    const edge = await this.ops.createEdge(
+      label,
+      fromVertex as any,
+      toVertex as any,
+      data as Record<string, any>,
+      graphName
+    );
+    return edge as unknown as TypedEdge<L>;
+  }
+
+  /**
+   * Get an edge by ID
+   */
+  async getEdgeById<L extends EdgeLabelName>(
+    label: L,
+    id: string,
+    graphName?: string
+  ): Promise<TypedEdge<L> | null> {
+    const edge = await this.ops.getEdgeById(label, id, graphName);
+    return edge as unknown as TypedEdge<L> | null;
+  }
+
+  /**
+   * Get edges by label
+   */
+  async getEdgesByLabel<L extends EdgeLabelName>(
+    label: L,
+    options: EdgeQueryOptions = {},
+    graphName?: string
+  ): Promise<TypedEdge<L>[]> {
+    const edges = await this.ops.getEdgesByLabel(label, options, graphName);
+    return edges as unknown as TypedEdge<L>[];
+  }
+
+  /**
+   * Get edges of a label between two vertices
+   */
+  async getEdgesBetweenVertices<L extends EdgeLabelName>(
+    label: L,
+    fromVertex: TypedVertex<EdgeEndpoints[L]['from']>,
+    toVertex: TypedVertex<EdgeEndpoints[L]['to']>,
+    graphName?: string
+  ): Promise<TypedEdge<L>[]> {
+    const edges = await this.ops.getEdgesBetweenVertices(
+      label,
+      fromVertex as any,
+      toVertex as any,
+      graphName
+    );
+    return edges as unknown as TypedEdge<L>[];
+  }
+
+  /**
+   * Update an edge by ID
+   */
+  async updateEdgeById<L extends EdgeLabelName>(
+    label: L,
+    id: string,
+    data: Partial<EdgePropertiesMap[L]>,
+    graphName?: string
+  ): Promise<TypedEdge<L>> {
+    const edge = await this.ops.updateEdgeById(label, id, data as Record<string, any>, graphName);
+    return edge as unknown as TypedEdge<L>;
+  }
+
+  /**
+   * Delete an edge by ID
+   */
+  async deleteEdgeById<L extends EdgeLabelName>(
+    label: L,
+    id: string,
+    graphName?: string
+  ): Promise<TypedEdge<L>> {
+    const edge = await this.ops.deleteEdgeById(label, id, graphName);
+    return edge as unknown as TypedEdge<L>;
+  }
+}
+
+/**
+ * Typed client combining vertex and edge operations
+ */
+export interface TypedClient {
+  vertices: TypedVertexOperations;
+  edges: TypedEdgeOperations;
+}
+
+/**
+ * Create a typed client from untyped vertex and edge operations
+ *
+ * @param vertexOps - Vertex operations
+ * @param edgeOps - Edge operations
+ * @returns Typed client
+ */
+export function createTypedClient(
+  vertexOps: VertexOperations<SchemaDefinition>,
+  edgeOps: EdgeOperations<SchemaDefinition>
+): TypedClient {
+  return {
+    vertices: new TypedVertexOperations(vertexOps),
+    edges: new TypedEdgeOperations(edgeOps),
+  };
+}
+`;
+  }
+
+  /**
+   * Generate the index file re-exporting the other generated files
+   *
+   * @returns TypeScript source
+   */
+  private generateIndex(): string {
+    const lines = [GENERATED_HEADER, "export * from './types';"];
+    if (this.options.includeClient) {
+      lines.push("export * from './client';");
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Parse and validate a schema
+   *
+   * @param schema - Schema definition or schema JSON string
+   * @returns Parsed schema definition
+   */
+  private parseSchema(schema: SchemaDefinition | string): SchemaDefinition {
+    if (typeof schema === 'string') {
+      return this.parser.parse(schema);
+    }
+    return this.options.validateSchema ? this.parser.parseObject(schema) : schema;
+  }
+
+  /**
+   * Generate an interface for a vertex or edge label
+   *
+   * @param typeName - Interface name
+   * @param label - Label name
+   * @param kind - Label kind
+   * @param def - Label definition
+   * @returns TypeScript source
+   */
+  private generateInterface(
+    typeName: string,
+    label: string,
+    kind: 'vertex' | 'edge',
+    def: VertexLabel | EdgeLabel
+  ): string {
+    const required = new Set(def.required || []);
+    const lines: string[] = ['/**'];
+    if (def.description) {
+      lines.push(` * ${this.escapeComment(def.description)}`, ' *');
+    }
+    lines.push(` * Properties of the "${this.escapeComment(label)}" ${kind} label`, ' */');
+    lines.push(`export interface ${typeName} {`);
+
+    for (const [name, prop] of Object.entries(def.properties)) {
+      if (prop.description) {
+        lines.push(`  /** ${this.escapeComment(prop.description)} */`);
+      }
+      const optional = required.has(name) || prop.required === true ? '' : '?';
+      lines.push(`  ${this.propertyKey(name)}${optional}: ${this.propertyTypeToTs(prop)};`);
+    }
+
+    lines.push('}', '');
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate a type that maps label names to types
+   *
+   * @param name - Type name
+   * @param labels - Label names
+   * @param valueFor - Returns the mapped type for a label
+   * @returns TypeScript source
+   */
+  private generateMap(name: string, labels: string[], valueFor: (label: string) => string): string {
+    if (labels.length === 0) {
+      return `export type ${name} = {};\n`;
+    }
+
+    const entries = labels.map(label => `  ${JSON.stringify(label)}: ${valueFor(label)};`);
+    return `export type ${name} = {\n${entries.join('\n')}\n};\n`;
+  }
+
+  /**
+   * Convert a property definition to a TypeScript type expression
+   *
+   * @param prop - Property definition
+   * @returns TypeScript type expression
+   */
+  private propertyTypeToTs(prop: PropertyDefinition): string {
+    const types = Array.isArray(prop.type) ? prop.type : [prop.type];
+    const parts = types.map(type => this.singleTypeToTs(type, prop));
+
+    if (prop.nullable) {
+      parts.push('null');
+    }
+
+    return Array.from(new Set(parts)).join(' | ');
+  }
+
+  /**
+   * Convert a single property type to a TypeScript type expression
+   *
+   * @param type - Property type
+   * @param prop - Property definition the type belongs to
+   * @returns TypeScript type expression
+   */
+  private singleTypeToTs(type: PropertyType, prop: PropertyDefinition): string {
+    switch (type) {
+      case PropertyType.STRING:
+        return prop.stringConstraints?.enum?.length
+          ? this.literalUnion(prop.stringConstraints.enum)
+          : 'string';
+      case PropertyType.NUMBER:
+      case PropertyType.INTEGER:
+      case PropertyType.FLOAT:
+        return prop.numberConstraints?.enum?.length
+          ? prop.numberConstraints.enum.map(v => String(v)).join(' | ')
+          : 'number';
+      case PropertyType.BOOLEAN:
+        return 'boolean';
+      case PropertyType.DATE:
+      case PropertyType.DATETIME:
+        return 'Date | string';
+      case PropertyType.ARRAY: {
+        const items = prop.arrayConstraints?.items;
+        return items ? `Array<${this.propertyTypeToTs(items)}>` : 'unknown[]';
+      }
+      case PropertyType.OBJECT:
+        return this.objectTypeToTs(prop);
+      default:
+        return 'unknown';
+    }
+  }
+
+  /**
+   * Convert an object property to an inline TypeScript type
+   *
+   * @param prop - Property definition
+   * @returns TypeScript type expression
+   */
+  private objectTypeToTs(prop: PropertyDefinition): string {
+    const constraints = prop.objectConstraints;
+    if (!constraints?.properties || Object.keys(constraints.properties).length === 0) {
+      return 'Record<string, unknown>';
+    }
+
+    const required = new Set(constraints.required || []);
+    const members = Object.entries(constraints.properties).map(([name, child]) => {
+      const optional = required.has(name) || child.required === true ? '' : '?';
+      return `${this.propertyKey(name)}${optional}: ${this.propertyTypeToTs(child)}`;
+    });
+
+    return `{ ${members.join('; ')} }`;
+  }
+
+  /**
+   * Resolve the source and target vertex label types of an edge
+   *
+   * @param schema - Schema definition
+   * @param edge - Edge definition
+   * @returns Type expressions for the endpoints
+   */
+  private resolveEndpoints(schema: SchemaDefinition, edge: EdgeLabel): { from: string; to: string } {
+    const resolve = (direct: string | undefined, constraint: EdgeLabel['fromVertex']): string => {
+      const label = direct || (typeof constraint === 'string' ? constraint : constraint?.label);
+      return label && schema.vertices[label] ? JSON.stringify(label) : 'VertexLabelName';
+    };
+
+    return {
+      from: resolve(edge.fromLabel || edge.from, edge.fromVertex),
+      to: resolve(edge.toLabel || edge.to, edge.toVertex),
+    };
+  }
+
+  /**
+   * Build a union of string literal types
+   *
+   * @param values - Literal values
+   * @returns TypeScript type expression
+   */
+  private literalUnion(values: string[]): string {
+    return values.length > 0 ? values.map(v => JSON.stringify(v)).join(' | ') : 'never';
+  }
+
+  /**
+   * Format a property name as an interface key
+   *
+   * @param name - Property name
+   * @returns Key, quoted when it is not a valid identifier
+   */
+  private propertyKey(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+  }
+
+  /**
+   * Build the interface name for a vertex label
+   *
+   * @param label - Vertex label
+   * @returns Interface name
+   */
+  private vertexTypeName(label: string): string {
+    return `${toPascalCase(label)}Vertex`;
+  }
+
+  /**
+   * Build the interface name for an edge label
+   *
+   * @param label - Edge label
+   * @returns Interface name
+   */
+  private edgeTypeName(label: string): string {
+    return `${toPascalCase(label)}Edge`;
+  }
+
+  /**
+   * Check that no two labels generate the same type name
+   *
+   * @param kind - Schema section of the labels
+   * @param labels - Label names
+   * @param typeName - Function building the type name of a label
+   * @throws SchemaValidationError if two labels generate the same type name
+   */
+  private checkTypeNames(kind: 'vertices' | 'edges', labels: string[], typeName: (label: string) => string): void {
+    const labelsByName = new Map<string, string>();
+
+    for (const label of labels) {
+      const name = typeName(label);
+      const other = labelsByName.get(name);
+      if (other !== undefined) {
+        throw new SchemaValidationError(
+          `${kind === 'vertices' ? 'Vertex' : 'Edge'} labels '${other}' and '${label}' both generate the type name '${name}'`,
+          `${kind}.${label}`
+        );
+      }
+      labelsByName.set(name, label);
+    }
+  }
+
+  /**
+   * Make text safe to embed in a block comment
+   *
+   * @param text - Text to escape
+   * @returns Escaped text
+   */
+  private escapeComment(text: string): string {
+    return text.replace(/\*\//g, '*\\/').replace(/\r?\n/g, ' ');
+  }
+}
+
+/**
+ * Convert a label name to PascalCase
+ *
+ * @param label - Label name, e.g. `WORKS_AT` or `person`
+ * @returns PascalCase name, e.g. `WorksAt` or `Person`
+ */
+export function toPascalCase(label: string): string {
+  const words = label.match(/[A-Za-z0-9]+/g) || [];
+  const name = words
+    .map(word => {
+      const lower = word === word.toUpperCase() ? word.toLowerCase() : word;
+      return lower.charAt(0).toUpperCase() + lower.slice(1);
+    })
+    .join('');
+
+  return /^[0-9]/.test(name) || name === '' ? `_${name}` : name;
+}
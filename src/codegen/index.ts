@@ -0,0 +1,14 @@
+/**
+ * Code generation module for the ageSchemaClient library
+ *
+ * @packageDocumentation
+ */
+
+// Export schema code generator
+export * from './generator';
+
+// Export command line interface
+export * from './cli';
+
+// Export version
+export const codegenVersion = '0.1.0';
@@ -0,0 +1,482 @@
+/**
+ * Parser for the text representation of Apache AGE agtype values
+ *
+ * AGE returns agtype values as JSON-like text with type annotations such as
+ * `::vertex`, `::edge`, `::path` and `::numeric`, and with float literals
+ * (`NaN`, `Infinity`, `-Infinity`) that JSON does not allow. This module parses
+ * that text into typed values: vertices, edges and paths become `AgVertex`,
+ * `AgEdge` and `AgPath` instances, graph ids are kept exact as strings or
+ * bigints, and integers outside the safe range are returned as bigints.
+ *
+ * @packageDocumentation
+ */
+
+import { types as pgTypes } from 'pg';
+
+/**
+ * Graph id of a vertex or edge
+ */
+export type GraphId = string | bigint;
+
+/**
+ * Agtype parse options
+ */
+export interface AgtypeParseOptions {
+  /**
+   * Representation of vertex and edge ids
+   * @default 'string'
+   */
+  graphIdType?: 'string' | 'bigint';
+
+  /**
+   * Representation of `::numeric` values
+   *
+   * Numeric values can exceed the precision of a JavaScript number, so they
+   * are returned as their exact decimal text by default.
+   * @default 'string'
+   */
+  numericType?: 'string' | 'number';
+}
+
+/**
+ * Vertex returned by an AGE query
+ */
+export class AgVertex<P extends Record<string, any> = Record<string, any>> {
+  /**
+   * Create a new vertex
+   *
+   * @param id - Graph id
+   * @param label - Vertex label
+   * @param properties - Vertex properties
+   */
+  constructor(
+    public readonly id: GraphId,
+    public readonly label: string,
+    public readonly properties: P
+  ) {}
+}
+
+/**
+ * Edge returned by an AGE query
+ */
+export class AgEdge<P extends Record<string, any> = Record<string, any>> {
+  /**
+   * Create a new edge
+   *
+   * @param id - Graph id
+   * @param label - Edge label
+   * @param startId - Graph id of the start vertex
+   * @param endId - Graph id of the end vertex
+   * @param properties - Edge properties
+   */
+  constructor(
+    public readonly id: GraphId,
+    public readonly label: string,
+    public readonly startId: GraphId,
+    public readonly endId: GraphId,
+    public readonly properties: P
+  ) {}
+}
+
+/**
+ * Path returned by an AGE query
+ *
+ * A path alternates vertices and edges, starting and ending with a vertex.
+ */
+export class AgPath {
+  /**
+   * Create a new path
+   *
+   * @param elements - Vertices and edges in path order
+   */
+  constructor(public readonly elements: Array<AgVertex | AgEdge>) {}
+
+  /**
+   * Vertices of the path in order
+   */
+  get vertices(): AgVertex[] {
+    return this.elements.filter((element): element is AgVertex => element instanceof AgVertex);
+  }
+
+  /**
+   * Edges of the path in order
+   */
+  get edges(): AgEdge[] {
+    return this.elements.filter((element): element is AgEdge => element instanceof AgEdge);
+  }
+
+  /**
+   * Number of edges in the path
+   */
+  get length(): number {
+    return this.edges.length;
+  }
+}
+
+/**
+ * Error thrown when agtype text cannot be parsed
+ */
+export class AgtypeParseError extends Error {
+  /**
+   * Create a new agtype parse error
+   *
+   * @param message - Error message
+   * @param text - Text being parsed
+   * @param position - Offset of the error in the text
+   */
+  constructor(message: string, public readonly text: string, public readonly position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'AgtypeParseError';
+  }
+}
+
+/**
+ * Number literal, including the float literals AGE emits
+ */
+const NUMBER_PATTERN = /-?(?:NaN|Infinity|(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/y;
+
+/**
+ * Type annotation following a value, e.g. `::vertex`
+ */
+const ANNOTATION_PATTERN = /::([a-z_]+)/y;
+
+/**
+ * Recursive-descent parser over a single agtype text value
+ */
+class AgtypeTextParser {
+  private position = 0;
+
+  /**
+   * Create a new parser
+   *
+   * @param text - Agtype text
+   * @param options - Parse options
+   */
+  constructor(
+    private readonly text: string,
+    private readonly options: AgtypeParseOptions
+  ) {}
+
+  /**
+   * Parse the complete text as one value
+   *
+   * @returns Parsed value
+   */
+  parse(): unknown {
+    const value = this.parseValue();
+    this.skipWhitespace();
+    if (this.position < this.text.length) {
+      this.fail('Unexpected trailing characters');
+    }
+    return value;
+  }
+
+  private parseValue(): unknown {
+    this.skipWhitespace();
+    const char = this.text[this.position];
+
+    if (char === '{') {
+      return this.annotate(this.parseObject());
+    }
+    if (char === '[') {
+      return this.annotate(this.parseArray());
+    }
+    if (char === '"') {
+      return this.annotate(this.parseString());
+    }
+    if (this.consumeKeyword('null')) {
+      return null;
+    }
+    if (this.consumeKeyword('true')) {
+      return this.annotate(true);
+    }
+    if (this.consumeKeyword('false')) {
+      return this.annotate(false);
+    }
+
+    NUMBER_PATTERN.lastIndex = this.position;
+    const match = NUMBER_PATTERN.exec(this.text);
+    if (!match) {
+      this.fail(char === undefined ? 'Unexpected end of input' : `Unexpected character '${char}'`);
+    }
+    this.position = NUMBER_PATTERN.lastIndex;
+    return this.convertNumber(match[0], this.parseAnnotation());
+  }
+
+  private parseObject(): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+    this.position++;
+    this.skipWhitespace();
+
+    if (this.text[this.position] === '}') {
+      this.position++;
+      return object;
+    }
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.text[this.position] !== '"') {
+        this.fail('Expected property name');
+      }
+      const key = this.parseString();
+      this.expect(':');
+      object[key] = this.parseValue();
+      this.skipWhitespace();
+
+      if (this.text[this.position] === ',') {
+        this.position++;
+        continue;
+      }
+      this.expect('}');
+      return object;
+    }
+  }
+
+  private parseArray(): unknown[] {
+    const array: unknown[] = [];
+    this.position++;
+    this.skipWhitespace();
+
+    if (this.text[this.position] === ']') {
+      this.position++;
+      return array;
+    }
+
+    for (;;) {
+      array.push(this.parseValue());
+      this.skipWhitespace();
+
+      if (this.text[this.position] === ',') {
+        this.position++;
+        continue;
+      }
+      this.expect(']');
+      return array;
+    }
+  }
+
+  private parseString(): string {
+    const start = this.position;
+    let end = start + 1;
+    while (end < this.text.length && this.text[end] !== '"') {
+      end += this.text[end] === '\\' ? 2 : 1;
+    }
+    if (end >= this.text.length) {
+      this.fail('Unterminated string');
+    }
+
+    this.position = end + 1;
+    try {
+      return JSON.parse(this.text.slice(start, end + 1));
+    } catch (_error) {
+      this.position = start;
+      return this.fail('Invalid string escape');
+    }
+  }
+
+  private parseAnnotation(): string | undefined {
+    ANNOTATION_PATTERN.lastIndex = this.position;
+    const match = ANNOTATION_PATTERN.exec(this.text);
+    if (!match) {
+      return undefined;
+    }
+    this.position = ANNOTATION_PATTERN.lastIndex;
+    return match[1];
+  }
+
+  /**
+   * Apply the type annotation following a composite or string value
+   *
+   * @param value - Parsed value
+   * @returns Typed value
+   */
+  private annotate(value: unknown): unknown {
+    const start = this.position;
+    const annotation = this.parseAnnotation();
+
+    switch (annotation) {
+      case undefined:
+        return value;
+      case 'vertex': {
+        const vertex = this.asEntity(value, start, ['id', 'label']);
+        return new AgVertex(
+          this.toGraphId(vertex.id, start),
+          String(vertex.label),
+          (vertex.properties ?? {}) as Record<string, any>
+        );
+      }
+      case 'edge': {
+        const edge = this.asEntity(value, start, ['id', 'label', 'start_id', 'end_id']);
+        return new AgEdge(
+          this.toGraphId(edge.id, start),
+          String(edge.label),
+          this.toGraphId(edge.start_id, start),
+          this.toGraphId(edge.end_id, start),
+          (edge.properties ?? {}) as Record<string, any>
+        );
+      }
+      case 'path':
+        if (!Array.isArray(value) ||
+            !value.every((element, index) => (index % 2 === 0 ? element instanceof AgVertex : element instanceof AgEdge))) {
+          this.position = start;
+          return this.fail('A path must alternate vertices and edges');
+        }
+        return new AgPath(value as Array<AgVertex | AgEdge>);
+      default:
+        this.position = start;
+        return this.fail(`Unsupported type annotation '::${annotation}' on a ${Array.isArray(value) ? 'list' : typeof value}`);
+    }
+  }
+
+  /**
+   * Convert a number literal according to its annotation
+   *
+   * @param literal - Number literal
+   * @param annotation - Type annotation
+   * @returns Number, bigint or numeric text
+   */
+  private convertNumber(literal: string, annotation: string | undefined): number | bigint | string {
+    switch (annotation) {
+      case 'numeric':
+        return this.options.numericType === 'number' ? Number(literal) : literal;
+      case 'float':
+        return Number(literal);
+      case undefined:
+      case 'integer':
+        if (/^-?\d+$/.test(literal)) {
+          const value = Number(literal);
+          return Number.isSafeInteger(value) ? value : BigInt(literal);
+        }
+        return Number(literal);
+      default:
+        return this.fail(`Unsupported type annotation '::${annotation}' on a number`);
+    }
+  }
+
+  private asEntity(value: unknown, start: number, fields: string[]): Record<string, unknown> {
+    if (value === null || typeof value !== 'object' || Array.isArray(value) ||
+        fields.some(field => !(field in value))) {
+      this.position = start;
+      this.fail(`Expected an object with ${fields.join(', ')}`);
+    }
+    return value as Record<string, unknown>;
+  }
+
+  private toGraphId(value: unknown, start: number): GraphId {
+    if (typeof value !== 'number' && typeof value !== 'bigint') {
+      this.position = start;
+      this.fail('Expected an integer graph id');
+    }
+    return this.options.graphIdType === 'bigint' ? BigInt(value) : String(value);
+  }
+
+  private consumeKeyword(keyword: string): boolean {
+    if (this.text.startsWith(keyword, this.position)) {
+      this.position += keyword.length;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(char: string): void {
+    this.skipWhitespace();
+    if (this.text[this.position] !== char) {
+      this.fail(`Expected '${char}'`);
+    }
+    this.position++;
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.text.length && /\s/.test(this.text[this.position])) {
+      this.position++;
+    }
+  }
+
+  private fail(message: string): never {
+    throw new AgtypeParseError(message, this.text, this.position);
+  }
+}
+
+/**
+ * Parse the text representation of an agtype value
+ *
+ * @example
+ * ```typescript
+ * const person = parseAgtype('{"id": 844424930131969, "label": "Person", "properties": {"name": "Alice"}}::vertex');
+ * // AgVertex { id: '844424930131969', label: 'Person', properties: { name: 'Alice' } }
+ * ```
+ *
+ * @param text - Agtype text
+ * @param options - Parse options
+ * @returns Parsed value
+ * @throws AgtypeParseError if the text is not valid agtype
+ */
+export function parseAgtype(text: string, options: AgtypeParseOptions = {}): unknown {
+  return new AgtypeTextParser(text, options).parse();
+}
+
+/**
+ * Parse a value that may still be agtype text
+ *
+ * Values that were already parsed, e.g. by the type parser of the query
+ * executor, are returned unchanged.
+ *
+ * @param value - Agtype text or parsed value
+ * @param options - Parse options
+ * @returns Parsed value
+ * @throws AgtypeParseError if a string value is not valid agtype
+ */
+export function asAgtype(value: unknown, options: AgtypeParseOptions = {}): any {
+  return typeof value === 'string' ? parseAgtype(value, options) : value;
+}
+
+/**
+ * Parse the agtype column values of a result row
+ *
+ * @param row - Result row with agtype text values
+ * @param options - Parse options
+ * @returns Row with parsed values
+ */
+export function parseAgtypeRow(
+  row: Record<string, any>,
+  options: AgtypeParseOptions = {}
+): Record<string, any> {
+  const parsed: Record<string, any> = {};
+  for (const [key, value] of Object.entries(row)) {
+    parsed[key] = asAgtype(value, options);
+  }
+  return parsed;
+}
+
+/**
+ * Check whether an agtype boolean is true
+ *
+ * @param value - Parsed value or agtype text
+ * @returns Whether the value is true
+ */
+export function isAgtypeTrue(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+/**
+ * Create the `types` option of a pg query that parses agtype columns
+ *
+ * Columns of other types use the globally registered pg type parsers.
+ *
+ * @param agtypeOid - Type OID of ag_catalog.agtype in the connected database
+ * @param options - Parse options
+ * @returns pg custom type parsers
+ */
+export function createAgtypeTypeParsers(
+  agtypeOid: number,
+  options: AgtypeParseOptions = {}
+): { getTypeParser: (oid: number, format?: any) => any } {
+  return {
+    getTypeParser: (oid: number, format?: any) => {
+      if (oid === agtypeOid && format !== 'binary') {
+        return (text: string) => parseAgtype(text, options);
+      }
+      return pgTypes.getTypeParser(oid, format);
+    },
+  };
+}
@@ -8,7 +8,7 @@ import { SchemaDefinition } from '../schema/types';
 import { QueryExecutor } from './query';
 import { SQLGenerator } from '../sql/generator';
 import { Transaction } from './transaction';
-import { VertexData, Vertex, VertexOperations } from './vertex';
+import { VertexData, Vertex, VertexOperations, UpsertCounts } from './vertex';
 import { EdgeData, Edge, EdgeOperations } from './edge';
 import { getTempTableName } from '../sql/utils';
 import { performance } from 'perf_hooks';
@@ -94,6 +94,16 @@ export interface BatchPerformanceMetrics {
   itemsPerSecond: number;
 }
 
+/**
+ * Result of a batch upsert
+ */
+export interface BatchUpsertResult<R> extends UpsertCounts {
+  /**
+   * Upserted items in input order
+   */
+  items: R[];
+}
+
 /**
  * Batch operations class
  *
@@ -273,6 +283,122 @@ export class BatchOperations<T extends SchemaDefinition> {
     }
   }
 
+  /**
+   * Create or update multiple vertices identified by their key properties
+   *
+   * All items are validated before any query runs. The upserts run in one
+   * transaction, so either all of them are applied or none.
+   *
+   * @param label - Vertex label
+   * @param items - Key properties and data of each vertex
+   * @param options - Batch operation options
+   * @returns Upserted vertices with created and updated counts
+   */
+  async upsertVerticesBatch<L extends keyof T['vertices']>(
+    label: L,
+    items: Array<{
+      keyProps: VertexData<T, L>;
+      data?: VertexData<T, L>;
+    }>,
+    options: BatchOperationOptions = {}
+  ): Promise<BatchUpsertResult<Vertex<T, L>>> {
+    items.forEach(item => this.vertexOperations.validateUpsertData(label, item.keyProps, item.data));
+
+    return this.runUpsertBatch(
+      items,
+      options,
+      async item => {
+        const { vertex, created, updated } = await this.vertexOperations.upsertVertex(label, item.keyProps, item.data);
+        return { item: vertex, created, updated };
+      },
+      'vertex'
+    );
+  }
+
+  /**
+   * Create or update multiple edges identified by their endpoints and key properties
+   *
+   * All items are validated before any query runs. The upserts run in one
+   * transaction, so either all of them are applied or none.
+   *
+   * @param label - Edge label
+   * @param items - Endpoints, key properties and data of each edge
+   * @param options - Batch operation options
+   * @returns Upserted edges with created and updated counts
+   */
+  async upsertEdgesBatch<L extends keyof T['edges']>(
+    label: L,
+    items: Array<{
+      fromVertex: Vertex<T, any>;
+      toVertex: Vertex<T, any>;
+      keyProps: EdgeData<T, L>;
+      data?: EdgeData<T, L>;
+    }>,
+    options: BatchOperationOptions = {}
+  ): Promise<BatchUpsertResult<Edge<T, L>>> {
+    items.forEach(item => this.edgeOperations.validateUpsertData(
+      label, item.fromVertex, item.toVertex, item.keyProps, item.data
+    ));
+
+    return this.runUpsertBatch(
+      items,
+      options,
+      async item => {
+        const { edge, created, updated } = await this.edgeOperations.upsertEdge(
+          label, item.fromVertex, item.toVertex, item.keyProps, item.data
+        );
+        return { item: edge, created, updated };
+      },
+      'edge'
+    );
+  }
+
+  /**
+   * Run upserts in a transaction and sum their counts
+   *
+   * @param items - Items to upsert
+   * @param options - Batch operation options
+   * @param upsert - Upsert a single item
+   * @param kind - Item kind used in error messages
+   * @returns Upserted items with created and updated counts
+   * @private
+   */
+  private async runUpsertBatch<I, R>(
+    items: I[],
+    options: BatchOperationOptions,
+    upsert: (item: I) => Promise<UpsertCounts & { item: R }>,
+    kind: 'vertex' | 'edge'
+  ): Promise<BatchUpsertResult<R>> {
+    const result: BatchUpsertResult<R> = { items: [], created: 0, updated: 0 };
+    if (items.length === 0) {
+      return result;
+    }
+
+    const transaction = options.transaction || await this.queryExecutor.beginTransaction();
+
+    try {
+      for (const item of items) {
+        const upserted = await upsert(item);
+        result.items.push(upserted.item);
+        result.created += upserted.created;
+        result.updated += upserted.updated;
+      }
+
+      // Commit transaction if we created it
+      if (!options.transaction) {
+        await transaction.commit();
+      }
+
+      return result;
+    } catch (error) {
+      // Rollback transaction if we created it
+      if (!options.transaction) {
+        await transaction.rollback();
+      }
+      throw new Error(`Batch ${kind} upsert failed: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Create vertices using a temporary table for large batches
    *
@@ -4,7 +4,6 @@
  * @packageDocumentation
  */
 
-import { Pool, PoolClient } from 'pg';
 import {
   Connection,
   ConnectionConfig,
@@ -13,13 +12,25 @@ import {
   ConnectionHooks,
   ConnectionManager,
   ConnectionState,
+  DatabaseErrorType,
   DriverType,
+  ConnectionRequestOptions,
   ExtensionInitializer,
+  LoadBalancingStrategy,
   PoolError,
+  PoolMemberStats,
   PoolStats,
+  QueryError,
+  ReplicaConfig,
+  ReplicaHealth,
+  ReplicaRoutingConfig,
   RetryConfig,
 } from './types';
 import { AgeExtensionInitializer } from './extensions';
+import { CopyData, Driver, DriverClient, DriverQueryResult, DriverSubscription, NotificationHandler } from './driver';
+import { createDriver } from './driver-registry';
+import { calculateRetryDelay, classifyDatabaseError } from './retry';
+import { Instrumentation, noopInstrumentation, recordPoolStats } from './instrumentation';
 
 /**
  * Default retry configuration
@@ -33,25 +44,64 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
 };
 
 /**
- * PgConnection class that implements the Connection interface
+ * Default read replica routing configuration
+ */
+const DEFAULT_REPLICA_ROUTING = {
+  strategy: LoadBalancingStrategy.ROUND_ROBIN,
+  fallbackToPrimary: true,
+  healthCheck: {
+    interval: 0,
+    timeout: 5000,
+    query: 'SELECT 1',
+  },
+  ejection: {
+    failureThreshold: 3,
+    ejectionTime: 30000,
+  },
+};
+
+/**
+ * Name of the primary's pool
+ */
+const PRIMARY_POOL_NAME = 'primary';
+
+/**
+ * Pool of connections to one server, the primary or a read replica
+ */
+interface PoolMember {
+  name: string;
+  role: 'primary' | 'replica';
+  driver: Driver;
+  config: ConnectionConfig;
+  extensions: ExtensionInitializer[];
+  consecutiveFailures: number;
+  ejectedUntil: number;
+}
+
+/**
+ * PgConnection class that implements the Connection interface on top of a
+ * driver connection
  */
 class PgConnection implements Connection {
-  private client: PoolClient;
+  private client: DriverClient;
   private state: ConnectionState;
   private lastQuery: string | null = null;
   private lastQueryTime: number | null = null;
   private manager: PgConnectionManager;
+  private poolName: string;
 
   /**
    * Create a new PgConnection
    *
-   * @param client - Pool client
+   * @param client - Driver connection
    * @param manager - Connection manager
+   * @param poolName - Name of the pool the client was taken from
    */
-  constructor(client: PoolClient, manager: PgConnectionManager) {
+  constructor(client: DriverClient, manager: PgConnectionManager, poolName: string = PRIMARY_POOL_NAME) {
     this.client = client;
     this.state = ConnectionState.IDLE;
     this.manager = manager;
+    this.poolName = poolName;
   }
 
   /**
@@ -77,11 +127,15 @@ class PgConnection implements Connection {
         console.error('Query text:', text);
         console.error('Query params:', params);
 
-        // Rethrow with more context
-        const contextError = new Error(
-          `Direct query execution error: ${directError?.message || 'null or undefined'}\n` +
-          `SQL: ${text}\n` +
-          `Params: ${JSON.stringify(params)}`
+        // Rethrow with more context, keeping the driver error and its
+        // SQLSTATE code so that the failure can still be classified
+        const contextError = Object.assign(
+          new Error(
+            `Direct query execution error: ${directError?.message || 'null or undefined'}\n` +
+            `SQL: ${text}\n` +
+            `Params: ${JSON.stringify(params)}`
+          ),
+          { cause: directError, code: directError?.code }
         );
 
         // Preserve the original error's stack if possible
@@ -117,10 +171,22 @@ class PgConnection implements Connection {
         );
       }
 
-      throw new ConnectionError(
+      // Only a lost connection is a connection error; the server rejecting
+      // the statement is a query error of the type its SQLSTATE code gives
+      const errorType = classifyDatabaseError(error);
+      if (errorType === DatabaseErrorType.CONNECTION) {
+        throw new ConnectionError(
+          `Query execution failed: ${(error as Error).message}`,
+          error as Error,
+          { query: text, params }
+        );
+      }
+
+      throw new QueryError(
         `Query execution failed: ${(error as Error).message}`,
         error as Error,
-        { query: text, params }
+        { query: text, params },
+        errorType === DatabaseErrorType.UNKNOWN ? DatabaseErrorType.QUERY : errorType
       );
     }
   }
@@ -161,24 +227,69 @@ class PgConnection implements Connection {
   }
 
   /**
-   * Get the underlying client
+   * Load data with a `COPY ... FROM STDIN` statement
+   *
+   * @param sql - COPY statement
+   * @param data - Data in the format of the statement
+   * @returns Query result
+   */
+  async copyFrom(sql: string, data: CopyData): Promise<DriverQueryResult> {
+    this.state = ConnectionState.ACTIVE;
+    this.lastQuery = sql;
+    this.lastQueryTime = Date.now();
+
+    try {
+      const result = await this.client.copyFrom(sql, data);
+      this.state = ConnectionState.IDLE;
+      return result;
+    } catch (error) {
+      this.state = ConnectionState.ERROR;
+      throw new ConnectionError(`COPY failed: ${(error as Error).message}`, error as Error, { query: sql });
+    }
+  }
+
+  /**
+   * Get the underlying client of the driver's library, such as a pg
+   * `PoolClient`
    *
    * @returns Underlying client
    */
   getClient(): any {
+    return this.client.getNativeClient();
+  }
+
+  /**
+   * Get the driver connection
+   *
+   * @returns Driver connection
+   */
+  getDriverClient(): DriverClient {
     return this.client;
   }
+
+  /**
+   * Get the name of the pool the connection was taken from
+   *
+   * @returns Pool name
+   */
+  getPoolName(): string {
+    return this.poolName;
+  }
 }
 
 /**
  * PgConnectionManager class that implements the ConnectionManager interface
  */
 export class PgConnectionManager implements ConnectionManager {
-  private pool: Pool;
+  private primary: PoolMember;
+  private replicas: PoolMember[];
   private config: ConnectionConfig;
-  private hooks: ConnectionHooks = {};
+  private routing: typeof DEFAULT_REPLICA_ROUTING;
+  private hooks: ConnectionHooks;
   private activeConnections: Set<PgConnection> = new Set();
-  private extensions: ExtensionInitializer[];
+  private instrumentation: Instrumentation;
+  private nextReplica = 0;
+  private healthCheckTimer: ReturnType<typeof setInterval> | null = null;
 
   /**
    * Create a new PgConnectionManager
@@ -187,28 +298,115 @@ export class PgConnectionManager implements ConnectionManager {
    */
   constructor(config: ConnectionConfig) {
     this.config = this.validateConfig(config);
-    this.pool = this.createPool(this.config);
+    this.routing = this.resolveRouting(config.replicaRouting);
+    this.instrumentation = config.instrumentation || noopInstrumentation;
+    this.hooks = { ...config.hooks };
 
     // Initialize extensions - default to AGE if none provided
-    this.extensions = config.extensions || [new AgeExtensionInitializer()];
+    this.primary = this.createMember(
+      PRIMARY_POOL_NAME,
+      'primary',
+      this.config,
+      config.extensions || [new AgeExtensionInitializer()]
+    );
+
+    // Replicas cannot create the age_params table, so AGE is set up read-only
+    this.replicas = (config.replicas || []).map((replica, index) => this.createMember(
+      replica.name || `replica-${index + 1}`,
+      'replica',
+      this.createReplicaConfig(replica),
+      replica.extensions || [new AgeExtensionInitializer({ readOnly: true })]
+    ));
+
+    if (this.replicas.length > 0 && this.routing.healthCheck.interval > 0) {
+      this.healthCheckTimer = setInterval(() => {
+        void this.checkReplicaHealth();
+      }, this.routing.healthCheck.interval);
+      this.healthCheckTimer.unref?.();
+    }
+  }
+
+  /**
+   * Create the pool of a server and set up its event handlers
+   *
+   * @param name - Pool name
+   * @param role - Role of the server
+   * @param config - Connection configuration of the server
+   * @param extensions - Extension initializers to run on new connections
+   * @returns Pool member
+   */
+  private createMember(
+    name: string,
+    role: PoolMember['role'],
+    config: ConnectionConfig,
+    extensions: ExtensionInitializer[]
+  ): PoolMember {
+    const driver = createDriver(config);
 
     // Set up pool error handler
-    this.pool.on('error', (err: Error) => {
-      console.error('Unexpected error on idle client', err);
+    driver.onError((err: Error) => {
+      console.error(`Unexpected error on idle client of pool ${name}`, err);
       this.handlePoolError(err);
     });
 
-    this.pool.on('connect', async (client: PoolClient) => {
+    driver.onConnect(async (client: DriverClient) => {
       try {
         // Initialize all extensions
-        for (const extension of this.extensions) {
+        for (const extension of extensions) {
           console.log(`Initializing extension: ${extension.name}`);
-          await extension.initialize(client, this.config);
+          await extension.initialize(client, config);
         }
       } catch (error) {
         console.error('Error initializing connection extensions:', error);
       }
     });
+
+    return {
+      name,
+      role,
+      driver,
+      config,
+      extensions,
+      consecutiveFailures: 0,
+      ejectedUntil: 0,
+    };
+  }
+
+  /**
+   * Create the connection configuration of a read replica
+   *
+   * Fields the replica does not set are inherited from the primary, except
+   * for the connection string, which would connect to the primary.
+   *
+   * @param replica - Replica configuration
+   * @returns Connection configuration
+   */
+  private createReplicaConfig(replica: ReplicaConfig): ConnectionConfig {
+    const { name: _name, extensions: _extensions, ...connection } = replica;
+
+    return {
+      ...this.config,
+      connectionString: undefined,
+      replicas: undefined,
+      ...connection,
+      pool: connection.pool || this.config.pool,
+      driver: { ...this.config.driver, instance: undefined, ...connection.driver },
+    };
+  }
+
+  /**
+   * Fill in the defaults of the read replica routing configuration
+   *
+   * @param routing - Routing configuration
+   * @returns Routing configuration with all fields set
+   */
+  private resolveRouting(routing: ReplicaRoutingConfig = {}): typeof DEFAULT_REPLICA_ROUTING {
+    return {
+      strategy: routing.strategy || DEFAULT_REPLICA_ROUTING.strategy,
+      fallbackToPrimary: routing.fallbackToPrimary ?? DEFAULT_REPLICA_ROUTING.fallbackToPrimary,
+      healthCheck: { ...DEFAULT_REPLICA_ROUTING.healthCheck, ...routing.healthCheck },
+      ejection: { ...DEFAULT_REPLICA_ROUTING.ejection, ...routing.ejection },
+    };
   }
 
   /**
@@ -276,38 +474,6 @@ export class PgConnectionManager implements ConnectionManager {
     return config;
   }
 
-  /**
-   * Create a connection pool
-   *
-   * @param config - Connection configuration
-   * @returns Connection pool
-   */
-  private createPool(config: ConnectionConfig): Pool {
-    // If connectionString is provided, use it directly
-    if (config.connectionString) {
-      return new Pool({ connectionString: config.connectionString });
-    }
-
-    // Otherwise, create connection parameters
-    const poolConfig: any = {
-      host: config.host,
-      port: config.port,
-      database: config.database,
-      user: config.user,
-      password: config.password,
-      ssl: config.ssl,
-      max: config.pool?.max,
-      idleTimeoutMillis: config.pool?.idleTimeoutMillis,
-      connectionTimeoutMillis: config.pool?.connectionTimeoutMillis,
-      allowExitOnIdle: config.pool?.allowExitOnIdle,
-      // Add any other pg-specific options except search_path
-      application_name: config.pgOptions?.applicationName,
-    };
-
-    // We'll set search_path with a SQL query after connecting
-    return new Pool(poolConfig);
-  }
-
   /**
    * Handle pool error
    *
@@ -328,56 +494,39 @@ export class PgConnectionManager implements ConnectionManager {
   /**
    * Get a connection from the pool with retry logic
    *
+   * Read-only requests are served by a healthy read replica when replicas are
+   * configured. When no replica can provide a connection, the primary serves
+   * the request unless `replicaRouting.fallbackToPrimary` is false.
+   *
+   * @param options - Connection request options
    * @returns A connection
    */
-  async getConnection(): Promise<Connection> {
+  async getConnection(options: ConnectionRequestOptions = {}): Promise<Connection> {
+    if (options.readOnly && this.replicas.length > 0) {
+      const connection = await this.getReplicaConnection();
+      if (connection) {
+        return connection;
+      }
+
+      if (!this.routing.fallbackToPrimary) {
+        throw new PoolError('No healthy read replica is available');
+      }
+    }
+
     const retryConfig = this.config.retry!;
     let attempts = 0;
     let lastError: Error | null = null;
 
     while (attempts < retryConfig.maxAttempts!) {
       try {
-        // Trigger beforeConnect hook if registered
-        const beforeConnectEvent: ConnectionEvent = {
-          type: 'connect',
-          state: ConnectionState.IDLE,
-          timestamp: Date.now(),
-        };
-
-        await this.triggerHook('beforeConnect', null as any, beforeConnectEvent);
-
-        // Get client from pool - setup already done via 'connect' event
-        const client = await this.pool.connect();
-
-        // Create connection wrapper
-        const connection = new PgConnection(client, this);
-
-        // Add to active connections
-        this.activeConnections.add(connection);
-
-        // Trigger afterConnect hook if registered
-        const afterConnectEvent: ConnectionEvent = {
-          type: 'connect',
-          state: ConnectionState.IDLE,
-          timestamp: Date.now(),
-        };
-
-        await this.triggerHook('afterConnect', connection, afterConnectEvent);
-
-        return connection;
+        return await this.connect(this.primary);
       } catch (error) {
         lastError = error as Error;
         attempts++;
 
         if (attempts < retryConfig.maxAttempts!) {
           // Calculate delay with exponential backoff and jitter
-          const delay = Math.min(
-            retryConfig.delay! * Math.pow(retryConfig.factor!, attempts - 1),
-            retryConfig.maxDelay!
-          );
-
-          const jitter = delay * retryConfig.jitter! * (Math.random() * 2 - 1);
-          const finalDelay = Math.max(0, delay + jitter);
+          const finalDelay = calculateRetryDelay(retryConfig as Required<RetryConfig>, attempts);
 
           // Wait before retrying
           await new Promise(resolve => setTimeout(resolve, finalDelay));
@@ -392,6 +541,217 @@ export class PgConnectionManager implements ConnectionManager {
     );
   }
 
+  /**
+   * Get a connection from one of the healthy read replicas
+   *
+   * Replicas are tried once each, in the order of the load balancing
+   * strategy. A replica that fails to provide a connection is skipped, and
+   * ejected once it fails often enough in a row.
+   *
+   * @returns A connection, or null when no replica provided one
+   */
+  private async getReplicaConnection(): Promise<Connection | null> {
+    for (const member of this.getReplicaCandidates()) {
+      try {
+        const connection = await this.connect(member);
+        this.recordReplicaSuccess(member);
+        return connection;
+      } catch (error) {
+        console.warn(`Failed to get a connection from read replica ${member.name}:`, error);
+        await this.recordReplicaFailure(member, error as Error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the healthy read replicas in the order they should be tried
+   *
+   * @returns Replicas
+   */
+  private getReplicaCandidates(): PoolMember[] {
+    const healthy = this.replicas.filter(member => this.isHealthy(member));
+    if (healthy.length === 0) {
+      return [];
+    }
+
+    if (this.routing.strategy === LoadBalancingStrategy.LEAST_CONNECTIONS) {
+      return healthy
+        .map(member => ({ member, active: this.countActiveConnections(member) }))
+        .sort((a, b) => a.active - b.active)
+        .map(({ member }) => member);
+    }
+
+    const start = this.nextReplica++ % healthy.length;
+    return [...healthy.slice(start), ...healthy.slice(0, start)];
+  }
+
+  /**
+   * Get a connection from a pool and trigger the connect hooks
+   *
+   * @param member - Pool member
+   * @returns A connection
+   */
+  private async connect(member: PoolMember): Promise<PgConnection> {
+    // Trigger beforeConnect hook if registered
+    const beforeConnectEvent: ConnectionEvent = {
+      type: 'connect',
+      state: ConnectionState.IDLE,
+      timestamp: Date.now(),
+    };
+
+    await this.triggerHook('beforeConnect', null as any, beforeConnectEvent);
+
+    // Get client from pool - setup already done via the driver's connect handler
+    const client = await member.driver.connect();
+
+    // Create connection wrapper
+    const connection = new PgConnection(client, this, member.name);
+
+    // Add to active connections
+    this.activeConnections.add(connection);
+
+    // Trigger afterConnect hook if registered
+    const afterConnectEvent: ConnectionEvent = {
+      type: 'connect',
+      state: ConnectionState.IDLE,
+      timestamp: Date.now(),
+      data: { pool: member.name },
+    };
+
+    await this.triggerHook('afterConnect', connection, afterConnectEvent);
+    recordPoolStats(this.instrumentation, this.getPoolStats());
+
+    return connection;
+  }
+
+  /**
+   * Check whether a pool receives connection requests
+   *
+   * @param member - Pool member
+   * @returns Whether the pool is not ejected
+   */
+  private isHealthy(member: PoolMember): boolean {
+    return member.ejectedUntil <= Date.now();
+  }
+
+  /**
+   * Count the connections of a pool that are in use
+   *
+   * @param member - Pool member
+   * @returns Number of active connections
+   */
+  private countActiveConnections(member: PoolMember): number {
+    let count = 0;
+    for (const connection of this.activeConnections) {
+      if (connection.getPoolName() === member.name) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Record that a read replica served a request or passed a health check
+   *
+   * @param member - Replica pool member
+   */
+  private recordReplicaSuccess(member: PoolMember): void {
+    member.consecutiveFailures = 0;
+    member.ejectedUntil = 0;
+  }
+
+  /**
+   * Record that a read replica failed, and eject it once it reaches the
+   * failure threshold
+   *
+   * An ejected replica receives no requests until the ejection time has
+   * passed or it passes a health check. A replica that fails again right
+   * after its ejection ended is ejected again.
+   *
+   * @param member - Replica pool member
+   * @param error - Error the replica failed with
+   */
+  private async recordReplicaFailure(member: PoolMember, error: Error): Promise<void> {
+    member.consecutiveFailures++;
+
+    const { failureThreshold, ejectionTime } = this.routing.ejection;
+    if (member.consecutiveFailures < failureThreshold) {
+      return;
+    }
+
+    member.ejectedUntil = Date.now() + ejectionTime;
+    console.warn(
+      `Ejecting read replica ${member.name} for ${ejectionTime}ms after ` +
+      `${member.consecutiveFailures} consecutive failures`
+    );
+
+    const event: ConnectionEvent = {
+      type: 'error',
+      state: ConnectionState.ERROR,
+      timestamp: Date.now(),
+      error,
+      data: { pool: member.name, ejected: true },
+    };
+
+    await this.triggerHook('onError', null as any, event);
+  }
+
+  /**
+   * Run the health check query on every read replica
+   *
+   * A replica that passes the check is admitted again even when it was
+   * ejected; a replica that fails it counts a failure towards ejection.
+   * Checks run periodically when `replicaRouting.healthCheck.interval` is set.
+   *
+   * @returns Health of each replica
+   */
+  async checkReplicaHealth(): Promise<ReplicaHealth[]> {
+    return Promise.all(this.replicas.map(member => this.checkHealth(member)));
+  }
+
+  /**
+   * Run the health check query on a read replica
+   *
+   * @param member - Replica pool member
+   * @returns Health of the replica
+   */
+  private async checkHealth(member: PoolMember): Promise<ReplicaHealth> {
+    const { timeout, query } = this.routing.healthCheck;
+    const startTime = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const check = async (): Promise<void> => {
+      const client = await member.driver.connect();
+      try {
+        await client.query(query);
+        client.release();
+      } catch (error) {
+        client.release(error as Error);
+        throw error;
+      }
+    };
+
+    const timeoutError = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new PoolError(`Health check of read replica ${member.name} timed out after ${timeout}ms`)),
+        timeout
+      );
+    });
+
+    try {
+      await Promise.race([check(), timeoutError]);
+      this.recordReplicaSuccess(member);
+      return { name: member.name, healthy: true, duration: Date.now() - startTime };
+    } catch (error) {
+      await this.recordReplicaFailure(member, error as Error);
+      return { name: member.name, healthy: false, error: error as Error, duration: Date.now() - startTime };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Release a connection back to the pool
    *
@@ -409,11 +769,12 @@ export class PgConnectionManager implements ConnectionManager {
 
         await this.triggerHook('beforeDisconnect', connection, beforeDisconnectEvent);
 
-        // Run cleanup for all extensions
-        for (const extension of this.extensions) {
+        // Run cleanup for all extensions of the connection's pool
+        const member = this.getMember(connection.getPoolName());
+        for (const extension of member.extensions) {
           if (extension.cleanup) {
             try {
-              await extension.cleanup(connection.getClient(), this.config);
+              await extension.cleanup(connection.getDriverClient(), member.config);
             } catch (cleanupError) {
               console.warn(`Failed to cleanup extension ${extension.name}:`, cleanupError);
               // Continue with release even if cleanup fails
@@ -435,6 +796,7 @@ export class PgConnectionManager implements ConnectionManager {
         };
 
         await this.triggerHook('afterDisconnect', connection, afterDisconnectEvent);
+        recordPoolStats(this.instrumentation, this.getPoolStats());
       } catch (error) {
         console.error('Error releasing connection:', error);
         throw error;
@@ -474,28 +836,124 @@ export class PgConnectionManager implements ConnectionManager {
     }
   }
 
+  /**
+   * Get a pool member by name
+   *
+   * @param name - Pool name
+   * @returns Pool member, the primary's if no pool has the name
+   */
+  private getMember(name: string): PoolMember {
+    return this.replicas.find(member => member.name === name) || this.primary;
+  }
+
+  /**
+   * Check whether read replicas are configured
+   *
+   * @returns Whether read-only requests can be served by replicas
+   */
+  hasReplicas(): boolean {
+    return this.replicas.length > 0;
+  }
+
   /**
    * Get connection pool statistics
    *
+   * With read replicas, the figures are summed over all pools and the
+   * figures of each pool are reported in `pools`.
+   *
    * @returns Pool statistics
    */
   getPoolStats(): PoolStats {
+    if (this.replicas.length === 0) {
+      return {
+        ...this.primary.driver.getStats(),
+        active: this.activeConnections.size,
+      };
+    }
+
+    const pools = [this.primary, ...this.replicas].map(member => this.getMemberStats(member));
+    const sum = (field: 'total' | 'idle' | 'active' | 'waiting' | 'max'): number =>
+      pools.reduce((total, stats) => total + stats[field], 0);
+
     return {
-      total: this.pool.totalCount,
-      idle: this.pool.idleCount,
-      active: this.activeConnections.size,
-      waiting: this.pool.waitingCount,
-      max: this.pool.options.max || 10,
+      total: sum('total'),
+      idle: sum('idle'),
+      active: sum('active'),
+      waiting: sum('waiting'),
+      max: sum('max'),
+      pools,
     };
   }
 
+  /**
+   * Get the statistics of one pool
+   *
+   * @param member - Pool member
+   * @returns Pool statistics
+   */
+  private getMemberStats(member: PoolMember): PoolMemberStats {
+    return {
+      name: member.name,
+      role: member.role,
+      healthy: this.isHealthy(member),
+      consecutiveFailures: member.consecutiveFailures,
+      ...member.driver.getStats(),
+      active: this.countActiveConnections(member),
+    };
+  }
+
+  /**
+   * Get the driver of the primary
+   *
+   * @returns Driver
+   */
+  getDriver(): Driver {
+    return this.primary.driver;
+  }
+
+  /**
+   * Receive notifications sent on a channel of the primary
+   *
+   * @param channel - Channel name
+   * @param handler - Notification handler
+   * @returns Subscription
+   */
+  async listen(channel: string, handler: NotificationHandler): Promise<DriverSubscription> {
+    return this.primary.driver.listen(channel, handler);
+  }
+
+  /**
+   * Get the instrumentation configured for this connection manager
+   *
+   * Query executors and transaction managers created for its connections
+   * should report to the same instrumentation.
+   *
+   * @returns Instrumentation
+   */
+  getInstrumentation(): Instrumentation {
+    return this.instrumentation;
+  }
+
   /**
    * Register connection lifecycle hooks
    *
    * @param hooks - Connection lifecycle hooks
    */
   registerHooks(hooks: ConnectionHooks): void {
-    this.hooks = { ...this.hooks, ...hooks };
+    Object.assign(this.hooks, hooks);
+  }
+
+  /**
+   * Get the registered connection lifecycle hooks
+   *
+   * Transaction managers of this manager's connections should be given these
+   * hooks so `onTransactionAttempt` is called. The returned object is updated
+   * by later `registerHooks` calls.
+   *
+   * @returns Connection lifecycle hooks
+   */
+  getHooks(): ConnectionHooks {
+    return this.hooks;
   }
 
   /**
@@ -504,12 +962,19 @@ export class PgConnectionManager implements ConnectionManager {
    * @returns Promise that resolves when the pool is closed
    */
   async closeAll(): Promise<void> {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+
     try {
       // First release all active connections
       await this.releaseAllConnections();
 
-      // Then end the pool
-      await this.pool.end();
+      // Then end the pools
+      for (const member of [this.primary, ...this.replicas]) {
+        await member.driver.end();
+      }
 
       console.log('Connection pool closed successfully');
     } catch (error) {
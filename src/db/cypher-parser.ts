@@ -0,0 +1,346 @@
+/**
+ * Lightweight Cypher tokenizer used to infer result columns
+ *
+ * Apache AGE requires the column list of a cypher() call to be declared in
+ * the SQL `AS (...)` clause. This module tokenizes a Cypher query and reads
+ * the projection list of its final RETURN clause to derive those columns. It
+ * understands string literals, comments, backtick identifiers and nesting, so
+ * commas inside function calls, lists and map literals are not mistaken for
+ * column separators.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Cypher token type
+ */
+export enum CypherTokenType {
+  IDENTIFIER = 'IDENTIFIER',
+  STRING = 'STRING',
+  NUMBER = 'NUMBER',
+  PARAMETER = 'PARAMETER',
+  PUNCTUATION = 'PUNCTUATION',
+}
+
+/**
+ * Cypher token
+ */
+export interface CypherToken {
+  /**
+   * Token type
+   */
+  type: CypherTokenType;
+
+  /**
+   * Token text; for backtick identifiers the unquoted name
+   */
+  value: string;
+
+  /**
+   * Whether the identifier was written with backticks
+   */
+  quoted?: boolean;
+
+  /**
+   * Nesting depth of parentheses, brackets and braces at the token
+   */
+  depth: number;
+}
+
+/**
+ * Characters that open a nested expression
+ */
+const OPENING = new Set(['(', '[', '{']);
+
+/**
+ * Characters that close a nested expression
+ */
+const CLOSING = new Set([')', ']', '}']);
+
+/**
+ * Keywords that end a RETURN projection list
+ */
+const PROJECTION_TERMINATORS = new Set(['ORDER', 'SKIP', 'LIMIT', 'UNION']);
+
+/**
+ * Pattern for column names PostgreSQL folds to lower case when unquoted
+ */
+const SQL_IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Tokenize a Cypher query
+ *
+ * Whitespace and comments are skipped.
+ *
+ * @param cypher - Cypher query
+ * @returns Tokens
+ * @throws Error if a string literal, backtick identifier or comment is not terminated
+ */
+export function tokenizeCypher(cypher: string): CypherToken[] {
+  const tokens: CypherToken[] = [];
+  let depth = 0;
+  let i = 0;
+
+  while (i < cypher.length) {
+    const char = cypher[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Line and block comments
+    if (char === '/' && cypher[i + 1] === '/') {
+      const end = cypher.indexOf('\n', i);
+      i = end === -1 ? cypher.length : end + 1;
+      continue;
+    }
+    if (char === '/' && cypher[i + 1] === '*') {
+      const end = cypher.indexOf('*/', i + 2);
+      if (end === -1) {
+        throw new Error('Unterminated comment in Cypher query');
+      }
+      i = end + 2;
+      continue;
+    }
+
+    // String literals with backslash escapes
+    if (char === '\'' || char === '"') {
+      let j = i + 1;
+      while (j < cypher.length && cypher[j] !== char) {
+        j += cypher[j] === '\\' ? 2 : 1;
+      }
+      if (j >= cypher.length) {
+        throw new Error('Unterminated string literal in Cypher query');
+      }
+      tokens.push({ type: CypherTokenType.STRING, value: cypher.slice(i, j + 1), depth });
+      i = j + 1;
+      continue;
+    }
+
+    // Backtick identifiers; a doubled backtick is an escaped backtick
+    if (char === '`') {
+      let j = i + 1;
+      let name = '';
+      for (;;) {
+        if (j >= cypher.length) {
+          throw new Error('Unterminated backtick identifier in Cypher query');
+        }
+        if (cypher[j] === '`') {
+          if (cypher[j + 1] === '`') {
+            name += '`';
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        name += cypher[j++];
+      }
+      tokens.push({ type: CypherTokenType.IDENTIFIER, value: name, quoted: true, depth });
+      i = j + 1;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(cypher.slice(i));
+    if (identifier) {
+      tokens.push({ type: CypherTokenType.IDENTIFIER, value: identifier[0], depth });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(cypher.slice(i));
+    if (number) {
+      tokens.push({ type: CypherTokenType.NUMBER, value: number[0], depth });
+      i += number[0].length;
+      continue;
+    }
+
+    const parameter = /^\$[A-Za-z0-9_]+/.exec(cypher.slice(i));
+    if (parameter) {
+      tokens.push({ type: CypherTokenType.PARAMETER, value: parameter[0], depth });
+      i += parameter[0].length;
+      continue;
+    }
+
+    if (OPENING.has(char)) {
+      tokens.push({ type: CypherTokenType.PUNCTUATION, value: char, depth });
+      depth++;
+    } else if (CLOSING.has(char)) {
+      depth = Math.max(0, depth - 1);
+      tokens.push({ type: CypherTokenType.PUNCTUATION, value: char, depth });
+    } else {
+      tokens.push({ type: CypherTokenType.PUNCTUATION, value: char, depth });
+    }
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Check whether a token is an unquoted keyword
+ *
+ * @param token - Token to check
+ * @param keyword - Upper-case keyword
+ * @returns Whether the token is the keyword
+ */
+function isKeyword(token: CypherToken | undefined, keyword: string): boolean {
+  return !!token &&
+    token.type === CypherTokenType.IDENTIFIER &&
+    !token.quoted &&
+    token.value.toUpperCase() === keyword;
+}
+
+/**
+ * Derive the column name of a single projection item
+ *
+ * @param item - Tokens of the projection item
+ * @param index - Position of the item in the projection list
+ * @returns Column name
+ */
+function projectionItemName(item: CypherToken[], index: number): string {
+  const last = item[item.length - 1];
+  const beforeLast = item[item.length - 2];
+
+  // Explicit alias: <expression> AS name
+  if (
+    item.length >= 3 &&
+    last.type === CypherTokenType.IDENTIFIER &&
+    last.depth === item[0].depth &&
+    isKeyword(beforeLast, 'AS')
+  ) {
+    return last.value;
+  }
+
+  // Variable: n
+  if (item.length === 1 && last.type === CypherTokenType.IDENTIFIER) {
+    return last.value;
+  }
+
+  // Property access: n.name
+  if (
+    item.length === 3 &&
+    item[0].type === CypherTokenType.IDENTIFIER &&
+    item[1].value === '.' &&
+    last.type === CypherTokenType.IDENTIFIER
+  ) {
+    return last.value;
+  }
+
+  // Function call: count(*), nodes(p)
+  if (
+    item.length >= 3 &&
+    item[0].type === CypherTokenType.IDENTIFIER &&
+    item[1].value === '(' &&
+    last.value === ')' &&
+    last.depth === item[0].depth &&
+    !item.slice(2, -1).some(token => token.depth === item[0].depth)
+  ) {
+    return item[0].value;
+  }
+
+  return `col${index + 1}`;
+}
+
+/**
+ * Infer the result column names of a Cypher query
+ *
+ * The names come from the projection list of the final top-level RETURN
+ * clause; for a UNION the first query determines the names. Items without an
+ * explicit alias are named after their variable, property or function, and
+ * `colN` otherwise. Duplicate names get a numeric suffix.
+ *
+ * @param cypher - Cypher query
+ * @returns Column names, or null if the query has no RETURN clause or uses `RETURN *`
+ */
+export function inferReturnColumns(cypher: string): string[] | null {
+  const tokens = tokenizeCypher(cypher);
+
+  // Only the first query of a UNION determines the column names
+  const unionIndex = tokens.findIndex(token => token.depth === 0 && isKeyword(token, 'UNION'));
+  const query = unionIndex === -1 ? tokens : tokens.slice(0, unionIndex);
+
+  let returnIndex = -1;
+  query.forEach((token, index) => {
+    if (token.depth === 0 && isKeyword(token, 'RETURN')) {
+      returnIndex = index;
+    }
+  });
+  if (returnIndex === -1) {
+    return null;
+  }
+
+  let start = returnIndex + 1;
+  if (isKeyword(query[start], 'DISTINCT')) {
+    start++;
+  }
+
+  // Collect projection items up to ORDER BY, SKIP, LIMIT or the end
+  const items: CypherToken[][] = [];
+  let current: CypherToken[] = [];
+  for (let i = start; i < query.length; i++) {
+    const token = query[i];
+    if (token.depth === 0) {
+      if (token.type === CypherTokenType.IDENTIFIER && !token.quoted &&
+          PROJECTION_TERMINATORS.has(token.value.toUpperCase())) {
+        break;
+      }
+      if (token.value === ';') {
+        break;
+      }
+      if (token.value === ',') {
+        items.push(current);
+        current = [];
+        continue;
+      }
+    }
+    current.push(token);
+  }
+  items.push(current);
+
+  const nonEmpty = items.filter(item => item.length > 0);
+  if (nonEmpty.length === 0 || (nonEmpty.length === 1 && nonEmpty[0].length === 1 && nonEmpty[0][0].value === '*')) {
+    return null;
+  }
+
+  return uniqueColumnNames(nonEmpty.map((item, index) => projectionItemName(item, index)));
+}
+
+/**
+ * Make column names unique by adding numeric suffixes
+ *
+ * @param names - Column names
+ * @returns Unique column names
+ */
+export function uniqueColumnNames(names: string[]): string[] {
+  const seen = new Set<string>();
+
+  return names.map(name => {
+    let unique = name;
+    let counter = 2;
+    while (seen.has(unique.toLowerCase())) {
+      unique = `${name}_${counter++}`;
+    }
+    seen.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+/**
+ * Build the column definition list for the AS clause of a cypher() call
+ *
+ * Column names are always quoted so reserved words such as `order` are
+ * accepted. Plain identifiers are lower-cased first, matching the names
+ * PostgreSQL would give them unquoted.
+ *
+ * @param columns - Column names
+ * @returns Column definitions, e.g. `"name" ag_catalog.agtype, "full name" ag_catalog.agtype`
+ */
+export function buildColumnDefinitions(columns: string[]): string {
+  return columns
+    .map(column => {
+      const name = SQL_IDENTIFIER_PATTERN.test(column) ? column.toLowerCase() : column;
+      return `"${name.replace(/"/g, '""')}" ag_catalog.agtype`;
+    })
+    .join(', ');
+}
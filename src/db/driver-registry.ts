@@ -0,0 +1,59 @@
+/**
+ * Registry of database driver types
+ *
+ * Drivers are created from `ConnectionConfig.driver` by type, or passed in
+ * as an instance.
+ *
+ * @packageDocumentation
+ */
+
+import { ConnectionConfig, ConnectionError, DriverType } from './types';
+import { Driver } from './driver';
+import { PgDriver } from './pg-driver';
+import { PostgresDriver } from './postgres-driver';
+import { FakeDriver } from './fake-driver';
+
+/**
+ * Function creating a driver from a connection configuration
+ */
+export type DriverFactory = (config: ConnectionConfig) => Driver;
+
+/**
+ * Driver factories by driver type
+ */
+const driverFactories = new Map<string, DriverFactory>([
+  [DriverType.PG, config => new PgDriver(config)],
+  [DriverType.POSTGRES, config => new PostgresDriver(config)],
+  [DriverType.FAKE, config => new FakeDriver({ max: config.pool?.max })],
+]);
+
+/**
+ * Register a driver type
+ *
+ * @param type - Driver type
+ * @param factory - Function creating a driver of the type
+ */
+export function registerDriver(type: string, factory: DriverFactory): void {
+  driverFactories.set(type, factory);
+}
+
+/**
+ * Create the driver a connection configuration asks for
+ *
+ * @param config - Connection configuration
+ * @returns Driver
+ * @throws ConnectionError if the driver type is not registered
+ */
+export function createDriver(config: ConnectionConfig): Driver {
+  if (config.driver?.instance) {
+    return config.driver.instance;
+  }
+
+  const type = config.driver?.type || DriverType.PG;
+  const factory = driverFactories.get(type);
+  if (!factory) {
+    throw new ConnectionError(`Unknown database driver: ${type}`);
+  }
+
+  return factory(config);
+}
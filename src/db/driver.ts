@@ -0,0 +1,272 @@
+/**
+ * Database driver abstraction
+ *
+ * A driver adapts a PostgreSQL client library to the connection manager:
+ * it pools connections, runs queries, loads data with COPY, reads large
+ * results through cursors and delivers notifications.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Query with options
+ */
+export interface DriverQueryConfig {
+  /**
+   * Query text
+   */
+  text: string;
+
+  /**
+   * Query parameters
+   */
+  values?: any[];
+
+  /**
+   * Return rows as arrays instead of objects
+   */
+  rowMode?: 'array' | 'object';
+
+  /**
+   * Name of the prepared statement
+   */
+  name?: string;
+
+  /**
+   * Type parsers for the result columns, in the shape of pg's `types`
+   */
+  types?: { getTypeParser: (oid: number, format?: any) => any };
+}
+
+/**
+ * Result column
+ */
+export interface DriverField {
+  /**
+   * Column name
+   */
+  name: string;
+
+  /**
+   * Type OID of the column
+   */
+  dataTypeID: number;
+}
+
+/**
+ * Query result
+ */
+export interface DriverQueryResult<T = any> {
+  /**
+   * Result rows
+   */
+  rows: T[];
+
+  /**
+   * Number of rows returned or affected, if the driver reports it
+   */
+  rowCount: number | null;
+
+  /**
+   * Command tag, such as "SELECT" or "COPY"
+   */
+  command: string;
+
+  /**
+   * Result columns
+   */
+  fields: DriverField[];
+}
+
+/**
+ * Data loaded by a `COPY ... FROM STDIN` statement
+ */
+export type CopyData = string | Iterable<string | Buffer> | AsyncIterable<string | Buffer>;
+
+/**
+ * Notification received on a channel
+ */
+export interface DriverNotification {
+  /**
+   * Channel name
+   */
+  channel: string;
+
+  /**
+   * Notification payload
+   */
+  payload: string;
+
+  /**
+   * Process ID of the notifying server process, if the driver reports it
+   */
+  processId?: number;
+}
+
+/**
+ * Notification handler
+ */
+export type NotificationHandler = (notification: DriverNotification) => void;
+
+/**
+ * Subscription to a notification channel
+ */
+export interface DriverSubscription {
+  /**
+   * Stop receiving notifications on the channel
+   */
+  unlisten(): Promise<void>;
+}
+
+/**
+ * Connection pool figures reported by a driver
+ */
+export interface DriverPoolStats {
+  /**
+   * Total number of connections
+   */
+  total: number;
+
+  /**
+   * Number of idle connections
+   */
+  idle: number;
+
+  /**
+   * Number of waiting clients
+   */
+  waiting: number;
+
+  /**
+   * Maximum number of connections
+   */
+  max: number;
+}
+
+/**
+ * Connection taken from a driver's pool
+ */
+export interface DriverClient {
+  /**
+   * Execute a query
+   *
+   * @param query - Query text or query config
+   * @param values - Query parameters
+   * @returns Query result
+   */
+  query<T = any>(query: string | DriverQueryConfig, values?: any[]): Promise<DriverQueryResult<T>>;
+
+  /**
+   * Load data with a `COPY ... FROM STDIN` statement
+   *
+   * @param sql - COPY statement
+   * @param data - Data in the format of the statement
+   * @returns Query result
+   */
+  copyFrom(sql: string, data: CopyData): Promise<DriverQueryResult>;
+
+  /**
+   * Read the rows of a query in batches
+   *
+   * @param text - Query text
+   * @param values - Query parameters
+   * @param batchSize - Number of rows per batch
+   * @returns Batches of rows
+   */
+  cursor<T = any>(text: string, values: any[] | undefined, batchSize: number): AsyncIterable<T[]>;
+
+  /**
+   * Return the connection to the pool
+   *
+   * @param error - Error that makes the connection unusable, so the pool
+   * discards it
+   */
+  release(error?: Error): void;
+
+  /**
+   * Get the client of the underlying library
+   *
+   * @returns Native client
+   */
+  getNativeClient(): any;
+}
+
+/**
+ * Database driver
+ */
+export interface Driver {
+  /**
+   * Driver type
+   */
+  readonly type: string;
+
+  /**
+   * Take a connection from the pool
+   *
+   * @returns Connection
+   */
+  connect(): Promise<DriverClient>;
+
+  /**
+   * Register a handler run once on each new connection, before it is used
+   *
+   * @param handler - Connection handler
+   */
+  onConnect(handler: (client: DriverClient) => Promise<void>): void;
+
+  /**
+   * Register a handler for errors of idle connections
+   *
+   * @param handler - Error handler
+   */
+  onError(handler: (error: Error) => void): void;
+
+  /**
+   * Receive notifications sent on a channel
+   *
+   * @param channel - Channel name
+   * @param handler - Notification handler
+   * @returns Subscription
+   */
+  listen(channel: string, handler: NotificationHandler): Promise<DriverSubscription>;
+
+  /**
+   * Get connection pool figures
+   *
+   * @returns Pool figures
+   */
+  getStats(): DriverPoolStats;
+
+  /**
+   * Close all connections
+   */
+  end(): Promise<void>;
+}
+
+/**
+ * Iterate over COPY data in chunks
+ *
+ * @param data - COPY data
+ * @returns Chunks of data
+ */
+export async function* iterateCopyData(data: CopyData): AsyncIterable<Buffer> {
+  if (typeof data === 'string') {
+    yield Buffer.from(data);
+    return;
+  }
+
+  for await (const chunk of data as AsyncIterable<string | Buffer>) {
+    yield typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+  }
+}
+
+/**
+ * Parse the row count of a command tag, such as "COPY 42"
+ *
+ * @param commandTag - Command tag
+ * @returns Row count, if the tag has one
+ */
+export function parseCommandRowCount(commandTag: string | undefined): number | null {
+  const match = /(\d+)$/.exec(commandTag ?? '');
+  return match ? parseInt(match[1], 10) : null;
+}
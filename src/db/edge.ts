@@ -6,10 +6,16 @@
 
 import { SchemaDefinition, EdgeLabel, PropertyType } from '../schema/types';
 import { QueryExecutor } from './query';
+import { asAgtype, isAgtypeTrue } from './agtype';
+import { CursorPageOptions, Page, buildKeysetClauses, buildPage, iteratePages } from './pagination';
 import { SQLGenerator } from '../sql/generator';
 import { SQLOrderDirection, SQLFilterOperator } from './types';
 import { ValidationError } from '../core/errors';
-import { Vertex } from './vertex';
+import { Vertex, UpsertCounts } from './vertex';
+import { assertUpsertKeys, buildUpsertClauses, findExistingUniqueKeys } from './utils';
+import { SchemaValidator } from '../schema/validator';
+import { UniqueConstraintError } from '../schema/errors';
+import { getUniqueConstraints, getUniqueKeyValues } from '../schema/utils';
 
 /**
  * Edge data type
@@ -83,6 +89,26 @@ export interface EdgeQueryOptions {
   offset?: number;
 }
 
+/**
+ * Edge pagination options
+ */
+export interface EdgePageOptions extends CursorPageOptions {
+  /**
+   * Filters to apply
+   */
+  filters?: EdgeQueryOptions['filters'];
+}
+
+/**
+ * Result of an edge upsert
+ */
+export interface EdgeUpsertResult<T extends SchemaDefinition, L extends keyof T['edges']> extends UpsertCounts {
+  /**
+   * Upserted edge
+   */
+  edge: Edge<T, L>;
+}
+
 /**
  * Edge operations class
  *
@@ -101,7 +127,14 @@ export class EdgeOperations<T extends SchemaDefinition> {
     private queryExecutor: QueryExecutor,
     private sqlGenerator: SQLGenerator,
     private graphName?: string
-  ) {}
+  ) {
+    this.validator = new SchemaValidator(schema);
+  }
+
+  /**
+   * Validator used for upserts
+   */
+  private validator: SchemaValidator;
 
   /**
    * Create a new edge
@@ -112,6 +145,7 @@ export class EdgeOperations<T extends SchemaDefinition> {
    * @param data - Edge data
    * @param graphName - Optional graph name to override the default
    * @returns Created edge
+   * @throws UniqueConstraintError if a unique constraint of the label is already taken
    */
   async createEdge<L extends keyof T['edges']>(
     label: L,
@@ -132,6 +166,9 @@ export class EdgeOperations<T extends SchemaDefinition> {
       throw new ValidationError('Graph name is required to create an edge');
     }
 
+    // Reject values already taken by another edge
+    await this.assertUniqueKeysAvailable(label, data, targetGraph);
+
     // Format properties for Cypher query
     const propsString = this.formatPropertiesForCypher(data);
 
@@ -159,6 +196,94 @@ export class EdgeOperations<T extends SchemaDefinition> {
     } as Edge<T, L>;
   }
 
+  /**
+   * Create or update an edge identified by its endpoints and key properties
+   *
+   * Runs a single Cypher MERGE between the two vertices and sets the
+   * remaining data on the matched or created edge.
+   *
+   * @param label - Edge label
+   * @param fromVertex - Source vertex
+   * @param toVertex - Target vertex
+   * @param keyProps - Properties identifying the edge between the vertices
+   * @param data - Properties to set on the edge
+   * @param graphName - Optional graph name to override the default
+   * @returns Upserted edge with created and updated counts
+   * @throws ValidationError if no key properties are given, a key is null or the vertex labels are invalid
+   * @throws SchemaValidationError if the properties do not match the schema
+   */
+  async upsertEdge<L extends keyof T['edges']>(
+    label: L,
+    fromVertex: Vertex<T, any>,
+    toVertex: Vertex<T, any>,
+    keyProps: EdgeData<T, L>,
+    data: EdgeData<T, L> = {},
+    graphName?: string
+  ): Promise<EdgeUpsertResult<T, L>> {
+    // Ensure we have a graph name
+    const targetGraph = graphName || this.graphName;
+    if (!targetGraph) {
+      throw new ValidationError('Graph name is required to upsert an edge');
+    }
+
+    this.validateUpsertData(label, fromVertex, toVertex, keyProps, data);
+
+    const { keyPattern, setClause, params } = buildUpsertClauses('r', keyProps, data);
+
+    // Count the existing match first so created and updated can be told apart
+    const query = `
+      MATCH (a), (b)
+      WHERE id(a) = ${fromVertex.id} AND id(b) = ${toVertex.id}
+      OPTIONAL MATCH (a)-[existing:${String(label)} ${keyPattern}]->(b)
+      WITH a, b, count(existing) AS matched
+      MERGE (a)-[r:${String(label)} ${keyPattern}]->(b)${setClause}
+      RETURN a, r, b, matched = 0 AS created
+    `;
+
+    const result = await this.queryExecutor.executeCypher(
+      query,
+      params,
+      targetGraph
+    );
+
+    if (result.rows.length === 0) {
+      throw new ValidationError(
+        `Cannot upsert edge '${String(label)}': vertex ${fromVertex.id} or ${toVertex.id} not found`
+      );
+    }
+
+    const created = isAgtypeTrue(result.rows[0].created);
+
+    return {
+      edge: this.transformToEdge(label, result.rows[0]),
+      created: created ? 1 : 0,
+      updated: created ? 0 : 1,
+    };
+  }
+
+  /**
+   * Validate the endpoints, key properties and data of an edge upsert
+   *
+   * @param label - Edge label
+   * @param fromVertex - Source vertex
+   * @param toVertex - Target vertex
+   * @param keyProps - Properties identifying the edge
+   * @param data - Properties to set on the edge
+   * @throws ValidationError if no key properties are given, a key is null or the vertex labels are invalid
+   * @throws SchemaValidationError if the properties do not match the schema
+   */
+  public validateUpsertData<L extends keyof T['edges']>(
+    label: L,
+    fromVertex: Vertex<T, any>,
+    toVertex: Vertex<T, any>,
+    keyProps: EdgeData<T, L>,
+    data: EdgeData<T, L> = {}
+  ): void {
+    assertUpsertKeys(keyProps);
+    this.validator.validateEdgeAndThrow(label as string, { ...keyProps, ...data });
+    this.validateVertexTypes(label, fromVertex, toVertex);
+  }
+
   /**
    * Get an edge by ID
    *
@@ -196,9 +321,9 @@ export class EdgeOperations<T extends SchemaDefinition> {
     }
 
     // Parse the edge from the result
-    const edgeData = JSON.parse(result.rows[0].r);
-    const fromData = JSON.parse(result.rows[0].a);
-    const toData = JSON.parse(result.rows[0].b);
+    const edgeData = asAgtype(result.rows[0].r);
+    const fromData = asAgtype(result.rows[0].a);
+    const toData = asAgtype(result.rows[0].b);
 
     // Transform to Edge object
     return {
@@ -262,9 +387,9 @@ export class EdgeOperations<T extends SchemaDefinition> {
     }
 
     // Parse the edge from the result
-    const edgeData = JSON.parse(result.rows[0].r);
-    const fromData = JSON.parse(result.rows[0].a);
-    const toData = JSON.parse(result.rows[0].b);
+    const edgeData = asAgtype(result.rows[0].r);
+    const fromData = asAgtype(result.rows[0].a);
+    const toData = asAgtype(result.rows[0].b);
 
     // Transform to Edge object
     return {
@@ -365,17 +490,9 @@ export class EdgeOperations<T extends SchemaDefinition> {
     `;
 
     // Add WHERE clause for filters
-    if (options.filters && options.filters.length > 0) {
-      const filterConditions = options.filters.map(filter => {
-        const operator = this.mapFilterOperator(filter.operator);
-        // Handle boolean values specially to avoid type casting issues
-        if (typeof filter.value === 'boolean') {
-          return `r.${filter.property} ${operator} ${filter.value}`;
-        }
-        return `toString(r.${filter.property}) ${operator} '${String(filter.value)}'`;
-      }).join(' AND ');
-
-      query += `\nWHERE ${filterConditions}`;
+    const filterConditions = this.buildFilterConditions(options.filters);
+    if (filterConditions.length > 0) {
+      query += `\nWHERE ${filterConditions.join(' AND ')}`;
     }
 
     // Add RETURN clause
@@ -410,9 +527,9 @@ export class EdgeOperations<T extends SchemaDefinition> {
 
     // Transform results to Edge objects
     return result.rows.map(row => {
-      const edgeData = JSON.parse(row.r);
-      const _fromData = JSON.parse(row.a);
-      const _toData = JSON.parse(row.b);
+      const edgeData = asAgtype(row.r);
+      const _fromData = asAgtype(row.a);
+      const _toData = asAgtype(row.b);
 
       return {
         id: edgeData.id || edgeData.identity.toString(),
@@ -424,6 +541,97 @@ export class EdgeOperations<T extends SchemaDefinition> {
     });
   }
 
+  /**
+   * Get a page of edges by label using keyset pagination
+   *
+   * Pass the `nextCursor` of a page as `after` to get the following page.
+   * Unlike `limit`/`offset`, pages stay consistent while the label is being
+   * written to.
+   *
+   * @param label - Edge label
+   * @param options - Pagination options
+   * @param graphName - Optional graph name to override the default
+   * @returns Page of edges
+   * @throws ValidationError if the page size, order property or cursor is invalid
+   */
+  async getEdgesPage<L extends keyof T['edges']>(
+    label: L,
+    options: EdgePageOptions = {},
+    graphName?: string
+  ): Promise<Page<Edge<T, L>>> {
+    // Ensure we have a graph name
+    const targetGraph = graphName || this.graphName;
+    if (!targetGraph) {
+      throw new ValidationError('Graph name is required to get edges');
+    }
+
+    const keyset = buildKeysetClauses('r', options);
+    const conditions = this.buildFilterConditions(options.filters);
+    if (keyset.condition) {
+      conditions.push(keyset.condition);
+    }
+
+    let query = `
+      MATCH (a)-[r:${String(label)}]->(b)
+    `;
+    if (conditions.length > 0) {
+      query += `\nWHERE ${conditions.join(' AND ')}`;
+    }
+    query += `\nRETURN a, r, b\nORDER BY ${keyset.orderBy}\nLIMIT ${keyset.fetchSize}`;
+
+    const result = await this.queryExecutor.executeCypher(
+      query,
+      keyset.params,
+      targetGraph
+    );
+
+    const items = result.rows.map(row => this.transformToEdge(label, row));
+    return buildPage(items, options, item => item);
+  }
+
+  /**
+   * Iterate over all edges of a label page by page
+   *
+   * @example
+   * ```typescript
+   * for await (const edge of edgeOperations.iterateEdges('KNOWS', { pageSize: 500 })) {
+   *   console.log(edge.id);
+   * }
+   * ```
+   *
+   * @param label - Edge label
+   * @param options - Pagination options; `after` sets the starting cursor
+   * @param graphName - Optional graph name to override the default
+   * @returns Async iterable of edges
+   */
+  iterateEdges<L extends keyof T['edges']>(
+    label: L,
+    options: EdgePageOptions = {},
+    graphName?: string
+  ): AsyncGenerator<Edge<T, L>, void, undefined> {
+    return iteratePages(
+      after => this.getEdgesPage(label, { ...options, after }, graphName),
+      options.after ?? null
+    );
+  }
+
+  /**
+   * Build Cypher conditions for query filters
+   *
+   * @param filters - Filters to apply
+   * @returns Conditions to join with AND
+   */
+  private buildFilterConditions(filters: EdgeQueryOptions['filters'] = []): string[] {
+    return filters.map(filter => {
+      const operator = this.mapFilterOperator(filter.operator);
+      // Handle boolean values specially to avoid type casting issues
+      if (typeof filter.value === 'boolean') {
+        return `r.${filter.property} ${operator} ${filter.value}`;
+      }
+      return `toString(r.${filter.property}) ${operator} '${String(filter.value)}'`;
+    });
+  }
+
   /**
    * Map SQL filter operator to Cypher operator
    *
@@ -492,9 +700,9 @@ export class EdgeOperations<T extends SchemaDefinition> {
 
     // Transform results to Edge objects
     return result.rows.map(row => {
-      const edgeData = JSON.parse(row.r);
-      const _fromData = JSON.parse(row.a);
-      const _toData = JSON.parse(row.b);
+      const edgeData = asAgtype(row.r);
+      const _fromData = asAgtype(row.a);
+      const _toData = asAgtype(row.b);
 
       return {
         id: edgeData.id || edgeData.identity.toString(),
@@ -559,9 +767,9 @@ export class EdgeOperations<T extends SchemaDefinition> {
     }
 
     // Parse the edge from the result
-    const edgeData = JSON.parse(result.rows[0].r);
-    const fromData = JSON.parse(result.rows[0].a);
-    const toData = JSON.parse(result.rows[0].b);
+    const edgeData = asAgtype(result.rows[0].r);
+    const fromData = asAgtype(result.rows[0].a);
+    const toData = asAgtype(result.rows[0].b);
 
     // Transform to Edge object
     return {
@@ -661,9 +869,9 @@ export class EdgeOperations<T extends SchemaDefinition> {
     }
 
     // Parse the edge from the result
-    const edgeData = JSON.parse(result.rows[0].r);
-    const fromData = JSON.parse(result.rows[0].a);
-    const toData = JSON.parse(result.rows[0].b);
+    const edgeData = asAgtype(result.rows[0].r);
+    const fromData = asAgtype(result.rows[0].a);
+    const toData = asAgtype(result.rows[0].b);
 
     // Transform to Edge object
     return {
@@ -713,9 +921,9 @@ export class EdgeOperations<T extends SchemaDefinition> {
     }
 
     // Parse the edge from the result
-    const edgeData = JSON.parse(result.rows[0].r);
-    const fromData = JSON.parse(result.rows[0].a);
-    const toData = JSON.parse(result.rows[0].b);
+    const edgeData = asAgtype(result.rows[0].r);
+    const fromData = asAgtype(result.rows[0].a);
+    const toData = asAgtype(result.rows[0].b);
 
     // Transform to Edge object
     return {
@@ -819,9 +1027,9 @@ export class EdgeOperations<T extends SchemaDefinition> {
 
     // Transform results to Edge objects
     return result.rows.map(row => {
-      const edgeData = JSON.parse(row.r);
-      const _fromData = JSON.parse(row.a);
-      const _toData = JSON.parse(row.b);
+      const edgeData = asAgtype(row.r);
+      const _fromData = asAgtype(row.a);
+      const _toData = asAgtype(row.b);
 
       return {
         id: edgeData.id || edgeData.identity.toString(),
@@ -880,7 +1088,7 @@ export class EdgeOperations<T extends SchemaDefinition> {
       );
 
       if (result.rows.length > 0) {
-        const edgeData = JSON.parse(result.rows[0].r);
+        const edgeData = asAgtype(result.rows[0].r);
 
         results.push({
           id: edgeData.id || edgeData.identity.toString(),
@@ -1020,6 +1228,39 @@ export class EdgeOperations<T extends SchemaDefinition> {
     }
   }
 
+  /**
+   * Check that the unique constraint values of new edge data are not taken
+   *
+   * @param label - Edge label
+   * @param data - Edge data
+   * @param graphName - Graph name
+   * @throws UniqueConstraintError if another edge has the same values
+   */
+  private async assertUniqueKeysAvailable(
+    label: keyof T['edges'],
+    data: Record<string, any>,
+    graphName: string
+  ): Promise<void> {
+    const definition = this.schema.edges[label as string];
+    if (!definition) {
+      return;
+    }
+
+    for (const constraint of getUniqueConstraints(definition)) {
+      const values = getUniqueKeyValues(data, constraint);
+      if (!values) {
+        continue;
+      }
+
+      const existing = await findExistingUniqueKeys(
+        this.queryExecutor, graphName, 'edge', String(label), constraint, [values]
+      );
+      if (existing.length > 0) {
+        throw new UniqueConstraintError(String(label), constraint, values, 'an edge with these values already exists');
+      }
+    }
+  }
+
   /**
    * Format properties for Cypher query
    *
@@ -1126,23 +1367,15 @@ export class EdgeOperations<T extends SchemaDefinition> {
 
         // Parse edge data
         if (typeof row.r === 'string') {
-          // Try to parse as JSON first
+          // Parse the agtype text, e.g. {"id": 1, "label": "KNOWS", ...}::edge
           try {
-            edgeData = JSON.parse(row.r);
-          } catch (_jsonError) {
-            // If JSON parsing fails, it might be an AGE-specific format with type annotations
-            // Example: {"id": 844424930131969, "label": "KNOWS", "properties": {"since": 2020}}::edge
-            // Strip the type annotation and try again
-            const cleanedStr = row.r.replace(/::edge$/, '');
-            try {
-              edgeData = JSON.parse(cleanedStr);
-            } catch (_cleanedJsonError) {
-              // If that still fails, use a default structure
-              edgeData = {
-                identity: 0,
-                properties: {}
-              };
-            }
+            edgeData = asAgtype(row.r);
+          } catch (_parseError) {
+            // If parsing fails, use a default structure
+            edgeData = {
+              identity: 0,
+              properties: {}
+            };
           }
         } else if (typeof row.r === 'object') {
           edgeData = row.r;
@@ -1157,7 +1390,7 @@ export class EdgeOperations<T extends SchemaDefinition> {
         if (row.a) {
           if (typeof row.a === 'string') {
             try {
-              fromData = JSON.parse(row.a.replace(/::vertex$/, ''));
+              fromData = asAgtype(row.a);
             } catch (_error) {
               fromData = { identity: 0 };
             }
@@ -1174,7 +1407,7 @@ export class EdgeOperations<T extends SchemaDefinition> {
         if (row.b) {
           if (typeof row.b === 'string') {
             try {
-              toData = JSON.parse(row.b.replace(/::vertex$/, ''));
+              toData = asAgtype(row.b);
             } catch (_error) {
               toData = { identity: 0 };
             }
@@ -10,9 +10,23 @@
  * @packageDocumentation
  */
 
-import { PoolClient } from 'pg';
+import { DriverClient } from './driver';
 import { ExtensionInitializer, ConnectionConfig } from './types';
 
+/**
+ * Apache AGE extension initializer options
+ */
+export interface AgeExtensionInitializerOptions {
+  /**
+   * Whether connections are made to a read-only server, such as a streaming
+   * replica. Read-only servers cannot create the age_params temporary table
+   * or the age_schema_client functions, so only the extension and the search
+   * path are set up.
+   * @default false
+   */
+  readOnly?: boolean;
+}
+
 /**
  * Apache AGE extension initializer
  * 
@@ -21,11 +35,32 @@ import { ExtensionInitializer, ConnectionConfig } from './types';
  */
 export class AgeExtensionInitializer implements ExtensionInitializer {
   readonly name = 'Apache AGE';
+  private readOnly: boolean;
 
-  async initialize(client: PoolClient, _config: ConnectionConfig): Promise<void> {
+  /**
+   * Create a new AgeExtensionInitializer
+   *
+   * @param options - Initializer options
+   */
+  constructor(options: AgeExtensionInitializerOptions = {}) {
+    this.readOnly = options.readOnly ?? false;
+  }
+
+  async initialize(client: DriverClient, _config: ConnectionConfig): Promise<void> {
     try {
       const searchPath = _config.pgOptions?.searchPath || 'ag_catalog, "$user", public';
 
+      if (this.readOnly) {
+        await client.query(`
+          LOAD 'age';
+          SET search_path TO ${searchPath};
+        `);
+
+        // @ts-ignore - Adding custom property to track initialization
+        client._ageInitialized = true;
+        return;
+      }
+
       // Use a single query to initialize the connection
       // This ensures all setup is done atomically
       await client.query(`
@@ -55,7 +90,11 @@ export class AgeExtensionInitializer implements ExtensionInitializer {
     }
   }
 
-  async cleanup(client: PoolClient, _config: ConnectionConfig): Promise<void> {
+  async cleanup(client: DriverClient, _config: ConnectionConfig): Promise<void> {
+    if (this.readOnly) {
+      return;
+    }
+
     try {
       // Truncate the age_params table before releasing the connection
       await client.query('TRUNCATE TABLE age_params');
@@ -73,7 +112,7 @@ export class AgeExtensionInitializer implements ExtensionInitializer {
    *
    * @param client - Pool client
    */
-  private async initializeAgeParamsFunctions(client: PoolClient): Promise<void> {
+  private async initializeAgeParamsFunctions(client: DriverClient): Promise<void> {
     try {
       // Create the age_schema_client schema if it doesn't exist
       await client.query(`
@@ -226,7 +265,7 @@ export class AgeExtensionInitializer implements ExtensionInitializer {
 export class PgVectorExtensionInitializer implements ExtensionInitializer {
   readonly name = 'pgvector';
 
-  async initialize(client: PoolClient, _config: ConnectionConfig): Promise<void> {
+  async initialize(client: DriverClient, _config: ConnectionConfig): Promise<void> {
     try {
       // Create the pgvector extension if it doesn't exist
       await client.query('CREATE EXTENSION IF NOT EXISTS vector');
@@ -249,7 +288,7 @@ export class PgVectorExtensionInitializer implements ExtensionInitializer {
 export class PostGISExtensionInitializer implements ExtensionInitializer {
   readonly name = 'PostGIS';
 
-  async initialize(client: PoolClient, _config: ConnectionConfig): Promise<void> {
+  async initialize(client: DriverClient, _config: ConnectionConfig): Promise<void> {
     try {
       // Create the PostGIS extension if it doesn't exist
       await client.query('CREATE EXTENSION IF NOT EXISTS postgis');
@@ -279,7 +318,7 @@ export class SearchPathInitializer implements ExtensionInitializer {
     this.additionalSchemas = additionalSchemas;
   }
 
-  async initialize(client: PoolClient, _config: ConnectionConfig): Promise<void> {
+  async initialize(client: DriverClient, _config: ConnectionConfig): Promise<void> {
     try {
       if (this.additionalSchemas.length === 0) {
         return;
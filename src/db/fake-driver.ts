@@ -0,0 +1,394 @@
+/**
+ * In-process fake driver for unit tests
+ *
+ * The fake driver records every statement it receives and answers with
+ * scripted results, so code built on the connection manager or on a
+ * `QueryExecutor` can be tested without a database.
+ *
+ * @example
+ * ```typescript
+ * const driver = new FakeDriver();
+ * driver.respond(/MATCH \(v:Person\)/, { rows: [{ v: '{"id": 1, "label": "Person", "properties": {}}::vertex' }] });
+ *
+ * const queryExecutor = new QueryExecutor(await driver.connect());
+ * const vertices = new VertexOperations(schema, queryExecutor, sqlGenerator, 'graph');
+ * await vertices.getVerticesByLabel('Person');
+ *
+ * expect(driver.getQueries()).toContainEqual(expect.stringContaining('MATCH (v:Person)'));
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import {
+  CopyData,
+  Driver,
+  DriverClient,
+  DriverPoolStats,
+  DriverQueryConfig,
+  DriverQueryResult,
+  DriverSubscription,
+  NotificationHandler,
+  iterateCopyData,
+} from './driver';
+
+/**
+ * Statement received by the fake driver
+ */
+export interface FakeStatement {
+  /**
+   * Kind of operation
+   */
+  kind: 'query' | 'copy' | 'cursor' | 'listen' | 'unlisten';
+
+  /**
+   * Statement text
+   */
+  text: string;
+
+  /**
+   * Statement parameters
+   */
+  values?: any[];
+
+  /**
+   * Data sent by a COPY statement
+   */
+  data?: string;
+
+  /**
+   * Number of the connection the statement was sent on, starting at 1
+   */
+  clientId: number;
+}
+
+/**
+ * Statement matcher: a text the statement contains (ignoring differences
+ * in whitespace), a regular expression, or a predicate
+ */
+export type FakeStatementMatcher = string | RegExp | ((statement: FakeStatement) => boolean);
+
+/**
+ * Scripted result: a result, an error to throw, or a function of the
+ * statement returning either
+ */
+export type FakeResponse =
+  | Partial<DriverQueryResult>
+  | Error
+  | ((statement: FakeStatement) => Partial<DriverQueryResult> | Error | Promise<Partial<DriverQueryResult> | Error>);
+
+/**
+ * Fake driver options
+ */
+export interface FakeDriverOptions {
+  /**
+   * Maximum number of connections reported in the pool figures
+   * @default 10
+   */
+  max?: number;
+}
+
+/**
+ * Scripted response rule
+ */
+interface FakeRule {
+  matcher: FakeStatementMatcher;
+  response: FakeResponse;
+  remaining: number;
+}
+
+/**
+ * Collapse runs of whitespace
+ *
+ * @param text - Text
+ * @returns Normalized text
+ */
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Connection of the fake driver
+ */
+class FakeDriverClient implements DriverClient {
+  private released = false;
+
+  /**
+   * Create a new FakeDriverClient
+   *
+   * @param id - Connection number
+   * @param driver - Fake driver
+   */
+  constructor(readonly id: number, private readonly driver: FakeDriver) {}
+
+  async query<T = any>(query: string | DriverQueryConfig, values?: any[]): Promise<DriverQueryResult<T>> {
+    const config: DriverQueryConfig = typeof query === 'string' ? { text: query, values } : query;
+    const result = await this.driver.execute({
+      kind: 'query',
+      text: config.text,
+      values: config.values ?? values,
+      clientId: this.id,
+    });
+
+    if (config.rowMode === 'array') {
+      return { ...result, rows: result.rows.map(row => (Array.isArray(row) ? row : Object.values(row))) as T[] };
+    }
+    return result as DriverQueryResult<T>;
+  }
+
+  async copyFrom(sql: string, data: CopyData): Promise<DriverQueryResult> {
+    const chunks: string[] = [];
+    for await (const chunk of iterateCopyData(data)) {
+      chunks.push(chunk.toString());
+    }
+
+    const text = chunks.join('');
+    const lines = text.split('\n').filter(line => line.length > 0).length;
+    const result = await this.driver.execute(
+      { kind: 'copy', text: sql, data: text, clientId: this.id },
+      { rowCount: lines, command: 'COPY' }
+    );
+    return result;
+  }
+
+  async *cursor<T = any>(text: string, values: any[] | undefined, batchSize: number): AsyncIterable<T[]> {
+    const { rows } = await this.driver.execute({ kind: 'cursor', text, values, clientId: this.id });
+    for (let start = 0; start < rows.length; start += batchSize) {
+      yield rows.slice(start, start + batchSize) as T[];
+    }
+  }
+
+  release(error?: Error): void {
+    if (this.released) {
+      throw new Error('Release called on client which has already been released to the pool.');
+    }
+    this.released = true;
+    this.driver.releaseClient(this, error);
+  }
+
+  /**
+   * Make a released connection usable again
+   */
+  reuse(): void {
+    this.released = false;
+  }
+
+  getNativeClient(): FakeDriverClient {
+    return this;
+  }
+}
+
+/**
+ * In-process fake driver
+ */
+export class FakeDriver implements Driver {
+  readonly type = 'fake';
+  private rules: FakeRule[] = [];
+  private statements: FakeStatement[] = [];
+  private idleClients: FakeDriverClient[] = [];
+  private clientCount = 0;
+  private activeCount = 0;
+  private connectHandlers: ((client: DriverClient) => Promise<void>)[] = [];
+  private listeners = new Map<string, Set<NotificationHandler>>();
+  private ended = false;
+  private max: number;
+
+  /**
+   * Create a new FakeDriver
+   *
+   * @param options - Fake driver options
+   */
+  constructor(options: FakeDriverOptions = {}) {
+    this.max = options.max || 10;
+  }
+
+  /**
+   * Answer every matching statement with a scripted result
+   *
+   * Rules registered later take precedence over earlier ones. Statements no
+   * rule matches return no rows.
+   *
+   * @param matcher - Statement matcher
+   * @param response - Scripted result
+   * @returns This driver
+   */
+  respond(matcher: FakeStatementMatcher, response: FakeResponse): this {
+    this.rules.push({ matcher, response, remaining: Infinity });
+    return this;
+  }
+
+  /**
+   * Answer the next matching statement with a scripted result
+   *
+   * @param matcher - Statement matcher
+   * @param response - Scripted result
+   * @returns This driver
+   */
+  respondOnce(matcher: FakeStatementMatcher, response: FakeResponse): this {
+    this.rules.push({ matcher, response, remaining: 1 });
+    return this;
+  }
+
+  /**
+   * Get the statements received so far
+   *
+   * @param kind - Kind of operation to return, all if omitted
+   * @returns Statements in the order they were received
+   */
+  getStatements(kind?: FakeStatement['kind']): FakeStatement[] {
+    return kind ? this.statements.filter(statement => statement.kind === kind) : [...this.statements];
+  }
+
+  /**
+   * Get the texts of the queries received so far
+   *
+   * @returns Query texts in the order they were received
+   */
+  getQueries(): string[] {
+    return this.getStatements('query').map(statement => statement.text);
+  }
+
+  /**
+   * Deliver a notification to the listeners of a channel
+   *
+   * @param channel - Channel name
+   * @param payload - Notification payload
+   */
+  notify(channel: string, payload: string = ''): void {
+    for (const handler of this.listeners.get(channel) ?? []) {
+      handler({ channel, payload, processId: 0 });
+    }
+  }
+
+  /**
+   * Forget the recorded statements and scripted results
+   */
+  reset(): void {
+    this.rules = [];
+    this.statements = [];
+  }
+
+  async connect(): Promise<DriverClient> {
+    if (this.ended) {
+      throw new Error('Cannot use a pool after calling end on the pool');
+    }
+
+    this.activeCount++;
+    const idle = this.idleClients.pop();
+    if (idle) {
+      idle.reuse();
+      return idle;
+    }
+
+    const client = new FakeDriverClient(++this.clientCount, this);
+    for (const handler of this.connectHandlers) {
+      await handler(client);
+    }
+    return client;
+  }
+
+  onConnect(handler: (client: DriverClient) => Promise<void>): void {
+    this.connectHandlers.push(handler);
+  }
+
+  onError(_handler: (error: Error) => void): void {
+    // Fake connections do not fail while idle
+  }
+
+  async listen(channel: string, handler: NotificationHandler): Promise<DriverSubscription> {
+    await this.execute({ kind: 'listen', text: `LISTEN ${channel}`, clientId: 0 });
+
+    let handlers = this.listeners.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(channel, handlers);
+    }
+    handlers.add(handler);
+
+    return {
+      unlisten: async () => {
+        handlers!.delete(handler);
+        await this.execute({ kind: 'unlisten', text: `UNLISTEN ${channel}`, clientId: 0 });
+      },
+    };
+  }
+
+  getStats(): DriverPoolStats {
+    return {
+      total: this.activeCount + this.idleClients.length,
+      idle: this.idleClients.length,
+      waiting: 0,
+      max: this.max,
+    };
+  }
+
+  async end(): Promise<void> {
+    this.ended = true;
+    this.idleClients = [];
+  }
+
+  /**
+   * Record a statement and answer it with the first matching rule
+   *
+   * @param statement - Statement
+   * @param defaults - Result fields used when the response does not set them
+   * @returns Query result
+   * @internal
+   */
+  async execute(statement: FakeStatement, defaults: Partial<DriverQueryResult> = {}): Promise<DriverQueryResult> {
+    this.statements.push(statement);
+
+    const rule = [...this.rules].reverse().find(candidate => this.matches(candidate.matcher, statement));
+    let response: Partial<DriverQueryResult> | Error = {};
+    if (rule) {
+      if (--rule.remaining === 0) {
+        this.rules.splice(this.rules.indexOf(rule), 1);
+      }
+      response = typeof rule.response === 'function' ? await rule.response(statement) : rule.response;
+    }
+
+    if (response instanceof Error) {
+      throw response;
+    }
+
+    const rows = response.rows ?? defaults.rows ?? [];
+    return {
+      rows,
+      rowCount: response.rowCount !== undefined ? response.rowCount : defaults.rowCount ?? rows.length,
+      command: response.command ?? defaults.command ?? statement.text.trim().split(/\s+/)[0].toUpperCase(),
+      fields: response.fields ?? defaults.fields ??
+        Object.keys(rows[0] ?? {}).map(name => ({ name, dataTypeID: 0 })),
+    };
+  }
+
+  /**
+   * Return a connection to the pool
+   *
+   * @param client - Connection
+   * @param error - Error that makes the connection unusable
+   * @internal
+   */
+  releaseClient(client: FakeDriverClient, error?: Error): void {
+    this.activeCount--;
+    if (!error) {
+      this.idleClients.push(client);
+    }
+  }
+
+  /**
+   * Check whether a statement matches a matcher
+   *
+   * @param matcher - Statement matcher
+   * @param statement - Statement
+   * @returns Whether the statement matches
+   */
+  private matches(matcher: FakeStatementMatcher, statement: FakeStatement): boolean {
+    if (typeof matcher === 'function') {
+      return matcher(statement);
+    }
+    if (matcher instanceof RegExp) {
+      return matcher.test(statement.text);
+    }
+    return normalizeWhitespace(statement.text).includes(normalizeWhitespace(matcher));
+  }
+}
@@ -0,0 +1,637 @@
+/**
+ * Graph management
+ *
+ * Creates, lists, clones, renames and drops Apache AGE graphs, and creates
+ * clients scoped to the graph of one tenant.
+ *
+ * @packageDocumentation
+ */
+
+import { QueryExecutor, QueryOptions, QueryResult } from './query';
+import { VertexOperations } from './vertex';
+import { EdgeOperations } from './edge';
+import { ValidationError } from '../core/errors';
+import { SQLGenerator } from '../sql/generator';
+import { quoteIdentifier } from '../sql/utils';
+import { SchemaDefinition } from '../schema/types';
+import { QueryBuilder } from '../query/builder';
+import {
+  GraphData,
+  LoadOptions,
+  LoadResult,
+  SchemaLoader,
+  SchemaLoaderOptions,
+} from '../loader/schema-loader';
+
+/**
+ * Graph names AGE accepts and the Cypher query SQL can embed unquoted
+ */
+const GRAPH_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Maximum length of a PostgreSQL identifier
+ */
+const MAX_IDENTIFIER_LENGTH = 63;
+
+/**
+ * Tenant ids accepted by `GraphManager.forTenant`
+ */
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_]+$/;
+
+/**
+ * Labels AGE creates in every graph as parents of the label tables
+ */
+const BASE_LABELS = ['_ag_label_vertex', '_ag_label_edge'];
+
+/**
+ * Mask of the entry part of a graph id; the upper 16 bits hold the label id
+ */
+const GRAPHID_ENTRY_MASK = '281474976710655';
+
+/**
+ * Graph information
+ */
+export interface GraphInfo {
+  /**
+   * Graph name
+   */
+  name: string;
+
+  /**
+   * Schema holding the graph's label tables
+   */
+  namespace: string;
+
+  /**
+   * Vertex labels of the graph
+   */
+  vertexLabels: string[];
+
+  /**
+   * Edge labels of the graph
+   */
+  edgeLabels: string[];
+}
+
+/**
+ * Options for creating a graph
+ */
+export interface CreateGraphOptions {
+  /**
+   * Do nothing if the graph exists
+   * @default false
+   */
+  ifNotExists?: boolean;
+}
+
+/**
+ * Options for dropping a graph
+ */
+export interface DropGraphOptions {
+  /**
+   * Drop the graph with its vertices and edges; without it, graphs holding
+   * data are not dropped
+   * @default false
+   */
+  cascade?: boolean;
+
+  /**
+   * Do nothing if the graph does not exist
+   * @default false
+   */
+  ifExists?: boolean;
+}
+
+/**
+ * Options for cloning a graph
+ */
+export interface CloneGraphOptions {
+  /**
+   * Copy the vertices and edges, not just the labels
+   * @default true
+   */
+  withData?: boolean;
+}
+
+/**
+ * Options for tenant-scoped clients
+ */
+export interface TenantClientOptions {
+  /**
+   * Prefix of tenant graph names
+   * @default 'tenant_'
+   */
+  graphPrefix?: string;
+
+  /**
+   * Create the tenant's graph if it does not exist
+   * @default true
+   */
+  createIfMissing?: boolean;
+
+  /**
+   * Options of the tenant's schema loader; the graph name is always the
+   * tenant's
+   */
+  loaderOptions?: Omit<SchemaLoaderOptions, 'defaultGraphName'>;
+}
+
+/**
+ * Label of a graph, as stored in ag_catalog.ag_label
+ */
+interface GraphLabel {
+  name: string;
+  id: number;
+  kind: 'v' | 'e';
+  seqName: string;
+}
+
+/**
+ * Check that a graph name can be used with AGE
+ *
+ * Graph names are embedded in the SQL of Cypher queries, so only letters,
+ * digits and underscores are accepted.
+ *
+ * @param graphName - Graph name
+ * @throws ValidationError if the name is not a valid graph name
+ */
+export function validateGraphName(graphName: string): void {
+  if (typeof graphName !== 'string' || !GRAPH_NAME_PATTERN.test(graphName)) {
+    throw new ValidationError(
+      `Invalid graph name '${graphName}': use letters, digits and underscores, starting with a letter or underscore`
+    );
+  }
+
+  if (graphName.length > MAX_IDENTIFIER_LENGTH) {
+    throw new ValidationError(
+      `Invalid graph name '${graphName}': graph names are at most ${MAX_IDENTIFIER_LENGTH} characters long`
+    );
+  }
+}
+
+/**
+ * Graph manager
+ *
+ * @example
+ * ```typescript
+ * const graphs = new GraphManager(queryExecutor);
+ * await graphs.createGraph('social', { ifNotExists: true });
+ * await graphs.cloneGraph('social', 'social_staging');
+ *
+ * const tenant = await graphs.forTenant('acme', schema);
+ * await tenant.vertices.createVertex('Person', { name: 'Ann' });
+ * ```
+ */
+export class GraphManager {
+  /**
+   * Create a new GraphManager
+   *
+   * @param queryExecutor - Query executor
+   */
+  constructor(private queryExecutor: QueryExecutor) {}
+
+  /**
+   * Create a graph
+   *
+   * @param graphName - Graph name
+   * @param options - Create options
+   * @returns Whether the graph was created
+   */
+  async createGraph(graphName: string, options: CreateGraphOptions = {}): Promise<boolean> {
+    validateGraphName(graphName);
+
+    if (options.ifNotExists && await this.graphExists(graphName)) {
+      return false;
+    }
+
+    await this.queryExecutor.executeSQL('SELECT ag_catalog.create_graph($1)', [graphName]);
+    return true;
+  }
+
+  /**
+   * Drop a graph
+   *
+   * AGE always drops a graph's schema with its label tables; without
+   * `cascade`, this method refuses to drop a graph that holds vertices or
+   * edges.
+   *
+   * @param graphName - Graph name
+   * @param options - Drop options
+   * @returns Whether the graph was dropped
+   * @throws ValidationError if the graph does not exist, or holds data and
+   * `cascade` is not set
+   */
+  async dropGraph(graphName: string, options: DropGraphOptions = {}): Promise<boolean> {
+    validateGraphName(graphName);
+
+    if (!await this.graphExists(graphName)) {
+      if (options.ifExists) {
+        return false;
+      }
+      throw new ValidationError(`Graph '${graphName}' does not exist`);
+    }
+
+    if (!options.cascade && await this.hasData(graphName)) {
+      throw new ValidationError(
+        `Graph '${graphName}' holds vertices or edges; drop it with cascade to delete them`
+      );
+    }
+
+    await this.queryExecutor.executeSQL('SELECT ag_catalog.drop_graph($1, true)', [graphName]);
+    return true;
+  }
+
+  /**
+   * List the graphs of the database
+   *
+   * @returns Graphs ordered by name
+   */
+  async listGraphs(): Promise<GraphInfo[]> {
+    const result = await this.queryExecutor.executeSQL(`
+      SELECT
+        g.name::text AS name,
+        g.namespace::text AS namespace,
+        COALESCE(array_agg(l.name::text ORDER BY l.name) FILTER (WHERE l.kind = 'v'), '{}') AS vertex_labels,
+        COALESCE(array_agg(l.name::text ORDER BY l.name) FILTER (WHERE l.kind = 'e'), '{}') AS edge_labels
+      FROM ag_catalog.ag_graph g
+      LEFT JOIN ag_catalog.ag_label l
+        ON l.graph = g.graphid AND l.name <> ALL($1::text[])
+      GROUP BY g.graphid, g.name, g.namespace
+      ORDER BY g.name
+    `, [BASE_LABELS], { readOnly: true });
+
+    return result.rows.map(row => ({
+      name: row.name,
+      namespace: row.namespace,
+      vertexLabels: row.vertex_labels,
+      edgeLabels: row.edge_labels,
+    }));
+  }
+
+  /**
+   * Check whether a graph exists
+   *
+   * @param graphName - Graph name
+   * @returns Whether the graph exists
+   */
+  async graphExists(graphName: string): Promise<boolean> {
+    const result = await this.queryExecutor.executeSQL(
+      'SELECT EXISTS (SELECT 1 FROM ag_catalog.ag_graph WHERE name = $1) AS exists',
+      [graphName]
+    );
+    return result.rows[0]?.exists === true;
+  }
+
+  /**
+   * Copy a graph into a new graph
+   *
+   * The labels are created in the new graph and, unless `withData` is
+   * false, the vertices and edges are copied with their graph ids' entry
+   * numbers, so ids only change in their label part. Indexes on the label
+   * tables are not copied.
+   *
+   * @param sourceGraph - Graph to copy
+   * @param targetGraph - Name of the new graph
+   * @param options - Clone options
+   * @throws ValidationError if the source graph does not exist or the
+   * target graph does
+   */
+  async cloneGraph(
+    sourceGraph: string,
+    targetGraph: string,
+    options: CloneGraphOptions = {}
+  ): Promise<void> {
+    validateGraphName(sourceGraph);
+    validateGraphName(targetGraph);
+
+    if (!await this.graphExists(sourceGraph)) {
+      throw new ValidationError(`Graph '${sourceGraph}' does not exist`);
+    }
+    if (await this.graphExists(targetGraph)) {
+      throw new ValidationError(`Graph '${targetGraph}' already exists`);
+    }
+
+    const transaction = await this.queryExecutor.beginTransaction();
+    try {
+      await this.queryExecutor.executeSQL('SELECT ag_catalog.create_graph($1)', [targetGraph]);
+
+      const sourceLabels = await this.getLabels(sourceGraph);
+      for (const label of sourceLabels) {
+        if (!BASE_LABELS.includes(label.name)) {
+          await this.queryExecutor.executeSQL(
+            `SELECT ag_catalog.${label.kind === 'v' ? 'create_vlabel' : 'create_elabel'}($1, $2)`,
+            [targetGraph, label.name]
+          );
+        }
+      }
+
+      if (options.withData !== false) {
+        await this.copyData(sourceGraph, targetGraph, sourceLabels, await this.getLabels(targetGraph));
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a graph
+   *
+   * @param graphName - Graph name
+   * @param newName - New graph name
+   */
+  async renameGraph(graphName: string, newName: string): Promise<void> {
+    validateGraphName(graphName);
+    validateGraphName(newName);
+
+    await this.queryExecutor.executeSQL(
+      "SELECT ag_catalog.alter_graph($1, 'RENAME', $2)",
+      [graphName, newName]
+    );
+  }
+
+  /**
+   * Get the graph name of a tenant
+   *
+   * @param tenantId - Tenant id
+   * @param graphPrefix - Prefix of tenant graph names
+   * @returns Graph name
+   * @throws ValidationError if the tenant id is not made of letters, digits
+   * and underscores
+   */
+  getTenantGraphName(tenantId: string, graphPrefix: string = 'tenant_'): string {
+    if (typeof tenantId !== 'string' || !TENANT_ID_PATTERN.test(tenantId)) {
+      throw new ValidationError(
+        `Invalid tenant id '${tenantId}': use letters, digits and underscores`
+      );
+    }
+
+    // Lower case keeps 'Acme' and 'acme' from sharing a graph name that
+    // differs only in case
+    const graphName = `${graphPrefix}${tenantId.toLowerCase()}`;
+    validateGraphName(graphName);
+    return graphName;
+  }
+
+  /**
+   * Create a client scoped to a tenant's graph
+   *
+   * @param tenantId - Tenant id
+   * @param schema - Schema of the tenant's graph
+   * @param options - Tenant client options
+   * @returns Tenant client
+   */
+  async forTenant<T extends SchemaDefinition>(
+    tenantId: string,
+    schema: T,
+    options: TenantClientOptions = {}
+  ): Promise<TenantGraphClient<T>> {
+    const graphName = this.getTenantGraphName(tenantId, options.graphPrefix);
+
+    if (options.createIfMissing !== false) {
+      await this.createGraph(graphName, { ifNotExists: true });
+    } else if (!await this.graphExists(graphName)) {
+      throw new ValidationError(`Graph '${graphName}' of tenant '${tenantId}' does not exist`);
+    }
+
+    return new TenantGraphClient(
+      tenantId,
+      graphName,
+      schema,
+      this.queryExecutor.forGraph(graphName),
+      options.loaderOptions
+    );
+  }
+
+  /**
+   * Check whether a graph holds vertices or edges
+   *
+   * @param graphName - Graph name
+   * @returns Whether the graph holds data
+   */
+  private async hasData(graphName: string): Promise<boolean> {
+    const schema = quoteIdentifier(graphName);
+    const result = await this.queryExecutor.executeSQL(`
+      SELECT
+        EXISTS (SELECT 1 FROM ${schema}._ag_label_vertex)
+        OR EXISTS (SELECT 1 FROM ${schema}._ag_label_edge) AS has_data
+    `);
+    return result.rows[0]?.has_data === true;
+  }
+
+  /**
+   * Get the labels of a graph
+   *
+   * @param graphName - Graph name
+   * @returns Labels ordered by id
+   */
+  private async getLabels(graphName: string): Promise<GraphLabel[]> {
+    const result = await this.queryExecutor.executeSQL(`
+      SELECT l.name::text AS name, l.id, l.kind, l.seq_name::text AS seq_name
+      FROM ag_catalog.ag_label l
+      JOIN ag_catalog.ag_graph g ON g.graphid = l.graph
+      WHERE g.name = $1
+      ORDER BY l.id
+    `, [graphName]);
+
+    return result.rows.map(row => ({
+      name: row.name,
+      id: Number(row.id),
+      kind: row.kind,
+      seqName: row.seq_name,
+    }));
+  }
+
+  /**
+   * Copy the vertices and edges of a graph into a clone
+   *
+   * @param sourceGraph - Graph to copy
+   * @param targetGraph - Clone
+   * @param sourceLabels - Labels of the graph to copy
+   * @param targetLabels - Labels of the clone
+   */
+  private async copyData(
+    sourceGraph: string,
+    targetGraph: string,
+    sourceLabels: GraphLabel[],
+    targetLabels: GraphLabel[]
+  ): Promise<void> {
+    const targetIds = new Map(targetLabels.map(label => [label.name, label.id]));
+    const labelMap = sourceLabels
+      .map(label => `(${label.id}, ${targetIds.get(label.name)})`)
+      .join(', ');
+    const source = quoteIdentifier(sourceGraph);
+    const target = quoteIdentifier(targetGraph);
+
+    // Vertices first, so every edge endpoint exists when edges are copied
+    const ordered = [
+      ...sourceLabels.filter(label => label.kind === 'v'),
+      ...sourceLabels.filter(label => label.kind === 'e'),
+    ].filter(label => !BASE_LABELS.includes(label.name));
+
+    for (const label of ordered) {
+      const table = quoteIdentifier(label.name);
+      const targetId = targetIds.get(label.name);
+      const entry = (column: string) => `(${column}::text::bigint & ${GRAPHID_ENTRY_MASK})`;
+
+      if (label.kind === 'v') {
+        await this.queryExecutor.executeSQL(`
+          INSERT INTO ${target}.${table} (id, properties)
+          SELECT ag_catalog._graphid(${targetId}, ${entry('v.id')}), v.properties
+          FROM ONLY ${source}.${table} v
+        `);
+      } else {
+        await this.queryExecutor.executeSQL(`
+          WITH label_map (source_id, target_id) AS (VALUES ${labelMap})
+          INSERT INTO ${target}.${table} (id, start_id, end_id, properties)
+          SELECT
+            ag_catalog._graphid(${targetId}, ${entry('e.id')}),
+            ag_catalog._graphid(start_label.target_id, ${entry('e.start_id')}),
+            ag_catalog._graphid(end_label.target_id, ${entry('e.end_id')}),
+            e.properties
+          FROM ONLY ${source}.${table} e
+          JOIN label_map start_label ON start_label.source_id = (e.start_id::text::bigint >> 48)
+          JOIN label_map end_label ON end_label.source_id = (e.end_id::text::bigint >> 48)
+        `);
+      }
+
+      // Continue the clone's id sequence where the source's stands
+      const targetLabel = targetLabels.find(candidate => candidate.name === label.name)!;
+      await this.queryExecutor.executeSQL(`
+        SELECT setval($1::regclass, s.last_value, s.is_called)
+        FROM ${source}.${quoteIdentifier(label.seqName)} s
+      `, [`${target}.${quoteIdentifier(targetLabel.seqName)}`]);
+    }
+  }
+}
+
+/**
+ * Client scoped to the graph of one tenant
+ *
+ * Every Cypher query runs on the tenant's graph: the client's query executor
+ * rejects queries naming another graph, and loads always target the
+ * tenant's graph. Raw SQL run through `queryExecutor.executeSQL` is not
+ * scoped.
+ */
+export class TenantGraphClient<T extends SchemaDefinition> {
+  /**
+   * Vertex operations on the tenant's graph
+   */
+  readonly vertices: VertexOperations<T>;
+
+  /**
+   * Edge operations on the tenant's graph
+   */
+  readonly edges: EdgeOperations<T>;
+
+  private loader: SchemaLoader<T>;
+
+  /**
+   * Create a new TenantGraphClient
+   *
+   * @param tenantId - Tenant id
+   * @param graphName - Graph name of the tenant
+   * @param schema - Schema of the tenant's graph
+   * @param queryExecutor - Query executor scoped to the tenant's graph
+   * @param loaderOptions - Schema loader options
+   */
+  constructor(
+    readonly tenantId: string,
+    readonly graphName: string,
+    readonly schema: T,
+    readonly queryExecutor: QueryExecutor,
+    loaderOptions: Omit<SchemaLoaderOptions, 'defaultGraphName'> = {}
+  ) {
+    const sqlGenerator = new SQLGenerator(schema);
+    this.vertices = new VertexOperations(schema, queryExecutor, sqlGenerator, graphName);
+    this.edges = new EdgeOperations(schema, queryExecutor, sqlGenerator, graphName);
+    this.loader = new SchemaLoader(schema, queryExecutor, { ...loaderOptions, defaultGraphName: graphName });
+  }
+
+  /**
+   * Create a query builder on the tenant's graph
+   *
+   * @returns Query builder
+   */
+  createQueryBuilder(): QueryBuilder<T> {
+    return new QueryBuilder(this.schema, this.queryExecutor, this.graphName);
+  }
+
+  /**
+   * Execute a Cypher query on the tenant's graph
+   *
+   * @param cypher - Cypher query
+   * @param params - Query parameters
+   * @param options - Query options
+   * @returns Query result
+   */
+  async executeCypher<R = any>(
+    cypher: string,
+    params?: Record<string, any>,
+    options: QueryOptions = {}
+  ): Promise<QueryResult<R>> {
+    return this.queryExecutor.executeCypher<R>(cypher, params, this.graphName, options);
+  }
+
+  /**
+   * Load graph data into the tenant's graph
+   *
+   * @param data - Graph data
+   * @param options - Load options
+   * @returns Load result
+   */
+  async loadGraphData(data: GraphData, options: Omit<LoadOptions, 'graphName'> = {}): Promise<LoadResult> {
+    return this.loader.loadGraphData(data, this.pinLoadOptions(options));
+  }
+
+  /**
+   * Load vertices into the tenant's graph
+   *
+   * @param vertices - Vertex data
+   * @param options - Load options
+   * @returns Load result
+   */
+  async loadVertices(
+    vertices: Record<string, any[]>,
+    options: Omit<LoadOptions, 'graphName'> = {}
+  ): Promise<LoadResult> {
+    return this.loader.loadVertices(vertices, this.pinLoadOptions(options));
+  }
+
+  /**
+   * Load edges into the tenant's graph
+   *
+   * @param edges - Edge data
+   * @param options - Load options
+   * @returns Load result
+   */
+  async loadEdges(
+    edges: Record<string, any[]>,
+    options: Omit<LoadOptions, 'graphName'> = {}
+  ): Promise<LoadResult> {
+    return this.loader.loadEdges(edges, this.pinLoadOptions(options));
+  }
+
+  /**
+   * Load graph data from a JSON file into the tenant's graph
+   *
+   * @param filePath - Path to the JSON file
+   * @param options - Load options
+   * @returns Load result
+   */
+  async loadFromFile(filePath: string, options: Omit<LoadOptions, 'graphName'> = {}): Promise<LoadResult> {
+    return this.loader.loadFromFile(filePath, this.pinLoadOptions(options));
+  }
+
+  /**
+   * Set the tenant's graph on load options
+   *
+   * @param options - Load options
+   * @returns Load options on the tenant's graph
+   */
+  private pinLoadOptions(options: LoadOptions): LoadOptions {
+    return { ...options, graphName: this.graphName };
+  }
+}
@@ -10,6 +10,13 @@ import './init';
 // Export database types
 export * from './types';
 
+// Export database drivers
+export * from './driver';
+export * from './driver-registry';
+export * from './pg-driver';
+export * from './postgres-driver';
+export * from './fake-driver';
+
 // Export connection manager
 export * from './connector';
 
@@ -22,15 +29,33 @@ export * from './schema-client-connection-manager';
 // Export transaction manager
 export * from './transaction';
 
+// Export retry helpers
+export * from './retry';
+
+// Export instrumentation
+export * from './instrumentation';
+
 // Export query executor
 export * from './query';
 
+// Export Cypher result column parser
+export * from './cypher-parser';
+
+// Export agtype parser
+export * from './agtype';
+
+// Export keyset pagination
+export * from './pagination';
+
 // Export vertex operations
 export * from './vertex';
 
 // Export edge operations
 export * from './edge';
 
+// Export graph management
+export * from './graph-manager';
+
 // Export batch operations
 export * from './batch';
 
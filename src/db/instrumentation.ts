@@ -0,0 +1,512 @@
+/**
+ * Tracing and metrics instrumentation for database calls
+ *
+ * Spans wrap SQL and Cypher queries, transaction boundaries and the phases
+ * of a schema load; gauges report connection pool statistics. Any tracing
+ * library can back the `Instrumentation` interface: `InMemoryInstrumentation`
+ * records spans and gauges for tests, and `createOpenTelemetryInstrumentation`
+ * forwards them to a tracer and meter shaped like the OpenTelemetry API
+ * without depending on it.
+ *
+ * @packageDocumentation
+ */
+
+import { PoolStats } from './types';
+
+/**
+ * Span or gauge attribute value
+ */
+export type AttributeValue = string | number | boolean;
+
+/**
+ * Span or gauge attributes; undefined values are left out
+ */
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+/**
+ * Names of the spans created by the library
+ */
+export enum SpanName {
+  SQL = 'db.sql',
+  CYPHER = 'db.cypher',
+  COPY = 'db.copy',
+  TRANSACTION_BEGIN = 'db.transaction.begin',
+  TRANSACTION_COMMIT = 'db.transaction.commit',
+  TRANSACTION_ROLLBACK = 'db.transaction.rollback',
+  LOAD_GRAPH = 'loader.load_graph',
+  LOAD_VERTICES = 'loader.load_vertices',
+  LOAD_EDGES = 'loader.load_edges',
+  LOAD_VALIDATE = 'loader.validate',
+  LOAD_STORE = 'loader.store',
+  LOAD_CREATE = 'loader.create',
+}
+
+/**
+ * Attribute keys set on spans
+ */
+export enum SpanAttribute {
+  SYSTEM = 'db.system',
+  STATEMENT = 'db.statement',
+  GRAPH = 'age.graph',
+  LABEL = 'age.label',
+  ROW_COUNT = 'db.row_count',
+  ERROR_TYPE = 'error.type',
+  TRANSACTION_ID = 'db.transaction.id',
+  ISOLATION_LEVEL = 'db.transaction.isolation_level',
+  POOL_NAME = 'db.pool.name',
+}
+
+/**
+ * Names of the connection pool gauges
+ */
+export enum PoolGauge {
+  TOTAL = 'db.pool.connections.total',
+  IDLE = 'db.pool.connections.idle',
+  ACTIVE = 'db.pool.connections.active',
+  WAITING = 'db.pool.requests.waiting',
+  MAX = 'db.pool.connections.max',
+  HEALTHY = 'db.pool.healthy',
+}
+
+/**
+ * Span started by an instrumentation
+ */
+export interface InstrumentationSpan {
+  /**
+   * Set attributes on the span
+   *
+   * @param attributes - Attributes to set
+   */
+  setAttributes(attributes: Attributes): void;
+
+  /**
+   * Record the error the spanned operation failed with
+   *
+   * @param error - Error
+   */
+  recordError(error: unknown): void;
+
+  /**
+   * End the span
+   */
+  end(): void;
+}
+
+/**
+ * Instrumentation receiving the spans and gauges of the library
+ */
+export interface Instrumentation {
+  /**
+   * Start a span
+   *
+   * @param name - Span name
+   * @param attributes - Initial attributes
+   * @returns Started span
+   */
+  startSpan(name: string, attributes?: Attributes): InstrumentationSpan;
+
+  /**
+   * Record the current value of a gauge
+   *
+   * @param name - Gauge name
+   * @param value - Current value
+   * @param attributes - Gauge attributes
+   */
+  recordGauge(name: string, value: number, attributes?: Attributes): void;
+}
+
+/**
+ * Span that records nothing
+ */
+const NOOP_SPAN: InstrumentationSpan = {
+  setAttributes: () => {},
+  recordError: () => {},
+  end: () => {},
+};
+
+/**
+ * Instrumentation that records nothing, used when none is configured
+ */
+export const noopInstrumentation: Instrumentation = {
+  startSpan: () => NOOP_SPAN,
+  recordGauge: () => {},
+};
+
+/**
+ * Remove undefined values from attributes
+ *
+ * @param attributes - Attributes
+ * @returns Attributes with defined values
+ */
+function definedAttributes(attributes: Attributes = {}): Record<string, AttributeValue> {
+  const defined: Record<string, AttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      defined[key] = value;
+    }
+  }
+  return defined;
+}
+
+/**
+ * Run an operation in a span
+ *
+ * The span records the error the operation throws and is ended when the
+ * operation settles.
+ *
+ * @param instrumentation - Instrumentation
+ * @param name - Span name
+ * @param attributes - Initial attributes
+ * @param operation - Operation to run
+ * @returns Result of the operation
+ */
+export async function withSpan<T>(
+  instrumentation: Instrumentation,
+  name: string,
+  attributes: Attributes,
+  operation: (span: InstrumentationSpan) => Promise<T>
+): Promise<T> {
+  const span = instrumentation.startSpan(name, attributes);
+
+  try {
+    return await operation(span);
+  } catch (error) {
+    span.recordError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Record connection pool statistics as gauges
+ *
+ * When the statistics include the figures of each pool, these are recorded
+ * as well, with the pool name as an attribute.
+ *
+ * @param instrumentation - Instrumentation
+ * @param stats - Pool statistics
+ * @param attributes - Gauge attributes
+ */
+export function recordPoolStats(
+  instrumentation: Instrumentation,
+  stats: PoolStats,
+  attributes?: Attributes
+): void {
+  instrumentation.recordGauge(PoolGauge.TOTAL, stats.total, attributes);
+  instrumentation.recordGauge(PoolGauge.IDLE, stats.idle, attributes);
+  instrumentation.recordGauge(PoolGauge.ACTIVE, stats.active, attributes);
+  instrumentation.recordGauge(PoolGauge.WAITING, stats.waiting, attributes);
+  instrumentation.recordGauge(PoolGauge.MAX, stats.max, attributes);
+
+  for (const pool of stats.pools ?? []) {
+    const poolAttributes = { ...attributes, [SpanAttribute.POOL_NAME]: pool.name };
+    instrumentation.recordGauge(PoolGauge.TOTAL, pool.total, poolAttributes);
+    instrumentation.recordGauge(PoolGauge.IDLE, pool.idle, poolAttributes);
+    instrumentation.recordGauge(PoolGauge.ACTIVE, pool.active, poolAttributes);
+    instrumentation.recordGauge(PoolGauge.WAITING, pool.waiting, poolAttributes);
+    instrumentation.recordGauge(PoolGauge.MAX, pool.max, poolAttributes);
+    instrumentation.recordGauge(PoolGauge.HEALTHY, pool.healthy ? 1 : 0, poolAttributes);
+  }
+}
+
+/**
+ * Span recorded by `InMemoryInstrumentation`
+ */
+export interface RecordedSpan {
+  /**
+   * Span name
+   */
+  name: string;
+
+  /**
+   * Span attributes
+   */
+  attributes: Record<string, AttributeValue>;
+
+  /**
+   * Start time in milliseconds since the epoch
+   */
+  startTime: number;
+
+  /**
+   * End time in milliseconds since the epoch
+   */
+  endTime: number;
+
+  /**
+   * Duration in milliseconds
+   */
+  duration: number;
+
+  /**
+   * Error the operation failed with
+   */
+  error?: unknown;
+}
+
+/**
+ * Gauge value recorded by `InMemoryInstrumentation`
+ */
+export interface RecordedGauge {
+  /**
+   * Gauge name
+   */
+  name: string;
+
+  /**
+   * Recorded value
+   */
+  value: number;
+
+  /**
+   * Gauge attributes
+   */
+  attributes: Record<string, AttributeValue>;
+
+  /**
+   * Time the value was recorded, in milliseconds since the epoch
+   */
+  timestamp: number;
+}
+
+/**
+ * Instrumentation that keeps spans and gauges in memory
+ *
+ * Intended for tests: spans are available once they have ended.
+ *
+ * @example
+ * ```typescript
+ * const instrumentation = new InMemoryInstrumentation();
+ * const executor = new QueryExecutor(connection, undefined, instrumentation);
+ *
+ * await executor.executeSQL('SELECT 1');
+ * instrumentation.getFinishedSpans(SpanName.SQL); // [{ name: 'db.sql', ... }]
+ * ```
+ */
+export class InMemoryInstrumentation implements Instrumentation {
+  private spans: RecordedSpan[] = [];
+  private gauges: RecordedGauge[] = [];
+
+  /**
+   * Start a span
+   *
+   * @param name - Span name
+   * @param attributes - Initial attributes
+   * @returns Started span
+   */
+  startSpan(name: string, attributes?: Attributes): InstrumentationSpan {
+    const startTime = Date.now();
+    const spanAttributes = definedAttributes(attributes);
+    let error: unknown;
+    let ended = false;
+
+    return {
+      setAttributes: (more: Attributes) => {
+        Object.assign(spanAttributes, definedAttributes(more));
+      },
+      recordError: (spanError: unknown) => {
+        error = spanError;
+      },
+      end: () => {
+        if (ended) {
+          return;
+        }
+        ended = true;
+
+        const endTime = Date.now();
+        this.spans.push({
+          name,
+          attributes: spanAttributes,
+          startTime,
+          endTime,
+          duration: endTime - startTime,
+          ...(error !== undefined ? { error } : {}),
+        });
+      },
+    };
+  }
+
+  /**
+   * Record the current value of a gauge
+   *
+   * @param name - Gauge name
+   * @param value - Current value
+   * @param attributes - Gauge attributes
+   */
+  recordGauge(name: string, value: number, attributes?: Attributes): void {
+    this.gauges.push({ name, value, attributes: definedAttributes(attributes), timestamp: Date.now() });
+  }
+
+  /**
+   * Get the spans that have ended, in the order they ended
+   *
+   * @param name - Only return spans with this name
+   * @returns Finished spans
+   */
+  getFinishedSpans(name?: string): RecordedSpan[] {
+    return name ? this.spans.filter(span => span.name === name) : [...this.spans];
+  }
+
+  /**
+   * Get the recorded gauge values, oldest first
+   *
+   * @param name - Only return values of this gauge
+   * @returns Recorded gauge values
+   */
+  getGauges(name?: string): RecordedGauge[] {
+    return name ? this.gauges.filter(gauge => gauge.name === name) : [...this.gauges];
+  }
+
+  /**
+   * Get the most recent value of a gauge
+   *
+   * @param name - Gauge name
+   * @returns Most recent value, if any was recorded
+   */
+  getGaugeValue(name: string): number | undefined {
+    const values = this.getGauges(name);
+    return values.length > 0 ? values[values.length - 1].value : undefined;
+  }
+
+  /**
+   * Forget all recorded spans and gauges
+   */
+  reset(): void {
+    this.spans = [];
+    this.gauges = [];
+  }
+}
+
+/**
+ * Status codes of OpenTelemetry spans (`SpanStatusCode`)
+ */
+const OTEL_STATUS_OK = 1;
+const OTEL_STATUS_ERROR = 2;
+
+/**
+ * Client span kind of OpenTelemetry (`SpanKind.CLIENT`)
+ */
+const OTEL_SPAN_KIND_CLIENT = 2;
+
+/**
+ * Span with the methods of an OpenTelemetry `Span` used by the adapter
+ */
+export interface OpenTelemetrySpanLike {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  recordException(exception: Error | string): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): unknown;
+}
+
+/**
+ * Tracer with the methods of an OpenTelemetry `Tracer` used by the adapter
+ */
+export interface OpenTelemetryTracerLike {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: Record<string, AttributeValue> }
+  ): OpenTelemetrySpanLike;
+}
+
+/**
+ * Gauge with the methods of an OpenTelemetry `Gauge` used by the adapter
+ */
+export interface OpenTelemetryGaugeLike {
+  record(value: number, attributes?: Record<string, AttributeValue>): unknown;
+}
+
+/**
+ * Meter with the methods of an OpenTelemetry `Meter` used by the adapter
+ */
+export interface OpenTelemetryMeterLike {
+  createGauge(name: string, options?: { description?: string; unit?: string }): OpenTelemetryGaugeLike;
+}
+
+/**
+ * Options for the OpenTelemetry adapter
+ */
+export interface OpenTelemetryInstrumentationOptions {
+  /**
+   * Tracer spans are started with, e.g. `trace.getTracer('age-schema-client')`
+   */
+  tracer: OpenTelemetryTracerLike;
+
+  /**
+   * Meter gauges are created with; gauges are dropped without one
+   */
+  meter?: OpenTelemetryMeterLike;
+}
+
+/**
+ * Create an instrumentation that forwards to OpenTelemetry
+ *
+ * Spans are started as client spans; a failed operation records the
+ * exception and sets the error status, and a successful one sets the OK
+ * status. The tracer and meter only need the shape of the OpenTelemetry
+ * API, so `@opentelemetry/api` is not a dependency of this library.
+ *
+ * @example
+ * ```typescript
+ * import { metrics, trace } from '@opentelemetry/api';
+ *
+ * const instrumentation = createOpenTelemetryInstrumentation({
+ *   tracer: trace.getTracer('age-schema-client'),
+ *   meter: metrics.getMeter('age-schema-client'),
+ * });
+ * ```
+ *
+ * @param options - Tracer and meter
+ * @returns Instrumentation
+ */
+export function createOpenTelemetryInstrumentation(
+  options: OpenTelemetryInstrumentationOptions
+): Instrumentation {
+  const gauges = new Map<string, OpenTelemetryGaugeLike>();
+
+  return {
+    startSpan(name: string, attributes?: Attributes): InstrumentationSpan {
+      const span = options.tracer.startSpan(name, {
+        kind: OTEL_SPAN_KIND_CLIENT,
+        attributes: definedAttributes(attributes),
+      });
+      let failed = false;
+
+      return {
+        setAttributes: (more: Attributes) => {
+          for (const [key, value] of Object.entries(definedAttributes(more))) {
+            span.setAttribute(key, value);
+          }
+        },
+        recordError: (error: unknown) => {
+          failed = true;
+          const exception = error instanceof Error ? error : String(error);
+          span.recordException(exception);
+          span.setStatus({
+            code: OTEL_STATUS_ERROR,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        },
+        end: () => {
+          if (!failed) {
+            span.setStatus({ code: OTEL_STATUS_OK });
+          }
+          span.end();
+        },
+      };
+    },
+
+    recordGauge(name: string, value: number, attributes?: Attributes): void {
+      if (!options.meter) {
+        return;
+      }
+
+      let gauge = gauges.get(name);
+      if (!gauge) {
+        gauge = options.meter.createGauge(name);
+        gauges.set(name, gauge);
+      }
+      gauge.record(value, definedAttributes(attributes));
+    },
+  };
+}
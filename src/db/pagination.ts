@@ -0,0 +1,279 @@
+/**
+ * Keyset (cursor) pagination helpers for vertex and edge listings
+ *
+ * A page is selected by the position of the last item of the previous page
+ * rather than by an offset, so pages stay fast on large labels and do not
+ * skip or repeat items when the label is written to between requests. The
+ * position is handed to callers as an opaque cursor token.
+ *
+ * @packageDocumentation
+ */
+
+import { ValidationError } from '../core/errors';
+import { SQLOrderDirection } from './types';
+
+/**
+ * A page of results
+ */
+export interface Page<T> {
+  /**
+   * Items of the page
+   */
+  items: T[];
+
+  /**
+   * Cursor to pass as `after` to get the next page; null on the last page
+   */
+  nextCursor: string | null;
+
+  /**
+   * Whether more items follow this page
+   */
+  hasMore: boolean;
+}
+
+/**
+ * Cursor pagination options
+ */
+export interface CursorPageOptions {
+  /**
+   * Maximum number of items per page
+   * @default 100
+   */
+  pageSize?: number;
+
+  /**
+   * Cursor returned as `nextCursor` by the previous page
+   */
+  after?: string | null;
+
+  /**
+   * Property to order by; items are ordered by graph id when omitted
+   *
+   * Ties are broken by graph id. Items without a value for the property are
+   * not returned.
+   */
+  orderBy?: {
+    /**
+     * Property to order by
+     */
+    property: string;
+    /**
+     * Direction to order in
+     * @default SQLOrderDirection.ASC
+     */
+    direction?: SQLOrderDirection;
+  };
+}
+
+/**
+ * Default number of items per page
+ */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Decoded position of a cursor
+ */
+interface CursorPosition {
+  /**
+   * Order property, or null when ordering by graph id
+   */
+  p: string | null;
+
+  /**
+   * Order direction
+   */
+  d: 'ASC' | 'DESC';
+
+  /**
+   * Value of the order property
+   */
+  v?: string | number | boolean;
+
+  /**
+   * Graph id
+   */
+  id: string;
+}
+
+/**
+ * Pattern for property names that may be used in an ORDER BY clause
+ */
+const PROPERTY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Keyset pagination query parts for a single variable
+ */
+export interface KeysetClauses {
+  /**
+   * Condition selecting items after the cursor, if any
+   */
+  condition?: string;
+
+  /**
+   * ORDER BY expression list
+   */
+  orderBy: string;
+
+  /**
+   * Query parameters referenced by the condition
+   */
+  params: Record<string, any>;
+
+  /**
+   * Number of rows to fetch; one more than the page size
+   */
+  fetchSize: number;
+}
+
+/**
+ * Get the order direction keyword of pagination options
+ *
+ * @param options - Pagination options
+ * @returns Direction keyword
+ */
+function orderDirection(options: CursorPageOptions): 'ASC' | 'DESC' {
+  return options.orderBy?.direction === SQLOrderDirection.DESC ? 'DESC' : 'ASC';
+}
+
+/**
+ * Encode a cursor position as an opaque token
+ *
+ * @param position - Cursor position
+ * @returns Cursor token
+ */
+function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify(position), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor token and check it matches the requested ordering
+ *
+ * @param cursor - Cursor token
+ * @param options - Pagination options
+ * @returns Cursor position
+ * @throws ValidationError if the cursor is malformed or was created for another ordering
+ */
+function decodeCursor(cursor: string, options: CursorPageOptions): CursorPosition {
+  let position: CursorPosition;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (_error) {
+    throw new ValidationError('Invalid pagination cursor');
+  }
+
+  if (!position || typeof position !== 'object' || typeof position.id !== 'string' || !/^\d+$/.test(position.id)) {
+    throw new ValidationError('Invalid pagination cursor');
+  }
+
+  if (position.p !== (options.orderBy?.property ?? null) || position.d !== orderDirection(options)) {
+    throw new ValidationError('Pagination cursor does not match the requested ordering');
+  }
+
+  return position;
+}
+
+/**
+ * Build the ORDER BY, cursor condition and parameters of a keyset page query
+ *
+ * @param variable - Cypher variable of the paginated vertex or edge
+ * @param options - Pagination options
+ * @returns Query parts
+ * @throws ValidationError if the page size, order property or cursor is invalid
+ */
+export function buildKeysetClauses(variable: string, options: CursorPageOptions): KeysetClauses {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(pageSize) || pageSize <= 0) {
+    throw new ValidationError(`Invalid page size: ${pageSize}`);
+  }
+
+  const property = options.orderBy?.property;
+  if (property !== undefined && !PROPERTY_PATTERN.test(property)) {
+    throw new ValidationError(`Invalid order property: ${property}`);
+  }
+
+  const direction = orderDirection(options);
+  const comparison = direction === 'ASC' ? '>' : '<';
+  const idExpression = `id(${variable})`;
+  const conditions: string[] = [];
+  const params: Record<string, any> = {};
+
+  if (property) {
+    conditions.push(`${variable}.${property} IS NOT NULL`);
+  }
+
+  if (options.after) {
+    const position = decodeCursor(options.after, options);
+
+    // Graph ids are interpolated to stay exact beyond the safe integer range
+    if (property) {
+      params.cursor_value = position.v;
+      conditions.push(
+        `(${variable}.${property} ${comparison} $cursor_value OR ` +
+        `(${variable}.${property} = $cursor_value AND ${idExpression} ${comparison} ${position.id}))`
+      );
+    } else {
+      conditions.push(`${idExpression} ${comparison} ${position.id}`);
+    }
+  }
+
+  return {
+    condition: conditions.length > 0 ? conditions.join(' AND ') : undefined,
+    orderBy: property
+      ? `${variable}.${property} ${direction}, ${idExpression} ${direction}`
+      : `${idExpression} ${direction}`,
+    params,
+    fetchSize: pageSize + 1,
+  };
+}
+
+/**
+ * Build a page from the rows fetched with `buildKeysetClauses`
+ *
+ * @param items - Fetched items, up to one more than the page size
+ * @param options - Pagination options
+ * @param getPosition - Get the graph id and properties of an item
+ * @returns Page of items
+ */
+export function buildPage<T>(
+  items: T[],
+  options: CursorPageOptions,
+  getPosition: (item: T) => { id: string | bigint | number; properties?: Record<string, any> }
+): Page<T> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const hasMore = items.length > pageSize;
+  const pageItems = hasMore ? items.slice(0, pageSize) : items;
+
+  let nextCursor: string | null = null;
+  if (hasMore) {
+    const last = getPosition(pageItems[pageItems.length - 1]);
+    const property = options.orderBy?.property ?? null;
+    nextCursor = encodeCursor({
+      p: property,
+      d: orderDirection(options),
+      ...(property ? { v: last.properties?.[property] } : {}),
+      id: String(last.id),
+    });
+  }
+
+  return { items: pageItems, nextCursor, hasMore };
+}
+
+/**
+ * Walk all pages of a paginated listing
+ *
+ * @param fetchPage - Fetch the page after a cursor
+ * @param after - Cursor to start after
+ * @returns Async iterable of items
+ */
+export async function* iteratePages<T>(
+  fetchPage: (after: string | null) => Promise<Page<T>>,
+  after: string | null = null
+): AsyncGenerator<T, void, undefined> {
+  let cursor = after;
+  do {
+    const page = await fetchPage(cursor);
+    yield* page.items;
+    cursor = page.hasMore ? page.nextCursor : null;
+  } while (cursor);
+}
@@ -0,0 +1,365 @@
+/**
+ * Driver for node-postgres (the `pg` package)
+ *
+ * @packageDocumentation
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { ConnectionConfig } from './types';
+import {
+  CopyData,
+  Driver,
+  DriverClient,
+  DriverPoolStats,
+  DriverQueryConfig,
+  DriverQueryResult,
+  DriverSubscription,
+  NotificationHandler,
+  iterateCopyData,
+  parseCommandRowCount,
+} from './driver';
+import { getSqlState } from './retry';
+import { quoteIdentifier } from '../sql/utils';
+
+/**
+ * SQLSTATE of DECLARE CURSOR outside a transaction block
+ */
+const NO_ACTIVE_SQL_TRANSACTION = '25P01';
+
+/**
+ * Counter used to give each cursor a unique name
+ */
+let cursorCounter = 0;
+
+/**
+ * Convert a pg query result to a driver query result
+ *
+ * @param result - pg query result
+ * @returns Driver query result
+ */
+function toDriverResult(result: any): DriverQueryResult {
+  // Multi-statement queries return one result per statement
+  const last = Array.isArray(result) ? result[result.length - 1] : result;
+
+  return {
+    ...last,
+    rows: last?.rows ?? [],
+    rowCount: last?.rowCount ?? null,
+    command: last?.command ?? '',
+    fields: (last?.fields ?? []).map((field: any) => ({ name: field.name, dataTypeID: field.dataTypeID })),
+  };
+}
+
+/**
+ * COPY FROM STDIN query submitted through the pg client's query queue
+ *
+ * pg has no public COPY API; like pg-copy-streams, this object implements
+ * the callbacks the client invokes for the messages of the active query.
+ */
+class CopyFromQuery {
+  private settled = false;
+  private rowCount: number | null = null;
+  private error?: Error;
+  readonly promise: Promise<DriverQueryResult>;
+  private resolve!: (result: DriverQueryResult) => void;
+  private reject!: (error: Error) => void;
+
+  /**
+   * Create a new COPY FROM query
+   *
+   * @param text - COPY statement
+   * @param data - Data to send
+   */
+  constructor(private readonly text: string, private readonly data: CopyData) {
+    this.promise = new Promise((resolve, reject) => {
+      this.resolve = resolve;
+      this.reject = reject;
+    });
+  }
+
+  submit(connection: any): void {
+    connection.query(this.text);
+  }
+
+  handleCopyInResponse(connection: any): void {
+    void this.sendData(connection);
+  }
+
+  handleCommandComplete(message: any): void {
+    this.rowCount = parseCommandRowCount(message.text);
+  }
+
+  handleError(error: Error): void {
+    this.error = error;
+    this.settle();
+  }
+
+  handleReadyForQuery(): void {
+    this.settle();
+  }
+
+  callback(error?: Error): void {
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Send the data and end the COPY, or fail it when reading the data fails
+   *
+   * @param connection - pg connection
+   */
+  private async sendData(connection: any): Promise<void> {
+    try {
+      for await (const chunk of iterateCopyData(this.data)) {
+        connection.sendCopyFromChunk(chunk);
+      }
+      connection.endCopyFrom();
+    } catch (error) {
+      connection.sendCopyFail((error as Error).message);
+    }
+  }
+
+  /**
+   * Settle the promise once
+   */
+  private settle(): void {
+    if (this.settled) {
+      return;
+    }
+    this.settled = true;
+
+    if (this.error) {
+      this.reject(this.error);
+    } else {
+      this.resolve({ rows: [], rowCount: this.rowCount, command: 'COPY', fields: [] });
+    }
+  }
+}
+
+/**
+ * Connection taken from a pg pool
+ */
+class PgDriverClient implements DriverClient {
+  /**
+   * Create a new PgDriverClient
+   *
+   * @param client - Pool client
+   */
+  constructor(private readonly client: PoolClient) {}
+
+  async query<T = any>(query: string | DriverQueryConfig, values?: any[]): Promise<DriverQueryResult<T>> {
+    const result = values === undefined
+      ? await this.client.query(query as any)
+      : await this.client.query(query as any, values);
+    return toDriverResult(result);
+  }
+
+  async copyFrom(sql: string, data: CopyData): Promise<DriverQueryResult> {
+    const copy = new CopyFromQuery(sql, data);
+    this.client.query(copy as any);
+    return copy.promise;
+  }
+
+  /**
+   * Read the rows of a query in batches through a SQL cursor
+   *
+   * Cursors only live in transactions; outside one, the cursor gets a
+   * transaction of its own that is committed when the rows are read.
+   */
+  async *cursor<T = any>(text: string, values: any[] | undefined, batchSize: number): AsyncIterable<T[]> {
+    const name = `age_driver_cursor_${++cursorCounter}`;
+    const declare = { text: `DECLARE ${name} NO SCROLL CURSOR FOR ${text}`, values };
+    let ownTransaction = false;
+
+    try {
+      await this.client.query(declare);
+    } catch (error) {
+      if (getSqlState(error) !== NO_ACTIVE_SQL_TRANSACTION) {
+        throw error;
+      }
+      await this.client.query('BEGIN');
+      ownTransaction = true;
+      await this.client.query(declare);
+    }
+
+    let failed = false;
+    try {
+      for (;;) {
+        const { rows } = await this.client.query(`FETCH ${batchSize} FROM ${name}`);
+        if (rows.length > 0) {
+          yield rows as T[];
+        }
+        if (rows.length < batchSize) {
+          return;
+        }
+      }
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      if (ownTransaction) {
+        await this.client.query(failed ? 'ROLLBACK' : 'COMMIT');
+      } else if (!failed) {
+        await this.client.query(`CLOSE ${name}`);
+      }
+    }
+  }
+
+  release(error?: Error): void {
+    if (error) {
+      this.client.release(error);
+    } else {
+      this.client.release();
+    }
+  }
+
+  getNativeClient(): PoolClient {
+    return this.client;
+  }
+}
+
+/**
+ * Driver for node-postgres
+ */
+export class PgDriver implements Driver {
+  readonly type = 'pg';
+  private pool: Pool;
+  private listenClient: Promise<PoolClient> | null = null;
+  private listeners = new Map<string, Set<NotificationHandler>>();
+
+  /**
+   * Create a new PgDriver
+   *
+   * @param config - Connection configuration
+   */
+  constructor(config: ConnectionConfig) {
+    this.pool = this.createPool(config);
+  }
+
+  /**
+   * Create a connection pool
+   *
+   * @param config - Connection configuration
+   * @returns Connection pool
+   */
+  private createPool(config: ConnectionConfig): Pool {
+    // If connectionString is provided, use it directly
+    if (config.connectionString) {
+      return new Pool({ connectionString: config.connectionString });
+    }
+
+    // Otherwise, create connection parameters
+    const poolConfig: any = {
+      host: config.host,
+      port: config.port,
+      database: config.database,
+      user: config.user,
+      password: config.password,
+      ssl: config.ssl,
+      max: config.pool?.max,
+      idleTimeoutMillis: config.pool?.idleTimeoutMillis,
+      connectionTimeoutMillis: config.pool?.connectionTimeoutMillis,
+      allowExitOnIdle: config.pool?.allowExitOnIdle,
+      // Add any other pg-specific options except search_path
+      application_name: config.pgOptions?.applicationName,
+    };
+
+    // We'll set search_path with a SQL query after connecting
+    return new Pool(poolConfig);
+  }
+
+  async connect(): Promise<DriverClient> {
+    return new PgDriverClient(await this.pool.connect());
+  }
+
+  /**
+   * Register a handler run once on each new connection
+   *
+   * pg does not wait for the handler, so queries sent right after the
+   * connection is taken are queued behind the handler's queries.
+   */
+  onConnect(handler: (client: DriverClient) => Promise<void>): void {
+    this.pool.on('connect', (client: PoolClient) => {
+      void handler(new PgDriverClient(client));
+    });
+  }
+
+  onError(handler: (error: Error) => void): void {
+    this.pool.on('error', handler);
+  }
+
+  /**
+   * Receive notifications sent on a channel
+   *
+   * All channels share one connection, which is held while any channel has
+   * a listener.
+   */
+  async listen(channel: string, handler: NotificationHandler): Promise<DriverSubscription> {
+    const client = await this.getListenClient();
+
+    let handlers = this.listeners.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(channel, handlers);
+      await client.query(`LISTEN ${quoteIdentifier(channel)}`);
+    }
+    handlers.add(handler);
+
+    return {
+      unlisten: async () => {
+        if (!handlers!.delete(handler) || handlers!.size > 0) {
+          return;
+        }
+
+        this.listeners.delete(channel);
+        await client.query(`UNLISTEN ${quoteIdentifier(channel)}`);
+
+        if (this.listeners.size === 0 && this.listenClient) {
+          this.listenClient = null;
+          client.release();
+        }
+      },
+    };
+  }
+
+  /**
+   * Get the connection notifications are received on
+   *
+   * @returns Pool client
+   */
+  private getListenClient(): Promise<PoolClient> {
+    if (!this.listenClient) {
+      this.listenClient = this.pool.connect().then(client => {
+        client.on('notification', message => {
+          for (const handler of this.listeners.get(message.channel) ?? []) {
+            handler({ channel: message.channel, payload: message.payload ?? '', processId: message.processId });
+          }
+        });
+        return client;
+      });
+    }
+
+    return this.listenClient;
+  }
+
+  getStats(): DriverPoolStats {
+    return {
+      total: this.pool.totalCount,
+      idle: this.pool.idleCount,
+      waiting: this.pool.waitingCount,
+      max: this.pool.options.max || 10,
+    };
+  }
+
+  async end(): Promise<void> {
+    if (this.listenClient) {
+      const client = await this.listenClient;
+      this.listenClient = null;
+      this.listeners.clear();
+      client.release();
+    }
+
+    await this.pool.end();
+  }
+}
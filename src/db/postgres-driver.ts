@@ -0,0 +1,365 @@
+/**
+ * Driver for Postgres.js (the `postgres` package)
+ *
+ * The driver only relies on the shape of the Postgres.js API, so `postgres`
+ * is not a dependency of this library. Pass the module's default export as
+ * `driver.postgres`, or an `sql` instance as `driver.sql`.
+ *
+ * @packageDocumentation
+ */
+
+import { ConnectionConfig, ConnectionError, DriverOptions } from './types';
+import {
+  CopyData,
+  Driver,
+  DriverClient,
+  DriverPoolStats,
+  DriverQueryConfig,
+  DriverQueryResult,
+  DriverSubscription,
+  NotificationHandler,
+  iterateCopyData,
+} from './driver';
+
+/**
+ * Session setting marking a connection whose connect handlers have run
+ */
+const INITIALIZED_SETTING = 'age_schema_client.initialized';
+
+/**
+ * Result of a Postgres.js query, an array of rows with result metadata
+ */
+export interface PostgresResultLike extends Array<any> {
+  count?: number | null;
+  command?: string;
+  columns?: { name: string; type: number }[];
+}
+
+/**
+ * Writable stream of a Postgres.js COPY FROM STDIN query
+ */
+export interface PostgresWritableLike {
+  write(chunk: Buffer, callback?: (error?: Error | null) => void): boolean;
+  end(callback?: () => void): void;
+  once(event: 'drain' | 'finish' | 'error', listener: (error?: Error) => void): void;
+}
+
+/**
+ * Pending Postgres.js query
+ */
+export interface PostgresPendingQueryLike extends PromiseLike<PostgresResultLike> {
+  values(): PromiseLike<PostgresResultLike>;
+  simple(): PostgresPendingQueryLike;
+  cursor(rows: number): AsyncIterable<any[]>;
+  writable(): Promise<PostgresWritableLike>;
+}
+
+/**
+ * Postgres.js `sql` instance or reserved connection
+ */
+export interface PostgresSqlLike {
+  unsafe(query: string, parameters?: any[], options?: { prepare?: boolean }): PostgresPendingQueryLike;
+}
+
+/**
+ * Reserved Postgres.js connection
+ */
+export interface PostgresReservedSqlLike extends PostgresSqlLike {
+  release(): void;
+}
+
+/**
+ * Postgres.js `sql` instance
+ */
+export interface PostgresPoolSqlLike extends PostgresSqlLike {
+  reserve(): Promise<PostgresReservedSqlLike>;
+  listen(
+    channel: string,
+    onNotify: (payload: string) => void
+  ): Promise<{ unlisten(): Promise<void> }>;
+  end(options?: { timeout?: number }): Promise<void>;
+  options?: { max?: number };
+}
+
+/**
+ * Postgres.js module default export
+ */
+export type PostgresFactoryLike = (
+  urlOrOptions?: string | Record<string, any>,
+  options?: Record<string, any>
+) => PostgresPoolSqlLike;
+
+/**
+ * Options of the Postgres.js driver
+ */
+export interface PostgresDriverOptions extends DriverOptions {
+  /**
+   * Postgres.js module default export, used to create the `sql` instance
+   */
+  postgres?: PostgresFactoryLike;
+
+  /**
+   * Postgres.js `sql` instance to use instead of creating one
+   */
+  sql?: PostgresPoolSqlLike;
+
+  /**
+   * Options passed to Postgres.js in addition to those derived from the
+   * connection configuration
+   */
+  options?: Record<string, any>;
+}
+
+/**
+ * Convert a Postgres.js result to a driver query result
+ *
+ * @param result - Postgres.js result
+ * @param types - pg type parsers to apply to text values
+ * @returns Driver query result
+ */
+function toDriverResult(
+  result: PostgresResultLike,
+  types?: DriverQueryConfig['types']
+): DriverQueryResult {
+  // Multi-statement queries return one result per statement
+  const last: PostgresResultLike = Array.isArray(result[0]) && (result[0] as any).command !== undefined
+    ? result[result.length - 1]
+    : result;
+  const columns = last.columns ?? [];
+
+  let rows = Array.from(last);
+  if (types) {
+    // Postgres.js parses the types it knows; values of other types arrive as text
+    rows = rows.map(row => {
+      const parsed: any = Array.isArray(row) ? [...row] : { ...row };
+      columns.forEach((column, index) => {
+        const key = Array.isArray(row) ? index : column.name;
+        if (typeof parsed[key] === 'string') {
+          parsed[key] = types.getTypeParser(column.type, 'text')(parsed[key]);
+        }
+      });
+      return parsed;
+    });
+  }
+
+  return {
+    rows,
+    rowCount: last.count ?? null,
+    command: last.command ?? '',
+    fields: columns.map(column => ({ name: column.name, dataTypeID: column.type })),
+  };
+}
+
+/**
+ * Connection reserved from a Postgres.js pool
+ */
+class PostgresDriverClient implements DriverClient {
+  /**
+   * Create a new PostgresDriverClient
+   *
+   * @param sql - Reserved connection
+   * @param onRelease - Called when the connection is released
+   */
+  constructor(
+    private readonly sql: PostgresReservedSqlLike,
+    private readonly onRelease: () => void
+  ) {}
+
+  async query<T = any>(query: string | DriverQueryConfig, values?: any[]): Promise<DriverQueryResult<T>> {
+    const config: DriverQueryConfig = typeof query === 'string' ? { text: query, values } : query;
+    const parameters = config.values ?? values;
+
+    let pending = this.sql.unsafe(config.text, parameters, config.name ? { prepare: true } : undefined);
+    if (!parameters || parameters.length === 0) {
+      // The simple protocol allows several statements in one query
+      pending = pending.simple();
+    }
+
+    const result = config.rowMode === 'array' ? await pending.values() : await pending;
+    return toDriverResult(result, config.types);
+  }
+
+  async copyFrom(sql: string, data: CopyData): Promise<DriverQueryResult> {
+    const writable = await this.sql.unsafe(sql).writable();
+
+    await new Promise<void>((resolve, reject) => {
+      writable.once('error', reject);
+      writable.once('finish', () => resolve());
+
+      void (async () => {
+        try {
+          for await (const chunk of iterateCopyData(data)) {
+            if (!writable.write(chunk)) {
+              await new Promise(drained => writable.once('drain', () => drained(undefined)));
+            }
+          }
+          writable.end();
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+
+    // Postgres.js does not report the row count of COPY
+    return { rows: [], rowCount: null, command: 'COPY', fields: [] };
+  }
+
+  async *cursor<T = any>(text: string, values: any[] | undefined, batchSize: number): AsyncIterable<T[]> {
+    for await (const rows of this.sql.unsafe(text, values).cursor(batchSize)) {
+      yield rows as T[];
+    }
+  }
+
+  release(): void {
+    this.sql.release();
+    this.onRelease();
+  }
+
+  getNativeClient(): PostgresReservedSqlLike {
+    return this.sql;
+  }
+}
+
+/**
+ * Driver for Postgres.js
+ */
+export class PostgresDriver implements Driver {
+  readonly type = 'postgres';
+  private sql: PostgresPoolSqlLike;
+  private max: number;
+  private reserved = 0;
+  private waiting = 0;
+  private connectHandlers: ((client: DriverClient) => Promise<void>)[] = [];
+
+  /**
+   * Create a new PostgresDriver
+   *
+   * @param config - Connection configuration
+   * @throws ConnectionError if neither the Postgres.js module nor an `sql`
+   * instance is given
+   */
+  constructor(config: ConnectionConfig) {
+    const options = (config.driver || {}) as PostgresDriverOptions;
+    this.max = config.pool?.max || 10;
+
+    if (options.sql) {
+      this.sql = options.sql;
+    } else if (options.postgres) {
+      this.sql = this.createSql(options.postgres, config, options.options);
+    } else {
+      throw new ConnectionError(
+        'The postgres driver requires the Postgres.js module as driver.postgres or an sql instance as driver.sql'
+      );
+    }
+  }
+
+  /**
+   * Create a Postgres.js `sql` instance
+   *
+   * @param postgres - Postgres.js module default export
+   * @param config - Connection configuration
+   * @param extraOptions - Additional Postgres.js options
+   * @returns sql instance
+   */
+  private createSql(
+    postgres: PostgresFactoryLike,
+    config: ConnectionConfig,
+    extraOptions: Record<string, any> = {}
+  ): PostgresPoolSqlLike {
+    const options: Record<string, any> = {
+      max: this.max,
+      idle_timeout: config.pool?.idleTimeoutMillis ? config.pool.idleTimeoutMillis / 1000 : undefined,
+      connect_timeout: config.pool?.connectionTimeoutMillis ? config.pool.connectionTimeoutMillis / 1000 : undefined,
+      connection: config.pgOptions?.applicationName
+        ? { application_name: config.pgOptions.applicationName }
+        : undefined,
+      ...extraOptions,
+    };
+
+    if (config.connectionString) {
+      return postgres(config.connectionString, options);
+    }
+
+    return postgres({
+      host: config.host,
+      port: config.port,
+      database: config.database,
+      username: config.user,
+      password: config.password,
+      ssl: config.ssl,
+      ...options,
+    });
+  }
+
+  /**
+   * Reserve a connection and run the connect handlers on it if it is new
+   *
+   * Postgres.js does not report when it opens a connection, so a session
+   * setting marks connections whose handlers have run.
+   */
+  async connect(): Promise<DriverClient> {
+    this.waiting++;
+    let sql: PostgresReservedSqlLike;
+    try {
+      sql = await this.sql.reserve();
+    } finally {
+      this.waiting--;
+    }
+
+    this.reserved++;
+    const client = new PostgresDriverClient(sql, () => this.reserved--);
+
+    if (this.connectHandlers.length > 0) {
+      try {
+        const [marker] = await sql.unsafe(`SELECT current_setting('${INITIALIZED_SETTING}', true) AS initialized`);
+        if (marker?.initialized !== 'on') {
+          for (const handler of this.connectHandlers) {
+            await handler(client);
+          }
+          await sql.unsafe(`SET ${INITIALIZED_SETTING} = 'on'`);
+        }
+      } catch (error) {
+        client.release();
+        throw error;
+      }
+    }
+
+    return client;
+  }
+
+  onConnect(handler: (client: DriverClient) => Promise<void>): void {
+    this.connectHandlers.push(handler);
+  }
+
+  /**
+   * Postgres.js reports connection errors to the queries that use the
+   * connection, so there are no idle connection errors to handle
+   */
+  onError(_handler: (error: Error) => void): void {
+    // Nothing to register
+  }
+
+  async listen(channel: string, handler: NotificationHandler): Promise<DriverSubscription> {
+    const subscription = await this.sql.listen(channel, payload => handler({ channel, payload }));
+    return { unlisten: () => subscription.unlisten() };
+  }
+
+  /**
+   * Get connection pool figures
+   *
+   * Postgres.js does not expose its pool, so connections are counted as
+   * they are reserved and released through this driver.
+   */
+  getStats(): DriverPoolStats {
+    return {
+      total: this.reserved,
+      idle: 0,
+      waiting: this.waiting,
+      max: this.sql.options?.max || this.max,
+    };
+  }
+
+  async end(): Promise<void> {
+    await this.sql.end();
+  }
+}
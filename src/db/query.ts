@@ -4,7 +4,35 @@
  * @packageDocumentation
  */
 
-import { Connection, QueryError, TimeoutError } from './types';
+import {
+  Connection,
+  ConnectionSource,
+  DatabaseError,
+  DatabaseErrorType,
+  QueryError,
+  TimeoutError,
+} from './types';
+import {
+  CypherTokenType,
+  inferReturnColumns,
+  buildColumnDefinitions,
+  tokenizeCypher,
+} from './cypher-parser';
+import { classifyDatabaseError, isTransientErrorType } from './retry';
+import {
+  Attributes,
+  Instrumentation,
+  SpanAttribute,
+  SpanName,
+  noopInstrumentation,
+  withSpan,
+} from './instrumentation';
+import {
+  AgtypeParseError,
+  AgtypeParseOptions,
+  asAgtype,
+  createAgtypeTypeParsers,
+} from './agtype';
 
 /**
  * Query result
@@ -88,6 +116,14 @@ export interface QueryOptions {
 
   /**
    * Maximum number of retry attempts
+   *
+   * A query is retried only when it failed with a transient error (a lost
+   * connection, too many connections, a serialization failure or a
+   * deadlock), is idempotent, and does not run inside a transaction. A lost
+   * connection or a full pool is only retried on read replica connections,
+   * which are acquired again for each attempt; the executor's own
+   * connection is not replaced.
+   *
    * @default 0 (no retries)
    */
   maxRetries?: number;
@@ -109,10 +145,137 @@ export interface QueryOptions {
    */
   name?: string;
 
+  /**
+   * Whether the query can safely run again after a transient failure
+   *
+   * When omitted, read-only queries are idempotent: SQL that starts with
+   * `SELECT`, `WITH`, `SHOW`, `VALUES` or `TABLE` and contains no data
+   * changing keywords, and Cypher without `CREATE`, `MERGE`, `SET`,
+   * `DELETE`, `REMOVE` or `CALL` clauses.
+   */
+  idempotent?: boolean;
+
+  /**
+   * Whether the query may run on a read replica
+   *
+   * Only takes effect when the executor was given a source of replica
+   * connections. Statements that are not read-only (see `idempotent`), and
+   * queries that run inside a transaction, always run on the executor's
+   * connection.
+   * @default false
+   */
+  readOnly?: boolean;
+
   /**
    * Transaction object
    */
   transaction?: any;
+
+  /**
+   * Result column names for Cypher queries
+   *
+   * When omitted, the columns are inferred from the RETURN clause.
+   */
+  returnColumns?: string[];
+
+  /**
+   * Parsing of agtype result columns of Cypher queries
+   *
+   * Vertices, edges and paths are returned as `AgVertex`, `AgEdge` and
+   * `AgPath` instances. Set to `false` to receive the raw agtype text.
+   */
+  agtype?: AgtypeParseOptions | false;
+}
+
+/**
+ * Stream options
+ */
+export interface StreamOptions extends QueryOptions {
+  /**
+   * Number of rows fetched from the server per round trip
+   * @default 1000
+   */
+  batchSize?: number;
+
+  /**
+   * Transform each row as it is read
+   *
+   * Cypher streams parse agtype column values before `parseRow` is called.
+   */
+  parseRow?: (row: Record<string, any>) => any;
+}
+
+/**
+ * Default number of rows fetched per round trip when streaming
+ */
+const DEFAULT_STREAM_BATCH_SIZE = 1000;
+
+/**
+ * Counter used to give each streaming cursor a unique name
+ */
+let streamCursorCounter = 0;
+
+/**
+ * Query that looks up the type OID of ag_catalog.agtype without failing when
+ * the extension is missing, so it is safe inside a transaction
+ */
+const AGTYPE_OID_QUERY = `
+  SELECT t.oid
+  FROM pg_catalog.pg_type t
+  JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+  WHERE n.nspname = 'ag_catalog' AND t.typname = 'agtype'
+`;
+
+/**
+ * Keywords a read-only SQL statement starts with
+ */
+const READ_ONLY_SQL_COMMANDS = new Set(['SELECT', 'WITH', 'SHOW', 'VALUES', 'TABLE']);
+
+/**
+ * Keywords that make a SQL statement change data, including the Cypher
+ * clauses of a `cypher()` call embedded in it
+ */
+const WRITE_SQL_KEYWORDS = /\b(INSERT|UPDATE|DELETE|MERGE|CREATE|DROP|ALTER|TRUNCATE|COPY|GRANT|REVOKE|INTO|NEXTVAL|SETVAL|SET|REMOVE|CALL|DO)\b/i;
+
+/**
+ * Cypher clauses that change the graph or may run arbitrary procedures
+ */
+const WRITE_CYPHER_CLAUSES = new Set(['CREATE', 'MERGE', 'SET', 'DELETE', 'DETACH', 'REMOVE', 'CALL']);
+
+/**
+ * Check whether a SQL statement only reads data
+ *
+ * The check is conservative: a keyword inside a string literal or an
+ * identifier makes the statement count as a write.
+ *
+ * @param sql - SQL statement
+ * @returns Whether the statement is read-only
+ */
+function isReadOnlySQL(sql: string): boolean {
+  const text = sql.replace(/--[^\n]*/g, ' ').replace(/\/\*[\s\S]*?\*\//g, ' ').trim();
+  const command = text.match(/^\(*\s*([A-Za-z]+)/)?.[1]?.toUpperCase();
+
+  return command !== undefined &&
+    READ_ONLY_SQL_COMMANDS.has(command) &&
+    !WRITE_SQL_KEYWORDS.test(text);
+}
+
+/**
+ * Check whether a Cypher query only reads the graph
+ *
+ * @param cypher - Cypher query
+ * @returns Whether the query is read-only
+ */
+function isReadOnlyCypher(cypher: string): boolean {
+  try {
+    return !tokenizeCypher(cypher).some(token =>
+      token.type === CypherTokenType.IDENTIFIER &&
+      !token.quoted &&
+      WRITE_CYPHER_CLAUSES.has(token.value.toUpperCase())
+    );
+  } catch {
+    return false;
+  }
 }
 
 /**
@@ -250,19 +413,81 @@ export class DefaultQueryLogger implements QueryLogger {
 export class QueryExecutor {
   private connection: Connection;
   private logger: QueryLogger;
+  private instrumentation: Instrumentation;
+  private readConnections?: ConnectionSource;
+
+  /**
+   * Type OID of ag_catalog.agtype; null if it could not be resolved
+   */
+  private agtypeOid?: number | null;
+
+  /**
+   * Whether a transaction begun with `beginTransaction` is open
+   */
+  private inTransaction = false;
+
+  /**
+   * Graph every Cypher query runs on, set by `forGraph`
+   */
+  private pinnedGraph?: string;
 
   /**
    * Create a new query executor
    *
    * @param connection - Database connection
    * @param logger - Query logger
+   * @param instrumentation - Instrumentation receiving a span per query
+   * @param readConnections - Source of read replica connections for queries
+   * run with the `readOnly` option
    */
   constructor(
     connection: Connection,
-    logger: QueryLogger = new DefaultQueryLogger()
+    logger: QueryLogger = new DefaultQueryLogger(),
+    instrumentation: Instrumentation = noopInstrumentation,
+    readConnections?: ConnectionSource
   ) {
     this.connection = connection;
     this.logger = logger;
+    this.instrumentation = instrumentation;
+    this.readConnections = readConnections;
+  }
+
+  /**
+   * Create a query executor on the same connection that runs every Cypher
+   * query on one graph
+   *
+   * Queries that name no graph run on the pinned graph, and queries naming
+   * another graph are rejected.
+   *
+   * @param graphName - Graph name
+   * @returns Query executor scoped to the graph
+   */
+  forGraph(graphName: string): QueryExecutor {
+    const executor = new QueryExecutor(this.connection, this.logger, this.instrumentation, this.readConnections);
+    executor.pinnedGraph = graphName;
+    return executor;
+  }
+
+  /**
+   * Create a query executor on another connection, sharing this executor's
+   * logger, instrumentation, read replicas and pinned graph
+   *
+   * @param connection - Database connection
+   * @returns Query executor on the connection
+   */
+  withConnection(connection: Connection): QueryExecutor {
+    const executor = new QueryExecutor(connection, this.logger, this.instrumentation, this.readConnections);
+    executor.pinnedGraph = this.pinnedGraph;
+    return executor;
+  }
+
+  /**
+   * Get the graph this executor is scoped to
+   *
+   * @returns Graph name, if the executor was created by `forGraph`
+   */
+  getPinnedGraph(): string | undefined {
+    return this.pinnedGraph;
   }
 
   /**
@@ -277,6 +502,26 @@ export class QueryExecutor {
     sql: string,
     params?: any[],
     options: QueryOptions = {}
+  ): Promise<QueryResult<T>> {
+    return this.traceQuery(
+      SpanName.SQL,
+      { [SpanAttribute.STATEMENT]: sql },
+      () => this.runSQL<T>(sql, params, options)
+    );
+  }
+
+  /**
+   * Execute a SQL query, retrying as the options allow
+   *
+   * @param sql - SQL query
+   * @param params - Query parameters
+   * @param options - Query options
+   * @returns Query result
+   */
+  private async runSQL<T = any>(
+    sql: string,
+    params: any[] | undefined,
+    options: QueryOptions
   ): Promise<QueryResult<T>> {
     const mergedOptions = { ...DEFAULT_QUERY_OPTIONS, ...options };
     let attempts = 0;
@@ -318,7 +563,11 @@ export class QueryExecutor {
           let queryPromise: Promise<QueryResult<T>>;
 
           try {
-            queryPromise = this.connection.query(queryConfig);
+            queryPromise = this.withReadConnection(
+              isReadOnlySQL(sql),
+              mergedOptions,
+              connection => connection.query(queryConfig)
+            );
           } catch (directError) {
             // Create a more detailed error with context
             const contextError = new Error(
@@ -388,9 +637,10 @@ export class QueryExecutor {
         this.logger.logError(sql, params, duration, lastError);
 
         // Check if we should retry
+        const errorType = this.getErrorType(lastError);
         if (
           attempts < mergedOptions.maxRetries! &&
-          this.isRetryableError(lastError)
+          this.shouldRetry(isReadOnlySQL(sql), mergedOptions, errorType)
         ) {
           attempts++;
 
@@ -399,18 +649,12 @@ export class QueryExecutor {
             setTimeout(resolve, mergedOptions.retryDelay)
           );
         } else {
-          throw error;
+          throw this.toQueryError(lastError, errorType, { query: sql, params });
         }
       }
     }
 
     throw lastError;
-    // All retry attempts failed or non-retryable error
-    // throw new QueryError(
-    //   `Query execution failed: ${lastError?.message}`,
-    //   lastError || undefined,
-    //   { query: sql, params }
-    // );
   }
 
   /**
@@ -428,6 +672,63 @@ export class QueryExecutor {
     graphName?: string,
     options: QueryOptions = {}
   ): Promise<QueryResult<T>> {
+    graphName = this.resolveGraphName(cypher, params, graphName);
+    const mergedOptions = { ...DEFAULT_QUERY_OPTIONS, ...options };
+
+    return this.traceQuery(
+      SpanName.CYPHER,
+      { [SpanAttribute.STATEMENT]: cypher, [SpanAttribute.GRAPH]: graphName },
+      async () => {
+        for (let attempts = 0; ; attempts++) {
+          try {
+            return await this.withReadConnection(
+              isReadOnlyCypher(cypher),
+              options,
+              connection => this.executeCypherOnce<T>(cypher, params, graphName, options, connection)
+            );
+          } catch (error) {
+            if (
+              attempts < mergedOptions.maxRetries! &&
+              this.shouldRetry(isReadOnlyCypher(cypher), mergedOptions, this.getErrorType(error))
+            ) {
+              await new Promise(resolve =>
+                setTimeout(resolve, mergedOptions.retryDelay)
+              );
+            } else {
+              throw error;
+            }
+          }
+        }
+      }
+    );
+  }
+
+  /**
+   * Resolve the graph a Cypher query runs on
+   *
+   * @param cypher - Cypher query
+   * @param params - Query parameters
+   * @param graphName - Graph name given with the query
+   * @returns Graph name
+   * @throws QueryError if no graph is given, or the executor is scoped to
+   * another graph
+   */
+  private resolveGraphName(
+    cypher: string,
+    params: Record<string, any> | undefined,
+    graphName: string | undefined
+  ): string {
+    if (this.pinnedGraph) {
+      if (graphName && graphName !== this.pinnedGraph) {
+        throw new QueryError(
+          `Graph "${graphName}" is outside the graph "${this.pinnedGraph}" this query executor is scoped to`,
+          undefined,
+          { query: cypher, params, graphName }
+        );
+      }
+      return this.pinnedGraph;
+    }
+
     // Validate graph name
     if (!graphName) {
       throw new QueryError(
@@ -437,86 +738,41 @@ export class QueryExecutor {
       );
     }
 
-    try {
-      // Extract return columns from the Cypher query to match the AS clause
-      // This is a critical step for Apache AGE compatibility
-      let returnColumns = 'result ag_catalog.agtype';
-
-      // Parse the RETURN statement to extract column names
-      const returnMatch = cypher.match(/RETURN\s+(.*?)(?:\s+ORDER BY|\s+LIMIT|\s+SKIP|\s*$)/is);
-      if (returnMatch && returnMatch[1]) {
-        // Extract column aliases from the RETURN clause
-        const returnClause = returnMatch[1].trim();
-
-        // First try to match explicit AS aliases
-        const columnMatches = returnClause.match(/(?:\w+(?:\.\w+)*|\([^)]+\))\s+AS\s+\w+/g);
-
-        if (columnMatches && columnMatches.length > 0) {
-          // Build the return columns string for the AS clause
-          returnColumns = columnMatches
-            .map(col => {
-              const parts = col.split(/\s+AS\s+/i);
-              if (parts.length === 2) {
-                const alias = parts[1].trim();
-                return `${alias} ag_catalog.agtype`;
-              }
-              return null;
-            })
-            .filter(Boolean)
-            .join(', ');
-        } else {
-          // If no explicit AS aliases, try to extract implicit column names
-          // For example, from "RETURN count(*)" extract "count"
-          const implicitColumns = returnClause.split(',').map(expr => expr.trim());
-          if (implicitColumns.length > 0) {
-            const implicitColumnNames = implicitColumns.map((expr, index) => {
-              // Extract the last part of a property path (e.g., "p.name" -> "name")
-              const dotMatch = expr.match(/(\w+)\.(\w+)$/);
-              if (dotMatch) {
-                return dotMatch[2];
-              }
-
-              // Extract function name (e.g., "count(*)" -> "count")
-              const funcMatch = expr.match(/(\w+)\(/);
-              if (funcMatch) {
-                // Special case for count(*) AS created_employees
-                if (expr.includes('count(*)') && returnClause.includes('AS created_employees')) {
-                  return 'created_employees';
-                }
-                return funcMatch[1];
-              }
-
-              // Use the expression as is if it's a simple identifier
-              if (/^\w+$/.test(expr)) {
-                return expr;
-              }
-
-              // If we can't extract a clean name, use a generic column name
-              return `col${index + 1}`;
-            });
-
-            // Always generate column names, even if we couldn't extract them
-            returnColumns = implicitColumnNames
-              .map(name => `${name} ag_catalog.agtype`)
-              .join(', ');
-          }
-        }
-      }
+    return graphName;
+  }
 
+  /**
+   * Execute a Cypher query once, without retries
+   *
+   * @param cypher - Cypher query
+   * @param params - Query parameters
+   * @param graphName - Graph name
+   * @param options - Query options
+   * @param connection - Connection to run the query on
+   * @returns Query result
+   */
+  private async executeCypherOnce<T = any>(
+    cypher: string,
+    params: Record<string, any> | undefined,
+    graphName: string,
+    options: QueryOptions,
+    connection: Connection
+  ): Promise<QueryResult<T>> {
+    try {
       // Convert parameters to JSON string
       const paramsJson = params ? JSON.stringify(params) : '{}';
 
       // Execute the setup commands separately (not as prepared statements)
       try {
         // Check if we have a connection
-        if (!this.connection) {
+        if (!connection) {
           console.error('No connection available for executing Cypher query');
           throw new Error('No connection available for executing Cypher query');
         }
 
         try {
           // Verify search path
-          const searchPathResult = await this.connection.query('SHOW search_path');
+          const searchPathResult = await connection.query('SHOW search_path');
           const currentSearchPath = searchPathResult.rows[0].search_path;
 
           // Check if ag_catalog is in the search path
@@ -528,12 +784,13 @@ export class QueryExecutor {
           throw new QueryError(
             `Cypher query setup failed: ${setupError?.message || 'Unknown error'}`,
             setupError as Error,
-            { query: cypher, params, graphName, stage: 'setup' }
+            { query: cypher, params, graphName, stage: 'setup' },
+            this.getErrorType(setupError)
           );
         }
 
         // Build the Cypher query
-        const sql = `SELECT * FROM ag_catalog.cypher('${graphName}', $q$${cypher}$q$, $1) AS (${returnColumns})`;
+        const sql = this.buildCypherSQL(cypher, graphName, options.returnColumns);
 
         // Log the query and parameters for debugging if logger is available
         if (this.logger && typeof this.logger.debug === 'function') {
@@ -556,20 +813,28 @@ export class QueryExecutor {
           console.debug('SQL:', sql);
           console.debug('Parameters:', [paramsJson]);
 
+          // Parse agtype columns through a pg type parser when the OID is known
+          const agtypeOid = options.agtype === false ? null : await this.getAgtypeOid();
+
           // Create query config
           const queryConfig = {
             text: sql,
             values: [paramsJson],
             rowMode: options?.rowMode || 'object',
+            ...(agtypeOid !== null ? { types: createAgtypeTypeParsers(agtypeOid, options.agtype || {}) } : {}),
           };
 
           // Execute the query directly
-          const result = await this.connection.query(queryConfig);
+          const result = await connection.query(queryConfig);
 
           // Log the query execution
           const duration = Date.now() - startTime;
           this.logger.logQuery(sql, [paramsJson], duration, result);
 
+          if (agtypeOid === null && options.agtype !== false && result?.rows) {
+            result.rows = result.rows.map(row => this.parseAgtypeColumns(row, options.agtype || {}));
+          }
+
           return result;
         } catch (executionError) {
           // Add detailed context to the error
@@ -595,7 +860,8 @@ export class QueryExecutor {
           throw new QueryError(
             detailedMessage,
             executionError as Error,
-            { query: cypher, params, graphName, sql }
+            { query: cypher, params, graphName, sql },
+            this.getErrorType(executionError)
           );
         }
       } catch (error) {
@@ -614,7 +880,8 @@ export class QueryExecutor {
         throw new QueryError(
           `Cypher query failed: ${errorMessage}`,
           error as Error,
-          { query: cypher, params, graphName }
+          { query: cypher, params, graphName },
+          this.getErrorType(error)
         );
       }
     } catch (error) {
@@ -690,6 +957,252 @@ export class QueryExecutor {
     }
   }
 
+  /**
+   * Stream the rows of a SQL query through a server-side cursor
+   *
+   * Rows are fetched in batches of `batchSize` only as the consumer iterates,
+   * so memory use is bounded by the batch size. The cursor is closed when
+   * iteration completes, fails or is stopped early with `break`.
+   *
+   * Cursors only live inside a transaction. Unless `options.transaction` is
+   * set or a transaction begun with `beginTransaction` is open, the stream
+   * runs in its own transaction on this connection, which is committed when
+   * the stream ends. Other queries run on this executor while the stream is
+   * open run inside that transaction, so, as in any transaction, they are
+   * neither retried nor sent to read replicas.
+   *
+   * @param sql - SQL query
+   * @param params - Query parameters
+   * @param options - Stream options
+   * @returns Async iterable of rows
+   */
+  async *streamSQL<T = any>(
+    sql: string,
+    params?: any[],
+    options: StreamOptions = {}
+  ): AsyncGenerator<T, void, undefined> {
+    yield* this.streamCursor<T>(sql, params, options);
+  }
+
+  /**
+   * Stream the rows of a SQL query through a server-side cursor
+   *
+   * @param sql - SQL query
+   * @param params - Query parameters
+   * @param options - Stream options
+   * @param types - pg custom type parsers used for the fetched rows
+   * @returns Async iterable of rows
+   */
+  private async *streamCursor<T = any>(
+    sql: string,
+    params: any[] | undefined,
+    options: StreamOptions,
+    types?: ReturnType<typeof createAgtypeTypeParsers>
+  ): AsyncGenerator<T, void, undefined> {
+    const batchSize = options.batchSize ?? DEFAULT_STREAM_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new QueryError(`Invalid stream batch size: ${batchSize}`, undefined, { query: sql });
+    }
+
+    const cursorName = `age_stream_cursor_${++streamCursorCounter}`;
+    // A cursor inside an open transaction is only closed when done
+    const ownTransaction = !options.transaction && !this.inTransaction;
+    let failed = false;
+
+    try {
+      if (ownTransaction) {
+        await this.connection.query('BEGIN');
+        this.inTransaction = true;
+      }
+
+      await this.connection.query({
+        text: `DECLARE ${cursorName} NO SCROLL CURSOR FOR ${sql}`,
+        values: params,
+      });
+
+      for (;;) {
+        const startTime = Date.now();
+        const fetchSQL = `FETCH ${batchSize} FROM ${cursorName}`;
+        const batch = await this.connection.query(types ? { text: fetchSQL, types } : fetchSQL);
+        this.logger.logQuery(fetchSQL, params, Date.now() - startTime, batch);
+
+        for (const row of batch.rows) {
+          yield (options.parseRow ? options.parseRow(row) : row) as T;
+        }
+
+        if (batch.rows.length < batchSize) {
+          break;
+        }
+      }
+    } catch (error) {
+      failed = true;
+      this.logger.logError(sql, params, 0, error as Error);
+
+      if (error instanceof QueryError) {
+        throw error;
+      }
+      throw new QueryError(
+        `Streaming query failed: ${error?.message || 'Unknown error'}`,
+        error as Error,
+        { query: sql, params }
+      );
+    } finally {
+      // Runs on completion, on error and when the consumer stops early
+      await this.closeStream(cursorName, ownTransaction, failed);
+    }
+  }
+
+  /**
+   * Stream the rows of a Cypher query through a server-side cursor
+   *
+   * Column values are parsed from agtype as each row is read, before a custom
+   * `parseRow` is applied; set `options.agtype` to `false` to keep the raw text.
+   *
+   * @example
+   * ```typescript
+   * for await (const row of executor.streamCypher('MATCH (p:Person) RETURN p', {}, 'graph')) {
+   *   if (done(row)) break; // closes the cursor
+   * }
+   * ```
+   *
+   * @param cypher - Cypher query
+   * @param params - Query parameters
+   * @param graphName - Graph name
+   * @param options - Stream options
+   * @returns Async iterable of rows
+   */
+  async *streamCypher<T = any>(
+    cypher: string,
+    params?: Record<string, any>,
+    graphName?: string,
+    options: StreamOptions = {}
+  ): AsyncGenerator<T, void, undefined> {
+    graphName = this.resolveGraphName(cypher, params, graphName);
+    const sql = this.buildCypherSQL(cypher, graphName, options.returnColumns);
+    const paramsJson = params ? JSON.stringify(params) : '{}';
+
+    if (options.agtype === false) {
+      yield* this.streamCursor<T>(sql, [paramsJson], options);
+      return;
+    }
+
+    const agtypeOid = await this.getAgtypeOid();
+    if (agtypeOid !== null) {
+      yield* this.streamCursor<T>(sql, [paramsJson], options, createAgtypeTypeParsers(agtypeOid, options.agtype || {}));
+      return;
+    }
+
+    const parseRow = options.parseRow;
+    yield* this.streamCursor<T>(sql, [paramsJson], {
+      ...options,
+      parseRow: row => {
+        const parsed = this.parseAgtypeColumns(row, options.agtype || {});
+        return parseRow ? parseRow(parsed) : parsed;
+      },
+    });
+  }
+
+  /**
+   * Resolve the type OID of ag_catalog.agtype on this connection
+   *
+   * The result is cached; null is cached when the type cannot be found.
+   *
+   * @returns Type OID, or null if it is unknown
+   */
+  private async getAgtypeOid(): Promise<number | null> {
+    if (this.agtypeOid === undefined) {
+      try {
+        const result = await this.connection.query(AGTYPE_OID_QUERY);
+        const oid = Number(result?.rows?.[0]?.oid);
+        this.agtypeOid = Number.isInteger(oid) && oid > 0 ? oid : null;
+      } catch (_error) {
+        this.agtypeOid = null;
+      }
+    }
+
+    return this.agtypeOid;
+  }
+
+  /**
+   * Parse the agtype text values of a result row
+   *
+   * Used when no type parser could be registered for agtype. Values that are
+   * not valid agtype text are left unchanged.
+   *
+   * @param row - Result row in object or array mode
+   * @param options - Agtype parse options
+   * @returns Row with parsed values
+   */
+  private parseAgtypeColumns(row: any, options: AgtypeParseOptions): any {
+    const parse = (value: unknown) => {
+      try {
+        return asAgtype(value, options);
+      } catch (error) {
+        if (error instanceof AgtypeParseError) {
+          return value;
+        }
+        throw error;
+      }
+    };
+
+    if (Array.isArray(row)) {
+      return row.map(parse);
+    }
+
+    const parsed: Record<string, any> = {};
+    for (const [key, value] of Object.entries(row)) {
+      parsed[key] = parse(value);
+    }
+    return parsed;
+  }
+
+  /**
+   * Close a streaming cursor and finish its transaction
+   *
+   * @param cursorName - Cursor name
+   * @param ownTransaction - Whether the stream started its own transaction
+   * @param failed - Whether the stream failed
+   */
+  private async closeStream(cursorName: string, ownTransaction: boolean, failed: boolean): Promise<void> {
+    try {
+      if (ownTransaction) {
+        // Ending the transaction also closes the cursor
+        await this.connection.query(failed ? 'ROLLBACK' : 'COMMIT');
+      } else if (!failed) {
+        await this.connection.query(`CLOSE ${cursorName}`);
+      }
+    } catch (error) {
+      console.warn(`Failed to close streaming cursor ${cursorName}:`, error);
+    } finally {
+      if (ownTransaction) {
+        this.inTransaction = false;
+      }
+    }
+  }
+
+  /**
+   * Build the SQL statement that runs a Cypher query through ag_catalog.cypher()
+   *
+   * Apache AGE requires the result columns to be declared in the AS clause.
+   * The explicit column names are used if given, otherwise they are inferred
+   * from the RETURN clause; queries without a projection return a single column.
+   *
+   * @param cypher - Cypher query
+   * @param graphName - Graph name
+   * @param returnColumns - Explicit result column names
+   * @returns SQL statement taking the parameters JSON as $1
+   */
+  private buildCypherSQL(cypher: string, graphName: string, returnColumns?: string[]): string {
+    const columns = returnColumns && returnColumns.length > 0
+      ? returnColumns
+      : inferReturnColumns(cypher);
+    const columnDefinitions = columns
+      ? buildColumnDefinitions(columns)
+      : 'result ag_catalog.agtype';
+
+    return `SELECT * FROM ag_catalog.cypher('${graphName}', $q$${cypher}$q$, $1) AS (${columnDefinitions})`;
+  }
+
   /**
    * Execute a COPY FROM operation to load data from a string
    *
@@ -702,6 +1215,26 @@ export class QueryExecutor {
     sql: string,
     data: string,
     options: QueryOptions & { transaction?: any } = {}
+  ): Promise<QueryResult> {
+    return this.traceQuery(
+      SpanName.COPY,
+      { [SpanAttribute.STATEMENT]: sql },
+      () => this.runCopyFrom(sql, data, options)
+    );
+  }
+
+  /**
+   * Execute a COPY FROM statement, retrying as the options allow
+   *
+   * @param sql - COPY SQL statement
+   * @param data - Data to load
+   * @param options - Query options
+   * @returns Query result
+   */
+  private async runCopyFrom(
+    sql: string,
+    data: string,
+    options: QueryOptions
   ): Promise<QueryResult> {
     const mergedOptions = { ...DEFAULT_QUERY_OPTIONS, ...options };
     let attempts = 0;
@@ -726,16 +1259,10 @@ export class QueryExecutor {
           });
         }
 
-        // Get the client from the connection
-        const client = this.connection.getClient ? this.connection.getClient() : this.connection;
-
         // Execute the COPY statement
         const result = await (timeoutPromise
-          ? Promise.race([
-              this.executeCopyOperation(client, sql, data),
-              timeoutPromise,
-            ])
-          : this.executeCopyOperation(client, sql, data));
+          ? Promise.race([this.copyData(sql, data), timeoutPromise])
+          : this.copyData(sql, data));
 
         // Clear timeout if set
         if (timeoutId) {
@@ -755,10 +1282,10 @@ export class QueryExecutor {
         // Log error
         this.logger.logError(sql, [], duration, lastError);
 
-        // Check if we should retry
+        // Check if we should retry; COPY is only retried when marked idempotent
         if (
           attempts < mergedOptions.maxRetries! &&
-          this.isRetryableError(lastError)
+          this.shouldRetry(false, mergedOptions, this.getErrorType(lastError))
         ) {
           attempts++;
 
@@ -777,10 +1304,30 @@ export class QueryExecutor {
     throw new QueryError(
       `COPY operation failed: ${lastError?.message}`,
       lastError || undefined,
-      { query: sql }
+      { query: sql },
+      this.getErrorType(lastError)
     );
   }
 
+  /**
+   * Send COPY data through the connection's driver, or through the client
+   * of connections that do not support COPY
+   *
+   * @param sql - COPY SQL statement
+   * @param data - Data to load
+   * @returns Query result
+   */
+  private async copyData(sql: string, data: string): Promise<QueryResult> {
+    if (this.connection.copyFrom) {
+      const result = await this.connection.copyFrom(sql, data);
+      return { ...result, rowCount: result.rowCount ?? 0, oid: 0 } as QueryResult;
+    }
+
+    // Get the client from the connection
+    const client = this.connection.getClient ? this.connection.getClient() : this.connection;
+    return this.executeCopyOperation(client, sql, data);
+  }
+
   /**
    * Execute a COPY operation
    *
@@ -827,13 +1374,22 @@ export class QueryExecutor {
    * @returns Transaction object
    */
   async beginTransaction(): Promise<any> {
-    await this.executeSQL('BEGIN');
+    await withSpan(this.instrumentation, SpanName.TRANSACTION_BEGIN, {}, () => this.executeSQL('BEGIN'));
+    this.inTransaction = true;
     return {
       commit: async () => {
-        return this.executeSQL('COMMIT');
+        try {
+          return await withSpan(this.instrumentation, SpanName.TRANSACTION_COMMIT, {}, () => this.executeSQL('COMMIT'));
+        } finally {
+          this.inTransaction = false;
+        }
       },
       rollback: async () => {
-        return this.executeSQL('ROLLBACK');
+        try {
+          return await withSpan(this.instrumentation, SpanName.TRANSACTION_ROLLBACK, {}, () => this.executeSQL('ROLLBACK'));
+        } finally {
+          this.inTransaction = false;
+        }
       },
     };
   }
@@ -853,25 +1409,162 @@ export class QueryExecutor {
   }
 
   /**
-   * Check if an error is retryable
+   * Run a query in a span that records its row count or error type
+   *
+   * @param name - Span name
+   * @param attributes - Span attributes
+   * @param query - Query to run
+   * @returns Query result
+   */
+  private traceQuery<T>(
+    name: SpanName,
+    attributes: Attributes,
+    query: () => Promise<QueryResult<T>>
+  ): Promise<QueryResult<T>> {
+    return withSpan(
+      this.instrumentation,
+      name,
+      { [SpanAttribute.SYSTEM]: 'postgresql', ...attributes },
+      async span => {
+        try {
+          const result = await query();
+          span.setAttributes({ [SpanAttribute.ROW_COUNT]: result?.rowCount ?? result?.rows?.length });
+          return result;
+        } catch (error) {
+          span.setAttributes({ [SpanAttribute.ERROR_TYPE]: this.getErrorType(error) });
+          throw error;
+        }
+      }
+    );
+  }
+
+  /**
+   * Run a query on a read replica connection when the options allow it
+   *
+   * The replica connection is released once the query settles. Otherwise
+   * the query runs on the executor's connection.
+   *
+   * @param isReadOnly - Whether the query only reads data
+   * @param options - Query options
+   * @param run - Function running the query on a connection
+   * @returns Result of the query
+   */
+  private async withReadConnection<T>(
+    isReadOnly: boolean,
+    options: QueryOptions,
+    run: (connection: Connection) => Promise<T>
+  ): Promise<T> {
+    if (!this.routesToReplica(isReadOnly, options)) {
+      return run(this.connection);
+    }
+
+    const connection = await this.readConnections.getConnection({ readOnly: true });
+    try {
+      return await run(connection);
+    } finally {
+      await this.readConnections.releaseConnection(connection);
+    }
+  }
+
+  /**
+   * Check whether a query runs on a read replica connection
+   *
+   * @param isReadOnly - Whether the query only reads data
+   * @param options - Query options
+   * @returns True if the query runs on a connection from the read replicas
+   */
+  private routesToReplica(isReadOnly: boolean, options: QueryOptions): boolean {
+    return Boolean(this.readConnections) &&
+      Boolean(options.readOnly) &&
+      isReadOnly &&
+      !options.transaction &&
+      !this.inTransaction;
+  }
+
+  /**
+   * Check whether a failed query should be retried
+   *
+   * A statement inside a transaction is never retried: the failure aborted
+   * the transaction, so running the statement again cannot succeed. Lost
+   * connections and full pools are only retried when the query runs on a
+   * read replica connection acquired for each attempt, since running it again
+   * on the executor's own connection would fail the same way.
+   *
+   * @param isReadOnly - Whether the query only reads data
+   * @param options - Query options
+   * @param errorType - Classified error type
+   * @returns True if the query should be retried
+   */
+  private shouldRetry(isReadOnly: boolean, options: QueryOptions, errorType: DatabaseErrorType): boolean {
+    return !options.transaction &&
+      !this.inTransaction &&
+      (options.idempotent ?? isReadOnly) &&
+      isTransientErrorType(errorType) &&
+      (
+        (errorType !== DatabaseErrorType.CONNECTION && errorType !== DatabaseErrorType.POOL) ||
+        this.routesToReplica(isReadOnly, options)
+      );
+  }
+
+  /**
+   * Classify the error of a failed query
+   *
+   * Errors without a SQLSTATE code or a known type are classified by their
+   * message, since connections wrap client errors in plain errors.
+   *
+   * @param error - Error
+   * @returns Error type
+   */
+  private getErrorType(error: unknown): DatabaseErrorType {
+    const errorType = classifyDatabaseError(error);
+    if (errorType !== DatabaseErrorType.UNKNOWN) {
+      return errorType;
+    }
+
+    return error instanceof Error && this.isConnectionErrorMessage(error)
+      ? DatabaseErrorType.CONNECTION
+      : DatabaseErrorType.QUERY;
+  }
+
+  /**
+   * Wrap the error of a failed query in a query error of its type
+   *
+   * @param error - Error
+   * @param errorType - Classified error type
+   * @param data - Query details
+   * @returns Error to throw
+   */
+  private toQueryError(error: unknown, errorType: DatabaseErrorType, data: any): Error {
+    if (error instanceof DatabaseError && error.type === errorType) {
+      return error;
+    }
+
+    return new QueryError(
+      (error as Error)?.message ?? String(error),
+      error instanceof Error ? error : undefined,
+      data,
+      errorType
+    );
+  }
+
+  /**
+   * Check if an error message describes a lost or refused connection
    *
    * @param error - Error
-   * @returns True if the error is retryable
+   * @returns True if the message describes a connection failure
    */
-  private isRetryableError(error: Error): boolean {
-    // Connection-related errors are typically retryable
-    const retryableErrorMessages = [
+  private isConnectionErrorMessage(error: Error): boolean {
+    const connectionErrorMessages = [
       'connection',
-      'timeout',
       'idle',
       'terminate',
       'reset',
-      'connect ETIMEDOUT',
-      'connect ECONNREFUSED',
+      'connect etimedout',
+      'connect econnrefused',
     ];
 
-    return retryableErrorMessages.some(msg =>
-      error.message.toLowerCase().includes(msg)
+    return connectionErrorMessages.some(msg =>
+      (error.message || '').toLowerCase().includes(msg)
     );
   }
 }
@@ -0,0 +1,173 @@
+/**
+ * Retry helpers shared by connection, transaction and query retries
+ *
+ * @packageDocumentation
+ */
+
+import { DatabaseError, DatabaseErrorType, RetryConfig } from './types';
+
+/**
+ * SQLSTATE codes and the error types they are classified as
+ */
+const SQLSTATE_ERROR_TYPES: Record<string, DatabaseErrorType> = {
+  '40001': DatabaseErrorType.SERIALIZATION_FAILURE,
+  '40P01': DatabaseErrorType.DEADLOCK,
+  '53300': DatabaseErrorType.POOL,
+  '57014': DatabaseErrorType.TIMEOUT,
+  '57P01': DatabaseErrorType.CONNECTION,
+  '57P02': DatabaseErrorType.CONNECTION,
+  '57P03': DatabaseErrorType.CONNECTION,
+};
+
+/**
+ * SQLSTATE classes and the error types their codes are classified as
+ *
+ * Codes of any other class are reported by the server for the statement
+ * itself and are classified as query errors.
+ */
+const SQLSTATE_CLASS_ERROR_TYPES: Record<string, DatabaseErrorType> = {
+  '08': DatabaseErrorType.CONNECTION,
+  '25': DatabaseErrorType.TRANSACTION,
+  '40': DatabaseErrorType.TRANSACTION,
+};
+
+/**
+ * Node.js socket error codes of a connection that was lost or never made
+ */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENOTFOUND',
+  'EPIPE',
+  'ETIMEDOUT',
+]);
+
+/**
+ * Error types a statement can succeed after when it is run again
+ */
+const TRANSIENT_ERROR_TYPES = new Set([
+  DatabaseErrorType.CONNECTION,
+  DatabaseErrorType.POOL,
+  DatabaseErrorType.SERIALIZATION_FAILURE,
+  DatabaseErrorType.DEADLOCK,
+]);
+
+/**
+ * Find the first error in a chain of wrapped errors that matches a predicate
+ *
+ * @param error - Outermost error
+ * @param predicate - Predicate to match
+ * @returns Matching error, if any
+ */
+function findInErrorChain(error: unknown, predicate: (error: any) => boolean): any {
+  const seen = new Set<unknown>();
+  let current: any = error;
+
+  while (current && typeof current === 'object' && !seen.has(current)) {
+    seen.add(current);
+    if (predicate(current)) {
+      return current;
+    }
+    current = current.originalError ?? current.cause;
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the SQLSTATE code of an error or of the errors it wraps
+ *
+ * Socket error codes such as `EPIPE` have the shape of a SQLSTATE code, so
+ * they are skipped.
+ *
+ * @param error - Error to inspect
+ * @returns SQLSTATE code, if any
+ */
+export function getSqlState(error: unknown): string | undefined {
+  return findInErrorChain(
+    error,
+    current =>
+      typeof current.code === 'string' &&
+      /^[0-9A-Z]{5}$/.test(current.code) &&
+      !NETWORK_ERROR_CODES.has(current.code)
+  )?.code;
+}
+
+/**
+ * Check whether an error, or an error it wraps, reports a lost connection
+ *
+ * These errors come from the socket or the `pg` client rather than from the
+ * server, so they carry no SQLSTATE code.
+ *
+ * @param error - Error to inspect
+ * @returns Whether the connection was lost
+ */
+function isNetworkError(error: unknown): boolean {
+  return findInErrorChain(
+    error,
+    current =>
+      NETWORK_ERROR_CODES.has(current.code) ||
+      (typeof current.message === 'string' && current.message.includes('Connection terminated'))
+  ) !== undefined;
+}
+
+/**
+ * Classify an error as a database error type
+ *
+ * A SQLSTATE code anywhere in the chain of wrapped errors takes precedence
+ * over the type of the outermost `DatabaseError`, so a serialization failure
+ * reported by `COMMIT` is classified as such rather than as a transaction
+ * error, and a syntax error is not mistaken for a connection error because
+ * the connection wrapped it. Errors without a SQLSTATE code are classified
+ * as connection errors when the socket was lost.
+ *
+ * @param error - Error to classify
+ * @returns Database error type
+ */
+export function classifyDatabaseError(error: unknown): DatabaseErrorType {
+  const sqlState = getSqlState(error);
+  if (sqlState) {
+    return SQLSTATE_ERROR_TYPES[sqlState] ??
+      SQLSTATE_CLASS_ERROR_TYPES[sqlState.substring(0, 2)] ??
+      DatabaseErrorType.QUERY;
+  }
+
+  if (isNetworkError(error)) {
+    return DatabaseErrorType.CONNECTION;
+  }
+
+  return error instanceof DatabaseError ? error.type : DatabaseErrorType.UNKNOWN;
+}
+
+/**
+ * Check whether an error type is transient
+ *
+ * A statement that failed with a transient error can succeed when it is run
+ * again unchanged. Timeouts are not transient: the statement is likely to
+ * time out again.
+ *
+ * @param errorType - Classified error type
+ * @returns Whether the error type is transient
+ */
+export function isTransientErrorType(errorType: DatabaseErrorType): boolean {
+  return TRANSIENT_ERROR_TYPES.has(errorType);
+}
+
+/**
+ * Calculate the delay before a retry with exponential backoff and jitter
+ *
+ * @param config - Retry configuration with all fields set
+ * @param attempt - Number of the attempt that failed, starting at 1
+ * @returns Delay in milliseconds
+ */
+export function calculateRetryDelay(config: Required<RetryConfig>, attempt: number): number {
+  const delay = Math.min(
+    config.delay * Math.pow(config.factor, attempt - 1),
+    config.maxDelay
+  );
+
+  const jitter = delay * config.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, delay + jitter);
+}
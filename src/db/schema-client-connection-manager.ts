@@ -16,12 +16,14 @@ import {
   Connection,
 
   ConnectionError,
+  ConnectionRequestOptions,
 
 
 
 } from './types';
 import { PgConnectionManager } from './connector';
 import { QueryExecutor } from './query';
+import { TransactionManager } from './transaction';
 
 /**
  * Schema Client Connection Manager
@@ -44,11 +46,12 @@ export class SchemaClientConnectionManager {
   /**
    * Get a connection from the pool
    * 
+   * @param options - Connection request options
    * @returns A connection
    */
-  async getConnection(): Promise<Connection> {
+  async getConnection(options?: ConnectionRequestOptions): Promise<Connection> {
     // Get a connection from the pool
-    const connection = await this.connectionManager.getConnection();
+    const connection = await this.connectionManager.getConnection(options);
     
     // Verify AGE setup
     await this.verifyAgeSetup(connection);
@@ -86,11 +89,37 @@ export class SchemaClientConnectionManager {
   /**
    * Create a query executor for a connection
    * 
+   * When read replicas are configured, queries run with the `readOnly`
+   * option are routed to them.
+   * 
    * @param connection - Connection
    * @returns Query executor
    */
   getQueryExecutor(connection: Connection): QueryExecutor {
-    return new QueryExecutor(connection);
+    return new QueryExecutor(
+      connection,
+      undefined,
+      this.connectionManager.getInstrumentation(),
+      this.connectionManager.hasReplicas() ? this.connectionManager : undefined
+    );
+  }
+
+  /**
+   * Create a transaction manager for a connection
+   * 
+   * The transaction manager reports transaction attempts to the hooks
+   * registered with the connection manager.
+   * 
+   * @param connection - Connection
+   * @returns Transaction manager
+   */
+  getTransactionManager(connection: Connection): TransactionManager {
+    return new TransactionManager(
+      connection,
+      this.connectionManager.getHooks(),
+      this.connectionManager.getInstrumentation(),
+      this.connectionManager.hasReplicas() ? this.connectionManager : undefined
+    );
   }
 
   /**
@@ -4,7 +4,23 @@
  * @packageDocumentation
  */
 
-import { Connection, TransactionError } from './types';
+import {
+  Connection,
+  ConnectionHooks,
+  ConnectionSource,
+  ConnectionState,
+  DatabaseErrorType,
+  RetryConfig,
+  TransactionError,
+} from './types';
+import { calculateRetryDelay, classifyDatabaseError } from './retry';
+import {
+  Instrumentation,
+  InstrumentationSpan,
+  SpanAttribute,
+  SpanName,
+  noopInstrumentation,
+} from './instrumentation';
 
 /**
  * Transaction isolation level
@@ -83,6 +99,96 @@ export interface TransactionOptions {
    * @default false
    */
   deferrable?: boolean;
+
+  /**
+   * Retry policy for `withTransaction` and `withAgeTransaction`
+   *
+   * When set, the callback is run again in a new transaction after a failed
+   * attempt the policy accepts. Without a policy the callback runs once.
+   */
+  retry?: TransactionRetryPolicy;
+}
+
+/**
+ * Retry policy of a managed transaction
+ *
+ * `maxAttempts` counts the first attempt. Backoff defaults are shorter than
+ * for connection retries since conflicts between transactions usually clear
+ * quickly.
+ */
+export interface TransactionRetryPolicy extends RetryConfig {
+  /**
+   * Decide whether a failed attempt is retried
+   *
+   * @param errorType - Classified type of the error
+   * @param error - Error of the failed attempt
+   * @returns Whether to run the callback again
+   * @default Retries serialization failures and deadlocks
+   */
+  retryOn?: (errorType: DatabaseErrorType, error: unknown) => boolean;
+}
+
+/**
+ * Attempt of a managed transaction, passed as data of the
+ * `onTransactionAttempt` hook event
+ */
+export interface TransactionAttempt {
+  /**
+   * Number of the attempt, starting at 1
+   */
+  attempt: number;
+
+  /**
+   * Maximum number of attempts
+   */
+  maxAttempts: number;
+
+  /**
+   * Whether the attempt committed
+   */
+  success: boolean;
+
+  /**
+   * Classified type of the error of a failed attempt
+   */
+  errorType?: DatabaseErrorType;
+
+  /**
+   * Whether another attempt follows
+   */
+  willRetry: boolean;
+
+  /**
+   * Delay before the next attempt in milliseconds
+   */
+  delay?: number;
+
+  /**
+   * Duration of the attempt in milliseconds
+   */
+  duration: number;
+}
+
+/**
+ * Default retry policy of managed transactions
+ */
+const DEFAULT_TRANSACTION_RETRY_POLICY: Required<RetryConfig> = {
+  maxAttempts: 3,
+  delay: 50,
+  maxDelay: 1000,
+  factor: 2,
+  jitter: 0.1,
+};
+
+/**
+ * Check whether an error type is a transient conflict between transactions
+ *
+ * @param errorType - Classified error type
+ * @returns Whether the transaction can succeed when run again
+ */
+export function isRetryableTransactionError(errorType: DatabaseErrorType): boolean {
+  return errorType === DatabaseErrorType.SERIALIZATION_FAILURE ||
+    errorType === DatabaseErrorType.DEADLOCK;
 }
 
 /**
@@ -153,6 +259,7 @@ export class Transaction {
   private savepointCounter: number;
   private timeoutId?: NodeJS.Timeout;
   private id: string;
+  private instrumentation: Instrumentation;
 
   /**
    * Create a new transaction
@@ -160,13 +267,16 @@ export class Transaction {
    * @param connection - Database connection
    * @param options - Transaction options
    * @param nestingLevel - Transaction nesting level
+   * @param instrumentation - Instrumentation receiving begin, commit and rollback spans
    */
   constructor(
     connection: Connection,
     options: TransactionOptions = {},
-    nestingLevel: number = 0
+    nestingLevel: number = 0,
+    instrumentation: Instrumentation = noopInstrumentation
   ) {
     this.connection = connection;
+    this.instrumentation = instrumentation;
     this.options = { ...DEFAULT_TRANSACTION_OPTIONS, ...options };
     this.status = TransactionStatus.ACTIVE;
     this.startTime = Date.now();
@@ -179,6 +289,8 @@ export class Transaction {
    * Begin the transaction
    */
   async begin(): Promise<void> {
+    const span = this.startSpan(SpanName.TRANSACTION_BEGIN);
+
     try {
       if (this.nestingLevel === 0) {
         // Start a new transaction
@@ -215,10 +327,14 @@ export class Transaction {
       }
     } catch (error) {
       this.status = TransactionStatus.ERROR;
-      throw new TransactionError(
+      const transactionError = new TransactionError(
         `Failed to begin transaction: ${(error as Error).message}`,
         error as Error
       );
+      span.recordError(transactionError);
+      throw transactionError;
+    } finally {
+      span.end();
     }
   }
 
@@ -226,6 +342,8 @@ export class Transaction {
    * Commit the transaction
    */
   async commit(): Promise<void> {
+    const span = this.startSpan(SpanName.TRANSACTION_COMMIT);
+
     try {
       if (this.status !== TransactionStatus.ACTIVE) {
         throw new TransactionError(
@@ -249,10 +367,14 @@ export class Transaction {
       this.endTime = Date.now();
     } catch (error) {
       this.status = TransactionStatus.ERROR;
-      throw new TransactionError(
+      const transactionError = new TransactionError(
         `Failed to commit transaction: ${(error as Error).message}`,
         error as Error
       );
+      span.recordError(transactionError);
+      throw transactionError;
+    } finally {
+      span.end();
     }
   }
 
@@ -260,6 +382,8 @@ export class Transaction {
    * Rollback the transaction
    */
   async rollback(): Promise<void> {
+    const span = this.startSpan(SpanName.TRANSACTION_ROLLBACK);
+
     try {
       if (
         this.status !== TransactionStatus.ACTIVE &&
@@ -286,10 +410,14 @@ export class Transaction {
       this.endTime = Date.now();
     } catch (error) {
       this.status = TransactionStatus.ERROR;
-      throw new TransactionError(
+      const transactionError = new TransactionError(
         `Failed to rollback transaction: ${(error as Error).message}`,
         error as Error
       );
+      span.recordError(transactionError);
+      throw transactionError;
+    } finally {
+      span.end();
     }
   }
 
@@ -307,10 +435,23 @@ export class Transaction {
     return new Transaction(
       this.connection,
       mergedOptions,
-      this.nestingLevel + 1
+      this.nestingLevel + 1,
+      this.instrumentation
     );
   }
 
+  /**
+   * Get the connection the transaction runs on
+   *
+   * Read-only managed transactions may run on a read replica connection, so
+   * their callbacks should run queries on this connection.
+   *
+   * @returns Connection
+   */
+  getConnection(): Connection {
+    return this.connection;
+  }
+
   /**
    * Get transaction information
    *
@@ -356,6 +497,20 @@ export class Transaction {
     return this.status === TransactionStatus.ROLLED_BACK;
   }
 
+  /**
+   * Start a span for a transaction boundary
+   *
+   * @param name - Span name
+   * @returns Started span
+   */
+  private startSpan(name: SpanName): InstrumentationSpan {
+    return this.instrumentation.startSpan(name, {
+      [SpanAttribute.SYSTEM]: 'postgresql',
+      [SpanAttribute.TRANSACTION_ID]: this.id,
+      [SpanAttribute.ISOLATION_LEVEL]: this.options.isolationLevel,
+    });
+  }
+
   /**
    * Create a savepoint name
    *
@@ -414,14 +569,39 @@ export class Transaction {
  */
 export class TransactionManager {
   private connection: Connection;
+  private hooks: ConnectionHooks;
+  private instrumentation: Instrumentation;
+  private readConnections?: ConnectionSource;
 
   /**
    * Create a new transaction manager
    *
    * @param connection - Database connection
+   * @param hooks - Hooks notified of transaction attempts, usually the hooks
+   * of the connection manager (`PgConnectionManager.getHooks`)
+   * @param instrumentation - Instrumentation receiving begin, commit and rollback spans
+   * @param readConnections - Source of read replica connections for managed
+   * read-only transactions
    */
-  constructor(connection: Connection) {
+  constructor(
+    connection: Connection,
+    hooks: ConnectionHooks = {},
+    instrumentation: Instrumentation = noopInstrumentation,
+    readConnections?: ConnectionSource
+  ) {
     this.connection = connection;
+    this.hooks = hooks;
+    this.instrumentation = instrumentation;
+    this.readConnections = readConnections;
+  }
+
+  /**
+   * Register hooks notified of transaction attempts
+   *
+   * @param hooks - Connection lifecycle hooks
+   */
+  registerHooks(hooks: ConnectionHooks): void {
+    this.hooks = { ...this.hooks, ...hooks };
   }
 
   /**
@@ -431,7 +611,7 @@ export class TransactionManager {
    * @returns Transaction
    */
   async beginTransaction(options: TransactionOptions = {}): Promise<Transaction> {
-    const transaction = new Transaction(this.connection, options);
+    const transaction = new Transaction(this.connection, options, 0, this.instrumentation);
     await transaction.begin();
     return transaction;
   }
@@ -439,6 +619,23 @@ export class TransactionManager {
   /**
    * Execute a function within a transaction
    *
+   * With `options.retry`, attempts that fail with an error the policy
+   * accepts are rolled back and run again in a new transaction, so the
+   * callback must be safe to repeat.
+   *
+   * With `options.readOnly` and a source of read replica connections, the
+   * transaction runs on a replica connection, which is released when it
+   * ends. The callback must then run its queries on
+   * `transaction.getConnection()`.
+   *
+   * @example
+   * ```typescript
+   * await transactionManager.withTransaction(
+   *   async () => { ... },
+   *   { isolationLevel: IsolationLevel.SERIALIZABLE, retry: { maxAttempts: 5 } }
+   * );
+   * ```
+   *
    * @param callback - Function to execute
    * @param options - Transaction options
    * @returns Result of the callback function
@@ -447,50 +644,132 @@ export class TransactionManager {
     callback: (transaction: Transaction) => Promise<T>,
     options: TransactionOptions = {}
   ): Promise<T> {
-    const transaction = await this.beginTransaction(options);
+    return this.runWithRetry(callback, options, false);
+  }
 
-    try {
-      const result = await callback(transaction);
+  /**
+   * Execute a function within a transaction with Apache AGE support
+   *
+   * This method ensures that Apache AGE is loaded and in the search path
+   * before executing the callback function. Retries follow
+   * `options.retry` as in `withTransaction`.
+   *
+   * @param callback - Function to execute
+   * @param options - Transaction options
+   * @returns Result of the callback function
+   */
+  async withAgeTransaction<T>(
+    callback: (transaction: Transaction) => Promise<T>,
+    options: TransactionOptions = {}
+  ): Promise<T> {
+    return this.runWithRetry(callback, options, true);
+  }
 
-      // Only commit if transaction is still active
-      if (transaction.isActive()) {
-        await transaction.commit();
-      }
+  /**
+   * Run a callback in transactions until an attempt succeeds or the retry
+   * policy gives up
+   *
+   * @param callback - Function to execute
+   * @param options - Transaction options
+   * @param ageSetup - Whether to ensure AGE is set up in each attempt
+   * @returns Result of the callback function
+   */
+  private async runWithRetry<T>(
+    callback: (transaction: Transaction) => Promise<T>,
+    options: TransactionOptions,
+    ageSetup: boolean
+  ): Promise<T> {
+    const policy = options.retry
+      ? { ...DEFAULT_TRANSACTION_RETRY_POLICY, ...options.retry }
+      : undefined;
+    const maxAttempts = policy ? Math.max(1, policy.maxAttempts) : 1;
+    const retryOn = policy?.retryOn ?? isRetryableTransactionError;
 
-      return result;
-    } catch (error) {
-      // Only rollback if transaction is still active
-      if (transaction.isActive()) {
-        try {
-          await transaction.rollback();
-        } catch (rollbackError) {
-          console.error('Error rolling back transaction:', rollbackError);
+    for (let attempt = 1; ; attempt++) {
+      const startTime = Date.now();
+
+      try {
+        const result = await this.runOnce(callback, options, ageSetup);
+
+        await this.reportAttempt({
+          attempt,
+          maxAttempts,
+          success: true,
+          willRetry: false,
+          duration: Date.now() - startTime,
+        });
+
+        return result;
+      } catch (error) {
+        const errorType = classifyDatabaseError(error);
+        const willRetry = attempt < maxAttempts && retryOn(errorType, error);
+        const delay = willRetry ? calculateRetryDelay(policy!, attempt) : undefined;
+
+        await this.reportAttempt({
+          attempt,
+          maxAttempts,
+          success: false,
+          errorType,
+          willRetry,
+          delay,
+          duration: Date.now() - startTime,
+        }, error as Error);
+
+        if (!willRetry) {
+          throw error;
         }
-      }
 
-      throw error;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
     }
   }
 
   /**
-   * Execute a function within a transaction with Apache AGE support
-   *
-   * This method ensures that Apache AGE is loaded and in the search path
-   * before executing the callback function.
+   * Run a callback in a single transaction
    *
    * @param callback - Function to execute
    * @param options - Transaction options
+   * @param ageSetup - Whether to ensure AGE is set up first
    * @returns Result of the callback function
    */
-  async withAgeTransaction<T>(
+  private async runOnce<T>(
     callback: (transaction: Transaction) => Promise<T>,
-    options: TransactionOptions = {}
+    options: TransactionOptions,
+    ageSetup: boolean
   ): Promise<T> {
-    const transaction = await this.beginTransaction(options);
+    if (!options.readOnly || !this.readConnections) {
+      return this.runInTransaction(await this.beginTransaction(options), callback, ageSetup);
+    }
+
+    // Read-only transactions run on a read replica connection
+    const connection = await this.readConnections.getConnection({ readOnly: true });
+    try {
+      const transaction = new Transaction(connection, options, 0, this.instrumentation);
+      await transaction.begin();
+      return await this.runInTransaction(transaction, callback, ageSetup);
+    } finally {
+      await this.readConnections.releaseConnection(connection);
+    }
+  }
 
+  /**
+   * Run a callback in a transaction that has begun, then end the transaction
+   *
+   * @param transaction - Transaction
+   * @param callback - Function to execute
+   * @param ageSetup - Whether to ensure AGE is set up first
+   * @returns Result of the callback function
+   */
+  private async runInTransaction<T>(
+    transaction: Transaction,
+    callback: (transaction: Transaction) => Promise<T>,
+    ageSetup: boolean
+  ): Promise<T> {
     try {
-      // Ensure AGE is loaded and in search path
-      await this.ensureAgeSetup();
+      if (ageSetup) {
+        // Ensure AGE is loaded and in search path
+        await this.ensureAgeSetup(transaction.getConnection());
+      }
 
       const result = await callback(transaction);
 
@@ -514,16 +793,42 @@ export class TransactionManager {
     }
   }
 
+  /**
+   * Report a transaction attempt to the `onTransactionAttempt` hook
+   *
+   * @param attempt - Transaction attempt
+   * @param error - Error of a failed attempt
+   */
+  private async reportAttempt(attempt: TransactionAttempt, error?: Error): Promise<void> {
+    const hook = this.hooks.onTransactionAttempt;
+    if (!hook) {
+      return;
+    }
+
+    try {
+      await hook(this.connection, {
+        type: 'transaction',
+        state: attempt.success ? ConnectionState.IDLE : ConnectionState.ERROR,
+        timestamp: Date.now(),
+        error,
+        data: attempt,
+      });
+    } catch (hookError) {
+      console.error('Error in onTransactionAttempt hook:', hookError);
+    }
+  }
+
   /**
    * Ensure Apache AGE is loaded and in the search path
    *
+   * @param connection - Connection to set up
    * @returns Promise that resolves when AGE is loaded and in the search path
    * @throws Error if AGE cannot be loaded or added to the search path
    */
-  async ensureAgeSetup(): Promise<void> {
+  async ensureAgeSetup(connection: Connection = this.connection): Promise<void> {
     try {
       // Check if AGE is loaded
-      const ageResult = await this.connection.query(`
+      const ageResult = await connection.query(`
         SELECT COUNT(*) > 0 as age_loaded
         FROM pg_extension
         WHERE extname = 'age'
@@ -531,16 +836,16 @@ export class TransactionManager {
 
       if (!ageResult.rows[0].age_loaded) {
         // Load AGE if not loaded
-        await this.connection.query('LOAD \'age\';');
+        await connection.query('LOAD \'age\';');
       }
 
       // Check if ag_catalog is in search_path
-      const searchPathResult = await this.connection.query('SHOW search_path');
+      const searchPathResult = await connection.query('SHOW search_path');
       const searchPath = searchPathResult.rows[0].search_path;
 
       if (!searchPath.includes('ag_catalog')) {
         // Add ag_catalog to search_path if not included
-        await this.connection.query('SET search_path TO ag_catalog, "$user", public');
+        await connection.query('SET search_path TO ag_catalog, "$user", public');
       }
     } catch (error) {
       throw new TransactionError(
@@ -4,7 +4,9 @@
  * @packageDocumentation
  */
 
-import { ConnectionConfig as PgConnectionConfig, PoolClient } from 'pg';
+import { ConnectionConfig as PgConnectionConfig } from 'pg';
+import type { CopyData, Driver, DriverClient, DriverQueryResult } from './driver';
+import type { Instrumentation } from './instrumentation';
 
 /**
  * Connection state
@@ -105,8 +107,14 @@ export enum DriverType {
   PG = 'pg',
 
   /**
-   * Other drivers can be added in the future
+   * Postgres.js driver (the `postgres` package)
    */
+  POSTGRES = 'postgres',
+
+  /**
+   * In-process fake driver for unit tests
+   */
+  FAKE = 'fake',
 }
 
 /**
@@ -117,7 +125,15 @@ export interface DriverOptions {
    * Driver type
    * @default DriverType.PG
    */
-  type?: DriverType;
+  type?: DriverType | string;
+
+  /**
+   * Driver to use instead of creating one of `type`
+   *
+   * Read replicas cannot share a driver instance with the primary, so this
+   * option only applies to the primary.
+   */
+  instance?: Driver;
 
   /**
    * Driver-specific options
@@ -143,7 +159,7 @@ export interface ExtensionInitializer {
    * @param client - The PostgreSQL client
    * @param config - The connection configuration
    */
-  initialize(client: PoolClient, config: ConnectionConfig): Promise<void>;
+  initialize(client: DriverClient, config: ConnectionConfig): Promise<void>;
 
   /**
    * Optional cleanup when connection is released (if needed)
@@ -151,7 +167,7 @@ export interface ExtensionInitializer {
    * @param client - The PostgreSQL client
    * @param config - The connection configuration
    */
-  cleanup?(client: PoolClient, config: ConnectionConfig): Promise<void>;
+  cleanup?(client: DriverClient, config: ConnectionConfig): Promise<void>;
 }
 
 /**
@@ -214,6 +230,167 @@ export interface ConnectionConfig extends PgConnectionConfig {
    * If not provided, defaults to AGE extension initializer
    */
   extensions?: ExtensionInitializer[];
+
+  /**
+   * Instrumentation receiving connection pool gauges
+   */
+  instrumentation?: Instrumentation;
+
+  /**
+   * Connection lifecycle hooks, as registered with `registerHooks`
+   */
+  hooks?: ConnectionHooks;
+
+  /**
+   * Read replicas to route read-only queries and transactions to
+   */
+  replicas?: ReplicaConfig[];
+
+  /**
+   * Read replica routing configuration
+   */
+  replicaRouting?: ReplicaRoutingConfig;
+}
+
+/**
+ * Read replica configuration
+ *
+ * Connection fields that are not set are inherited from the primary's
+ * configuration, except for `connectionString`.
+ */
+export interface ReplicaConfig extends Partial<PgConnectionConfig> {
+  /**
+   * Name of the replica in pool statistics, logs and metrics
+   * @default "replica-<index>"
+   */
+  name?: string;
+
+  /**
+   * Connection pool configuration
+   * @default the primary's pool configuration
+   */
+  pool?: PoolConfig;
+
+  /**
+   * Extension initializers to run on new connections
+   * If not provided, defaults to a read-only AGE extension initializer
+   */
+  extensions?: ExtensionInitializer[];
+
+  /**
+   * Driver options
+   * @default the primary's driver type and options, without its instance
+   */
+  driver?: DriverOptions;
+}
+
+/**
+ * Read replica load balancing strategy
+ */
+export enum LoadBalancingStrategy {
+  /**
+   * Use each healthy replica in turn
+   */
+  ROUND_ROBIN = 'round-robin',
+
+  /**
+   * Use the healthy replica with the fewest connections in use
+   */
+  LEAST_CONNECTIONS = 'least-connections',
+}
+
+/**
+ * Read replica routing configuration
+ */
+export interface ReplicaRoutingConfig {
+  /**
+   * Load balancing strategy
+   * @default LoadBalancingStrategy.ROUND_ROBIN
+   */
+  strategy?: LoadBalancingStrategy;
+
+  /**
+   * Whether to use the primary when no replica is healthy
+   * @default true
+   */
+  fallbackToPrimary?: boolean;
+
+  /**
+   * Periodic health check configuration
+   */
+  healthCheck?: {
+    /**
+     * Interval between health checks in milliseconds, or 0 to disable them
+     * @default 0
+     */
+    interval?: number;
+
+    /**
+     * Health check timeout in milliseconds
+     * @default 5000
+     */
+    timeout?: number;
+
+    /**
+     * Health check query
+     * @default "SELECT 1"
+     */
+    query?: string;
+  };
+
+  /**
+   * Ejection policy for failing replicas
+   */
+  ejection?: {
+    /**
+     * Number of consecutive failures after which a replica is ejected
+     * @default 3
+     */
+    failureThreshold?: number;
+
+    /**
+     * Time in milliseconds an ejected replica receives no queries
+     * @default 30000
+     */
+    ejectionTime?: number;
+  };
+}
+
+/**
+ * Options for getting a connection
+ */
+export interface ConnectionRequestOptions {
+  /**
+   * Whether the connection is only used to read, so it can be taken from a
+   * read replica
+   * @default false
+   */
+  readOnly?: boolean;
+}
+
+/**
+ * Result of a read replica health check
+ */
+export interface ReplicaHealth {
+  /**
+   * Replica name
+   */
+  name: string;
+
+  /**
+   * Whether the replica answered the health check
+   */
+  healthy: boolean;
+
+  /**
+   * Error the health check failed with
+   */
+  error?: Error;
+
+  /**
+   * Duration of the health check in milliseconds
+   */
+  duration: number;
 }
 
 /**
@@ -240,6 +417,15 @@ export interface Connection {
    * @returns Underlying client
    */
   getClient?(): any;
+
+  /**
+   * Load data with a `COPY ... FROM STDIN` statement
+   *
+   * @param sql - COPY statement
+   * @param data - Data in the format of the statement
+   * @returns Query result
+   */
+  copyFrom?(sql: string, data: CopyData): Promise<DriverQueryResult>;
 }
 
 /**
@@ -249,7 +435,7 @@ export interface ConnectionEvent {
   /**
    * Event type
    */
-  type: 'connect' | 'disconnect' | 'error' | 'status';
+  type: 'connect' | 'disconnect' | 'error' | 'status' | 'transaction';
 
   /**
    * Connection state
@@ -305,6 +491,12 @@ export interface ConnectionHooks {
    * On error hook
    */
   onError?: ConnectionHook;
+
+  /**
+   * Transaction attempt hook, called after each attempt of a managed
+   * transaction with a `TransactionAttempt` as event data
+   */
+  onTransactionAttempt?: ConnectionHook;
 }
 
 /**
@@ -314,9 +506,10 @@ export interface ConnectionManager {
   /**
    * Get a connection from the pool
    *
+   * @param options - Connection request options
    * @returns A connection
    */
-  getConnection(): Promise<Connection>;
+  getConnection(options?: ConnectionRequestOptions): Promise<Connection>;
 
   /**
    * Release a connection back to the pool
@@ -373,8 +566,45 @@ export interface PoolStats {
    * Maximum number of connections
    */
   max: number;
+
+  /**
+   * Figures of each pool when the manager has read replicas; the figures
+   * above are their sums
+   */
+  pools?: PoolMemberStats[];
+}
+
+/**
+ * Statistics of one pool of a connection manager
+ */
+export interface PoolMemberStats extends Omit<PoolStats, 'pools'> {
+  /**
+   * Pool name, "primary" or the replica name
+   */
+  name: string;
+
+  /**
+   * Role of the server the pool connects to
+   */
+  role: 'primary' | 'replica';
+
+  /**
+   * Whether the pool receives connection requests; false while a replica is
+   * ejected
+   */
+  healthy: boolean;
+
+  /**
+   * Number of consecutive failures
+   */
+  consecutiveFailures: number;
 }
 
+/**
+ * Source of connections for queries that can run on a read replica
+ */
+export type ConnectionSource = Pick<ConnectionManager, 'getConnection' | 'releaseConnection'>;
+
 /**
  * Database error types
  */
@@ -404,6 +634,16 @@ export enum DatabaseErrorType {
    */
   TIMEOUT = 'timeout',
 
+  /**
+   * Serialization failure (SQLSTATE 40001)
+   */
+  SERIALIZATION_FAILURE = 'serialization_failure',
+
+  /**
+   * Deadlock detected (SQLSTATE 40P01)
+   */
+  DEADLOCK = 'deadlock',
+
   /**
    * Unknown error
    */
@@ -478,9 +718,15 @@ export class QueryError extends DatabaseError {
    * @param message - Error message
    * @param originalError - Original error
    * @param data - Additional data
+   * @param type - Error type, when the query failed for a more specific reason
    */
-  constructor(message: string, originalError?: Error, data?: any) {
-    super(message, DatabaseErrorType.QUERY, originalError, data);
+  constructor(
+    message: string,
+    originalError?: Error,
+    data?: any,
+    type: DatabaseErrorType = DatabaseErrorType.QUERY
+  ) {
+    super(message, type, originalError, data);
     this.name = 'QueryError';
   }
 }
@@ -7,7 +7,9 @@
  * @packageDocumentation
  */
 
-import { QueryExecutor } from './query';
+import { QueryExecutor, QueryOptions } from './query';
+import { asAgtype } from './agtype';
+import { ValidationError } from '../core/errors';
 
 /**
  * Create a PostgreSQL function that returns an agtype array for use with UNWIND
@@ -149,3 +151,120 @@ export async function executeCypherWithUnwind(
   // Execute the Cypher query
   return queryExecutor.executeCypher(cypher, {}, graphName);
 }
+
+/**
+ * Check the key properties of an upsert
+ *
+ * @param keyProps - Properties identifying the vertex or edge
+ * @throws ValidationError if no key properties are given or a key is null
+ */
+export function assertUpsertKeys(keyProps: Record<string, any>): void {
+  const entries = Object.entries(keyProps || {});
+  if (entries.length === 0) {
+    throw new ValidationError('At least one key property is required for an upsert');
+  }
+
+  for (const [key, value] of entries) {
+    if (value === null || value === undefined) {
+      throw new ValidationError(`Key property '${key}' cannot be null or undefined in an upsert`);
+    }
+  }
+}
+
+/**
+ * Cypher clauses and parameters of an upsert
+ */
+export interface UpsertClauses {
+  /**
+   * Property map matching the key properties, e.g. `{\`email\`: $key_0}`
+   */
+  keyPattern: string;
+
+  /**
+   * SET clause for the properties that are not keys, prefixed with a
+   * newline, or an empty string
+   */
+  setClause: string;
+
+  /**
+   * Query parameters referenced by the pattern and the SET clause
+   */
+  params: Record<string, unknown>;
+}
+
+/**
+ * Build the key pattern and SET clause of an upsert
+ *
+ * Values are passed as query parameters (`$key_0`, `$prop_0`, ...) rather
+ * than written into the query, so that no value can change the statement.
+ *
+ * @param variableName - Cypher variable name of the vertex or edge
+ * @param keyProps - Properties identifying the vertex or edge
+ * @param data - Properties to set
+ * @returns Upsert clauses and their parameters
+ */
+export function buildUpsertClauses(
+  variableName: string,
+  keyProps: Record<string, any>,
+  data: Record<string, any>
+): UpsertClauses {
+  const params: Record<string, unknown> = {};
+  const quote = (property: string) => `\`${property.replace(/`/g, '``')}\``;
+
+  const keys = Object.entries(keyProps).map(([key, value], i) => {
+    params[`key_${i}`] = value;
+    return `${quote(key)}: $key_${i}`;
+  });
+  const assignments = Object.entries(data)
+    .filter(([key, value]) => value !== undefined && !(key in keyProps))
+    .map(([key, value], i) => {
+      params[`prop_${i}`] = value;
+      return `${variableName}.${quote(key)} = $prop_${i}`;
+    });
+
+  return {
+    keyPattern: `{${keys.join(', ')}}`,
+    setClause: assignments.length > 0 ? `\n      SET ${assignments.join(', ')}` : '',
+    params,
+  };
+}
+
+/**
+ * Find unique key values that are already taken in a graph
+ *
+ * @param queryExecutor - Query executor
+ * @param graphName - Graph name
+ * @param kind - Whether the label is a vertex or an edge label
+ * @param label - Vertex or edge label
+ * @param constraint - Properties of the unique constraint
+ * @param keys - Key values to look up, in constraint order
+ * @param options - Query options
+ * @returns Key values found in the graph, in constraint order
+ */
+export async function findExistingUniqueKeys(
+  queryExecutor: QueryExecutor,
+  graphName: string,
+  kind: 'vertex' | 'edge',
+  label: string,
+  constraint: string[],
+  keys: unknown[][],
+  options: QueryOptions = {}
+): Promise<unknown[][]> {
+  if (keys.length === 0) {
+    return [];
+  }
+
+  // The key tuples are passed as a parameter list, so that no value can
+  // change the query
+  const condition = constraint.map((property, i) => `x.${property} = candidate[${i}]`).join(' AND ');
+  const pattern = kind === 'vertex' ? `(x:${label})` : `()-[x:${label}]->()`;
+
+  const result = await queryExecutor.executeCypher(`
+    UNWIND $keys AS candidate
+    MATCH ${pattern}
+    WHERE ${condition}
+    RETURN DISTINCT [${constraint.map(property => `x.${property}`).join(', ')}] AS key
+  `, { keys }, graphName, options);
+
+  return result.rows.map(row => asAgtype(row.key) as unknown[]);
+}
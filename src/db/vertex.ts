@@ -10,9 +10,15 @@
  */
 
 import { QueryExecutor } from './query';
+import { asAgtype, isAgtypeTrue } from './agtype';
+import { CursorPageOptions, Page, buildKeysetClauses, buildPage, iteratePages } from './pagination';
 import { SQLGenerator } from '../sql/generator';
 import { PropertyType, VertexLabel, SchemaDefinition } from '../schema/types';
 import { ValidationError } from '../core/errors';
+import { SchemaValidator } from '../schema/validator';
+import { UniqueConstraintError } from '../schema/errors';
+import { getUniqueConstraints, getUniqueKeyValues } from '../schema/utils';
+import { assertUpsertKeys, buildUpsertClauses, findExistingUniqueKeys } from './utils';
 import { SQLFilterOperator, SQLOrderDirection } from './types';
 
 /**
@@ -60,6 +66,23 @@ export interface VertexQueryOptions {
    * Number of results to skip
    */
   offset?: number;
+
+  /**
+   * Whether the query may run on a read replica; set to false to read
+   * vertices this connection has just written
+   * @default true
+   */
+  readOnly?: boolean;
+}
+
+/**
+ * Vertex pagination options
+ */
+export interface VertexPageOptions extends CursorPageOptions {
+  /**
+   * Filters to apply
+   */
+  filters?: VertexQueryOptions['filters'];
 }
 
 /**
@@ -89,6 +112,31 @@ export type Vertex<T extends SchemaDefinition, L extends keyof T['vertices']> =
   properties?: Record<string, any>;
 } & VertexData<T, L>;
 
+/**
+ * Created and updated counts of an upsert
+ */
+export interface UpsertCounts {
+  /**
+   * Number of created items
+   */
+  created: number;
+
+  /**
+   * Number of existing items that were updated
+   */
+  updated: number;
+}
+
+/**
+ * Result of a vertex upsert
+ */
+export interface VertexUpsertResult<T extends SchemaDefinition, L extends keyof T['vertices']> extends UpsertCounts {
+  /**
+   * Upserted vertex
+   */
+  vertex: Vertex<T, L>;
+}
+
 /**
  * Vertex operations
  */
@@ -106,7 +154,14 @@ export class VertexOperations<T extends SchemaDefinition> {
     private queryExecutor: QueryExecutor,
     private sqlGenerator: SQLGenerator,
     private graphName?: string
-  ) {}
+  ) {
+    this.validator = new SchemaValidator(schema);
+  }
+
+  /**
+   * Validator used for upserts
+   */
+  private validator: SchemaValidator;
 
   /**
    * Create a new vertex
@@ -115,6 +170,7 @@ export class VertexOperations<T extends SchemaDefinition> {
    * @param data - Vertex data
    * @param graphName - Optional graph name to override the default
    * @returns Created vertex
+   * @throws UniqueConstraintError if a unique constraint of the label is already taken
    */
   async createVertex<L extends keyof T['vertices']>(
     label: L,
@@ -130,6 +186,9 @@ export class VertexOperations<T extends SchemaDefinition> {
       throw new ValidationError('Graph name is required to create a vertex');
     }
 
+    // Reject values already taken by another vertex
+    await this.assertUniqueKeysAvailable(label, data, targetGraph);
+
     // Generate properties string for Cypher query
     const propsString = this.formatPropertiesForCypher(data);
 
@@ -149,6 +208,88 @@ export class VertexOperations<T extends SchemaDefinition> {
     return this.transformToVertex(label, result.rows[0]);
   }
 
+  /**
+   * Create or update a vertex identified by its key properties
+   *
+   * Runs a single Cypher MERGE on the key properties and sets the remaining
+   * data on the matched or created vertex, replacing the racy
+   * `getVertex` then `createVertex`/`updateVertex` sequence.
+   *
+   * @example
+   * ```typescript
+   * const { vertex, created } = await vertexOperations.upsertVertex(
+   *   'Person', { email: 'ada@example.com' }, { name: 'Ada' }
+   * );
+   * ```
+   *
+   * @param label - Vertex label
+   * @param keyProps - Properties identifying the vertex
+   * @param data - Properties to set on the vertex
+   * @param graphName - Optional graph name to override the default
+   * @returns Upserted vertex with created and updated counts
+   * @throws ValidationError if no key properties are given or a key is null
+   * @throws SchemaValidationError if the properties do not match the schema
+   */
+  async upsertVertex<L extends keyof T['vertices']>(
+    label: L,
+    keyProps: VertexData<T, L>,
+    data: VertexData<T, L> = {},
+    graphName?: string
+  ): Promise<VertexUpsertResult<T, L>> {
+    // Ensure we have a graph name
+    const targetGraph = graphName || this.graphName;
+    if (!targetGraph) {
+      throw new ValidationError('Graph name is required to upsert a vertex');
+    }
+
+    this.validateUpsertData(label, keyProps, data);
+
+    const { keyPattern, setClause, params } = buildUpsertClauses('v', keyProps, data);
+
+    // Count the existing match first so created and updated can be told apart
+    const query = `
+      OPTIONAL MATCH (existing:${String(label)} ${keyPattern})
+      WITH count(existing) AS matched
+      MERGE (v:${String(label)} ${keyPattern})${setClause}
+      RETURN v, matched = 0 AS created
+    `;
+
+    const result = await this.queryExecutor.executeCypher(
+      query,
+      params,
+      targetGraph
+    );
+
+    const created = isAgtypeTrue(result.rows[0]?.created);
+
+    return {
+      vertex: this.transformToVertex(label, result.rows[0]),
+      created: created ? 1 : 0,
+      updated: created ? 0 : 1,
+    };
+  }
+
+  /**
+   * Validate the key properties and data of a vertex upsert
+   *
+   * The combined properties are validated with the SchemaValidator because
+   * the upsert may create the vertex.
+   *
+   * @param label - Vertex label
+   * @param keyProps - Properties identifying the vertex
+   * @param data - Properties to set on the vertex
+   * @throws ValidationError if no key properties are given or a key is null
+   * @throws SchemaValidationError if the properties do not match the schema
+   */
+  public validateUpsertData<L extends keyof T['vertices']>(
+    label: L,
+    keyProps: VertexData<T, L>,
+    data: VertexData<T, L> = {}
+  ): void {
+    assertUpsertKeys(keyProps);
+    this.validator.validateVertexAndThrow(label as string, { ...keyProps, ...data });
+  }
+
   /**
    * Get a vertex by ID
    *
@@ -316,17 +457,9 @@ export class VertexOperations<T extends SchemaDefinition> {
     `;
 
     // Add WHERE clause for filters
-    if (options.filters && options.filters.length > 0) {
-      const filterConditions = options.filters.map(filter => {
-        const operator = this.mapFilterOperator(filter.operator);
-        // Handle boolean values specially to avoid type casting issues
-        if (typeof filter.value === 'boolean') {
-          return `v.${filter.property} ${operator} ${filter.value}`;
-        }
-        return `toString(v.${filter.property}) ${operator} '${String(filter.value)}'`;
-      }).join(' AND ');
-
-      query += `\nWHERE ${filterConditions}`;
+    const filterConditions = this.buildFilterConditions(options.filters);
+    if (filterConditions.length > 0) {
+      query += `\nWHERE ${filterConditions.join(' AND ')}`;
     }
 
     // Add RETURN clause
@@ -356,13 +489,105 @@ export class VertexOperations<T extends SchemaDefinition> {
     const result = await this.queryExecutor.executeCypher(
       query,
       {},
-      targetGraph
+      targetGraph,
+      { readOnly: options.readOnly ?? true }
     );
 
     // Transform results to Vertex objects
     return result.rows.map(row => this.transformToVertex(label, row));
   }
 
+  /**
+   * Get a page of vertices by label using keyset pagination
+   *
+   * Pass the `nextCursor` of a page as `after` to get the following page.
+   * Unlike `limit`/`offset`, pages stay consistent while the label is being
+   * written to.
+   *
+   * @param label - Vertex label
+   * @param options - Pagination options
+   * @param graphName - Optional graph name to override the default
+   * @returns Page of vertices
+   * @throws ValidationError if the page size, order property or cursor is invalid
+   */
+  async getVerticesPage<L extends keyof T['vertices']>(
+    label: L,
+    options: VertexPageOptions = {},
+    graphName?: string
+  ): Promise<Page<Vertex<T, L>>> {
+    // Ensure we have a graph name
+    const targetGraph = graphName || this.graphName;
+    if (!targetGraph) {
+      throw new ValidationError('Graph name is required to get vertices');
+    }
+
+    const keyset = buildKeysetClauses('v', options);
+    const conditions = this.buildFilterConditions(options.filters);
+    if (keyset.condition) {
+      conditions.push(keyset.condition);
+    }
+
+    let query = `
+      MATCH (v:${String(label)})
+    `;
+    if (conditions.length > 0) {
+      query += `\nWHERE ${conditions.join(' AND ')}`;
+    }
+    query += `\nRETURN v\nORDER BY ${keyset.orderBy}\nLIMIT ${keyset.fetchSize}`;
+
+    const result = await this.queryExecutor.executeCypher(
+      query,
+      keyset.params,
+      targetGraph
+    );
+
+    const items = result.rows.map(row => this.transformToVertex(label, row));
+    return buildPage(items, options, item => item);
+  }
+
+  /**
+   * Iterate over all vertices of a label page by page
+   *
+   * @example
+   * ```typescript
+   * for await (const vertex of vertexOperations.iterateVertices('Person', { pageSize: 500 })) {
+   *   console.log(vertex.id);
+   * }
+   * ```
+   *
+   * @param label - Vertex label
+   * @param options - Pagination options; `after` sets the starting cursor
+   * @param graphName - Optional graph name to override the default
+   * @returns Async iterable of vertices
+   */
+  iterateVertices<L extends keyof T['vertices']>(
+    label: L,
+    options: VertexPageOptions = {},
+    graphName?: string
+  ): AsyncGenerator<Vertex<T, L>, void, undefined> {
+    return iteratePages(
+      after => this.getVerticesPage(label, { ...options, after }, graphName),
+      options.after ?? null
+    );
+  }
+
+  /**
+   * Build Cypher conditions for query filters
+   *
+   * @param filters - Filters to apply
+   * @returns Conditions to join with AND
+   */
+  private buildFilterConditions(filters: VertexQueryOptions['filters'] = []): string[] {
+    return filters.map(filter => {
+      const operator = this.mapFilterOperator(filter.operator);
+      // Handle boolean values specially to avoid type casting issues
+      if (typeof filter.value === 'boolean') {
+        return `v.${filter.property} ${operator} ${filter.value}`;
+      }
+      return `toString(v.${filter.property}) ${operator} '${String(filter.value)}'`;
+    });
+  }
+
   /**
    * Map SQL filter operator to Cypher operator
    *
@@ -661,6 +886,39 @@ export class VertexOperations<T extends SchemaDefinition> {
       .join(', ');
   }
 
+  /**
+   * Check that the unique constraint values of new vertex data are not taken
+   *
+   * @param label - Vertex label
+   * @param data - Vertex data
+   * @param graphName - Graph name
+   * @throws UniqueConstraintError if another vertex has the same values
+   */
+  private async assertUniqueKeysAvailable(
+    label: keyof T['vertices'],
+    data: Record<string, any>,
+    graphName: string
+  ): Promise<void> {
+    const definition = this.schema.vertices[label as string];
+    if (!definition) {
+      return;
+    }
+
+    for (const constraint of getUniqueConstraints(definition)) {
+      const values = getUniqueKeyValues(data, constraint);
+      if (!values) {
+        continue;
+      }
+
+      const existing = await findExistingUniqueKeys(
+        this.queryExecutor, graphName, 'vertex', String(label), constraint, [values]
+      );
+      if (existing.length > 0) {
+        throw new UniqueConstraintError(String(label), constraint, values, 'a vertex with these values already exists');
+      }
+    }
+  }
+
   /**
    * Format properties for Cypher query
    *
@@ -813,27 +1071,20 @@ export class VertexOperations<T extends SchemaDefinition> {
         let vertexData;
 
         if (typeof row.v === 'string') {
-          // Try to parse as JSON first
+          // Parse the agtype text
+          // Example: {"id": 844424930131969, "label": "Person", "properties": {"age": 30, "name": "Alice"}}::vertex
           try {
-            vertexData = JSON.parse(row.v);
-          } catch (_jsonError) {
-            // If JSON parsing fails, it might be an AGE-specific format with type annotations
-            // Example: {"id": 844424930131969, "label": "Person", "properties": {"age": 30, "name": "Alice"}}::vertex
-            // Strip the type annotation and try again
-            const cleanedStr = row.v.replace(/::vertex$/, '');
-            try {
-              vertexData = JSON.parse(cleanedStr);
-            } catch (_cleanedJsonError) {
-              // If that still fails, try to extract data using regex
-              const str = String(row.v);
-              const idMatch = str.match(/id[=:]\s*(\d+)/);
-              const propsMatch = str.match(/properties[=:]\s*({.*?})/);
-
-              vertexData = {
-                identity: idMatch ? parseInt(idMatch[1]) : 0,
-                properties: propsMatch ? JSON.parse(propsMatch[1].replace(/'/g, '"')) : {}
-              };
-            }
+            vertexData = asAgtype(row.v);
+          } catch (_parseError) {
+            // If parsing fails, try to extract data using regex
+            const str = String(row.v);
+            const idMatch = str.match(/id[=:]\s*(\d+)/);
+            const propsMatch = str.match(/properties[=:]\s*({.*?})/);
+
+            vertexData = {
+              identity: idMatch ? parseInt(idMatch[1]) : 0,
+              properties: propsMatch ? JSON.parse(propsMatch[1].replace(/'/g, '"')) : {}
+            };
           }
         } else if (typeof row.v === 'object') {
           vertexData = row.v;
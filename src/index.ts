@@ -7,6 +7,7 @@
  * - SQL Generation (SQLGenerator)
  * - Schema Loading and Validation (SchemaLoader)
  * - Batch Operations (SchemaLoader for bulk loading)
+ * - Code Generation (SchemaCodeGenerator)
  *
  * @packageDocumentation
  */
@@ -24,13 +25,139 @@ export {
   TransactionManager,
 } from './db';
 
+// Transactions and retries
+export {
+  IsolationLevel,
+  DatabaseErrorType,
+  classifyDatabaseError,
+  isTransientErrorType,
+  isRetryableTransactionError,
+} from './db';
+
+// Read replicas
+export {
+  LoadBalancingStrategy,
+  AgeExtensionInitializer,
+} from './db';
+
+export type {
+  ReplicaConfig,
+  ReplicaRoutingConfig,
+  ReplicaHealth,
+  ConnectionRequestOptions,
+  ConnectionSource,
+  PoolStats,
+  PoolMemberStats,
+  AgeExtensionInitializerOptions,
+} from './db';
+
+// Graph management
+export {
+  GraphManager,
+  TenantGraphClient,
+  validateGraphName,
+} from './db';
+
+export type {
+  GraphInfo,
+  CreateGraphOptions,
+  DropGraphOptions,
+  CloneGraphOptions,
+  TenantClientOptions,
+} from './db';
+
+// Database drivers
+export {
+  DriverType,
+  PgDriver,
+  PostgresDriver,
+  FakeDriver,
+  registerDriver,
+  createDriver,
+} from './db';
+
+export type {
+  Driver,
+  DriverClient,
+  DriverFactory,
+  DriverOptions,
+  DriverQueryConfig,
+  DriverQueryResult,
+  DriverField,
+  DriverNotification,
+  DriverSubscription,
+  DriverPoolStats,
+  NotificationHandler,
+  CopyData,
+  PostgresDriverOptions,
+  FakeStatement,
+  FakeStatementMatcher,
+  FakeResponse,
+  FakeDriverOptions,
+} from './db';
+
+// Instrumentation
+export {
+  SpanName,
+  SpanAttribute,
+  PoolGauge,
+  InMemoryInstrumentation,
+  createOpenTelemetryInstrumentation,
+  noopInstrumentation,
+  recordPoolStats,
+} from './db';
+
+export type {
+  Instrumentation,
+  InstrumentationSpan,
+  Attributes,
+  AttributeValue,
+  RecordedSpan,
+  RecordedGauge,
+  OpenTelemetryInstrumentationOptions,
+  OpenTelemetryTracerLike,
+  OpenTelemetrySpanLike,
+  OpenTelemetryMeterLike,
+  OpenTelemetryGaugeLike,
+} from './db';
+
+// Agtype values
+export {
+  AgVertex,
+  AgEdge,
+  AgPath,
+  AgtypeParseError,
+  parseAgtype,
+} from './db';
+
 // Connection types
 export type {
   Connection,
   ConnectionConfig,
   QueryOptions,
+  StreamOptions,
+  AgtypeParseOptions,
+  GraphId,
   QueryResult,
   DatabaseError,
+  ConnectionHooks,
+  ConnectionEvent,
+  RetryConfig,
+  TransactionOptions,
+  TransactionRetryPolicy,
+  TransactionAttempt,
+  Vertex,
+  Edge,
+  VertexQueryOptions,
+  EdgeQueryOptions,
+  Page,
+  CursorPageOptions,
+  VertexPageOptions,
+  EdgePageOptions,
+  UpsertCounts,
+  VertexUpsertResult,
+  EdgeUpsertResult,
+  BatchUpsertResult,
 } from './db';
 
 // Query Building
@@ -41,11 +168,38 @@ export {
   AlgorithmQueryBuilder,
 } from './query';
 
+// Query expression DSL
+export {
+  Expression,
+  AliasedExpression,
+  CaseExpression,
+  PropertyExpression,
+  VertexRef,
+  EdgeRef,
+  prop,
+  param,
+  variable,
+  and,
+  or,
+  not,
+  coalesce,
+  caseWhen,
+  fn,
+} from './query';
+
 // Query types
 export type {
   IQueryBuilder,
   QueryBuilderResult,
   OrderDirection,
+  ExpressionContext,
+  Operand,
+  ConditionInput,
+  ProjectionInput,
+  OrderInput,
+  IMergeClause,
+  VertexPropertyValues,
+  EdgePropertyValues,
 } from './query';
 
 // SQL Generation
@@ -64,5 +218,27 @@ export {
   SchemaLoaderDatabaseError,
   SchemaLoaderTransactionError,
   TempResourceError,
+  readGraphData,
+  readNDJSON,
+  readCSV,
+  createFileDeadLetterSink,
+  createTableDeadLetterSink,
   loaderVersion
 } from './loader';
+
+// Code Generation
+export {
+  SchemaCodeGenerator,
+  runCodegenCli,
+  parseCodegenArgs,
+  toPascalCase,
+  codegenVersion,
+} from './codegen';
+
+// Code generation types
+export type {
+  SchemaCodeGeneratorOptions,
+  GeneratedFile,
+  CodegenCliArgs,
+  CodegenCliIO,
+} from './codegen';
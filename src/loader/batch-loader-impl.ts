@@ -12,9 +12,10 @@
 import { SchemaDefinition } from '../schema/types';
 import { QueryExecutor } from '../db/query';
 import { DataValidator } from './data-validator';
-import { CypherQueryGenerator } from './cypher-query-generator';
+import { CypherQueryGenerator, EdgeEndpointKeys } from './cypher-query-generator';
 import { QueryBuilder } from '../query/builder';
 import { BatchLoaderError, BatchLoaderErrorContext, ValidationError } from '../core/errors';
+import { toDeadLetterSink } from './dead-letter';
 import {
   BatchLoader,
   BatchLoaderOptions,
@@ -553,13 +554,17 @@ class BatchLoaderImpl<T extends SchemaDefinition> implements BatchLoader<T> {
             });
           }
 
-          // If continueOnError is true, log the error and continue
-          if (options.continueOnError === true) {
+          // If continueOnError is true or a dead-letter sink is given, log the error and continue
+          if (options.continueOnError === true || options.deadLetters) {
             const batchNumber = Math.floor(i / batchSize) + 1;
             const totalBatches = Math.ceil(vertexArray.length / batchSize);
             const errorMessage = `Error loading batch ${batchNumber}/${totalBatches} of vertex type ${vertexType}: ${error instanceof Error ? error.message : String(error)}`;
             console.error(errorMessage);
             warnings.push(errorMessage);
+            vertexCount += await this.writeDeadLetters(
+              'vertex', vertexType, vertexArray.slice(i, i + batchSize), i / batchSize, error, options,
+              records => this.createRecords('vertex', vertexType, records, queryBuilder, queryGenerator, graphName)
+            );
           } else {
             // Otherwise, re-throw the error to be handled by the caller
             throw error;
@@ -631,8 +636,11 @@ class BatchLoaderImpl<T extends SchemaDefinition> implements BatchLoader<T> {
           continue;
         }
 
-        // Validate vertex references if validateBeforeLoad is enabled
-        if (options.validateBeforeLoad !== false) {
+        const endpointKeys = options.endpointKeys?.[edgeType] ?? {};
+
+        // Validate vertex references if validateBeforeLoad is enabled; references
+        // resolved by keys are matched when the edges are created
+        if (options.validateBeforeLoad !== false && !endpointKeys.from?.length && !endpointKeys.to?.length) {
           try {
             const validationWarnings = await this.validateEdgeReferences(edgeType, edgeDef, edgeArray, graphName);
             warnings.push(...validationWarnings);
@@ -674,7 +682,7 @@ class BatchLoaderImpl<T extends SchemaDefinition> implements BatchLoader<T> {
             // Set edge data in the age_params table using QueryBuilder's setParam method
             try {
               const paramKey = `edge_${edgeType}`;
-              await queryBuilder.setParam(paramKey, batch);
+              await queryBuilder.setParam(paramKey, batch.map(edge => this.toKeyedEdge(edge, endpointKeys)));
             } catch (error) {
               // Create context for the error
               const context: BatchLoaderErrorContext = {
@@ -695,7 +703,7 @@ class BatchLoaderImpl<T extends SchemaDefinition> implements BatchLoader<T> {
             // Generate and execute the query for creating edges
             try {
               // Generate the Cypher query for creating edges
-              const query = queryGenerator.generateCreateEdgesQuery(edgeType, graphName);
+              const query = queryGenerator.generateCreateEdgesQuery(edgeType, graphName, endpointKeys);
 
               // Log the query for debugging
               if (options.debug) {
@@ -735,7 +743,7 @@ class BatchLoaderImpl<T extends SchemaDefinition> implements BatchLoader<T> {
                 phase: 'edges',
                 type: edgeType,
                 index: i,
-                sql: queryGenerator.generateCreateEdgesQuery(edgeType, graphName),
+                sql: queryGenerator.generateCreateEdgesQuery(edgeType, graphName, endpointKeys),
                 data: { batchSize, batchNumber, totalBatches }
               };
 
@@ -810,13 +818,17 @@ class BatchLoaderImpl<T extends SchemaDefinition> implements BatchLoader<T> {
               });
             }
 
-            // If continueOnError is true, log the error and continue
-            if (options.continueOnError === true) {
+            // If continueOnError is true or a dead-letter sink is given, log the error and continue
+            if (options.continueOnError === true || options.deadLetters) {
               const batchNumber = Math.floor(i / batchSize) + 1;
               const totalBatches = Math.ceil(edgeArray.length / batchSize);
               const errorMessage = `Error loading batch ${batchNumber}/${totalBatches} of edge type ${edgeType}: ${error instanceof Error ? error.message : String(error)}`;
               console.error(errorMessage);
               warnings.push(errorMessage);
+              edgeCount += await this.writeDeadLetters(
+                'edge', edgeType, edgeArray.slice(i, i + batchSize), i / batchSize, error, options,
+                records => this.createRecords('edge', edgeType, records, queryBuilder, queryGenerator, graphName, endpointKeys)
+              );
             } else {
               // Otherwise, re-throw the error to be handled by the caller
               throw error;
@@ -862,6 +874,118 @@ class BatchLoaderImpl<T extends SchemaDefinition> implements BatchLoader<T> {
     return edgeCount;
   }
 
+  /**
+   * Replace the endpoints of an edge resolved by keys with their key values
+   *
+   * @param edge - Edge data
+   * @param endpointKeys - Vertex properties the endpoints are matched on
+   * @returns Edge data with each keyed endpoint as the list of its key values
+   */
+  private toKeyedEdge(edge: any, endpointKeys: EdgeEndpointKeys): any {
+    const keyed = { ...edge };
+    for (const side of ['from', 'to'] as const) {
+      const keys = endpointKeys[side];
+      if (keys && keys.length > 0) {
+        const value = edge[side];
+        keyed[side] = keys.length === 1 && (typeof value !== 'object' || value === null)
+          ? [value]
+          : keys.map(key => value?.[key]);
+      }
+    }
+    return keyed;
+  }
+
+  /**
+   * Store records in the age_params table and create them in the graph
+   *
+   * @param kind - Whether the records are vertices or edges
+   * @param label - Vertex or edge type
+   * @param records - Records to create
+   * @param queryBuilder - Query builder storing the records
+   * @param queryGenerator - Cypher query generator
+   * @param graphName - Graph name
+   * @param endpointKeys - Vertex properties the endpoints of edges are matched on
+   * @returns Number of vertices or edges created
+   */
+  private async createRecords(
+    kind: 'vertex' | 'edge',
+    label: string,
+    records: any[],
+    queryBuilder: QueryBuilder<T>,
+    queryGenerator: CypherQueryGenerator<T>,
+    graphName: string,
+    endpointKeys: EdgeEndpointKeys = {}
+  ): Promise<number> {
+    await queryBuilder.setParam(
+      `${kind}_${label}`,
+      kind === 'vertex' ? records : records.map(edge => this.toKeyedEdge(edge, endpointKeys))
+    );
+    const result = await this.queryExecutor.executeSQL(kind === 'vertex'
+      ? queryGenerator.generateCreateVerticesQuery(label, graphName)
+      : queryGenerator.generateCreateEdgesQuery(label, graphName, endpointKeys));
+
+    const rawValue = result.rows?.[0]?.[kind === 'vertex' ? 'created_vertices' : 'created_edges'];
+    const value = typeof rawValue === 'object' && rawValue !== null && 'value' in rawValue ? rawValue.value : rawValue;
+    return parseInt(String(value ?? 0), 10) || 0;
+  }
+
+  /**
+   * Write the records of a failed batch that fail to load to the dead-letter
+   * sink, if one is given
+   *
+   * The batch is halved and each half created again until the records that
+   * fail on their own are found, so the records loading fine are created
+   * rather than written to the sink.
+   *
+   * @param kind - Whether the records are vertices or edges
+   * @param label - Vertex or edge type
+   * @param records - Records of the batch
+   * @param batch - Index of the batch, starting at 0
+   * @param error - Error loading the records
+   * @param options - Load options
+   * @param create - Function creating records and returning the number created
+   * @returns Number of records created while isolating the failing ones
+   */
+  private async writeDeadLetters(
+    kind: 'vertex' | 'edge',
+    label: string,
+    records: any[],
+    batch: number,
+    error: unknown,
+    options: LoadOptions,
+    create: (records: any[]) => Promise<number>
+  ): Promise<number> {
+    if (!options.deadLetters) {
+      return 0;
+    }
+
+    if (records.length > 1) {
+      const middle = Math.ceil(records.length / 2);
+      let created = 0;
+      for (const part of [records.slice(0, middle), records.slice(middle)]) {
+        try {
+          created += await create(part);
+        } catch (partError) {
+          created += await this.writeDeadLetters(kind, label, part, batch, partError, options, create);
+        }
+      }
+      return created;
+    }
+
+    await toDeadLetterSink(options.deadLetters).write([{
+      kind,
+      label,
+      data: records[0],
+      batch,
+      databaseError: error instanceof BatchLoaderError && error.cause instanceof Error
+        ? error.cause.message
+        : error instanceof Error ? error.message : String(error),
+      rejectedAt: new Date().toISOString()
+    }]);
+    return 0;
+  }
+
+
   /**
    * Validate edge references against existing vertices
    *
@@ -9,6 +9,8 @@
 
 import { SchemaDefinition } from '../schema/types';
 import { QueryExecutor } from '../db/query';
+import { DeadLetterCallback, DeadLetterSink } from './dead-letter';
+import { EdgeEndpointKeys } from './cypher-templates';
 
 
 /**
@@ -327,6 +329,42 @@ export interface LoadOptions {
    */
   continueOnError?: boolean;
 
+  /**
+   * Vertex properties the endpoints of edges are matched on, by edge type
+   *
+   * An endpoint with keys is given as an object holding the key properties,
+   * or as the key value itself when there is a single key. Endpoints without
+   * keys are matched on `id`.
+   *
+   * @example
+   * ```typescript
+   * const options = {
+   *   endpointKeys: {
+   *     WORKS_AT: { from: ['email'], to: ['country', 'registrationNo'] }
+   *   }
+   * };
+   * ```
+   */
+  endpointKeys?: Record<string, EdgeEndpointKeys>;
+
+  /**
+   * Sink or callback receiving the records that fail to load
+   *
+   * A failed batch is halved and loaded again until the records failing on
+   * their own are found. Each of them is written with its label, batch index
+   * and the database error, and the loading process continues with the next
+   * batch as with `continueOnError`. The records can be loaded again with
+   * `SchemaLoader.replayDeadLetters` once they are fixed.
+   *
+   * @example
+   * ```typescript
+   * const options = {
+   *   deadLetters: createFileDeadLetterSink('rejected.ndjson')
+   * };
+   * ```
+   */
+  deadLetters?: DeadLetterSink | DeadLetterCallback;
+
   /**
    * Transaction timeout in milliseconds
    *
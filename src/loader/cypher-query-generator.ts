@@ -10,10 +10,13 @@
 
 import { SchemaDefinition, VertexLabel, EdgeLabel } from '../schema/types';
 import {
+  EdgeEndpointKeys,
   createParameterizedVertexTemplate,
   createParameterizedEdgeTemplate
 } from './cypher-templates';
 
+export type { EdgeEndpointKeys } from './cypher-templates';
+
 /**
  * Options for generating Cypher queries
  */
@@ -64,9 +67,11 @@ export class CypherQueryGenerator<T extends SchemaDefinition> {
    *
    * @param vertexType - The type of vertex to create
    * @param graphName - Name of the graph
+   * @param dataSource - Function call returning the vertex data; defaults to
+   * the `get_vertices` function of the schema
    * @returns Cypher query string
    */
-  generateCreateVerticesQuery(vertexType: string, graphName: string): string {
+  generateCreateVerticesQuery(vertexType: string, graphName: string, dataSource?: string): string {
     // Get the vertex definition from the schema
     const vertexDef = this.schema.vertices[vertexType];
 
@@ -83,7 +88,7 @@ export class CypherQueryGenerator<T extends SchemaDefinition> {
     }
 
     // Generate the template
-    const template = createParameterizedVertexTemplate(vertexType, propertyNames, this.schemaName);
+    const template = createParameterizedVertexTemplate(vertexType, propertyNames, this.schemaName, dataSource);
 
     // Add comments if requested
     const query = this.includeComments
@@ -103,9 +108,18 @@ export class CypherQueryGenerator<T extends SchemaDefinition> {
    *
    * @param edgeType - The type of edge to create
    * @param graphName - Name of the graph
+   * @param endpointKeys - Vertex properties the endpoints are matched on,
+   * instead of `id`
+   * @param dataSource - Function call returning the edge data; defaults to
+   * the `get_edges` function of the schema
    * @returns Cypher query string
    */
-  generateCreateEdgesQuery(edgeType: string, graphName: string): string {
+  generateCreateEdgesQuery(
+    edgeType: string,
+    graphName: string,
+    endpointKeys: EdgeEndpointKeys = {},
+    dataSource?: string
+  ): string {
     // Get the edge definition from the schema
     const edgeDef = this.schema.edges[edgeType];
 
@@ -124,8 +138,21 @@ export class CypherQueryGenerator<T extends SchemaDefinition> {
       propertyNames.push('to');
     }
 
+    // Endpoints matched on keys need their label, as keys are only unique within one
+    const label = (side: 'from' | 'to') =>
+      (side === 'from' ? edgeDef.fromLabel : edgeDef.toLabel) ??
+      (endpointKeys[side]?.length ? this.getEndpointLabel(edgeDef, side) : undefined);
+
     // Generate the template
-    const template = createParameterizedEdgeTemplate(edgeType, propertyNames, edgeDef.toLabel, edgeDef.fromLabel, this.schemaName);
+    const template = createParameterizedEdgeTemplate(
+      edgeType,
+      propertyNames,
+      label('to'),
+      label('from'),
+      this.schemaName,
+      endpointKeys,
+      dataSource
+    );
 
     // Add comments if requested
     const query = this.includeComments
@@ -165,19 +192,26 @@ export class CypherQueryGenerator<T extends SchemaDefinition> {
       const edgeDef = def as EdgeLabel;
       comments.push(`/* Edge properties: ${Object.keys(edgeDef.properties).join(', ')} */`);
 
-      // Get from/to information from either direct properties or from vertex constraints
-      const fromType = edgeDef.from ||
-        (typeof edgeDef.fromVertex === 'string' ? edgeDef.fromVertex : edgeDef.fromVertex.label);
-      const toType = edgeDef.to ||
-        (typeof edgeDef.toVertex === 'string' ? edgeDef.toVertex : edgeDef.toVertex.label);
-
-      comments.push(`/* From vertex type: ${fromType} */`);
-      comments.push(`/* To vertex type: ${toType} */`);
+      comments.push(`/* From vertex type: ${this.getEndpointLabel(edgeDef, 'from')} */`);
+      comments.push(`/* To vertex type: ${this.getEndpointLabel(edgeDef, 'to')} */`);
     }
 
     return `${comments.join('\n')}\n${query}`;
   }
 
+  /**
+   * Get the vertex label of an edge endpoint
+   *
+   * @param edgeDef - The edge definition
+   * @param side - The endpoint
+   * @returns Vertex label, from either direct properties or from vertex constraints
+   */
+  private getEndpointLabel(edgeDef: EdgeLabel, side: 'from' | 'to'): string {
+    const vertex = side === 'from' ? edgeDef.fromVertex : edgeDef.toVertex;
+    return (side === 'from' ? edgeDef.from : edgeDef.to) ||
+      (typeof vertex === 'string' ? vertex : vertex.label);
+  }
+
   /**
    * Generate a query that checks if vertices exist
    *
@@ -196,11 +230,28 @@ export class CypherQueryGenerator<T extends SchemaDefinition> {
   /**
    * Generate a query that validates edge endpoints
    *
+   * Endpoints are looked up by vertex id, or by the key properties of the
+   * edge labels given in `endpointKeys`. With endpoint keys, the query
+   * returns the type and the key values of each edge with an unresolved
+   * endpoint, read from the `edge_type`, `from_key` and `to_key` columns of
+   * the edge table.
+   *
    * @param edgeTable - Name of the edge table
    * @param graphName - Name of the graph
+   * @param endpointKeys - Vertex properties the endpoints are resolved by,
+   * per edge label
    * @returns SQL query string
    */
-  generateValidateEdgeEndpointsQuery(edgeTable: string, graphName: string): string {
+  generateValidateEdgeEndpointsQuery(
+    edgeTable: string,
+    graphName: string,
+    endpointKeys: Record<string, EdgeEndpointKeys> = {}
+  ): string {
+    const keyed = Object.entries(endpointKeys).filter(([, keys]) => keys.from?.length || keys.to?.length);
+    if (keyed.length > 0) {
+      return this.generateValidateEdgeEndpointKeysQuery(edgeTable, graphName, keyed);
+    }
+
     return `
       WITH vertex_ids AS (
         SELECT * FROM cypher('${graphName}', $$
@@ -222,4 +273,79 @@ export class CypherQueryGenerator<T extends SchemaDefinition> {
          OR NOT EXISTS(SELECT 1 FROM vertex_ids v WHERE v.vertex_id::text::bigint = e.to_id);
     `;
   }
+
+  /**
+   * Generate a query that validates edge endpoints resolved by key properties
+   *
+   * The key values of each endpoint label are read with one Cypher query and
+   * compared, as JSON lists, with the key values stored for each edge.
+   *
+   * @param edgeTable - Name of the edge table
+   * @param graphName - Name of the graph
+   * @param keyed - Edge labels with the properties their endpoints are resolved by
+   * @returns SQL query string
+   */
+  private generateValidateEdgeEndpointKeysQuery(
+    edgeTable: string,
+    graphName: string,
+    keyed: [string, EdgeEndpointKeys][]
+  ): string {
+    const keySets: string[] = [];
+    const checks: Record<'from' | 'to', string[]> = { from: [], to: [] };
+
+    keyed.forEach(([edgeType, keys], index) => {
+      const edgeDef = this.schema.edges[edgeType];
+
+      if (!edgeDef) {
+        throw new Error(`Edge type "${edgeType}" not found in schema`);
+      }
+
+      for (const side of ['from', 'to'] as const) {
+        const properties = keys[side];
+        if (!properties || properties.length === 0) {
+          continue;
+        }
+
+        const keySet = `${side}_keys_${index}`;
+        keySets.push(`
+      ${keySet} AS (
+        SELECT key::text::jsonb AS key FROM cypher('${graphName}', $$
+          MATCH (v:${this.getEndpointLabel(edgeDef, side)})
+          RETURN [${properties.map(property => `v.${property}`).join(', ')}]
+        $$) AS (key agtype)
+      ),`);
+        checks[side].push(`WHEN '${edgeType}' THEN EXISTS(SELECT 1 FROM ${keySet} k WHERE k.key = e.${side}_key)`);
+      }
+    });
+
+    const check = (side: 'from' | 'to') => {
+      const byId = `EXISTS(SELECT 1 FROM vertex_ids v WHERE v.vertex_id::text::bigint = e.${side}_id::bigint)`;
+      return checks[side].length > 0
+        ? `CASE e.edge_type ${checks[side].join(' ')} ELSE ${byId} END`
+        : byId;
+    };
+
+    return `
+      WITH vertex_ids AS (
+        SELECT * FROM cypher('${graphName}', $$
+          MATCH (v)
+          RETURN id(v) AS vertex_id
+        $$) AS (vertex_id agtype)
+      ),${keySets.join('')}
+      edge_endpoints AS (
+        SELECT
+          e.edge_type,
+          e.from_id,
+          e.to_id,
+          e.from_key,
+          e.to_key,
+          ${check('from')} AS from_exists,
+          ${check('to')} AS to_exists
+        FROM ${edgeTable} e
+      )
+      SELECT edge_type, from_id, to_id, from_key, to_key, from_exists, to_exists
+      FROM edge_endpoints
+      WHERE NOT from_exists OR NOT to_exists;
+    `;
+  }
 }
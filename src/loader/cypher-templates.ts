@@ -8,6 +8,23 @@
  * @packageDocumentation
  */
 
+/**
+ * Vertex properties the endpoints of an edge label are resolved by
+ *
+ * An endpoint without keys is resolved by its `id`.
+ */
+export interface EdgeEndpointKeys {
+  /**
+   * Properties of the source vertex label
+   */
+  from?: string[];
+
+  /**
+   * Properties of the target vertex label
+   */
+  to?: string[];
+}
+
 /**
  * Template for creating vertices in batch
  *
@@ -91,6 +108,8 @@ export function generatePropertyMapping(
  * @param vertexType - The type of vertex to create
  * @param propertyNames - Array of property names to include in the mapping
  * @param schemaName - The schema name for the PostgreSQL functions
+ * @param dataSource - Function call returning the vertex data; defaults to
+ * the `get_vertices` function of the schema
  * @returns Cypher query template with dynamic property mapping
  *
  * @example
@@ -105,12 +124,13 @@ export function generatePropertyMapping(
 export function createParameterizedVertexTemplate(
   vertexType: string,
   propertyNames: string[],
-  schemaName: string = 'age_schema_client'
+  schemaName: string = 'age_schema_client',
+  dataSource: string = `${schemaName}.get_vertices('${vertexType}')`
 ): string {
   const propertyMapping = generatePropertyMapping(propertyNames, 'vertex_data');
 
   return `
-    UNWIND ${schemaName}.get_vertices('${vertexType}') AS vertex_data
+    UNWIND ${dataSource} AS vertex_data
     CREATE (v:${vertexType} {
       id: vertex_data.id,
       ${propertyMapping}
@@ -130,17 +150,25 @@ export function createParameterizedVertexTemplate(
  * @param toLabel - The target vertex label (optional)
  * @param fromLabel - The source vertex label (optional)
  * @param schemaName - The schema name for the PostgreSQL functions
+ * @param endpointKeys - Vertex properties the endpoints are matched on; an
+ * endpoint without keys is matched on `id`, and an endpoint with keys holds
+ * the list of key values in the edge data
+ * @param dataSource - Function call returning the edge data; defaults to
+ * the `get_edges` function of the schema
  * @returns Cypher query template with dynamic property mapping
  *
  * @example
  * ```typescript
  * const template = createParameterizedEdgeTemplate(
- *   'KNOWS',
- *   ['from', 'to', 'since', 'strength'],
- *   'Person',
+ *   'WORKS_AT',
+ *   ['from', 'to', 'since'],
+ *   'Company',
  *   'Person',
- *   'age_schema_client'
+ *   'age_schema_client',
+ *   { from: ['email'], to: ['country', 'registrationNo'] }
  * );
+ * // MATCH (from:Person {email: edge_data.from[0]})
+ * // MATCH (to:Company {country: edge_data.to[0], registrationNo: edge_data.to[1]})
  * ```
  */
 export function createParameterizedEdgeTemplate(
@@ -148,15 +176,24 @@ export function createParameterizedEdgeTemplate(
   propertyNames: string[],
   toLabel: string | undefined,
   fromLabel: string | undefined,
-  schemaName: string = 'age_schema_client'
+  schemaName: string = 'age_schema_client',
+  endpointKeys: EdgeEndpointKeys = {},
+  dataSource: string = `${schemaName}.get_edges('${edgeType}')`
 ): string {
   const propertyMapping = generatePropertyMapping(propertyNames, 'edge_data');
 
-  const fromMatch = fromLabel ? `MATCH (from:${fromLabel} {id: edge_data.from})` : `MATCH (from {id: edge_data.from})`;
-  const toMatch = toLabel ? `MATCH (to:${toLabel} {id: edge_data.to})` : `MATCH (to {id: edge_data.to})`;
+  const endpointPattern = (side: 'from' | 'to') => {
+    const keys = endpointKeys[side];
+    return keys && keys.length > 0
+      ? keys.map((key, index) => `${key}: edge_data.${side}[${index}]`).join(', ')
+      : `id: edge_data.${side}`;
+  };
+
+  const fromMatch = fromLabel ? `MATCH (from:${fromLabel} {${endpointPattern('from')}})` : `MATCH (from {${endpointPattern('from')}})`;
+  const toMatch = toLabel ? `MATCH (to:${toLabel} {${endpointPattern('to')}})` : `MATCH (to {${endpointPattern('to')}})`;
 
   return `
-    UNWIND ${schemaName}.get_edges('${edgeType}') AS edge_data
+    UNWIND ${dataSource} AS edge_data
     ${fromMatch}
     ${toMatch}
     CREATE (from)-[:${edgeType} {
@@ -207,6 +244,7 @@ export function createEdgeTemplate(
  * @param fromLabel - The source vertex label (optional)
  * @param toLabel - The target vertex label (optional)
  * @param schemaName - The schema name for the PostgreSQL functions
+ * @param endpointKeys - Vertex properties the endpoints are matched on
  * @returns Complete Cypher query for creating edges
  *
  * @example
@@ -219,7 +257,8 @@ export function generateCreateEdgesQuery(
   propertyNames: string[],
   fromLabel?: string,
   toLabel?: string,
-  schemaName: string = 'age_schema_client'
+  schemaName: string = 'age_schema_client',
+  endpointKeys: EdgeEndpointKeys = {}
 ): string {
-  return createParameterizedEdgeTemplate(edgeType, propertyNames, toLabel, fromLabel, schemaName);
+  return createParameterizedEdgeTemplate(edgeType, propertyNames, toLabel, fromLabel, schemaName, endpointKeys);
 }
@@ -0,0 +1,245 @@
+/**
+ * Dead-letter sinks receiving the vertices and edges a load rejects
+ *
+ * A sink stores each rejected record with the reason it was rejected, so
+ * the record can be fixed and loaded again with
+ * `SchemaLoader.replayDeadLetters`.
+ *
+ * @packageDocumentation
+ */
+
+import fs from 'fs';
+import { QueryExecutor } from '../db/query';
+import { ValidationErrorInfo } from '../schema/validator-result';
+import { quoteIdentifier } from '../sql/utils';
+import { readLines } from './stream-sources';
+
+/**
+ * Vertex or edge rejected by a load
+ */
+export interface DeadLetter {
+  /**
+   * Whether the record is a vertex or an edge
+   */
+  kind: 'vertex' | 'edge';
+
+  /**
+   * Vertex or edge label
+   */
+  label: string;
+
+  /**
+   * Vertex or edge data as it was given to the loader
+   */
+  data: Record<string, any>;
+
+  /**
+   * Number of the batch of the label the record was in, starting at 0
+   */
+  batch: number;
+
+  /**
+   * Schema validation errors of the record, with the path of the property
+   * each error is about
+   */
+  validationErrors?: ValidationErrorInfo[];
+
+  /**
+   * Message of the database error loading the record
+   */
+  databaseError?: string;
+
+  /**
+   * Time the record was rejected, as an ISO 8601 string
+   */
+  rejectedAt: string;
+}
+
+/**
+ * Store of rejected records
+ */
+export interface DeadLetterSink {
+  /**
+   * Store rejected records
+   *
+   * @param letters - Rejected records
+   */
+  write(letters: DeadLetter[]): Promise<void>;
+
+  /**
+   * Read the stored records in the order they were written
+   *
+   * @returns Rejected records
+   */
+  read?(): AsyncIterable<DeadLetter>;
+
+  /**
+   * Remove the stored records
+   */
+  clear?(): Promise<void>;
+}
+
+/**
+ * Function receiving each rejected record
+ */
+export type DeadLetterCallback = (letter: DeadLetter) => void | Promise<void>;
+
+/**
+ * Options for a table dead-letter sink
+ */
+export interface TableDeadLetterSinkOptions {
+  /**
+   * Database schema of the table
+   * @default 'public'
+   */
+  schema?: string;
+
+  /**
+   * Name of the table
+   * @default 'age_schema_dead_letters'
+   */
+  table?: string;
+}
+
+/**
+ * Turn a dead-letter option into a sink
+ *
+ * @param sink - Sink or callback
+ * @returns Sink
+ */
+export function toDeadLetterSink(sink: DeadLetterSink | DeadLetterCallback): DeadLetterSink {
+  if (typeof sink !== 'function') {
+    return sink;
+  }
+
+  return {
+    write: async letters => {
+      for (const letter of letters) {
+        await sink(letter);
+      }
+    }
+  };
+}
+
+/**
+ * Create a sink appending rejected records to a newline-delimited JSON file
+ *
+ * @param filePath - Path to the file; it is created on the first write
+ * @returns Dead-letter sink
+ */
+export function createFileDeadLetterSink(filePath: string): DeadLetterSink {
+  return {
+    write: async letters => {
+      if (letters.length > 0) {
+        await fs.promises.appendFile(filePath, letters.map(letter => `${JSON.stringify(letter)}\n`).join(''));
+      }
+    },
+
+    read: async function* () {
+      if (!fs.existsSync(filePath)) {
+        return;
+      }
+
+      const stream = fs.createReadStream(filePath);
+      try {
+        for await (const line of readLines(stream)) {
+          if (line.trim() !== '') {
+            yield JSON.parse(line) as DeadLetter;
+          }
+        }
+      } finally {
+        stream.destroy();
+      }
+    },
+
+    clear: async () => {
+      await fs.promises.writeFile(filePath, '');
+    }
+  };
+}
+
+/**
+ * Create a sink inserting rejected records into a table
+ *
+ * The table is created on the first write or read.
+ *
+ * @param queryExecutor - Query executor
+ * @param options - Table options
+ * @returns Dead-letter sink
+ */
+export function createTableDeadLetterSink(
+  queryExecutor: QueryExecutor,
+  options: TableDeadLetterSinkOptions = {}
+): DeadLetterSink {
+  const table = `${quoteIdentifier(options.schema || 'public')}.${quoteIdentifier(options.table || 'age_schema_dead_letters')}`;
+
+  const ensureTable = () => queryExecutor.executeSQL(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      id bigserial PRIMARY KEY,
+      kind text NOT NULL,
+      label text NOT NULL,
+      batch integer NOT NULL,
+      data jsonb NOT NULL,
+      validation_errors jsonb,
+      database_error text,
+      rejected_at timestamptz NOT NULL
+    )
+  `);
+
+  return {
+    write: async letters => {
+      if (letters.length === 0) {
+        return;
+      }
+
+      await ensureTable();
+      await queryExecutor.executeSQL(`
+        INSERT INTO ${table} (kind, label, batch, data, validation_errors, database_error, rejected_at)
+        SELECT kind, label, batch, data, validation_errors, database_error, rejected_at
+        FROM jsonb_to_recordset($1::jsonb) AS letter(
+          kind text,
+          label text,
+          batch integer,
+          data jsonb,
+          validation_errors jsonb,
+          database_error text,
+          rejected_at timestamptz
+        )
+      `, [JSON.stringify(letters.map(letter => ({
+        kind: letter.kind,
+        label: letter.label,
+        batch: letter.batch,
+        data: letter.data,
+        validation_errors: letter.validationErrors ?? null,
+        database_error: letter.databaseError ?? null,
+        rejected_at: letter.rejectedAt
+      })))]);
+    },
+
+    read: async function* () {
+      await ensureTable();
+      const result = await queryExecutor.executeSQL(`
+        SELECT kind, label, batch, data, validation_errors, database_error, rejected_at
+        FROM ${table}
+        ORDER BY id
+      `);
+
+      for (const row of result.rows) {
+        yield {
+          kind: row.kind,
+          label: row.label,
+          batch: Number(row.batch),
+          data: row.data,
+          ...(row.validation_errors ? { validationErrors: row.validation_errors } : {}),
+          ...(row.database_error ? { databaseError: row.database_error } : {}),
+          rejectedAt: new Date(row.rejected_at).toISOString()
+        };
+      }
+    },
+
+    clear: async () => {
+      await ensureTable();
+      await queryExecutor.executeSQL(`DELETE FROM ${table}`);
+    }
+  };
+}
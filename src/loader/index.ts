@@ -10,5 +10,11 @@ export * from './schema-loader';
 // Export CypherQueryGenerator class
 export * from './cypher-query-generator';
 
+// Export NDJSON, CSV and graph data stream readers
+export * from './stream-sources';
+
+// Export dead-letter sinks
+export * from './dead-letter';
+
 // Version information
 export const loaderVersion = '0.1.0';
@@ -8,13 +8,28 @@
  * @packageDocumentation
  */
 
-import { SchemaDefinition } from '../schema/types';
+import { PropertyType, SchemaDefinition } from '../schema/types';
 import { QueryExecutor } from '../db/query';
-import { CypherQueryGenerator } from './cypher-query-generator';
+import { CypherQueryGenerator, EdgeEndpointKeys } from './cypher-query-generator';
 import { SchemaValidator } from '../schema/validator';
-
-import { DatabaseError as DbError } from '../db/types';
+import { ValidationErrorInfo } from '../schema/validator-result';
+import { UniqueConstraintError } from '../schema/errors';
+import { findDuplicateKeys, getUniqueConstraints, getUniqueKeyValues } from '../schema/utils';
+import { findExistingUniqueKeys } from '../db/utils';
+import {
+  Instrumentation,
+  SpanAttribute,
+  SpanName,
+  noopInstrumentation,
+  withSpan,
+} from '../db/instrumentation';
+
+import { Connection, ConnectionSource, DatabaseError as DbError } from '../db/types';
+import { quoteIdentifier } from '../sql/utils';
 import { createArrayFunction } from '../utils/age-type-utils';
+import { CsvSourceOptions, GraphRecord, TextSource, readCSV, readGraphData, readNDJSON } from './stream-sources';
+import { DeadLetter, DeadLetterCallback, DeadLetterSink, toDeadLetterSink } from './dead-letter';
+import { createHash, randomUUID } from 'crypto';
 import fs from 'fs';
 import path from 'path';
 
@@ -194,9 +209,16 @@ export interface SchemaLoaderOptions {
    */
   parallelInserts?: boolean;
   /**
-   * Maximum number of batches to process in parallel
+   * Maximum number of batches to process in parallel, and of connections a
+   * parallel graph load takes from `connections`
    */
   maxParallelBatches?: number;
+  /**
+   * Source of worker connections; with `parallelInserts`, `loadGraphData`
+   * loads the labels of the graph data on several of these connections at
+   * once
+   */
+  connections?: ConnectionSource;
   /**
    * Whether to use streaming for large datasets
    */
@@ -213,6 +235,20 @@ export interface SchemaLoaderOptions {
    * Whether to reuse temporary tables
    */
   reuseTemporaryTables?: boolean;
+  /**
+   * Instrumentation receiving a span per load and per load phase
+   */
+  instrumentation?: Instrumentation;
+  /**
+   * Database schema of the table recording the batches of checkpointed loads
+   * @default 'public'
+   */
+  checkpointsSchema?: string;
+  /**
+   * Name of the table recording the batches of checkpointed loads
+   * @default 'age_schema_load_checkpoints'
+   */
+  checkpointsTable?: string;
 }
 
 /**
@@ -243,6 +279,48 @@ export interface LoadOptions {
    * Schema for temporary tables
    */
   tempSchema?: string;
+  /**
+   * Vertex properties the endpoints of each edge label are resolved by;
+   * an endpoint with one key property holds its value in `from` or `to`,
+   * and an endpoint with several holds an object of their values. Edges of
+   * labels not listed reference their endpoints by id
+   */
+  endpointKeys?: Record<string, EdgeEndpointKeys>;
+}
+
+/**
+ * Options for loading graph data
+ */
+export interface GraphLoadOptions extends LoadOptions {
+  /**
+   * How a parallel load commits: 'all' loads into a staging graph that is
+   * published to the graph in one transaction once every label has loaded,
+   * 'label' commits each label as soon as it has loaded
+   * @default 'all'
+   */
+  commitMode?: 'all' | 'label';
+  /**
+   * Commit each batch in its own transaction and record it in the
+   * checkpoints table, so a failed load can be continued with `resumeLoad`
+   */
+  checkpointed?: boolean;
+  /**
+   * Id of a checkpointed load; a random id is used if not set
+   */
+  loadId?: string;
+  /**
+   * Number of times a failed batch of a checkpointed load is retried before
+   * the load stops
+   * @default 1
+   */
+  batchRetries?: number;
+  /**
+   * Sink or callback receiving the records the load rejects; records that
+   * fail schema validation are written to it and left out of the load, and
+   * a checkpointed load also writes the records a batch fails to load
+   * after its retries, then continues
+   */
+  deadLetters?: DeadLetterSink | DeadLetterCallback;
 }
 
 /**
@@ -293,6 +371,10 @@ export interface ProgressInfo {
    * Estimated time remaining in milliseconds
    */
   estimatedTimeRemaining?: number;
+  /**
+   * Worker reporting the progress of a parallel load, numbered from 0
+   */
+  worker?: number;
 }
 
 /**
@@ -331,6 +413,58 @@ export interface LoadResult {
    * Duration of the operation in milliseconds
    */
   duration: number;
+  /**
+   * Id of a checkpointed load, to continue it with `resumeLoad`
+   */
+  loadId?: string;
+  /**
+   * Batches of a checkpointed load that were skipped, retried or failed
+   */
+  batches?: LoadBatchReport;
+  /**
+   * Number of records written to the dead-letter sink
+   */
+  deadLetterCount?: number;
+}
+
+/**
+ * Batch of a checkpointed load
+ */
+export interface LoadBatch {
+  /**
+   * Whether the batch holds vertices or edges
+   */
+  kind: 'vertex' | 'edge';
+  /**
+   * Vertex or edge label
+   */
+  label: string;
+  /**
+   * Number of the batch within its label, starting at 0
+   */
+  batch: number;
+  /**
+   * Number of items in the batch
+   */
+  itemCount: number;
+}
+
+/**
+ * Batches of a checkpointed load that were not simply loaded
+ */
+export interface LoadBatchReport {
+  /**
+   * Batches committed by an earlier run of the load
+   */
+  skipped: LoadBatch[];
+  /**
+   * Batches attempted again after a failed attempt in this or an earlier run
+   */
+  retried: LoadBatch[];
+  /**
+   * Batches that failed and stopped the load
+   */
+  failed: (LoadBatch & { error: Error })[];
 }
 
 /**
@@ -347,6 +481,33 @@ export interface GraphData {
   edges: Record<string, any[]>;
 }
 
+/**
+ * Options for loading data from a stream or file
+ */
+export interface StreamLoadOptions extends LoadOptions {
+  /**
+   * Format of the source; streams without a format yield graph data chunks,
+   * and files without a format are read by their extension (`.ndjson` and
+   * `.jsonl` as NDJSON, `.csv` as CSV, anything else as one JSON document)
+   */
+  format?: 'ndjson' | 'csv';
+
+  /**
+   * Label and columns of a CSV source
+   */
+  csv?: CsvSourceOptions;
+}
+
+/**
+ * CSV file holding the vertices or edges of one label
+ */
+export interface CsvFileSource extends CsvSourceOptions {
+  /**
+   * Path to the CSV file
+   */
+  path: string;
+}
+
 /**
  * SchemaLoader class
  */
@@ -355,6 +516,7 @@ export class SchemaLoader<T extends SchemaDefinition> {
   private schemaValidator: SchemaValidator;
   private options: SchemaLoaderOptions;
   private logger: Logger;
+  private instrumentation: Instrumentation;
 
   /**
    * Create a new SchemaLoader
@@ -379,6 +541,8 @@ export class SchemaLoader<T extends SchemaDefinition> {
       largeDatasetThreshold: 10000,
       useBulkInsert: false,
       reuseTemporaryTables: false,
+      checkpointsSchema: 'public',
+      checkpointsTable: 'age_schema_load_checkpoints',
       ...options
     };
 
@@ -390,6 +554,8 @@ export class SchemaLoader<T extends SchemaDefinition> {
       error: console.error.bind(console)
     };
 
+    this.instrumentation = options.instrumentation || noopInstrumentation;
+
     this.logger.debug('Initializing SchemaLoader');
     this.cypherQueryGenerator = new CypherQueryGenerator<T>(schema);
     this.schemaValidator = new SchemaValidator(schema, options.validatorConfig);
@@ -406,13 +572,303 @@ export class SchemaLoader<T extends SchemaDefinition> {
   /**
    * Load graph data (vertices and edges)
    *
+   * With the `parallelInserts` and `connections` options, graph data loaded
+   * without a transaction is loaded on several connections at once. With the
+   * `checkpointed` option, each batch is committed on its own and recorded
+   * so the load can be continued with `resumeLoad`. With the `deadLetters`
+   * option, rejected records are written to a dead-letter sink instead of
+   * failing the load.
+   *
    * @param data - Graph data
    * @param options - Load options
    * @returns Load result
    */
   async loadGraphData(
     data: GraphData,
-    options: LoadOptions = {}
+    options: GraphLoadOptions = {}
+  ): Promise<LoadResult> {
+    return this.traceLoad(SpanName.LOAD_GRAPH, options, () => {
+      if (options.checkpointed) {
+        return this.loadCheckpointed(data, options, false);
+      }
+      if (options.deadLetters) {
+        return this.loadRejectingInvalidRecords(data, options);
+      }
+      return this.options.parallelInserts && this.options.connections && !options.transaction
+        ? this.loadGraphInParallel(data, options)
+        : this.loadGraph(data, options);
+    });
+  }
+
+  /**
+   * Load dead letters again, once the records have been fixed
+   *
+   * The letters are loaded as graph data. When the load succeeds, a source
+   * sink is cleared and the records rejected again are written to the
+   * `deadLetters` option, or back to the source sink. When it fails, the
+   * source is left as it was.
+   *
+   * @param source - Dead-letter sink to read, or the dead letters
+   * @param options - Load options
+   * @returns Load result
+   */
+  async replayDeadLetters(
+    source: DeadLetterSink | Iterable<DeadLetter> | AsyncIterable<DeadLetter>,
+    options: GraphLoadOptions = {}
+  ): Promise<LoadResult> {
+    const startTime = Date.now();
+    const sink = 'write' in source ? source : undefined;
+
+    if (sink && !sink.read) {
+      return this.failedLoad(new SchemaLoaderError('Dead-letter sink cannot be read'), startTime);
+    }
+
+    const data: GraphData = { vertices: {}, edges: {} };
+    let letterCount = 0;
+    try {
+      for await (const letter of sink ? sink.read!() : source as Iterable<DeadLetter> | AsyncIterable<DeadLetter>) {
+        const labels = letter.kind === 'vertex' ? data.vertices : data.edges;
+        (labels[letter.label] ||= []).push(letter.data);
+        letterCount++;
+      }
+    } catch (error) {
+      this.logger.error('Failed to read dead letters', error);
+      return this.failedLoad(error, startTime);
+    }
+
+    this.logger.info(`Replaying ${letterCount} dead letters`);
+
+    const target = options.deadLetters ? toDeadLetterSink(options.deadLetters) : sink;
+    const rejected: DeadLetter[] = [];
+    const result = await this.loadGraphData(data, {
+      ...options,
+      deadLetters: target ? letter => { rejected.push(letter); } : undefined
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    try {
+      await sink?.clear?.();
+      await target?.write(rejected);
+    } catch (error) {
+      this.logger.error('Failed to update the dead letters after replaying them', error);
+      result.success = false;
+      result.errors = [...(result.errors || []), error instanceof Error ? error : new Error(String(error))];
+    }
+
+    return result;
+  }
+
+  /**
+   * Load graph data, writing the records that fail schema validation or fail
+   * to load to the dead-letter sink instead of loading them
+   *
+   * The batches are loaded in one transaction, each within a savepoint, so a
+   * batch failing to load is halved until its failing records are found.
+   * The dead letters are written once the transaction commits.
+   *
+   * @param data - Graph data
+   * @param options - Load options with a dead-letter sink
+   * @returns Load result
+   */
+  private async loadRejectingInvalidRecords(
+    data: GraphData,
+    options: GraphLoadOptions
+  ): Promise<LoadResult> {
+    const startTime = Date.now();
+    const batchSize = options.batchSize || this.options.defaultBatchSize!;
+    const letters: DeadLetter[] = [];
+    const result: LoadResult = {
+      success: true,
+      vertexCount: 0,
+      edgeCount: 0,
+      vertexTypes: [],
+      edgeTypes: [],
+      duration: 0,
+      errors: [],
+      warnings: []
+    };
+
+    let transaction = options.transaction;
+    if (!transaction) {
+      try {
+        transaction = await this.queryExecutor.beginTransaction();
+      } catch (error) {
+        this.logger.error('Failed to create transaction', error);
+        return this.failedLoad(new SchemaLoaderTransactionError('Failed to create transaction', error as Error), startTime);
+      }
+    }
+
+    const labels = [
+      ...Object.entries(data.vertices || {}).map(([label, items]) => ({ kind: 'vertex' as const, label, items })),
+      ...Object.entries(data.edges || {}).map(([label, items]) => ({ kind: 'edge' as const, label, items }))
+    ];
+    const loadOptions: LoadOptions = {
+      transaction,
+      graphName: options.graphName,
+      validateData: options.validateData,
+      tempSchema: options.tempSchema,
+      endpointKeys: options.endpointKeys
+    };
+
+    try {
+      for (const { kind, label, items } of labels) {
+        for (let start = 0; start < items.length; start += batchSize) {
+          const valid = this.rejectInvalidRecords(kind, label, items.slice(start, start + batchSize), start, batchSize, options, letters);
+          if (valid.length === 0) {
+            continue;
+          }
+
+          const batch: LoadBatch = { kind, label, batch: start / batchSize, itemCount: valid.length };
+          const loaded = await this.loadIsolatingFailures(batch, valid, loadOptions, letters);
+          result.vertexCount += loaded.vertexCount;
+          result.edgeCount += loaded.edgeCount;
+          result.warnings!.push(...(loaded.warnings || []));
+          const types = kind === 'vertex' ? result.vertexTypes : result.edgeTypes;
+          if (!types.includes(label) && loaded.vertexCount + loaded.edgeCount > 0) {
+            types.push(label);
+          }
+        }
+      }
+
+      if (!options.transaction) {
+        await transaction.commit();
+      }
+    } catch (error) {
+      this.logger.error('Failed to load graph data', error);
+      if (!options.transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          this.logger.error('Failed to rollback transaction', rollbackError);
+        }
+      }
+      return this.failedLoad(error, startTime);
+    }
+
+    try {
+      await toDeadLetterSink(options.deadLetters!).write(letters);
+      result.deadLetterCount = letters.length;
+    } catch (error) {
+      this.logger.error('Failed to write dead letters', error);
+      result.success = false;
+      result.errors!.push(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    if (letters.length > 0) {
+      result.warnings!.push(`${letters.length} records were rejected and written to the dead-letter sink`);
+    }
+
+    result.duration = Date.now() - startTime;
+
+    // Clean up empty arrays
+    if (result.warnings!.length === 0) {
+      delete result.warnings;
+    }
+    if (result.errors!.length === 0) {
+      delete result.errors;
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate records against the schema, collecting the invalid ones as
+   * dead letters
+   *
+   * @param kind - Whether the records are vertices or edges
+   * @param label - Vertex or edge label
+   * @param items - Vertex or edge data
+   * @param firstIndex - Index of the first record within its label
+   * @param batchSize - Batch size
+   * @param options - Load options
+   * @param letters - Dead letters receiving the invalid records
+   * @returns Valid records
+   */
+  private rejectInvalidRecords(
+    kind: 'vertex' | 'edge',
+    label: string,
+    items: any[],
+    firstIndex: number,
+    batchSize: number,
+    options: LoadOptions,
+    letters: DeadLetter[]
+  ): any[] {
+    const definition = kind === 'vertex' ? this.schema.vertices[label] : this.schema.edges[label];
+    if (!definition || (options.validateData ?? this.options.validateBeforeLoad) === false) {
+      return items;
+    }
+
+    return items.filter((item, index) => {
+      const validationErrors: ValidationErrorInfo[] = [];
+
+      if (kind === 'edge') {
+        for (const endpoint of ['from', 'to']) {
+          if (!item?.[endpoint]) {
+            validationErrors.push({
+              message: `Missing required property: ${endpoint}`,
+              path: `edge(${label})`,
+              type: 'MissingRequiredPropertyError'
+            });
+          }
+        }
+      }
+
+      const validation = kind === 'vertex'
+        ? this.schemaValidator.validateVertex(label, this.extractVertexProperties(item ?? {}, label), false)
+        : this.schemaValidator.validateEdge(label, this.extractEdgeProperties(item ?? {}, label), false);
+      validationErrors.push(...validation.errors);
+
+      if (validationErrors.length === 0) {
+        return true;
+      }
+
+      letters.push({
+        kind,
+        label,
+        data: item,
+        batch: Math.floor((firstIndex + index) / batchSize),
+        validationErrors,
+        rejectedAt: new Date().toISOString()
+      });
+      return false;
+    });
+  }
+
+  /**
+   * Continue a checkpointed load
+   *
+   * Batches the load committed before are skipped, so the graph data must
+   * be the data the load was started with; a committed batch whose items
+   * changed stops the load.
+   *
+   * @param loadId - Id of the checkpointed load
+   * @param data - Graph data the load was started with
+   * @param options - Load options
+   * @returns Load result
+   */
+  async resumeLoad(
+    loadId: string,
+    data: GraphData,
+    options: GraphLoadOptions = {}
+  ): Promise<LoadResult> {
+    return this.traceLoad(SpanName.LOAD_GRAPH, options, () =>
+      this.loadCheckpointed(data, { ...options, checkpointed: true, loadId }, true)
+    );
+  }
+
+  /**
+   * Load graph data in a transaction that is rolled back on failure
+   *
+   * @param data - Graph data
+   * @param options - Load options
+   * @returns Load result
+   */
+  private async loadGraph(
+    data: GraphData,
+    options: LoadOptions
   ): Promise<LoadResult> {
     const startTime = Date.now();
     const graphName = options?.graphName || this.options.defaultGraphName!;
@@ -436,7 +892,8 @@ export class SchemaLoader<T extends SchemaDefinition> {
       batchSize: options.batchSize || this.options.defaultBatchSize!,
       onProgress: options.onProgress || (() => {}),
       validateData: options.validateData ?? this.options.validateBeforeLoad ?? true,
-      tempSchema: options.tempSchema || this.options.defaultTempSchema!
+      tempSchema: options.tempSchema || this.options.defaultTempSchema!,
+      endpointKeys: options.endpointKeys || {}
     };
 
     // Initialize result
@@ -661,60 +1118,895 @@ export class SchemaLoader<T extends SchemaDefinition> {
   }
 
   /**
-   * Load vertices
+   * Load graph data on several connections at once
    *
-   * @param vertices - Vertex data
+   * Each label is loaded by one worker on its own connection and in its own
+   * transaction. Vertex labels go first; an edge label starts once the
+   * vertex labels it connects have committed, and is skipped if one of them
+   * failed. With the 'all' commit mode the workers load into a staging
+   * graph, which is published to the graph in one transaction when every
+   * label has loaded, so edges can only connect vertices loaded with them.
+   * With the 'label' commit mode the labels loaded before a failure stay
+   * committed.
+   *
+   * @param data - Graph data
    * @param options - Load options
    * @returns Load result
    */
-  async loadVertices(
-    vertices: Record<string, any[]>,
-    options: LoadOptions = {}
+  private async loadGraphInParallel(
+    data: GraphData,
+    options: GraphLoadOptions
   ): Promise<LoadResult> {
     const startTime = Date.now();
-    const errors: Error[] = [];
-    const warnings: string[] = [];
+    const graphName = options.graphName || this.options.defaultGraphName!;
+    const commitMode = options.commitMode || 'all';
+    const vertexLabels = Object.keys(data.vertices || {}).filter(label => data.vertices[label].length > 0);
+    const edgeLabels = Object.keys(data.edges || {}).filter(label => data.edges[label].length > 0);
+    const workerCount = Math.max(1, Math.min(this.options.maxParallelBatches || 4, vertexLabels.length + edgeLabels.length));
+    const stagingGraph = commitMode === 'all' ? `${graphName.slice(0, 40)}_staging_${Date.now()}` : undefined;
+    let stagingCreated = false;
+    const connections: Connection[] = [];
 
-    // Merge options with defaults
-    const mergedOptions: Required<LoadOptions> = {
-      transaction: options.transaction,
-      graphName: options.graphName || this.options.defaultGraphName!,
-      batchSize: options.batchSize || this.options.defaultBatchSize!,
-      onProgress: options.onProgress || (() => {}),
-      validateData: options.validateData !== false,
-      tempSchema: options.tempSchema || this.options.defaultTempSchema!
+    const result: LoadResult = {
+      success: true,
+      vertexCount: 0,
+      edgeCount: 0,
+      vertexTypes: [],
+      edgeTypes: [],
+      duration: 0,
+      errors: [],
+      warnings: []
     };
 
-    // Start a transaction if one wasn't provided
-    const transaction = mergedOptions.transaction || await this.queryExecutor.beginTransaction();
-    let success = false;
-    const tempTableName = '';
+    this.logger.info(
+      `Starting to load graph data for graph '${graphName}' on ${workerCount} connections, ` +
+      (stagingGraph ? `staged in graph '${stagingGraph}'` : 'committing each label')
+    );
 
     try {
-      // Validate vertex data if required
-      if (mergedOptions.validateData) {
-        this.validateVertexData(vertices);
+      if (stagingGraph) {
+        await this.queryExecutor.executeSQL('SELECT ag_catalog.create_graph($1)', [stagingGraph]);
+        stagingCreated = true;
       }
 
-      // Report progress for validation phase
-      this.trackProgress(options, 'validation', 1, 3, {
-        vertexCount: 0,
-        elapsedTime: Date.now() - startTime
-      });
-
-      // Create a temporary table to store the vertex data
-      const tempTableName = `temp_vertices_${Date.now()}`;
-      await this.queryExecutor.executeSQL(`
-        CREATE TEMPORARY TABLE ${tempTableName} (
-          id SERIAL PRIMARY KEY,
-          vertex_label TEXT NOT NULL,
-          properties JSONB
-        )
-      `, [], { transaction });
+      for (let i = 0; i < workerCount; i++) {
+        connections.push(await this.options.connections!.getConnection());
+      }
+      const loaders = connections.map(connection => new SchemaLoader(
+        this.schema,
+        this.queryExecutor.withConnection(connection),
+        { ...this.options, connections: undefined, parallelInserts: false }
+      ));
+
+      const loaded = new Set<string>();
+      const failed = new Set<string>();
+      const tasks = [
+        ...vertexLabels.map(label => ({ kind: 'vertex' as const, label, dependsOn: [] as string[] })),
+        ...edgeLabels.map(label => ({
+          kind: 'edge' as const,
+          label,
+          dependsOn: this.getEndpointLabels(label).filter(vertexLabel => vertexLabels.includes(vertexLabel))
+        }))
+      ];
+      const idle = loaders.map((_, worker) => worker);
+      const running = new Set<Promise<void>>();
+
+      const runTask = async (task: typeof tasks[number], worker: number): Promise<void> => {
+        const items = { [task.label]: (task.kind === 'vertex' ? data.vertices : data.edges)[task.label] };
+        const taskOptions: LoadOptions = {
+          graphName: stagingGraph || graphName,
+          batchSize: options.batchSize,
+          validateData: options.validateData ?? this.options.validateBeforeLoad,
+          tempSchema: options.tempSchema,
+          endpointKeys: options.endpointKeys,
+          onProgress: options.onProgress
+            ? progress => options.onProgress!({ ...progress, currentType: task.label, worker })
+            : undefined
+        };
 
-      // Insert vertex data into the temporary table
-      let vertexCount = 0;
-      const vertexTypes: string[] = [];
+        this.logger.debug(`Worker ${worker} is loading ${task.kind} label '${task.label}'`);
+        let labelResult: LoadResult;
+        try {
+          labelResult = task.kind === 'vertex'
+            ? await loaders[worker].loadVertices(items, taskOptions)
+            : await loaders[worker].loadEdges(items, taskOptions);
+        } catch (error) {
+          labelResult = this.failedLoad(error, Date.now());
+        }
+
+        result.warnings!.push(...(labelResult.warnings || []));
+        if (!labelResult.success) {
+          this.logger.error(`Failed to load ${task.kind} label '${task.label}'`, labelResult.errors);
+          failed.add(task.label);
+          result.success = false;
+          result.errors!.push(...(labelResult.errors || [new SchemaLoaderError(`Failed to load label '${task.label}'`)]));
+          // Nothing more is started once an all-or-nothing load has failed
+          if (stagingGraph) {
+            tasks.length = 0;
+          }
+          return;
+        }
+
+        loaded.add(task.label);
+        result.vertexCount += labelResult.vertexCount;
+        result.edgeCount += labelResult.edgeCount;
+        (task.kind === 'vertex' ? result.vertexTypes : result.edgeTypes).push(task.label);
+      };
+
+      while (tasks.length > 0 || running.size > 0) {
+        const next = tasks.findIndex(task => task.dependsOn.every(label => loaded.has(label) || failed.has(label)));
+        if (next < 0 || idle.length === 0) {
+          await Promise.race(running);
+          continue;
+        }
+
+        const [task] = tasks.splice(next, 1);
+        const failedLabel = task.dependsOn.find(label => failed.has(label));
+        if (failedLabel) {
+          result.errors!.push(new SchemaLoaderError(
+            `Edge label '${task.label}' was not loaded because vertex label '${failedLabel}' failed to load`
+          ));
+          continue;
+        }
+
+        const worker = idle.shift()!;
+        const run: Promise<void> = runTask(task, worker).finally(() => {
+          running.delete(run);
+          idle.push(worker);
+        });
+        running.add(run);
+      }
+
+      if (stagingGraph && result.success) {
+        await this.publishStagingGraph(stagingGraph, data, { ...options, graphName });
+      }
+    } catch (error) {
+      this.logger.error('Unexpected error during parallel graph data loading', error);
+      result.success = false;
+      if (error instanceof SchemaLoaderError || error instanceof UniqueConstraintError) {
+        result.errors!.push(error);
+      } else if (error instanceof DbError) {
+        result.errors!.push(new SchemaLoaderDatabaseError(`Database error: ${error.message}`, error));
+      } else {
+        result.errors!.push(new SchemaLoaderError(`Unexpected error: ${(error as Error).message}`, error));
+      }
+    } finally {
+      for (const connection of connections) {
+        try {
+          await this.options.connections!.releaseConnection(connection);
+        } catch (error) {
+          this.logger.error('Failed to release worker connection', error);
+          result.warnings!.push(`Connection release error: ${(error as Error).message}`);
+        }
+      }
+
+      if (stagingCreated) {
+        try {
+          await this.queryExecutor.executeSQL('SELECT ag_catalog.drop_graph($1, true)', [stagingGraph]);
+        } catch (error) {
+          this.logger.error(`Failed to drop staging graph '${stagingGraph}'`, error);
+          result.warnings!.push(`Staging graph '${stagingGraph}' was not dropped: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    // An all-or-nothing load that failed left the graph unchanged
+    if (stagingGraph && !result.success) {
+      result.vertexCount = 0;
+      result.edgeCount = 0;
+      result.vertexTypes = [];
+      result.edgeTypes = [];
+    }
+
+    result.duration = Date.now() - startTime;
+    this.logger.info(`Parallel graph data loading ${result.success ? 'completed' : 'failed'} after ${result.duration}ms`);
+
+    // Clean up empty arrays
+    if (result.warnings!.length === 0) {
+      delete result.warnings;
+    }
+    if (result.errors!.length === 0) {
+      delete result.errors;
+    }
+
+    return result;
+  }
+
+  /**
+   * Copy the vertices and edges of a staging graph into a graph in one
+   * transaction
+   *
+   * The copies take new graph ids from the label sequences of the graph,
+   * and edges are pointed at the copies of their vertices. Unique keys are
+   * checked against the graph first, unless validation is turned off.
+   *
+   * @param stagingGraph - Staging graph
+   * @param data - Graph data loaded into the staging graph
+   * @param options - Load options naming the graph to publish to
+   * @throws UniqueConstraintError if a unique key is already taken in the
+   * graph
+   * @throws SchemaLoaderError if a label exists in the graph with the other
+   * kind
+   */
+  private async publishStagingGraph(
+    stagingGraph: string,
+    data: GraphData,
+    options: LoadOptions & { graphName: string }
+  ): Promise<void> {
+    const graphName = options.graphName;
+    const vertexLabels = Object.keys(data.vertices || {}).filter(label => data.vertices[label].length > 0);
+    const edgeLabels = Object.keys(data.edges || {}).filter(label => data.edges[label].length > 0);
+    const staging = quoteIdentifier(stagingGraph);
+    const graph = quoteIdentifier(graphName);
+
+    this.logger.info(`Publishing staging graph '${stagingGraph}' to graph '${graphName}'`);
+    const transaction = await this.queryExecutor.beginTransaction();
+    const queryOptions = { transaction };
+
+    try {
+      if (options.validateData ?? this.options.validateBeforeLoad ?? true) {
+        const validateOptions: Required<LoadOptions> = {
+          transaction,
+          graphName,
+          batchSize: options.batchSize || this.options.defaultBatchSize!,
+          onProgress: () => {},
+          validateData: true,
+          tempSchema: options.tempSchema || this.options.defaultTempSchema!,
+          endpointKeys: options.endpointKeys || {}
+        };
+        await this.validateUniqueKeys('vertex', data.vertices || {}, validateOptions, transaction);
+        await this.validateUniqueKeys('edge', data.edges || {}, validateOptions, transaction);
+      }
+
+      // Create the labels the graph does not have yet
+      let labels = await this.getGraphLabels(graphName, transaction);
+      for (const [kind, list] of [['v', vertexLabels], ['e', edgeLabels]] as const) {
+        for (const label of list) {
+          const existing = labels.get(label);
+          if (existing && existing.kind !== kind) {
+            throw new SchemaLoaderError(
+              `Label '${label}' of graph '${graphName}' is ${existing.kind === 'v' ? 'a vertex' : 'an edge'} label`
+            );
+          }
+          if (!existing) {
+            await this.queryExecutor.executeSQL(
+              `SELECT ag_catalog.${kind === 'v' ? 'create_vlabel' : 'create_elabel'}($1, $2)`,
+              [graphName, label],
+              queryOptions
+            );
+          }
+        }
+      }
+      labels = await this.getGraphLabels(graphName, transaction);
+
+      await this.queryExecutor.executeSQL(
+        'CREATE TEMP TABLE age_staged_ids (old_id ag_catalog.graphid, new_id ag_catalog.graphid) ON COMMIT DROP',
+        [],
+        queryOptions
+      );
+
+      for (const label of vertexLabels) {
+        const { id, seqName } = labels.get(label)!;
+        const table = quoteIdentifier(label);
+        await this.queryExecutor.executeSQL(`
+          INSERT INTO age_staged_ids
+          SELECT id, ag_catalog._graphid($1, nextval($2::regclass)) FROM ONLY ${staging}.${table}
+        `, [id, `${graph}.${quoteIdentifier(seqName)}`], queryOptions);
+        await this.queryExecutor.executeSQL(`
+          INSERT INTO ${graph}.${table} (id, properties)
+          SELECT m.new_id, v.properties FROM ONLY ${staging}.${table} v JOIN age_staged_ids m ON m.old_id = v.id
+        `, [], queryOptions);
+      }
+
+      for (const label of edgeLabels) {
+        const { id, seqName } = labels.get(label)!;
+        const table = quoteIdentifier(label);
+        await this.queryExecutor.executeSQL(`
+          INSERT INTO ${graph}.${table} (id, start_id, end_id, properties)
+          SELECT ag_catalog._graphid($1, nextval($2::regclass)), s.new_id, t.new_id, e.properties
+          FROM ONLY ${staging}.${table} e
+          JOIN age_staged_ids s ON s.old_id = e.start_id
+          JOIN age_staged_ids t ON t.old_id = e.end_id
+        `, [id, `${graph}.${quoteIdentifier(seqName)}`], queryOptions);
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      try {
+        await transaction.rollback();
+      } catch (rollbackError) {
+        this.logger.error('Failed to rollback transaction', rollbackError);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the labels of a graph
+   *
+   * @param graphName - Graph name
+   * @param transaction - Transaction to read in
+   * @returns Label id, kind and sequence by label name
+   */
+  private async getGraphLabels(
+    graphName: string,
+    transaction: any
+  ): Promise<Map<string, { id: number; kind: 'v' | 'e'; seqName: string }>> {
+    const result = await this.queryExecutor.executeSQL(`
+      SELECT l.name::text AS name, l.id, l.kind, l.seq_name::text AS seq_name
+      FROM ag_catalog.ag_label l
+      JOIN ag_catalog.ag_graph g ON g.graphid = l.graph
+      WHERE g.name = $1
+    `, [graphName], { transaction });
+
+    return new Map(result.rows.map(row => [
+      row.name,
+      { id: Number(row.id), kind: row.kind, seqName: row.seq_name }
+    ]));
+  }
+
+  /**
+   * Get the vertex labels an edge label connects
+   *
+   * @param edgeLabel - Edge label
+   * @returns Labels of the source and target vertices
+   */
+  private getEndpointLabels(edgeLabel: string): string[] {
+    const definition = this.schema.edges[edgeLabel];
+    if (!definition) {
+      return [];
+    }
+
+    return [definition.fromVertex, definition.toVertex].map(endpoint =>
+      typeof endpoint === 'string' ? endpoint : endpoint.label
+    );
+  }
+
+  /**
+   * Load graph data one committed batch at a time
+   *
+   * Every batch is loaded in its own transaction, which also records the
+   * batch and a checksum of its items in the checkpoints table. Batches the
+   * load committed in an earlier run are skipped, failed batches are retried
+   * up to `batchRetries` times, and items whose identity key is already
+   * taken in the graph are left out, so loading a batch twice does not
+   * duplicate vertices or edges of labels with keys.
+   *
+   * @param data - Graph data
+   * @param options - Load options
+   * @param resume - Whether the load must have been started before
+   * @returns Load result
+   */
+  private async loadCheckpointed(
+    data: GraphData,
+    options: GraphLoadOptions,
+    resume: boolean
+  ): Promise<LoadResult> {
+    const startTime = Date.now();
+    const loadId = options.loadId || randomUUID();
+    const batchSize = options.batchSize || this.options.defaultBatchSize!;
+    const retries = Math.max(0, options.batchRetries ?? 1);
+    const sink = options.deadLetters && toDeadLetterSink(options.deadLetters);
+    let graphName = options.graphName || this.options.defaultGraphName!;
+
+    if (options.transaction) {
+      return {
+        ...this.failedLoad(new SchemaLoaderError('Checkpointed loads commit each batch and cannot run in a transaction'), startTime),
+        loadId
+      };
+    }
+
+    let checkpoints: Map<string, { graphName: string; checksum: string; status: string }>;
+    try {
+      await this.ensureCheckpointsTable();
+      checkpoints = await this.getCheckpoints(loadId);
+    } catch (error) {
+      this.logger.error(`Failed to read the checkpoints of load '${loadId}'`, error);
+      return { ...this.failedLoad(error, startTime), loadId };
+    }
+
+    const loadedGraph = checkpoints.values().next().value?.graphName;
+    if (resume && !loadedGraph) {
+      return { ...this.failedLoad(new SchemaLoaderError(`Load '${loadId}' has no checkpoints`), startTime), loadId };
+    }
+    if (loadedGraph && options.graphName && options.graphName !== loadedGraph) {
+      return {
+        ...this.failedLoad(new SchemaLoaderError(`Load '${loadId}' loads into graph '${loadedGraph}', not '${options.graphName}'`), startTime),
+        loadId
+      };
+    }
+    graphName = loadedGraph || graphName;
+
+    const result: LoadResult = {
+      success: true,
+      vertexCount: 0,
+      edgeCount: 0,
+      vertexTypes: [],
+      edgeTypes: [],
+      duration: 0,
+      errors: [],
+      warnings: [],
+      loadId,
+      batches: { skipped: [], retried: [], failed: [] },
+      ...(sink ? { deadLetterCount: 0 } : {})
+    };
+
+    const labels = [
+      ...Object.entries(data.vertices || {}).map(([label, items]) => ({ kind: 'vertex' as const, label, items })),
+      ...Object.entries(data.edges || {}).map(([label, items]) => ({ kind: 'edge' as const, label, items }))
+    ];
+    const totalItems = labels.reduce((sum, { items }) => sum + items.length, 0);
+    const totalBatches = labels.reduce((sum, { items }) => sum + Math.ceil(items.length / batchSize), 0);
+    let doneItems = 0;
+    let currentBatch = 0;
+
+    this.logger.info(`${loadedGraph ? 'Resuming' : 'Starting'} checkpointed load '${loadId}' into graph '${graphName}'`);
+
+    loading:
+    for (const { kind, label, items } of labels) {
+      for (let start = 0; start < items.length; start += batchSize) {
+        const batchItems = items.slice(start, start + batchSize);
+        const batch: LoadBatch = { kind, label, batch: start / batchSize, itemCount: batchItems.length };
+        const checksum = createHash('sha256').update(JSON.stringify(batchItems)).digest('hex');
+        const checkpoint = checkpoints.get(`${kind}:${label}:${batch.batch}`);
+
+        if (checkpoint?.status === 'committed') {
+          if (checkpoint.checksum !== checksum) {
+            const error = new SchemaLoaderError(
+              `Batch ${batch.batch} of ${kind} label '${label}' differs from the batch load '${loadId}' committed`
+            );
+            result.batches!.failed.push({ ...batch, error });
+            result.errors!.push(error);
+            result.success = false;
+            break loading;
+          }
+          result.batches!.skipped.push(batch);
+        } else {
+          let attempts = 0;
+          let errors: Error[] = [];
+          const letters: DeadLetter[] = [];
+          const loadable = sink
+            ? this.rejectInvalidRecords(kind, label, batchItems, start, batchSize, options, letters)
+            : batchItems;
+
+          while (attempts <= retries) {
+            attempts++;
+            if (attempts > 1 || checkpoint?.status === 'failed') {
+              this.logger.warn(`Retrying batch ${batch.batch} of ${kind} label '${label}'`);
+            }
+
+            // The last attempt sets the records that fail to load aside as
+            // dead letters rather than failing the batch
+            errors = await this.loadCheckpointedBatch(
+              loadId, graphName, batch, loadable, checksum, attempts, options, result,
+              sink && attempts > retries ? letters : undefined
+            );
+            if (errors.length === 0) {
+              break;
+            }
+          }
+
+          if (attempts > 1 || checkpoint?.status === 'failed') {
+            result.batches!.retried.push(batch);
+          }
+
+          if (errors.length > 0) {
+            this.logger.error(`Failed to load batch ${batch.batch} of ${kind} label '${label}'`, errors);
+            result.batches!.failed.push({ ...batch, error: errors[0] });
+            result.errors!.push(...errors);
+            result.success = false;
+
+            try {
+              await this.recordCheckpoint(loadId, graphName, batch, checksum, 'failed', attempts, errors[0].message);
+            } catch (error) {
+              this.logger.error('Failed to record failed batch', error);
+              result.warnings!.push(`Failed batch was not recorded: ${(error as Error).message}`);
+            }
+            break loading;
+          }
+
+          // Dead letters are only written once the batch is committed, so a
+          // batch loaded again after a failure does not write them twice
+          if (sink && letters.length > 0) {
+            try {
+              await sink.write(letters);
+              result.deadLetterCount! += letters.length;
+            } catch (error) {
+              this.logger.error(`Failed to write the dead letters of committed batch ${batch.batch} of ${kind} label '${label}'`, error);
+              result.errors!.push(error instanceof Error ? error : new Error(String(error)));
+              result.success = false;
+              break loading;
+            }
+          }
+        }
+
+        doneItems += batchItems.length;
+        currentBatch++;
+        this.trackProgress(options, 'storing', doneItems, totalItems, {
+          vertexCount: result.vertexCount,
+          edgeCount: result.edgeCount,
+          currentType: label,
+          currentBatch,
+          totalBatches,
+          elapsedTime: Date.now() - startTime
+        });
+      }
+    }
+
+    result.duration = Date.now() - startTime;
+    this.logger.info(`Checkpointed load '${loadId}' ${result.success ? 'completed' : 'stopped'} after ${result.duration}ms`);
+
+    // Clean up empty arrays
+    if (result.warnings!.length === 0) {
+      delete result.warnings;
+    }
+    if (result.errors!.length === 0) {
+      delete result.errors;
+    }
+
+    return result;
+  }
+
+  /**
+   * Load one batch of a checkpointed load and record it in one transaction
+   *
+   * @param loadId - Id of the load
+   * @param graphName - Graph name
+   * @param batch - Batch
+   * @param items - Items of the batch
+   * @param checksum - Checksum of the items
+   * @param attempts - Number of attempts at the batch in this run
+   * @param options - Load options
+   * @param result - Load result receiving the counts of the batch
+   * @param letters - Dead letters receiving the items that fail to load once
+   * the batch is committed; the batch fails on the first failing item if not
+   * set
+   * @returns Errors of a failed attempt, empty if the batch was committed
+   */
+  private async loadCheckpointedBatch(
+    loadId: string,
+    graphName: string,
+    batch: LoadBatch,
+    items: any[],
+    checksum: string,
+    attempts: number,
+    options: LoadOptions,
+    result: LoadResult,
+    letters?: DeadLetter[]
+  ): Promise<Error[]> {
+    let transaction: any;
+    try {
+      transaction = await this.queryExecutor.beginTransaction();
+
+      const pending = await this.withoutExistingKeys(batch.kind, batch.label, items, graphName, transaction);
+      if (pending.length < items.length) {
+        this.logger.debug(`Leaving out ${items.length - pending.length} items of '${batch.label}' that are already loaded`);
+      }
+
+      let loaded: LoadResult | null = null;
+      const rejected: DeadLetter[] = [];
+      if (pending.length > 0) {
+        const batchOptions: LoadOptions = {
+          transaction,
+          graphName,
+          batchSize: items.length,
+          validateData: options.validateData ?? this.options.validateBeforeLoad,
+          tempSchema: options.tempSchema,
+          endpointKeys: options.endpointKeys
+        };
+        loaded = letters
+          ? await this.loadIsolatingFailures(batch, pending, batchOptions, rejected)
+          : batch.kind === 'vertex'
+            ? await this.loadVertices({ [batch.label]: pending }, batchOptions)
+            : await this.loadEdges({ [batch.label]: pending }, batchOptions);
+
+        if (!loaded.success) {
+          await transaction.rollback();
+          return loaded.errors?.length ? loaded.errors : [new SchemaLoaderError(`Failed to load batch ${batch.batch} of '${batch.label}'`)];
+        }
+      }
+
+      await this.recordCheckpoint(loadId, graphName, batch, checksum, 'committed', attempts, null, transaction);
+      await transaction.commit();
+      if (rejected.length > 0) {
+        this.logger.warn(`Setting ${rejected.length} items of batch ${batch.batch} of '${batch.label}' that failed to load aside as dead letters`);
+        letters!.push(...rejected);
+      }
+
+      if (loaded) {
+        result.vertexCount += loaded.vertexCount;
+        result.edgeCount += loaded.edgeCount;
+        result.warnings!.push(...(loaded.warnings || []));
+        const types = batch.kind === 'vertex' ? result.vertexTypes : result.edgeTypes;
+        if (!types.includes(batch.label) && loaded.vertexCount + loaded.edgeCount > 0) {
+          types.push(batch.label);
+        }
+      }
+      return [];
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          this.logger.error('Failed to rollback transaction', rollbackError);
+        }
+      }
+      return [error instanceof SchemaLoaderError || error instanceof UniqueConstraintError
+        ? error
+        : new SchemaLoaderError(`Unexpected error: ${(error as Error).message}`, error)];
+    }
+  }
+
+  /**
+   * Load the items of a batch in a transaction, halving the items that fail
+   * until the failing items are found
+   *
+   * Each part is loaded within a savepoint, so a failed part is undone
+   * without undoing the parts loaded before it.
+   *
+   * @param batch - Batch
+   * @param items - Items to load
+   * @param options - Load options with the transaction
+   * @param rejected - Dead letters receiving the items that fail to load
+   * @returns Load result of the items that loaded
+   */
+  private async loadIsolatingFailures(
+    batch: LoadBatch,
+    items: any[],
+    options: LoadOptions,
+    rejected: DeadLetter[]
+  ): Promise<LoadResult> {
+    const sqlOptions = { transaction: options.transaction };
+
+    await this.queryExecutor.executeSQL('SAVEPOINT age_schema_load_items', [], sqlOptions);
+    const loaded = batch.kind === 'vertex'
+      ? await this.loadVertices({ [batch.label]: items }, { ...options, batchSize: items.length })
+      : await this.loadEdges({ [batch.label]: items }, { ...options, batchSize: items.length });
+
+    if (loaded.success) {
+      await this.queryExecutor.executeSQL('RELEASE SAVEPOINT age_schema_load_items', [], sqlOptions);
+      return loaded;
+    }
+
+    await this.queryExecutor.executeSQL('ROLLBACK TO SAVEPOINT age_schema_load_items', [], sqlOptions);
+    await this.queryExecutor.executeSQL('RELEASE SAVEPOINT age_schema_load_items', [], sqlOptions);
+
+    if (items.length === 1) {
+      rejected.push({
+        kind: batch.kind,
+        label: batch.label,
+        data: items[0],
+        batch: batch.batch,
+        databaseError: loaded.errors?.[0]?.message ?? 'Unknown error',
+        rejectedAt: new Date().toISOString()
+      });
+      return { success: true, vertexCount: 0, edgeCount: 0, vertexTypes: [], edgeTypes: [], duration: loaded.duration };
+    }
+
+    const middle = Math.ceil(items.length / 2);
+    const first = await this.loadIsolatingFailures(batch, items.slice(0, middle), options, rejected);
+    const second = await this.loadIsolatingFailures(batch, items.slice(middle), options, rejected);
+
+    return {
+      success: true,
+      vertexCount: first.vertexCount + second.vertexCount,
+      edgeCount: first.edgeCount + second.edgeCount,
+      vertexTypes: [...new Set([...first.vertexTypes, ...second.vertexTypes])],
+      edgeTypes: [...new Set([...first.edgeTypes, ...second.edgeTypes])],
+      warnings: [...(first.warnings || []), ...(second.warnings || [])],
+      duration: first.duration + second.duration
+    };
+  }
+
+  /**
+   * Leave out the items whose identity key is already taken in the graph
+   *
+   * @param kind - Whether the items are vertices or edges
+   * @param label - Vertex or edge label
+   * @param items - Vertex or edge data
+   * @param graphName - Graph name
+   * @param transaction - Transaction to look up the keys in
+   * @returns Items not in the graph yet; all items if the label has no keys
+   */
+  private async withoutExistingKeys(
+    kind: 'vertex' | 'edge',
+    label: string,
+    items: any[],
+    graphName: string,
+    transaction: any
+  ): Promise<any[]> {
+    const keys = (kind === 'vertex' ? this.schema.vertices[label] : this.schema.edges[label])?.keys;
+    if (!keys || keys.length === 0) {
+      return items;
+    }
+
+    const values = items.map(item => getUniqueKeyValues(
+      kind === 'vertex' ? this.extractVertexProperties(item, label) : this.extractEdgeProperties(item, label),
+      keys
+    ));
+    const existing = await findExistingUniqueKeys(
+      this.queryExecutor,
+      graphName,
+      kind,
+      label,
+      keys,
+      values.filter((key): key is unknown[] => key !== null),
+      { transaction }
+    );
+    const taken = new Set(existing.map(key => JSON.stringify(key)));
+
+    return items.filter((_, index) => !values[index] || !taken.has(JSON.stringify(values[index])));
+  }
+
+  /**
+   * Get the quoted name of the checkpoints table
+   *
+   * @returns Schema-qualified table name
+   */
+  private getCheckpointsTableName(): string {
+    return `${quoteIdentifier(this.options.checkpointsSchema!)}.${quoteIdentifier(this.options.checkpointsTable!)}`;
+  }
+
+  /**
+   * Create the checkpoints table if it does not exist
+   */
+  private async ensureCheckpointsTable(): Promise<void> {
+    await this.queryExecutor.executeSQL(`
+      CREATE TABLE IF NOT EXISTS ${this.getCheckpointsTableName()} (
+        load_id text NOT NULL,
+        graph_name text NOT NULL,
+        kind text NOT NULL,
+        label text NOT NULL,
+        batch integer NOT NULL,
+        item_count integer NOT NULL,
+        checksum text NOT NULL,
+        status text NOT NULL,
+        attempts integer NOT NULL,
+        error text,
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        PRIMARY KEY (load_id, kind, label, batch)
+      )
+    `);
+  }
+
+  /**
+   * Get the recorded batches of a checkpointed load
+   *
+   * @param loadId - Id of the load
+   * @returns Graph, checksum and status of each batch by kind, label and
+   * batch number
+   */
+  private async getCheckpoints(
+    loadId: string
+  ): Promise<Map<string, { graphName: string; checksum: string; status: string }>> {
+    const result = await this.queryExecutor.executeSQL(`
+      SELECT graph_name, kind, label, batch, checksum, status
+      FROM ${this.getCheckpointsTableName()}
+      WHERE load_id = $1
+    `, [loadId]);
+
+    return new Map(result.rows.map(row => [
+      `${row.kind}:${row.label}:${row.batch}`,
+      { graphName: row.graph_name, checksum: row.checksum, status: row.status }
+    ]));
+  }
+
+  /**
+   * Record the outcome of a batch of a checkpointed load
+   *
+   * @param loadId - Id of the load
+   * @param graphName - Graph name
+   * @param batch - Batch
+   * @param checksum - Checksum of the items of the batch
+   * @param status - 'committed' or 'failed'
+   * @param attempts - Number of attempts in this run
+   * @param error - Error message of a failed batch
+   * @param transaction - Transaction loading the batch
+   */
+  private async recordCheckpoint(
+    loadId: string,
+    graphName: string,
+    batch: LoadBatch,
+    checksum: string,
+    status: 'committed' | 'failed',
+    attempts: number,
+    error: string | null,
+    transaction?: any
+  ): Promise<void> {
+    const table = this.getCheckpointsTableName();
+    await this.queryExecutor.executeSQL(`
+      INSERT INTO ${table}
+        (load_id, graph_name, kind, label, batch, item_count, checksum, status, attempts, error)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (load_id, kind, label, batch) DO UPDATE SET
+        item_count = EXCLUDED.item_count,
+        checksum = EXCLUDED.checksum,
+        status = EXCLUDED.status,
+        attempts = ${table}.attempts + EXCLUDED.attempts,
+        error = EXCLUDED.error,
+        updated_at = now()
+    `, [loadId, graphName, batch.kind, batch.label, batch.batch, batch.itemCount, checksum, status, attempts, error],
+    transaction ? { transaction } : {});
+  }
+
+  /**
+   * Load vertices
+   *
+   * @param vertices - Vertex data
+   * @param options - Load options
+   * @returns Load result
+   */
+  async loadVertices(
+    vertices: Record<string, any[]>,
+    options: LoadOptions = {}
+  ): Promise<LoadResult> {
+    return this.traceLoad(SpanName.LOAD_VERTICES, options, () => this.loadVertexData(vertices, options));
+  }
+
+  /**
+   * Load vertices through a temporary table
+   *
+   * @param vertices - Vertex data
+   * @param options - Load options
+   * @returns Load result
+   */
+  private async loadVertexData(
+    vertices: Record<string, any[]>,
+    options: LoadOptions
+  ): Promise<LoadResult> {
+    const startTime = Date.now();
+    const errors: Error[] = [];
+    const warnings: string[] = [];
+
+    // Merge options with defaults
+    const mergedOptions: Required<LoadOptions> = {
+      transaction: options.transaction,
+      graphName: options.graphName || this.options.defaultGraphName!,
+      batchSize: options.batchSize || this.options.defaultBatchSize!,
+      onProgress: options.onProgress || (() => {}),
+      validateData: options.validateData !== false,
+      tempSchema: options.tempSchema || this.options.defaultTempSchema!,
+      endpointKeys: options.endpointKeys || {}
+    };
+
+    // Start a transaction if one wasn't provided
+    const transaction = mergedOptions.transaction || await this.queryExecutor.beginTransaction();
+    let success = false;
+    let tempTableName = '';
+
+    try {
+      // Validate vertex data if required
+      if (mergedOptions.validateData) {
+        await withSpan(
+          this.instrumentation,
+          SpanName.LOAD_VALIDATE,
+          { [SpanAttribute.GRAPH]: mergedOptions.graphName },
+          async () => {
+            this.validateVertexData(vertices);
+            await this.validateUniqueKeys('vertex', vertices, mergedOptions, transaction);
+          }
+        );
+      }
+
+      // Report progress for validation phase
+      this.trackProgress(options, 'validation', 1, 3, {
+        vertexCount: 0,
+        elapsedTime: Date.now() - startTime
+      });
+
+      // Create a temporary table to store the vertex data
+      tempTableName = `temp_vertices_${Date.now()}`;
+      await this.queryExecutor.executeSQL(`
+        CREATE TEMPORARY TABLE ${tempTableName} (
+          id SERIAL PRIMARY KEY,
+          vertex_label TEXT NOT NULL,
+          properties JSONB
+        )
+      `, [], { transaction });
+
+      // Insert vertex data into the temporary table
+      let vertexCount = 0;
+      const vertexTypes: string[] = [];
 
       // Calculate total vertices for progress tracking
       const totalVertices = Object.values(vertices).reduce((sum, list) => {
@@ -755,137 +2047,155 @@ export class SchemaLoader<T extends SchemaDefinition> {
 
         this.logger.debug(`Processing ${vertexList.length} vertices of type ${vertexType}`);
 
-        // Calculate total batches for this vertex type
-        const totalBatches = Math.ceil(vertexList.length / mergedOptions.batchSize);
-
-        if (useStreaming) {
-          // Process vertices in streaming mode
-          const insertedCount = await this.processDataStream(
-            vertexList,
-            mergedOptions.batchSize,
-            async (batch) => {
-              if (useBulkInsert) {
-                return await this.bulkInsertVertexData(tempTableName, vertexType, batch, transaction);
-              } else {
-                return await this.insertVertexDataBatch(tempTableName, vertexType, batch, transaction);
-              }
-            },
-            {
-              onProgress: (processed, total) => {
-                this.trackProgress(options, 'storing', processed, total, {
-                  vertexCount: vertexCount + processed,
-                  currentType: vertexType,
-                  elapsedTime: Date.now() - startTime,
-                  percentage: 33 + Math.round((processed / total) * 33)
-                });
-              }
-            }
-          );
+        await withSpan(
+          this.instrumentation,
+          SpanName.LOAD_STORE,
+          { [SpanAttribute.GRAPH]: mergedOptions.graphName, [SpanAttribute.LABEL]: vertexType },
+          async span => {
+            const storedBefore = vertexCount;
+
+            // Calculate total batches for this vertex type
+            const totalBatches = Math.ceil(vertexList.length / mergedOptions.batchSize);
+
+            if (useStreaming) {
+              // Process vertices in streaming mode
+              const insertedCount = await this.processDataStream(
+                vertexList,
+                mergedOptions.batchSize,
+                async (batch) => {
+                  if (useBulkInsert) {
+                    return await this.bulkInsertVertexData(tempTableName, vertexType, batch, transaction);
+                  } else {
+                    return await this.insertVertexDataBatch(tempTableName, vertexType, batch, transaction);
+                  }
+                },
+                {
+                  onProgress: (processed, total) => {
+                    this.trackProgress(options, 'storing', processed, total, {
+                      vertexCount: vertexCount + processed,
+                      currentType: vertexType,
+                      elapsedTime: Date.now() - startTime,
+                      percentage: 33 + Math.round((processed / total) * 33)
+                    });
+                  }
+                }
+              );
+
+              vertexCount += insertedCount;
+              this.logger.debug(`Inserted ${insertedCount} vertices for ${vertexType} in streaming mode`);
+            } else if (useParallelInserts) {
+              // Process vertices in parallel
+              const insertedCount = await this.processBatchesInParallel(
+                vertexList,
+                mergedOptions.batchSize,
+                async (batch) => {
+                  if (useBulkInsert) {
+                    return await this.bulkInsertVertexData(tempTableName, vertexType, batch, transaction);
+                  } else {
+                    return await this.insertVertexDataBatch(tempTableName, vertexType, batch, transaction);
+                  }
+                },
+                {
+                  maxParallelBatches: this.options.maxParallelBatches,
+                  onProgress: (processed, total) => {
+                    this.trackProgress(options, 'storing', processed, total, {
+                      vertexCount: vertexCount + processed,
+                      currentType: vertexType,
+                      elapsedTime: Date.now() - startTime,
+                      percentage: 33 + Math.round((processed / total) * 33)
+                    });
+                  }
+                }
+              );
 
-          vertexCount += insertedCount;
-          this.logger.debug(`Inserted ${insertedCount} vertices for ${vertexType} in streaming mode`);
-        } else if (useParallelInserts) {
-          // Process vertices in parallel
-          const insertedCount = await this.processBatchesInParallel(
-            vertexList,
-            mergedOptions.batchSize,
-            async (batch) => {
-              if (useBulkInsert) {
-                return await this.bulkInsertVertexData(tempTableName, vertexType, batch, transaction);
-              } else {
-                return await this.insertVertexDataBatch(tempTableName, vertexType, batch, transaction);
-              }
-            },
-            {
-              maxParallelBatches: this.options.maxParallelBatches,
-              onProgress: (processed, total) => {
-                this.trackProgress(options, 'storing', processed, total, {
-                  vertexCount: vertexCount + processed,
+              vertexCount += insertedCount;
+              this.logger.debug(`Inserted ${insertedCount} vertices for ${vertexType} in parallel`);
+            } else {
+              // Process vertices sequentially (original implementation)
+              let processedCount = 0;
+
+              // Insert vertices in batches
+              for (let i = 0; i < vertexList.length; i += mergedOptions.batchSize) {
+                const batch = vertexList.slice(i, i + mergedOptions.batchSize);
+                const currentBatch = Math.floor(i / mergedOptions.batchSize) + 1;
+
+                // Report progress
+                this.trackProgress(options, 'storing', i + batch.length, vertexList.length, {
+                  vertexCount: vertexCount + processedCount + batch.length,
                   currentType: vertexType,
+                  currentBatch,
+                  totalBatches,
                   elapsedTime: Date.now() - startTime,
-                  percentage: 33 + Math.round((processed / total) * 33)
+                  percentage: 33 + Math.round(((i + batch.length) / vertexList.length) * 33)
                 });
-              }
-            }
-          );
 
-          vertexCount += insertedCount;
-          this.logger.debug(`Inserted ${insertedCount} vertices for ${vertexType} in parallel`);
-        } else {
-          // Process vertices sequentially (original implementation)
-          let processedCount = 0;
-
-          // Insert vertices in batches
-          for (let i = 0; i < vertexList.length; i += mergedOptions.batchSize) {
-            const batch = vertexList.slice(i, i + mergedOptions.batchSize);
-            const currentBatch = Math.floor(i / mergedOptions.batchSize) + 1;
-
-            // Report progress
-            this.trackProgress(options, 'storing', i + batch.length, vertexList.length, {
-              vertexCount: vertexCount + processedCount + batch.length,
-              currentType: vertexType,
-              currentBatch,
-              totalBatches,
-              elapsedTime: Date.now() - startTime,
-              percentage: 33 + Math.round(((i + batch.length) / vertexList.length) * 33)
-            });
-
-            // Insert batch
-            if (useBulkInsert) {
-              const insertedCount = await this.bulkInsertVertexData(tempTableName, vertexType, batch, transaction);
-              processedCount += insertedCount;
-            } else {
-              for (const vertex of batch) {
-                await this.queryExecutor.executeSQL(`
-                  INSERT INTO ${tempTableName} (vertex_label, properties)
-                  VALUES ($1, $2)
-                `, [
-                  vertexType,
-                  JSON.stringify(this.extractVertexProperties(vertex, vertexType))
-                ], { transaction });
-
-                processedCount++;
+                // Insert batch
+                if (useBulkInsert) {
+                  const insertedCount = await this.bulkInsertVertexData(tempTableName, vertexType, batch, transaction);
+                  processedCount += insertedCount;
+                } else {
+                  for (const vertex of batch) {
+                    await this.queryExecutor.executeSQL(`
+                      INSERT INTO ${tempTableName} (vertex_label, properties)
+                      VALUES ($1, $2)
+                    `, [
+                      vertexType,
+                      JSON.stringify(this.extractVertexProperties(vertex, vertexType))
+                    ], { transaction });
+
+                    processedCount++;
+                  }
+                }
               }
+
+              vertexCount += processedCount;
+              this.logger.debug(`Inserted ${processedCount} vertices for ${vertexType} sequentially`);
             }
-          }
 
-          vertexCount += processedCount;
-          this.logger.debug(`Inserted ${processedCount} vertices for ${vertexType} sequentially`);
-        }
+            span.setAttributes({ [SpanAttribute.ROW_COUNT]: vertexCount - storedBefore });
+          }
+        );
       }
 
-      // Get vertex data from the temporary table
-      const vertexDataResult = await this.queryExecutor.executeSQL(`
-        SELECT jsonb_agg(jsonb_build_object(
-          'label', vertex_label::text,
-          'properties', properties
-        )) AS vertices
-        FROM ${tempTableName}
-      `, [], { transaction });
-
-      // Extract the vertex data
-      const vertexData = vertexDataResult.rows[0]?.vertices || [];
-
-      // Create a function to convert vertex data to ag_catalog.agtype
-      const functionName = `get_vertices_${Date.now()}`;
-      await createArrayFunction(
-        this.queryExecutor,
-        mergedOptions.tempSchema,
-        functionName,
-        vertexData,
-        { transaction }
-      );
+      await withSpan(
+        this.instrumentation,
+        SpanName.LOAD_CREATE,
+        { [SpanAttribute.GRAPH]: mergedOptions.graphName, [SpanAttribute.ROW_COUNT]: vertexCount },
+        async () => {
+          // Create the vertices of each label with a query for its label
+          for (const vertexType of vertexTypes) {
+            if (!this.schema.vertices[vertexType]) {
+              continue;
+            }
 
-      // Generate and execute Cypher query to create vertices
-      const createVerticesQuery = this.cypherQueryGenerator.generateCreateVerticesQuery(
-        `${mergedOptions.tempSchema}.${functionName}()`,
-        mergedOptions.graphName
-      );
+            // Get the vertex data of the label from the temporary table
+            const vertexDataResult = await this.queryExecutor.executeSQL(`
+              SELECT jsonb_agg(properties ORDER BY id) AS vertices
+              FROM ${tempTableName}
+              WHERE vertex_label = $1
+            `, [vertexType], { transaction });
+
+            // Extract the vertex data
+            const vertexData = vertexDataResult.rows[0]?.vertices || [];
+            if (vertexData.length === 0) {
+              continue;
+            }
 
-      await this.queryExecutor.executeSQL(
-        createVerticesQuery,
-        [],
-        { transaction }
+            // Generate and execute Cypher query to create vertices, reading
+            // the vertex data as ag_catalog.agtype through a function
+            await this.withArrayFunction(
+              mergedOptions.tempSchema,
+              'get_vertices',
+              vertexData,
+              transaction,
+              dataSource => this.queryExecutor.executeSQL(
+                this.cypherQueryGenerator.generateCreateVerticesQuery(vertexType, mergedOptions.graphName, dataSource),
+                [],
+                { transaction }
+              )
+            );
+          }
+        }
       );
 
       // Report progress for creating phase
@@ -932,8 +2242,12 @@ export class SchemaLoader<T extends SchemaDefinition> {
     } finally {
       // Clean up temporary objects
       try {
-        if (success && !options.transaction && tempTableName) {
-          await this.queryExecutor.executeSQL(`DROP TABLE IF EXISTS ${tempTableName}`);
+        if (success && tempTableName) {
+          await this.queryExecutor.executeSQL(
+            `DROP TABLE IF EXISTS ${tempTableName}`,
+            [],
+            options.transaction ? { transaction } : {}
+          );
         }
       } catch (error) {
         console.warn(`Failed to clean up temporary objects: ${(error as Error).message}`);
@@ -951,6 +2265,20 @@ export class SchemaLoader<T extends SchemaDefinition> {
   async loadEdges(
     edges: Record<string, any[]>,
     options: LoadOptions = {}
+  ): Promise<LoadResult> {
+    return this.traceLoad(SpanName.LOAD_EDGES, options, () => this.loadEdgeData(edges, options));
+  }
+
+  /**
+   * Load edges through a temporary table
+   *
+   * @param edges - Edge data
+   * @param options - Load options
+   * @returns Load result
+   */
+  private async loadEdgeData(
+    edges: Record<string, any[]>,
+    options: LoadOptions
   ): Promise<LoadResult> {
     const startTime = Date.now();
     const errors: Error[] = [];
@@ -963,18 +2291,29 @@ export class SchemaLoader<T extends SchemaDefinition> {
       batchSize: options.batchSize || this.options.defaultBatchSize!,
       onProgress: options.onProgress || (() => {}),
       validateData: options.validateData !== false,
-      tempSchema: options.tempSchema || this.options.defaultTempSchema!
+      tempSchema: options.tempSchema || this.options.defaultTempSchema!,
+      endpointKeys: options.endpointKeys || {}
     };
 
     // Start a transaction if one wasn't provided
     const transaction = mergedOptions.transaction || await this.queryExecutor.beginTransaction();
     let success = false;
-    const tempTableName = '';
+    let tempTableName = '';
 
     try {
+      this.validateEndpointKeys(mergedOptions.endpointKeys);
+
       // Validate edge data if required
       if (mergedOptions.validateData) {
-        this.validateEdgeData(edges);
+        await withSpan(
+          this.instrumentation,
+          SpanName.LOAD_VALIDATE,
+          { [SpanAttribute.GRAPH]: mergedOptions.graphName },
+          async () => {
+            this.validateEdgeData(edges);
+            await this.validateUniqueKeys('edge', edges, mergedOptions, transaction);
+          }
+        );
       }
 
       // Report progress for validation phase
@@ -984,13 +2323,15 @@ export class SchemaLoader<T extends SchemaDefinition> {
       });
 
       // Create a temporary table to store the edge data
-      const tempTableName = `temp_edges_${Date.now()}`;
+      tempTableName = `temp_edges_${Date.now()}`;
       await this.queryExecutor.executeSQL(`
         CREATE TEMPORARY TABLE ${tempTableName} (
           id SERIAL PRIMARY KEY,
           edge_type TEXT NOT NULL,
           from_id TEXT NOT NULL,
           to_id TEXT NOT NULL,
+          from_key JSONB,
+          to_key JSONB,
           properties JSONB
         )
       `, [], { transaction });
@@ -1037,117 +2378,113 @@ export class SchemaLoader<T extends SchemaDefinition> {
         }
 
         this.logger.debug(`Processing ${edgeList.length} edges of type ${edgeType}`);
+        const endpointKeys = mergedOptions.endpointKeys[edgeType];
+
+        await withSpan(
+          this.instrumentation,
+          SpanName.LOAD_STORE,
+          { [SpanAttribute.GRAPH]: mergedOptions.graphName, [SpanAttribute.LABEL]: edgeType },
+          async span => {
+            const storedBefore = edgeCount;
+
+            // Calculate total batches for this edge type
+            const totalBatches = Math.ceil(edgeList.length / mergedOptions.batchSize);
+
+            if (useStreaming) {
+              // Process edges in streaming mode
+              const insertedCount = await this.processDataStream(
+                edgeList,
+                mergedOptions.batchSize,
+                async (batch) => {
+                  if (useBulkInsert) {
+                    return await this.bulkInsertEdgeData(tempTableName, edgeType, batch, transaction, warnings, endpointKeys);
+                  } else {
+                    return await this.insertEdgeDataBatch(tempTableName, edgeType, batch, transaction, warnings, endpointKeys);
+                  }
+                },
+                {
+                  onProgress: (processed, total) => {
+                    this.trackProgress(options, 'storing', processed, total, {
+                      edgeCount: edgeCount + processed,
+                      currentType: edgeType,
+                      elapsedTime: Date.now() - startTime,
+                      percentage: 33 + Math.round((processed / total) * 33)
+                    });
+                  }
+                }
+              );
+
+              edgeCount += insertedCount;
+              this.logger.debug(`Inserted ${insertedCount} edges for ${edgeType} in streaming mode`);
+            } else if (useParallelInserts) {
+              // Process edges in parallel
+              const insertedCount = await this.processBatchesInParallel(
+                edgeList,
+                mergedOptions.batchSize,
+                async (batch) => {
+                  if (useBulkInsert) {
+                    return await this.bulkInsertEdgeData(tempTableName, edgeType, batch, transaction, warnings, endpointKeys);
+                  } else {
+                    return await this.insertEdgeDataBatch(tempTableName, edgeType, batch, transaction, warnings, endpointKeys);
+                  }
+                },
+                {
+                  maxParallelBatches: this.options.maxParallelBatches,
+                  onProgress: (processed, total) => {
+                    this.trackProgress(options, 'storing', processed, total, {
+                      edgeCount: edgeCount + processed,
+                      currentType: edgeType,
+                      elapsedTime: Date.now() - startTime,
+                      percentage: 33 + Math.round((processed / total) * 33)
+                    });
+                  }
+                }
+              );
 
-        // Calculate total batches for this edge type
-        const totalBatches = Math.ceil(edgeList.length / mergedOptions.batchSize);
-
-        if (useStreaming) {
-          // Process edges in streaming mode
-          const insertedCount = await this.processDataStream(
-            edgeList,
-            mergedOptions.batchSize,
-            async (batch) => {
-              if (useBulkInsert) {
-                return await this.bulkInsertEdgeData(tempTableName, edgeType, batch, transaction, warnings);
-              } else {
-                return await this.insertEdgeDataBatch(tempTableName, edgeType, batch, transaction, warnings);
-              }
-            },
-            {
-              onProgress: (processed, total) => {
-                this.trackProgress(options, 'storing', processed, total, {
-                  edgeCount: edgeCount + processed,
-                  currentType: edgeType,
-                  elapsedTime: Date.now() - startTime,
-                  percentage: 33 + Math.round((processed / total) * 33)
-                });
-              }
-            }
-          );
+              edgeCount += insertedCount;
+              this.logger.debug(`Inserted ${insertedCount} edges for ${edgeType} in parallel`);
+            } else {
+              // Process edges sequentially (original implementation)
+              let processedCount = 0;
 
-          edgeCount += insertedCount;
-          this.logger.debug(`Inserted ${insertedCount} edges for ${edgeType} in streaming mode`);
-        } else if (useParallelInserts) {
-          // Process edges in parallel
-          const insertedCount = await this.processBatchesInParallel(
-            edgeList,
-            mergedOptions.batchSize,
-            async (batch) => {
-              if (useBulkInsert) {
-                return await this.bulkInsertEdgeData(tempTableName, edgeType, batch, transaction, warnings);
-              } else {
-                return await this.insertEdgeDataBatch(tempTableName, edgeType, batch, transaction, warnings);
-              }
-            },
-            {
-              maxParallelBatches: this.options.maxParallelBatches,
-              onProgress: (processed, total) => {
-                this.trackProgress(options, 'storing', processed, total, {
-                  edgeCount: edgeCount + processed,
+              // Insert edges in batches
+              for (let i = 0; i < edgeList.length; i += mergedOptions.batchSize) {
+                const batch = edgeList.slice(i, i + mergedOptions.batchSize);
+                const currentBatch = Math.floor(i / mergedOptions.batchSize) + 1;
+
+                // Report progress
+                this.trackProgress(options, 'storing', i + batch.length, edgeList.length, {
+                  edgeCount: edgeCount + processedCount + batch.length,
                   currentType: edgeType,
+                  currentBatch,
+                  totalBatches,
                   elapsedTime: Date.now() - startTime,
-                  percentage: 33 + Math.round((processed / total) * 33)
-                });
-              }
-            }
-          );
-
-          edgeCount += insertedCount;
-          this.logger.debug(`Inserted ${insertedCount} edges for ${edgeType} in parallel`);
-        } else {
-          // Process edges sequentially (original implementation)
-          let processedCount = 0;
-
-          // Insert edges in batches
-          for (let i = 0; i < edgeList.length; i += mergedOptions.batchSize) {
-            const batch = edgeList.slice(i, i + mergedOptions.batchSize);
-            const currentBatch = Math.floor(i / mergedOptions.batchSize) + 1;
-
-            // Report progress
-            this.trackProgress(options, 'storing', i + batch.length, edgeList.length, {
-              edgeCount: edgeCount + processedCount + batch.length,
-              currentType: edgeType,
-              currentBatch,
-              totalBatches,
-              elapsedTime: Date.now() - startTime,
-              percentage: 33 + Math.round(((i + batch.length) / edgeList.length) * 33)
-            });
-
-            // Insert batch
-            if (useBulkInsert) {
-              const insertedCount = await this.bulkInsertEdgeData(tempTableName, edgeType, batch, transaction, warnings);
-              processedCount += insertedCount;
-            } else {
-              for (const edge of batch) {
-                if (!edge.from || !edge.to) {
-                  warnings.push(`Edge in '${edgeType}' missing from or to property`);
-                  continue;
-                }
-
-                await this.queryExecutor.executeSQL(`
-                  INSERT INTO ${tempTableName} (edge_type, from_id, to_id, properties)
-                  VALUES ($1, $2, $3, $4)
-                `, [
-                  edgeType,
-                  edge.from.toString(),
-                  edge.to.toString(),
-                  JSON.stringify(this.extractEdgeProperties(edge, edgeType))
-                ], { transaction });
+                  percentage: 33 + Math.round(((i + batch.length) / edgeList.length) * 33)
+                });
 
-                processedCount++;
+                // Insert batch
+                if (useBulkInsert) {
+                  const insertedCount = await this.bulkInsertEdgeData(tempTableName, edgeType, batch, transaction, warnings, endpointKeys);
+                  processedCount += insertedCount;
+                } else {
+                  processedCount += await this.insertEdgeDataBatch(tempTableName, edgeType, batch, transaction, warnings, endpointKeys);
+                }
               }
+
+              edgeCount += processedCount;
+              this.logger.debug(`Inserted ${processedCount} edges for ${edgeType} sequentially`);
             }
-          }
 
-          edgeCount += processedCount;
-          this.logger.debug(`Inserted ${processedCount} edges for ${edgeType} sequentially`);
-        }
+            span.setAttributes({ [SpanAttribute.ROW_COUNT]: edgeCount - storedBefore });
+          }
+        );
       }
 
       // Validate edge endpoints
       const validateQuery = this.cypherQueryGenerator.generateValidateEdgeEndpointsQuery(
         tempTableName,
-        mergedOptions.graphName
+        mergedOptions.graphName,
+        mergedOptions.endpointKeys
       );
 
       const validationResult = await this.queryExecutor.executeSQL(
@@ -1159,7 +2496,9 @@ export class SchemaLoader<T extends SchemaDefinition> {
       if (validationResult.rows.length > 0) {
         // Some endpoints don't exist
         const missingEndpoints = validationResult.rows.map(row =>
-          `Edge endpoint validation failed: from_id=${row.from_id} (exists: ${row.from_exists}), to_id=${row.to_id} (exists: ${row.to_exists})`
+          row.from_key || row.to_key
+            ? `Edge endpoint validation failed: ${row.edge_type} ${this.describeEndpoint(row, 'from', mergedOptions.endpointKeys)}, ${this.describeEndpoint(row, 'to', mergedOptions.endpointKeys)}`
+            : `Edge endpoint validation failed: from_id=${row.from_id} (exists: ${row.from_exists}), to_id=${row.to_id} (exists: ${row.to_exists})`
         );
 
         errors.push(new Error(`Edge endpoints validation failed: ${missingEndpoints.length} edges have invalid endpoints. First error: ${missingEndpoints[0]}`));
@@ -1193,40 +2532,53 @@ export class SchemaLoader<T extends SchemaDefinition> {
         percentage: 66
       });
 
-      // Get edge data from the temporary table
-      const edgeDataResult = await this.queryExecutor.executeSQL(`
-        SELECT jsonb_agg(jsonb_build_object(
-          'type', edge_type,
-          'from', from_id,
-          'to', to_id,
-          'properties', properties
-        )) AS edges
-        FROM ${tempTableName}
-      `, [], { transaction });
-
-      // Extract the edge data
-      const edgeData = edgeDataResult.rows[0]?.edges || [];
-
-      // Create a function to convert edge data to ag_catalog.agtype
-      const functionName = `get_edges_${Date.now()}`;
-      await createArrayFunction(
-        this.queryExecutor,
-        mergedOptions.tempSchema,
-        functionName,
-        edgeData,
-        { transaction }
-      );
+      await withSpan(
+        this.instrumentation,
+        SpanName.LOAD_CREATE,
+        { [SpanAttribute.GRAPH]: mergedOptions.graphName, [SpanAttribute.ROW_COUNT]: edgeCount },
+        async () => {
+          // Create the edges of each label with a query matching its endpoints on their keys
+          for (const edgeType of edgeTypes) {
+            if (!this.schema.edges[edgeType]) {
+              continue;
+            }
 
-      // Generate and execute Cypher query to create edges
-      const createEdgesQuery = this.cypherQueryGenerator.generateCreateEdgesQuery(
-        `${mergedOptions.tempSchema}.${functionName}()`,
-        mergedOptions.graphName
-      );
+            // Get the edge data of the label from the temporary table
+            const edgeDataResult = await this.queryExecutor.executeSQL(`
+              SELECT jsonb_agg(COALESCE(properties, '{}'::jsonb) || jsonb_build_object(
+                'from', COALESCE(from_key, to_jsonb(from_id)),
+                'to', COALESCE(to_key, to_jsonb(to_id))
+              ) ORDER BY id) AS edges
+              FROM ${tempTableName}
+              WHERE edge_type = $1
+            `, [edgeType], { transaction });
+
+            // Extract the edge data
+            const edgeData = edgeDataResult.rows[0]?.edges || [];
+            if (edgeData.length === 0) {
+              continue;
+            }
 
-      await this.queryExecutor.executeSQL(
-        createEdgesQuery,
-        [],
-        { transaction }
+            // Generate and execute Cypher query to create edges, reading
+            // the edge data as ag_catalog.agtype through a function
+            await this.withArrayFunction(
+              mergedOptions.tempSchema,
+              'get_edges',
+              edgeData,
+              transaction,
+              dataSource => this.queryExecutor.executeSQL(
+                this.cypherQueryGenerator.generateCreateEdgesQuery(
+                  edgeType,
+                  mergedOptions.graphName,
+                  mergedOptions.endpointKeys[edgeType],
+                  dataSource
+                ),
+                [],
+                { transaction }
+              )
+            );
+          }
+        }
       );
 
       // Report progress for creating phase
@@ -1273,8 +2625,12 @@ export class SchemaLoader<T extends SchemaDefinition> {
     } finally {
       // Clean up temporary objects
       try {
-        if (success && !options.transaction && tempTableName) {
-          await this.queryExecutor.executeSQL(`DROP TABLE IF EXISTS ${tempTableName}`);
+        if (success && tempTableName) {
+          await this.queryExecutor.executeSQL(
+            `DROP TABLE IF EXISTS ${tempTableName}`,
+            [],
+            options.transaction ? { transaction } : {}
+          );
         }
       } catch (error) {
         console.warn(`Failed to clean up temporary objects: ${(error as Error).message}`);
@@ -1283,15 +2639,93 @@ export class SchemaLoader<T extends SchemaDefinition> {
   }
 
   /**
-   * Load data from a JSON file
+   * Run a query reading data through a temporary function
+   *
+   * The function returns the data as an ag_catalog.agtype array. It is named
+   * uniquely, so that loads running side by side in the same schema do not
+   * replace each other's function, and it is dropped once the query has run.
+   * A drop that fails after the query failed is ignored: the transaction is
+   * aborted, and rolling it back removes the function.
+   *
+   * @param schemaName - Schema to create the function in
+   * @param prefix - Prefix of the function name
+   * @param data - Data the function returns
+   * @param transaction - Transaction to run in
+   * @param run - Function running the query on the data source expression
+   * @returns Result of the query
+   */
+  private async withArrayFunction<R>(
+    schemaName: string,
+    prefix: string,
+    data: any[],
+    transaction: any,
+    run: (dataSource: string) => Promise<R>
+  ): Promise<R> {
+    const functionName = `${prefix}_${randomUUID().replace(/-/g, '')}`;
+    await createArrayFunction(this.queryExecutor, schemaName, functionName, data, { transaction });
+
+    let failed = true;
+    try {
+      const result = await run(`${schemaName}.${functionName}()`);
+      failed = false;
+      return result;
+    } finally {
+      try {
+        await this.queryExecutor.executeSQL(`DROP FUNCTION IF EXISTS ${schemaName}.${functionName}()`, [], { transaction });
+      } catch (error) {
+        if (!failed) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Run a load in a span that records its row count and failure
+   *
+   * Loads report failures in their result rather than by throwing, so the
+   * first error of an unsuccessful result is recorded on the span.
+   *
+   * @param name - Span name
+   * @param options - Load options
+   * @param load - Load to run
+   * @returns Load result
+   */
+  private traceLoad(
+    name: SpanName,
+    options: LoadOptions,
+    load: () => Promise<LoadResult>
+  ): Promise<LoadResult> {
+    return withSpan(
+      this.instrumentation,
+      name,
+      { [SpanAttribute.GRAPH]: options.graphName || this.options.defaultGraphName },
+      async span => {
+        const result = await load();
+
+        span.setAttributes({ [SpanAttribute.ROW_COUNT]: result.vertexCount + result.edgeCount });
+        if (!result.success) {
+          span.recordError(result.errors?.[0] ?? new SchemaLoaderError('Load failed'));
+        }
+
+        return result;
+      }
+    );
+  }
+
+  /**
+   * Load data from a file
+   *
+   * JSON files are read whole and loaded with `loadGraphData`. NDJSON and
+   * CSV files are streamed and loaded like `loadFromStream`.
    *
-   * @param filePath - Path to the JSON file
+   * @param filePath - Path to the JSON, NDJSON or CSV file
    * @param options - Load options
    * @returns Load result
    */
   async loadFromFile(
     filePath: string,
-    options: LoadOptions = {}
+    options: StreamLoadOptions = {}
   ): Promise<LoadResult> {
     const startTime = Date.now();
     const resolvedPath = path.resolve(filePath);
@@ -1314,6 +2748,16 @@ export class SchemaLoader<T extends SchemaDefinition> {
         };
       }
 
+      // Stream NDJSON and CSV files
+      const format = options.format || this.getFileFormat(resolvedPath);
+      if (format) {
+        return this.loadFromFiles(
+          [resolvedPath],
+          (stream) => this.readStream(stream, { ...options, format }),
+          options
+        );
+      }
+
       // Read file content
       this.logger.debug(`Reading file: ${resolvedPath}`);
       let fileContent: string;
@@ -1394,6 +2838,397 @@ export class SchemaLoader<T extends SchemaDefinition> {
     }
   }
 
+  /**
+   * Load data from a stream
+   *
+   * The source yields graph data chunks, or text in the format given by
+   * `options.format`: NDJSON, or CSV with the label and columns in
+   * `options.csv`. Records are buffered until `batchSize` vertices or edges
+   * are waiting and then loaded through `loadVertices` and `loadEdges`, so
+   * memory use stays bounded by the batch size. Buffered vertices are loaded
+   * before any buffered edge, which lets edges reference every vertex read
+   * before them. All batches run in one transaction, rolled back on failure
+   * unless `options.transaction` is given.
+   *
+   * Progress is reported after every batch; as the length of a stream is
+   * unknown, `total` and `percentage` are 0.
+   *
+   * @param source - Graph data chunks, or text of the given format
+   * @param options - Load options
+   * @returns Load result
+   */
+  async loadFromStream(
+    source: AsyncIterable<GraphData> | Iterable<GraphData> | TextSource,
+    options: StreamLoadOptions = {}
+  ): Promise<LoadResult> {
+    return this.traceLoad(SpanName.LOAD_GRAPH, options, () => {
+      try {
+        return this.loadRecords(this.readStream(source, options), options);
+      } catch (error) {
+        return Promise.resolve(this.failedLoad(error, Date.now()));
+      }
+    });
+  }
+
+  /**
+   * Load data from CSV files holding the vertices or edges of one label each
+   *
+   * Vertex files are loaded before edge files. The files are streamed like
+   * `loadFromStream`, and progress follows the bytes read.
+   *
+   * @param files - CSV files with their labels and columns
+   * @param options - Load options
+   * @returns Load result
+   */
+  async loadFromCsvFiles(
+    files: CsvFileSource[],
+    options: LoadOptions = {}
+  ): Promise<LoadResult> {
+    const ordered = [
+      ...files.filter(file => (file.kind || 'vertex') === 'vertex'),
+      ...files.filter(file => file.kind === 'edge'),
+    ];
+
+    const missing = ordered.find(file => !fs.existsSync(path.resolve(file.path)));
+    if (missing) {
+      return this.failedLoad(new SchemaLoaderError(`File not found: ${path.resolve(missing.path)}`), Date.now());
+    }
+
+    return this.loadFromFiles(
+      ordered.map(file => path.resolve(file.path)),
+      (stream, index) => this.readStream(stream, { format: 'csv', csv: ordered[index] }),
+      options
+    );
+  }
+
+  /**
+   * Stream records from files and load them
+   *
+   * @param filePaths - Resolved file paths
+   * @param read - Read the records of the file at an index
+   * @param options - Load options
+   * @returns Load result
+   */
+  private async loadFromFiles(
+    filePaths: string[],
+    read: (stream: fs.ReadStream, index: number) => AsyncIterable<GraphRecord>,
+    options: LoadOptions
+  ): Promise<LoadResult> {
+    const streams: fs.ReadStream[] = [];
+    const totalBytes = filePaths.reduce((sum, filePath) => sum + fs.statSync(filePath).size, 0);
+
+    async function* records(): AsyncGenerator<GraphRecord> {
+      for (let index = 0; index < filePaths.length; index++) {
+        const stream = fs.createReadStream(filePaths[index]);
+        streams.push(stream);
+        yield* read(stream, index);
+      }
+    }
+
+    try {
+      return await this.traceLoad(SpanName.LOAD_GRAPH, options, () => this.loadRecords(
+        records(),
+        options,
+        () => (totalBytes > 0 ? streams.reduce((sum, stream) => sum + stream.bytesRead, 0) / totalBytes : 1)
+      ));
+    } finally {
+      streams.forEach(stream => stream.destroy());
+    }
+  }
+
+  /**
+   * Get the records of a stream source
+   *
+   * @param source - Graph data chunks, or text of the given format
+   * @param options - Stream load options
+   * @returns Vertex and edge records
+   * @throws SchemaLoaderError if a CSV source has no label
+   */
+  private readStream(
+    source: AsyncIterable<GraphData> | Iterable<GraphData> | TextSource,
+    options: StreamLoadOptions
+  ): AsyncIterable<GraphRecord> {
+    if (options.format === 'ndjson') {
+      return readNDJSON(source as TextSource);
+    }
+
+    if (options.format === 'csv') {
+      const csv = options.csv;
+      if (!csv?.label) {
+        throw new SchemaLoaderError('CSV sources need the csv option with the label of their rows');
+      }
+      return readCSV(source as TextSource, {
+        ...csv,
+        parseValue: csv.parseValue || ((property, value) => this.parseCsvValue(csv, property, value)),
+      });
+    }
+
+    return readGraphData(source as AsyncIterable<GraphData> | Iterable<GraphData>);
+  }
+
+  /**
+   * Get the streamed format of a file from its extension
+   *
+   * @param filePath - File path
+   * @returns NDJSON or CSV, or undefined for JSON files
+   */
+  private getFileFormat(filePath: string): 'ndjson' | 'csv' | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.ndjson' || extension === '.jsonl') {
+      return 'ndjson';
+    }
+    return extension === '.csv' ? 'csv' : undefined;
+  }
+
+  /**
+   * Convert a CSV field to the type of its schema property
+   *
+   * @param csv - CSV options with the label of the rows
+   * @param property - Property name
+   * @param value - Field text
+   * @returns Property value
+   * @throws SchemaLoaderError if the text is not a value of the property type
+   */
+  private parseCsvValue(csv: CsvSourceOptions, property: string, value: string): unknown {
+    const definition = csv.kind === 'edge' ? this.schema.edges[csv.label] : this.schema.vertices[csv.label];
+    const type = definition?.properties[property]?.type;
+    const invalid = () => new SchemaLoaderError(
+      `Value '${value}' of property '${property}' of '${csv.label}' is not of type ${type}`
+    );
+
+    switch (type) {
+      case PropertyType.NUMBER:
+      case PropertyType.INTEGER:
+      case PropertyType.FLOAT: {
+        const number = Number(value);
+        if (Number.isNaN(number) || (type === PropertyType.INTEGER && !Number.isInteger(number))) {
+          throw invalid();
+        }
+        return number;
+      }
+      case PropertyType.BOOLEAN:
+        if (value === 'true' || value === '1') {
+          return true;
+        }
+        if (value === 'false' || value === '0') {
+          return false;
+        }
+        throw invalid();
+      case PropertyType.ARRAY:
+      case PropertyType.OBJECT:
+        try {
+          return JSON.parse(value);
+        } catch {
+          throw invalid();
+        }
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Load streamed records in batches through the temporary table pipeline
+   *
+   * @param records - Vertex and edge records
+   * @param options - Load options
+   * @param readFraction - Share of the source read so far, if known
+   * @returns Load result
+   */
+  private async loadRecords(
+    records: AsyncIterable<GraphRecord>,
+    options: LoadOptions,
+    readFraction?: () => number
+  ): Promise<LoadResult> {
+    const startTime = Date.now();
+    const graphName = options.graphName || this.options.defaultGraphName!;
+    const batchSize = options.batchSize || this.options.defaultBatchSize!;
+    const vertexTypes = new Set<string>();
+    const edgeTypes = new Set<string>();
+    const result: LoadResult = {
+      success: true,
+      vertexCount: 0,
+      edgeCount: 0,
+      vertexTypes: [],
+      edgeTypes: [],
+      duration: 0,
+      errors: [],
+      warnings: []
+    };
+
+    this.logger.info(`Starting to stream graph data into graph '${graphName}' in batches of ${batchSize}`);
+
+    // Create a transaction if one wasn't provided
+    let transaction = options.transaction;
+    const createdTransaction = !transaction;
+    if (!transaction) {
+      try {
+        transaction = await this.queryExecutor.beginTransaction();
+      } catch (error) {
+        this.logger.error('Failed to create transaction', error);
+        return this.failedLoad(new SchemaLoaderTransactionError('Failed to create transaction', error as Error), startTime);
+      }
+    }
+
+    const rollback = async (reason: string) => {
+      if (!createdTransaction) {
+        return;
+      }
+      this.logger.debug(`Rolling back transaction due to ${reason}`);
+      try {
+        await transaction.rollback();
+      } catch (rollbackError) {
+        this.logger.error('Failed to rollback transaction', rollbackError);
+        result.warnings!.push(`Rollback error: ${(rollbackError as Error).message}`);
+      }
+    };
+
+    const batchOptions: LoadOptions = { ...options, graphName, batchSize, transaction, onProgress: undefined };
+    let vertices: Record<string, any[]> = {};
+    let edges: Record<string, any[]> = {};
+    let bufferedVertices = 0;
+    let bufferedEdges = 0;
+    let batches = 0;
+
+    // Add the counts of a loaded batch to the result and report progress
+    const absorb = (batch: LoadResult): boolean => {
+      result.warnings!.push(...(batch.warnings || []));
+      if (!batch.success) {
+        result.success = false;
+        result.errors = batch.errors || [new SchemaLoaderError('Load failed')];
+        return false;
+      }
+
+      result.vertexCount += batch.vertexCount;
+      result.edgeCount += batch.edgeCount;
+      batch.vertexTypes.forEach(type => vertexTypes.add(type));
+      batch.edgeTypes.forEach(type => edgeTypes.add(type));
+      batches++;
+
+      if (options.onProgress) {
+        const current = result.vertexCount + result.edgeCount;
+        const fraction = readFraction ? Math.min(readFraction(), 1) : 0;
+        options.onProgress({
+          phase: 'storing',
+          current,
+          total: fraction > 0 ? Math.max(current, Math.round(current / fraction)) : 0,
+          percentage: Math.floor(fraction * 100),
+          vertexCount: result.vertexCount,
+          edgeCount: result.edgeCount,
+          currentBatch: batches,
+          elapsedTime: Date.now() - startTime
+        });
+      }
+      return true;
+    };
+
+    const flushVertices = async (): Promise<boolean> => {
+      if (bufferedVertices === 0) {
+        return true;
+      }
+      const batch = vertices;
+      vertices = {};
+      bufferedVertices = 0;
+      return absorb(await this.loadVertices(batch, batchOptions));
+    };
+
+    const flushEdges = async (): Promise<boolean> => {
+      if (bufferedEdges === 0) {
+        return true;
+      }
+      const batch = edges;
+      edges = {};
+      bufferedEdges = 0;
+      return absorb(await this.loadEdges(batch, batchOptions));
+    };
+
+    try {
+      let loaded = true;
+      for await (const record of records) {
+        if (record.kind === 'vertex') {
+          (vertices[record.label] = vertices[record.label] || []).push(record.data);
+          if (++bufferedVertices >= batchSize) {
+            loaded = await flushVertices();
+          }
+        } else {
+          (edges[record.label] = edges[record.label] || []).push(record.data);
+          if (++bufferedEdges >= batchSize) {
+            loaded = await flushVertices() && await flushEdges();
+          }
+        }
+
+        if (!loaded) {
+          break;
+        }
+      }
+
+      if (loaded) {
+        loaded = await flushVertices() && await flushEdges();
+      }
+
+      if (!loaded) {
+        this.logger.error('Failed to load streamed batch', result.errors);
+        await rollback('batch loading failure');
+      } else if (createdTransaction) {
+        try {
+          await transaction.commit();
+        } catch (commitError) {
+          this.logger.error('Failed to commit transaction', commitError);
+          result.success = false;
+          result.errors = [new SchemaLoaderTransactionError('Failed to commit transaction', commitError as Error)];
+          await rollback('commit failure');
+        }
+      }
+    } catch (error) {
+      this.logger.error('Unexpected error during streamed loading', error);
+      result.success = false;
+      result.errors = [error instanceof SchemaLoaderError
+        ? error
+        : new SchemaLoaderError(`Unexpected error: ${(error as Error).message}`, error)];
+      await rollback('unexpected error');
+    }
+
+    if (!result.success) {
+      result.vertexCount = 0;
+      result.edgeCount = 0;
+    }
+    result.vertexTypes = [...vertexTypes];
+    result.edgeTypes = [...edgeTypes];
+    result.duration = Date.now() - startTime;
+    this.logger.info(`Streamed loading ${result.success ? 'completed' : 'failed'} after ${result.duration}ms`);
+
+    // Clean up empty arrays
+    if (result.warnings!.length === 0) {
+      delete result.warnings;
+    }
+    if (result.errors!.length === 0) {
+      delete result.errors;
+    }
+
+    return result;
+  }
+
+  /**
+   * Build the result of a load that failed before loading anything
+   *
+   * @param error - Failure
+   * @param startTime - Start time of the load
+   * @returns Load result
+   */
+  private failedLoad(error: unknown, startTime: number): LoadResult {
+    return {
+      success: false,
+      vertexCount: 0,
+      edgeCount: 0,
+      vertexTypes: [],
+      edgeTypes: [],
+      errors: [error instanceof SchemaLoaderError
+        ? error
+        : new SchemaLoaderError(`Unexpected error: ${(error as Error).message}`, error)],
+      warnings: [],
+      duration: Date.now() - startTime
+    };
+  }
+
   /**
    * Validate edge data against schema
    *
@@ -1438,6 +3273,158 @@ export class SchemaLoader<T extends SchemaDefinition> {
     }
   }
 
+  /**
+   * Validate vertex or edge data against the unique constraints of the schema
+   *
+   * Keys must be unique within the data and must not be taken by vertices or
+   * edges already in the graph. Existing keys are looked up one batch at a
+   * time.
+   *
+   * @param kind - Whether the data holds vertices or edges
+   * @param data - Vertex or edge data by label
+   * @param options - Load options
+   * @param transaction - Transaction to look up existing keys in
+   * @throws UniqueConstraintError if a key is duplicated or already taken
+   */
+  private async validateUniqueKeys(
+    kind: 'vertex' | 'edge',
+    data: Record<string, any[]>,
+    options: Required<LoadOptions>,
+    transaction: any
+  ): Promise<void> {
+    const definitions = kind === 'vertex' ? this.schema.vertices : this.schema.edges;
+
+    for (const [label, list] of Object.entries(data)) {
+      const definition = definitions[label];
+      if (!definition || !Array.isArray(list) || list.length === 0) {
+        continue;
+      }
+
+      const properties = list.map(item => kind === 'vertex'
+        ? this.extractVertexProperties(item, label)
+        : this.extractEdgeProperties(item, label));
+
+      for (const constraint of getUniqueConstraints(definition)) {
+        const [duplicate] = findDuplicateKeys(properties, constraint);
+        if (duplicate) {
+          throw new UniqueConstraintError(
+            label,
+            constraint,
+            duplicate.values,
+            `duplicated by items ${duplicate.indexes.join(', ')} of '${label}'`
+          );
+        }
+
+        const keys = properties
+          .map(item => getUniqueKeyValues(item, constraint))
+          .filter((values): values is unknown[] => values !== null);
+
+        for (let i = 0; i < keys.length; i += options.batchSize) {
+          const [existing] = await findExistingUniqueKeys(
+            this.queryExecutor,
+            options.graphName,
+            kind,
+            label,
+            constraint,
+            keys.slice(i, i + options.batchSize),
+            { transaction }
+          );
+
+          if (existing) {
+            throw new UniqueConstraintError(label, constraint, existing, `already exists in graph '${options.graphName}'`);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Check that endpoint keys name properties of the endpoint vertex labels
+   *
+   * @param endpointKeys - Vertex properties the endpoints of each edge label
+   * are resolved by
+   * @throws SchemaLoaderError if an edge label, endpoint label or property
+   * is not in the schema
+   */
+  private validateEndpointKeys(endpointKeys: Record<string, EdgeEndpointKeys>): void {
+    for (const [edgeType, keys] of Object.entries(endpointKeys)) {
+      const labels = this.getEndpointLabels(edgeType);
+      if (labels.length === 0) {
+        throw new SchemaLoaderError(`Endpoint keys are given for edge label '${edgeType}', which is not in the schema`);
+      }
+
+      (['from', 'to'] as const).forEach((side, index) => {
+        const vertexDef = this.schema.vertices[labels[index]];
+        for (const property of keys[side] || []) {
+          if (!vertexDef?.properties[property]) {
+            throw new SchemaLoaderError(
+              `Property '${property}' used to resolve the '${side}' endpoint of '${edgeType}' is not declared on vertex label '${labels[index]}'`
+            );
+          }
+        }
+      });
+    }
+  }
+
+  /**
+   * Get the values an edge endpoint is stored under in the temporary table
+   *
+   * @param edge - Edge data
+   * @param edgeType - Edge type
+   * @param side - Endpoint
+   * @param keys - Properties the endpoint is resolved by, if not by id
+   * @returns Endpoint id, and the JSON list of its key values when resolved
+   * by keys
+   * @throws SchemaLoaderError if a key value is missing
+   */
+  private getEndpointKey(
+    edge: any,
+    edgeType: string,
+    side: 'from' | 'to',
+    keys?: string[]
+  ): { id: string; key: string | null } {
+    const value = edge[side];
+    if (!keys || keys.length === 0) {
+      return { id: value.toString(), key: null };
+    }
+
+    const values = keys.length === 1 && (typeof value !== 'object' || value === null)
+      ? [value]
+      : keys.map(key => value?.[key]);
+    const missing = keys.find((_, index) => values[index] === undefined || values[index] === null);
+    if (missing) {
+      throw new SchemaLoaderError(`Edge in '${edgeType}' is missing key property '${missing}' of its '${side}' endpoint`);
+    }
+
+    const key = JSON.stringify(values);
+    return { id: key, key };
+  }
+
+  /**
+   * Describe an edge endpoint reported by the endpoint validation query
+   *
+   * @param row - Row of the validation query
+   * @param side - Endpoint
+   * @param endpointKeys - Vertex properties the endpoints of each edge label
+   * are resolved by
+   * @returns Endpoint description
+   */
+  private describeEndpoint(
+    row: Record<string, any>,
+    side: 'from' | 'to',
+    endpointKeys: Record<string, EdgeEndpointKeys>
+  ): string {
+    const keys = endpointKeys[row.edge_type]?.[side];
+    const exists = row[`${side}_exists`];
+    if (!keys || !row[`${side}_key`]) {
+      return `${side}_id=${row[`${side}_id`]} (exists: ${exists})`;
+    }
+
+    const values = typeof row[`${side}_key`] === 'string' ? JSON.parse(row[`${side}_key`]) : row[`${side}_key`];
+    const key = keys.map((property, index) => `${property}=${JSON.stringify(values[index])}`).join(', ');
+    return `${side} (${key}) (exists: ${exists})`;
+  }
+
   /**
    * Extract edge properties from edge data
    *
@@ -1732,7 +3719,8 @@ export class SchemaLoader<T extends SchemaDefinition> {
     edgeType: string,
     edges: any[],
     transaction: any,
-    warnings: string[]
+    warnings: string[],
+    endpointKeys: EdgeEndpointKeys = {}
   ): Promise<number> {
     let insertedCount = 0;
 
@@ -1742,13 +3730,17 @@ export class SchemaLoader<T extends SchemaDefinition> {
         continue;
       }
 
+      const from = this.getEndpointKey(edge, edgeType, 'from', endpointKeys.from);
+      const to = this.getEndpointKey(edge, edgeType, 'to', endpointKeys.to);
       await this.queryExecutor.executeSQL(`
-        INSERT INTO ${tempTableName} (edge_type, from_id, to_id, properties)
-        VALUES ($1, $2, $3, $4)
+        INSERT INTO ${tempTableName} (edge_type, from_id, to_id, from_key, to_key, properties)
+        VALUES ($1, $2, $3, $4, $5, $6)
       `, [
         edgeType,
-        edge.from.toString(),
-        edge.to.toString(),
+        from.id,
+        to.id,
+        from.key,
+        to.key,
         JSON.stringify(this.extractEdgeProperties(edge, edgeType))
       ], { transaction });
 
@@ -1805,7 +3797,8 @@ export class SchemaLoader<T extends SchemaDefinition> {
     edgeType: string,
     edges: any[],
     transaction: any,
-    warnings: string[]
+    warnings: string[],
+    endpointKeys: EdgeEndpointKeys = {}
   ): Promise<number> {
     if (edges.length === 0) return 0;
 
@@ -1821,14 +3814,17 @@ export class SchemaLoader<T extends SchemaDefinition> {
     if (validEdges.length === 0) return 0;
 
     // Prepare values for bulk insert
+    const literal = (value: string | null) => value === null ? 'NULL' : `'${value.replace(/'/g, "''")}'`;
     const values = validEdges.map(edge => {
       const properties = this.extractEdgeProperties(edge, edgeType);
-      return `('${edgeType}', '${edge.from.toString().replace(/'/g, "''")}', '${edge.to.toString().replace(/'/g, "''")}', '${JSON.stringify(properties).replace(/'/g, "''")}'::jsonb)`;
+      const from = this.getEndpointKey(edge, edgeType, 'from', endpointKeys.from);
+      const to = this.getEndpointKey(edge, edgeType, 'to', endpointKeys.to);
+      return `('${edgeType}', ${literal(from.id)}, ${literal(to.id)}, ${literal(from.key)}::jsonb, ${literal(to.key)}::jsonb, '${JSON.stringify(properties).replace(/'/g, "''")}'::jsonb)`;
     }).join(',');
 
     // Execute bulk insert
     await this.queryExecutor.executeSQL(`
-      INSERT INTO ${tempTableName} (edge_type, from_id, to_id, properties)
+      INSERT INTO ${tempTableName} (edge_type, from_id, to_id, from_key, to_key, properties)
       VALUES ${values}
     `, [], { transaction });
 
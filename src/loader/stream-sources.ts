@@ -0,0 +1,282 @@
+/**
+ * Readers turning NDJSON, CSV and graph data chunks into a stream of
+ * vertex and edge records for SchemaLoader
+ *
+ * The readers pull their input one chunk at a time and yield records as
+ * soon as they are complete, so memory use depends on the longest line or
+ * row rather than on the size of the input.
+ *
+ * @packageDocumentation
+ */
+
+import { StringDecoder } from 'string_decoder';
+import { GraphData, SchemaLoaderError } from './schema-loader';
+
+/**
+ * Vertex or edge read from a source
+ */
+export interface GraphRecord {
+  /**
+   * Whether the record is a vertex or an edge
+   */
+  kind: 'vertex' | 'edge';
+
+  /**
+   * Vertex or edge label
+   */
+  label: string;
+
+  /**
+   * Vertex or edge data, shaped like the items of GraphData
+   */
+  data: Record<string, any>;
+}
+
+/**
+ * Text input of a reader, such as a file or network stream
+ */
+export type TextSource = AsyncIterable<string | Buffer> | Iterable<string | Buffer>;
+
+/**
+ * Options for reading a CSV source
+ */
+export interface CsvSourceOptions {
+  /**
+   * Label of the vertices or edges in the file
+   */
+  label: string;
+
+  /**
+   * Whether the rows are vertices or edges
+   * @default 'vertex'
+   */
+  kind?: 'vertex' | 'edge';
+
+  /**
+   * Property each column is read into, by column header; columns not listed
+   * are read into the property named by their header, and columns mapped to
+   * null are skipped. Edge files must map their endpoint columns to `from`
+   * and `to`.
+   */
+  columns?: Record<string, string | null>;
+
+  /**
+   * Field delimiter
+   * @default ','
+   */
+  delimiter?: string;
+
+  /**
+   * Convert the text of a field to the value of its property; empty fields
+   * are left out before conversion
+   */
+  parseValue?: (property: string, value: string) => unknown;
+}
+
+/**
+ * Read the text of a source line by line
+ *
+ * @param input - Text source
+ * @returns Lines without their line terminators
+ */
+export async function* readLines(input: TextSource): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+
+  for await (const chunk of input) {
+    pending += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+
+    let newline = pending.indexOf('\n');
+    while (newline >= 0) {
+      yield pending.slice(0, newline).replace(/\r$/, '');
+      pending = pending.slice(newline + 1);
+      newline = pending.indexOf('\n');
+    }
+  }
+
+  pending += decoder.end();
+  if (pending.length > 0) {
+    yield pending.replace(/\r$/, '');
+  }
+}
+
+/**
+ * Turn graph data chunks into records
+ *
+ * @param chunks - Graph data chunks
+ * @returns Vertex and edge records, vertices of each chunk first
+ */
+export async function* readGraphData(
+  chunks: AsyncIterable<GraphData> | Iterable<GraphData>
+): AsyncGenerator<GraphRecord> {
+  for await (const chunk of chunks) {
+    for (const [label, list] of Object.entries(chunk.vertices || {})) {
+      for (const data of list) {
+        yield { kind: 'vertex', label, data };
+      }
+    }
+    for (const [label, list] of Object.entries(chunk.edges || {})) {
+      for (const data of list) {
+        yield { kind: 'edge', label, data };
+      }
+    }
+  }
+}
+
+/**
+ * Read vertices and edges from newline-delimited JSON
+ *
+ * Each line holds one record, `{"type": "vertex", "label": "Person",
+ * "data": {...}}` or `{"type": "edge", "label": "KNOWS", "data": {"from":
+ * ..., "to": ..., ...}}`, or a graph data chunk with `vertices` and `edges`.
+ * Blank lines are skipped.
+ *
+ * @param input - Text source
+ * @returns Vertex and edge records in the order of the lines
+ * @throws SchemaLoaderError if a line is not a valid record
+ */
+export async function* readNDJSON(input: TextSource): AsyncGenerator<GraphRecord> {
+  let lineNumber = 0;
+
+  for await (const line of readLines(input)) {
+    lineNumber++;
+    if (line.trim() === '') {
+      continue;
+    }
+
+    let value: any;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      throw new SchemaLoaderError(`Invalid JSON on line ${lineNumber}: ${(error as Error).message}`, error);
+    }
+
+    if (value && typeof value === 'object' && ('vertices' in value || 'edges' in value)) {
+      yield* readGraphData([value as GraphData]);
+    } else if (
+      value &&
+      (value.type === 'vertex' || value.type === 'edge') &&
+      typeof value.label === 'string' &&
+      value.data &&
+      typeof value.data === 'object'
+    ) {
+      yield { kind: value.type, label: value.label, data: value.data };
+    } else {
+      throw new SchemaLoaderError(
+        `Invalid record on line ${lineNumber}: expected a vertex or edge record or a graph data chunk`
+      );
+    }
+  }
+}
+
+/**
+ * Split CSV text into rows of fields
+ *
+ * Fields may be quoted with double quotes, which are escaped by doubling
+ * them, and quoted fields may span lines.
+ *
+ * @param input - Text source
+ * @param delimiter - Field delimiter
+ * @returns Rows of fields
+ * @throws SchemaLoaderError if a quoted field is not closed
+ */
+async function* readCSVRows(input: TextSource, delimiter: string): AsyncGenerator<string[]> {
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let fieldStarted = false;
+
+  for await (const line of readLines(input)) {
+    if (!quoted && line === '' && row.length === 0) {
+      continue;
+    }
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && !fieldStarted) {
+        quoted = true;
+        fieldStarted = true;
+      } else if (line.startsWith(delimiter, i)) {
+        row.push(field);
+        field = '';
+        fieldStarted = false;
+        i += delimiter.length - 1;
+      } else {
+        field += char;
+        fieldStarted = true;
+      }
+    }
+
+    if (quoted) {
+      field += '\n';
+    } else {
+      row.push(field);
+      yield row;
+      row = [];
+      field = '';
+      fieldStarted = false;
+    }
+  }
+
+  if (quoted) {
+    throw new SchemaLoaderError('Invalid CSV: a quoted field is not closed');
+  }
+}
+
+/**
+ * Read the vertices or edges of one label from CSV
+ *
+ * The first row holds the column headers. Empty fields are left out, so
+ * the property is missing rather than an empty string.
+ *
+ * @param input - Text source
+ * @param options - CSV options
+ * @returns Vertex or edge records, one per row
+ * @throws SchemaLoaderError if a row has a different number of fields than
+ * the header, or an edge file has no `from` or `to` column
+ */
+export async function* readCSV(input: TextSource, options: CsvSourceOptions): AsyncGenerator<GraphRecord> {
+  const kind = options.kind || 'vertex';
+  let properties: (string | null)[] | null = null;
+  let rowNumber = 0;
+
+  for await (const fields of readCSVRows(input, options.delimiter || ',')) {
+    rowNumber++;
+
+    if (!properties) {
+      properties = fields.map(header => {
+        const mapped = options.columns?.[header];
+        return mapped === undefined ? header : mapped;
+      });
+      if (kind === 'edge' && (!properties.includes('from') || !properties.includes('to'))) {
+        throw new SchemaLoaderError(`CSV file of edge label '${options.label}' needs columns mapped to 'from' and 'to'`);
+      }
+      continue;
+    }
+
+    if (fields.length !== properties.length) {
+      throw new SchemaLoaderError(
+        `Row ${rowNumber} of CSV file of label '${options.label}' has ${fields.length} fields, expected ${properties.length}`
+      );
+    }
+
+    const data: Record<string, any> = {};
+    properties.forEach((property, index) => {
+      if (property !== null && fields[index] !== '') {
+        data[property] = options.parseValue ? options.parseValue(property, fields[index]) : fields[index];
+      }
+    });
+
+    yield { kind, label: options.label, data };
+  }
+}
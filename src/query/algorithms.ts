@@ -344,7 +344,7 @@ export class AlgorithmQueryBuilder<T extends SchemaDefinition> extends Analytics
     sourceAlias: string,
     edgeLabel: E,
     targetAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Add MATCH clause for an edge between two previously matched vertices with an edge alias
@@ -354,7 +354,7 @@ export class AlgorithmQueryBuilder<T extends SchemaDefinition> extends Analytics
     edgeLabel: E,
     targetAlias: string,
     edgeAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Implementation of the match method for algorithms
@@ -18,6 +18,7 @@ import {
 } from './types';
 import { ReturnPart, MatchPart } from './parts';
 import { MatchClause } from './clauses';
+import { ConditionInput, ProjectionInput } from './expressions';
 
 /**
  * Analytics match clause class
@@ -134,13 +135,13 @@ export class AnalyticsMatchClause<
     sourceAlias: string,
     edgeLabel: E,
     targetAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
   match<E extends keyof T['edges']>(
     sourceAlias: string,
     edgeLabel: E,
     targetAlias: string,
     edgeAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
   match(
     labelOrSourceAlias: any,
     aliasOrEdgeLabel: string,
@@ -167,7 +168,7 @@ export class AnalyticsMatchClause<
    * @param params - Parameters
    * @returns This analytics match clause
    */
-  where(condition: string, params?: Record<string, any>): this {
+  where(condition: ConditionInput, params?: Record<string, any>): this {
     // Call the parent method to add the WHERE clause
     super.where(condition, params);
 
@@ -181,7 +182,7 @@ export class AnalyticsMatchClause<
    * @param expressions - Return expressions
    * @returns This analytics query builder
    */
-  return(...expressions: string[]): AnalyticsQueryBuilder<T> {
+  return(...expressions: ProjectionInput[]): AnalyticsQueryBuilder<T> {
     const queryBuilder = this.done() as unknown as AnalyticsQueryBuilder<T>;
     queryBuilder.return(...expressions);
     return queryBuilder;
@@ -339,7 +340,7 @@ export class AnalyticsQueryBuilder<T extends SchemaDefinition> extends QueryBuil
     sourceAlias: string,
     edgeLabel: E,
     targetAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Add MATCH clause for an edge between two previously matched vertices with an edge alias
@@ -349,7 +350,7 @@ export class AnalyticsQueryBuilder<T extends SchemaDefinition> extends QueryBuil
     edgeLabel: E,
     targetAlias: string,
     edgeAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Implementation of the match method for analytics
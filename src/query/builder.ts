@@ -5,11 +5,13 @@
  */
 
 import { SchemaDefinition } from '../schema/types';
+import { SchemaValidator } from '../schema/validator';
 import { QueryExecutor } from '../db/query';
 import {
   IQueryBuilder,
   IMatchClause,
   IEdgeMatchClause,
+  IMergeClause,
   QueryPart,
   QueryPartType,
   OrderDirection,
@@ -18,6 +20,8 @@ import {
   MatchPatternType,
   VertexPattern,
   EdgePattern,
+  MatchPattern,
+  PropertyAssignment,
 } from './types';
 import {
   MatchPart,
@@ -28,8 +32,91 @@ import {
   SkipPart,
   WithPart,
   UnwindPart,
+  CreatePart,
+  MergePart,
+  SetPart,
+  RemovePart,
+  DeletePart,
 } from './parts';
-import { MatchClause, EdgeMatchClause } from './clauses';
+import { MatchClause, EdgeMatchClause, MergeClause } from './clauses';
+import {
+  ConditionInput,
+  ProjectionInput,
+  OrderInput,
+  Expression,
+  VertexRef,
+  EdgeRef,
+  VertexPropertyValues,
+  EdgePropertyValues,
+  compileExpression,
+  compileAssignments,
+} from './expressions';
+
+/**
+ * Pattern for valid parameter names
+ */
+const PARAM_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Render the property constraints of a pattern as a Cypher map
+ *
+ * Values are never written into the Cypher text; each property references the
+ * parameter it was bound to by the constraint method.
+ *
+ * @param pattern - Vertex or edge pattern
+ * @returns Cypher map prefixed with a space, or an empty string
+ * @throws Error if a property value is invalid or has no bound parameter
+ */
+function renderPropertyConstraints(pattern: VertexPattern | EdgePattern): string {
+  if (!pattern.properties || Object.keys(pattern.properties).length === 0) {
+    return '';
+  }
+
+  const props = Object.entries(pattern.properties)
+    .map(([key, value]) => {
+      // At this point, null/undefined/NaN values should have been caught by the constraint method
+      // But we'll add an extra check here just to be safe
+      if (value === null || value === undefined || (typeof value === 'number' && isNaN(value))) {
+        throw new Error(
+          `Invalid property value for '${key}': ${value}. ` +
+          `Cypher doesn't support null, undefined, or NaN values. ` +
+          `To match without a specific property, use a WHERE clause with NOT exists(${pattern.alias}.${key}).`
+        );
+      }
+
+      const paramName = pattern.propertyParams?.[key];
+      if (!paramName) {
+        throw new Error(`Property constraint '${key}' on '${pattern.alias}' is not bound to a parameter`);
+      }
+
+      return `${key}: $${paramName}`;
+    })
+    .join(', ');
+
+  return ` {${props}}`;
+}
+
+/**
+ * Render property assignments as a Cypher map for CREATE and MERGE patterns
+ *
+ * @param assignments - Compiled property assignments
+ * @returns Cypher map prefixed with a space, or an empty string
+ */
+function renderPropertyMap(assignments: PropertyAssignment[]): string {
+  if (assignments.length === 0) {
+    return '';
+  }
+
+  return ` {${assignments.map(item => `${item.property}: ${item.expression}`).join(', ')}}`;
+}
+
+/**
+ * Label bound to an alias by a MATCH, CREATE or MERGE pattern
+ */
+interface AliasLabel {
+  kind: 'vertex' | 'edge';
+  label: string;
+}
 
 /**
  * Query builder class
@@ -45,6 +132,11 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
    */
   private parameters: Record<string, any> = {};
 
+  /**
+   * Names of the parameters bound through `bindParam`
+   */
+  private generatedParams = new Set<string>();
+
   /**
    * Graph name
    */
@@ -77,7 +169,7 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
     sourceAlias: string,
     edgeLabel: E,
     targetAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Add MATCH clause for an edge between two previously matched vertices with an edge alias
@@ -87,7 +179,7 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
     edgeLabel: E,
     targetAlias: string,
     edgeAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Implementation of the match method
@@ -111,33 +203,7 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
         properties: {},
         toCypher: () => {
           const labelStr = label ? `:${String(label)}` : '';
-
-          // Add property constraints if any
-          let propsStr = '';
-          if (vertexPattern.properties && Object.keys(vertexPattern.properties).length > 0) {
-            const props = Object.entries(vertexPattern.properties)
-              .map(([key, value]) => {
-                // At this point, null/undefined/NaN values should have been caught by the constraint method
-                // But we'll add an extra check here just to be safe
-                if (value === null || value === undefined || (typeof value === 'number' && isNaN(value))) {
-                  throw new Error(
-                    `Invalid property value for '${key}': ${value}. ` +
-                    `Cypher doesn't support null, undefined, or NaN values. ` +
-                    `To match vertices without a specific property, use a WHERE clause with NOT exists(${alias}.${key}).`
-                  );
-                }
-
-                if (typeof value === 'string') {
-                  return `${key}: "${value}"`;
-                } else {
-                  return `${key}: ${value}`;
-                }
-              })
-              .join(', ');
-
-            propsStr = ` {${props}}`;
-          }
-
+          const propsStr = renderPropertyConstraints(vertexPattern);
           return `(${alias}${labelStr}${propsStr})`;
         }
       };
@@ -185,32 +251,7 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
         const sourceStr = sourceVertex.toCypher();
         const targetStr = targetVertex.toCypher();
         const labelStr = edgeLabel ? `:${String(edgeLabel)}` : '';
-
-        // Add property constraints if any
-        let propsStr = '';
-        if (edgePattern.properties && Object.keys(edgePattern.properties).length > 0) {
-          const props = Object.entries(edgePattern.properties)
-            .map(([key, value]) => {
-              // At this point, null/undefined/NaN values should have been caught by the constraint method
-              // But we'll add an extra check here just to be safe
-              if (value === null || value === undefined || (typeof value === 'number' && isNaN(value))) {
-                throw new Error(
-                  `Invalid property value for '${key}': ${value}. ` +
-                  `Cypher doesn't support null, undefined, or NaN values. ` +
-                  `To match edges without a specific property, use a WHERE clause with NOT exists(alias.${key}).`
-                );
-              }
-
-              if (typeof value === 'string') {
-                return `${key}: "${value}"`;
-              } else {
-                return `${key}: ${value}`;
-              }
-            })
-            .join(', ');
-
-          propsStr = ` {${props}}`;
-        }
+        const propsStr = renderPropertyConstraints(edgePattern);
 
         return `${sourceStr}-[${edgeAliasToUse}${labelStr}${propsStr}]->${targetStr}`;
       }
@@ -221,17 +262,17 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
     this.queryParts.push(matchPart);
 
     // Return an EdgeMatchClause instance
-    return new EdgeMatchClause<T>(this, matchPart, edgePattern);
+    return new EdgeMatchClause<T, any>(this, matchPart, edgePattern);
   }
 
   /**
    * Add WHERE clause
    *
-   * @param condition - Condition expression
+   * @param condition - Condition string or expression
    * @param params - Parameters
    * @returns This query builder
    */
-  where(condition: string, params: Record<string, any> = {}): this {
+  where(condition: ConditionInput, params: Record<string, any> = {}): this {
     // Process the parameters to handle null values
     const processedParams: Record<string, any> = {};
     const nullParams: Record<string, string> = {};
@@ -248,7 +289,7 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
     }
 
     // Replace null parameter references in the condition with NOT exists() expressions
-    let processedCondition = condition;
+    let processedCondition = compileExpression(condition, this);
     for (const [, paramName] of Object.entries(nullParams)) {
       // Replace patterns like "x.prop = $paramName" with "NOT exists(x.prop)"
       // This regex looks for property comparisons with null parameters
@@ -260,12 +301,12 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
       processedCondition = processedCondition.replace(isRegex, `NOT exists($1.$2)`);
     }
 
-    this.queryParts.push(new WherePart(processedCondition));
-
-    if (Object.keys(processedParams).length > 0) {
-      this.parameters = { ...this.parameters, ...processedParams };
+    for (const [key, value] of Object.entries(processedParams)) {
+      this.withParam(key, value);
     }
 
+    this.queryParts.push(new WherePart(processedCondition));
+
     return this;
   }
 
@@ -275,8 +316,8 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
    * @param expressions - Return expressions
    * @returns This query builder
    */
-  return(...expressions: string[]): this {
-    this.queryParts.push(new ReturnPart(expressions));
+  return(...expressions: ProjectionInput[]): this {
+    this.queryParts.push(new ReturnPart(expressions.map(e => compileExpression(e, this))));
     return this;
   }
 
@@ -287,15 +328,17 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
    * @param direction - Order direction
    * @returns This query builder
    */
-  orderBy(expression: string, direction: OrderDirection = OrderDirection.ASC): this {
+  orderBy(expression: OrderInput, direction: OrderDirection = OrderDirection.ASC): this {
+    const compiled = compileExpression(expression, this);
+
     // Look for existing ORDER BY part
     const existingPart = this.queryParts.find(part => part.type === QueryPartType.ORDER_BY) as OrderByPart | undefined;
 
     if (existingPart) {
-      existingPart.addItem(expression, direction);
+      existingPart.addItem(compiled, direction);
     } else {
       const orderByPart = new OrderByPart();
-      orderByPart.addItem(expression, direction);
+      orderByPart.addItem(compiled, direction);
       this.queryParts.push(orderByPart);
     }
 
@@ -330,8 +373,8 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
    * @param expressions - With expressions
    * @returns This query builder
    */
-  with(...expressions: string[]): this {
-    this.queryParts.push(new WithPart(expressions));
+  with(...expressions: ProjectionInput[]): this {
+    this.queryParts.push(new WithPart(expressions.map(e => compileExpression(e, this))));
     return this;
   }
 
@@ -347,18 +390,359 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
     return this;
   }
 
+  /**
+   * Add CREATE clause for a vertex
+   *
+   * Each plain property value is bound to a generated query parameter.
+   *
+   * @param label - Vertex label
+   * @param alias - Vertex alias
+   * @param properties - Property values or expressions
+   * @returns This query builder
+   */
+  create<L extends keyof T['vertices']>(
+    label: L,
+    alias: string,
+    properties: VertexPropertyValues<T, L> = {}
+  ): this {
+    this.queryParts.push(new CreatePart([
+      this.createWriteVertexPattern(String(label), alias, properties),
+    ]));
+    return this;
+  }
+
+  /**
+   * Add CREATE clause for an edge between two previously bound vertices
+   *
+   * @param sourceAlias - Source vertex alias
+   * @param label - Edge label
+   * @param targetAlias - Target vertex alias
+   * @param properties - Property values or expressions
+   * @param edgeAlias - Edge alias
+   * @returns This query builder
+   */
+  createEdge<E extends keyof T['edges']>(
+    sourceAlias: string,
+    label: E,
+    targetAlias: string,
+    properties: EdgePropertyValues<T, E> = {},
+    edgeAlias: string = 'e'
+  ): this {
+    this.queryParts.push(new CreatePart([
+      this.createWriteEdgePattern(sourceAlias, String(label), targetAlias, properties, edgeAlias),
+    ]));
+    return this;
+  }
+
+  /**
+   * Add MERGE clause for a vertex
+   *
+   * The properties identify the vertex; use the returned clause to add
+   * ON CREATE SET and ON MATCH SET assignments.
+   *
+   * @param label - Vertex label
+   * @param alias - Vertex alias
+   * @param properties - Property values identifying the vertex
+   * @returns Merge clause
+   * @throws Error if a property value is null, undefined, or NaN
+   */
+  merge<L extends keyof T['vertices']>(
+    label: L,
+    alias: string,
+    properties: VertexPropertyValues<T, L> = {}
+  ): IMergeClause<T, VertexPropertyValues<T, L>> {
+    this.assertMergeProperties(alias, properties);
+
+    const mergePart = new MergePart(this.createWriteVertexPattern(String(label), alias, properties));
+    this.queryParts.push(mergePart);
+
+    return new MergeClause<T, VertexPropertyValues<T, L>>(this, mergePart, alias);
+  }
+
+  /**
+   * Add MERGE clause for an edge between two previously bound vertices
+   *
+   * @param sourceAlias - Source vertex alias
+   * @param label - Edge label
+   * @param targetAlias - Target vertex alias
+   * @param properties - Property values identifying the edge
+   * @param edgeAlias - Edge alias
+   * @returns Merge clause
+   * @throws Error if a property value is null, undefined, or NaN
+   */
+  mergeEdge<E extends keyof T['edges']>(
+    sourceAlias: string,
+    label: E,
+    targetAlias: string,
+    properties: EdgePropertyValues<T, E> = {},
+    edgeAlias: string = 'e'
+  ): IMergeClause<T, EdgePropertyValues<T, E>> {
+    this.assertMergeProperties(edgeAlias, properties);
+
+    const mergePart = new MergePart(
+      this.createWriteEdgePattern(sourceAlias, String(label), targetAlias, properties, edgeAlias)
+    );
+    this.queryParts.push(mergePart);
+
+    return new MergeClause<T, EdgePropertyValues<T, E>>(this, mergePart, edgeAlias);
+  }
+
+  /**
+   * Add SET clause for properties of a vertex
+   */
+  set<L extends keyof T['vertices']>(target: VertexRef<T, L>, properties: VertexPropertyValues<T, L>): this;
+
+  /**
+   * Add SET clause for properties of an edge
+   */
+  set<E extends keyof T['edges']>(target: EdgeRef<T, E>, properties: EdgePropertyValues<T, E>): this;
+
+  /**
+   * Add SET clause for properties of an alias
+   */
+  set(alias: string, properties: Record<string, any>): this;
+
+  /**
+   * Implementation of the set method
+   *
+   * Each plain value is bound to a generated query parameter; null removes
+   * the property.
+   *
+   * @param target - Alias or typed reference
+   * @param properties - Property values or expressions
+   * @returns This query builder
+   */
+  set(target: string | VertexRef<T, any> | EdgeRef<T, any>, properties: Record<string, any>): this {
+    const alias = typeof target === 'string' ? target : target.name;
+    this.queryParts.push(new SetPart(compileAssignments(alias, properties, this)));
+    return this;
+  }
+
+  /**
+   * Add REMOVE clause for properties of an alias
+   *
+   * @param target - Alias or typed reference
+   * @param properties - Property names to remove
+   * @returns This query builder
+   * @throws Error if an alias or property name is not a valid identifier
+   */
+  remove(target: string | VertexRef<T, any> | EdgeRef<T, any>, ...properties: string[]): this {
+    const alias = typeof target === 'string' ? target : target.name;
+    const removals = properties.map(property => {
+      if (!PARAM_NAME_PATTERN.test(alias) || !PARAM_NAME_PATTERN.test(property)) {
+        throw new Error(`Invalid property reference '${alias}.${property}'. Expected valid identifiers.`);
+      }
+      return { alias, property };
+    });
+
+    this.queryParts.push(new RemovePart(removals));
+    return this;
+  }
+
+  /**
+   * Add DELETE clause
+   *
+   * Deleting a vertex that still has edges fails; use detachDelete() to
+   * remove the edges as well.
+   *
+   * @param aliases - Aliases to delete
+   * @returns This query builder
+   */
+  delete(...aliases: string[]): this {
+    this.queryParts.push(new DeletePart(this.assertAliases(aliases)));
+    return this;
+  }
+
+  /**
+   * Add DETACH DELETE clause
+   *
+   * @param aliases - Vertex aliases to delete together with their edges
+   * @returns This query builder
+   */
+  detachDelete(...aliases: string[]): this {
+    this.queryParts.push(new DeletePart(this.assertAliases(aliases), true));
+    return this;
+  }
+
+  /**
+   * Create a vertex pattern for CREATE and MERGE clauses
+   *
+   * @param label - Vertex label
+   * @param alias - Vertex alias
+   * @param properties - Property values or expressions
+   * @returns Vertex pattern
+   */
+  private createWriteVertexPattern(
+    label: string,
+    alias: string,
+    properties: Record<string, any>
+  ): VertexPattern {
+    const assignments = compileAssignments(alias, properties, this);
+    const propsStr = renderPropertyMap(assignments);
+
+    return {
+      type: MatchPatternType.VERTEX,
+      label,
+      alias,
+      properties: Object.fromEntries(assignments.map(item => [item.property, item.value])),
+      toCypher: () => `(${alias}:${label}${propsStr})`
+    };
+  }
+
+  /**
+   * Create an edge pattern for CREATE and MERGE clauses
+   *
+   * @param sourceAlias - Source vertex alias
+   * @param label - Edge label
+   * @param targetAlias - Target vertex alias
+   * @param properties - Property values or expressions
+   * @param edgeAlias - Edge alias
+   * @returns Edge pattern
+   */
+  private createWriteEdgePattern(
+    sourceAlias: string,
+    label: string,
+    targetAlias: string,
+    properties: Record<string, any>,
+    edgeAlias: string
+  ): EdgePattern {
+    this.assertAliases([sourceAlias, targetAlias]);
+
+    const assignments = compileAssignments(edgeAlias, properties, this);
+    const propsStr = renderPropertyMap(assignments);
+    const endpoint = (alias: string): VertexPattern => ({
+      type: MatchPatternType.VERTEX,
+      label: '',
+      alias,
+      properties: {},
+      toCypher: () => `(${alias})`
+    });
+
+    return {
+      type: MatchPatternType.EDGE,
+      label,
+      alias: edgeAlias,
+      fromVertex: endpoint(sourceAlias),
+      toVertex: endpoint(targetAlias),
+      direction: 'OUTGOING',
+      properties: Object.fromEntries(assignments.map(item => [item.property, item.value])),
+      toCypher: () => `(${sourceAlias})-[${edgeAlias}:${label}${propsStr}]->(${targetAlias})`
+    };
+  }
+
+  /**
+   * Assert that MERGE properties can be matched
+   *
+   * @param alias - Alias of the merged element
+   * @param properties - Property values identifying the element
+   * @throws Error if a property value is null, undefined, or NaN
+   */
+  private assertMergeProperties(alias: string, properties: Record<string, any>): void {
+    for (const [key, value] of Object.entries(properties)) {
+      if (value === null || value === undefined || (typeof value === 'number' && isNaN(value))) {
+        throw new Error(
+          `Invalid property value for '${key}': ${value}. ` +
+          `MERGE cannot match on null, undefined, or NaN values. ` +
+          `Set the property with onCreateSet() or onMatchSet() on '${alias}' instead.`
+        );
+      }
+    }
+  }
+
+  /**
+   * Assert that aliases are valid identifiers
+   *
+   * @param aliases - Aliases to check
+   * @returns The aliases
+   * @throws Error if no alias is given or an alias is not a valid identifier
+   */
+  private assertAliases(aliases: string[]): string[] {
+    if (aliases.length === 0) {
+      throw new Error('At least one alias is required');
+    }
+
+    for (const alias of aliases) {
+      if (!PARAM_NAME_PATTERN.test(alias)) {
+        throw new Error(`Invalid alias '${alias}'. Aliases must be valid identifiers.`);
+      }
+    }
+
+    return aliases;
+  }
+
+  /**
+   * Reference a vertex alias with schema-checked property access
+   *
+   * @param label - Vertex label
+   * @param alias - Vertex alias used in a MATCH clause
+   * @returns Vertex reference
+   */
+  vertex<L extends keyof T['vertices']>(label: L, alias: string): VertexRef<T, L> {
+    return new VertexRef<T, L>(label, alias);
+  }
+
+  /**
+   * Reference an edge alias with schema-checked property access
+   *
+   * @param label - Edge label
+   * @param alias - Edge alias used in a MATCH clause
+   * @returns Edge reference
+   */
+  edge<E extends keyof T['edges']>(label: E, alias: string): EdgeRef<T, E> {
+    return new EdgeRef<T, E>(label, alias);
+  }
+
   /**
    * Add a parameter to the query
    *
    * @param name - Parameter name
    * @param value - Parameter value
    * @returns This query builder
+   * @throws Error if the name is invalid, or a generated parameter, such as
+   * the `p_name` of a `{name}` constraint on `p`, is bound to another value
+   * under the name
    */
   withParam(name: string, value: any): this {
+    if (!PARAM_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid parameter name '${name}'. Parameter names must be valid identifiers.`);
+    }
+    if (this.generatedParams.has(name) && this.parameters[name] !== value) {
+      throw new Error(
+        `Parameter '${name}' is already bound to a value of the query's patterns. Use another parameter name.`
+      );
+    }
+
     this.parameters[name] = value;
     return this;
   }
 
+  /**
+   * Bind a value to a generated parameter name
+   *
+   * The name is derived from the base name and made unique within the query,
+   * so it can be referenced as `$name` in the generated Cypher.
+   *
+   * @param baseName - Base for the parameter name, e.g. `p_name`
+   * @param value - Parameter value
+   * @returns Parameter name the value is bound to
+   */
+  bindParam(baseName: string, value: any): string {
+    let base = baseName.replace(/[^A-Za-z0-9_]/g, '_');
+    if (!PARAM_NAME_PATTERN.test(base)) {
+      base = `p_${base}`;
+    }
+
+    let name = base;
+    let counter = 2;
+    while (name in this.parameters && this.parameters[name] !== value) {
+      name = `${base}_${counter++}`;
+    }
+
+    this.parameters[name] = value;
+    this.generatedParams.add(name);
+    return name;
+  }
+
   /**
    * Set a parameter in the age_params temporary table
    *
@@ -411,6 +795,10 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
    * @returns This query builder
    */
   withAgeParam(key: string, alias: string): this {
+    if (!PARAM_NAME_PATTERN.test(key)) {
+      throw new Error(`Invalid parameter name '${key}'. Parameter names must be valid identifiers.`);
+    }
+
     // Add a WITH clause that calls the get_age_param function
     this.queryParts.push(new WithPart([`age_schema_client.get_age_param('${key}') AS ${alias}`]));
     return this;
@@ -450,6 +838,7 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
 
       const params = this.getParameters();
       const graphName = options.graphName || this.graphName;
+      const returnColumns = this.getReturnColumns();
 
       if (!graphName) {
         throw new Error('Graph name is required for executing Cypher queries');
@@ -469,6 +858,8 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
             {
               timeout: options.timeout,
               maxRetries: options.maxRetries,
+              returnColumns,
+              readOnly: options.readOnly ?? true,
             }
           );
 
@@ -498,35 +889,18 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
         }
       }
 
-      // For queries with parameters, use the WITH clause approach
-      // This is more compatible with Apache AGE
-      console.log('Executing Cypher query with parameters using WITH clause');
-
-      // Add a WITH clause at the beginning of the query with all parameters
-      const withClauseParams = Object.entries(params)
-        .map(([key, value]) => {
-          // Convert the value to a string representation for the WITH clause
-          let valueStr: string;
-          if (typeof value === 'string') {
-            valueStr = `'${value.replace(/'/g, "''")}'`;
-          } else if (value === null) {
-            valueStr = 'null';
-          } else if (typeof value === 'number') {
-            valueStr = value.toString();
-          } else if (typeof value === 'boolean') {
-            valueStr = value ? 'true' : 'false';
-          } else if (Array.isArray(value) || typeof value === 'object') {
-            valueStr = `'${JSON.stringify(value)}'`;
-          } else {
-            valueStr = `'${value}'`;
-          }
+      // For queries with parameters, bind the values through the age_params table.
+      // The values are written with parameterized SQL and the Cypher text only
+      // references them via get_age_param(), never as literals. The table is
+      // local to this connection, so these queries never run on a replica.
+      console.log('Executing Cypher query with parameters using age_params');
 
-          return `${valueStr} AS ${key}`;
-        })
-        .join(', ');
+      const paramKeys = Object.keys(params);
+      for (const key of paramKeys) {
+        await this.setParam(key, params[key]);
+      }
 
-      // Prepend the WITH clause to the Cypher query
-      const cypher = `WITH ${withClauseParams}\n${this.toCypher()}`;
+      const cypher = this.bindAgeParamReferences(this.toCypher(), paramKeys);
       console.log('Modified Cypher query:', cypher);
 
       try {
@@ -538,6 +912,7 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
           {
             timeout: options.timeout,
             maxRetries: options.maxRetries,
+            returnColumns,
           }
         );
 
@@ -555,7 +930,7 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
         const contextError = new Error(
           `Error executing Cypher query with parameters: ${error?.message || 'Unknown error'}\n` +
           `Cypher: ${cypher}\n` +
-          `Parameters: ${JSON.stringify(params)}\n` +
+          `Parameters: ${paramKeys.join(', ')}\n` +
           `Graph: ${graphName}`
         );
 
@@ -565,6 +940,8 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
         }
 
         throw contextError;
+      } finally {
+        await this.clearAgeParams(paramKeys);
       }
     } catch (error) {
       // Re-throw the error without logging (it will be caught by the caller)
@@ -575,6 +952,108 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
     }
   }
 
+  /**
+   * Execute the query and stream the result rows
+   *
+   * Rows are read through a server-side cursor in batches of
+   * `options.batchSize`, so large result sets are not held in memory.
+   * Parameters are bound through the age_params table as in execute() and
+   * removed when the stream ends, including when iteration stops early.
+   *
+   * @example
+   * ```typescript
+   * for await (const row of queryBuilder.match('Person', 'p').return('p.name AS name').stream()) {
+   *   console.log(row.name);
+   * }
+   * ```
+   *
+   * @param options - Query execution options
+   * @returns Async iterable of result rows
+   * @throws Error if query validation fails
+   */
+  async *stream<R = any>(options: QueryExecutionOptions = {}): AsyncGenerator<R, void, undefined> {
+    let paramKeys: string[] = [];
+
+    try {
+      if (options.validate !== false) {
+        const validationErrors = this.validateQuery();
+        if (validationErrors.length > 0) {
+          throw new Error(`Query validation failed:\n${validationErrors.join('\n')}`);
+        }
+      }
+
+      const graphName = options.graphName || this.graphName;
+      if (!graphName) {
+        throw new Error('Graph name is required for executing Cypher queries');
+      }
+
+      const params = this.getParameters();
+      paramKeys = Object.keys(params);
+      for (const key of paramKeys) {
+        await this.setParam(key, params[key]);
+      }
+
+      const cypher = this.bindAgeParamReferences(this.toCypher(), paramKeys);
+
+      yield* this.queryExecutor.streamCypher<R>(cypher, {}, graphName, {
+        batchSize: options.batchSize,
+        returnColumns: this.getReturnColumns(),
+      });
+    } finally {
+      if (paramKeys.length > 0) {
+        await this.clearAgeParams(paramKeys);
+      }
+      this.reset();
+    }
+  }
+
+  /**
+   * Get the result column names from the last RETURN clause
+   *
+   * @returns Column names, or undefined to let the executor infer them
+   */
+  private getReturnColumns(): string[] | undefined {
+    const returnParts = this.queryParts.filter(
+      (part): part is ReturnPart => part instanceof ReturnPart
+    );
+    return returnParts[returnParts.length - 1]?.getColumnNames();
+  }
+
+  /**
+   * Replace `$name` parameter references with get_age_param() lookups
+   *
+   * String literals and backquoted names are matched first and kept as
+   * they are, so `$name` inside them is not treated as a reference.
+   *
+   * @param cypher - Cypher query
+   * @param paramKeys - Names of the parameters stored in age_params
+   * @returns Cypher query referencing the age_params table
+   */
+  private bindAgeParamReferences(cypher: string, paramKeys: string[]): string {
+    const keys = new Set(paramKeys);
+    return cypher.replace(
+      /'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`(?:[^`]|``)*`|\$([A-Za-z_][A-Za-z0-9_]*)\b/g,
+      (match, name: string | undefined) =>
+        name !== undefined && keys.has(name) ? `age_schema_client.get_age_param('${name}')` : match
+    );
+  }
+
+  /**
+   * Remove parameters stored for a query from the age_params table
+   *
+   * @param paramKeys - Names of the parameters to remove
+   */
+  private async clearAgeParams(paramKeys: string[]): Promise<void> {
+    try {
+      await this.queryExecutor.executeSQL(
+        'DELETE FROM age_params WHERE key = ANY($1)',
+        [paramKeys]
+      );
+    } catch (error) {
+      console.warn('Failed to clear age_params after query execution:', error);
+    }
+  }
+
   /**
    * Reset the query builder state
    *
@@ -583,6 +1062,7 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
   reset(): this {
     this.queryParts = [];
     this.parameters = {};
+    this.generatedParams.clear();
     return this;
   }
 
@@ -608,8 +1088,13 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
     const params = { ...this.parameters };
 
     for (const part of this.queryParts) {
-      const partParams = part.getParameters();
-      Object.assign(params, partParams);
+      // Parts report parameter references with undefined values; those must
+      // not overwrite values bound through withParam()
+      for (const [key, value] of Object.entries(part.getParameters())) {
+        if (value !== undefined) {
+          params[key] = value;
+        }
+      }
     }
 
     return params;
@@ -622,6 +1107,7 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
    */
   validateSchema(): string[] {
     const errors: string[] = [];
+    const aliasLabels = this.collectAliasLabels();
 
     // Validate vertex labels
     for (const part of this.queryParts) {
@@ -692,6 +1178,185 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
             }
           }
         }
+      } else if (part instanceof CreatePart) {
+        for (const pattern of part.getPatterns()) {
+          errors.push(...this.validateWritePattern(pattern, aliasLabels, {}));
+        }
+      } else if (part instanceof MergePart) {
+        const onCreate = Object.fromEntries(part.getOnCreate().map(item => [item.property, item.value]));
+        errors.push(...this.validateWritePattern(part.getPatterns()[0], aliasLabels, onCreate));
+        errors.push(...this.validateAssignments([...part.getOnCreate(), ...part.getOnMatch()], aliasLabels));
+      } else if (part instanceof SetPart) {
+        errors.push(...this.validateAssignments(part.getAssignments(), aliasLabels));
+      } else if (part instanceof RemovePart) {
+        for (const { alias, property } of part.getRemovals()) {
+          const target = aliasLabels.get(alias);
+          const definition = target && this.getLabelDefinition(target);
+          if (!definition) {
+            continue;
+          }
+
+          if (!definition.properties[property]) {
+            errors.push(`Invalid property '${property}' for ${target.kind} label '${target.label}'`);
+          } else if (definition.required?.includes(property)) {
+            errors.push(`Cannot remove required property '${property}' from ${target.kind} label '${target.label}'`);
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Collect the labels bound to aliases by MATCH, CREATE and MERGE patterns
+   *
+   * @returns Labels by alias
+   */
+  private collectAliasLabels(): Map<string, AliasLabel> {
+    const aliasLabels = new Map<string, AliasLabel>();
+
+    const addVertex = (pattern: VertexPattern) => {
+      if (pattern.alias && pattern.label) {
+        aliasLabels.set(pattern.alias, { kind: 'vertex', label: pattern.label });
+      }
+    };
+
+    for (const part of this.queryParts) {
+      if (part instanceof MatchPart || part instanceof CreatePart || part instanceof MergePart) {
+        for (const pattern of part.getPatterns()) {
+          if (pattern.type === MatchPatternType.VERTEX) {
+            addVertex(pattern as VertexPattern);
+          } else if (pattern.type === MatchPatternType.EDGE) {
+            const edgePattern = pattern as EdgePattern;
+            if (edgePattern.alias && edgePattern.label) {
+              aliasLabels.set(edgePattern.alias, { kind: 'edge', label: edgePattern.label });
+            }
+            addVertex(edgePattern.fromVertex);
+            addVertex(edgePattern.toVertex);
+          }
+        }
+      }
+    }
+
+    return aliasLabels;
+  }
+
+  /**
+   * Get the schema definition of an alias label
+   *
+   * @param target - Alias label
+   * @returns Vertex or edge definition, if the label exists
+   */
+  private getLabelDefinition(target: AliasLabel) {
+    return target.kind === 'vertex'
+      ? this.schema.vertices[target.label]
+      : this.schema.edges[target.label];
+  }
+
+  /**
+   * Validate a CREATE or MERGE pattern against the schema
+   *
+   * @param pattern - Vertex or edge pattern
+   * @param aliasLabels - Labels bound to aliases
+   * @param onCreate - Additional properties set when the element is created
+   * @returns Validation errors
+   */
+  private validateWritePattern(
+    pattern: MatchPattern,
+    aliasLabels: Map<string, AliasLabel>,
+    onCreate: Record<string, any>
+  ): string[] {
+    const isEdge = pattern.type === MatchPatternType.EDGE;
+    const writePattern = pattern as VertexPattern | EdgePattern;
+    const target: AliasLabel = { kind: isEdge ? 'edge' : 'vertex', label: writePattern.label };
+    const definition = this.getLabelDefinition(target);
+
+    if (!definition) {
+      return [`Invalid ${target.kind} label: ${target.label}`];
+    }
+
+    const properties = writePattern.properties || {};
+    const errors = this.validatePropertyValues(target, properties);
+
+    for (const required of definition.required || []) {
+      if (properties[required] === undefined && onCreate[required] === undefined) {
+        errors.push(`Missing required property '${required}' for ${target.kind} label '${target.label}'`);
+      }
+    }
+
+    if (isEdge) {
+      const edgePattern = pattern as EdgePattern;
+      const edgeDef = this.schema.edges[edgePattern.label];
+      const endpoints: Array<['source' | 'target', string, unknown]> = [
+        ['source', edgePattern.fromVertex.alias, edgeDef.fromVertex],
+        ['target', edgePattern.toVertex.alias, edgeDef.toVertex],
+      ];
+
+      for (const [role, alias, expected] of endpoints) {
+        const bound = aliasLabels.get(alias);
+        if (typeof expected === 'string' && bound?.kind === 'vertex' && bound.label !== expected) {
+          errors.push(`Invalid ${role} vertex label for edge '${edgePattern.label}': expected '${expected}', got '${bound.label}'`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate SET assignments against the schema
+   *
+   * Assignments to aliases without a known label are not checked.
+   *
+   * @param assignments - Property assignments
+   * @param aliasLabels - Labels bound to aliases
+   * @returns Validation errors
+   */
+  private validateAssignments(
+    assignments: PropertyAssignment[],
+    aliasLabels: Map<string, AliasLabel>
+  ): string[] {
+    const errors: string[] = [];
+
+    for (const assignment of assignments) {
+      const target = aliasLabels.get(assignment.alias);
+      if (target && this.getLabelDefinition(target)) {
+        errors.push(...this.validatePropertyValues(target, { [assignment.property]: assignment.value }));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate property names and value types for a label
+   *
+   * Expression values are only checked for the property name.
+   *
+   * @param target - Vertex or edge label
+   * @param properties - Property values
+   * @returns Validation errors
+   */
+  private validatePropertyValues(target: AliasLabel, properties: Record<string, any>): string[] {
+    const errors: string[] = [];
+    const definition = this.getLabelDefinition(target);
+    const validator = new SchemaValidator(this.schema);
+
+    for (const [name, value] of Object.entries(properties)) {
+      const propertyDef = definition.properties[name];
+      if (!propertyDef) {
+        errors.push(`Invalid property '${name}' for ${target.kind} label '${target.label}'`);
+        continue;
+      }
+
+      if (value instanceof Expression) {
+        continue;
+      }
+
+      const result = validator.validateProperty(name, propertyDef, value, false);
+      for (const error of result.errors) {
+        errors.push(`Invalid value for property '${name}' of ${target.kind} label '${target.label}': ${error.message}`);
       }
     }
 
@@ -737,6 +1402,23 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
             }
           }
         }
+      } else if (part instanceof CreatePart || part instanceof MergePart) {
+        // Written patterns define their own alias; edge endpoints must be bound earlier
+        const clause = part instanceof CreatePart ? 'CREATE clause' : 'MERGE clause';
+        for (const pattern of part.getPatterns()) {
+          const writePattern = pattern as VertexPattern | EdgePattern;
+          definedVariables.add(writePattern.alias);
+
+          if (pattern.type === MatchPatternType.EDGE) {
+            const edgePattern = pattern as EdgePattern;
+            for (const endpoint of [edgePattern.fromVertex.alias, edgePattern.toVertex.alias]) {
+              if (!referencedVariables.has(endpoint)) {
+                referencedVariables.set(endpoint, []);
+              }
+              referencedVariables.get(endpoint)!.push(clause);
+            }
+          }
+        }
       }
     }
 
@@ -790,6 +1472,25 @@ export class QueryBuilder<T extends SchemaDefinition> implements IQueryBuilder<T
       }
     }
 
+    // Write clauses reference the aliases they update or delete
+    for (const part of this.queryParts) {
+      let aliases: string[] = [];
+      if (part instanceof SetPart) {
+        aliases = part.getAssignments().map(item => item.alias);
+      } else if (part instanceof RemovePart) {
+        aliases = part.getRemovals().map(item => item.alias);
+      } else if (part instanceof DeletePart) {
+        aliases = part.getAliases();
+      }
+
+      for (const alias of aliases) {
+        if (!referencedVariables.has(alias)) {
+          referencedVariables.set(alias, []);
+        }
+        referencedVariables.get(alias)!.push(`${part.type} clause`);
+      }
+    }
+
     // Step 3: Check for undefined variables
     for (const [varRef, contexts] of referencedVariables) {
       if (!definedVariables.has(varRef) && !this.isBuiltInFunction(varRef)) {
@@ -10,6 +10,7 @@ import {
   IMatchClause,
   IEdgeMatchClause,
   IReturnClause,
+  IMergeClause,
   MatchPatternType,
   VertexPattern,
   EdgePattern,
@@ -17,7 +18,19 @@ import {
   QueryExecutionOptions,
   QueryBuilderResult,
 } from './types';
-import { MatchPart, ReturnPart } from './parts';
+import { MatchPart, ReturnPart, MergePart } from './parts';
+import {
+  ConditionInput,
+  ProjectionInput,
+  OrderInput,
+  PropertyExpression,
+  PropertyValueOf,
+  VertexPropertyName,
+  EdgePropertyName,
+  VertexRef,
+  EdgeRef,
+  compileAssignments,
+} from './expressions';
 
 /**
  * Match clause implementation
@@ -42,6 +55,8 @@ export class MatchClause<
   /**
    * Add property constraints to the vertex pattern
    *
+   * Each value is bound to a generated query parameter (e.g. `$p_name`).
+   *
    * @param properties - Object with property-value pairs
    * @returns This match clause
    * @throws Error if any property value is null, undefined, or NaN
@@ -64,11 +79,20 @@ export class MatchClause<
       }
     }
 
-    // Merge the provided properties with existing ones
+    // Merge the provided properties with existing ones and bind each value
+    // to a query parameter so it is never interpolated into the Cypher text
     this.vertexPattern.properties = {
       ...this.vertexPattern.properties,
       ...properties
     };
+    this.vertexPattern.propertyParams = this.vertexPattern.propertyParams || {};
+
+    for (const [key, value] of Object.entries(properties)) {
+      this.vertexPattern.propertyParams[key] = this.queryBuilder.bindParam(
+        `${this.vertexPattern.alias}_${key}`,
+        value
+      );
+    }
 
     return this;
   }
@@ -80,12 +104,33 @@ export class MatchClause<
    * @param params - Parameters
    * @returns This match clause
    */
-  where(condition: string, params?: Record<string, any>): this {
+  where(condition: ConditionInput, params?: Record<string, any>): this {
     // Add WHERE clause to the query builder
     this.queryBuilder.where(condition, params);
     return this;
   }
 
+  /**
+   * Reference a property of the matched vertex
+   *
+   * @param property - Property name defined by the schema for this label
+   * @returns Property expression
+   */
+  prop<K extends VertexPropertyName<T, L>>(
+    property: K
+  ): PropertyExpression<PropertyValueOf<T['vertices'][L]['properties'][K]>> {
+    return this.ref().prop(property);
+  }
+
+  /**
+   * Reference the matched vertex
+   *
+   * @returns Vertex reference
+   */
+  ref(): VertexRef<T, L> {
+    return new VertexRef<T, L>(this.vertexPattern.label as L, this.vertexPattern.alias);
+  }
+
   /**
    * Add outgoing edge
    *
@@ -257,7 +302,7 @@ export class MatchClause<
     sourceAlias: string,
     edgeLabel: E,
     targetAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Add MATCH clause for an edge between two previously matched vertices with an edge alias (internally calls done() first)
@@ -273,7 +318,7 @@ export class MatchClause<
     edgeLabel: E,
     targetAlias: string,
     edgeAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Implementation of the match method
@@ -299,7 +344,7 @@ export class MatchClause<
    * @param expressions - Return expressions
    * @returns Query builder
    */
-  return(...expressions: string[]): IQueryBuilder<T> {
+  return(...expressions: ProjectionInput[]): IQueryBuilder<T> {
     // First, return to the query builder
     const queryBuilder = this.done();
     
@@ -319,7 +364,10 @@ export class MatchClause<
 /**
  * Edge match clause implementation
  */
-export class EdgeMatchClause<T extends SchemaDefinition> implements IEdgeMatchClause<T> {
+export class EdgeMatchClause<
+  T extends SchemaDefinition,
+  E extends keyof T['edges'] = keyof T['edges']
+> implements IEdgeMatchClause<T, E> {
   /**
    * Create a new edge match clause
    *
@@ -336,6 +384,8 @@ export class EdgeMatchClause<T extends SchemaDefinition> implements IEdgeMatchCl
   /**
    * Add property constraints to the edge pattern
    *
+   * Each value is bound to a generated query parameter (e.g. `$e_since`).
+   *
    * @param properties - Object with property-value pairs
    * @returns This edge match clause
    * @throws Error if any property value is null, undefined, or NaN
@@ -358,11 +408,20 @@ export class EdgeMatchClause<T extends SchemaDefinition> implements IEdgeMatchCl
       }
     }
 
-    // Merge the provided properties with existing ones
+    // Merge the provided properties with existing ones and bind each value
+    // to a query parameter so it is never interpolated into the Cypher text
     this.edgePattern.properties = {
       ...this.edgePattern.properties,
       ...properties
     };
+    this.edgePattern.propertyParams = this.edgePattern.propertyParams || {};
+
+    for (const [key, value] of Object.entries(properties)) {
+      this.edgePattern.propertyParams[key] = this.queryBuilder.bindParam(
+        `${this.edgePattern.alias}_${key}`,
+        value
+      );
+    }
 
     return this;
   }
@@ -374,19 +433,40 @@ export class EdgeMatchClause<T extends SchemaDefinition> implements IEdgeMatchCl
    * @param params - Parameters
    * @returns This edge match clause
    */
-  where(condition: string, params?: Record<string, any>): this {
+  where(condition: ConditionInput, params?: Record<string, any>): this {
     // Add WHERE clause to the query builder
     this.queryBuilder.where(condition, params);
     return this;
   }
 
+  /**
+   * Reference a property of the matched edge
+   *
+   * @param property - Property name defined by the schema for this label
+   * @returns Property expression
+   */
+  prop<K extends EdgePropertyName<T, E>>(
+    property: K
+  ): PropertyExpression<PropertyValueOf<T['edges'][E]['properties'][K]>> {
+    return this.ref().prop(property);
+  }
+
+  /**
+   * Reference the matched edge
+   *
+   * @returns Edge reference
+   */
+  ref(): EdgeRef<T, E> {
+    return new EdgeRef<T, E>(this.edgePattern.label as E, this.edgePattern.alias);
+  }
+
   /**
    * Add RETURN clause
    *
    * @param expressions - Return expressions
    * @returns This edge match clause
    */
-  return(...expressions: string[]): this {
+  return(...expressions: ProjectionInput[]): this {
     this.queryBuilder.return(...expressions);
     return this;
   }
@@ -398,7 +478,7 @@ export class EdgeMatchClause<T extends SchemaDefinition> implements IEdgeMatchCl
    * @param direction - Order direction
    * @returns This edge match clause
    */
-  orderBy(expression: string, direction?: OrderDirection): this {
+  orderBy(expression: OrderInput, direction?: OrderDirection): this {
     this.queryBuilder.orderBy(expression, direction);
     return this;
   }
@@ -431,7 +511,7 @@ export class EdgeMatchClause<T extends SchemaDefinition> implements IEdgeMatchCl
    * @param expressions - With expressions
    * @returns This edge match clause
    */
-  with(...expressions: string[]): this {
+  with(...expressions: ProjectionInput[]): this {
     this.queryBuilder.with(...expressions);
     return this;
   }
@@ -500,7 +580,7 @@ export class EdgeMatchClause<T extends SchemaDefinition> implements IEdgeMatchCl
     sourceAlias: string,
     edgeLabel: E,
     targetAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Add MATCH clause for an edge between two previously matched vertices with an edge alias (internally calls done() first)
@@ -516,7 +596,7 @@ export class EdgeMatchClause<T extends SchemaDefinition> implements IEdgeMatchCl
     edgeLabel: E,
     targetAlias: string,
     edgeAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Implementation of the match method
@@ -545,6 +625,76 @@ export class EdgeMatchClause<T extends SchemaDefinition> implements IEdgeMatchCl
   }
 }
 
+/**
+ * Merge clause implementation
+ */
+export class MergeClause<
+  T extends SchemaDefinition,
+  P extends Record<string, any> = Record<string, any>
+> implements IMergeClause<T, P> {
+  /**
+   * Create a new merge clause
+   *
+   * @param queryBuilder - Query builder
+   * @param mergePart - Merge part
+   * @param alias - Alias of the merged vertex or edge
+   */
+  constructor(
+    private queryBuilder: IQueryBuilder<T>,
+    private mergePart: MergePart,
+    private alias: string
+  ) {}
+
+  /**
+   * Add ON CREATE SET assignments for the merged element
+   *
+   * Each plain value is bound to a generated query parameter.
+   *
+   * @param properties - Property values set when the element is created
+   * @returns This merge clause
+   */
+  onCreateSet(properties: P): this {
+    for (const assignment of compileAssignments(this.alias, properties, this.queryBuilder)) {
+      this.mergePart.addOnCreate(assignment);
+    }
+    return this;
+  }
+
+  /**
+   * Add ON MATCH SET assignments for the merged element
+   *
+   * Each plain value is bound to a generated query parameter.
+   *
+   * @param properties - Property values set when the element already exists
+   * @returns This merge clause
+   */
+  onMatchSet(properties: P): this {
+    for (const assignment of compileAssignments(this.alias, properties, this.queryBuilder)) {
+      this.mergePart.addOnMatch(assignment);
+    }
+    return this;
+  }
+
+  /**
+   * Add RETURN clause (internally calls done() first)
+   *
+   * @param expressions - Return expressions
+   * @returns Query builder
+   */
+  return(...expressions: ProjectionInput[]): IQueryBuilder<T> {
+    return this.done().return(...expressions);
+  }
+
+  /**
+   * Return to the main query builder
+   *
+   * @returns Query builder
+   */
+  done(): IQueryBuilder<T> {
+    return this.queryBuilder;
+  }
+}
+
 /**
  * Return clause implementation
  */
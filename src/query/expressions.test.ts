@@ -0,0 +1,195 @@
+/**
+ * Tests for the query expression DSL
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QueryBuilder } from './builder';
+import { OrderDirection } from './types';
+import {
+  prop,
+  param,
+  variable,
+  and,
+  or,
+  not,
+  coalesce,
+  caseWhen,
+  fn,
+} from './expressions';
+import { QueryExecutor } from '../db/query';
+import { SchemaDefinition } from '../schema/types';
+
+// Mock schema definition
+const mockSchema: SchemaDefinition = {
+  version: '1.0.0',
+  vertices: {
+    Person: {
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'number' },
+        nickname: { type: 'string' }
+      },
+      required: ['name']
+    }
+  },
+  edges: {
+    KNOWS: {
+      properties: {
+        since: { type: 'number' }
+      },
+      fromVertex: 'Person',
+      toVertex: 'Person'
+    }
+  }
+} as unknown as SchemaDefinition;
+
+// Mock query executor
+const mockExecutor = {
+  executeCypher: vi.fn().mockResolvedValue({ rows: [] }),
+  executeSQL: vi.fn().mockResolvedValue({ rows: [] })
+} as unknown as QueryExecutor;
+
+describe('Query expression DSL', () => {
+  let queryBuilder: QueryBuilder<typeof mockSchema>;
+
+  beforeEach(() => {
+    queryBuilder = new QueryBuilder(mockSchema, mockExecutor, 'test_graph');
+  });
+
+  it('should compile comparisons and bind values as parameters', () => {
+    const cypher = queryBuilder
+      .match('Person', 'p')
+      .where(prop('p', 'age').gt(param(30)).and(prop('p', 'name').startsWith('A')))
+      .return('p.name AS name')
+      .toCypher();
+
+    expect(cypher).toContain('WHERE (p.age > $param) AND (p.name STARTS WITH $p_name)');
+    expect(queryBuilder.getParameters()).toEqual({ param: 30, p_name: 'A' });
+  });
+
+  it('should name parameters after the compared property', () => {
+    const cypher = queryBuilder
+      .match('Person', 'p')
+      .where(prop('p', 'age').gte(18))
+      .return('p')
+      .toCypher();
+
+    expect(cypher).toContain('WHERE p.age >= $p_age');
+    expect(queryBuilder.getParameters()).toEqual({ p_age: 18 });
+  });
+
+  it('should support named parameters', () => {
+    const cypher = queryBuilder
+      .match('Person', 'p')
+      .where(prop('p', 'age').lt(param(65, 'maxAge')))
+      .return('p')
+      .toCypher();
+
+    expect(cypher).toContain('WHERE p.age < $maxAge');
+    expect(queryBuilder.getParameters()).toEqual({ maxAge: 65 });
+  });
+
+  it('should compile logical operators', () => {
+    const cypher = queryBuilder
+      .match('Person', 'p')
+      .where(or(prop('p', 'age').isNull(), not(prop('p', 'name').contains('x'))))
+      .return('p')
+      .toCypher();
+
+    expect(cypher).toContain('WHERE (p.age IS NULL) OR (NOT (p.name CONTAINS $p_name))');
+  });
+
+  it('should compile aliased projections and functions in RETURN', () => {
+    const cypher = queryBuilder
+      .match('Person', 'p')
+      .return(
+        prop('p', 'name').as('name'),
+        fn.count().as('total'),
+        fn.count(variable('p'), { distinct: true }).as('people'),
+        coalesce(prop('p', 'nickname'), prop('p', 'name')).as('display')
+      )
+      .toCypher();
+
+    expect(cypher).toContain(
+      'RETURN p.name AS name, count(*) AS total, count(DISTINCT p) AS people, ' +
+      'coalesce(p.nickname, p.name) AS display'
+    );
+  });
+
+  it('should compile CASE expressions', () => {
+    const cypher = queryBuilder
+      .match('Person', 'p')
+      .return(
+        caseWhen<string>()
+          .when(prop('p', 'age').lt(18), 'minor')
+          .else('adult')
+          .as('group')
+      )
+      .toCypher();
+
+    expect(cypher).toContain('RETURN CASE WHEN p.age < $p_age THEN $case_value ELSE $case_value_2 END AS group');
+    expect(queryBuilder.getParameters()).toEqual({
+      p_age: 18,
+      case_value: 'minor',
+      case_value_2: 'adult'
+    });
+  });
+
+  it('should compile expressions in ORDER BY and WITH', () => {
+    const cypher = queryBuilder
+      .match('Person', 'p')
+      .done()
+      .with(variable('p'), fn.toLower(prop('p', 'name')).as('lowerName'))
+      .return('p')
+      .orderBy(prop('p', 'age'), OrderDirection.DESC)
+      .toCypher();
+
+    expect(cypher).toContain('WITH p, toLower(p.name) AS lowerName');
+    expect(cypher).toContain('ORDER BY p.age DESC');
+  });
+
+  it('should reference schema properties through match clauses', () => {
+    const person = queryBuilder.match('Person', 'p');
+    const cypher = person
+      .where(person.prop('age').gt(21))
+      .return(person.prop('name').as('name'))
+      .toCypher();
+
+    expect(cypher).toContain('WHERE p.age > $p_age');
+    expect(cypher).toContain('RETURN p.name AS name');
+  });
+
+  it('should reference edge properties through edge match clauses', () => {
+    queryBuilder.match('Person', 'a').done().match('Person', 'b');
+    const knows = queryBuilder.match('a', 'KNOWS', 'b', 'k');
+    const cypher = knows
+      .where(knows.prop('since').lte(2020))
+      .return(knows.ref().as('rel'))
+      .toCypher();
+
+    expect(cypher).toContain('WHERE k.since <= $k_since');
+    expect(cypher).toContain('RETURN k AS rel');
+  });
+
+  it('should provide typed references from the query builder', () => {
+    const person = queryBuilder.vertex('Person', 'p');
+    const cypher = queryBuilder
+      .match('Person', 'p')
+      .done()
+      .return(person.prop('name').as('name'), fn.id(person).as('id'))
+      .toCypher();
+
+    expect(cypher).toContain('RETURN p.name AS name, id(p) AS id');
+  });
+
+  it('should reject invalid identifiers', () => {
+    expect(() => prop('p', 'name) RETURN 1 //')).toThrow(/Invalid property name/);
+    expect(() => prop('p;', 'name')).toThrow(/Invalid alias/);
+    expect(() => prop('p', 'name').as('x y')).toThrow(/Invalid alias/);
+    expect(() => fn.call('drop graph')).toThrow(/Invalid function name/);
+  });
+
+  it('should require at least one condition in and()', () => {
+    expect(() => and()).toThrow(/at least one condition/);
+  });
+});
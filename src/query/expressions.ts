@@ -0,0 +1,894 @@
+/**
+ * Typed expression DSL for query building
+ *
+ * Expressions are composable objects that compile into Cypher strings for the
+ * existing WHERE, RETURN, ORDER BY and WITH query parts. Values are never
+ * written into the Cypher text; they are bound as query parameters when the
+ * expression is compiled.
+ *
+ * @example
+ * ```typescript
+ * queryBuilder
+ *   .match('Person', 'p')
+ *   .where(prop('p', 'age').gt(param(30)).and(prop('p', 'active').eq(true)))
+ *   .return(prop('p', 'name').as('name'), fn.count().as('total'));
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { SchemaDefinition, PropertyDefinition, PropertyType } from '../schema/types';
+import type { PropertyAssignment } from './types';
+
+/**
+ * Pattern for valid Cypher identifiers used by the DSL
+ */
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Assert that a name is a valid identifier
+ *
+ * @param name - Name to check
+ * @param kind - Kind of name, used in the error message
+ * @throws Error if the name is not a valid identifier
+ */
+function assertIdentifier(name: string, kind: string): void {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new Error(`Invalid ${kind} '${name}'. Expected a valid identifier.`);
+  }
+}
+
+/**
+ * Context used to compile expressions
+ */
+export interface ExpressionContext {
+  /**
+   * Bind a value to a generated parameter name
+   *
+   * @param baseName - Base for the parameter name
+   * @param value - Parameter value
+   * @returns Parameter name the value is bound to
+   */
+  bindParam(baseName: string, value: any): string;
+}
+
+/**
+ * Value accepted where an expression is expected
+ *
+ * Plain values are bound as parameters.
+ */
+export type Operand<V = any> = Expression<V> | V;
+
+/**
+ * TypeScript value type of a schema property definition
+ */
+export type PropertyValueOf<P> = P extends PropertyDefinition
+  ? P['type'] extends PropertyType.STRING ? string
+  : P['type'] extends PropertyType.INTEGER | PropertyType.FLOAT | PropertyType.NUMBER ? number
+  : P['type'] extends PropertyType.BOOLEAN ? boolean
+  : P['type'] extends PropertyType.DATE | PropertyType.DATETIME ? Date | string
+  : P['type'] extends PropertyType.ARRAY ? any[]
+  : P['type'] extends PropertyType.OBJECT ? Record<string, any>
+  : any
+  : any;
+
+/**
+ * Property names of a vertex label
+ */
+export type VertexPropertyName<
+  T extends SchemaDefinition,
+  L extends keyof T['vertices']
+> = keyof T['vertices'][L]['properties'] & string;
+
+/**
+ * Property names of an edge label
+ */
+export type EdgePropertyName<
+  T extends SchemaDefinition,
+  E extends keyof T['edges']
+> = keyof T['edges'][E]['properties'] & string;
+
+/**
+ * Property values of a vertex label, used by write clauses
+ */
+export type VertexPropertyValues<
+  T extends SchemaDefinition,
+  L extends keyof T['vertices']
+> = {
+  [K in VertexPropertyName<T, L>]?: Operand<PropertyValueOf<T['vertices'][L]['properties'][K]> | null>;
+};
+
+/**
+ * Property values of an edge label, used by write clauses
+ */
+export type EdgePropertyValues<
+  T extends SchemaDefinition,
+  E extends keyof T['edges']
+> = {
+  [K in EdgePropertyName<T, E>]?: Operand<PropertyValueOf<T['edges'][E]['properties'][K]> | null>;
+};
+
+/**
+ * Base class for expressions
+ *
+ * The type parameter records the value type the expression evaluates to and
+ * is used to type-check operands.
+ */
+export abstract class Expression<V = any> {
+  /**
+   * Value type marker (type-level only)
+   */
+  declare readonly __valueType?: V;
+
+  /**
+   * Compile the expression into a Cypher string
+   *
+   * @param context - Compilation context
+   * @returns Cypher string
+   */
+  abstract toCypher(context: ExpressionContext): string;
+
+  /**
+   * Base name used for parameters bound against this expression
+   *
+   * @returns Parameter base name
+   */
+  paramHint(): string {
+    return 'param';
+  }
+
+  /**
+   * Equal to
+   */
+  eq(other: Operand<V>): Expression<boolean> {
+    return this.compare('=', other);
+  }
+
+  /**
+   * Not equal to
+   */
+  neq(other: Operand<V>): Expression<boolean> {
+    return this.compare('<>', other);
+  }
+
+  /**
+   * Greater than
+   */
+  gt(other: Operand<V>): Expression<boolean> {
+    return this.compare('>', other);
+  }
+
+  /**
+   * Greater than or equal to
+   */
+  gte(other: Operand<V>): Expression<boolean> {
+    return this.compare('>=', other);
+  }
+
+  /**
+   * Less than
+   */
+  lt(other: Operand<V>): Expression<boolean> {
+    return this.compare('<', other);
+  }
+
+  /**
+   * Less than or equal to
+   */
+  lte(other: Operand<V>): Expression<boolean> {
+    return this.compare('<=', other);
+  }
+
+  /**
+   * Contained in a list
+   */
+  in(list: Operand<V[]>): Expression<boolean> {
+    return this.compare('IN', list);
+  }
+
+  /**
+   * String starts with
+   */
+  startsWith(other: Operand<string>): Expression<boolean> {
+    return this.compare('STARTS WITH', other);
+  }
+
+  /**
+   * String ends with
+   */
+  endsWith(other: Operand<string>): Expression<boolean> {
+    return this.compare('ENDS WITH', other);
+  }
+
+  /**
+   * String contains
+   */
+  contains(other: Operand<string>): Expression<boolean> {
+    return this.compare('CONTAINS', other);
+  }
+
+  /**
+   * Is null
+   */
+  isNull(): Expression<boolean> {
+    return new PostfixExpression<boolean>(this, 'IS NULL');
+  }
+
+  /**
+   * Is not null
+   */
+  isNotNull(): Expression<boolean> {
+    return new PostfixExpression<boolean>(this, 'IS NOT NULL');
+  }
+
+  /**
+   * Addition
+   */
+  plus(other: Operand<V>): Expression<V> {
+    return new BinaryExpression<V>(this, '+', other);
+  }
+
+  /**
+   * Subtraction
+   */
+  minus(other: Operand<V>): Expression<V> {
+    return new BinaryExpression<V>(this, '-', other);
+  }
+
+  /**
+   * Multiplication
+   */
+  times(other: Operand<V>): Expression<V> {
+    return new BinaryExpression<V>(this, '*', other);
+  }
+
+  /**
+   * Division
+   */
+  div(other: Operand<V>): Expression<V> {
+    return new BinaryExpression<V>(this, '/', other);
+  }
+
+  /**
+   * Logical AND with one or more conditions
+   */
+  and(...others: Expression<boolean>[]): Expression<boolean> {
+    return and(this as Expression<any>, ...others);
+  }
+
+  /**
+   * Logical OR with one or more conditions
+   */
+  or(...others: Expression<boolean>[]): Expression<boolean> {
+    return or(this as Expression<any>, ...others);
+  }
+
+  /**
+   * Logical negation
+   */
+  not(): Expression<boolean> {
+    return not(this as Expression<any>);
+  }
+
+  /**
+   * Alias the expression for use in RETURN or WITH
+   *
+   * @param alias - Result column alias
+   * @returns Aliased expression
+   */
+  as(alias: string): AliasedExpression<V> {
+    return new AliasedExpression<V>(this, alias);
+  }
+
+  /**
+   * Build a comparison against another operand
+   *
+   * @param operator - Comparison operator
+   * @param other - Right-hand operand
+   * @returns Comparison expression
+   */
+  protected compare(operator: string, other: Operand<any>): Expression<boolean> {
+    return new BinaryExpression<boolean>(this, operator, other);
+  }
+}
+
+/**
+ * Compile an operand, binding plain values as parameters
+ *
+ * @param operand - Expression or plain value
+ * @param context - Compilation context
+ * @param hint - Base name for a bound parameter
+ * @returns Cypher string
+ */
+function compileOperand(operand: Operand<any>, context: ExpressionContext, hint: string): string {
+  if (operand instanceof Expression) {
+    return operand.toCypher(context);
+  }
+  return `$${context.bindParam(hint, operand)}`;
+}
+
+/**
+ * Parameter expression
+ */
+export class ParamExpression<V = any> extends Expression<V> {
+  /**
+   * Create a new parameter expression
+   *
+   * @param value - Parameter value
+   * @param name - Base parameter name
+   */
+  constructor(private readonly value: V, private readonly name?: string) {
+    super();
+    if (name !== undefined) {
+      assertIdentifier(name, 'parameter name');
+    }
+  }
+
+  toCypher(context: ExpressionContext): string {
+    return `$${context.bindParam(this.name || 'param', this.value)}`;
+  }
+}
+
+/**
+ * Variable reference expression, e.g. a matched vertex alias
+ */
+export class VariableExpression<V = any> extends Expression<V> {
+  /**
+   * Create a new variable expression
+   *
+   * @param name - Variable name
+   */
+  constructor(readonly name: string) {
+    super();
+    assertIdentifier(name, 'variable name');
+  }
+
+  toCypher(): string {
+    return this.name;
+  }
+
+  paramHint(): string {
+    return this.name;
+  }
+}
+
+/**
+ * Property access expression, e.g. `p.age`
+ */
+export class PropertyExpression<V = any> extends Expression<V> {
+  /**
+   * Create a new property expression
+   *
+   * @param alias - Variable alias
+   * @param property - Property name
+   */
+  constructor(readonly alias: string, readonly property: string) {
+    super();
+    assertIdentifier(alias, 'alias');
+    assertIdentifier(property, 'property name');
+  }
+
+  toCypher(): string {
+    return `${this.alias}.${this.property}`;
+  }
+
+  paramHint(): string {
+    return `${this.alias}_${this.property}`;
+  }
+}
+
+/**
+ * Binary operator expression
+ */
+export class BinaryExpression<V = any> extends Expression<V> {
+  /**
+   * Create a new binary expression
+   *
+   * @param left - Left-hand expression
+   * @param operator - Operator
+   * @param right - Right-hand operand
+   */
+  constructor(
+    private readonly left: Expression<any>,
+    private readonly operator: string,
+    private readonly right: Operand<any>
+  ) {
+    super();
+  }
+
+  toCypher(context: ExpressionContext): string {
+    const left = this.left.toCypher(context);
+    const right = compileOperand(this.right, context, this.left.paramHint());
+    return `${left} ${this.operator} ${right}`;
+  }
+}
+
+/**
+ * Postfix operator expression, e.g. `IS NULL`
+ */
+export class PostfixExpression<V = any> extends Expression<V> {
+  /**
+   * Create a new postfix expression
+   *
+   * @param operand - Operand expression
+   * @param operator - Postfix operator
+   */
+  constructor(private readonly operand: Expression<any>, private readonly operator: string) {
+    super();
+  }
+
+  toCypher(context: ExpressionContext): string {
+    return `${this.operand.toCypher(context)} ${this.operator}`;
+  }
+}
+
+/**
+ * Logical AND/OR expression
+ */
+export class LogicalExpression extends Expression<boolean> {
+  /**
+   * Create a new logical expression
+   *
+   * @param operator - Logical operator
+   * @param operands - Conditions to combine
+   */
+  constructor(
+    private readonly operator: 'AND' | 'OR',
+    private readonly operands: Expression<any>[]
+  ) {
+    super();
+    if (operands.length === 0) {
+      throw new Error(`${operator} requires at least one condition`);
+    }
+  }
+
+  toCypher(context: ExpressionContext): string {
+    if (this.operands.length === 1) {
+      return this.operands[0].toCypher(context);
+    }
+    return this.operands
+      .map(operand => `(${operand.toCypher(context)})`)
+      .join(` ${this.operator} `);
+  }
+}
+
+/**
+ * Logical NOT expression
+ */
+export class NotExpression extends Expression<boolean> {
+  /**
+   * Create a new NOT expression
+   *
+   * @param operand - Condition to negate
+   */
+  constructor(private readonly operand: Expression<any>) {
+    super();
+  }
+
+  toCypher(context: ExpressionContext): string {
+    return `NOT (${this.operand.toCypher(context)})`;
+  }
+}
+
+/**
+ * Function call expression, e.g. `count(p)`
+ */
+export class FunctionExpression<V = any> extends Expression<V> {
+  /**
+   * Create a new function call expression
+   *
+   * @param name - Function name
+   * @param args - Function arguments
+   * @param distinct - Whether to apply DISTINCT to the arguments
+   */
+  constructor(
+    private readonly name: string,
+    private readonly args: Operand<any>[],
+    private readonly distinct: boolean = false
+  ) {
+    super();
+    assertIdentifier(name, 'function name');
+  }
+
+  toCypher(context: ExpressionContext): string {
+    const args = this.args.map(arg => compileOperand(arg, context, `${this.name}_arg`));
+    const distinct = this.distinct ? 'DISTINCT ' : '';
+    return `${this.name}(${distinct}${args.join(', ')})`;
+  }
+
+  paramHint(): string {
+    return this.name;
+  }
+}
+
+/**
+ * `count(*)` expression
+ */
+class CountAllExpression extends Expression<number> {
+  toCypher(): string {
+    return 'count(*)';
+  }
+
+  paramHint(): string {
+    return 'count';
+  }
+}
+
+/**
+ * CASE expression
+ */
+export class CaseExpression<V = any> extends Expression<V> {
+  private branches: Array<{ when: Expression<boolean>; then: Operand<V> }> = [];
+  private otherwise?: Operand<V>;
+
+  /**
+   * Add a WHEN ... THEN branch
+   *
+   * @param condition - Branch condition
+   * @param result - Branch result
+   * @returns This case expression
+   */
+  when<R extends V>(condition: Expression<boolean>, result: Operand<R>): CaseExpression<V> {
+    this.branches.push({ when: condition, then: result });
+    return this;
+  }
+
+  /**
+   * Set the ELSE result
+   *
+   * @param result - Result when no branch matches
+   * @returns This case expression
+   */
+  else(result: Operand<V>): CaseExpression<V> {
+    this.otherwise = result;
+    return this;
+  }
+
+  toCypher(context: ExpressionContext): string {
+    if (this.branches.length === 0) {
+      throw new Error('CASE expression requires at least one WHEN branch');
+    }
+
+    const parts = ['CASE'];
+    for (const branch of this.branches) {
+      parts.push(`WHEN ${branch.when.toCypher(context)}`);
+      parts.push(`THEN ${compileOperand(branch.then, context, 'case_value')}`);
+    }
+    if (this.otherwise !== undefined) {
+      parts.push(`ELSE ${compileOperand(this.otherwise, context, 'case_value')}`);
+    }
+    parts.push('END');
+
+    return parts.join(' ');
+  }
+}
+
+/**
+ * Expression with a result alias, e.g. `p.name AS name`
+ */
+export class AliasedExpression<V = any> {
+  /**
+   * Create a new aliased expression
+   *
+   * @param expression - Expression to alias
+   * @param alias - Result alias
+   */
+  constructor(readonly expression: Expression<V>, readonly alias: string) {
+    assertIdentifier(alias, 'alias');
+  }
+
+  /**
+   * Compile the aliased expression into a Cypher string
+   *
+   * @param context - Compilation context
+   * @returns Cypher string
+   */
+  toCypher(context: ExpressionContext): string {
+    return `${this.expression.toCypher(context)} AS ${this.alias}`;
+  }
+}
+
+/**
+ * Input accepted by WHERE
+ */
+export type ConditionInput = string | Expression<any>;
+
+/**
+ * Input accepted by RETURN and WITH
+ */
+export type ProjectionInput = string | Expression<any> | AliasedExpression<any>;
+
+/**
+ * Input accepted by ORDER BY
+ */
+export type OrderInput = string | Expression<any>;
+
+/**
+ * Compile a DSL input into a Cypher string
+ *
+ * Strings are passed through unchanged.
+ *
+ * @param input - String, expression or aliased expression
+ * @param context - Compilation context
+ * @returns Cypher string
+ */
+export function compileExpression(
+  input: ProjectionInput,
+  context: ExpressionContext
+): string {
+  if (typeof input === 'string') {
+    return input;
+  }
+  return input.toCypher(context);
+}
+
+/**
+ * Compile property values into assignments for write clauses
+ *
+ * Plain values are bound as parameters named after the alias and property;
+ * undefined values are skipped.
+ *
+ * @param alias - Alias of the vertex or edge being written
+ * @param properties - Property values or expressions
+ * @param context - Compilation context
+ * @returns Property assignments
+ * @throws Error if the alias or a property name is not a valid identifier
+ */
+export function compileAssignments(
+  alias: string,
+  properties: Record<string, Operand<any>>,
+  context: ExpressionContext
+): PropertyAssignment[] {
+  assertIdentifier(alias, 'alias');
+
+  return Object.entries(properties)
+    .filter(([, value]) => value !== undefined)
+    .map(([property, value]) => {
+      assertIdentifier(property, 'property name');
+      return {
+        alias,
+        property,
+        value,
+        expression: compileOperand(value, context, `${alias}_${property}`),
+      };
+    });
+}
+
+/**
+ * Reference a property of a matched alias
+ *
+ * @param alias - Variable alias
+ * @param property - Property name
+ * @returns Property expression
+ */
+export function prop<V = any>(alias: string, property: string): PropertyExpression<V> {
+  return new PropertyExpression<V>(alias, property);
+}
+
+/**
+ * Reference a variable, e.g. a matched vertex alias
+ *
+ * @param name - Variable name
+ * @returns Variable expression
+ */
+export function variable<V = any>(name: string): VariableExpression<V> {
+  return new VariableExpression<V>(name);
+}
+
+/**
+ * Bind a value as a query parameter
+ *
+ * @param value - Parameter value
+ * @param name - Optional base parameter name
+ * @returns Parameter expression
+ */
+export function param<V>(value: V, name?: string): ParamExpression<V> {
+  return new ParamExpression<V>(value, name);
+}
+
+/**
+ * Combine conditions with AND
+ *
+ * @param conditions - Conditions to combine
+ * @returns Logical expression
+ */
+export function and(...conditions: Expression<any>[]): Expression<boolean> {
+  return new LogicalExpression('AND', conditions);
+}
+
+/**
+ * Combine conditions with OR
+ *
+ * @param conditions - Conditions to combine
+ * @returns Logical expression
+ */
+export function or(...conditions: Expression<any>[]): Expression<boolean> {
+  return new LogicalExpression('OR', conditions);
+}
+
+/**
+ * Negate a condition
+ *
+ * @param condition - Condition to negate
+ * @returns NOT expression
+ */
+export function not(condition: Expression<any>): Expression<boolean> {
+  return new NotExpression(condition);
+}
+
+/**
+ * Return the first non-null operand
+ *
+ * @param operands - Operands to test
+ * @returns coalesce() expression
+ */
+export function coalesce<V>(...operands: Operand<V>[]): Expression<V> {
+  return new FunctionExpression<V>('coalesce', operands);
+}
+
+/**
+ * Start a CASE expression
+ *
+ * @returns Case expression
+ */
+export function caseWhen<V = any>(): CaseExpression<V> {
+  return new CaseExpression<V>();
+}
+
+/**
+ * Cypher function helpers
+ */
+export const fn = {
+  /**
+   * `count(*)`, or `count(expr)` when an expression is given
+   */
+  count(expression?: Expression<any>, options: { distinct?: boolean } = {}): Expression<number> {
+    return expression
+      ? new FunctionExpression<number>('count', [expression], options.distinct)
+      : new CountAllExpression();
+  },
+
+  /**
+   * `sum(expr)`
+   */
+  sum(expression: Expression<number>): Expression<number> {
+    return new FunctionExpression<number>('sum', [expression]);
+  },
+
+  /**
+   * `avg(expr)`
+   */
+  avg(expression: Expression<number>): Expression<number> {
+    return new FunctionExpression<number>('avg', [expression]);
+  },
+
+  /**
+   * `min(expr)`
+   */
+  min<V>(expression: Expression<V>): Expression<V> {
+    return new FunctionExpression<V>('min', [expression]);
+  },
+
+  /**
+   * `max(expr)`
+   */
+  max<V>(expression: Expression<V>): Expression<V> {
+    return new FunctionExpression<V>('max', [expression]);
+  },
+
+  /**
+   * `collect(expr)`
+   */
+  collect<V>(expression: Expression<V>, options: { distinct?: boolean } = {}): Expression<V[]> {
+    return new FunctionExpression<V[]>('collect', [expression], options.distinct);
+  },
+
+  /**
+   * `size(expr)`
+   */
+  size(expression: Expression<any>): Expression<number> {
+    return new FunctionExpression<number>('size', [expression]);
+  },
+
+  /**
+   * `id(variable)`
+   */
+  id(expression: Expression<any>): Expression<number> {
+    return new FunctionExpression<number>('id', [expression]);
+  },
+
+  /**
+   * `labels(variable)`
+   */
+  labels(expression: Expression<any>): Expression<string[]> {
+    return new FunctionExpression<string[]>('labels', [expression]);
+  },
+
+  /**
+   * `type(edge)`
+   */
+  type(expression: Expression<any>): Expression<string> {
+    return new FunctionExpression<string>('type', [expression]);
+  },
+
+  /**
+   * `toLower(expr)`
+   */
+  toLower(expression: Operand<string>): Expression<string> {
+    return new FunctionExpression<string>('toLower', [expression]);
+  },
+
+  /**
+   * `toUpper(expr)`
+   */
+  toUpper(expression: Operand<string>): Expression<string> {
+    return new FunctionExpression<string>('toUpper', [expression]);
+  },
+
+  /**
+   * Call any function by name
+   */
+  call<V = any>(name: string, ...args: Operand<any>[]): Expression<V> {
+    return new FunctionExpression<V>(name, args);
+  },
+};
+
+/**
+ * Reference to a vertex alias with schema-typed property access
+ */
+export class VertexRef<
+  T extends SchemaDefinition,
+  L extends keyof T['vertices']
+> extends VariableExpression {
+  /**
+   * Create a new vertex reference
+   *
+   * @param label - Vertex label
+   * @param alias - Vertex alias
+   */
+  constructor(readonly label: L, alias: string) {
+    super(alias);
+  }
+
+  /**
+   * Reference a property of the vertex
+   *
+   * @param property - Property name defined by the schema for this label
+   * @returns Property expression typed by the schema
+   */
+  prop<K extends VertexPropertyName<T, L>>(
+    property: K
+  ): PropertyExpression<PropertyValueOf<T['vertices'][L]['properties'][K]>> {
+    return new PropertyExpression(this.name, property);
+  }
+}
+
+/**
+ * Reference to an edge alias with schema-typed property access
+ */
+export class EdgeRef<
+  T extends SchemaDefinition,
+  E extends keyof T['edges']
+> extends VariableExpression {
+  /**
+   * Create a new edge reference
+   *
+   * @param label - Edge label
+   * @param alias - Edge alias
+   */
+  constructor(readonly label: E, alias: string) {
+    super(alias);
+  }
+
+  /**
+   * Reference a property of the edge
+   *
+   * @param property - Property name defined by the schema for this label
+   * @returns Property expression typed by the schema
+   */
+  prop<K extends EdgePropertyName<T, E>>(
+    property: K
+  ): PropertyExpression<PropertyValueOf<T['edges'][E]['properties'][K]>> {
+    return new PropertyExpression(this.name, property);
+  }
+}
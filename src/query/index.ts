@@ -7,6 +7,9 @@
 // Export query types
 export * from './types';
 
+// Export expression DSL
+export * from './expressions';
+
 // Export query parts
 export * from './parts';
 
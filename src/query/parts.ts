@@ -10,7 +10,22 @@ import {
   MatchPattern,
   MatchPatternType,
   OrderDirection,
+  PropertyAssignment,
+  PropertyRemoval,
 } from './types';
+import { inferReturnColumns } from '../db/cypher-parser';
+
+/**
+ * Render property assignments as a comma separated list
+ *
+ * @param assignments - Property assignments
+ * @returns Cypher assignment list
+ */
+function renderAssignments(assignments: PropertyAssignment[]): string {
+  return assignments
+    .map(item => `${item.alias}.${item.property} = ${item.expression}`)
+    .join(', ');
+}
 
 /**
  * Base class for query parts
@@ -230,6 +245,15 @@ export class ReturnPart extends BaseQueryPart {
     this.groupByExpressions.push(...expressions);
   }
 
+  /**
+   * Get the names of the result columns
+   *
+   * @returns Column names, or undefined if they cannot be determined (e.g. `RETURN *`)
+   */
+  getColumnNames(): string[] | undefined {
+    return inferReturnColumns(`RETURN ${this.expressions.join(', ')}`) ?? undefined;
+  }
+
   /**
    * Convert to Cypher string
    */
@@ -459,3 +483,284 @@ export class UnwindPart extends BaseQueryPart {
     return {};
   }
 }
+
+/**
+ * CREATE query part
+ */
+export class CreatePart extends BaseQueryPart {
+  /**
+   * Query part type
+   */
+  type = QueryPartType.CREATE;
+
+  /**
+   * Patterns to create
+   */
+  private patterns: MatchPattern[];
+
+  /**
+   * Create a new CREATE part
+   *
+   * @param patterns - Patterns to create
+   */
+  constructor(patterns: MatchPattern[] = []) {
+    super();
+    this.patterns = patterns;
+  }
+
+  /**
+   * Get patterns
+   *
+   * @returns Patterns
+   */
+  getPatterns(): MatchPattern[] {
+    return this.patterns;
+  }
+
+  /**
+   * Convert to Cypher string
+   */
+  toCypher(): string {
+    if (this.patterns.length === 0) {
+      return '';
+    }
+
+    return `CREATE ${this.patterns.map(pattern => pattern.toCypher()).join(', ')}`;
+  }
+}
+
+/**
+ * MERGE query part
+ */
+export class MergePart extends BaseQueryPart {
+  /**
+   * Query part type
+   */
+  type = QueryPartType.MERGE;
+
+  /**
+   * Pattern to merge
+   */
+  private pattern: MatchPattern;
+
+  /**
+   * Assignments applied when the pattern is created
+   */
+  private onCreate: PropertyAssignment[] = [];
+
+  /**
+   * Assignments applied when the pattern already exists
+   */
+  private onMatch: PropertyAssignment[] = [];
+
+  /**
+   * Create a new MERGE part
+   *
+   * @param pattern - Pattern to merge
+   */
+  constructor(pattern: MatchPattern) {
+    super();
+    this.pattern = pattern;
+  }
+
+  /**
+   * Add an ON CREATE SET assignment
+   *
+   * @param assignment - Property assignment
+   */
+  addOnCreate(assignment: PropertyAssignment): void {
+    this.onCreate.push(assignment);
+  }
+
+  /**
+   * Add an ON MATCH SET assignment
+   *
+   * @param assignment - Property assignment
+   */
+  addOnMatch(assignment: PropertyAssignment): void {
+    this.onMatch.push(assignment);
+  }
+
+  /**
+   * Get patterns
+   *
+   * @returns Patterns
+   */
+  getPatterns(): MatchPattern[] {
+    return [this.pattern];
+  }
+
+  /**
+   * Get ON CREATE SET assignments
+   *
+   * @returns Assignments
+   */
+  getOnCreate(): PropertyAssignment[] {
+    return this.onCreate;
+  }
+
+  /**
+   * Get ON MATCH SET assignments
+   *
+   * @returns Assignments
+   */
+  getOnMatch(): PropertyAssignment[] {
+    return this.onMatch;
+  }
+
+  /**
+   * Convert to Cypher string
+   */
+  toCypher(): string {
+    let cypher = `MERGE ${this.pattern.toCypher()}`;
+
+    if (this.onCreate.length > 0) {
+      cypher += ` ON CREATE SET ${renderAssignments(this.onCreate)}`;
+    }
+
+    if (this.onMatch.length > 0) {
+      cypher += ` ON MATCH SET ${renderAssignments(this.onMatch)}`;
+    }
+
+    return cypher;
+  }
+}
+
+/**
+ * SET query part
+ */
+export class SetPart extends BaseQueryPart {
+  /**
+   * Query part type
+   */
+  type = QueryPartType.SET;
+
+  /**
+   * Property assignments
+   */
+  private assignments: PropertyAssignment[];
+
+  /**
+   * Create a new SET part
+   *
+   * @param assignments - Property assignments
+   */
+  constructor(assignments: PropertyAssignment[]) {
+    super();
+    this.assignments = assignments;
+  }
+
+  /**
+   * Get property assignments
+   *
+   * @returns Assignments
+   */
+  getAssignments(): PropertyAssignment[] {
+    return this.assignments;
+  }
+
+  /**
+   * Convert to Cypher string
+   */
+  toCypher(): string {
+    if (this.assignments.length === 0) {
+      return '';
+    }
+
+    return `SET ${renderAssignments(this.assignments)}`;
+  }
+}
+
+/**
+ * REMOVE query part
+ */
+export class RemovePart extends BaseQueryPart {
+  /**
+   * Query part type
+   */
+  type = QueryPartType.REMOVE;
+
+  /**
+   * Properties to remove
+   */
+  private removals: PropertyRemoval[];
+
+  /**
+   * Create a new REMOVE part
+   *
+   * @param removals - Properties to remove
+   */
+  constructor(removals: PropertyRemoval[]) {
+    super();
+    this.removals = removals;
+  }
+
+  /**
+   * Get properties to remove
+   *
+   * @returns Removals
+   */
+  getRemovals(): PropertyRemoval[] {
+    return this.removals;
+  }
+
+  /**
+   * Convert to Cypher string
+   */
+  toCypher(): string {
+    if (this.removals.length === 0) {
+      return '';
+    }
+
+    return `REMOVE ${this.removals.map(item => `${item.alias}.${item.property}`).join(', ')}`;
+  }
+}
+
+/**
+ * DELETE query part
+ */
+export class DeletePart extends BaseQueryPart {
+  /**
+   * Query part type
+   */
+  type = QueryPartType.DELETE;
+
+  /**
+   * Aliases to delete
+   */
+  private aliases: string[];
+
+  /**
+   * Detach flag
+   */
+  private detach: boolean;
+
+  /**
+   * Create a new DELETE part
+   *
+   * @param aliases - Aliases to delete
+   * @param detach - Whether to use DETACH DELETE
+   */
+  constructor(aliases: string[], detach: boolean = false) {
+    super();
+    this.aliases = aliases;
+    this.detach = detach;
+  }
+
+  /**
+   * Get aliases to delete
+   *
+   * @returns Aliases
+   */
+  getAliases(): string[] {
+    return this.aliases;
+  }
+
+  /**
+   * Convert to Cypher string
+   */
+  toCypher(): string {
+    const keyword = this.detach ? 'DETACH DELETE' : 'DELETE';
+    return `${keyword} ${this.aliases.join(', ')}`;
+  }
+}
@@ -5,6 +5,7 @@
 import { describe, it, expect } from 'vitest';
 import { ResultProcessor, ResultProcessingOptions } from './results';
 import { QueryResult } from '../db/query';
+import { AgEdge, AgPath, AgVertex } from '../db/agtype';
 
 describe('ResultProcessor', () => {
   describe('process', () => {
@@ -150,6 +151,20 @@ describe('ResultProcessor', () => {
       ]);
     });
 
+    it('should expand agtype paths', () => {
+      const alice = new AgVertex('1', 'Person', { name: 'Alice' });
+      const bob = new AgVertex('2', 'Person', { name: 'Bob' });
+      const knows = new AgEdge('3', 'KNOWS', '1', '2', {});
+      const result: QueryResult = {
+        rows: [{ path: new AgPath([alice, knows, bob]) }]
+      };
+
+      const processed = ResultProcessor.process(result, { expandPaths: true });
+      expect(processed).toEqual([
+        { path: { nodes: [alice, bob], relationships: [knows], length: 1 } }
+      ]);
+    });
+
     it('should apply custom transformers', () => {
       const result: QueryResult = {
         rows: [
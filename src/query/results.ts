@@ -5,6 +5,7 @@
  */
 
 import { QueryResult } from '../db/query';
+import { AgPath } from '../db/agtype';
 
 /**
  * Result processing options
@@ -147,6 +148,10 @@ export class ResultProcessor {
    * @returns Whether the value is a path
    */
   private static isPath(value: any): boolean {
+    if (value instanceof AgPath) {
+      return true;
+    }
+
     return value &&
            typeof value === 'object' &&
            Array.isArray(value.nodes) &&
@@ -160,6 +165,14 @@ export class ResultProcessor {
    * @returns Expanded path representation
    */
   private static expandPath(path: any): PathRepresentation {
+    if (path instanceof AgPath) {
+      return {
+        nodes: path.vertices,
+        relationships: path.edges,
+        length: path.length
+      };
+    }
+
     return {
       nodes: path.nodes || [],
       relationships: path.relationships || [],
@@ -6,6 +6,19 @@
 
 import { SchemaDefinition } from '../schema/types';
 import { QueryResult } from '../db/query';
+import type {
+  ConditionInput,
+  ProjectionInput,
+  OrderInput,
+  PropertyExpression,
+  PropertyValueOf,
+  VertexPropertyName,
+  EdgePropertyName,
+  VertexRef,
+  EdgeRef,
+  VertexPropertyValues,
+  EdgePropertyValues,
+} from './expressions';
 
 /**
  * Query part type
@@ -93,6 +106,11 @@ export interface VertexPattern extends MatchPattern {
    * Property constraints
    */
   properties?: Record<string, any>;
+
+  /**
+   * Parameter names bound to each property constraint
+   */
+  propertyParams?: Record<string, string>;
 }
 
 /**
@@ -133,6 +151,11 @@ export interface EdgePattern extends MatchPattern {
    * Property constraints
    */
   properties?: Record<string, any>;
+
+  /**
+   * Parameter names bound to each property constraint
+   */
+  propertyParams?: Record<string, string>;
 }
 
 /**
@@ -155,6 +178,46 @@ export interface PathPattern extends MatchPattern {
   segments: Array<VertexPattern | EdgePattern>;
 }
 
+/**
+ * Property assignment used by SET, ON CREATE SET and ON MATCH SET
+ */
+export interface PropertyAssignment {
+  /**
+   * Alias of the vertex or edge being updated
+   */
+  alias: string;
+
+  /**
+   * Property name
+   */
+  property: string;
+
+  /**
+   * Assigned value as provided, kept for schema validation
+   */
+  value: any;
+
+  /**
+   * Compiled Cypher expression for the value
+   */
+  expression: string;
+}
+
+/**
+ * Property removal used by REMOVE
+ */
+export interface PropertyRemoval {
+  /**
+   * Alias of the vertex or edge being updated
+   */
+  alias: string;
+
+  /**
+   * Property name
+   */
+  property: string;
+}
+
 /**
  * Order direction
  */
@@ -183,16 +246,36 @@ export interface QueryExecutionOptions {
   timeout?: number;
 
   /**
-   * Maximum number of retries
+   * Maximum number of retries of a read-only query that failed with a
+   * transient error, such as a lost connection
+   *
+   * @default 0 (no retries)
    */
   maxRetries?: number;
 
+  /**
+   * Whether a read-only query without parameters may run on a read replica
+   *
+   * Set to false to read data this connection has just written, which a
+   * replica may not have received yet.
+   *
+   * @default true
+   */
+  readOnly?: boolean;
+
   /**
    * Whether to validate the query against the schema
    *
    * @default true
    */
   validate?: boolean;
+
+  /**
+   * Number of rows fetched per round trip by stream()
+   *
+   * @default 1000
+   */
+  batchSize?: number;
 }
 
 /**
@@ -221,7 +304,7 @@ export interface IQueryBuilder<T extends SchemaDefinition> {
     sourceAlias: string,
     edgeLabel: E,
     targetAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Add MATCH clause for an edge between two previously matched vertices with an edge alias
@@ -237,22 +320,22 @@ export interface IQueryBuilder<T extends SchemaDefinition> {
     edgeLabel: E,
     targetAlias: string,
     edgeAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Add WHERE clause
    */
-  where(condition: string, params?: Record<string, any>): this;
+  where(condition: ConditionInput, params?: Record<string, any>): this;
 
   /**
    * Add RETURN clause
    */
-  return(...expressions: string[]): this;
+  return(...expressions: ProjectionInput[]): this;
 
   /**
    * Add ORDER BY clause
    */
-  orderBy(expression: string, direction?: OrderDirection): this;
+  orderBy(expression: OrderInput, direction?: OrderDirection): this;
 
   /**
    * Add LIMIT clause
@@ -267,18 +350,103 @@ export interface IQueryBuilder<T extends SchemaDefinition> {
   /**
    * Add WITH clause
    */
-  with(...expressions: string[]): this;
+  with(...expressions: ProjectionInput[]): this;
 
   /**
    * Add UNWIND clause
    */
   unwind(expression: string, alias: string): this;
 
+  /**
+   * Add CREATE clause for a vertex
+   */
+  create<L extends keyof T['vertices']>(
+    label: L,
+    alias: string,
+    properties?: VertexPropertyValues<T, L>
+  ): this;
+
+  /**
+   * Add CREATE clause for an edge between two previously bound vertices
+   */
+  createEdge<E extends keyof T['edges']>(
+    sourceAlias: string,
+    label: E,
+    targetAlias: string,
+    properties?: EdgePropertyValues<T, E>,
+    edgeAlias?: string
+  ): this;
+
+  /**
+   * Add MERGE clause for a vertex
+   */
+  merge<L extends keyof T['vertices']>(
+    label: L,
+    alias: string,
+    properties?: VertexPropertyValues<T, L>
+  ): IMergeClause<T, VertexPropertyValues<T, L>>;
+
+  /**
+   * Add MERGE clause for an edge between two previously bound vertices
+   */
+  mergeEdge<E extends keyof T['edges']>(
+    sourceAlias: string,
+    label: E,
+    targetAlias: string,
+    properties?: EdgePropertyValues<T, E>,
+    edgeAlias?: string
+  ): IMergeClause<T, EdgePropertyValues<T, E>>;
+
+  /**
+   * Add SET clause for properties of a vertex
+   */
+  set<L extends keyof T['vertices']>(target: VertexRef<T, L>, properties: VertexPropertyValues<T, L>): this;
+
+  /**
+   * Add SET clause for properties of an edge
+   */
+  set<E extends keyof T['edges']>(target: EdgeRef<T, E>, properties: EdgePropertyValues<T, E>): this;
+
+  /**
+   * Add SET clause for properties of an alias
+   */
+  set(alias: string, properties: Record<string, any>): this;
+
+  /**
+   * Add REMOVE clause for properties of an alias
+   */
+  remove(alias: string | VertexRef<T, any> | EdgeRef<T, any>, ...properties: string[]): this;
+
+  /**
+   * Add DELETE clause
+   */
+  delete(...aliases: string[]): this;
+
+  /**
+   * Add DETACH DELETE clause
+   */
+  detachDelete(...aliases: string[]): this;
+
+  /**
+   * Reference a vertex alias with schema-checked property access
+   */
+  vertex<L extends keyof T['vertices']>(label: L, alias: string): VertexRef<T, L>;
+
+  /**
+   * Reference an edge alias with schema-checked property access
+   */
+  edge<E extends keyof T['edges']>(label: E, alias: string): EdgeRef<T, E>;
+
   /**
    * Add a parameter to the query
    */
   withParam(name: string, value: any): this;
 
+  /**
+   * Bind a value to a generated parameter name
+   */
+  bindParam(baseName: string, value: any): string;
+
   /**
    * Set a parameter in the age_params temporary table
    */
@@ -304,6 +472,11 @@ export interface IQueryBuilder<T extends SchemaDefinition> {
    */
   execute<R = any>(options?: QueryExecutionOptions): QueryBuilderResult<R>;
 
+  /**
+   * Execute the query and stream the result rows
+   */
+  stream<R = any>(options?: QueryExecutionOptions): AsyncGenerator<R, void, undefined>;
+
   /**
    * Get the Cypher query string
    */
@@ -320,7 +493,6 @@ export interface IQueryBuilder<T extends SchemaDefinition> {
  */
 export interface IMatchClause<
   T extends SchemaDefinition,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   L extends keyof T['vertices']
 > {
   /**
@@ -339,7 +511,19 @@ export interface IMatchClause<
    * @param params - Parameters
    * @returns This match clause
    */
-  where(condition: string, params?: Record<string, any>): this;
+  where(condition: ConditionInput, params?: Record<string, any>): this;
+
+  /**
+   * Reference a property of the matched vertex, checked against the schema
+   */
+  prop<K extends VertexPropertyName<T, L>>(
+    property: K
+  ): PropertyExpression<PropertyValueOf<T['vertices'][L]['properties'][K]>>;
+
+  /**
+   * Reference the matched vertex
+   */
+  ref(): VertexRef<T, L>;
 
   /**
    * Add outgoing edge
@@ -383,7 +567,7 @@ export interface IMatchClause<
     sourceAlias: string,
     edgeLabel: E,
     targetAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Add MATCH clause for an edge between two previously matched vertices with an edge alias (internally calls done() first)
@@ -393,12 +577,12 @@ export interface IMatchClause<
     edgeLabel: E,
     targetAlias: string,
     edgeAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Add RETURN clause (internally calls done() first)
    */
-  return(...expressions: string[]): IQueryBuilder<T>;
+  return(...expressions: ProjectionInput[]): IQueryBuilder<T>;
 
   /**
    * Return to the main query builder
@@ -409,7 +593,10 @@ export interface IMatchClause<
 /**
  * Edge match clause interface
  */
-export interface IEdgeMatchClause<T extends SchemaDefinition> {
+export interface IEdgeMatchClause<
+  T extends SchemaDefinition,
+  E extends keyof T['edges'] = keyof T['edges']
+> {
   /**
    * Add property constraints to the edge pattern
    *
@@ -426,17 +613,29 @@ export interface IEdgeMatchClause<T extends SchemaDefinition> {
    * @param params - Parameters
    * @returns This edge match clause
    */
-  where(condition: string, params?: Record<string, any>): this;
+  where(condition: ConditionInput, params?: Record<string, any>): this;
+
+  /**
+   * Reference a property of the matched edge, checked against the schema
+   */
+  prop<K extends EdgePropertyName<T, E>>(
+    property: K
+  ): PropertyExpression<PropertyValueOf<T['edges'][E]['properties'][K]>>;
+
+  /**
+   * Reference the matched edge
+   */
+  ref(): EdgeRef<T, E>;
 
   /**
    * Add RETURN clause
    */
-  return(...expressions: string[]): this;
+  return(...expressions: ProjectionInput[]): this;
 
   /**
    * Add ORDER BY clause
    */
-  orderBy(expression: string, direction?: OrderDirection): this;
+  orderBy(expression: OrderInput, direction?: OrderDirection): this;
 
   /**
    * Add LIMIT clause
@@ -451,7 +650,7 @@ export interface IEdgeMatchClause<T extends SchemaDefinition> {
   /**
    * Add WITH clause
    */
-  with(...expressions: string[]): this;
+  with(...expressions: ProjectionInput[]): this;
 
   /**
    * Add UNWIND clause
@@ -475,7 +674,7 @@ export interface IEdgeMatchClause<T extends SchemaDefinition> {
     sourceAlias: string,
     edgeLabel: E,
     targetAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Add MATCH clause for an edge between two previously matched vertices with an edge alias (internally calls done() first)
@@ -485,7 +684,7 @@ export interface IEdgeMatchClause<T extends SchemaDefinition> {
     edgeLabel: E,
     targetAlias: string,
     edgeAlias: string
-  ): IEdgeMatchClause<T>;
+  ): IEdgeMatchClause<T, E>;
 
   /**
    * Execute the query
@@ -503,6 +702,40 @@ export interface IEdgeMatchClause<T extends SchemaDefinition> {
   done(): IQueryBuilder<T>;
 }
 
+/**
+ * Merge clause interface
+ */
+export interface IMergeClause<
+  T extends SchemaDefinition,
+  P extends Record<string, any> = Record<string, any>
+> {
+  /**
+   * Add ON CREATE SET assignments for the merged element
+   *
+   * @param properties - Property values set when the element is created
+   * @returns This merge clause
+   */
+  onCreateSet(properties: P): this;
+
+  /**
+   * Add ON MATCH SET assignments for the merged element
+   *
+   * @param properties - Property values set when the element already exists
+   * @returns This merge clause
+   */
+  onMatchSet(properties: P): this;
+
+  /**
+   * Add RETURN clause (internally calls done() first)
+   */
+  return(...expressions: ProjectionInput[]): IQueryBuilder<T>;
+
+  /**
+   * Return to the main query builder
+   */
+  done(): IQueryBuilder<T>;
+}
+
 /**
  * Return clause interface
  */
@@ -0,0 +1,124 @@
+/**
+ * AGE catalog queries shared by schema introspection and drift detection
+ *
+ * @packageDocumentation
+ */
+
+import { QueryExecutor } from '../db/query';
+import { quoteIdentifier } from '../sql/utils';
+
+/**
+ * Labels AGE creates in every graph as parents of the label tables
+ */
+const BASE_LABELS = ['_ag_label_vertex', '_ag_label_edge'];
+
+/**
+ * Label stored in ag_catalog.ag_label
+ */
+export interface GraphLabel {
+  /**
+   * Label name
+   */
+  name: string;
+
+  /**
+   * Label id, stored in the upper 16 bits of the graph ids of its items
+   */
+  id: number;
+
+  /**
+   * Label kind: 'v' for vertices, 'e' for edges
+   */
+  kind: 'v' | 'e';
+}
+
+/**
+ * Source and target labels observed on the edges of a label
+ */
+export interface EndpointPair {
+  /**
+   * Source vertex label
+   */
+  from: string;
+
+  /**
+   * Target vertex label
+   */
+  to: string;
+
+  /**
+   * Number of edges between the labels
+   */
+  count: number;
+}
+
+/**
+ * Get the labels of a graph, leaving out the base labels
+ *
+ * @param queryExecutor - Query executor
+ * @param graphName - Graph name
+ * @returns Labels ordered by id, or null if the graph does not exist
+ */
+export async function getGraphLabels(
+  queryExecutor: QueryExecutor,
+  graphName: string
+): Promise<GraphLabel[] | null> {
+  const result = await queryExecutor.executeSQL(`
+    SELECT l.name::text AS name, l.id, l.kind
+    FROM ag_catalog.ag_graph g
+    LEFT JOIN ag_catalog.ag_label l ON l.graph = g.graphid
+    WHERE g.name = $1
+    ORDER BY l.id
+  `, [graphName], { readOnly: true });
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return result.rows
+    .filter(row => row.name !== null)
+    .map(row => ({ name: row.name, id: Number(row.id), kind: row.kind }))
+    .filter(label => !BASE_LABELS.includes(label.name));
+}
+
+/**
+ * Count the edges of a label per source and target vertex label
+ *
+ * @param queryExecutor - Query executor
+ * @param graphName - Graph name
+ * @param label - Edge label
+ * @param labels - Labels of the graph
+ * @returns Endpoint label pairs, most frequent first, and the number of
+ * edges connecting vertices without a label
+ */
+export async function countEdgeEndpoints(
+  queryExecutor: QueryExecutor,
+  graphName: string,
+  label: string,
+  labels: GraphLabel[]
+): Promise<{ pairs: EndpointPair[]; unlabeled: number }> {
+  const result = await queryExecutor.executeSQL(`
+    SELECT
+      (e.start_id::text::bigint >> 48) AS start_label,
+      (e.end_id::text::bigint >> 48) AS end_label,
+      count(*) AS count
+    FROM ONLY ${quoteIdentifier(graphName)}.${quoteIdentifier(label)} e
+    GROUP BY 1, 2
+    ORDER BY count(*) DESC, 1, 2
+  `, [], { readOnly: true });
+
+  const labelNames = new Map(labels.filter(candidate => candidate.kind === 'v').map(candidate => [candidate.id, candidate.name]));
+  const pairs: EndpointPair[] = [];
+  let unlabeled = 0;
+  for (const row of result.rows) {
+    const from = labelNames.get(Number(row.start_label));
+    const to = labelNames.get(Number(row.end_label));
+    if (from && to) {
+      pairs.push({ from, to, count: Number(row.count) });
+    } else {
+      unlabeled += Number(row.count);
+    }
+  }
+
+  return { pairs, unlabeled };
+}
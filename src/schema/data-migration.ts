@@ -0,0 +1,616 @@
+/**
+ * Data migrations
+ *
+ * Properties of AGE vertices and edges live in agtype maps on the label
+ * tables, so changing them means rewriting the stored items rather than
+ * altering columns. Data migrations rename, retype and backfill properties
+ * with Cypher `SET`/`REMOVE`, and split or merge vertex labels by moving
+ * rows between label tables. They run in batches over the items in graph
+ * id order; the graph id of the last item of a batch is the checkpoint the
+ * next batch, or a resumed migration, continues from.
+ *
+ * @packageDocumentation
+ */
+
+import { PropertyType } from './types';
+import { QueryExecutor } from '../db/query';
+import { ValidationError } from '../core/errors';
+import { quoteIdentifier } from '../sql/utils';
+
+/**
+ * Kind of data migration
+ */
+export enum DataMigrationKind {
+  RENAME_PROPERTY = 'rename_property',
+  RETYPE_PROPERTY = 'retype_property',
+  BACKFILL_PROPERTY = 'backfill_property',
+  SPLIT_LABEL = 'split_label',
+  MERGE_LABELS = 'merge_labels',
+}
+
+/**
+ * Rename a property of the vertices or edges of a label
+ */
+export interface RenamePropertyMigration {
+  kind: DataMigrationKind.RENAME_PROPERTY;
+
+  /**
+   * Vertex or edge label
+   */
+  label: string;
+
+  /**
+   * Whether the label is an edge label
+   */
+  isEdge?: boolean;
+
+  /**
+   * Current property name
+   */
+  from: string;
+
+  /**
+   * New property name
+   */
+  to: string;
+}
+
+/**
+ * Convert the values of a property to another type
+ *
+ * Values that cannot be converted become null, which removes the property.
+ */
+export interface RetypePropertyMigration {
+  kind: DataMigrationKind.RETYPE_PROPERTY;
+
+  /**
+   * Vertex or edge label
+   */
+  label: string;
+
+  /**
+   * Whether the label is an edge label
+   */
+  isEdge?: boolean;
+
+  /**
+   * Property name
+   */
+  property: string;
+
+  /**
+   * New type: string, number, float, integer, boolean, date or datetime
+   */
+  type: PropertyType;
+}
+
+/**
+ * Set a property on the vertices or edges of a label that do not have it
+ */
+export interface BackfillPropertyMigration {
+  kind: DataMigrationKind.BACKFILL_PROPERTY;
+
+  /**
+   * Vertex or edge label
+   */
+  label: string;
+
+  /**
+   * Whether the label is an edge label
+   */
+  isEdge?: boolean;
+
+  /**
+   * Property name
+   */
+  property: string;
+
+  /**
+   * Value to set
+   */
+  value: unknown;
+}
+
+/**
+ * Move the vertices of a label whose properties contain the given values
+ * to a new label
+ */
+export interface SplitLabelMigration {
+  kind: DataMigrationKind.SPLIT_LABEL;
+
+  /**
+   * Vertex label to split
+   */
+  label: string;
+
+  /**
+   * Vertex label receiving the matching vertices, created if missing
+   */
+  newLabel: string;
+
+  /**
+   * Property values the moved vertices have
+   */
+  where: Record<string, unknown>;
+}
+
+/**
+ * Move every vertex of a label to another label and drop the emptied label
+ */
+export interface MergeLabelsMigration {
+  kind: DataMigrationKind.MERGE_LABELS;
+
+  /**
+   * Vertex label to merge and drop
+   */
+  label: string;
+
+  /**
+   * Vertex label receiving the vertices, created if missing
+   */
+  into: string;
+}
+
+/**
+ * Data migration
+ */
+export type DataMigration =
+  | RenamePropertyMigration
+  | RetypePropertyMigration
+  | BackfillPropertyMigration
+  | SplitLabelMigration
+  | MergeLabelsMigration;
+
+/**
+ * Progress of a data migration
+ */
+export interface DataMigrationProgress {
+  /**
+   * Description of the migration step
+   */
+  description: string;
+
+  /**
+   * Number of items migrated by this run of the step
+   */
+  processed: number;
+
+  /**
+   * Number of items the run of the step started with
+   */
+  total: number;
+
+  /**
+   * Graph id of the last migrated item
+   */
+  checkpoint: string;
+}
+
+/**
+ * Result of a data migration batch
+ */
+export interface DataMigrationBatch {
+  /**
+   * Number of items migrated
+   */
+  processed: number;
+
+  /**
+   * Graph id of the last migrated item, or null if none was left
+   */
+  checkpoint: string | null;
+}
+
+/**
+ * Cypher functions converting values to each supported type
+ */
+const CONVERSIONS: Partial<Record<PropertyType, string>> = {
+  [PropertyType.STRING]: 'toString',
+  [PropertyType.NUMBER]: 'toFloat',
+  [PropertyType.FLOAT]: 'toFloat',
+  [PropertyType.INTEGER]: 'toInteger',
+  [PropertyType.BOOLEAN]: 'toBoolean',
+  [PropertyType.DATE]: 'toString',
+  [PropertyType.DATETIME]: 'toString',
+};
+
+/**
+ * Graph id every checkpoint is greater than
+ */
+const INITIAL_CHECKPOINT = '0';
+
+/**
+ * Quote a Cypher identifier
+ *
+ * @param name - Identifier
+ * @returns Quoted identifier
+ */
+function quoteCypherIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, '``')}\``;
+}
+
+/**
+ * Describe a data migration
+ *
+ * @param migration - Data migration
+ * @returns Description
+ */
+export function describeDataMigration(migration: DataMigration): string {
+  const kind = 'isEdge' in migration && migration.isEdge ? 'edge' : 'vertex';
+
+  switch (migration.kind) {
+    case DataMigrationKind.RENAME_PROPERTY:
+      return `Rename property '${migration.from}' to '${migration.to}' of ${kind} label '${migration.label}'`;
+    case DataMigrationKind.RETYPE_PROPERTY:
+      return `Convert property '${migration.property}' of ${kind} label '${migration.label}' to ${migration.type}`;
+    case DataMigrationKind.BACKFILL_PROPERTY:
+      return `Backfill property '${migration.property}' of ${kind} label '${migration.label}'`;
+    case DataMigrationKind.SPLIT_LABEL:
+      return `Move vertices of label '${migration.label}' matching ${JSON.stringify(migration.where)} ` +
+        `to label '${migration.newLabel}'`;
+    case DataMigrationKind.MERGE_LABELS:
+      return `Merge vertex label '${migration.label}' into '${migration.into}'`;
+  }
+}
+
+/**
+ * Get the data migration undoing another
+ *
+ * Renames are undone by renaming back and splits by merging the new label
+ * back. Retyping, backfilling and merging lose information and cannot be
+ * undone.
+ *
+ * @param migration - Data migration
+ * @returns Undoing data migration, or null if there is none
+ */
+export function invertDataMigration(migration: DataMigration): DataMigration | null {
+  switch (migration.kind) {
+    case DataMigrationKind.RENAME_PROPERTY:
+      return { ...migration, from: migration.to, to: migration.from };
+    case DataMigrationKind.SPLIT_LABEL:
+      return { kind: DataMigrationKind.MERGE_LABELS, label: migration.newLabel, into: migration.label };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check whether a data migration can lose data
+ *
+ * @param migration - Data migration
+ * @returns Whether the migration can lose data
+ */
+export function canDataMigrationLoseData(migration: DataMigration): boolean {
+  return migration.kind === DataMigrationKind.RETYPE_PROPERTY;
+}
+
+/**
+ * Check a data migration
+ *
+ * @param migration - Data migration
+ * @throws ValidationError if the migration is incomplete or converts to an
+ * unsupported type
+ */
+export function validateDataMigration(migration: DataMigration): void {
+  if (!migration.label) {
+    throw new ValidationError(`Data migration '${migration.kind}' requires a label`);
+  }
+
+  switch (migration.kind) {
+    case DataMigrationKind.RENAME_PROPERTY:
+      if (!migration.from || !migration.to || migration.from === migration.to) {
+        throw new ValidationError(`Renaming a property of '${migration.label}' requires two different names`);
+      }
+      break;
+    case DataMigrationKind.RETYPE_PROPERTY:
+      if (!CONVERSIONS[migration.type]) {
+        throw new ValidationError(`Property '${migration.property}' cannot be converted to ${migration.type}`);
+      }
+      break;
+    case DataMigrationKind.BACKFILL_PROPERTY:
+      if (migration.value === null || migration.value === undefined) {
+        throw new ValidationError(`Backfilling property '${migration.property}' requires a value`);
+      }
+      break;
+    case DataMigrationKind.SPLIT_LABEL:
+      if (!migration.newLabel || migration.newLabel === migration.label || Object.keys(migration.where || {}).length === 0) {
+        throw new ValidationError(
+          `Splitting label '${migration.label}' requires a new label and the property values to move`
+        );
+      }
+      break;
+    case DataMigrationKind.MERGE_LABELS:
+      if (!migration.into || migration.into === migration.label) {
+        throw new ValidationError(`Merging label '${migration.label}' requires another label to merge into`);
+      }
+      break;
+  }
+}
+
+/**
+ * Runner of data migrations on one graph
+ *
+ * The runner executes single batches; the caller decides the transactions
+ * they run in and where checkpoints are kept.
+ */
+export class DataMigrationRunner {
+  /**
+   * Create a new DataMigrationRunner
+   *
+   * @param queryExecutor - Query executor
+   * @param graphName - Graph name
+   */
+  constructor(
+    private queryExecutor: QueryExecutor,
+    private graphName: string
+  ) {}
+
+  /**
+   * Create the label a migration moves vertices to
+   *
+   * @param migration - Data migration
+   */
+  async prepare(migration: DataMigration): Promise<void> {
+    if (migration.kind === DataMigrationKind.SPLIT_LABEL || migration.kind === DataMigrationKind.MERGE_LABELS) {
+      const target = migration.kind === DataMigrationKind.SPLIT_LABEL ? migration.newLabel : migration.into;
+      if (!(await this.getLabel(target))) {
+        await this.queryExecutor.executeSQL('SELECT ag_catalog.create_vlabel($1, $2)', [this.graphName, target]);
+      }
+    }
+  }
+
+  /**
+   * Count the items a migration has left after a checkpoint
+   *
+   * @param migration - Data migration
+   * @param checkpoint - Graph id of the last migrated item
+   * @returns Number of items
+   */
+  async count(migration: DataMigration, checkpoint: string = INITIAL_CHECKPOINT): Promise<number> {
+    if (migration.kind === DataMigrationKind.SPLIT_LABEL || migration.kind === DataMigrationKind.MERGE_LABELS) {
+      const { condition, params } = this.moveCondition(migration, checkpoint);
+      const result = await this.queryExecutor.executeSQL(
+        `SELECT count(*) AS total FROM ONLY ${this.table(migration.label)} WHERE ${condition}`,
+        params
+      );
+      return Number(result.rows[0]?.total ?? 0);
+    }
+
+    const result = await this.queryExecutor.executeCypher(
+      `${this.matchProperty(migration, checkpoint)} RETURN count(item) AS total`,
+      this.propertyParams(migration),
+      this.graphName
+    );
+    return Number(result.rows[0]?.total ?? 0);
+  }
+
+  /**
+   * Migrate the next batch of items after a checkpoint
+   *
+   * @param migration - Data migration
+   * @param checkpoint - Graph id of the last migrated item
+   * @param batchSize - Largest number of items to migrate
+   * @param transaction - Transaction to run in
+   * @returns Batch result
+   */
+  async runBatch(
+    migration: DataMigration,
+    checkpoint: string,
+    batchSize: number,
+    transaction?: any
+  ): Promise<DataMigrationBatch> {
+    if (migration.kind === DataMigrationKind.SPLIT_LABEL || migration.kind === DataMigrationKind.MERGE_LABELS) {
+      return this.moveBatch(migration, checkpoint, batchSize, transaction);
+    }
+
+    const result = await this.queryExecutor.executeCypher(
+      `${this.matchProperty(migration, checkpoint)} ` +
+      `WITH item ORDER BY id(item) LIMIT ${Math.floor(batchSize)} ` +
+      `${this.propertyUpdate(migration)} ` +
+      'RETURN count(item) AS processed, max(id(item)) AS checkpoint',
+      this.propertyParams(migration),
+      this.graphName,
+      { transaction, agtype: { numericType: 'string' } }
+    );
+
+    const row = result.rows[0] || {};
+    const processed = Number(row.processed ?? 0);
+    return { processed, checkpoint: processed > 0 ? String(row.checkpoint) : null };
+  }
+
+  /**
+   * Finish a migration once no items are left
+   *
+   * Merges drop the emptied label.
+   *
+   * @param migration - Data migration
+   */
+  async finish(migration: DataMigration): Promise<void> {
+    if (migration.kind === DataMigrationKind.MERGE_LABELS && await this.getLabel(migration.label)) {
+      await this.queryExecutor.executeSQL('SELECT ag_catalog.drop_label($1, $2)', [this.graphName, migration.label]);
+    }
+  }
+
+  /**
+   * Build the MATCH clause selecting the items a property migration has
+   * left after a checkpoint
+   *
+   * @param migration - Property migration
+   * @param checkpoint - Graph id of the last migrated item
+   * @returns Cypher MATCH and WHERE clauses
+   */
+  private matchProperty(
+    migration: RenamePropertyMigration | RetypePropertyMigration | BackfillPropertyMigration,
+    checkpoint: string
+  ): string {
+    if (!/^\d+$/.test(checkpoint)) {
+      throw new ValidationError(`Invalid data migration checkpoint '${checkpoint}'`);
+    }
+
+    const label = quoteCypherIdentifier(migration.label);
+    const pattern = migration.isEdge ? `()-[item:${label}]->()` : `(item:${label})`;
+    const property = `item.${quoteCypherIdentifier(
+      migration.kind === DataMigrationKind.RENAME_PROPERTY ? migration.from : migration.property
+    )}`;
+    const filter = migration.kind === DataMigrationKind.BACKFILL_PROPERTY
+      ? `${property} IS NULL`
+      : `${property} IS NOT NULL`;
+
+    return `MATCH ${pattern} WHERE id(item) > ${checkpoint} AND ${filter}`;
+  }
+
+  /**
+   * Build the SET and REMOVE clauses of a property migration
+   *
+   * @param migration - Property migration
+   * @returns Cypher clauses
+   */
+  private propertyUpdate(
+    migration: RenamePropertyMigration | RetypePropertyMigration | BackfillPropertyMigration
+  ): string {
+    switch (migration.kind) {
+      case DataMigrationKind.RENAME_PROPERTY: {
+        const from = `item.${quoteCypherIdentifier(migration.from)}`;
+        return `SET item.${quoteCypherIdentifier(migration.to)} = ${from} REMOVE ${from}`;
+      }
+      case DataMigrationKind.RETYPE_PROPERTY: {
+        const property = `item.${quoteCypherIdentifier(migration.property)}`;
+        return `SET ${property} = ${CONVERSIONS[migration.type]}(${property})`;
+      }
+      case DataMigrationKind.BACKFILL_PROPERTY:
+        return `SET item.${quoteCypherIdentifier(migration.property)} = $value`;
+    }
+  }
+
+  /**
+   * Get the Cypher parameters of a property migration
+   *
+   * @param migration - Property migration
+   * @returns Cypher parameters
+   */
+  private propertyParams(
+    migration: RenamePropertyMigration | RetypePropertyMigration | BackfillPropertyMigration
+  ): Record<string, unknown> | undefined {
+    return migration.kind === DataMigrationKind.BACKFILL_PROPERTY ? { value: migration.value } : undefined;
+  }
+
+  /**
+   * Build the SQL condition selecting the vertices a label move has left
+   * after a checkpoint
+   *
+   * @param migration - Label move
+   * @param checkpoint - Graph id of the last moved vertex
+   * @returns SQL condition and its parameters
+   */
+  private moveCondition(
+    migration: SplitLabelMigration | MergeLabelsMigration,
+    checkpoint: string
+  ): { condition: string; params: unknown[] } {
+    if (migration.kind === DataMigrationKind.SPLIT_LABEL) {
+      return {
+        condition: 'id > $1::text::ag_catalog.graphid AND properties @> $2::text::ag_catalog.agtype',
+        params: [checkpoint, JSON.stringify(migration.where)],
+      };
+    }
+    return { condition: 'id > $1::text::ag_catalog.graphid', params: [checkpoint] };
+  }
+
+  /**
+   * Move the next batch of vertices of a label move
+   *
+   * Moved vertices get graph ids of the target label, and the edges
+   * connecting them are pointed at the new ids.
+   *
+   * @param migration - Label move
+   * @param checkpoint - Graph id of the last moved vertex
+   * @param batchSize - Largest number of vertices to move
+   * @param transaction - Transaction to run in
+   * @returns Batch result
+   */
+  private async moveBatch(
+    migration: SplitLabelMigration | MergeLabelsMigration,
+    checkpoint: string,
+    batchSize: number,
+    transaction?: any
+  ): Promise<DataMigrationBatch> {
+    const source = await this.getLabel(migration.label);
+    const targetName = migration.kind === DataMigrationKind.SPLIT_LABEL ? migration.newLabel : migration.into;
+    const target = await this.getLabel(targetName);
+    if (!source || !target || source.kind !== 'v' || target.kind !== 'v') {
+      throw new ValidationError(
+        `Labels '${migration.label}' and '${targetName}' must be vertex labels of graph '${this.graphName}'`
+      );
+    }
+
+    const { condition, params } = this.moveCondition(migration, checkpoint);
+    const graph = quoteIdentifier(this.graphName);
+    const options = { transaction };
+
+    await this.queryExecutor.executeSQL(`
+      CREATE TEMP TABLE age_label_move ON COMMIT DROP AS
+      SELECT id AS old_id,
+        ag_catalog._graphid($${params.length + 1}, nextval($${params.length + 2}::regclass)) AS new_id,
+        properties
+      FROM ONLY ${this.table(migration.label)}
+      WHERE ${condition}
+      ORDER BY id
+      LIMIT ${Math.floor(batchSize)}
+    `, [...params, target.id, `${graph}.${quoteIdentifier(target.seqName)}`], options);
+    await this.queryExecutor.executeSQL(
+      `INSERT INTO ${this.table(targetName)} (id, properties) SELECT new_id, properties FROM age_label_move`,
+      [],
+      options
+    );
+    await this.queryExecutor.executeSQL(
+      `UPDATE ${graph}._ag_label_edge e SET start_id = m.new_id FROM age_label_move m WHERE e.start_id = m.old_id`,
+      [],
+      options
+    );
+    await this.queryExecutor.executeSQL(
+      `UPDATE ${graph}._ag_label_edge e SET end_id = m.new_id FROM age_label_move m WHERE e.end_id = m.old_id`,
+      [],
+      options
+    );
+    await this.queryExecutor.executeSQL(
+      `DELETE FROM ONLY ${this.table(migration.label)} v USING age_label_move m WHERE v.id = m.old_id`,
+      [],
+      options
+    );
+    const result = await this.queryExecutor.executeSQL(
+      'SELECT count(*) AS processed, max(old_id)::text AS checkpoint FROM age_label_move',
+      [],
+      options
+    );
+
+    const processed = Number(result.rows[0]?.processed ?? 0);
+    return { processed, checkpoint: processed > 0 ? String(result.rows[0].checkpoint) : null };
+  }
+
+  /**
+   * Get a label of the graph
+   *
+   * @param label - Label name
+   * @returns Label id, kind and sequence, or null if it does not exist
+   */
+  private async getLabel(label: string): Promise<{ id: number; kind: 'v' | 'e'; seqName: string } | null> {
+    const result = await this.queryExecutor.executeSQL(`
+      SELECT l.id, l.kind, l.seq_name::text AS seq_name
+      FROM ag_catalog.ag_label l
+      JOIN ag_catalog.ag_graph g ON g.graphid = l.graph
+      WHERE g.name = $1 AND l.name = $2
+    `, [this.graphName, label]);
+
+    const row = result.rows[0];
+    return row ? { id: Number(row.id), kind: row.kind, seqName: row.seq_name } : null;
+  }
+
+  /**
+   * Get the quoted name of a label table
+   *
+   * @param label - Label name
+   * @returns Schema-qualified table name
+   */
+  private table(label: string): string {
+    return `${quoteIdentifier(this.graphName)}.${quoteIdentifier(label)}`;
+  }
+}
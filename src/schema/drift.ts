@@ -0,0 +1,422 @@
+/**
+ * Schema drift detection
+ *
+ * Checks the data of a live graph against its declared schema: labels that
+ * only exist on one side, items missing required properties, holding values
+ * of the wrong type or unknown properties, and edges connecting labels their
+ * definition does not allow.
+ *
+ * Properties are compared through their JSON form, so agtype values without
+ * a JSON equivalent (NaN and infinite floats) cannot be checked.
+ *
+ * @packageDocumentation
+ */
+
+import { EdgeLabel, PropertyDefinition, PropertyType, SchemaDefinition, VertexLabel } from './types';
+import { QueryExecutor } from '../db/query';
+import { validateGraphName } from '../db/graph-manager';
+import { ValidationError } from '../core/errors';
+import { quoteIdentifier } from '../sql/utils';
+import { formatVersion } from './utils';
+import { EndpointPair, GraphLabel, countEdgeEndpoints, getGraphLabels } from './catalog';
+
+/**
+ * Drift of the items of one label
+ */
+export interface LabelDrift {
+  /**
+   * Number of items with the label
+   */
+  count: number;
+
+  /**
+   * Number of items missing each required property
+   */
+  missingRequired: Record<string, number>;
+
+  /**
+   * Number of items holding a value of the wrong type in each property
+   */
+  wrongType: Record<string, number>;
+
+  /**
+   * Number of items holding each property the schema does not define
+   */
+  unknownProperties: Record<string, number>;
+}
+
+/**
+ * Drift of the items of one edge label
+ */
+export interface EdgeLabelDrift extends LabelDrift {
+  /**
+   * Source and target labels the schema allows
+   */
+  expected: { from: string; to: string };
+
+  /**
+   * Edges connecting other labels, most frequent first
+   */
+  invalidEndpoints: EndpointPair[];
+
+  /**
+   * Number of edges connecting vertices without a label
+   */
+  unlabeledEndpoints: number;
+}
+
+/**
+ * Labels of one kind present on one side only
+ */
+export interface LabelDifference {
+  /**
+   * Vertex labels
+   */
+  vertices: string[];
+
+  /**
+   * Edge labels
+   */
+  edges: string[];
+}
+
+/**
+ * Schema drift report
+ *
+ * The report only holds JSON values, so `JSON.stringify` gives its machine
+ * readable form; `formatDriftReport` gives a summary for people.
+ */
+export interface DriftReport {
+  /**
+   * Checked graph
+   */
+  graphName: string;
+
+  /**
+   * Version of the schema the graph was checked against
+   */
+  schemaVersion: string;
+
+  /**
+   * Time of the check, as an ISO 8601 string
+   */
+  checkedAt: string;
+
+  /**
+   * Whether any drift was found
+   */
+  hasDrift: boolean;
+
+  /**
+   * Labels that exist in the graph but not in the schema
+   */
+  unexpectedLabels: LabelDifference;
+
+  /**
+   * Labels that exist in the schema but not in the graph
+   */
+  missingLabels: LabelDifference;
+
+  /**
+   * Drift of the vertex labels present on both sides
+   */
+  vertices: Record<string, LabelDrift>;
+
+  /**
+   * Drift of the edge labels present on both sides
+   */
+  edges: Record<string, EdgeLabelDrift>;
+}
+
+/**
+ * Build the SQL condition a JSON value of a property type satisfies
+ *
+ * Dates and date-times are strings starting with an ISO 8601 date.
+ *
+ * @param type - Property type
+ * @param value - SQL expression of the JSON value
+ * @returns SQL condition
+ */
+function typeCondition(type: PropertyType, value: string): string {
+  switch (type) {
+    case PropertyType.STRING:
+      return `jsonb_typeof(${value}) = 'string'`;
+    case PropertyType.NUMBER:
+    case PropertyType.FLOAT:
+      return `jsonb_typeof(${value}) = 'number'`;
+    case PropertyType.INTEGER:
+      return `CASE WHEN jsonb_typeof(${value}) = 'number' THEN (${value} #>> '{}')::numeric % 1 = 0 ELSE false END`;
+    case PropertyType.BOOLEAN:
+      return `jsonb_typeof(${value}) = 'boolean'`;
+    case PropertyType.DATE:
+    case PropertyType.DATETIME:
+      return `CASE WHEN jsonb_typeof(${value}) = 'string' ` +
+        `THEN (${value} #>> '{}') ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}' ELSE false END`;
+    case PropertyType.OBJECT:
+      return `jsonb_typeof(${value}) = 'object'`;
+    case PropertyType.ARRAY:
+      return `jsonb_typeof(${value}) = 'array'`;
+    default:
+      return 'true';
+  }
+}
+
+/**
+ * Resolve the source and target labels of an edge definition
+ *
+ * @param edge - Edge definition
+ * @returns Source and target labels
+ */
+function resolveEndpoints(edge: EdgeLabel): { from: string; to: string } {
+  const resolve = (direct: string | undefined, constraint: EdgeLabel['fromVertex']): string =>
+    direct || (typeof constraint === 'string' ? constraint : constraint?.label);
+
+  return {
+    from: resolve(edge.fromLabel || edge.from, edge.fromVertex),
+    to: resolve(edge.toLabel || edge.to, edge.toVertex),
+  };
+}
+
+/**
+ * Check whether a label drift holds any finding
+ *
+ * @param drift - Label drift
+ * @returns Whether the label drifted
+ */
+function labelDrifted(drift: LabelDrift): boolean {
+  return [drift.missingRequired, drift.wrongType, drift.unknownProperties]
+    .some(counts => Object.keys(counts).length > 0);
+}
+
+/**
+ * Schema drift detector
+ *
+ * @example
+ * ```typescript
+ * const detector = new SchemaDriftDetector(queryExecutor);
+ * const report = await detector.detectDrift(schema, 'social');
+ *
+ * await fs.writeFile('drift.json', JSON.stringify(report, null, 2));
+ * if (report.hasDrift) {
+ *   console.log(formatDriftReport(report));
+ * }
+ * ```
+ */
+export class SchemaDriftDetector {
+  /**
+   * Create a new SchemaDriftDetector
+   *
+   * @param queryExecutor - Query executor
+   */
+  constructor(private queryExecutor: QueryExecutor) {}
+
+  /**
+   * Check the data of a graph against a schema
+   *
+   * Every item of the labels present on both sides is checked, so the
+   * check reads the whole graph.
+   *
+   * @param schema - Schema definition
+   * @param graphName - Graph name
+   * @returns Drift report
+   * @throws ValidationError if the graph does not exist
+   */
+  async detectDrift(schema: SchemaDefinition, graphName: string): Promise<DriftReport> {
+    validateGraphName(graphName);
+
+    const labels = await getGraphLabels(this.queryExecutor, graphName);
+    if (!labels) {
+      throw new ValidationError(`Graph '${graphName}' does not exist`);
+    }
+
+    const vertexLabels = labels.filter(label => label.kind === 'v').map(label => label.name);
+    const edgeLabels = labels.filter(label => label.kind === 'e').map(label => label.name);
+    const schemaVertices = schema.vertices || {};
+    const schemaEdges = schema.edges || {};
+
+    const report: DriftReport = {
+      graphName,
+      schemaVersion: typeof schema.version === 'string' ? schema.version : formatVersion(schema.version),
+      checkedAt: new Date().toISOString(),
+      hasDrift: false,
+      unexpectedLabels: {
+        vertices: vertexLabels.filter(label => !schemaVertices[label]),
+        edges: edgeLabels.filter(label => !schemaEdges[label]),
+      },
+      missingLabels: {
+        vertices: Object.keys(schemaVertices).filter(label => !vertexLabels.includes(label)),
+        edges: Object.keys(schemaEdges).filter(label => !edgeLabels.includes(label)),
+      },
+      vertices: {},
+      edges: {},
+    };
+
+    for (const label of vertexLabels.filter(candidate => schemaVertices[candidate])) {
+      report.vertices[label] = await this.checkLabel(graphName, label, schemaVertices[label]);
+    }
+
+    for (const label of edgeLabels.filter(candidate => schemaEdges[candidate])) {
+      report.edges[label] = await this.checkEdgeLabel(graphName, label, schemaEdges[label], labels);
+    }
+
+    report.hasDrift =
+      [report.unexpectedLabels, report.missingLabels].some(diff => diff.vertices.length + diff.edges.length > 0) ||
+      Object.values(report.vertices).some(labelDrifted) ||
+      Object.values(report.edges).some(drift =>
+        labelDrifted(drift) || drift.invalidEndpoints.length > 0 || drift.unlabeledEndpoints > 0
+      );
+
+    return report;
+  }
+
+  /**
+   * Count the items of a label breaking its definition
+   *
+   * @param graphName - Graph name
+   * @param label - Label name
+   * @param definition - Label definition
+   * @returns Label drift
+   */
+  private async checkLabel(
+    graphName: string,
+    label: string,
+    definition: VertexLabel | EdgeLabel
+  ): Promise<LabelDrift> {
+    const table = `${quoteIdentifier(graphName)}.${quoteIdentifier(label)}`;
+    const properties: Record<string, PropertyDefinition> = definition.properties || {};
+    const required = definition.required || [];
+    const typed = Object.keys(properties).filter(name => properties[name].type !== PropertyType.ANY);
+
+    const params: string[] = [];
+    const param = (name: string) => {
+      params.push(name);
+      return `$${params.length}::text`;
+    };
+
+    const columns = ['count(*) AS count'];
+    required.forEach((name, index) => {
+      const key = param(name);
+      columns.push(`count(*) FILTER (WHERE COALESCE(jsonb_typeof(p -> ${key}), 'null') = 'null') AS missing_${index}`);
+    });
+    typed.forEach((name, index) => {
+      const key = param(name);
+      const types = Array.isArray(properties[name].type) ? properties[name].type as PropertyType[] : [properties[name].type as PropertyType];
+      const matches = types.map(type => `(${typeCondition(type, `p -> ${key}`)})`).join(' OR ');
+      columns.push(
+        `count(*) FILTER (WHERE COALESCE(jsonb_typeof(p -> ${key}), 'null') <> 'null' AND NOT (${matches})) AS wrong_${index}`
+      );
+    });
+
+    const counts = await this.queryExecutor.executeSQL(`
+      SELECT ${columns.join(',\n        ')}
+      FROM (SELECT properties::text::jsonb AS p FROM ONLY ${table}) items
+    `, params, { readOnly: true });
+    const unknown = await this.queryExecutor.executeSQL(`
+      SELECT keys.name AS property, count(*) AS count
+      FROM ONLY ${table} i
+      CROSS JOIN LATERAL jsonb_object_keys(i.properties::text::jsonb) AS keys(name)
+      WHERE NOT (keys.name = ANY($1::text[]))
+      GROUP BY keys.name
+      ORDER BY keys.name
+    `, [Object.keys(properties)], { readOnly: true });
+
+    const row = counts.rows[0] || {};
+    const drift: LabelDrift = { count: Number(row.count ?? 0), missingRequired: {}, wrongType: {}, unknownProperties: {} };
+    required.forEach((name, index) => {
+      const count = Number(row[`missing_${index}`] ?? 0);
+      if (count > 0) {
+        drift.missingRequired[name] = count;
+      }
+    });
+    typed.forEach((name, index) => {
+      const count = Number(row[`wrong_${index}`] ?? 0);
+      if (count > 0) {
+        drift.wrongType[name] = count;
+      }
+    });
+    for (const unknownRow of unknown.rows) {
+      drift.unknownProperties[unknownRow.property] = Number(unknownRow.count);
+    }
+
+    return drift;
+  }
+
+  /**
+   * Count the edges of a label breaking its definition
+   *
+   * @param graphName - Graph name
+   * @param label - Edge label
+   * @param definition - Edge definition
+   * @param labels - Labels of the graph
+   * @returns Edge label drift
+   */
+  private async checkEdgeLabel(
+    graphName: string,
+    label: string,
+    definition: EdgeLabel,
+    labels: GraphLabel[]
+  ): Promise<EdgeLabelDrift> {
+    const drift = await this.checkLabel(graphName, label, definition);
+    const expected = resolveEndpoints(definition);
+    const { pairs, unlabeled } = await countEdgeEndpoints(this.queryExecutor, graphName, label, labels);
+
+    return {
+      ...drift,
+      expected,
+      invalidEndpoints: pairs.filter(pair => pair.from !== expected.from || pair.to !== expected.to),
+      unlabeledEndpoints: unlabeled,
+    };
+  }
+}
+
+/**
+ * Format a drift report as a summary for people
+ *
+ * @param report - Drift report
+ * @returns Multi-line summary
+ */
+export function formatDriftReport(report: DriftReport): string {
+  const header = `Graph '${report.graphName}' against schema ${report.schemaVersion} (checked ${report.checkedAt})`;
+  if (!report.hasDrift) {
+    return `${header}: no drift`;
+  }
+
+  const lines = [`${header}: drift found`];
+  const labelList = (diff: LabelDifference) => [
+    ...diff.vertices.map(label => `vertex ${label}`),
+    ...diff.edges.map(label => `edge ${label}`),
+  ].join(', ');
+
+  if (report.unexpectedLabels.vertices.length + report.unexpectedLabels.edges.length > 0) {
+    lines.push(`  Labels in the graph but not in the schema: ${labelList(report.unexpectedLabels)}`);
+  }
+  if (report.missingLabels.vertices.length + report.missingLabels.edges.length > 0) {
+    lines.push(`  Labels in the schema but not in the graph: ${labelList(report.missingLabels)}`);
+  }
+
+  const labelLines = (label: string, noun: string, drift: LabelDrift, extra: string[]) => {
+    const findings = [
+      ...Object.entries(drift.missingRequired).map(([name, count]) => `${count} missing required property '${name}'`),
+      ...Object.entries(drift.wrongType).map(([name, count]) => `${count} with a wrong type in '${name}'`),
+      ...Object.entries(drift.unknownProperties).map(([name, count]) => `${count} with unknown property '${name}'`),
+      ...extra,
+    ];
+    if (findings.length > 0) {
+      lines.push(`  ${label} (${drift.count} ${noun}):`, ...findings.map(finding => `    ${finding}`));
+    }
+  };
+
+  for (const [label, drift] of Object.entries(report.vertices)) {
+    labelLines(label, 'vertices', drift, []);
+  }
+  for (const [label, drift] of Object.entries(report.edges)) {
+    labelLines(label, 'edges', drift, [
+      ...drift.invalidEndpoints.map(pair =>
+        `${pair.count} from ${pair.from} to ${pair.to} instead of ${drift.expected.from} to ${drift.expected.to}`
+      ),
+      ...(drift.unlabeledEndpoints > 0 ? [`${drift.unlabeledEndpoints} connecting vertices without a label`] : []),
+    ]);
+  }
+
+  return lines.join('\n');
+}
@@ -144,6 +144,32 @@ export class CircularDependencyError extends SchemaValidationError {
   }
 }
 
+/**
+ * Error thrown when data violates a unique constraint of a label
+ */
+export class UniqueConstraintError extends SchemaValidationError {
+  /**
+   * Create a new UniqueConstraintError
+   * 
+   * @param label - Vertex or edge label
+   * @param properties - Properties of the violated constraint
+   * @param values - Duplicated values in constraint order
+   * @param detail - Where the duplicate was found
+   */
+  constructor(
+    public readonly label: string,
+    public readonly properties: string[],
+    public readonly values: unknown[],
+    detail: string
+  ) {
+    super(
+      `Unique constraint on ${label}(${properties.join(', ')}) violated by ${JSON.stringify(values)}: ${detail}`,
+      label
+    );
+    this.name = 'UniqueConstraintError';
+  }
+}
+
 /**
  * Error thrown when a schema version is incompatible
  */
@@ -165,6 +191,32 @@ export class SchemaVersionError extends SchemaError {
   }
 }
 
+/**
+ * Error thrown when an applied migration no longer matches its plan
+ */
+export class MigrationChecksumError extends SchemaError {
+  /**
+   * Create a new MigrationChecksumError
+   * 
+   * @param sourceVersion - Source version of the migration
+   * @param targetVersion - Target version of the migration
+   * @param appliedChecksum - Checksum recorded when the migration was applied
+   * @param plannedChecksum - Checksum of the migration planned now
+   */
+  constructor(
+    public readonly sourceVersion: string,
+    public readonly targetVersion: string,
+    public readonly appliedChecksum: string,
+    public readonly plannedChecksum: string
+  ) {
+    super(
+      `Migration ${sourceVersion} -> ${targetVersion} was applied with checksum ${appliedChecksum}, ` +
+      `but the schemas now plan checksum ${plannedChecksum}`
+    );
+    this.name = 'MigrationChecksumError';
+  }
+}
+
 /**
  * Container for multiple validation errors
  */
@@ -33,3 +33,12 @@ export * from './migration';
 
 // Export schema migration executor
 export * from './migration-executor';
+
+// Export data migrations
+export * from './data-migration';
+
+// Export schema introspector
+export * from './introspector';
+
+// Export schema drift detection
+export * from './drift';
@@ -0,0 +1,570 @@
+/**
+ * Schema introspection
+ *
+ * Reads the labels of an existing AGE graph from `ag_catalog.ag_label`,
+ * samples the properties of its vertices and edges, and infers a schema
+ * definition together with a report of how confident each inference is.
+ *
+ * Confidence is a number between 0 and 1. Inferences drawn from samples are
+ * scaled by the amount of evidence, `n / (n + 1)` for `n` observations, so a
+ * property seen once is never reported with more than 0.5 confidence.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  EdgeLabel,
+  EdgeMultiplicity,
+  PropertyDefinition,
+  PropertyType,
+  SchemaDefinition,
+  VertexLabel,
+} from './types';
+import { SchemaParser } from './parser';
+import { QueryExecutor } from '../db/query';
+import { parseAgtype } from '../db/agtype';
+import { validateGraphName } from '../db/graph-manager';
+import { ValidationError } from '../core/errors';
+import { quoteIdentifier } from '../sql/utils';
+import { EndpointPair, countEdgeEndpoints, getGraphLabels } from './catalog';
+
+export type { EndpointPair } from './catalog';
+
+/**
+ * ISO 8601 date
+ */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * ISO 8601 date and time
+ */
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Schema introspection options
+ */
+export interface IntrospectionOptions {
+  /**
+   * Maximum number of vertices or edges sampled per label
+   * @default 1000
+   */
+  sampleSize?: number;
+
+  /**
+   * Maximum number of distinct values of a string property inferred as an
+   * enum
+   * @default 10
+   */
+  maxEnumValues?: number;
+
+  /**
+   * Version of the inferred schema
+   * @default '1.0.0'
+   */
+  version?: string;
+}
+
+/**
+ * Inference about one property of a label
+ */
+export interface PropertyReport {
+  /**
+   * Inferred type; several types when the sampled values disagree
+   */
+  type: PropertyType | PropertyType[];
+
+  /**
+   * Confidence in the type
+   */
+  typeConfidence: number;
+
+  /**
+   * Share of sampled items that have the property
+   */
+  coverage: number;
+
+  /**
+   * Whether the property was inferred as required
+   */
+  required: boolean;
+
+  /**
+   * Confidence in the required inference
+   */
+  requiredConfidence: number;
+
+  /**
+   * Values of the property when it was inferred as an enum
+   */
+  enum?: string[];
+
+  /**
+   * Confidence in the enum inference
+   */
+  enumConfidence?: number;
+}
+
+/**
+ * Inferences about one vertex label
+ */
+export interface LabelReport {
+  /**
+   * Number of items with the label
+   */
+  count: number;
+
+  /**
+   * Number of items sampled
+   */
+  sampled: number;
+
+  /**
+   * Inferences about the properties
+   */
+  properties: Record<string, PropertyReport>;
+}
+
+/**
+ * Inferences about one edge label
+ */
+export interface EdgeLabelReport extends LabelReport {
+  /**
+   * Endpoint label pairs, most frequent first; the schema uses the first
+   */
+  endpoints: EndpointPair[];
+
+  /**
+   * Share of edges between the endpoint labels used in the schema
+   */
+  endpointConfidence: number;
+
+  /**
+   * Inferred multiplicity
+   */
+  multiplicity: EdgeMultiplicity;
+
+  /**
+   * Largest number of edges leaving one vertex
+   */
+  maxOutDegree: number;
+
+  /**
+   * Largest number of edges entering one vertex
+   */
+  maxInDegree: number;
+
+  /**
+   * Confidence in the multiplicity
+   */
+  multiplicityConfidence: number;
+}
+
+/**
+ * Report of a schema introspection
+ */
+export interface IntrospectionReport {
+  /**
+   * Introspected graph
+   */
+  graphName: string;
+
+  /**
+   * Inferences about the vertex labels
+   */
+  vertices: Record<string, LabelReport>;
+
+  /**
+   * Inferences about the edge labels
+   */
+  edges: Record<string, EdgeLabelReport>;
+
+  /**
+   * Labels that could not be described and other findings
+   */
+  warnings: string[];
+}
+
+/**
+ * Result of a schema introspection
+ */
+export interface IntrospectionResult {
+  /**
+   * Inferred schema definition
+   */
+  schema: SchemaDefinition;
+
+  /**
+   * Confidence report
+   */
+  report: IntrospectionReport;
+}
+
+/**
+ * Weight of the evidence given by a number of observations
+ *
+ * @param observations - Number of observations
+ * @returns Weight between 0 and 1
+ */
+function evidence(observations: number): number {
+  return observations / (observations + 1);
+}
+
+/**
+ * Round a confidence to two decimals
+ *
+ * @param value - Confidence
+ * @returns Rounded confidence
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Get the property type of a sampled value
+ *
+ * @param value - Parsed agtype value
+ * @returns Property type
+ */
+function typeOfValue(value: unknown): PropertyType {
+  if (typeof value === 'boolean') {
+    return PropertyType.BOOLEAN;
+  }
+  if (typeof value === 'bigint') {
+    return PropertyType.INTEGER;
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? PropertyType.INTEGER : PropertyType.NUMBER;
+  }
+  if (typeof value === 'string') {
+    if (DATE_PATTERN.test(value)) {
+      return PropertyType.DATE;
+    }
+    return DATETIME_PATTERN.test(value) ? PropertyType.DATETIME : PropertyType.STRING;
+  }
+  if (Array.isArray(value)) {
+    return PropertyType.ARRAY;
+  }
+  return value !== null && typeof value === 'object' ? PropertyType.OBJECT : PropertyType.ANY;
+}
+
+/**
+ * Merge the counts of types that one type can describe
+ *
+ * Integers are numbers, dates are date-times, and dates and date-times
+ * mixed with other strings are strings.
+ *
+ * @param counts - Number of values per type
+ * @returns Merged counts
+ */
+function mergeTypeCounts(counts: Map<PropertyType, number>): Map<PropertyType, number> {
+  const merged = new Map(counts);
+  const fold = (from: PropertyType, into: PropertyType) => {
+    if (merged.has(from) && merged.has(into)) {
+      merged.set(into, merged.get(into)! + merged.get(from)!);
+      merged.delete(from);
+    }
+  };
+
+  fold(PropertyType.INTEGER, PropertyType.NUMBER);
+  fold(PropertyType.DATE, PropertyType.DATETIME);
+  fold(PropertyType.DATE, PropertyType.STRING);
+  fold(PropertyType.DATETIME, PropertyType.STRING);
+  return merged;
+}
+
+/**
+ * Schema introspector
+ *
+ * @example
+ * ```typescript
+ * const introspector = new SchemaIntrospector(queryExecutor);
+ * const { schema, report } = await introspector.introspect('legacy_graph');
+ *
+ * for (const [name, property] of Object.entries(report.vertices.Person.properties)) {
+ *   console.log(name, property.type, property.typeConfidence);
+ * }
+ * ```
+ */
+export class SchemaIntrospector {
+  private options: Required<IntrospectionOptions>;
+
+  /**
+   * Create a new SchemaIntrospector
+   *
+   * @param queryExecutor - Query executor
+   * @param options - Introspection options
+   */
+  constructor(
+    private queryExecutor: QueryExecutor,
+    options: IntrospectionOptions = {}
+  ) {
+    this.options = {
+      sampleSize: 1000,
+      maxEnumValues: 10,
+      version: '1.0.0',
+      ...options,
+    };
+  }
+
+  /**
+   * Infer the schema definition of a graph
+   *
+   * The definition passes `SchemaParser` validation; graphs whose edges form
+   * cycles need a parser with `detectCircularDependencies` turned off, as
+   * most graphs do.
+   *
+   * @param graphName - Graph name
+   * @returns Schema definition and confidence report
+   * @throws ValidationError if the graph does not exist
+   */
+  async introspect(graphName: string): Promise<IntrospectionResult> {
+    validateGraphName(graphName);
+
+    const labels = await getGraphLabels(this.queryExecutor, graphName);
+    if (!labels) {
+      throw new ValidationError(`Graph '${graphName}' does not exist`);
+    }
+
+    const schema: SchemaDefinition = {
+      version: this.options.version,
+      vertices: {},
+      edges: {},
+      metadata: {
+        description: `Introspected from graph '${graphName}'`,
+        created: new Date().toISOString(),
+      },
+    };
+    const report: IntrospectionReport = { graphName, vertices: {}, edges: {}, warnings: [] };
+
+    for (const label of labels.filter(candidate => candidate.kind === 'v')) {
+      const labelReport = await this.describeLabel(graphName, label.name);
+      if (labelReport.count === 0) {
+        report.warnings.push(`Vertex label '${label.name}' has no vertices; its properties are unknown`);
+      }
+
+      report.vertices[label.name] = labelReport;
+      schema.vertices[label.name] = this.toLabelDefinition(labelReport) as VertexLabel;
+    }
+
+    for (const label of labels.filter(candidate => candidate.kind === 'e')) {
+      const labelReport = await this.describeLabel(graphName, label.name);
+      const { pairs: endpoints, unlabeled } = await countEdgeEndpoints(this.queryExecutor, graphName, label.name, labels);
+      if (unlabeled > 0) {
+        report.warnings.push(`${unlabeled} edges of label '${label.name}' connect vertices without a label`);
+      }
+      const degrees = await this.getDegrees(graphName, label.name);
+      const edgeReport: EdgeLabelReport = {
+        ...labelReport,
+        endpoints,
+        endpointConfidence: endpoints.length > 0
+          ? round(endpoints[0].count / endpoints.reduce((sum, pair) => sum + pair.count, 0))
+          : 0,
+        ...this.inferMultiplicity(labelReport.count, degrees.maxOut, degrees.maxIn),
+      };
+      report.edges[label.name] = edgeReport;
+
+      if (endpoints.length === 0) {
+        report.warnings.push(
+          `Edge label '${label.name}' has no edges between labeled vertices; it is left out of the schema`
+        );
+        continue;
+      }
+      if (endpoints.length > 1) {
+        report.warnings.push(
+          `Edge label '${label.name}' connects ${endpoints.length} label pairs; the schema uses ` +
+          `${endpoints[0].from} -> ${endpoints[0].to}`
+        );
+      }
+
+      const { from, to } = endpoints[0];
+      schema.edges[label.name] = {
+        ...this.toLabelDefinition(labelReport),
+        label: label.name,
+        fromVertex: from,
+        toVertex: to,
+        from,
+        to,
+        fromLabel: from,
+        toLabel: to,
+        multiplicity: edgeReport.multiplicity,
+      } as EdgeLabel;
+    }
+
+    new SchemaParser({ detectCircularDependencies: false }).parseObject(schema);
+
+    return { schema, report };
+  }
+
+  /**
+   * Count and sample the items of a label and infer their properties
+   *
+   * @param graphName - Graph name
+   * @param label - Label name
+   * @returns Label report
+   */
+  private async describeLabel(graphName: string, label: string): Promise<LabelReport> {
+    const table = `${quoteIdentifier(graphName)}.${quoteIdentifier(label)}`;
+    const countResult = await this.queryExecutor.executeSQL(
+      `SELECT count(*) AS count FROM ONLY ${table}`,
+      [],
+      { readOnly: true }
+    );
+    const sampleResult = await this.queryExecutor.executeSQL(
+      `SELECT properties::text AS properties FROM ONLY ${table} LIMIT $1`,
+      [this.options.sampleSize],
+      { readOnly: true }
+    );
+
+    const count = Number(countResult.rows[0]?.count ?? 0);
+    const samples = sampleResult.rows.map(row =>
+      (parseAgtype(row.properties, { numericType: 'number' }) ?? {}) as Record<string, unknown>
+    );
+
+    const values = new Map<string, unknown[]>();
+    for (const sample of samples) {
+      for (const [name, value] of Object.entries(sample)) {
+        if (value === null || value === undefined) {
+          continue;
+        }
+        if (!values.has(name)) {
+          values.set(name, []);
+        }
+        values.get(name)!.push(value);
+      }
+    }
+
+    const properties: Record<string, PropertyReport> = {};
+    for (const name of [...values.keys()].sort()) {
+      properties[name] = this.inferProperty(values.get(name)!, samples.length, count);
+    }
+
+    return { count, sampled: samples.length, properties };
+  }
+
+  /**
+   * Infer the definition of a property from its sampled values
+   *
+   * @param values - Non-null sampled values
+   * @param sampled - Number of items sampled
+   * @param count - Number of items with the label
+   * @returns Property report
+   */
+  private inferProperty(values: unknown[], sampled: number, count: number): PropertyReport {
+    const typeCounts = new Map<PropertyType, number>();
+    for (const value of values) {
+      const type = typeOfValue(value);
+      typeCounts.set(type, (typeCounts.get(type) ?? 0) + 1);
+    }
+
+    const ranked = [...mergeTypeCounts(typeCounts).entries()].sort((a, b) => b[1] - a[1]);
+    const type = ranked.length === 1 ? ranked[0][0] : ranked.map(([candidate]) => candidate);
+    const coverage = values.length / sampled;
+    const required = coverage === 1;
+
+    const property: PropertyReport = {
+      type,
+      typeConfidence: round((ranked[0][1] / values.length) * evidence(values.length)),
+      coverage: round(coverage),
+      required,
+      // A missing value proves the property optional; presence everywhere is
+      // only certain when every item was sampled
+      requiredConfidence: !required || sampled === count ? 1 : round(evidence(sampled)),
+    };
+
+    if (type === PropertyType.STRING) {
+      const distinct = [...new Set(values as string[])].sort();
+      if (distinct.length <= this.options.maxEnumValues && values.length >= distinct.length * 2) {
+        property.enum = distinct;
+        property.enumConfidence = round((1 - distinct.length / values.length) * evidence(values.length));
+      }
+    }
+
+    return property;
+  }
+
+  /**
+   * Build the label definition described by a label report
+   *
+   * @param labelReport - Label report
+   * @returns Properties and required properties of the label
+   */
+  private toLabelDefinition(labelReport: LabelReport): Pick<VertexLabel, 'properties' | 'required'> {
+    const properties: Record<string, PropertyDefinition> = {};
+    const required: string[] = [];
+
+    for (const [name, property] of Object.entries(labelReport.properties)) {
+      const definition: PropertyDefinition = { type: property.type };
+      if (property.required) {
+        required.push(name);
+      } else {
+        definition.nullable = true;
+      }
+      if (property.enum) {
+        definition.stringConstraints = { enum: property.enum };
+      }
+      properties[name] = definition;
+    }
+
+    return required.length > 0 ? { properties, required } : { properties };
+  }
+
+  /**
+   * Get the largest number of edges of a label leaving and entering one
+   * vertex
+   *
+   * @param graphName - Graph name
+   * @param label - Edge label
+   * @returns Largest out- and in-degree
+   */
+  private async getDegrees(graphName: string, label: string): Promise<{ maxOut: number; maxIn: number }> {
+    const table = `${quoteIdentifier(graphName)}.${quoteIdentifier(label)}`;
+    const result = await this.queryExecutor.executeSQL(`
+      SELECT
+        COALESCE((SELECT max(c) FROM (SELECT count(*) AS c FROM ONLY ${table} GROUP BY start_id) o), 0) AS max_out,
+        COALESCE((SELECT max(c) FROM (SELECT count(*) AS c FROM ONLY ${table} GROUP BY end_id) i), 0) AS max_in
+    `, [], { readOnly: true });
+
+    return {
+      maxOut: Number(result.rows[0]?.max_out ?? 0),
+      maxIn: Number(result.rows[0]?.max_in ?? 0),
+    };
+  }
+
+  /**
+   * Infer the multiplicity of an edge label from its vertex degrees
+   *
+   * A degree above one proves the "many" side; a degree of at most one is
+   * only as certain as the number of edges it was observed on.
+   *
+   * @param count - Number of edges
+   * @param maxOut - Largest out-degree
+   * @param maxIn - Largest in-degree
+   * @returns Multiplicity fields of the edge label report
+   */
+  private inferMultiplicity(
+    count: number,
+    maxOut: number,
+    maxIn: number
+  ): Pick<EdgeLabelReport, 'multiplicity' | 'maxOutDegree' | 'maxInDegree' | 'multiplicityConfidence'> {
+    const manySources = maxIn > 1;
+    const manyTargets = maxOut > 1;
+
+    let multiplicity: EdgeMultiplicity;
+    if (manySources && manyTargets) {
+      multiplicity = EdgeMultiplicity.MANY_TO_MANY;
+    } else if (manyTargets) {
+      multiplicity = EdgeMultiplicity.ONE_TO_MANY;
+    } else if (manySources) {
+      multiplicity = EdgeMultiplicity.MANY_TO_ONE;
+    } else {
+      multiplicity = EdgeMultiplicity.ONE_TO_ONE;
+    }
+
+    return {
+      multiplicity,
+      maxOutDegree: maxOut,
+      maxInDegree: maxIn,
+      multiplicityConfidence: manySources && manyTargets ? 1 : round(evidence(count)),
+    };
+  }
+}
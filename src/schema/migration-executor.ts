@@ -4,12 +4,24 @@
  * @packageDocumentation
  */
 
-import { SchemaDefinition } from './types';
+import { createHash } from 'crypto';
+import { SchemaDefinition, VertexLabel, EdgeLabel } from './types';
 import { SQLGenerator } from '../sql/generator';
 import { QueryExecutor } from '../db/query';
 import { Transaction } from '../db/transaction';
 import { compareSchemas, SchemaChange, SchemaChangeType } from './migration';
 import { ValidationError } from '../core/errors';
+import { MigrationChecksumError, SchemaVersionError } from './errors';
+import { compareVersions, formatVersion, getUniqueConstraints } from './utils';
+import {
+  DataMigration,
+  DataMigrationProgress,
+  DataMigrationRunner,
+  canDataMigrationLoseData,
+  describeDataMigration,
+  invertDataMigration,
+  validateDataMigration,
+} from './data-migration';
 
 // Import SQL extensions
 import '../sql/extensions';
@@ -37,6 +49,12 @@ export interface MigrationStep {
    * Whether this step can cause data loss
    */
   canCauseDataLoss: boolean;
+
+  /**
+   * Data migration run in batches instead of the SQL statement, which is
+   * empty
+   */
+  data?: DataMigration;
 }
 
 /**
@@ -62,6 +80,17 @@ export interface MigrationPlan {
    * Whether the migration can cause data loss
    */
   canCauseDataLoss: boolean;
+
+  /**
+   * Steps that undo the migration, planned from the target schema back to
+   * the source schema
+   */
+  downSteps?: MigrationStep[];
+
+  /**
+   * SHA-256 checksum of the steps and down steps
+   */
+  checksum?: string;
 }
 
 /**
@@ -121,6 +150,31 @@ export interface MigrationOptions {
    * @default true
    */
   logMigration?: boolean;
+
+  /**
+   * Whether to record the migration in the migrations table; `migrateTo`
+   * always records its migrations. Recorded migrations hold the migrations
+   * advisory lock while they run
+   * @default false
+   */
+  recordHistory?: boolean;
+
+  /**
+   * Data migrations to run after the schema changes of the migration to
+   * each target version
+   */
+  dataMigrations?: Record<string, DataMigration[]>;
+
+  /**
+   * Number of vertices or edges a data migration changes per transaction
+   * @default 1000
+   */
+  batchSize?: number;
+
+  /**
+   * Called after every batch of a data migration
+   */
+  onProgress?: (progress: DataMigrationProgress) => void;
 }
 
 /**
@@ -131,8 +185,100 @@ const DEFAULT_MIGRATION_OPTIONS: MigrationOptions = {
   execute: false,
   createBackup: true,
   logMigration: true,
+  recordHistory: false,
+  batchSize: 1000,
 };
 
+/**
+ * Direction of a recorded migration
+ */
+export enum MigrationDirection {
+  UP = 'up',
+  DOWN = 'down',
+  BASELINE = 'baseline',
+}
+
+/**
+ * Status of a recorded migration
+ */
+export enum MigrationStatus {
+  RUNNING = 'running',
+  APPLIED = 'applied',
+  FAILED = 'failed',
+}
+
+/**
+ * Migration recorded in the migrations table
+ */
+export interface MigrationRecord {
+  /**
+   * Record id
+   */
+  id: number;
+
+  /**
+   * Version the migration started from
+   */
+  sourceVersion: string;
+
+  /**
+   * Version the migration moved to
+   */
+  targetVersion: string;
+
+  /**
+   * Migration direction
+   */
+  direction: MigrationDirection;
+
+  /**
+   * Checksum of the plan; down migrations record the checksum of the plan
+   * they undo
+   */
+  checksum: string;
+
+  /**
+   * Migration status
+   */
+  status: MigrationStatus;
+
+  /**
+   * Number of steps executed
+   */
+  executedSteps: number;
+
+  /**
+   * Number of steps in the plan
+   */
+  totalSteps: number;
+
+  /**
+   * Failure of the migration, naming the step that failed
+   */
+  error?: string;
+
+  /**
+   * Graph id of the last item the data migration step after the executed
+   * steps committed
+   */
+  checkpoint?: string;
+
+  /**
+   * Start time
+   */
+  startedAt: Date;
+
+  /**
+   * End time
+   */
+  finishedAt?: Date;
+}
+
+/**
+ * Version the database is at before its first recorded migration
+ */
+const INITIAL_VERSION = '0.0.0';
+
 /**
  * Schema migration executor options
  */
@@ -148,6 +294,27 @@ export interface SchemaMigrationExecutorOptions {
    * @default 'e_'
    */
   edgeTablePrefix?: string;
+
+  /**
+   * Graph whose AGE label tables back unique constraints and hold the
+   * data of data migrations
+   *
+   * Required when the migration adds or removes unique constraints or runs
+   * data migrations.
+   */
+  graphName?: string;
+
+  /**
+   * Database schema of the migrations table
+   * @default 'public'
+   */
+  migrationsSchema?: string;
+
+  /**
+   * Name of the migrations table
+   * @default 'age_schema_migrations'
+   */
+  migrationsTable?: string;
 }
 
 /**
@@ -156,8 +323,86 @@ export interface SchemaMigrationExecutorOptions {
 const DEFAULT_EXECUTOR_OPTIONS: SchemaMigrationExecutorOptions = {
   vertexTablePrefix: 'v_',
   edgeTablePrefix: 'e_',
+  migrationsSchema: 'public',
+  migrationsTable: 'age_schema_migrations',
 };
 
+/**
+ * Quote a SQL identifier
+ *
+ * @param name - Identifier
+ * @returns Quoted identifier
+ */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote a SQL string literal
+ *
+ * @param value - String value
+ * @returns Quoted literal
+ */
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Maximum length of a PostgreSQL identifier, in bytes
+ */
+const MAX_IDENTIFIER_LENGTH = 63;
+
+/**
+ * Get the name of the index backing a unique constraint
+ *
+ * The properties are named in sorted order, so that the same constraint
+ * always gets the same name. Names longer than PostgreSQL would keep are
+ * shortened and end in a hash of the full name, rather than being
+ * truncated by the server into a name another constraint may share.
+ *
+ * @param label - Vertex or edge label
+ * @param constraint - Properties of the unique constraint
+ * @returns Index name
+ */
+function uniqueIndexName(label: string, constraint: string[]): string {
+  const name = `${label}_${[...constraint].sort().join('_')}_unique`;
+  if (Buffer.byteLength(name) <= MAX_IDENTIFIER_LENGTH) {
+    return name;
+  }
+
+  const suffix = `_${createHash('sha256').update(name).digest('hex').substring(0, 12)}_unique`;
+  const characters = Array.from(name.substring(0, name.length - '_unique'.length));
+  while (Buffer.byteLength(characters.join('')) + suffix.length > MAX_IDENTIFIER_LENGTH) {
+    characters.pop();
+  }
+  return `${characters.join('')}${suffix}`;
+}
+
+/**
+ * Get the version of a schema as a string
+ *
+ * @param schema - Schema definition
+ * @returns Version string
+ */
+function schemaVersion(schema: SchemaDefinition): string {
+  return typeof schema.version === 'string' ? schema.version : formatVersion(schema.version);
+}
+
+/**
+ * Compute the checksum of migration steps
+ *
+ * @param steps - Migration steps
+ * @param downSteps - Steps undoing the migration
+ * @returns SHA-256 checksum as a hex string
+ */
+function checksumSteps(steps: MigrationStep[], downSteps: MigrationStep[]): string {
+  const statements = (list: MigrationStep[]) =>
+    list.map(step => (step.data ? { data: step.data } : { sql: step.sql, params: step.params }));
+  return createHash('sha256')
+    .update(JSON.stringify({ steps: statements(steps), downSteps: statements(downSteps) }))
+    .digest('hex');
+}
+
 /**
  * Schema migration executor
  */
@@ -167,6 +412,11 @@ export class SchemaMigrationExecutor {
    */
   private options: SchemaMigrationExecutorOptions;
 
+  /**
+   * Number of callers holding the migrations lock on this executor's session
+   */
+  private migrationLocks = 0;
+
   /**
    * Create a new schema migration executor
    *
@@ -185,6 +435,10 @@ export class SchemaMigrationExecutor {
   /**
    * Create a migration plan
    *
+   * Data migrations listed for the target version follow the schema
+   * changes; the down steps first undo the data migrations that can be
+   * undone, in reverse order.
+   *
    * @param sourceSchema - Source schema
    * @param targetSchema - Target schema
    * @param options - Migration options
@@ -203,25 +457,39 @@ export class SchemaMigrationExecutor {
       this.canChangeResultInDataLoss(change)
     );
 
-    if (dataLossChanges.length > 0 && !mergedOptions.allowDataLoss) {
+    const dataMigrations = mergedOptions.dataMigrations?.[schemaVersion(targetSchema)] ?? [];
+    const dataLossMigrations = dataMigrations.filter(canDataMigrationLoseData);
+
+    if ((dataLossChanges.length > 0 || dataLossMigrations.length > 0) && !mergedOptions.allowDataLoss) {
       throw new ValidationError(
-        `Migration contains changes that can cause data loss: ${dataLossChanges.map(c => c.path).join(', ')}`
+        `Migration contains changes that can cause data loss: ${[
+          ...dataLossChanges.map(c => c.path),
+          ...dataLossMigrations.map(describeDataMigration),
+        ].join(', ')}`
       );
     }
 
-    const steps: MigrationStep[] = [];
-
-    // Process changes to create migration steps
-    for (const change of changes) {
-      const migrationSteps = this.createMigrationStepsForChange(change, sourceSchema, targetSchema);
-      steps.push(...migrationSteps);
-    }
+    const steps = [
+      ...this.createMigrationSteps(changes, sourceSchema, targetSchema),
+      ...this.createDataMigrationSteps(dataMigrations),
+    ];
+    const downSteps = [
+      ...this.createDataMigrationSteps(
+        dataMigrations
+          .map(invertDataMigration)
+          .filter((migration): migration is DataMigration => migration !== null)
+          .reverse()
+      ),
+      ...this.createMigrationSteps(compareSchemas(targetSchema, sourceSchema), targetSchema, sourceSchema),
+    ];
 
     return {
       sourceVersion: String(sourceSchema.version || 'unknown'),
       targetVersion: String(targetSchema.version || 'unknown'),
       steps,
-      canCauseDataLoss: dataLossChanges.length > 0,
+      canCauseDataLoss: dataLossChanges.length > 0 || dataLossMigrations.length > 0,
+      downSteps,
+      checksum: checksumSteps(steps, downSteps),
     };
   }
 
@@ -259,29 +527,344 @@ export class SchemaMigrationExecutor {
       };
     }
 
-    // Create a transaction
-    const transaction = await this.queryExecutor.beginTransaction();
+    return this.runMigration(plan, MigrationDirection.UP, mergedOptions);
+  }
+
+  /**
+   * Migrate the database to a schema version
+   *
+   * The database is at the target version of the last migration applied in
+   * the migrations table, or at an empty schema (version 0.0.0) before the
+   * first one; `baseline` records the version of a database created before
+   * the migrations table. The database then moves through every schema
+   * version up or down to the requested one, applying the steps, or the
+   * down steps, of one migration per transaction and recording each in the
+   * migrations table.
+   *
+   * Executed migrations hold a PostgreSQL advisory lock, so a concurrent
+   * `migrateTo` waits for this one to end and then finds the database
+   * migrated. Migrations are refused when an applied migration no longer has
+   * the checksum the schemas plan for it now.
+   *
+   * When the last recorded migration failed or was interrupted after
+   * committing some of its data migration batches, the same migration
+   * resumes from its last committed step and checkpoint.
+   *
+   * @param version - Target version
+   * @param schemas - Schema definitions of the versions, in any order
+   * @param options - Migration options
+   * @returns Results of the migrations, ending at the first failure
+   * @throws SchemaVersionError if the target or current version has no schema
+   * @throws MigrationChecksumError if an applied migration was changed
+   * @throws ValidationError if a migration can cause data loss and
+   * allowDataLoss is not enabled
+   */
+  async migrateTo(
+    version: string,
+    schemas: SchemaDefinition[],
+    options: MigrationOptions = {}
+  ): Promise<MigrationResult[]> {
+    const mergedOptions = { ...DEFAULT_MIGRATION_OPTIONS, ...options, recordHistory: true };
+    const versions = this.orderSchemas(schemas);
+    const targetIndex = versions.findIndex(schema => schemaVersion(schema) === version);
+    if (targetIndex < 0) {
+      throw new SchemaVersionError(`No schema has version ${version}`, undefined, version);
+    }
+
+    await this.ensureMigrationsTable();
+    if (mergedOptions.execute) {
+      await this.lockMigrations();
+    }
 
     try {
-      // Create a backup if requested
-      if (mergedOptions.createBackup) {
-        await this.createBackup(transaction);
+      const history = await this.getMigrationHistory();
+      this.verifyChecksums(history, versions, mergedOptions);
+
+      const currentVersion = this.findCurrentVersion(history) ?? INITIAL_VERSION;
+      const currentIndex = versions.findIndex(schema => schemaVersion(schema) === currentVersion);
+      if (currentIndex < 0) {
+        throw new SchemaVersionError(
+          `The database is at version ${currentVersion}, which none of the schemas has`,
+          currentVersion,
+          version
+        );
       }
 
-      // Execute migration steps
-      let executedSteps = 0;
+      // Plan every migration before running any, so data loss is refused
+      // before the database changes
+      const plans: { plan: MigrationPlan; direction: MigrationDirection }[] = [];
+      for (let index = currentIndex; index < targetIndex; index++) {
+        plans.push({
+          plan: this.createMigrationPlan(versions[index], versions[index + 1], mergedOptions),
+          direction: MigrationDirection.UP,
+        });
+      }
+      for (let index = currentIndex; index > targetIndex; index--) {
+        const upPlan = this.createMigrationPlan(versions[index - 1], versions[index], { ...mergedOptions, allowDataLoss: true });
+        const plan: MigrationPlan = {
+          sourceVersion: upPlan.targetVersion,
+          targetVersion: upPlan.sourceVersion,
+          steps: upPlan.downSteps!,
+          canCauseDataLoss: upPlan.downSteps!.some(step => step.canCauseDataLoss),
+          downSteps: upPlan.steps,
+          checksum: upPlan.checksum,
+        };
+        if (plan.canCauseDataLoss && !mergedOptions.allowDataLoss) {
+          throw new ValidationError(
+            `Migration ${plan.sourceVersion} -> ${plan.targetVersion} can cause data loss and allowDataLoss is not enabled`
+          );
+        }
+        plans.push({ plan, direction: MigrationDirection.DOWN });
+      }
+
+      const interrupted = plans.length > 0 && mergedOptions.execute
+        ? this.findInterruptedMigration(history, plans[0].plan, plans[0].direction)
+        : null;
+      if (interrupted?.status === MigrationStatus.RUNNING) {
+        await this.recordMigrationEnd(
+          interrupted.id,
+          MigrationStatus.FAILED,
+          interrupted.executedSteps,
+          'Interrupted',
+          interrupted.checkpoint ?? null
+        );
+      }
 
-      for (const step of plan.steps) {
-        if (mergedOptions.logMigration) {
-          console.log(`Executing migration step: ${step.description}`);
+      const results: MigrationResult[] = [];
+      for (const { plan, direction } of plans) {
+        const result = await this.runMigration(plan, direction, mergedOptions, results.length === 0 ? interrupted : null);
+        results.push(result);
+        if (!result.success) {
+          break;
         }
+      }
+      return results;
+    } finally {
+      if (mergedOptions.execute) {
+        await this.unlockMigrations();
+      }
+    }
+  }
+
+  /**
+   * Record the version of a database whose schema was created before the
+   * migrations table
+   *
+   * @param version - Version of the schema the database has
+   * @throws SchemaVersionError if migrations were already recorded
+   */
+  async baseline(version: string): Promise<void> {
+    await this.ensureMigrationsTable();
+    const currentVersion = this.findCurrentVersion(await this.getMigrationHistory());
+    if (currentVersion !== null) {
+      throw new SchemaVersionError(
+        `Cannot baseline version ${version}: the database is already at version ${currentVersion}`,
+        currentVersion,
+        version
+      );
+    }
+
+    await this.queryExecutor.executeSQL(`
+      INSERT INTO ${this.getMigrationsTableName()}
+        (source_version, target_version, direction, checksum, status, executed_steps, total_steps, finished_at)
+      VALUES ($1, $1, $2, '', $3, 0, 0, now())
+    `, [version, MigrationDirection.BASELINE, MigrationStatus.APPLIED]);
+  }
+
+  /**
+   * Get the version of the last applied migration
+   *
+   * @returns Current version, or null if no migration was recorded
+   */
+  async getCurrentVersion(): Promise<string | null> {
+    await this.ensureMigrationsTable();
+    return this.findCurrentVersion(await this.getMigrationHistory());
+  }
+
+  /**
+   * Get the migrations recorded in the migrations table
+   *
+   * @returns Migration records, oldest first
+   */
+  async getMigrationHistory(): Promise<MigrationRecord[]> {
+    const result = await this.queryExecutor.executeSQL(`
+      SELECT id, source_version, target_version, direction, checksum, status,
+        executed_steps, total_steps, error, checkpoint, started_at, finished_at
+      FROM ${this.getMigrationsTableName()}
+      ORDER BY id
+    `);
+
+    return result.rows.map(row => ({
+      id: Number(row.id),
+      sourceVersion: row.source_version,
+      targetVersion: row.target_version,
+      direction: row.direction,
+      checksum: row.checksum,
+      status: row.status,
+      executedSteps: Number(row.executed_steps),
+      totalSteps: Number(row.total_steps),
+      error: row.error ?? undefined,
+      checkpoint: row.checkpoint ?? undefined,
+      startedAt: new Date(row.started_at),
+      finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+    }));
+  }
+
+  /**
+   * Execute a migration plan, holding the migrations lock while a recorded
+   * migration runs
+   *
+   * @param plan - Migration plan
+   * @param direction - Migration direction
+   * @param options - Migration options
+   * @param resume - Interrupted run of the plan to continue
+   * @returns Migration result
+   * @private
+   */
+  private async runMigration(
+    plan: MigrationPlan,
+    direction: MigrationDirection,
+    options: MigrationOptions,
+    resume: MigrationRecord | null = null
+  ): Promise<MigrationResult> {
+    if (!options.execute) {
+      return {
+        success: true,
+        plan,
+        executedSteps: 0,
+        totalSteps: plan.steps.length,
+      };
+    }
+
+    if (!options.recordHistory) {
+      return this.executeMigrationSteps(plan, direction, options, resume);
+    }
+
+    await this.lockMigrations();
+    try {
+      return await this.executeMigrationSteps(plan, direction, options, resume);
+    } finally {
+      await this.unlockMigrations();
+    }
+  }
 
-        await this.queryExecutor.executeSQL(step.sql, step.params, { transaction });
-        executedSteps++;
+  /**
+   * Execute the steps of a migration plan
+   *
+   * Consecutive SQL steps run in one transaction, and data migration steps
+   * run one transaction per batch, so a plan without data migrations runs
+   * in a single transaction. A recorded migration is inserted as running
+   * before the first transaction begins and updated with the steps and
+   * checkpoint each transaction commits; it is marked applied with the last
+   * transaction, and marked failed with the failing step after a rollback.
+   *
+   * @param plan - Migration plan
+   * @param direction - Migration direction
+   * @param options - Migration options
+   * @param resume - Interrupted run of the plan to continue
+   * @returns Migration result
+   * @private
+   */
+  private async executeMigrationSteps(
+    plan: MigrationPlan,
+    direction: MigrationDirection,
+    options: MigrationOptions,
+    resume: MigrationRecord | null
+  ): Promise<MigrationResult> {
+    // Steps and checkpoint the committed transactions reached
+    let executedSteps = resume?.executedSteps ?? 0;
+    let checkpoint = resume?.checkpoint ?? null;
+    const recordId = options.recordHistory
+      ? await this.recordMigrationStart(plan, direction, executedSteps, checkpoint)
+      : undefined;
+
+    let transaction: Transaction | null = null;
+    let backupCreated = false;
+    let currentStep = executedSteps;
+
+    const begin = async (): Promise<Transaction> => {
+      transaction = await this.queryExecutor.beginTransaction();
+      // Create a backup if requested
+      if (options.createBackup && !backupCreated) {
+        await this.createBackup(transaction!);
+        backupCreated = true;
       }
+      return transaction!;
+    };
+
+    try {
+      do {
+        const step = plan.steps[currentStep];
+
+        if (step?.data) {
+          if (options.logMigration) {
+            console.log(`Executing migration step: ${step.description}`);
+          }
+
+          const runner = new DataMigrationRunner(this.queryExecutor, this.options.graphName!);
+          await runner.prepare(step.data);
+          const total = await runner.count(step.data, checkpoint ?? undefined);
+          let processed = 0;
+
+          for (;;) {
+            const batchTransaction = await begin();
+            const batch = await runner.runBatch(step.data, checkpoint ?? '0', options.batchSize!, batchTransaction);
+            if (batch.processed === 0) {
+              await batchTransaction.commit();
+              transaction = null;
+              break;
+            }
+
+            if (recordId !== undefined) {
+              await this.recordMigrationProgress(recordId, executedSteps, batch.checkpoint, batchTransaction);
+            }
+            await batchTransaction.commit();
+            transaction = null;
+
+            checkpoint = batch.checkpoint;
+            processed += batch.processed;
+            options.onProgress?.({ description: step.description, processed, total, checkpoint: checkpoint! });
+          }
+
+          await runner.finish(step.data);
+          currentStep++;
+          executedSteps = currentStep;
+          checkpoint = null;
+
+          if (recordId !== undefined) {
+            if (executedSteps === plan.steps.length) {
+              await this.recordMigrationEnd(recordId, MigrationStatus.APPLIED, executedSteps, null, null);
+            } else {
+              await this.recordMigrationProgress(recordId, executedSteps, null);
+            }
+          }
+        } else {
+          const sqlTransaction = await begin();
 
-      // Commit transaction
-      await transaction.commit();
+          while (currentStep < plan.steps.length && !plan.steps[currentStep].data) {
+            const sqlStep = plan.steps[currentStep];
+            if (options.logMigration) {
+              console.log(`Executing migration step: ${sqlStep.description}`);
+            }
+
+            await this.queryExecutor.executeSQL(sqlStep.sql, sqlStep.params, { transaction: sqlTransaction });
+            currentStep++;
+          }
+
+          if (recordId !== undefined) {
+            if (currentStep === plan.steps.length) {
+              await this.recordMigrationEnd(recordId, MigrationStatus.APPLIED, currentStep, null, null, sqlTransaction);
+            } else {
+              await this.recordMigrationProgress(recordId, currentStep, null, sqlTransaction);
+            }
+          }
+
+          // Commit transaction
+          await sqlTransaction.commit();
+          transaction = null;
+          executedSteps = currentStep;
+        }
+      } while (currentStep < plan.steps.length);
 
       return {
         success: true,
@@ -291,18 +874,288 @@ export class SchemaMigrationExecutor {
       };
     } catch (error) {
       // Rollback transaction
-      await transaction.rollback();
+      if (transaction) {
+        await (transaction as Transaction).rollback();
+      }
+
+      if (recordId !== undefined) {
+        const failedStep = plan.steps[currentStep];
+        await this.recordMigrationEnd(
+          recordId,
+          MigrationStatus.FAILED,
+          executedSteps,
+          failedStep
+            ? `Step ${currentStep + 1} of ${plan.steps.length} (${failedStep.description}) failed: ${(error as Error).message}`
+            : (error as Error).message,
+          checkpoint
+        );
+      }
 
       return {
         success: false,
         error: `Migration failed: ${(error as Error).message}`,
         plan,
-        executedSteps: 0,
+        executedSteps,
         totalSteps: plan.steps.length,
       };
     }
   }
 
+  /**
+   * Take the advisory lock serializing migrations of the migrations table
+   *
+   * The lock is taken once per executor; nested callers share it.
+   *
+   * @private
+   */
+  private async lockMigrations(): Promise<void> {
+    if (this.migrationLocks === 0) {
+      await this.queryExecutor.executeSQL('SELECT pg_advisory_lock(hashtext($1))', [this.getMigrationsTableName()]);
+    }
+    this.migrationLocks++;
+  }
+
+  /**
+   * Release the advisory lock taken by `lockMigrations`
+   *
+   * A failure to release the lock is logged rather than thrown, so it does
+   * not hide the outcome of the migration; the lock is released when the
+   * session ends.
+   *
+   * @private
+   */
+  private async unlockMigrations(): Promise<void> {
+    this.migrationLocks--;
+    if (this.migrationLocks > 0) {
+      return;
+    }
+
+    try {
+      await this.queryExecutor.executeSQL('SELECT pg_advisory_unlock(hashtext($1))', [this.getMigrationsTableName()]);
+    } catch (error) {
+      console.warn(`Failed to release the migrations lock: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get the quoted name of the migrations table
+   *
+   * @returns Schema-qualified table name
+   * @private
+   */
+  private getMigrationsTableName(): string {
+    return `${quoteIdentifier(this.options.migrationsSchema!)}.${quoteIdentifier(this.options.migrationsTable!)}`;
+  }
+
+  /**
+   * Create the migrations table if it does not exist
+   *
+   * @private
+   */
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.queryExecutor.executeSQL(`
+      CREATE TABLE IF NOT EXISTS ${this.getMigrationsTableName()} (
+        id serial PRIMARY KEY,
+        source_version text NOT NULL,
+        target_version text NOT NULL,
+        direction text NOT NULL,
+        checksum text NOT NULL,
+        status text NOT NULL,
+        executed_steps integer NOT NULL DEFAULT 0,
+        total_steps integer NOT NULL,
+        error text,
+        checkpoint text,
+        started_at timestamptz NOT NULL DEFAULT now(),
+        finished_at timestamptz
+      );
+      ALTER TABLE ${this.getMigrationsTableName()} ADD COLUMN IF NOT EXISTS checkpoint text
+    `);
+  }
+
+  /**
+   * Record the start of a migration
+   *
+   * @param plan - Migration plan
+   * @param direction - Migration direction
+   * @param executedSteps - Number of steps an interrupted run executed
+   * @param checkpoint - Checkpoint an interrupted run reached
+   * @returns Record id
+   * @private
+   */
+  private async recordMigrationStart(
+    plan: MigrationPlan,
+    direction: MigrationDirection,
+    executedSteps: number,
+    checkpoint: string | null
+  ): Promise<number> {
+    const result = await this.queryExecutor.executeSQL(`
+      INSERT INTO ${this.getMigrationsTableName()}
+        (source_version, target_version, direction, checksum, status, total_steps, executed_steps, checkpoint)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id
+    `, [
+      plan.sourceVersion,
+      plan.targetVersion,
+      direction,
+      plan.checksum ?? checksumSteps(plan.steps, plan.downSteps ?? []),
+      MigrationStatus.RUNNING,
+      plan.steps.length,
+      executedSteps,
+      checkpoint,
+    ]);
+
+    return Number(result.rows[0]?.id);
+  }
+
+  /**
+   * Record the end of a migration
+   *
+   * @param id - Record id
+   * @param status - Final status
+   * @param executedSteps - Number of steps executed
+   * @param error - Failure description
+   * @param checkpoint - Checkpoint of the step after the executed steps
+   * @param transaction - Transaction to record in
+   * @private
+   */
+  private async recordMigrationEnd(
+    id: number,
+    status: MigrationStatus,
+    executedSteps: number,
+    error: string | null,
+    checkpoint: string | null,
+    transaction?: Transaction
+  ): Promise<void> {
+    await this.queryExecutor.executeSQL(`
+      UPDATE ${this.getMigrationsTableName()}
+      SET status = $2, executed_steps = $3, error = $4, checkpoint = $5, finished_at = now()
+      WHERE id = $1
+    `, [id, status, executedSteps, error, checkpoint], transaction ? { transaction } : {});
+  }
+
+  /**
+   * Record the steps and checkpoint a running migration committed
+   *
+   * @param id - Record id
+   * @param executedSteps - Number of steps executed
+   * @param checkpoint - Checkpoint of the step after the executed steps
+   * @param transaction - Transaction committing them
+   * @private
+   */
+  private async recordMigrationProgress(
+    id: number,
+    executedSteps: number,
+    checkpoint: string | null,
+    transaction?: Transaction
+  ): Promise<void> {
+    await this.queryExecutor.executeSQL(`
+      UPDATE ${this.getMigrationsTableName()}
+      SET executed_steps = $2, checkpoint = $3
+      WHERE id = $1
+    `, [id, executedSteps, checkpoint], transaction ? { transaction } : {});
+  }
+
+  /**
+   * Find the interrupted run of a migration to resume
+   *
+   * @param history - Migration records, oldest first
+   * @param plan - Migration plan
+   * @param direction - Migration direction
+   * @returns Last record if it is a failed or running run of the plan, or
+   * null
+   * @private
+   */
+  private findInterruptedMigration(
+    history: MigrationRecord[],
+    plan: MigrationPlan,
+    direction: MigrationDirection
+  ): MigrationRecord | null {
+    const last = history[history.length - 1];
+    return last &&
+      last.status !== MigrationStatus.APPLIED &&
+      last.direction === direction &&
+      last.sourceVersion === plan.sourceVersion &&
+      last.targetVersion === plan.targetVersion &&
+      last.checksum === plan.checksum
+      ? last
+      : null;
+  }
+
+  /**
+   * Get the version of the last applied migration
+   *
+   * @param history - Migration records, oldest first
+   * @returns Current version, or null if no migration was applied
+   * @private
+   */
+  private findCurrentVersion(history: MigrationRecord[]): string | null {
+    const applied = history.filter(record => record.status === MigrationStatus.APPLIED);
+    return applied.length > 0 ? applied[applied.length - 1].targetVersion : null;
+  }
+
+  /**
+   * Order schemas by version, starting with an empty schema at version
+   * 0.0.0 unless one of them has that version
+   *
+   * @param schemas - Schema definitions
+   * @returns Ordered schema definitions
+   * @throws ValidationError if two schemas have the same version
+   * @private
+   */
+  private orderSchemas(schemas: SchemaDefinition[]): SchemaDefinition[] {
+    const ordered = [...schemas].sort((a, b) => compareVersions(schemaVersion(a), schemaVersion(b)));
+    for (let index = 1; index < ordered.length; index++) {
+      if (compareVersions(schemaVersion(ordered[index - 1]), schemaVersion(ordered[index])) === 0) {
+        throw new ValidationError(`Two schemas have version ${schemaVersion(ordered[index])}`);
+      }
+    }
+
+    if (ordered.length === 0 || schemaVersion(ordered[0]) !== INITIAL_VERSION) {
+      ordered.unshift({ version: INITIAL_VERSION, vertices: {}, edges: {} });
+    }
+    return ordered;
+  }
+
+  /**
+   * Check that the applied migrations still have the checksums the schemas
+   * plan for them
+   *
+   * Migrations between versions that have no schema are not checked.
+   *
+   * @param history - Migration records
+   * @param versions - Ordered schema definitions
+   * @param options - Migration options with the data migrations
+   * @throws MigrationChecksumError if a checksum differs
+   * @private
+   */
+  private verifyChecksums(history: MigrationRecord[], versions: SchemaDefinition[], options: MigrationOptions): void {
+    const byVersion = new Map(versions.map(schema => [schemaVersion(schema), schema]));
+    const checksums = new Map<string, string>();
+
+    for (const record of history) {
+      if (record.status !== MigrationStatus.APPLIED || record.direction === MigrationDirection.BASELINE) {
+        continue;
+      }
+
+      const [lower, upper] = record.direction === MigrationDirection.UP
+        ? [record.sourceVersion, record.targetVersion]
+        : [record.targetVersion, record.sourceVersion];
+      const source = byVersion.get(lower);
+      const target = byVersion.get(upper);
+      if (!source || !target) {
+        continue;
+      }
+
+      const key = `${lower} -> ${upper}`;
+      if (!checksums.has(key)) {
+        checksums.set(key, this.createMigrationPlan(source, target, { ...options, allowDataLoss: true }).checksum!);
+      }
+      if (checksums.get(key) !== record.checksum) {
+        throw new MigrationChecksumError(record.sourceVersion, record.targetVersion, record.checksum, checksums.get(key)!);
+      }
+    }
+  }
+
   /**
    * Check if a schema change can result in data loss
    *
@@ -351,6 +1204,30 @@ export class SchemaMigrationExecutor {
     return false;
   }
 
+  /**
+   * Create migration steps for schema changes
+   *
+   * @param changes - Schema changes
+   * @param sourceSchema - Source schema
+   * @param targetSchema - Target schema
+   * @returns Migration steps
+   * @private
+   */
+  private createMigrationSteps(
+    changes: SchemaChange[],
+    sourceSchema: SchemaDefinition,
+    targetSchema: SchemaDefinition
+  ): MigrationStep[] {
+    const steps: MigrationStep[] = [];
+
+    // Process changes to create migration steps
+    for (const change of changes) {
+      steps.push(...this.createMigrationStepsForChange(change, sourceSchema, targetSchema));
+    }
+
+    return steps;
+  }
+
   /**
    * Create migration steps for a schema change
    *
@@ -370,8 +1247,10 @@ export class SchemaMigrationExecutor {
     // Process change based on type and path
     if (change.path.startsWith('vertices.')) {
       steps.push(...this.createVertexMigrationSteps(change, sourceSchema, targetSchema));
+      steps.push(...this.createUniqueIndexSteps(change, false));
     } else if (change.path.startsWith('edges.')) {
       steps.push(...this.createEdgeMigrationSteps(change, sourceSchema, targetSchema));
+      steps.push(...this.createUniqueIndexSteps(change, true));
     }
 
     return steps;
@@ -400,8 +1279,9 @@ export class SchemaMigrationExecutor {
     if (pathParts.length === 2) {
       // Vertex label added or removed
       if (change.type === SchemaChangeType.ADDED) {
-        // Create vertex table
-        const createTableSQL = this.sqlGenerator.generateCreateVertexTableSQL(vertexLabel, {
+        // Create vertex table from the schema defining it, which down
+        // steps take from the source schema
+        const createTableSQL = new SQLGenerator(targetSchema).generateCreateVertexTableSQL(vertexLabel, {
           tablePrefix: this.options.vertexTablePrefix
         });
 
@@ -551,8 +1431,8 @@ export class SchemaMigrationExecutor {
     if (pathParts.length === 2) {
       // Edge label added or removed
       if (change.type === SchemaChangeType.ADDED) {
-        // Create edge table
-        const createTableSQL = this.sqlGenerator.generateCreateEdgeTableSQL(edgeLabel);
+        // Create edge table from the schema defining it
+        const createTableSQL = new SQLGenerator(targetSchema).generateCreateEdgeTableSQL(edgeLabel);
 
         steps.push({
           description: `Create edge table for label '${edgeLabel}'`,
@@ -680,6 +1560,124 @@ export class SchemaMigrationExecutor {
     return steps;
   }
 
+  /**
+   * Create migration steps running data migrations
+   *
+   * @param migrations - Data migrations
+   * @returns Migration steps
+   * @throws ValidationError if a data migration is invalid or no graph name
+   * is configured
+   * @private
+   */
+  private createDataMigrationSteps(migrations: DataMigration[]): MigrationStep[] {
+    if (migrations.length > 0 && !this.options.graphName) {
+      throw new ValidationError('A graph name is required to run data migrations');
+    }
+
+    return migrations.map(migration => {
+      validateDataMigration(migration);
+      return {
+        description: describeDataMigration(migration),
+        sql: '',
+        params: [],
+        canCauseDataLoss: canDataMigrationLoseData(migration),
+        data: migration,
+      };
+    });
+  }
+
+  /**
+   * Create migration steps for the unique indexes of a label
+   *
+   * Unique constraints are backed by unique expression indexes on the
+   * properties column of the AGE label table. Added labels get their label
+   * table created first so the index has a table to attach to.
+   *
+   * @param change - Schema change
+   * @param isEdge - Whether the change is on an edge label
+   * @returns Migration steps
+   * @throws ValidationError if no graph name is configured
+   * @private
+   */
+  private createUniqueIndexSteps(change: SchemaChange, isEdge: boolean): MigrationStep[] {
+    const pathParts = change.path.split('.');
+    const label = pathParts[1];
+    let added: string[][] = [];
+    let removed: string[][] = [];
+
+    if (pathParts.length === 2 && change.type === SchemaChangeType.ADDED) {
+      added = getUniqueConstraints(change.newValue as VertexLabel | EdgeLabel);
+    } else if (pathParts.length === 3 && pathParts[2] === 'unique') {
+      const signature = (constraint: string[]) => [...constraint].sort().join(',');
+      const oldUnique = (change.oldValue as string[][]) || [];
+      const newUnique = (change.newValue as string[][]) || [];
+      const oldSignatures = new Set(oldUnique.map(signature));
+      const newSignatures = new Set(newUnique.map(signature));
+
+      added = newUnique.filter(constraint => !oldSignatures.has(signature(constraint)));
+      removed = oldUnique.filter(constraint => !newSignatures.has(signature(constraint)));
+    }
+
+    if (added.length === 0 && removed.length === 0) {
+      return [];
+    }
+
+    const graphName = this.options.graphName;
+    if (!graphName) {
+      throw new ValidationError(
+        `A graph name is required to migrate unique constraints of label '${label}'`
+      );
+    }
+
+    const steps: MigrationStep[] = [];
+    const kind = isEdge ? 'edge' : 'vertex';
+
+    for (const constraint of removed) {
+      steps.push({
+        description: `Drop unique index on (${constraint.join(', ')}) of ${kind} label '${label}'`,
+        sql: `DROP INDEX IF EXISTS ${quoteIdentifier(graphName)}.${quoteIdentifier(uniqueIndexName(label, constraint))}`,
+        params: [],
+        canCauseDataLoss: false,
+      });
+    }
+
+    if (added.length > 0 && change.type === SchemaChangeType.ADDED) {
+      steps.push({
+        description: `Create AGE label table for ${kind} label '${label}'`,
+        sql: `
+          DO $$
+          BEGIN
+            IF NOT EXISTS (
+              SELECT 1 FROM ag_catalog.ag_label l
+              JOIN ag_catalog.ag_graph g ON g.graphid = l.graph
+              WHERE g.name = ${quoteLiteral(graphName)} AND l.name = ${quoteLiteral(label)}
+            ) THEN
+              PERFORM ag_catalog.${isEdge ? 'create_elabel' : 'create_vlabel'}(${quoteLiteral(graphName)}, ${quoteLiteral(label)});
+            END IF;
+          END $$;
+        `,
+        params: [],
+        canCauseDataLoss: false,
+      });
+    }
+
+    for (const constraint of added) {
+      const expressions = constraint.map(property =>
+        `ag_catalog.agtype_access_operator(properties, ${quoteLiteral(JSON.stringify(property))}::ag_catalog.agtype)`
+      );
+
+      steps.push({
+        description: `Create unique index on (${constraint.join(', ')}) of ${kind} label '${label}'`,
+        sql: `CREATE UNIQUE INDEX IF NOT EXISTS ${quoteIdentifier(uniqueIndexName(label, constraint))} ` +
+          `ON ${quoteIdentifier(graphName)}.${quoteIdentifier(label)} (${expressions.join(', ')})`,
+        params: [],
+        canCauseDataLoss: false,
+      });
+    }
+
+    return steps;
+  }
+
   /**
    * Create a backup of the database
    *
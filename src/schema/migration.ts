@@ -12,7 +12,7 @@ import {
 
 } from './types';
 import { SchemaVersionError } from './errors';
-import { parseVersion, formatVersion } from './utils';
+import { parseVersion, formatVersion, getUniqueConstraints } from './utils';
 
 /**
  * Schema change type
@@ -220,6 +220,9 @@ function compareVertices(
     }
   }
   
+  // Compare unique constraints
+  changes.push(...compareUniqueConstraints(oldVertex, newVertex, basePath));
+  
   // Compare properties
   const oldProperties = oldVertex.properties || {};
   const newProperties = newVertex.properties || {};
@@ -352,6 +355,9 @@ function compareEdges(
     }
   }
   
+  // Compare unique constraints
+  changes.push(...compareUniqueConstraints(oldEdge, newEdge, basePath));
+  
   // Compare properties
   const oldProperties = oldEdge.properties || {};
   const newProperties = newEdge.properties || {};
@@ -391,6 +397,42 @@ function compareEdges(
   return changes;
 }
 
+/**
+ * Compare the identity key and unique constraints of two labels
+ * 
+ * @param oldLabel - Old vertex or edge label
+ * @param newLabel - New vertex or edge label
+ * @param basePath - Base path for changes
+ * @returns Array of schema changes
+ */
+function compareUniqueConstraints(
+  oldLabel: VertexLabel | EdgeLabel,
+  newLabel: VertexLabel | EdgeLabel,
+  basePath: string
+): SchemaChange[] {
+  const signature = (constraint: string[]) => [...constraint].sort().join(',');
+  const oldUnique = getUniqueConstraints(oldLabel);
+  const newUnique = getUniqueConstraints(newLabel);
+  const oldSignatures = new Set(oldUnique.map(signature));
+  const newSignatures = new Set(newUnique.map(signature));
+  
+  const added = newUnique.some(constraint => !oldSignatures.has(signature(constraint)));
+  const removed = oldUnique.some(constraint => !newSignatures.has(signature(constraint)));
+  
+  if (!added && !removed) {
+    return [];
+  }
+  
+  // Existing data may violate an added constraint
+  return [{
+    type: SchemaChangeType.MODIFIED,
+    path: `${basePath}.unique`,
+    breaking: added,
+    oldValue: oldUnique,
+    newValue: newUnique,
+  }];
+}
+
 /**
  * Compare two property definitions and identify changes
  * 
@@ -350,6 +350,9 @@ export class SchemaParser {
 
           // Validate required properties
           this.validateRequiredProperties(vertex, errorCollector);
+
+          // Validate identity key and unique constraints
+          this.validateUniqueConstraints(vertex, errorCollector);
         });
       }
     });
@@ -384,6 +387,9 @@ export class SchemaParser {
           // Validate required properties
           this.validateRequiredProperties(edge, errorCollector);
 
+          // Validate identity key and unique constraints
+          this.validateUniqueConstraints(edge, errorCollector);
+
           // Validate fromVertex and toVertex
           this.validateVertexReference(edge.fromVertex, 'fromVertex', errorCollector);
           this.validateVertexReference(edge.toVertex, 'toVertex', errorCollector);
@@ -464,6 +470,121 @@ export class SchemaParser {
     });
   }
 
+  /**
+   * Validate the identity key and unique constraints of a vertex or edge
+   *
+   * @param entity - Vertex or edge
+   * @param errorCollector - Error collector
+   */
+  private validateUniqueConstraints(
+    entity: VertexLabel | EdgeLabel,
+    errorCollector: ErrorCollector
+  ): void {
+    const { keys, unique, properties, required = [] } = entity;
+
+    if (keys !== undefined) {
+      errorCollector.withPath('keys', () => {
+        if (!Array.isArray(keys) || keys.length === 0) {
+          errorCollector.addValidationError('Keys must be a non-empty array');
+          return;
+        }
+
+        if (this.validateConstraintProperties(keys, properties, errorCollector)) {
+          for (const property of keys) {
+            if (!required.includes(property)) {
+              errorCollector.addValidationError(`Key property must be required: ${property}`);
+            }
+
+            if (!this.isScalarProperty(properties[property])) {
+              errorCollector.addValidationError(`Key property must have a scalar type: ${property}`);
+            }
+          }
+        }
+      });
+    }
+
+    if (unique !== undefined) {
+      errorCollector.withPath('unique', () => {
+        if (!Array.isArray(unique)) {
+          errorCollector.addValidationError('Unique constraints must be an array');
+          return;
+        }
+
+        unique.forEach((constraint, index) => {
+          errorCollector.withPath(String(index), () => {
+            const constraintProperties = typeof constraint === 'string' ? [constraint] : constraint;
+
+            if (!Array.isArray(constraintProperties) || constraintProperties.length === 0) {
+              errorCollector.addValidationError(
+                'Unique constraint must be a property name or a non-empty array of property names'
+              );
+              return;
+            }
+
+            if (this.validateConstraintProperties(constraintProperties, properties, errorCollector)) {
+              for (const property of constraintProperties) {
+                if (!this.isScalarProperty(properties[property])) {
+                  errorCollector.addValidationError(`Unique property must have a scalar type: ${property}`);
+                }
+              }
+            }
+          });
+        });
+      });
+    }
+  }
+
+  /**
+   * Validate the property names of a key or unique constraint
+   *
+   * @param constraint - Property names
+   * @param properties - Properties of the vertex or edge
+   * @param errorCollector - Error collector
+   * @returns Whether all names are strings of existing properties
+   */
+  private validateConstraintProperties(
+    constraint: unknown[],
+    properties: Record<string, PropertyDefinition>,
+    errorCollector: ErrorCollector
+  ): constraint is string[] {
+    let valid = true;
+    const seen = new Set<string>();
+
+    for (const property of constraint) {
+      if (typeof property !== 'string') {
+        errorCollector.addValidationError(`Constraint property must be a string: ${property}`);
+        valid = false;
+        continue;
+      }
+
+      if (!properties[property]) {
+        errorCollector.addValidationError(`Constraint property not found: ${property}`);
+        valid = false;
+      }
+
+      if (seen.has(property)) {
+        errorCollector.addValidationError(`Duplicate constraint property: ${property}`);
+        valid = false;
+      }
+      seen.add(property);
+    }
+
+    return valid;
+  }
+
+  /**
+   * Check whether a property holds a single comparable value
+   *
+   * @param property - Property definition
+   * @returns Whether all types of the property are scalar
+   */
+  private isScalarProperty(property: PropertyDefinition): boolean {
+    const types = Array.isArray(property.type) ? property.type : [property.type];
+    return types.every(type =>
+      type !== PropertyType.OBJECT && type !== PropertyType.ARRAY && type !== PropertyType.ANY
+    );
+  }
+
   /**
    * Validate a vertex reference
    *
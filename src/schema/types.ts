@@ -364,6 +364,11 @@ export interface VertexConnectionConstraint {
   properties?: Record<string, unknown>;
 }
 
+/**
+ * Unique constraint on a single property or a combination of properties
+ */
+export type UniqueConstraint = string | string[];
+
 /**
  * Vertex label definition
  */
@@ -378,6 +383,20 @@ export interface VertexLabel {
    */
   required?: string[];
 
+  /**
+   * Identity key: properties that together identify a vertex
+   *
+   * Key properties must be required scalar properties. The key is enforced
+   * as unique like any entry of `unique`.
+   */
+  keys?: string[];
+
+  /**
+   * Unique constraints: a property name or a list of properties whose
+   * combined values must be unique within the label
+   */
+  unique?: UniqueConstraint[];
+
   /**
    * Vertex description
    */
@@ -408,6 +427,17 @@ export interface EdgeLabel {
    */
   required?: string[];
 
+  /**
+   * Identity key: properties that together identify an edge
+   */
+  keys?: string[];
+
+  /**
+   * Unique constraints: a property name or a list of properties whose
+   * combined values must be unique within the label
+   */
+  unique?: UniqueConstraint[];
+
   /**
    * Source vertex constraint
    */
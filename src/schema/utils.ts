@@ -139,3 +139,133 @@ export function formatVersion(version: SchemaVersion): string {
   
   return versionString;
 }
+
+/**
+ * Compare two version strings by semantic version precedence
+ * 
+ * Build metadata is ignored and a prerelease version precedes its release.
+ * 
+ * @param a - Version string
+ * @param b - Version string
+ * @returns A negative number if a precedes b, a positive number if b
+ * precedes a, or 0 if they are equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  
+  const difference = left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+  if (difference !== 0) {
+    return difference;
+  }
+  
+  if (left.prerelease === right.prerelease) {
+    return 0;
+  }
+  if (!left.prerelease) {
+    return 1;
+  }
+  if (!right.prerelease) {
+    return -1;
+  }
+  return left.prerelease < right.prerelease ? -1 : 1;
+}
+
+/**
+ * Get the unique constraints of a vertex or edge label
+ * 
+ * The identity key comes first, followed by the `unique` entries. Single
+ * property entries are normalized to one-element lists and repeated
+ * constraints are dropped.
+ * 
+ * @param label - Vertex or edge label definition
+ * @returns Property lists that must be unique within the label
+ */
+export function getUniqueConstraints(label: VertexLabel | EdgeLabel): string[][] {
+  const constraints: string[][] = [];
+  const seen = new Set<string>();
+  const entries = [
+    ...(label.keys && label.keys.length > 0 ? [label.keys] : []),
+    ...(label.unique || []),
+  ];
+
+  for (const entry of entries) {
+    const properties = Array.isArray(entry) ? entry : [entry];
+    const signature = [...properties].sort().join('\u0000');
+    if (!seen.has(signature)) {
+      seen.add(signature);
+      constraints.push(properties);
+    }
+  }
+
+  return constraints;
+}
+
+/**
+ * Get the values of a unique constraint for a set of properties
+ * 
+ * @param properties - Vertex or edge properties
+ * @param constraint - Properties of the unique constraint
+ * @returns Values in constraint order, or null if any of them is missing or null
+ */
+export function getUniqueKeyValues(
+  properties: Record<string, unknown>,
+  constraint: string[]
+): unknown[] | null {
+  const values = constraint.map(property => properties[property]);
+  return values.some(value => value === undefined || value === null) ? null : values;
+}
+
+/**
+ * Key values shared by more than one item
+ */
+export interface DuplicateKey {
+  /**
+   * Properties of the unique constraint
+   */
+  properties: string[];
+
+  /**
+   * Duplicated values in constraint order
+   */
+  values: unknown[];
+
+  /**
+   * Indexes of the items sharing the values
+   */
+  indexes: number[];
+}
+
+/**
+ * Find items that share the values of a unique constraint
+ * 
+ * Items with a missing or null value for any of the properties do not take
+ * part in the constraint.
+ * 
+ * @param items - Properties of the items
+ * @param constraint - Properties of the unique constraint
+ * @returns Duplicated keys in order of first occurrence
+ */
+export function findDuplicateKeys(
+  items: Array<Record<string, unknown>>,
+  constraint: string[]
+): DuplicateKey[] {
+  const groups = new Map<string, DuplicateKey>();
+
+  items.forEach((item, index) => {
+    const values = getUniqueKeyValues(item, constraint);
+    if (!values) {
+      return;
+    }
+
+    const signature = JSON.stringify(values);
+    const group = groups.get(signature);
+    if (group) {
+      group.indexes.push(index);
+    } else {
+      groups.set(signature, { properties: constraint, values, indexes: [index] });
+    }
+  });
+
+  return [...groups.values()].filter(group => group.indexes.length > 1);
+}
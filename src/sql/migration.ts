@@ -17,12 +17,14 @@ export function extendSQLGeneratorWithMigrationMethods(SQLGenerator: any): void
    * Generate SQL to drop a vertex table
    *
    * @param label - Vertex label
+   * @param options - Table options
    * @returns SQL result
    */
   SQLGenerator.prototype.generateDropVertexTableSQL = function(
-    label: string
+    label: string,
+    options: any = {}
   ): SQLResult {
-    const tableName = getVertexTableName(label, this.options.tablePrefix);
+    const tableName = getVertexTableName(label, options.tablePrefix || this.options?.tablePrefix || 'v_');
 
     const sql = `DROP TABLE IF EXISTS ${tableName} CASCADE`;
 
@@ -33,12 +35,14 @@ export function extendSQLGeneratorWithMigrationMethods(SQLGenerator: any): void
    * Generate SQL to drop an edge table
    *
    * @param label - Edge label
+   * @param options - Table options
    * @returns SQL result
    */
   SQLGenerator.prototype.generateDropEdgeTableSQL = function(
-    label: string
+    label: string,
+    options: any = {}
   ): SQLResult {
-    const tableName = getEdgeTableName(label, this.options.tablePrefix);
+    const tableName = getEdgeTableName(label, options.tablePrefix || this.options?.tablePrefix || 'e_');
 
     const sql = `DROP TABLE IF EXISTS ${tableName} CASCADE`;
 
@@ -10,6 +10,7 @@
  */
 
 import { QueryExecutor } from '../db/query';
+import { AgEdge, AgPath, AgtypeParseError, AgVertex, parseAgtype } from '../db/agtype';
 
 /**
  * Convert a JavaScript value to an AGE-compatible value
@@ -45,6 +46,10 @@ export function toAgType(value: any): any {
 /**
  * Convert an AGE value to a JavaScript value
  *
+ * Strings holding agtype text (objects, lists, quoted strings and annotated
+ * vertices, edges and paths) are parsed with the agtype parser. Vertices,
+ * edges and paths that were already parsed are returned unchanged.
+ *
  * @param value - AGE value to convert
  * @returns JavaScript value
  */
@@ -53,6 +58,10 @@ export function fromAgType(value: any): any {
     return null;
   }
 
+  if (value instanceof AgVertex || value instanceof AgEdge || value instanceof AgPath) {
+    return value;
+  }
+
   // Handle AGE's string representation
   if (typeof value === 'string') {
     // Handle date strings
@@ -60,16 +69,13 @@ export function fromAgType(value: any): any {
       return new Date(value);
     }
 
-    // Handle AGE's JSON string representation
-    if (value.startsWith('{') && value.endsWith('}')) {
+    // Handle agtype text
+    if (/^[[{"]/.test(value)) {
       try {
-        return JSON.parse(value);
-      } catch (_e) {
-        // Try parsing as a JSON string with the braces
-        try {
-          return JSON.parse(value);
-        } catch (_e2) {
-          return value;
+        return parseAgtype(value);
+      } catch (error) {
+        if (!(error instanceof AgtypeParseError)) {
+          throw error;
         }
       }
     }
@@ -92,18 +98,7 @@ export function fromAgType(value: any): any {
   if (typeof value === 'object') {
     const result: Record<string, any> = {};
     for (const [key, val] of Object.entries(value)) {
-      // Special handling for string values that might be JSON
-      if (typeof val === 'string' &&
-          ((val.startsWith('{') && val.endsWith('}')) ||
-           (val.startsWith('[') && val.endsWith(']')))) {
-        try {
-          result[key] = JSON.parse(val);
-        } catch (_e) {
-          result[key] = fromAgType(val);
-        }
-      } else {
-        result[key] = fromAgType(val);
-      }
+      result[key] = fromAgType(val);
     }
     return result;
   }
@@ -0,0 +1,240 @@
+import { describe, it, expect } from 'vitest';
+import * as ts from 'typescript';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SchemaCodeGenerator,
+  runCodegenCli,
+  parseCodegenArgs,
+  toPascalCase,
+} from '../../src/codegen';
+import { PropertyType, SchemaDefinition, ValidationErrorCollection } from '../../src/schema';
+
+const schema: SchemaDefinition = {
+  version: '1.0.0',
+  vertices: {
+    Person: {
+      description: 'A person',
+      properties: {
+        id: { type: PropertyType.STRING },
+        name: { type: PropertyType.STRING, description: 'Full name' },
+        age: { type: PropertyType.INTEGER },
+        status: {
+          type: PropertyType.STRING,
+          stringConstraints: { enum: ['active', 'inactive'] },
+        },
+        nickname: { type: PropertyType.STRING, nullable: true },
+        tags: {
+          type: PropertyType.ARRAY,
+          arrayConstraints: { items: { type: PropertyType.STRING } },
+        },
+      },
+      required: ['id', 'name'],
+    },
+    Company: {
+      properties: {
+        id: { type: PropertyType.STRING, required: true },
+        'legal-name': { type: PropertyType.STRING },
+        address: {
+          type: PropertyType.OBJECT,
+          objectConstraints: {
+            properties: {
+              city: { type: PropertyType.STRING },
+              zip: { type: PropertyType.STRING },
+            },
+            required: ['city'],
+          },
+        },
+      },
+    },
+  },
+  edges: {
+    WORKS_AT: {
+      properties: {
+        since: { type: PropertyType.DATE },
+        level: { type: PropertyType.NUMBER, numberConstraints: { enum: [1, 2, 3] } },
+      },
+      required: ['since'],
+      fromVertex: 'Person',
+      toVertex: 'Company',
+    },
+  },
+} as unknown as SchemaDefinition;
+
+function fileContent(files: { path: string; content: string }[], name: string): string {
+  const file = files.find(f => f.path === name);
+  expect(file).toBeDefined();
+  return file!.content;
+}
+
+describe('SchemaCodeGenerator', () => {
+  it('should generate types, client and index files', () => {
+    const files = new SchemaCodeGenerator().generate(schema);
+    expect(files.map(f => f.path)).toEqual(['types.ts', 'client.ts', 'index.ts']);
+  });
+
+  it('should generate label unions and one interface per label', () => {
+    const types = fileContent(new SchemaCodeGenerator().generate(schema), 'types.ts');
+
+    expect(types).toContain('export type VertexLabelName = "Person" | "Company";');
+    expect(types).toContain('export type EdgeLabelName = "WORKS_AT";');
+    expect(types).toContain('export interface PersonVertex {');
+    expect(types).toContain('export interface CompanyVertex {');
+    expect(types).toContain('export interface WorksAtEdge {');
+  });
+
+  it('should map property types, required, nullable and enum constraints', () => {
+    const types = fileContent(new SchemaCodeGenerator().generate(schema), 'types.ts');
+
+    expect(types).toContain('  id: string;');
+    expect(types).toContain('  name: string;');
+    expect(types).toContain('  age?: number;');
+    expect(types).toContain('  status?: "active" | "inactive";');
+    expect(types).toContain('  nickname?: string | null;');
+    expect(types).toContain('  tags?: Array<string>;');
+    expect(types).toContain('  "legal-name"?: string;');
+    expect(types).toContain('  address?: { city: string; zip?: string };');
+    expect(types).toContain('  since: Date | string;');
+    expect(types).toContain('  level?: 1 | 2 | 3;');
+    expect(types).toContain('/** Full name */');
+  });
+
+  it('should resolve edge endpoints to vertex labels', () => {
+    const types = fileContent(new SchemaCodeGenerator().generate(schema), 'types.ts');
+    expect(types).toContain('"WORKS_AT": { from: "Person"; to: "Company" };');
+  });
+
+  it('should import the library from the configured path', () => {
+    const generator = new SchemaCodeGenerator({ importPath: '../src' });
+    const client = fileContent(generator.generate(schema), 'client.ts');
+
+    expect(client).toContain('} from "../src";');
+    expect(client).toContain('export class TypedVertexOperations');
+    expect(client).toContain('export class TypedEdgeOperations');
+    expect(client).toContain('export function createTypedClient');
+  });
+
+  it('should omit the client when includeClient is false', () => {
+    const files = new SchemaCodeGenerator({ includeClient: false }).generate(schema);
+    expect(files.map(f => f.path)).toEqual(['types.ts', 'index.ts']);
+    expect(fileContent(files, 'index.ts')).not.toContain('./client');
+  });
+
+  it('should generate syntactically valid TypeScript', () => {
+    for (const file of new SchemaCodeGenerator().generate(schema)) {
+      const output = ts.transpileModule(file.content, {
+        reportDiagnostics: true,
+        compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+      });
+      expect(output.diagnostics).toEqual([]);
+    }
+  });
+
+  it('should generate TypeScript that type-checks against the library', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'age-codegen-'));
+    try {
+      const generator = new SchemaCodeGenerator({ importPath: path.resolve(__dirname, '../../src') });
+      const written = await generator.writeFiles(schema, dir);
+
+      const program = ts.createProgram(written, {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        esModuleInterop: true,
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+      });
+      const diagnostics = ts.getPreEmitDiagnostics(program)
+        .filter(diagnostic => diagnostic.file && written.includes(path.normalize(diagnostic.file.fileName)))
+        .map(diagnostic => `${path.basename(diagnostic.file!.fileName)}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`);
+      expect(diagnostics).toEqual([]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }, 60000);
+
+  it('should accept a schema JSON string', () => {
+    const files = new SchemaCodeGenerator().generate(JSON.stringify(schema));
+    expect(fileContent(files, 'types.ts')).toContain('export interface PersonVertex {');
+  });
+
+  it('should reject an invalid schema', () => {
+    const invalid = {
+      ...schema,
+      edges: {
+        WORKS_AT: { ...schema.edges.WORKS_AT, toVertex: 'Missing' },
+      },
+    };
+
+    expect(() => new SchemaCodeGenerator().generate(invalid as SchemaDefinition))
+      .toThrow(ValidationErrorCollection);
+  });
+
+  it('should reject labels generating the same type name', () => {
+    const colliding = {
+      ...schema,
+      edges: {
+        has_friend: schema.edges.WORKS_AT,
+        HasFriend: schema.edges.WORKS_AT,
+      },
+    };
+
+    expect(() => new SchemaCodeGenerator().generate(colliding as SchemaDefinition))
+      .toThrow("Edge labels 'has_friend' and 'HasFriend' both generate the type name 'HasFriendEdge'");
+  });
+});
+
+describe('toPascalCase', () => {
+  it('should convert label names to PascalCase', () => {
+    expect(toPascalCase('WORKS_AT')).toBe('WorksAt');
+    expect(toPascalCase('person')).toBe('Person');
+    expect(toPascalCase('BlogPost')).toBe('BlogPost');
+    expect(toPascalCase('2fa-device')).toBe('_2faDevice');
+  });
+});
+
+describe('codegen CLI', () => {
+  it('should parse arguments', () => {
+    expect(parseCodegenArgs(['-s', 'schema.json', '--out', 'gen', '--no-client'])).toEqual({
+      schema: 'schema.json',
+      out: 'gen',
+      noClient: true,
+    });
+    expect(() => parseCodegenArgs(['--schema'])).toThrow('Missing value for --schema');
+    expect(() => parseCodegenArgs(['--bogus'])).toThrow('Unknown argument: --bogus');
+  });
+
+  it('should write generated files to the output directory', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'age-codegen-'));
+    try {
+      const schemaPath = path.join(dir, 'schema.json');
+      const outDir = path.join(dir, 'generated');
+      await fs.writeFile(schemaPath, JSON.stringify(schema));
+
+      const logs: string[] = [];
+      const code = await runCodegenCli(['--schema', schemaPath, '--out', outDir], {
+        log: message => logs.push(message),
+        error: message => logs.push(message),
+      });
+
+      expect(code).toBe(0);
+      expect((await fs.readdir(outDir)).sort()).toEqual(['client.ts', 'index.ts', 'types.ts']);
+      expect(logs).toHaveLength(3);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should fail when required arguments are missing', async () => {
+    const errors: string[] = [];
+    const code = await runCodegenCli(['--schema', 'schema.json'], {
+      log: () => undefined,
+      error: message => errors.push(message),
+    });
+
+    expect(code).toBe(1);
+    expect(errors[0]).toBe('Both --schema and --out are required');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for the agtype text parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AgVertex,
+  AgEdge,
+  AgPath,
+  AgtypeParseError,
+  parseAgtype,
+  asAgtype,
+  parseAgtypeRow,
+  createAgtypeTypeParsers,
+} from '../../src/db/agtype';
+
+const vertexText = '{"id": 844424930131969, "label": "Person", "properties": {"name": "Alice"}}::vertex';
+const edgeText = '{"id": 1125899906842625, "label": "KNOWS", "end_id": 844424930131970, ' +
+  '"start_id": 844424930131969, "properties": {"since": 2020}}::edge';
+
+describe('agtype parser', () => {
+  it('should parse scalars', () => {
+    expect(parseAgtype('null')).toBeNull();
+    expect(parseAgtype('true')).toBe(true);
+    expect(parseAgtype('"O\'Brien \\"Bob\\" \\u00e9"')).toBe('O\'Brien "Bob" é');
+    expect(parseAgtype('42')).toBe(42);
+    expect(parseAgtype('-3.5e2')).toBe(-350);
+  });
+
+  it('should parse float literals that JSON does not allow', () => {
+    expect(parseAgtype('NaN')).toBeNaN();
+    expect(parseAgtype('Infinity')).toBe(Infinity);
+    expect(parseAgtype('-Infinity::float')).toBe(-Infinity);
+    expect(parseAgtype('[1.5, NaN]')).toEqual([1.5, NaN]);
+  });
+
+  it('should keep large integers and numerics exact', () => {
+    expect(parseAgtype('9007199254740993')).toBe(9007199254740993n);
+    expect(parseAgtype('-9223372036854775808')).toBe(-9223372036854775808n);
+    expect(parseAgtype('12345678901234567890.123456789::numeric')).toBe('12345678901234567890.123456789');
+    expect(parseAgtype('1.5::numeric', { numericType: 'number' })).toBe(1.5);
+  });
+
+  it('should parse vertices', () => {
+    const vertex = parseAgtype(vertexText) as AgVertex;
+
+    expect(vertex).toBeInstanceOf(AgVertex);
+    expect(vertex.id).toBe('844424930131969');
+    expect(vertex.label).toBe('Person');
+    expect(vertex.properties).toEqual({ name: 'Alice' });
+  });
+
+  it('should parse edges with bigint graph ids', () => {
+    const edge = parseAgtype(edgeText, { graphIdType: 'bigint' }) as AgEdge;
+
+    expect(edge).toBeInstanceOf(AgEdge);
+    expect(edge.id).toBe(1125899906842625n);
+    expect(edge.startId).toBe(844424930131969n);
+    expect(edge.endId).toBe(844424930131970n);
+    expect(edge.properties).toEqual({ since: 2020 });
+  });
+
+  it('should parse paths', () => {
+    const other = '{"id": 844424930131970, "label": "Person", "properties": {}}::vertex';
+    const path = parseAgtype(`[${vertexText}, ${edgeText}, ${other}]::path`) as AgPath;
+
+    expect(path).toBeInstanceOf(AgPath);
+    expect(path.length).toBe(1);
+    expect(path.vertices.map(vertex => vertex.id)).toEqual(['844424930131969', '844424930131970']);
+    expect(path.edges[0].label).toBe('KNOWS');
+  });
+
+  it('should parse vertices nested in lists and maps', () => {
+    const value = parseAgtype(`{"people": [${vertexText}], "count": 1}`) as any;
+
+    expect(value.people[0]).toBeInstanceOf(AgVertex);
+    expect(value.count).toBe(1);
+  });
+
+  it('should reject invalid text', () => {
+    expect(() => parseAgtype('{"a": 1')).toThrow(AgtypeParseError);
+    expect(() => parseAgtype('[1, 2] 3')).toThrow(/Unexpected trailing characters/);
+    expect(() => parseAgtype('{"id": 1}::vertex')).toThrow(/Expected an object with id, label/);
+    expect(() => parseAgtype(`[${edgeText}]::path`)).toThrow(/alternate vertices and edges/);
+    expect(() => parseAgtype('"x"::unknown')).toThrow(/Unsupported type annotation/);
+  });
+
+  it('should leave parsed values unchanged', () => {
+    const vertex = new AgVertex('1', 'Person', {});
+
+    expect(asAgtype(vertex)).toBe(vertex);
+    expect(parseAgtypeRow({ p: vertexText, n: 1 })).toEqual({
+      p: new AgVertex('844424930131969', 'Person', { name: 'Alice' }),
+      n: 1,
+    });
+  });
+
+  it('should create pg type parsers for the agtype OID only', () => {
+    const types = createAgtypeTypeParsers(16923);
+
+    expect(types.getTypeParser(16923, 'text')('"Alice"')).toBe('Alice');
+    expect(types.getTypeParser(23, 'text')('42')).toBe(42);
+  });
+});
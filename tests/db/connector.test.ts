@@ -3,7 +3,16 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { PgConnectionManager, ConnectionState } from '../../src/db';
+import { Pool } from 'pg';
+import {
+  PgConnectionManager,
+  ConnectionState,
+  InMemoryInstrumentation,
+  LoadBalancingStrategy,
+  PoolError,
+  PoolGauge,
+  SchemaClientConnectionManager,
+} from '../../src/db';
 
 // Mock pg Pool
 vi.mock('pg', () => {
@@ -99,6 +108,197 @@ describe('PgConnectionManager', () => {
     expect(afterConnectHook).toHaveBeenCalled();
   });
 
+  it('should report transaction attempts to the hooks of the connection manager', async () => {
+    const configured = vi.fn();
+    const registered = vi.fn();
+    const manager = new PgConnectionManager({ host: 'localhost', database: 'test', hooks: { afterConnect: configured } });
+    manager.registerHooks({ onTransactionAttempt: registered });
+
+    const connection = await manager.getConnection();
+    const transactionManager = new SchemaClientConnectionManager(manager).getTransactionManager(connection);
+    await transactionManager.withTransaction(async () => 'done');
+
+    expect(configured).toHaveBeenCalled();
+    expect(registered).toHaveBeenCalledWith(connection, expect.objectContaining({
+      type: 'transaction',
+      data: expect.objectContaining({ attempt: 1, success: true }),
+    }));
+  });
+
+  it('should record pool gauges when connections are acquired and released', async () => {
+    const instrumentation = new InMemoryInstrumentation();
+    const instrumentedManager = new PgConnectionManager({
+      host: 'localhost',
+      database: 'test',
+      instrumentation,
+    });
+
+    const connection = await instrumentedManager.getConnection();
+    expect(instrumentation.getGaugeValue(PoolGauge.ACTIVE)).toBe(1);
+    expect(instrumentation.getGaugeValue(PoolGauge.MAX)).toBe(10);
+
+    await instrumentedManager.releaseConnection(connection);
+    expect(instrumentation.getGaugeValue(PoolGauge.ACTIVE)).toBe(0);
+    expect(instrumentation.getGauges(PoolGauge.IDLE)).toHaveLength(2);
+    expect(instrumentedManager.getInstrumentation()).toBe(instrumentation);
+  });
+
+  describe('read replicas', () => {
+    const createPool = (totalCount = 1) => {
+      const client = {
+        query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+        release: vi.fn(),
+      };
+      return {
+        client,
+        connect: vi.fn().mockResolvedValue(client),
+        end: vi.fn().mockResolvedValue(undefined),
+        on: vi.fn(),
+        totalCount,
+        idleCount: 0,
+        waitingCount: 0,
+        options: { max: 5 },
+      };
+    };
+
+    let primary: ReturnType<typeof createPool>;
+    let replica1: ReturnType<typeof createPool>;
+    let replica2: ReturnType<typeof createPool>;
+
+    const createManager = (replicaRouting = {}) => {
+      primary = createPool();
+      replica1 = createPool();
+      replica2 = createPool();
+      vi.mocked(Pool)
+        .mockImplementationOnce(() => primary as any)
+        .mockImplementationOnce(() => replica1 as any)
+        .mockImplementationOnce(() => replica2 as any);
+
+      return new PgConnectionManager({
+        host: 'primary',
+        database: 'test',
+        replicas: [{ host: 'replica-a' }, { name: 'replica-b', host: 'replica-b', pool: { max: 20 } }],
+        replicaRouting,
+      });
+    };
+
+    it('should route read-only requests to replicas in turn', async () => {
+      const manager = createManager();
+
+      await manager.getConnection({ readOnly: true });
+      await manager.getConnection({ readOnly: true });
+      await manager.getConnection({ readOnly: true });
+      await manager.getConnection();
+
+      expect(replica1.connect).toHaveBeenCalledTimes(2);
+      expect(replica2.connect).toHaveBeenCalledTimes(1);
+      expect(primary.connect).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(Pool).mock.calls[2][0]).toMatchObject({ host: 'replica-a', database: 'test' });
+      expect(vi.mocked(Pool).mock.calls[3][0]).toMatchObject({ host: 'replica-b', max: 20 });
+    });
+
+    it('should prefer the replica with the fewest active connections', async () => {
+      const manager = createManager({ strategy: LoadBalancingStrategy.LEAST_CONNECTIONS });
+
+      const first = await manager.getConnection({ readOnly: true });
+      await manager.getConnection({ readOnly: true });
+      await manager.releaseConnection(first);
+      await manager.getConnection({ readOnly: true });
+
+      expect(replica1.connect).toHaveBeenCalledTimes(2);
+      expect(replica2.connect).toHaveBeenCalledTimes(1);
+      expect(replica1.client.query).not.toHaveBeenCalledWith('TRUNCATE TABLE age_params');
+    });
+
+    it('should eject a failing replica and fall back to the primary', async () => {
+      const onError = vi.fn();
+      const manager = createManager({ ejection: { failureThreshold: 2, ejectionTime: 60000 } });
+      manager.registerHooks({ onError });
+      replica1.connect.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      replica2.connect.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await manager.getConnection({ readOnly: true });
+      await manager.getConnection({ readOnly: true });
+      await manager.getConnection({ readOnly: true });
+
+      expect(replica1.connect).toHaveBeenCalledTimes(2);
+      expect(replica2.connect).toHaveBeenCalledTimes(2);
+      expect(primary.connect).toHaveBeenCalledTimes(3);
+      expect(onError).toHaveBeenCalledWith(null, expect.objectContaining({
+        data: { pool: 'replica-1', ejected: true },
+      }));
+
+      const stats = manager.getPoolStats();
+      expect(stats.pools?.map(pool => [pool.name, pool.healthy])).toEqual([
+        ['primary', true],
+        ['replica-1', false],
+        ['replica-b', false],
+      ]);
+    });
+
+    it('should refuse read-only requests without a healthy replica when fallback is off', async () => {
+      const manager = createManager({ fallbackToPrimary: false, ejection: { failureThreshold: 1 } });
+      replica1.connect.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      replica2.connect.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await expect(manager.getConnection({ readOnly: true })).rejects.toThrow(PoolError);
+      expect(primary.connect).not.toHaveBeenCalled();
+    });
+
+    it('should admit an ejected replica again once it passes a health check', async () => {
+      const manager = createManager({ ejection: { failureThreshold: 1 } });
+      replica1.connect.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      const health = await manager.checkReplicaHealth();
+      expect(health.map(({ name, healthy }) => [name, healthy])).toEqual([
+        ['replica-1', false],
+        ['replica-b', true],
+      ]);
+      expect(replica2.client.query).toHaveBeenCalledWith('SELECT 1');
+      expect(manager.getPoolStats().pools?.[1]).toMatchObject({ healthy: false, consecutiveFailures: 1 });
+
+      await manager.checkReplicaHealth();
+      expect(manager.getPoolStats().pools?.[1]).toMatchObject({ healthy: true, consecutiveFailures: 0 });
+    });
+
+    it('should report per-pool figures and gauges', async () => {
+      const instrumentation = new InMemoryInstrumentation();
+      primary = createPool(3);
+      replica1 = createPool(2);
+      replica2 = createPool(1);
+      vi.mocked(Pool)
+        .mockImplementationOnce(() => primary as any)
+        .mockImplementationOnce(() => replica1 as any)
+        .mockImplementationOnce(() => replica2 as any);
+      const manager = new PgConnectionManager({
+        host: 'primary',
+        database: 'test',
+        replicas: [{ host: 'replica-a' }, { host: 'replica-b' }],
+        instrumentation,
+      });
+
+      await manager.getConnection({ readOnly: true });
+      const stats = manager.getPoolStats();
+
+      expect(stats).toMatchObject({ total: 6, active: 1, max: 15 });
+      expect(stats.pools?.[1]).toEqual({
+        name: 'replica-1',
+        role: 'replica',
+        healthy: true,
+        consecutiveFailures: 0,
+        total: 2,
+        idle: 0,
+        active: 1,
+        waiting: 0,
+        max: 5,
+      });
+      expect(instrumentation.getGauges(PoolGauge.HEALTHY)).toHaveLength(3);
+      expect(instrumentation.getGauges(PoolGauge.ACTIVE).map(gauge => gauge.attributes)).toContainEqual({
+        'db.pool.name': 'replica-1',
+      });
+    });
+  });
+
   it('should throw an error for invalid configuration', () => {
     expect(() => {
       new PgConnectionManager({} as any);
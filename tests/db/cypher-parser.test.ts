@@ -0,0 +1,82 @@
+/**
+ * Tests for the Cypher result column parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  tokenizeCypher,
+  inferReturnColumns,
+  buildColumnDefinitions,
+  CypherTokenType,
+} from '../../src/db/cypher-parser';
+
+describe('tokenizeCypher', () => {
+  it('should tokenize strings, identifiers, parameters and nesting', () => {
+    const tokens = tokenizeCypher("RETURN {a: 'x, y'}, `my col`, $p // comment");
+
+    expect(tokens.map(token => token.value)).toEqual([
+      'RETURN', '{', 'a', ':', "'x, y'", '}', ',', 'my col', ',', '$p'
+    ]);
+    expect(tokens[4]).toMatchObject({ type: CypherTokenType.STRING, depth: 1 });
+    expect(tokens[7]).toMatchObject({ type: CypherTokenType.IDENTIFIER, quoted: true });
+    expect(tokens[9].type).toBe(CypherTokenType.PARAMETER);
+  });
+
+  it('should reject unterminated literals', () => {
+    expect(() => tokenizeCypher("RETURN 'abc")).toThrow(/Unterminated string literal/);
+    expect(() => tokenizeCypher('RETURN `abc')).toThrow(/Unterminated backtick identifier/);
+  });
+});
+
+describe('inferReturnColumns', () => {
+  it('should use explicit aliases', () => {
+    expect(inferReturnColumns('MATCH (p) RETURN p.name AS name, count(*) AS total'))
+      .toEqual(['name', 'total']);
+  });
+
+  it('should name variables, properties and function calls', () => {
+    expect(inferReturnColumns('MATCH (p)-[r]->(m) RETURN p, m.title, count(r), p.age + 1'))
+      .toEqual(['p', 'title', 'count', 'col4']);
+  });
+
+  it('should not split on commas inside nested expressions and literals', () => {
+    const cypher = "MATCH (p) RETURN coalesce(p.nickname, p.name, 'a, b') AS display, " +
+      '{name: p.name, tags: [1, 2]} AS info, size(collect(DISTINCT p)) AS people';
+
+    expect(inferReturnColumns(cypher)).toEqual(['display', 'info', 'people']);
+  });
+
+  it('should handle DISTINCT and stop at ORDER BY, SKIP and LIMIT', () => {
+    expect(inferReturnColumns('MATCH (p) RETURN DISTINCT p.name ORDER BY p.name SKIP 1 LIMIT 5'))
+      .toEqual(['name']);
+  });
+
+  it('should use the first query of a UNION', () => {
+    expect(inferReturnColumns('MATCH (a) RETURN a.name AS name UNION MATCH (b) RETURN b.title AS name'))
+      .toEqual(['name']);
+  });
+
+  it('should ignore RETURN clauses inside subqueries and strings', () => {
+    const cypher = "MATCH (p) WHERE exists { MATCH (p)-->(q) RETURN q } " +
+      "WITH p, 'RETURN x' AS s RETURN p.name AS name";
+
+    expect(inferReturnColumns(cypher)).toEqual(['name']);
+  });
+
+  it('should make duplicate names unique', () => {
+    expect(inferReturnColumns('MATCH (p)-->(c) RETURN p.name, c.name')).toEqual(['name', 'name_2']);
+  });
+
+  it('should return null without a projection list', () => {
+    expect(inferReturnColumns('CREATE (p:Person)')).toBeNull();
+    expect(inferReturnColumns('MATCH (p) RETURN *')).toBeNull();
+  });
+});
+
+describe('buildColumnDefinitions', () => {
+  it('should quote column names', () => {
+    expect(buildColumnDefinitions(['movieTitle', 'order', 'full "name"'])).toBe(
+      '"movietitle" ag_catalog.agtype, "order" ag_catalog.agtype, "full ""name""" ag_catalog.agtype'
+    );
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Tests for the database driver abstraction
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FakeDriver } from '../../src/db/fake-driver';
+import { PostgresDriver } from '../../src/db/postgres-driver';
+import { createDriver, registerDriver } from '../../src/db/driver-registry';
+import { PgConnectionManager } from '../../src/db/connector';
+import { QueryExecutor } from '../../src/db/query';
+import { VertexOperations } from '../../src/db/vertex';
+import { ConnectionError, DriverType } from '../../src/db/types';
+import { SchemaLoader } from '../../src/loader/schema-loader';
+import { SchemaDefinition } from '../../src/schema/types';
+
+const schema = {
+  version: '1.0.0',
+  vertices: {
+    Person: {
+      properties: { name: { type: 'string' } },
+      required: ['name'],
+    },
+  },
+  edges: {},
+} as SchemaDefinition;
+
+describe('FakeDriver', () => {
+  let driver: FakeDriver;
+
+  beforeEach(() => {
+    driver = new FakeDriver();
+  });
+
+  it('should record statements and answer them with scripted results', async () => {
+    driver.respond('SELECT name FROM people', { rows: [{ name: 'Ann' }, { name: 'Bob' }] });
+    const client = await driver.connect();
+
+    const result = await client.query('SELECT  name\n  FROM people WHERE id = $1', [1]);
+    const empty = await client.query('DELETE FROM people');
+
+    expect(result.rows).toEqual([{ name: 'Ann' }, { name: 'Bob' }]);
+    expect(result.rowCount).toBe(2);
+    expect(result.fields).toEqual([{ name: 'name', dataTypeID: 0 }]);
+    expect(empty).toEqual({ rows: [], rowCount: 0, command: 'DELETE', fields: [] });
+    expect(driver.getStatements()).toEqual([
+      { kind: 'query', text: 'SELECT  name\n  FROM people WHERE id = $1', values: [1], clientId: 1 },
+      { kind: 'query', text: 'DELETE FROM people', values: undefined, clientId: 1 },
+    ]);
+  });
+
+  it('should prefer later and one-off rules and throw scripted errors', async () => {
+    driver.respond(/FROM people/, { rows: [{ n: 1 }] });
+    driver.respondOnce(/FROM people/, new Error('boom'));
+    const client = await driver.connect();
+
+    await expect(client.query('SELECT * FROM people')).rejects.toThrow('boom');
+    await expect(client.query('SELECT * FROM people')).resolves.toMatchObject({ rows: [{ n: 1 }] });
+  });
+
+  it('should record COPY data and read cursors in batches', async () => {
+    driver.respond(statement => statement.kind === 'cursor', { rows: [{ n: 1 }, { n: 2 }, { n: 3 }] });
+    const client = await driver.connect();
+
+    const copy = await client.copyFrom('COPY people FROM STDIN', ['Ann\n', Buffer.from('Bob\n')]);
+    const batches: any[] = [];
+    for await (const batch of client.cursor('SELECT n FROM numbers', undefined, 2)) {
+      batches.push(batch);
+    }
+
+    expect(copy).toMatchObject({ rowCount: 2, command: 'COPY' });
+    expect(driver.getStatements('copy')[0].data).toBe('Ann\nBob\n');
+    expect(batches).toEqual([[{ n: 1 }, { n: 2 }], [{ n: 3 }]]);
+  });
+
+  it('should pool connections and deliver notifications', async () => {
+    const onConnect = vi.fn().mockResolvedValue(undefined);
+    driver.onConnect(onConnect);
+
+    const first = await driver.connect();
+    expect(driver.getStats()).toEqual({ total: 1, idle: 0, waiting: 0, max: 10 });
+    first.release();
+    const second = await driver.connect();
+
+    expect(second).toBe(first);
+    expect(onConnect).toHaveBeenCalledTimes(1);
+    expect(() => { second.release(); second.release(); }).toThrow('already been released');
+
+    const handler = vi.fn();
+    const subscription = await driver.listen('changes', handler);
+    driver.notify('changes', 'Person:1');
+    await subscription.unlisten();
+    driver.notify('changes', 'Person:2');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ channel: 'changes', payload: 'Person:1', processId: 0 });
+  });
+
+  it('should let VertexOperations run without a database', async () => {
+    driver.respond('SHOW search_path', { rows: [{ search_path: 'ag_catalog, "$user", public' }] });
+    driver.respond('MATCH (v:Person)', { rows: [{ v: '{"id": 1, "label": "Person", "properties": {"name": "Ann"}}::vertex' }] });
+    const queryExecutor = new QueryExecutor(await driver.connect());
+    const vertexOperations = new VertexOperations(schema, queryExecutor, {} as any, 'social');
+
+    const vertices = await vertexOperations.getVerticesByLabel('Person');
+
+    expect(vertices).toHaveLength(1);
+    expect(vertices[0]).toMatchObject({ label: 'Person', properties: { name: 'Ann' } });
+    const [cypher] = driver.getStatements('query').filter(statement => statement.text.includes('cypher('));
+    expect(cypher.text).toContain("ag_catalog.cypher('social'");
+    expect(cypher.text).toContain('MATCH (v:Person)');
+  });
+
+  it('should let SchemaLoader run without a database', async () => {
+    driver.respond('INSERT INTO temp_vertices', { rowCount: 1 });
+    driver.respondOnce(statement => statement.values?.[1] === '{"name":"Bob"}', new Error('disk full'));
+    const queryExecutor = new QueryExecutor(await driver.connect());
+    const schemaLoader = new SchemaLoader(schema, queryExecutor, {
+      defaultGraphName: 'social',
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    });
+
+    const result = await schemaLoader.loadVertices({ Person: [{ name: 'Ann' }, { name: 'Bob' }] });
+
+    expect(result.success).toBe(false);
+    expect(result.errors![0].message).toContain('disk full');
+    const inserts = driver.getStatements('query').filter(statement => statement.text.includes('INSERT INTO'));
+    expect(inserts.map(statement => statement.values)).toEqual([
+      ['Person', '{"name":"Ann"}'],
+      ['Person', '{"name":"Bob"}'],
+    ]);
+    const queries = driver.getQueries();
+    expect(queries[0]).toBe('BEGIN');
+    expect(queries[queries.length - 1]).toBe('ROLLBACK');
+  });
+});
+
+describe('PgConnectionManager with a driver', () => {
+  const config = { host: 'localhost', port: 5432, database: 'test', user: 'test', password: 'test' };
+  let manager: PgConnectionManager;
+
+  afterEach(async () => {
+    await manager.closeAll();
+  });
+
+  it('should run connections on a fake driver instance', async () => {
+    const driver = new FakeDriver();
+    manager = new PgConnectionManager({ ...config, driver: { instance: driver } });
+
+    const connection = await manager.getConnection();
+    await connection.query('SELECT 1');
+    await connection.copyFrom!('COPY t FROM STDIN', 'a\n');
+    await manager.releaseConnection(connection);
+
+    expect(manager.getDriver()).toBe(driver);
+    expect(driver.getQueries()).toContain('SELECT 1');
+    expect(driver.getStatements('copy')).toHaveLength(1);
+    expect(manager.getPoolStats()).toMatchObject({ total: 1, idle: 1, active: 0, max: 10 });
+  });
+
+  it('should create drivers by type', async () => {
+    manager = new PgConnectionManager({ ...config, driver: { type: DriverType.FAKE }, pool: { max: 3 } });
+
+    expect(manager.getDriver()).toBeInstanceOf(FakeDriver);
+    expect(manager.getPoolStats().max).toBe(3);
+  });
+
+  it('should subscribe to notifications through the driver', async () => {
+    const driver = new FakeDriver();
+    manager = new PgConnectionManager({ ...config, driver: { instance: driver } });
+    const handler = vi.fn();
+
+    await manager.listen('changes', handler);
+    driver.notify('changes', 'hello');
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ channel: 'changes', payload: 'hello' }));
+  });
+});
+
+describe('driver registry', () => {
+  it('should create registered driver types', () => {
+    const driver = new FakeDriver();
+    registerDriver('custom', () => driver);
+
+    expect(createDriver({ driver: { type: 'custom' } })).toBe(driver);
+  });
+
+  it('should reject unknown driver types', () => {
+    expect(() => createDriver({ driver: { type: 'unknown' } })).toThrow(ConnectionError);
+    expect(() => createDriver({ driver: { type: 'unknown' } })).toThrow('Unknown database driver: unknown');
+  });
+});
+
+describe('PostgresDriver', () => {
+  const result = (rows: any[], extra: Record<string, any> = {}) => Object.assign(rows, extra);
+
+  const createSql = () => {
+    const pending = (rows: any[]) => {
+      const query: any = Promise.resolve(rows);
+      query.simple = vi.fn(() => query);
+      query.values = vi.fn(() => Promise.resolve(result(rows.map(row => Object.values(row)), {
+        count: (rows as any).count,
+        command: (rows as any).command,
+        columns: (rows as any).columns,
+      })));
+      query.cursor = vi.fn(async function* () {
+        yield [...rows];
+      });
+      return query;
+    };
+    const reserved = {
+      unsafe: vi.fn((text: string) => pending(
+        text.includes('current_setting')
+          ? result([{ initialized: null }])
+          : result([{ n: '1' }], { count: 1, command: 'SELECT', columns: [{ name: 'n', type: 20 }] })
+      )),
+      release: vi.fn(),
+    };
+    const sql = {
+      unsafe: vi.fn(),
+      reserve: vi.fn().mockResolvedValue(reserved),
+      listen: vi.fn().mockResolvedValue({ unlisten: vi.fn().mockResolvedValue(undefined) }),
+      end: vi.fn().mockResolvedValue(undefined),
+      options: { max: 4 },
+    };
+    return { sql, reserved };
+  };
+
+  it('should require the Postgres.js module or an sql instance', () => {
+    expect(() => new PostgresDriver({ driver: { type: DriverType.POSTGRES } })).toThrow(ConnectionError);
+  });
+
+  it('should create the sql instance from the connection configuration', () => {
+    const { sql } = createSql();
+    const postgres = vi.fn().mockReturnValue(sql);
+
+    new PostgresDriver({
+      host: 'db',
+      port: 5433,
+      database: 'graphs',
+      user: 'app',
+      password: 'secret',
+      pool: { max: 5, idleTimeoutMillis: 30000 },
+      driver: { type: DriverType.POSTGRES, postgres } as any,
+    });
+
+    expect(postgres).toHaveBeenCalledWith(expect.objectContaining({
+      host: 'db',
+      port: 5433,
+      database: 'graphs',
+      username: 'app',
+      password: 'secret',
+      max: 5,
+      idle_timeout: 30,
+    }));
+  });
+
+  it('should run connect handlers and convert results', async () => {
+    const { sql, reserved } = createSql();
+    const driver = new PostgresDriver({ driver: { type: DriverType.POSTGRES, sql } as any });
+    const onConnect = vi.fn().mockResolvedValue(undefined);
+    driver.onConnect(onConnect);
+
+    const client = await driver.connect();
+    const queryResult = await client.query('SELECT n FROM numbers WHERE n = $1', [1]);
+    const arrayResult = await client.query({ text: 'SELECT n FROM numbers', rowMode: 'array' });
+    const batches: any[] = [];
+    for await (const batch of client.cursor('SELECT n FROM numbers', undefined, 1)) {
+      batches.push(batch);
+    }
+
+    expect(onConnect).toHaveBeenCalledTimes(1);
+    expect(reserved.unsafe).toHaveBeenCalledWith("SET age_schema_client.initialized = 'on'");
+    expect(queryResult).toEqual({
+      rows: [{ n: '1' }],
+      rowCount: 1,
+      command: 'SELECT',
+      fields: [{ name: 'n', dataTypeID: 20 }],
+    });
+    expect(arrayResult.rows).toEqual([['1']]);
+    expect(batches).toEqual([[{ n: '1' }]]);
+    expect(driver.getStats()).toEqual({ total: 1, idle: 0, waiting: 0, max: 4 });
+
+    client.release();
+    expect(reserved.release).toHaveBeenCalled();
+    expect(driver.getStats().total).toBe(0);
+
+    await driver.end();
+    expect(sql.end).toHaveBeenCalled();
+  });
+
+  it('should deliver notifications', async () => {
+    const { sql } = createSql();
+    const driver = new PostgresDriver({ driver: { type: DriverType.POSTGRES, sql } as any });
+    const handler = vi.fn();
+
+    await driver.listen('changes', handler);
+    const onNotify = sql.listen.mock.calls[0][1];
+    onNotify('hello');
+
+    expect(sql.listen).toHaveBeenCalledWith('changes', expect.any(Function));
+    expect(handler).toHaveBeenCalledWith({ channel: 'changes', payload: 'hello' });
+  });
+});
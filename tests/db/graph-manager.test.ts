@@ -0,0 +1,206 @@
+/**
+ * Tests for graph management and tenant-scoped clients
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FakeDriver } from '../../src/db/fake-driver';
+import { QueryExecutor } from '../../src/db/query';
+import { GraphManager, validateGraphName } from '../../src/db/graph-manager';
+import { ValidationError } from '../../src/core/errors';
+import { SchemaDefinition } from '../../src/schema/types';
+
+const schema = {
+  version: '1.0.0',
+  vertices: {
+    Person: {
+      properties: { name: { type: 'string' } },
+      required: ['name'],
+    },
+  },
+  edges: {},
+} as SchemaDefinition;
+
+describe('GraphManager', () => {
+  let driver: FakeDriver;
+  let graphManager: GraphManager;
+
+  const existingGraphs = (...names: string[]) =>
+    driver.respond('FROM ag_catalog.ag_graph WHERE name = $1', statement => ({
+      rows: [{ exists: names.includes(statement.values![0]) }],
+    }));
+
+  beforeEach(async () => {
+    driver = new FakeDriver();
+    driver.respond('SHOW search_path', { rows: [{ search_path: 'ag_catalog, public' }] });
+    graphManager = new GraphManager(new QueryExecutor(await driver.connect()));
+  });
+
+  it('should validate graph names', () => {
+    expect(() => validateGraphName('social_2')).not.toThrow();
+    expect(() => validateGraphName("x', 'y")).toThrow(ValidationError);
+    expect(() => validateGraphName('2social')).toThrow(ValidationError);
+    expect(() => validateGraphName('g'.repeat(64))).toThrow('at most 63 characters');
+  });
+
+  it('should create graphs', async () => {
+    existingGraphs('social');
+
+    expect(await graphManager.createGraph('social', { ifNotExists: true })).toBe(false);
+    expect(await graphManager.createGraph('staging')).toBe(true);
+
+    const creates = driver.getStatements('query').filter(statement => statement.text.includes('create_graph'));
+    expect(creates).toEqual([expect.objectContaining({ values: ['staging'] })]);
+    await expect(graphManager.createGraph('bad name')).rejects.toThrow(ValidationError);
+  });
+
+  it('should refuse to drop graphs holding data without cascade', async () => {
+    existingGraphs('social');
+    driver.respond('AS has_data', { rows: [{ has_data: true }] });
+
+    await expect(graphManager.dropGraph('social')).rejects.toThrow('drop it with cascade');
+    expect(driver.getQueries().some(query => query.includes('drop_graph'))).toBe(false);
+
+    expect(await graphManager.dropGraph('social', { cascade: true })).toBe(true);
+    expect(driver.getStatements('query').find(statement => statement.text.includes('drop_graph'))!.values)
+      .toEqual(['social']);
+  });
+
+  it('should drop empty graphs and report missing ones', async () => {
+    existingGraphs('empty');
+    driver.respond('AS has_data', { rows: [{ has_data: false }] });
+
+    expect(await graphManager.dropGraph('empty')).toBe(true);
+    expect(await graphManager.dropGraph('missing', { ifExists: true })).toBe(false);
+    await expect(graphManager.dropGraph('missing')).rejects.toThrow("Graph 'missing' does not exist");
+  });
+
+  it('should list graphs with their labels', async () => {
+    driver.respond('FROM ag_catalog.ag_graph g', {
+      rows: [{ name: 'social', namespace: 'social', vertex_labels: ['Person'], edge_labels: ['KNOWS'] }],
+    });
+
+    expect(await graphManager.listGraphs()).toEqual([
+      { name: 'social', namespace: 'social', vertexLabels: ['Person'], edgeLabels: ['KNOWS'] },
+    ]);
+    expect(driver.getStatements('query').find(statement => statement.text.includes('array_agg'))!.values)
+      .toEqual([['_ag_label_vertex', '_ag_label_edge']]);
+  });
+
+  it('should clone labels and data with remapped graph ids', async () => {
+    existingGraphs('social');
+    const labels = (ids: number[]) => ({
+      rows: [
+        { name: '_ag_label_vertex', id: 1, kind: 'v', seq_name: '_ag_label_vertex_id_seq' },
+        { name: '_ag_label_edge', id: 2, kind: 'e', seq_name: '_ag_label_edge_id_seq' },
+        { name: 'Person', id: ids[0], kind: 'v', seq_name: 'Person_id_seq' },
+        { name: 'KNOWS', id: ids[1], kind: 'e', seq_name: 'KNOWS_id_seq' },
+      ],
+    });
+    driver.respond(
+      statement => statement.text.includes('FROM ag_catalog.ag_label l') && statement.values?.[0] === 'social',
+      labels([3, 5])
+    );
+    driver.respond(
+      statement => statement.text.includes('FROM ag_catalog.ag_label l') && statement.values?.[0] === 'social_copy',
+      labels([3, 4])
+    );
+
+    await graphManager.cloneGraph('social', 'social_copy');
+
+    const queries = driver.getQueries().filter(query => !query.includes('ag_graph WHERE') && !query.includes('search_path'));
+    expect(queries[0]).toBe('BEGIN');
+    expect(queries[queries.length - 1]).toBe('COMMIT');
+    expect(driver.getStatements('query')
+      .filter(statement => /create_(v|e)label/.test(statement.text))
+      .map(statement => [statement.text.match(/create_(v|e)label/)![0], ...statement.values!]))
+      .toEqual([['create_vlabel', 'social_copy', 'Person'], ['create_elabel', 'social_copy', 'KNOWS']]);
+
+    const vertexCopy = queries.find(query => query.includes('INSERT INTO "social_copy"."Person"'))!;
+    expect(vertexCopy).toContain('ag_catalog._graphid(3,');
+    expect(vertexCopy).toContain('FROM ONLY "social"."Person"');
+
+    const edgeCopy = queries.find(query => query.includes('INSERT INTO "social_copy"."KNOWS"'))!;
+    expect(edgeCopy).toContain('VALUES (1, 1), (2, 2), (3, 3), (5, 4)');
+    expect(edgeCopy).toContain('ag_catalog._graphid(4,');
+    expect(queries.indexOf(vertexCopy)).toBeLessThan(queries.indexOf(edgeCopy));
+
+    const setvals = driver.getStatements('query').filter(statement => statement.text.includes('setval'));
+    expect(setvals.map(statement => statement.values)).toEqual([
+      ['"social_copy"."Person_id_seq"'],
+      ['"social_copy"."KNOWS_id_seq"'],
+    ]);
+  });
+
+  it('should roll back a failed clone', async () => {
+    existingGraphs('social');
+    driver.respond('create_graph', new Error('permission denied'));
+
+    await expect(graphManager.cloneGraph('social', 'social_copy')).rejects.toThrow('permission denied');
+    expect(driver.getQueries()).toContain('ROLLBACK');
+  });
+
+  it('should refuse to clone onto an existing graph', async () => {
+    existingGraphs('social', 'social_copy');
+
+    await expect(graphManager.cloneGraph('social', 'social_copy')).rejects.toThrow("Graph 'social_copy' already exists");
+    await expect(graphManager.cloneGraph('missing', 'other')).rejects.toThrow("Graph 'missing' does not exist");
+  });
+
+  it('should rename graphs', async () => {
+    await graphManager.renameGraph('social', 'social_archive');
+
+    const rename = driver.getStatements('query').find(statement => statement.text.includes('alter_graph'))!;
+    expect(rename.text).toContain("'RENAME'");
+    expect(rename.values).toEqual(['social', 'social_archive']);
+  });
+
+  describe('tenant clients', () => {
+    it('should derive safe graph names from tenant ids', () => {
+      expect(graphManager.getTenantGraphName('Acme_1')).toBe('tenant_acme_1');
+      expect(graphManager.getTenantGraphName('acme', 'customer_')).toBe('customer_acme');
+      expect(() => graphManager.getTenantGraphName('acme; DROP')).toThrow(ValidationError);
+      expect(() => graphManager.getTenantGraphName('')).toThrow(ValidationError);
+    });
+
+    it('should create the tenant graph and pin it onto every query', async () => {
+      existingGraphs();
+      driver.respond('MATCH (v:Person)', { rows: [] });
+
+      const tenant = await graphManager.forTenant('acme', schema);
+      await tenant.vertices.getVerticesByLabel('Person');
+      await tenant.executeCypher('MATCH (v:Person) RETURN v');
+
+      expect(tenant.graphName).toBe('tenant_acme');
+      expect(driver.getStatements('query').find(statement => statement.text.includes('create_graph'))!.values)
+        .toEqual(['tenant_acme']);
+      const cypherQueries = driver.getQueries().filter(query => query.includes('ag_catalog.cypher('));
+      expect(cypherQueries).toHaveLength(2);
+      cypherQueries.forEach(query => expect(query).toContain("ag_catalog.cypher('tenant_acme'"));
+
+      await expect(tenant.vertices.getVerticesByLabel('Person', {}, 'tenant_other'))
+        .rejects.toThrow('outside the graph "tenant_acme"');
+      await expect(tenant.queryExecutor.executeCypher('MATCH (v) RETURN v', {}, 'social'))
+        .rejects.toThrow('outside the graph');
+    });
+
+    it('should build queries and loads on the tenant graph', async () => {
+      existingGraphs('tenant_acme');
+      const tenant = await graphManager.forTenant('acme', schema, {
+        loaderOptions: { logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } },
+      });
+
+      expect(tenant.createQueryBuilder().match('Person', 'p').return('p').toCypher()).toContain('MATCH (p:Person)');
+      await tenant.loadVertices({ Person: [{ name: 'Ann' }] }, { graphName: 'social' } as any);
+
+      expect(driver.getQueries().some(query => query.includes('create_graph'))).toBe(false);
+      expect(driver.getQueries().some(query => query.includes("'social'"))).toBe(false);
+    });
+
+    it('should require an existing graph when not creating it', async () => {
+      existingGraphs();
+
+      await expect(graphManager.forTenant('acme', schema, { createIfMissing: false }))
+        .rejects.toThrow("Graph 'tenant_acme' of tenant 'acme' does not exist");
+    });
+  });
+});
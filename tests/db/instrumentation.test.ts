@@ -0,0 +1,122 @@
+/**
+ * Tests for tracing and metrics instrumentation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  QueryExecutor,
+  TransactionManager,
+  InMemoryInstrumentation,
+  SpanAttribute,
+  SpanName,
+  DatabaseErrorType,
+  createOpenTelemetryInstrumentation,
+  recordPoolStats,
+} from '../../src/db';
+
+describe('Instrumentation', () => {
+  let mockConnection: any;
+  let instrumentation: InMemoryInstrumentation;
+
+  beforeEach(() => {
+    mockConnection = {
+      query: vi.fn().mockImplementation((query) => {
+        const text = typeof query === 'string' ? query : query.text;
+        if (text.includes('SHOW search_path')) {
+          return { rows: [{ search_path: 'ag_catalog, "$user", public' }] };
+        }
+        if (text.includes('pg_catalog.pg_type')) {
+          return { rows: [] };
+        }
+        return { rows: [{ n: '1' }, { n: '2' }], rowCount: 2, fields: [], command: 'SELECT', oid: 0 };
+      }),
+    };
+    instrumentation = new InMemoryInstrumentation();
+  });
+
+  const quietLogger = { logQuery: vi.fn(), logError: vi.fn(), debug: vi.fn() };
+
+  it('should record a span per SQL and Cypher query', async () => {
+    const executor = new QueryExecutor(mockConnection, quietLogger, instrumentation);
+
+    await executor.executeSQL('SELECT 1');
+    await executor.executeCypher('MATCH (p) RETURN p.n AS n', {}, 'social');
+
+    const [sql] = instrumentation.getFinishedSpans(SpanName.SQL);
+    expect(sql.attributes).toEqual({
+      [SpanAttribute.SYSTEM]: 'postgresql',
+      [SpanAttribute.STATEMENT]: 'SELECT 1',
+      [SpanAttribute.ROW_COUNT]: 2,
+    });
+    expect(sql.duration).toBeGreaterThanOrEqual(0);
+
+    const [cypher] = instrumentation.getFinishedSpans(SpanName.CYPHER);
+    expect(cypher.attributes[SpanAttribute.GRAPH]).toBe('social');
+    expect(cypher.attributes[SpanAttribute.ROW_COUNT]).toBe(2);
+  });
+
+  it('should record the error and its type on a failed query span', async () => {
+    const executor = new QueryExecutor(mockConnection, quietLogger, instrumentation);
+    mockConnection.query.mockRejectedValueOnce(Object.assign(new Error('syntax error'), { code: '42601' }));
+
+    await expect(executor.executeSQL('SELEC 1')).rejects.toThrow('syntax error');
+
+    const [span] = instrumentation.getFinishedSpans(SpanName.SQL);
+    expect(span.error).toBeInstanceOf(Error);
+    expect(span.attributes[SpanAttribute.ERROR_TYPE]).toBe(DatabaseErrorType.QUERY);
+  });
+
+  it('should record transaction boundaries', async () => {
+    const manager = new TransactionManager(mockConnection, {}, instrumentation);
+
+    await manager.withTransaction(async () => 'done');
+    await expect(manager.withTransaction(async () => {
+      throw new Error('callback failed');
+    })).rejects.toThrow('callback failed');
+
+    expect(instrumentation.getFinishedSpans().map(span => span.name)).toEqual([
+      SpanName.TRANSACTION_BEGIN,
+      SpanName.TRANSACTION_COMMIT,
+      SpanName.TRANSACTION_BEGIN,
+      SpanName.TRANSACTION_ROLLBACK,
+    ]);
+    const [begin] = instrumentation.getFinishedSpans(SpanName.TRANSACTION_BEGIN);
+    expect(begin.attributes[SpanAttribute.TRANSACTION_ID]).toMatch(/^tx-/);
+    expect(begin.attributes[SpanAttribute.ISOLATION_LEVEL]).toBe('READ COMMITTED');
+  });
+
+  it('should forward spans and gauges to an OpenTelemetry tracer and meter', () => {
+    const otelSpan = {
+      setAttribute: vi.fn(),
+      recordException: vi.fn(),
+      setStatus: vi.fn(),
+      end: vi.fn(),
+    };
+    const tracer = { startSpan: vi.fn().mockReturnValue(otelSpan) };
+    const gauge = { record: vi.fn() };
+    const meter = { createGauge: vi.fn().mockReturnValue(gauge) };
+    const otel = createOpenTelemetryInstrumentation({ tracer, meter });
+
+    const span = otel.startSpan(SpanName.SQL, { [SpanAttribute.STATEMENT]: 'SELECT 1', [SpanAttribute.LABEL]: undefined });
+    span.setAttributes({ [SpanAttribute.ROW_COUNT]: 3 });
+    span.recordError(new Error('boom'));
+    span.end();
+
+    expect(tracer.startSpan).toHaveBeenCalledWith('db.sql', {
+      kind: 2,
+      attributes: { 'db.statement': 'SELECT 1' },
+    });
+    expect(otelSpan.setAttribute).toHaveBeenCalledWith('db.row_count', 3);
+    expect(otelSpan.recordException).toHaveBeenCalledWith(expect.any(Error));
+    expect(otelSpan.setStatus).toHaveBeenCalledTimes(1);
+    expect(otelSpan.setStatus).toHaveBeenCalledWith({ code: 2, message: 'boom' });
+    expect(otelSpan.end).toHaveBeenCalled();
+
+    recordPoolStats(otel, { total: 4, idle: 1, active: 3, waiting: 2, max: 10 }, { pool: 'primary' });
+    recordPoolStats(otel, { total: 4, idle: 2, active: 2, waiting: 0, max: 10 }, { pool: 'primary' });
+
+    expect(meter.createGauge).toHaveBeenCalledTimes(5);
+    expect(gauge.record).toHaveBeenCalledWith(3, { pool: 'primary' });
+    expect(gauge.record).toHaveBeenCalledTimes(10);
+  });
+});
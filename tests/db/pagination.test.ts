@@ -0,0 +1,156 @@
+/**
+ * Tests for keyset pagination of vertices and edges
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { VertexOperations } from '../../src/db/vertex';
+import { EdgeOperations } from '../../src/db/edge';
+import { AgEdge, AgVertex } from '../../src/db/agtype';
+import { SQLFilterOperator, SQLOrderDirection } from '../../src/db/types';
+import { ValidationError } from '../../src/core/errors';
+
+// Mock schema definition
+const mockSchema = {
+  vertices: {
+    Person: {
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer' },
+      },
+      required: ['name'],
+    },
+  },
+  edges: {
+    KNOWS: {
+      properties: {
+        since: { type: 'integer' },
+      },
+      fromVertex: 'Person',
+      toVertex: 'Person',
+    },
+  },
+};
+
+const person = (id: string, name: string, age: number) => ({
+  v: new AgVertex(id, 'Person', { name, age }),
+});
+
+describe('Keyset pagination', () => {
+  let mockQueryExecutor: any;
+  let vertexOperations: VertexOperations<any>;
+
+  beforeEach(() => {
+    mockQueryExecutor = {
+      executeCypher: vi.fn().mockResolvedValue({ rows: [] }),
+    };
+    vertexOperations = new VertexOperations(mockSchema as any, mockQueryExecutor, {} as any, 'test_graph');
+  });
+
+  it('should return a page with a cursor when more vertices follow', async () => {
+    mockQueryExecutor.executeCypher.mockResolvedValueOnce({
+      rows: [person('1', 'Alice', 30), person('2', 'Bob', 40), person('3', 'Carol', 50)],
+    });
+
+    const page = await vertexOperations.getVerticesPage('Person', { pageSize: 2 });
+
+    expect(page.items.map(vertex => vertex.id)).toEqual(['1', '2']);
+    expect(page.hasMore).toBe(true);
+    expect(page.nextCursor).toEqual(expect.any(String));
+
+    const [query, params, graph] = mockQueryExecutor.executeCypher.mock.calls[0];
+    expect(query).toContain('MATCH (v:Person)');
+    expect(query).toContain('ORDER BY id(v) ASC\nLIMIT 3');
+    expect(query).not.toContain('WHERE');
+    expect(params).toEqual({});
+    expect(graph).toBe('test_graph');
+  });
+
+  it('should continue after the cursor by graph id', async () => {
+    mockQueryExecutor.executeCypher
+      .mockResolvedValueOnce({ rows: [person('1', 'Alice', 30), person('2', 'Bob', 40)] })
+      .mockResolvedValueOnce({ rows: [person('844424930131971', 'Carol', 50)] });
+
+    const first = await vertexOperations.getVerticesPage('Person', { pageSize: 1 });
+    const second = await vertexOperations.getVerticesPage('Person', { pageSize: 1, after: first.nextCursor });
+
+    expect(mockQueryExecutor.executeCypher.mock.calls[1][0]).toContain('WHERE id(v) > 1');
+    expect(second.items.map(vertex => vertex.id)).toEqual(['844424930131971']);
+    expect(second.hasMore).toBe(false);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should page by an ordered property with graph id as tie breaker', async () => {
+    mockQueryExecutor.executeCypher
+      .mockResolvedValueOnce({ rows: [person('5', 'Bob', 40), person('2', 'Alice', 30)] })
+      .mockResolvedValueOnce({ rows: [] });
+    const orderBy = { property: 'age', direction: SQLOrderDirection.DESC };
+
+    const first = await vertexOperations.getVerticesPage('Person', {
+      pageSize: 1,
+      orderBy,
+      filters: [{ property: 'name', operator: SQLFilterOperator.NOT_EQUALS, value: 'Eve' }],
+    });
+    await vertexOperations.getVerticesPage('Person', { pageSize: 1, orderBy, after: first.nextCursor });
+
+    expect(mockQueryExecutor.executeCypher.mock.calls[0][0]).toContain(
+      "WHERE toString(v.name) <> 'Eve' AND v.age IS NOT NULL\nRETURN v\nORDER BY v.age DESC, id(v) DESC"
+    );
+    const [query, params] = mockQueryExecutor.executeCypher.mock.calls[1];
+    expect(query).toContain('(v.age < $cursor_value OR (v.age = $cursor_value AND id(v) < 5))');
+    expect(params).toEqual({ cursor_value: 40 });
+  });
+
+  it('should reject invalid cursors and options', async () => {
+    const first = await vertexOperations.getVerticesPage('Person', { pageSize: 1 });
+    expect(first).toEqual({ items: [], nextCursor: null, hasMore: false });
+
+    mockQueryExecutor.executeCypher.mockResolvedValueOnce({ rows: [person('1', 'A', 1), person('2', 'B', 2)] });
+    const { nextCursor } = await vertexOperations.getVerticesPage('Person', { pageSize: 1 });
+
+    await expect(vertexOperations.getVerticesPage('Person', { after: 'not-a-cursor' }))
+      .rejects.toThrow(ValidationError);
+    await expect(vertexOperations.getVerticesPage('Person', { after: nextCursor, orderBy: { property: 'age' } }))
+      .rejects.toThrow(/does not match the requested ordering/);
+    await expect(vertexOperations.getVerticesPage('Person', { orderBy: { property: 'age) RETURN 1 //' } }))
+      .rejects.toThrow(/Invalid order property/);
+    await expect(vertexOperations.getVerticesPage('Person', { pageSize: 0 }))
+      .rejects.toThrow(/Invalid page size/);
+  });
+
+  it('should iterate over all vertices page by page', async () => {
+    mockQueryExecutor.executeCypher
+      .mockResolvedValueOnce({ rows: [person('1', 'A', 1), person('2', 'B', 2), person('3', 'C', 3)] })
+      .mockResolvedValueOnce({ rows: [person('3', 'C', 3), person('4', 'D', 4)] });
+
+    const ids: string[] = [];
+    for await (const vertex of vertexOperations.iterateVertices('Person', { pageSize: 2 })) {
+      ids.push(vertex.id);
+    }
+
+    expect(ids).toEqual(['1', '2', '3', '4']);
+    expect(mockQueryExecutor.executeCypher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should page edges by edge graph id', async () => {
+    const edgeOperations = new EdgeOperations(mockSchema as any, mockQueryExecutor, {} as any, 'test_graph');
+    const knows = (id: string) => ({
+      a: new AgVertex('1', 'Person', {}),
+      r: new AgEdge(id, 'KNOWS', '1', '2', { since: 2020 }),
+      b: new AgVertex('2', 'Person', {}),
+    });
+    mockQueryExecutor.executeCypher
+      .mockResolvedValueOnce({ rows: [knows('10'), knows('11')] })
+      .mockResolvedValueOnce({ rows: [knows('11')] });
+
+    const ids: string[] = [];
+    for await (const edge of edgeOperations.iterateEdges('KNOWS', { pageSize: 1 })) {
+      ids.push(edge.id);
+      expect(edge.fromId).toBe('1');
+    }
+
+    expect(ids).toEqual(['10', '11']);
+    const [query] = mockQueryExecutor.executeCypher.mock.calls[1];
+    expect(query).toContain('MATCH (a)-[r:KNOWS]->(b)');
+    expect(query).toContain('WHERE id(r) > 10\nRETURN a, r, b\nORDER BY id(r) ASC\nLIMIT 2');
+  });
+});
@@ -3,7 +3,17 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { QueryExecutor, DefaultQueryLogger } from '../../src/db';
+import {
+  QueryExecutor,
+  DefaultQueryLogger,
+  AgVertex,
+  DatabaseErrorType,
+  QueryError,
+  classifyDatabaseError,
+  isTransientErrorType,
+} from '../../src/db';
+import { PgConnectionManager } from '../../src/db/connector';
+import { FakeDriver } from '../../src/db/fake-driver';
 
 describe('QueryExecutor', () => {
   let mockConnection: any;
@@ -66,9 +76,12 @@ describe('QueryExecutor', () => {
     });
   });
 
+  // A lost connection is not retried on the executor's own connection
+  const serializationFailure = () => Object.assign(new Error('could not serialize access'), { code: '40001' });
+
   it('should retry a failed query', async () => {
     mockConnection.query
-      .mockRejectedValueOnce(new Error('connection error'))
+      .mockRejectedValueOnce(serializationFailure())
       .mockResolvedValueOnce({
         rows: [{ test: 'value' }],
         rowCount: 1,
@@ -87,14 +100,14 @@ describe('QueryExecutor', () => {
   });
 
   it('should throw an error after max retries', async () => {
-    mockConnection.query.mockRejectedValue(new Error('connection error'));
+    mockConnection.query.mockRejectedValue(serializationFailure());
 
     await expect(
       queryExecutor.executeSQL('SELECT 1', [], {
         maxRetries: 2,
         retryDelay: 10,
       })
-    ).rejects.toThrow('connection error');
+    ).rejects.toThrow('could not serialize access');
 
     expect(mockConnection.query).toHaveBeenCalledTimes(3);
   });
@@ -125,6 +138,449 @@ describe('QueryExecutor', () => {
     expect(mockConnection.query).toHaveBeenCalled();
   });
 
+  it('should declare Cypher result columns', async () => {
+    mockConnection.query.mockImplementation((query) => {
+      if (typeof query === 'string' && query.includes('SHOW search_path')) {
+        return { rows: [{ search_path: 'ag_catalog, "$user", public' }] };
+      }
+      return { rows: [], rowCount: 0, fields: [], command: 'SELECT', oid: 0 };
+    });
+
+    await queryExecutor.executeCypher(
+      'MATCH (p) RETURN p.name AS name, count(DISTINCT p) AS total',
+      {},
+      'test-graph'
+    );
+    await queryExecutor.executeCypher('MATCH (p) RETURN p', {}, 'test-graph', {
+      returnColumns: ['person'],
+    });
+
+    const sqlCalls = mockConnection.query.mock.calls
+      .map(([query]) => query)
+      .filter(query => typeof query === 'object');
+
+    expect(sqlCalls[0].text).toContain(
+      'AS ("name" ag_catalog.agtype, "total" ag_catalog.agtype)'
+    );
+    expect(sqlCalls[1].text).toContain('AS ("person" ag_catalog.agtype)');
+  });
+
+  describe('agtype results', () => {
+    const cypherResults = (oidRows: any[], rows: any[]) => {
+      mockConnection.query.mockImplementation((query) => {
+        const text = typeof query === 'string' ? query : query.text;
+        if (text.includes('SHOW search_path')) {
+          return { rows: [{ search_path: 'ag_catalog, "$user", public' }] };
+        }
+        if (text.includes('pg_catalog.pg_type')) {
+          return { rows: oidRows };
+        }
+        return { rows, rowCount: rows.length, fields: [], command: 'SELECT', oid: 0 };
+      });
+    };
+
+    const cypherCalls = () => mockConnection.query.mock.calls
+      .map(([query]) => query)
+      .filter(query => typeof query === 'object');
+
+    it('should register a type parser for the agtype OID', async () => {
+      cypherResults([{ oid: 16923 }], []);
+
+      await queryExecutor.executeCypher('MATCH (p) RETURN p', {}, 'test-graph');
+      await queryExecutor.executeCypher('MATCH (p) RETURN p', {}, 'test-graph');
+
+      const [call] = cypherCalls();
+      expect(call.types.getTypeParser(16923, 'text')('{"id": 1, "label": "Person", "properties": {}}::vertex'))
+        .toEqual(new AgVertex('1', 'Person', {}));
+      const lookups = mockConnection.query.mock.calls
+        .filter(([query]) => typeof query === 'string' && query.includes('pg_catalog.pg_type'));
+      expect(lookups).toHaveLength(1);
+    });
+
+    it('should parse agtype text when the OID is unknown', async () => {
+      cypherResults([], [{ p: '{"id": 1, "label": "Person", "properties": {}}::vertex', n: '9007199254740993' }]);
+
+      const result = await queryExecutor.executeCypher('MATCH (p) RETURN p, count(p) AS n', {}, 'test-graph');
+
+      expect(result.rows).toEqual([{ p: new AgVertex('1', 'Person', {}), n: 9007199254740993n }]);
+      expect(cypherCalls()[0].types).toBeUndefined();
+    });
+
+    it('should return raw agtype text when parsing is disabled', async () => {
+      cypherResults([{ oid: 16923 }], [{ n: '1' }]);
+
+      const result = await queryExecutor.executeCypher('MATCH (p) RETURN count(p) AS n', {}, 'test-graph', {
+        agtype: false,
+      });
+
+      expect(result.rows).toEqual([{ n: '1' }]);
+      expect(cypherCalls()[0].types).toBeUndefined();
+    });
+  });
+
+  describe('streaming', () => {
+    const fetchResults = (batches: any[][]) => {
+      let fetchIndex = 0;
+      mockConnection.query.mockImplementation((query) => {
+        const text = typeof query === 'string' ? query : query.text;
+        if (text.startsWith('FETCH')) {
+          const rows = batches[fetchIndex++] || [];
+          return { rows, rowCount: rows.length, fields: [], command: 'FETCH', oid: 0 };
+        }
+        return { rows: [], rowCount: 0, fields: [], command: 'SELECT', oid: 0 };
+      });
+    };
+
+    const executedStatements = () => mockConnection.query.mock.calls
+      .map(([query]) => (typeof query === 'string' ? query : query.text));
+
+    it('should stream rows in batches through a cursor', async () => {
+      fetchResults([[{ n: 1 }, { n: 2 }], [{ n: 3 }]]);
+
+      const rows: any[] = [];
+      for await (const row of queryExecutor.streamSQL('SELECT n FROM t WHERE n > $1', [0], { batchSize: 2 })) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+      const statements = executedStatements();
+      expect(statements[0]).toBe('BEGIN');
+      expect(statements[1]).toMatch(/^DECLARE age_stream_cursor_\d+ NO SCROLL CURSOR FOR SELECT n FROM t WHERE n > \$1$/);
+      expect(statements.filter(text => text.startsWith('FETCH 2 FROM'))).toHaveLength(2);
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+    });
+
+    it('should only fetch the next batch when the consumer asks for it', async () => {
+      fetchResults([[{ n: 1 }, { n: 2 }], [{ n: 3 }, { n: 4 }]]);
+
+      const stream = queryExecutor.streamSQL('SELECT n FROM t', [], { batchSize: 2 });
+      await stream.next();
+
+      expect(executedStatements().filter(text => text.startsWith('FETCH'))).toHaveLength(1);
+      await stream.return();
+    });
+
+    it('should close the cursor when iteration stops early', async () => {
+      fetchResults([[{ n: 1 }, { n: 2 }], [{ n: 3 }, { n: 4 }]]);
+
+      for await (const row of queryExecutor.streamSQL('SELECT n FROM t', [], { batchSize: 2 })) {
+        if (row.n === 1) {
+          break;
+        }
+      }
+
+      const statements = executedStatements();
+      expect(statements.filter(text => text.startsWith('FETCH'))).toHaveLength(1);
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+    });
+
+    it('should roll back its transaction when the query fails', async () => {
+      mockConnection.query.mockImplementation((query) => {
+        const text = typeof query === 'string' ? query : query.text;
+        if (text.startsWith('DECLARE')) {
+          throw new Error('syntax error');
+        }
+        return { rows: [], rowCount: 0, fields: [], command: 'SELECT', oid: 0 };
+      });
+
+      const consume = async () => {
+        for await (const _row of queryExecutor.streamSQL('SELEC 1')) {
+          // no rows expected
+        }
+      };
+
+      await expect(consume()).rejects.toThrow(/Streaming query failed: syntax error/);
+      expect(executedStatements()).toContain('ROLLBACK');
+    });
+
+    it('should use the caller transaction and close the cursor', async () => {
+      fetchResults([[{ n: 1 }]]);
+
+      const rows: any[] = [];
+      for await (const row of queryExecutor.streamSQL('SELECT n FROM t', [], { transaction: {} })) {
+        rows.push(row);
+      }
+
+      const statements = executedStatements();
+      expect(rows).toHaveLength(1);
+      expect(statements).not.toContain('BEGIN');
+      expect(statements[statements.length - 1]).toMatch(/^CLOSE age_stream_cursor_\d+$/);
+    });
+
+    it('should stream inside a transaction begun on the executor and only close the cursor', async () => {
+      const transaction = await queryExecutor.beginTransaction();
+      fetchResults([[{ n: 1 }]]);
+      mockConnection.query.mockClear();
+
+      const rows: any[] = [];
+      for await (const row of queryExecutor.streamSQL('SELECT n FROM t')) {
+        rows.push(row);
+      }
+
+      const statements = executedStatements();
+      expect(rows).toHaveLength(1);
+      expect(statements).not.toContain('BEGIN');
+      expect(statements).not.toContain('COMMIT');
+      expect(statements).not.toContain('ROLLBACK');
+      expect(statements[0]).toMatch(/^DECLARE age_stream_cursor_\d+ /);
+      expect(statements[statements.length - 1]).toMatch(/^CLOSE age_stream_cursor_\d+$/);
+      await transaction.commit();
+    });
+
+    it('should treat queries run while the stream is open as part of its transaction', async () => {
+      fetchResults([[{ n: 1 }, { n: 2 }], [{ n: 3 }]]);
+      const query = mockConnection.query.getMockImplementation();
+      let failures = 0;
+      mockConnection.query.mockImplementation((config) => {
+        const text = typeof config === 'string' ? config : config.text;
+        if (text === 'SELECT 1' && failures++ < 2) {
+          throw Object.assign(new Error('could not serialize access'), { code: '40001' });
+        }
+        return query(config);
+      });
+
+      const stream = queryExecutor.streamSQL('SELECT n FROM t', [], { batchSize: 2 });
+      await stream.next();
+
+      // A retry would run outside the transaction the failure aborted
+      await expect(queryExecutor.executeSQL('SELECT 1', [], { maxRetries: 1, retryDelay: 1 }))
+        .rejects.toMatchObject({ type: DatabaseErrorType.SERIALIZATION_FAILURE });
+      expect(executedStatements().filter(text => text === 'SELECT 1')).toHaveLength(1);
+      await stream.return();
+
+      // Once the stream has ended, the failure is retried
+      await queryExecutor.executeSQL('SELECT 1', [], { maxRetries: 1, retryDelay: 1 });
+      const statements = executedStatements();
+      expect(statements.indexOf('COMMIT')).toBeGreaterThan(statements.indexOf('SELECT 1'));
+      expect(statements.filter(text => text === 'SELECT 1')).toHaveLength(3);
+    });
+
+    it('should stream Cypher rows with agtype values parsed', async () => {
+      fetchResults([[
+        {
+          p: '{"id": 1, "label": "Person", "properties": {"name": "Alice"}}::vertex',
+          name: '"Alice"',
+          age: '42',
+        },
+      ]]);
+
+      const rows: any[] = [];
+      for await (const row of queryExecutor.streamCypher(
+        'MATCH (p:Person) RETURN p, p.name AS name, p.age AS age',
+        {},
+        'test-graph'
+      )) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{
+        p: new AgVertex('1', 'Person', { name: 'Alice' }),
+        name: 'Alice',
+        age: 42,
+      }]);
+      const declare = executedStatements().find(text => text.startsWith('DECLARE'));
+      expect(declare).toContain("ag_catalog.cypher('test-graph'");
+      expect(declare).toContain('AS ("p" ag_catalog.agtype, "name" ag_catalog.agtype, "age" ag_catalog.agtype)');
+    });
+  });
+
+  describe('retries', () => {
+    const pgError = (code: string, message = `error ${code}`) => Object.assign(new Error(message), { code });
+    const ok = { rows: [], rowCount: 0, fields: [], command: 'SELECT', oid: 0 };
+    const quietLogger = { logQuery: () => {}, logError: () => {} };
+
+    let driver: FakeDriver;
+    let manager: PgConnectionManager;
+    let readConnections: any;
+
+    // Executor on a pooled connection of a fake driver, reading from connections of the same pool
+    const pooledExecutor = async () => {
+      driver = new FakeDriver();
+      driver.respond('SHOW search_path', { rows: [{ search_path: 'ag_catalog, "$user", public' }] });
+      manager = new PgConnectionManager({
+        host: 'localhost', port: 5432, database: 'test', user: 'test', password: 'test',
+        driver: { instance: driver },
+      });
+      readConnections = {
+        getConnection: vi.fn().mockImplementation(() => manager.getConnection()),
+        releaseConnection: vi.fn().mockImplementation(connection => manager.releaseConnection(connection)),
+      };
+      return new QueryExecutor(await manager.getConnection(), quietLogger, undefined, readConnections);
+    };
+
+    const cypherStatements = () => driver.getQueries().filter(text => text.includes('FROM ag_catalog.cypher('));
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await manager?.closeAll();
+    });
+
+    it('should classify errors by SQLSTATE', () => {
+      expect(classifyDatabaseError(new QueryError('wrapped', pgError('42601')))).toBe(DatabaseErrorType.QUERY);
+      expect(classifyDatabaseError(pgError('08006'))).toBe(DatabaseErrorType.CONNECTION);
+      expect(classifyDatabaseError(pgError('57P01'))).toBe(DatabaseErrorType.CONNECTION);
+      expect(classifyDatabaseError(pgError('57014'))).toBe(DatabaseErrorType.TIMEOUT);
+      expect(classifyDatabaseError(pgError('53300'))).toBe(DatabaseErrorType.POOL);
+      expect(classifyDatabaseError(pgError('25P02'))).toBe(DatabaseErrorType.TRANSACTION);
+      expect(classifyDatabaseError(pgError('ECONNRESET', 'read ECONNRESET'))).toBe(DatabaseErrorType.CONNECTION);
+      expect(classifyDatabaseError(pgError('EPIPE', 'write EPIPE'))).toBe(DatabaseErrorType.CONNECTION);
+      expect(classifyDatabaseError(new Error('Connection terminated unexpectedly'))).toBe(DatabaseErrorType.CONNECTION);
+      expect(isTransientErrorType(DatabaseErrorType.CONNECTION)).toBe(true);
+      expect(isTransientErrorType(DatabaseErrorType.TIMEOUT)).toBe(false);
+    });
+
+    it('should report the classified type without retrying query errors', async () => {
+      const executor = await pooledExecutor();
+      driver.respond('SELECT 1', pgError('42601', 'syntax error at or near "SELEC"'));
+
+      const error = await executor.executeSQL('SELECT 1', [], { maxRetries: 2, retryDelay: 1 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(QueryError);
+      expect(error.type).toBe(DatabaseErrorType.QUERY);
+      expect(driver.getQueries().filter(text => text === 'SELECT 1')).toHaveLength(1);
+    });
+
+    it('should retry serialization failures reported through a pooled connection', async () => {
+      const executor = await pooledExecutor();
+      driver.respondOnce('SELECT 1', pgError('40001'));
+
+      await executor.executeSQL('SELECT 1', [], { maxRetries: 2, retryDelay: 1 });
+
+      expect(driver.getQueries().filter(text => text === 'SELECT 1')).toHaveLength(2);
+    });
+
+    it('should retry a read-only Cypher query after an admin shutdown on a new replica connection', async () => {
+      const executor = await pooledExecutor();
+      driver.respondOnce('FROM ag_catalog.cypher(', pgError('57P01', 'terminating connection due to administrator command'));
+
+      await executor.executeCypher('MATCH (p) RETURN p', {}, 'test-graph', { maxRetries: 1, retryDelay: 1, readOnly: true });
+
+      expect(cypherStatements()).toHaveLength(2);
+      expect(readConnections.getConnection).toHaveBeenCalledTimes(2);
+      expect(readConnections.releaseConnection).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry lost connections on the executor connection', async () => {
+      const executor = await pooledExecutor();
+      driver.respondOnce('FROM ag_catalog.cypher(', pgError('57P01', 'terminating connection due to administrator command'));
+
+      const error = await executor.executeCypher('MATCH (p) RETURN p', {}, 'test-graph', { maxRetries: 1, retryDelay: 1 })
+        .catch(e => e);
+
+      expect(error.type).toBe(DatabaseErrorType.CONNECTION);
+      expect(cypherStatements()).toHaveLength(1);
+
+      driver.respondOnce('SELECT 1', pgError('EPIPE', 'write EPIPE'));
+      await expect(executor.executeSQL('SELECT 1', [], { maxRetries: 2, retryDelay: 1 }))
+        .rejects.toMatchObject({ type: DatabaseErrorType.CONNECTION });
+      expect(driver.getQueries().filter(text => text === 'SELECT 1')).toHaveLength(1);
+      expect(readConnections.getConnection).not.toHaveBeenCalled();
+    });
+
+    it('should not retry writes unless they are marked idempotent', async () => {
+      const executor = await pooledExecutor();
+      driver.respondOnce('FROM ag_catalog.cypher(', pgError('40001'));
+
+      const error = await executor.executeCypher('CREATE (p:Person) RETURN p', {}, 'test-graph', {
+        maxRetries: 1,
+        retryDelay: 1,
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(QueryError);
+      expect(error.type).toBe(DatabaseErrorType.SERIALIZATION_FAILURE);
+      expect(cypherStatements()).toHaveLength(1);
+
+      driver.respondOnce('FROM ag_catalog.cypher(', pgError('40001'));
+
+      await expect(executor.executeCypher('MERGE (p:Person {id: 1}) RETURN p', {}, 'test-graph', {
+        maxRetries: 1,
+        retryDelay: 1,
+        idempotent: true,
+      })).resolves.toBeDefined();
+      expect(cypherStatements()).toHaveLength(3);
+    });
+
+    it('should not retry inside a transaction', async () => {
+      mockConnection.query
+        .mockResolvedValueOnce(ok)
+        .mockRejectedValueOnce(pgError('40001'));
+
+      const transaction = await queryExecutor.beginTransaction();
+      await expect(queryExecutor.executeSQL('SELECT 1', [], { maxRetries: 2, retryDelay: 1 }))
+        .rejects.toMatchObject({ type: DatabaseErrorType.SERIALIZATION_FAILURE });
+      expect(mockConnection.query).toHaveBeenCalledTimes(2);
+
+      await transaction.rollback();
+      mockConnection.query.mockRejectedValueOnce(pgError('40001'));
+      await queryExecutor.executeSQL('SELECT 1', [], { maxRetries: 2, retryDelay: 1 });
+      expect(mockConnection.query).toHaveBeenCalledTimes(5);
+    });
+
+    it('should not retry SQL that changes data', async () => {
+      mockConnection.query.mockRejectedValue(pgError('40001'));
+
+      await expect(queryExecutor.executeSQL('WITH x AS (INSERT INTO t VALUES (1) RETURNING *) SELECT * FROM x', [], {
+        maxRetries: 2,
+        retryDelay: 1,
+      })).rejects.toMatchObject({ type: DatabaseErrorType.SERIALIZATION_FAILURE });
+      expect(mockConnection.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('read replica routing', () => {
+    let replicaConnection: any;
+    let readConnections: any;
+
+    beforeEach(() => {
+      replicaConnection = {
+        query: vi.fn().mockImplementation((query) => {
+          const text = typeof query === 'string' ? query : query.text;
+          if (text.includes('SHOW search_path')) {
+            return Promise.resolve({ rows: [{ search_path: 'ag_catalog, "$user", public' }] });
+          }
+          return Promise.resolve({ rows: [{ replica: true }], rowCount: 1 });
+        }),
+      };
+      readConnections = {
+        getConnection: vi.fn().mockResolvedValue(replicaConnection),
+        releaseConnection: vi.fn().mockResolvedValue(undefined),
+      };
+      queryExecutor = new QueryExecutor(mockConnection, undefined, undefined, readConnections);
+    });
+
+    it('should run read-only queries on a replica connection and release it', async () => {
+      const result = await queryExecutor.executeCypher('MATCH (p:Person) RETURN p', {}, 'test-graph', {
+        readOnly: true,
+        agtype: false,
+      });
+
+      expect(result.rows).toEqual([{ replica: true }]);
+      expect(readConnections.getConnection).toHaveBeenCalledWith({ readOnly: true });
+      expect(readConnections.releaseConnection).toHaveBeenCalledWith(replicaConnection);
+
+      await queryExecutor.executeSQL('SELECT 1', [], { readOnly: true });
+      expect(readConnections.getConnection).toHaveBeenCalledTimes(2);
+      expect(mockConnection.query).not.toHaveBeenCalled();
+    });
+
+    it('should keep writes, transactions and unmarked reads on the primary', async () => {
+      mockConnection.query.mockResolvedValueOnce({ rows: [{ search_path: 'ag_catalog, public' }] });
+      await queryExecutor.executeCypher('CREATE (p:Person) RETURN p', {}, 'test-graph', { readOnly: true, agtype: false });
+      await queryExecutor.executeSQL('SELECT 1');
+
+      const transaction = await queryExecutor.beginTransaction();
+      await queryExecutor.executeSQL('SELECT 1', [], { readOnly: true });
+      await transaction.commit();
+
+      expect(readConnections.getConnection).not.toHaveBeenCalled();
+      expect(replicaConnection.query).not.toHaveBeenCalled();
+    });
+  });
+
   it('should transform query results', () => {
     const result = {
       rows: [{ id: 1, name: 'test' }, { id: 2, name: 'test2' }],
@@ -3,7 +3,17 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { Transaction, TransactionManager, IsolationLevel, TransactionStatus } from '../../src/db';
+import {
+  Transaction,
+  TransactionManager,
+  IsolationLevel,
+  TransactionStatus,
+  DatabaseErrorType,
+  QueryError,
+  classifyDatabaseError,
+} from '../../src/db';
+import { PgConnectionManager } from '../../src/db/connector';
+import { FakeDriver } from '../../src/db/fake-driver';
 
 describe('Transaction', () => {
   let mockConnection: any;
@@ -131,6 +141,31 @@ describe('TransactionManager', () => {
     expect(mockConnection.query).toHaveBeenCalledWith('ROLLBACK');
   });
 
+  it('should run read-only transactions on a replica connection', async () => {
+    const replicaConnection = { query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }) };
+    const readConnections = {
+      getConnection: vi.fn().mockResolvedValue(replicaConnection),
+      releaseConnection: vi.fn().mockResolvedValue(undefined),
+    };
+    transactionManager = new TransactionManager(mockConnection, {}, undefined, readConnections);
+
+    const result = await transactionManager.withTransaction(
+      async transaction => transaction.getConnection(),
+      { readOnly: true }
+    );
+
+    expect(result).toBe(replicaConnection);
+    expect(readConnections.getConnection).toHaveBeenCalledWith({ readOnly: true });
+    expect(replicaConnection.query).toHaveBeenCalledWith('BEGIN ISOLATION LEVEL READ COMMITTED READ ONLY');
+    expect(replicaConnection.query).toHaveBeenCalledWith('COMMIT');
+    expect(readConnections.releaseConnection).toHaveBeenCalledWith(replicaConnection);
+    expect(mockConnection.query).not.toHaveBeenCalled();
+
+    await transactionManager.withTransaction(async () => undefined);
+    expect(mockConnection.query).toHaveBeenCalledWith('COMMIT');
+    expect(readConnections.getConnection).toHaveBeenCalledTimes(1);
+  });
+
   it('should get the current isolation level', async () => {
     mockConnection.query.mockResolvedValueOnce({
       rows: [{ transaction_isolation: 'read committed' }],
@@ -140,3 +175,117 @@ describe('TransactionManager', () => {
     expect(isolationLevel).toBe(IsolationLevel.READ_COMMITTED);
   });
 });
+
+describe('TransactionManager retries', () => {
+  let mockConnection: any;
+  let onTransactionAttempt: any;
+  let transactionManager: TransactionManager;
+
+  const pgError = (code: string) => Object.assign(new Error(`SQLSTATE ${code}`), { code });
+  const retry = { maxAttempts: 3, delay: 0, jitter: 0 };
+
+  beforeEach(() => {
+    mockConnection = {
+      query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+    };
+    onTransactionAttempt = vi.fn();
+    transactionManager = new TransactionManager(mockConnection, { onTransactionAttempt });
+  });
+
+  it('should classify errors by the SQLSTATE of wrapped errors', () => {
+    expect(classifyDatabaseError(new QueryError('Query failed', pgError('40001')))).toBe(DatabaseErrorType.SERIALIZATION_FAILURE);
+    expect(classifyDatabaseError(pgError('40P01'))).toBe(DatabaseErrorType.DEADLOCK);
+    expect(classifyDatabaseError(new QueryError('Syntax error'))).toBe(DatabaseErrorType.QUERY);
+    expect(classifyDatabaseError(new Error('boom'))).toBe(DatabaseErrorType.UNKNOWN);
+  });
+
+  it('should retry serialization failures and deadlocks in new transactions', async () => {
+    const callback = vi.fn()
+      .mockRejectedValueOnce(pgError('40001'))
+      .mockRejectedValueOnce(pgError('40P01'))
+      .mockResolvedValueOnce('result');
+
+    const result = await transactionManager.withTransaction(callback, {
+      isolationLevel: IsolationLevel.SERIALIZABLE,
+      retry,
+    });
+
+    expect(result).toBe('result');
+    expect(callback).toHaveBeenCalledTimes(3);
+    const statements = mockConnection.query.mock.calls.map((call: any[]) => call[0]);
+    expect(statements).toEqual([
+      'BEGIN ISOLATION LEVEL SERIALIZABLE', 'ROLLBACK',
+      'BEGIN ISOLATION LEVEL SERIALIZABLE', 'ROLLBACK',
+      'BEGIN ISOLATION LEVEL SERIALIZABLE', 'COMMIT',
+    ]);
+
+    const attempts = onTransactionAttempt.mock.calls.map((call: any[]) => call[1].data);
+    expect(attempts).toEqual([
+      expect.objectContaining({
+        attempt: 1, maxAttempts: 3, success: false, willRetry: true,
+        errorType: DatabaseErrorType.SERIALIZATION_FAILURE, delay: 0,
+      }),
+      expect.objectContaining({ attempt: 2, success: false, errorType: DatabaseErrorType.DEADLOCK }),
+      expect.objectContaining({ attempt: 3, success: true, willRetry: false }),
+    ]);
+    expect(onTransactionAttempt.mock.calls[0][0]).toBe(mockConnection);
+    expect(onTransactionAttempt.mock.calls[0][1]).toMatchObject({ type: 'transaction', error: expect.any(Error) });
+  });
+
+  it('should retry a serialization failure reported by COMMIT on a pooled connection', async () => {
+    const driver = new FakeDriver();
+    driver.respondOnce('COMMIT', pgError('40001'));
+    const manager = new PgConnectionManager({
+      host: 'localhost', port: 5432, database: 'test', user: 'test', password: 'test',
+      driver: { instance: driver },
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      const connection = await manager.getConnection();
+      transactionManager = new TransactionManager(connection, { onTransactionAttempt });
+      const callback = vi.fn().mockResolvedValue('result');
+
+      await expect(transactionManager.withTransaction(callback, {
+        isolationLevel: IsolationLevel.SERIALIZABLE,
+        retry,
+      })).resolves.toBe('result');
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(onTransactionAttempt.mock.calls[0][1].data).toMatchObject({
+        attempt: 1, success: false, willRetry: true, errorType: DatabaseErrorType.SERIALIZATION_FAILURE,
+      });
+      expect(driver.getQueries().filter(text => text === 'COMMIT')).toHaveLength(2);
+    } finally {
+      vi.restoreAllMocks();
+      await manager.closeAll();
+    }
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    const callback = vi.fn().mockRejectedValue(pgError('40001'));
+
+    await expect(transactionManager.withTransaction(callback, { retry: { ...retry, maxAttempts: 2 } }))
+      .rejects.toThrow('SQLSTATE 40001');
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(onTransactionAttempt.mock.calls[1][1].data).toMatchObject({ attempt: 2, willRetry: false });
+  });
+
+  it('should not retry errors the policy rejects or without a policy', async () => {
+    const callback = vi.fn().mockRejectedValue(pgError('40001'));
+
+    await expect(transactionManager.withTransaction(callback)).rejects.toThrow('SQLSTATE 40001');
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    const retryOn = vi.fn().mockReturnValue(false);
+    await expect(transactionManager.withTransaction(callback, { retry: { ...retry, retryOn } }))
+      .rejects.toThrow('SQLSTATE 40001');
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(retryOn).toHaveBeenCalledWith(DatabaseErrorType.SERIALIZATION_FAILURE, expect.any(Error));
+
+    await expect(transactionManager.withTransaction(vi.fn().mockRejectedValue(new Error('boom')), { retry }))
+      .rejects.toThrow('boom');
+    expect(onTransactionAttempt).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for unique constraint checks on vertex and edge creation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { VertexOperations } from '../../src/db/vertex';
+import { EdgeOperations } from '../../src/db/edge';
+import { AgEdge, AgVertex } from '../../src/db/agtype';
+import { UniqueConstraintError } from '../../src/schema/errors';
+
+// Mock schema definition
+const mockSchema = {
+  version: '1.0.0',
+  vertices: {
+    Person: {
+      properties: {
+        tenantId: { type: 'string' },
+        externalId: { type: 'string' },
+        email: { type: 'string' },
+      },
+      required: ['tenantId', 'externalId'],
+      keys: ['tenantId', 'externalId'],
+      unique: ['email'],
+    },
+  },
+  edges: {
+    KNOWS: {
+      properties: {
+        ref: { type: 'string' },
+      },
+      unique: ['ref'],
+      fromVertex: 'Person',
+      toVertex: 'Person',
+    },
+  },
+};
+
+const alice = { id: '1', label: 'Person' } as any;
+const bob = { id: '2', label: 'Person' } as any;
+
+describe('Unique keys on create', () => {
+  let mockQueryExecutor: any;
+  let vertexOperations: VertexOperations<any>;
+  let edgeOperations: EdgeOperations<any>;
+
+  beforeEach(() => {
+    mockQueryExecutor = {
+      executeCypher: vi.fn(),
+    };
+    vertexOperations = new VertexOperations(mockSchema as any, mockQueryExecutor, {} as any, 'test_graph');
+    edgeOperations = new EdgeOperations(mockSchema as any, mockQueryExecutor, {} as any, 'test_graph');
+  });
+
+  it('should look up each unique constraint before creating a vertex', async () => {
+    mockQueryExecutor.executeCypher
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ v: new AgVertex('1', 'Person', { tenantId: 't1', externalId: '1' }) }] });
+
+    const vertex = await vertexOperations.createVertex('Person', {
+      tenantId: 't1',
+      externalId: '1',
+      email: 'a@example.com',
+    });
+
+    expect(vertex.id).toBe('1');
+    const queries = mockQueryExecutor.executeCypher.mock.calls.map((call: any[]) => call[0]);
+    expect(queries[0]).toContain('WHERE x.tenantId = candidate[0] AND x.externalId = candidate[1]');
+    expect(queries[0]).toContain('RETURN DISTINCT [x.tenantId, x.externalId] AS key');
+    expect(queries[1]).toContain('WHERE x.email = candidate[0]');
+    expect(queries[2]).toContain('CREATE (v:Person');
+    expect(mockQueryExecutor.executeCypher.mock.calls[0][1]).toEqual({ keys: [['t1', '1']] });
+    expect(mockQueryExecutor.executeCypher.mock.calls[1][1]).toEqual({ keys: [['a@example.com']] });
+  });
+
+  it('should skip constraints whose values are missing', async () => {
+    mockQueryExecutor.executeCypher
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ v: new AgVertex('1', 'Person', { tenantId: 't1', externalId: '1' }) }] });
+
+    await vertexOperations.createVertex('Person', { tenantId: 't1', externalId: '1' });
+
+    expect(mockQueryExecutor.executeCypher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject a vertex whose key is taken', async () => {
+    mockQueryExecutor.executeCypher.mockResolvedValueOnce({ rows: [{ key: ['t1', '1'] }] });
+
+    await expect(vertexOperations.createVertex('Person', { tenantId: 't1', externalId: '1' }))
+      .rejects.toThrow(UniqueConstraintError);
+    expect(mockQueryExecutor.executeCypher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject an edge whose unique property is taken', async () => {
+    mockQueryExecutor.executeCypher.mockResolvedValueOnce({ rows: [{ key: ['r1'] }] });
+
+    await expect(edgeOperations.createEdge('KNOWS', alice, bob, { ref: 'r1' }))
+      .rejects.toThrow("Unique constraint on KNOWS(ref) violated by [\"r1\"]: an edge with these values already exists");
+
+    mockQueryExecutor.executeCypher
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({
+        rows: [{
+          a: new AgVertex('1', 'Person', {}),
+          r: new AgEdge('3', 'KNOWS', '1', '2', { ref: 'r2' }),
+          b: new AgVertex('2', 'Person', {}),
+        }],
+      });
+
+    const edge = await edgeOperations.createEdge('KNOWS', alice, bob, { ref: 'r2' });
+    expect(edge.id).toBe('3');
+    expect(mockQueryExecutor.executeCypher.mock.calls[1][0]).toContain('MATCH ()-[x:KNOWS]->()');
+  });
+});
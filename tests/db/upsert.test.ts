@@ -0,0 +1,213 @@
+/**
+ * Tests for vertex and edge upserts
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { VertexOperations } from '../../src/db/vertex';
+import { EdgeOperations } from '../../src/db/edge';
+import { BatchOperations } from '../../src/db/batch';
+import { AgEdge, AgVertex } from '../../src/db/agtype';
+import { ValidationError } from '../../src/core/errors';
+import { SchemaValidationError } from '../../src/schema/errors';
+
+// Mock schema definition
+const mockSchema = {
+  version: '1.0.0',
+  vertices: {
+    Person: {
+      properties: {
+        email: { type: 'string' },
+        name: { type: 'string' },
+        age: { type: 'integer' },
+      },
+      required: ['email', 'name'],
+    },
+    Company: {
+      properties: {
+        name: { type: 'string' },
+      },
+      required: ['name'],
+    },
+  },
+  edges: {
+    WORKS_AT: {
+      properties: {
+        role: { type: 'string' },
+        since: { type: 'integer' },
+      },
+      fromVertex: 'Person',
+      toVertex: 'Company',
+    },
+  },
+};
+
+const alice = { id: '1', label: 'Person' } as any;
+const acme = { id: '2', label: 'Company' } as any;
+
+describe('Upserts', () => {
+  let mockQueryExecutor: any;
+  let transaction: any;
+  let vertexOperations: VertexOperations<any>;
+  let edgeOperations: EdgeOperations<any>;
+
+  beforeEach(() => {
+    transaction = {
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+    };
+    mockQueryExecutor = {
+      executeCypher: vi.fn(),
+      beginTransaction: vi.fn().mockResolvedValue(transaction),
+    };
+    vertexOperations = new VertexOperations(mockSchema as any, mockQueryExecutor, {} as any, 'test_graph');
+    edgeOperations = new EdgeOperations(mockSchema as any, mockQueryExecutor, {} as any, 'test_graph');
+  });
+
+  const vertexRow = (created: boolean) => ({
+    v: new AgVertex('1', 'Person', { email: "o'brien@example.com", name: 'Ann' }),
+    created,
+  });
+
+  describe('upsertVertex', () => {
+    it('should merge on the key properties and set the remaining data', async () => {
+      mockQueryExecutor.executeCypher.mockResolvedValueOnce({ rows: [vertexRow(true)] });
+
+      const result = await vertexOperations.upsertVertex(
+        'Person',
+        { email: "o'brien@example.com" },
+        { name: 'Ann', age: 30 }
+      );
+
+      expect(result.created).toBe(1);
+      expect(result.updated).toBe(0);
+      expect(result.vertex.id).toBe('1');
+
+      const [query, params, graph] = mockQueryExecutor.executeCypher.mock.calls[0];
+      expect(query).toContain('OPTIONAL MATCH (existing:Person {`email`: $key_0})');
+      expect(query).toContain('MERGE (v:Person {`email`: $key_0})');
+      expect(query).toContain('SET v.`name` = $prop_0, v.`age` = $prop_1');
+      expect(query).toContain('RETURN v, matched = 0 AS created');
+      expect(params).toEqual({ key_0: "o'brien@example.com", prop_0: 'Ann', prop_1: 30 });
+      expect(graph).toBe('test_graph');
+    });
+
+    it('should pass values as parameters rather than in the query', async () => {
+      mockQueryExecutor.executeCypher.mockResolvedValueOnce({ rows: [vertexRow(true)] });
+      const name = "x'}) $q$; DROP TABLE people; $q$ //";
+
+      await vertexOperations.upsertVertex('Person', { email: 'a@example.com' }, { name });
+
+      const [query, params] = mockQueryExecutor.executeCypher.mock.calls[0];
+      expect(query).not.toContain('DROP TABLE');
+      expect(params).toEqual({ key_0: 'a@example.com', prop_0: name });
+    });
+
+    it('should report an update when the vertex existed', async () => {
+      mockQueryExecutor.executeCypher.mockResolvedValueOnce({ rows: [vertexRow(false)] });
+
+      const result = await vertexOperations.upsertVertex('Person', { email: 'a@example.com' }, { name: 'Ann' });
+
+      expect(result).toMatchObject({ created: 0, updated: 1 });
+    });
+
+    it('should validate keys and data against the schema', async () => {
+      await expect(vertexOperations.upsertVertex('Person', {}, { name: 'Ann' }))
+        .rejects.toThrow(ValidationError);
+      await expect(vertexOperations.upsertVertex('Person', { email: null }, { name: 'Ann' }))
+        .rejects.toThrow(/cannot be null/);
+      await expect(vertexOperations.upsertVertex('Person', { email: 'a@example.com' }, { age: 'old' }))
+        .rejects.toThrow(SchemaValidationError);
+      expect(mockQueryExecutor.executeCypher).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upsertEdge', () => {
+    it('should merge the edge between the two vertices', async () => {
+      mockQueryExecutor.executeCypher.mockResolvedValueOnce({
+        rows: [{
+          a: new AgVertex('1', 'Person', {}),
+          r: new AgEdge('3', 'WORKS_AT', '1', '2', { role: 'Engineer', since: 2020 }),
+          b: new AgVertex('2', 'Company', {}),
+          created: false,
+        }],
+      });
+
+      const result = await edgeOperations.upsertEdge('WORKS_AT', alice, acme, { role: 'Engineer' }, { since: 2020 });
+
+      expect(result).toMatchObject({ created: 0, updated: 1 });
+      expect(result.edge).toMatchObject({ id: '3', fromId: '1', toId: '2' });
+
+      const [query, params] = mockQueryExecutor.executeCypher.mock.calls[0];
+      expect(query).toContain('WHERE id(a) = 1 AND id(b) = 2');
+      expect(query).toContain('MERGE (a)-[r:WORKS_AT {`role`: $key_0}]->(b)');
+      expect(query).toContain('SET r.`since` = $prop_0');
+      expect(params).toEqual({ key_0: 'Engineer', prop_0: 2020 });
+    });
+
+    it('should reject invalid endpoints and missing vertices', async () => {
+      await expect(edgeOperations.upsertEdge('WORKS_AT', acme, alice, { role: 'Engineer' }))
+        .rejects.toThrow(/Source vertex must have label 'Person'/);
+
+      mockQueryExecutor.executeCypher.mockResolvedValueOnce({ rows: [] });
+      await expect(edgeOperations.upsertEdge('WORKS_AT', alice, acme, { role: 'Engineer' }))
+        .rejects.toThrow(/not found/);
+    });
+  });
+
+  describe('batch upserts', () => {
+    let batchOperations: BatchOperations<any>;
+
+    beforeEach(() => {
+      batchOperations = new BatchOperations(
+        mockSchema as any,
+        mockQueryExecutor,
+        {} as any,
+        vertexOperations,
+        edgeOperations
+      );
+    });
+
+    it('should sum created and updated counts in one transaction', async () => {
+      mockQueryExecutor.executeCypher
+        .mockResolvedValueOnce({ rows: [vertexRow(true)] })
+        .mockResolvedValueOnce({ rows: [vertexRow(false)] })
+        .mockResolvedValueOnce({ rows: [vertexRow(true)] });
+
+      const result = await batchOperations.upsertVerticesBatch('Person', [
+        { keyProps: { email: 'a@example.com' }, data: { name: 'A' } },
+        { keyProps: { email: 'b@example.com' }, data: { name: 'B' } },
+        { keyProps: { email: 'c@example.com' }, data: { name: 'C' } },
+      ]);
+
+      expect(result.items).toHaveLength(3);
+      expect(result.created).toBe(2);
+      expect(result.updated).toBe(1);
+      expect(mockQueryExecutor.beginTransaction).toHaveBeenCalledTimes(1);
+      expect(transaction.commit).toHaveBeenCalled();
+    });
+
+    it('should validate all items before running any upsert', async () => {
+      await expect(batchOperations.upsertEdgesBatch('WORKS_AT', [
+        { fromVertex: alice, toVertex: acme, keyProps: { role: 'Engineer' } },
+        { fromVertex: alice, toVertex: acme, keyProps: { role: 'Manager' }, data: { since: 'last year' } },
+      ])).rejects.toThrow(SchemaValidationError);
+
+      expect(mockQueryExecutor.beginTransaction).not.toHaveBeenCalled();
+      expect(mockQueryExecutor.executeCypher).not.toHaveBeenCalled();
+    });
+
+    it('should roll back when an upsert fails', async () => {
+      mockQueryExecutor.executeCypher
+        .mockResolvedValueOnce({ rows: [vertexRow(true)] })
+        .mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(batchOperations.upsertVerticesBatch('Person', [
+        { keyProps: { email: 'a@example.com' }, data: { name: 'A' } },
+        { keyProps: { email: 'b@example.com' }, data: { name: 'B' } },
+      ])).rejects.toThrow('Batch vertex upsert failed: connection lost');
+
+      expect(transaction.rollback).toHaveBeenCalled();
+      expect(transaction.commit).not.toHaveBeenCalled();
+    });
+  });
+});
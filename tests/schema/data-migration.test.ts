@@ -0,0 +1,169 @@
+/**
+ * Tests for data migrations
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FakeDriver } from '../../src/db/fake-driver';
+import { QueryExecutor } from '../../src/db/query';
+import {
+  DataMigrationKind,
+  DataMigrationRunner,
+  describeDataMigration,
+  invertDataMigration,
+  validateDataMigration,
+} from '../../src/schema/data-migration';
+import { PropertyType } from '../../src/schema/types';
+import { ValidationError } from '../../src/core/errors';
+
+describe('data migrations', () => {
+  it('should describe and invert migrations', () => {
+    const rename = { kind: DataMigrationKind.RENAME_PROPERTY, label: 'KNOWS', isEdge: true, from: 'since', to: 'startedAt' } as const;
+    const split = { kind: DataMigrationKind.SPLIT_LABEL, label: 'Person', newLabel: 'Employee', where: { type: 'employee' } } as const;
+
+    expect(describeDataMigration(rename)).toBe("Rename property 'since' to 'startedAt' of edge label 'KNOWS'");
+    expect(describeDataMigration(split))
+      .toBe('Move vertices of label \'Person\' matching {"type":"employee"} to label \'Employee\'');
+    expect(invertDataMigration(rename)).toEqual({ ...rename, from: 'startedAt', to: 'since' });
+    expect(invertDataMigration(split)).toEqual({ kind: DataMigrationKind.MERGE_LABELS, label: 'Employee', into: 'Person' });
+    expect(invertDataMigration({ kind: DataMigrationKind.MERGE_LABELS, label: 'Employee', into: 'Person' })).toBeNull();
+  });
+
+  it('should reject incomplete migrations and unsupported conversions', () => {
+    expect(() => validateDataMigration({ kind: DataMigrationKind.RENAME_PROPERTY, label: 'Person', from: 'name', to: 'name' }))
+      .toThrow(ValidationError);
+    expect(() => validateDataMigration({
+      kind: DataMigrationKind.RETYPE_PROPERTY,
+      label: 'Person',
+      property: 'tags',
+      type: PropertyType.ARRAY,
+    })).toThrow("Property 'tags' cannot be converted to array");
+    expect(() => validateDataMigration({ kind: DataMigrationKind.SPLIT_LABEL, label: 'Person', newLabel: 'Employee', where: {} }))
+      .toThrow(ValidationError);
+    expect(() => validateDataMigration({ kind: DataMigrationKind.MERGE_LABELS, label: 'Person', into: 'Person' }))
+      .toThrow(ValidationError);
+  });
+
+  describe('DataMigrationRunner', () => {
+    let driver: FakeDriver;
+    let runner: DataMigrationRunner;
+
+    const labels = (...rows: [string, number, 'v' | 'e'][]) =>
+      driver.respond(
+        statement => statement.text.includes('JOIN ag_catalog.ag_graph g ON g.graphid = l.graph'),
+        statement => {
+          const row = rows.find(([name]) => name === statement.values![1]);
+          return { rows: row ? [{ id: row[1], kind: row[2], seq_name: `${row[0]}_id_seq` }] : [] };
+        }
+      );
+
+    const searchPath = () => driver.respond('SHOW search_path', { rows: [{ search_path: 'ag_catalog, "$user", public' }] });
+
+    const cypher = () => driver.getQueries().filter(query => query.includes('ag_catalog.cypher('));
+
+    beforeEach(async () => {
+      driver = new FakeDriver();
+      searchPath();
+      runner = new DataMigrationRunner(new QueryExecutor(await driver.connect()), 'social');
+    });
+
+    it('should rename, retype and backfill properties after the checkpoint', async () => {
+      driver.respond('RETURN count(item) AS processed', { rows: [{ processed: '2', checkpoint: '844424930131973' }] });
+
+      const batch = await runner.runBatch(
+        { kind: DataMigrationKind.RENAME_PROPERTY, label: 'Person', from: 'mail', to: 'email' },
+        '844424930131969',
+        500
+      );
+      await runner.runBatch(
+        { kind: DataMigrationKind.RETYPE_PROPERTY, label: 'Person', property: 'age', type: PropertyType.INTEGER },
+        '0',
+        500
+      );
+      await runner.runBatch(
+        { kind: DataMigrationKind.BACKFILL_PROPERTY, label: 'KNOWS', isEdge: true, property: 'weight', value: 1 },
+        '0',
+        500
+      );
+
+      expect(batch).toEqual({ processed: 2, checkpoint: '844424930131973' });
+      const [rename, retype, backfill] = cypher();
+      expect(rename).toContain(
+        'MATCH (item:`Person`) WHERE id(item) > 844424930131969 AND item.`mail` IS NOT NULL ' +
+        'WITH item ORDER BY id(item) LIMIT 500 SET item.`email` = item.`mail` REMOVE item.`mail` ' +
+        'RETURN count(item) AS processed, max(id(item)) AS checkpoint'
+      );
+      expect(retype).toContain('item.`age` IS NOT NULL WITH item ORDER BY id(item) LIMIT 500 SET item.`age` = toInteger(item.`age`)');
+      expect(backfill).toContain('MATCH ()-[item:`KNOWS`]->() WHERE id(item) > 0 AND item.`weight` IS NULL');
+      expect(backfill).toContain('SET item.`weight` = $value');
+      expect(driver.getStatements('query').filter(statement => statement.text.includes('ag_catalog.cypher('))[2].values)
+        .toEqual([JSON.stringify({ value: 1 })]);
+      await expect(runner.runBatch(
+        { kind: DataMigrationKind.RENAME_PROPERTY, label: 'Person', from: 'a', to: 'b' },
+        '1) DETACH DELETE item //',
+        1
+      )).rejects.toThrow(ValidationError);
+    });
+
+    it('should report an empty batch when no items are left', async () => {
+      driver.respond('RETURN count(item) AS processed', { rows: [{ processed: '0', checkpoint: null }] });
+
+      expect(await runner.runBatch(
+        { kind: DataMigrationKind.RENAME_PROPERTY, label: 'Person', from: 'mail', to: 'email' },
+        '0',
+        10
+      )).toEqual({ processed: 0, checkpoint: null });
+    });
+
+    it('should move matching vertices to the new label and repoint their edges', async () => {
+      const split = { kind: DataMigrationKind.SPLIT_LABEL, label: 'Person', newLabel: 'Employee', where: { type: 'employee' } } as const;
+      labels(['Person', 3, 'v']);
+      await runner.prepare(split);
+      expect(driver.getStatements('query').find(statement => statement.text.includes('create_vlabel'))!.values)
+        .toEqual(['social', 'Employee']);
+
+      driver.reset();
+      searchPath();
+      labels(['Person', 3, 'v'], ['Employee', 5, 'v']);
+      driver.respond('FROM age_label_move', { rows: [{ processed: '2', checkpoint: '844424930131970' }] });
+
+      const batch = await runner.runBatch(split, '0', 100);
+
+      expect(batch).toEqual({ processed: 2, checkpoint: '844424930131970' });
+      const statements = driver.getStatements('query').filter(statement => statement.text.includes('age_label_move'));
+      expect(statements[0].text).toContain('CREATE TEMP TABLE age_label_move ON COMMIT DROP');
+      expect(statements[0].text.replace(/\s+/g, ' ')).toContain('FROM ONLY "social"."Person" WHERE id > $1::text::ag_catalog.graphid ' +
+        'AND properties @> $2::text::ag_catalog.agtype ORDER BY id LIMIT 100');
+      expect(statements[0].values).toEqual(['0', '{"type":"employee"}', 5, '"social"."Employee_id_seq"']);
+      expect(statements.slice(1).map(statement => statement.text)).toEqual([
+        'INSERT INTO "social"."Employee" (id, properties) SELECT new_id, properties FROM age_label_move',
+        'UPDATE "social"._ag_label_edge e SET start_id = m.new_id FROM age_label_move m WHERE e.start_id = m.old_id',
+        'UPDATE "social"._ag_label_edge e SET end_id = m.new_id FROM age_label_move m WHERE e.end_id = m.old_id',
+        'DELETE FROM ONLY "social"."Person" v USING age_label_move m WHERE v.id = m.old_id',
+        'SELECT count(*) AS processed, max(old_id)::text AS checkpoint FROM age_label_move',
+      ]);
+    });
+
+    it('should drop a merged label once it is empty', async () => {
+      const merge = { kind: DataMigrationKind.MERGE_LABELS, label: 'Employee', into: 'Person' } as const;
+      labels(['Person', 3, 'v'], ['Employee', 5, 'v']);
+      driver.respond('count(*) AS total FROM ONLY "social"."Employee"', { rows: [{ total: '7' }] });
+
+      await runner.prepare(merge);
+      expect(await runner.count(merge, '1407374883553281')).toBe(7);
+      await runner.finish(merge);
+
+      expect(driver.getQueries().some(query => query.includes('create_vlabel'))).toBe(false);
+      expect(driver.getStatements('query').find(statement => statement.text.includes('count(*) AS total'))!.values)
+        .toEqual(['1407374883553281']);
+      expect(driver.getStatements('query').find(statement => statement.text.includes('drop_label'))!.values)
+        .toEqual(['social', 'Employee']);
+    });
+
+    it('should refuse to move vertices between edge labels', async () => {
+      labels(['KNOWS', 3, 'e'], ['LIKES', 4, 'e']);
+
+      await expect(runner.runBatch({ kind: DataMigrationKind.MERGE_LABELS, label: 'KNOWS', into: 'LIKES' }, '0', 10))
+        .rejects.toThrow("Labels 'KNOWS' and 'LIKES' must be vertex labels of graph 'social'");
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for schema drift detection
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FakeDriver } from '../../src/db/fake-driver';
+import { QueryExecutor } from '../../src/db/query';
+import { SchemaDriftDetector, formatDriftReport } from '../../src/schema/drift';
+import { SchemaDefinition } from '../../src/schema/types';
+import { ValidationError } from '../../src/core/errors';
+
+const schema = {
+  version: '2.1.0',
+  vertices: {
+    Person: {
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer' },
+        code: { type: ['string', 'integer'] },
+        extra: { type: 'any' },
+      },
+      required: ['name'],
+    },
+    Company: {
+      properties: { name: { type: 'string' } },
+      required: ['name'],
+    },
+    Country: {
+      properties: { name: { type: 'string' } },
+    },
+  },
+  edges: {
+    WORKS_AT: {
+      properties: { since: { type: 'date' } },
+      fromVertex: 'Person',
+      toVertex: { label: 'Company' },
+    },
+    LOCATED_IN: {
+      properties: {},
+      fromVertex: 'Company',
+      toVertex: 'Country',
+    },
+  },
+} as unknown as SchemaDefinition;
+
+describe('SchemaDriftDetector', () => {
+  let driver: FakeDriver;
+  let detector: SchemaDriftDetector;
+
+  const labels = (...rows: [string, number, 'v' | 'e'][]) =>
+    driver.respond('LEFT JOIN ag_catalog.ag_label l', {
+      rows: [
+        { name: '_ag_label_vertex', id: 1, kind: 'v' },
+        { name: '_ag_label_edge', id: 2, kind: 'e' },
+        ...rows.map(([name, id, kind]) => ({ name, id, kind })),
+      ],
+    });
+
+  const onTable = (fragment: string, label: string, rows: Record<string, unknown>[]) =>
+    driver.respond(
+      statement => statement.text.includes(fragment) && statement.text.includes(`ONLY "social"."${label}"`),
+      { rows }
+    );
+
+  beforeEach(async () => {
+    driver = new FakeDriver();
+    detector = new SchemaDriftDetector(new QueryExecutor(await driver.connect()));
+  });
+
+  it('should report labels present on one side only', async () => {
+    labels(['Person', 3, 'v'], ['Legacy', 4, 'v'], ['WORKS_AT', 5, 'e'], ['OLD_LINK', 6, 'e']);
+
+    const report = await detector.detectDrift(schema, 'social');
+
+    expect(report.unexpectedLabels).toEqual({ vertices: ['Legacy'], edges: ['OLD_LINK'] });
+    expect(report.missingLabels).toEqual({ vertices: ['Company', 'Country'], edges: ['LOCATED_IN'] });
+    expect(Object.keys(report.vertices)).toEqual(['Person']);
+    expect(Object.keys(report.edges)).toEqual(['WORKS_AT']);
+    expect(report.hasDrift).toBe(true);
+  });
+
+  it('should count items missing required properties, with wrong types or unknown properties', async () => {
+    labels(['Person', 3, 'v'], ['Company', 4, 'v'], ['Country', 5, 'v']);
+    onTable('AS missing_0', 'Person', [{ count: '10', missing_0: '2', wrong_0: '0', wrong_1: '3', wrong_2: '1' }]);
+    onTable('jsonb_object_keys', 'Person', [{ property: 'nickname', count: '4' }]);
+    onTable('AS missing_0', 'Company', [{ count: '5', missing_0: '0', wrong_0: '0' }]);
+
+    const report = await detector.detectDrift(schema, 'social');
+
+    expect(report.vertices.Person).toEqual({
+      count: 10,
+      missingRequired: { name: 2 },
+      wrongType: { age: 3, code: 1 },
+      unknownProperties: { nickname: 4 },
+    });
+    expect(report.vertices.Company).toEqual({ count: 5, missingRequired: {}, wrongType: {}, unknownProperties: {} });
+
+    const check = driver.getStatements('query').find(statement =>
+      statement.text.includes('AS missing_0') && statement.text.includes('"Person"'))!;
+    expect(check.values).toEqual(['name', 'name', 'age', 'code']);
+    expect(check.text).toContain("count(*) FILTER (WHERE COALESCE(jsonb_typeof(p -> $1::text), 'null') = 'null') AS missing_0");
+    expect(check.text).toContain("(jsonb_typeof(p -> $4::text) = 'string') OR (CASE WHEN jsonb_typeof(p -> $4::text) = 'number'");
+    expect(check.text).not.toContain('AS wrong_3');
+    expect(driver.getStatements('query').find(statement =>
+      statement.text.includes('jsonb_object_keys') && statement.text.includes('"Person"'))!.values)
+      .toEqual([['name', 'age', 'code', 'extra']]);
+  });
+
+  it('should report edges connecting labels their definition does not allow', async () => {
+    labels(['Person', 3, 'v'], ['Company', 4, 'v'], ['Country', 5, 'v'], ['WORKS_AT', 6, 'e'], ['LOCATED_IN', 7, 'e']);
+    onTable('GROUP BY 1, 2', 'WORKS_AT', [
+      { start_label: '3', end_label: '4', count: '40' },
+      { start_label: '3', end_label: '3', count: '2' },
+      { start_label: '1', end_label: '4', count: '1' },
+    ]);
+    onTable('GROUP BY 1, 2', 'LOCATED_IN', [{ start_label: '4', end_label: '5', count: '3' }]);
+
+    const report = await detector.detectDrift(schema, 'social');
+
+    expect(report.edges.WORKS_AT).toMatchObject({
+      expected: { from: 'Person', to: 'Company' },
+      invalidEndpoints: [{ from: 'Person', to: 'Person', count: 2 }],
+      unlabeledEndpoints: 1,
+    });
+    expect(report.edges.LOCATED_IN).toMatchObject({ invalidEndpoints: [], unlabeledEndpoints: 0 });
+    expect(report.hasDrift).toBe(true);
+  });
+
+  it('should report a graph matching its schema as free of drift', async () => {
+    labels(['Person', 3, 'v'], ['Company', 4, 'v'], ['Country', 5, 'v'], ['WORKS_AT', 6, 'e'], ['LOCATED_IN', 7, 'e']);
+    onTable('GROUP BY 1, 2', 'WORKS_AT', [{ start_label: '3', end_label: '4', count: '40' }]);
+
+    const report = await detector.detectDrift(schema, 'social');
+
+    expect(report.hasDrift).toBe(false);
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+    expect(formatDriftReport(report)).toBe(
+      `Graph 'social' against schema 2.1.0 (checked ${report.checkedAt}): no drift`
+    );
+  });
+
+  it('should format drift as a readable summary', async () => {
+    labels(['Person', 3, 'v'], ['Legacy', 4, 'v'], ['Company', 5, 'v'], ['WORKS_AT', 6, 'e']);
+    onTable('AS missing_0', 'Person', [{ count: '10', missing_0: '2', wrong_0: '0', wrong_1: '3', wrong_2: '0' }]);
+    onTable('jsonb_object_keys', 'Person', [{ property: 'nickname', count: '4' }]);
+    onTable('GROUP BY 1, 2', 'WORKS_AT', [{ start_label: '3', end_label: '3', count: '2' }]);
+
+    const report = await detector.detectDrift(schema, 'social');
+
+    expect(formatDriftReport(report)).toBe([
+      `Graph 'social' against schema 2.1.0 (checked ${report.checkedAt}): drift found`,
+      '  Labels in the graph but not in the schema: vertex Legacy',
+      '  Labels in the schema but not in the graph: vertex Country, edge LOCATED_IN',
+      '  Person (10 vertices):',
+      "    2 missing required property 'name'",
+      "    3 with a wrong type in 'age'",
+      "    4 with unknown property 'nickname'",
+      '  WORKS_AT (0 edges):',
+      '    2 from Person to Person instead of Person to Company',
+    ].join('\n'));
+  });
+
+  it('should reject missing graphs and invalid graph names', async () => {
+    await expect(detector.detectDrift(schema, 'missing')).rejects.toThrow("Graph 'missing' does not exist");
+    await expect(detector.detectDrift(schema, 'bad name')).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for schema introspection
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FakeDriver } from '../../src/db/fake-driver';
+import { QueryExecutor } from '../../src/db/query';
+import { SchemaIntrospector } from '../../src/schema/introspector';
+import { SchemaParser } from '../../src/schema/parser';
+import { EdgeMultiplicity, PropertyType } from '../../src/schema/types';
+import { ValidationError } from '../../src/core/errors';
+
+describe('SchemaIntrospector', () => {
+  let driver: FakeDriver;
+  let introspector: SchemaIntrospector;
+
+  const labels = (...rows: [string, number, 'v' | 'e'][]) =>
+    driver.respond('LEFT JOIN ag_catalog.ag_label l', {
+      rows: [
+        { name: '_ag_label_vertex', id: 1, kind: 'v' },
+        { name: '_ag_label_edge', id: 2, kind: 'e' },
+        ...rows.map(([name, id, kind]) => ({ name, id, kind })),
+      ],
+    });
+
+  const label = (name: string, count: number, properties: Record<string, unknown>[]) => {
+    driver.respond(`count(*) AS count FROM ONLY "social"."${name}"`, { rows: [{ count: String(count) }] });
+    driver.respond(`properties::text AS properties FROM ONLY "social"."${name}"`, {
+      rows: properties.map(props => ({ properties: JSON.stringify(props) })),
+    });
+  };
+
+  const edges = (name: string, pairs: [number, number, number][], maxOut: number, maxIn: number) => {
+    driver.respond(`FROM ONLY "social"."${name}" e GROUP BY 1, 2`, {
+      rows: pairs.map(([start, end, count]) => ({ start_label: String(start), end_label: String(end), count: String(count) })),
+    });
+    driver.respond(
+      statement => statement.text.includes('GROUP BY start_id) o') && statement.text.includes(`"social"."${name}"`),
+      { rows: [{ max_out: String(maxOut), max_in: String(maxIn) }] }
+    );
+  };
+
+  beforeEach(async () => {
+    driver = new FakeDriver();
+    introspector = new SchemaIntrospector(new QueryExecutor(await driver.connect()), { maxEnumValues: 3 });
+  });
+
+  it('should infer property types, required properties and enums', async () => {
+    labels(['Person', 3, 'v']);
+    label('Person', 4, [
+      { name: 'Ann', age: 30, score: 1.5, active: true, status: 'active', born: '1990-01-02' },
+      { name: 'Bob', age: 41, score: 2, active: false, status: 'inactive', born: '1983-05-06' },
+      { name: 'Cid', age: 25, score: 3.25, active: true, status: 'active', nickname: 'C' },
+      { name: 'Dee', age: 52, score: 4, active: true, status: 'active', tags: ['a'] },
+    ]);
+
+    const { schema, report } = await introspector.introspect('social');
+
+    expect(schema.vertices.Person).toEqual({
+      properties: {
+        active: { type: PropertyType.BOOLEAN },
+        age: { type: PropertyType.INTEGER },
+        born: { type: PropertyType.DATE, nullable: true },
+        name: { type: PropertyType.STRING },
+        nickname: { type: PropertyType.STRING, nullable: true },
+        score: { type: PropertyType.NUMBER },
+        status: { type: PropertyType.STRING, stringConstraints: { enum: ['active', 'inactive'] } },
+        tags: { type: PropertyType.ARRAY, nullable: true },
+      },
+      required: ['active', 'age', 'name', 'score', 'status'],
+    });
+
+    const person = report.vertices.Person;
+    expect(person).toMatchObject({ count: 4, sampled: 4 });
+    expect(person.properties.name).toMatchObject({ coverage: 1, required: true, requiredConfidence: 1, typeConfidence: 0.8 });
+    expect(person.properties.name.enum).toBeUndefined();
+    expect(person.properties.born).toMatchObject({ coverage: 0.5, required: false, requiredConfidence: 1 });
+    expect(person.properties.status.enumConfidence).toBe(0.4);
+  });
+
+  it('should report mixed types and sampled required properties with lower confidence', async () => {
+    labels(['Item', 3, 'v']);
+    label('Item', 500, [
+      { code: 'A1', when: '2024-01-01' },
+      { code: 7, when: '2024-01-01T10:00:00Z' },
+      { code: 'B2', when: '2024-01-02' },
+    ]);
+
+    const { schema, report } = await introspector.introspect('social');
+
+    expect(schema.vertices.Item.properties.code.type).toEqual([PropertyType.STRING, PropertyType.INTEGER]);
+    expect(schema.vertices.Item.properties.when.type).toBe(PropertyType.DATETIME);
+    expect(report.vertices.Item.properties.code).toMatchObject({ typeConfidence: 0.5, required: true, requiredConfidence: 0.75 });
+    expect(driver.getStatements('query').find(statement => statement.text.includes('LIMIT $1'))!.values).toEqual([1000]);
+  });
+
+  it('should infer edge endpoints and multiplicity', async () => {
+    labels(['Person', 3, 'v'], ['Company', 4, 'v'], ['WORKS_AT', 5, 'e'], ['KNOWS', 6, 'e']);
+    label('Person', 2, [{ name: 'Ann' }, { name: 'Bob' }]);
+    label('Company', 1, [{ name: 'Acme' }]);
+    label('WORKS_AT', 3, [{ since: 2020 }, { since: 2021 }, {}]);
+    label('KNOWS', 4, [{}, {}, {}, {}]);
+    edges('WORKS_AT', [[3, 4, 3]], 1, 3);
+    edges('KNOWS', [[3, 3, 3], [3, 4, 1]], 2, 2);
+
+    const { schema, report } = await introspector.introspect('social');
+
+    expect(schema.edges.WORKS_AT).toMatchObject({
+      label: 'WORKS_AT',
+      fromVertex: 'Person',
+      toVertex: 'Company',
+      multiplicity: EdgeMultiplicity.MANY_TO_ONE,
+      properties: { since: { type: PropertyType.INTEGER, nullable: true } },
+    });
+    expect(schema.edges.WORKS_AT.required).toBeUndefined();
+    expect(report.edges.WORKS_AT).toMatchObject({ endpointConfidence: 1, multiplicityConfidence: 0.75, maxInDegree: 3 });
+
+    expect(schema.edges.KNOWS).toMatchObject({ fromVertex: 'Person', toVertex: 'Person', multiplicity: EdgeMultiplicity.MANY_TO_MANY });
+    expect(report.edges.KNOWS).toMatchObject({
+      endpoints: [{ from: 'Person', to: 'Person', count: 3 }, { from: 'Person', to: 'Company', count: 1 }],
+      endpointConfidence: 0.75,
+      multiplicityConfidence: 1,
+    });
+    expect(report.warnings).toContain("Edge label 'KNOWS' connects 2 label pairs; the schema uses Person -> Person");
+
+    expect(() => new SchemaParser({ detectCircularDependencies: false }).parseObject(schema)).not.toThrow();
+  });
+
+  it('should leave out edge labels without labeled edges', async () => {
+    labels(['Person', 3, 'v'], ['LIKES', 4, 'e']);
+    label('Person', 0, []);
+    label('LIKES', 2, [{}, {}]);
+    edges('LIKES', [[1, 3, 2]], 1, 1);
+
+    const { schema, report } = await introspector.introspect('social');
+
+    expect(schema.vertices.Person).toEqual({ properties: {} });
+    expect(schema.edges).toEqual({});
+    expect(report.warnings).toEqual([
+      "Vertex label 'Person' has no vertices; its properties are unknown",
+      "2 edges of label 'LIKES' connect vertices without a label",
+      "Edge label 'LIKES' has no edges between labeled vertices; it is left out of the schema",
+    ]);
+  });
+
+  it('should reject missing graphs and invalid graph names', async () => {
+    await expect(introspector.introspect('missing')).rejects.toThrow("Graph 'missing' does not exist");
+    await expect(introspector.introspect('bad name')).rejects.toThrow(ValidationError);
+  });
+});
@@ -3,11 +3,21 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { SchemaMigrationExecutor, MigrationPlan, MigrationStep } from '../../src/schema/migration-executor';
-import { SchemaDefinition } from '../../src/schema/types';
+import {
+  SchemaMigrationExecutor,
+  MigrationPlan,
+  MigrationStep,
+  MigrationDirection,
+  MigrationStatus,
+} from '../../src/schema/migration-executor';
+import { SchemaDefinition, PropertyType } from '../../src/schema/types';
 import { SQLGenerator } from '../../src/sql/generator';
 import { QueryExecutor } from '../../src/db/query';
+import { FakeDriver } from '../../src/db/fake-driver';
+import { MigrationChecksumError, SchemaVersionError } from '../../src/schema/errors';
+import { ValidationError } from '../../src/core/errors';
 import { extendSQLGeneratorWithMigrationMethods } from '../../src/sql/migration';
+import { DataMigrationKind, DataMigrationProgress } from '../../src/schema/data-migration';
 
 // Extend SQLGenerator with migration methods
 extendSQLGeneratorWithMigrationMethods(SQLGenerator);
@@ -136,6 +146,424 @@ describe('SchemaMigrationExecutor', () => {
     });
   });
 
+  describe('unique constraints', () => {
+    const withUnique = (unique: SchemaDefinition['vertices'][string]['unique']): SchemaDefinition => ({
+      ...sourceSchema,
+      vertices: {
+        Person: { ...sourceSchema.vertices.Person, unique },
+      },
+    });
+
+    it('should create and drop unique indexes on the AGE label table', () => {
+      const executor = new SchemaMigrationExecutor(mockQueryExecutor, sqlGenerator, { graphName: 'social' });
+
+      const plan = executor.createMigrationPlan(withUnique(['age']), withUnique(['name', ['name', 'age']]));
+      const sql = plan.steps.map(step => step.sql);
+
+      expect(sql).toEqual([
+        'DROP INDEX IF EXISTS "social"."Person_age_unique"',
+        'CREATE UNIQUE INDEX IF NOT EXISTS "Person_name_unique" ON "social"."Person" ' +
+          '(ag_catalog.agtype_access_operator(properties, \'"name"\'::ag_catalog.agtype))',
+        'CREATE UNIQUE INDEX IF NOT EXISTS "Person_age_name_unique" ON "social"."Person" ' +
+          '(ag_catalog.agtype_access_operator(properties, \'"name"\'::ag_catalog.agtype), ' +
+          'ag_catalog.agtype_access_operator(properties, \'"age"\'::ag_catalog.agtype))',
+      ]);
+    });
+
+    it('should give long index names a hash suffix within the identifier length', () => {
+      const executor = new SchemaMigrationExecutor(mockQueryExecutor, sqlGenerator, { graphName: 'social' });
+      const prefix = 'organization_membership_';
+      const target = (...unique: string[][]): SchemaDefinition => ({
+        ...sourceSchema,
+        vertices: {
+          Person: {
+            ...sourceSchema.vertices.Person,
+            properties: {
+              ...sourceSchema.vertices.Person.properties,
+              ...Object.fromEntries(unique.flat().map(property => [property, { type: PropertyType.STRING }])),
+            },
+            unique,
+          },
+        },
+      });
+
+      const indexNames = (schema: SchemaDefinition) => executor.createMigrationPlan(withUnique([]), schema).steps
+        .map(step => /^CREATE UNIQUE INDEX IF NOT EXISTS "([^"]+)"/.exec(step.sql)?.[1])
+        .filter(Boolean) as string[];
+
+      const names = indexNames(target([`${prefix}tenant_id`, `${prefix}user_id`], [`${prefix}tenant_id`, `${prefix}user_ref`]));
+
+      expect(names).toHaveLength(2);
+      expect(new Set(names).size).toBe(2);
+      names.forEach(name => {
+        expect(Buffer.byteLength(name)).toBeLessThanOrEqual(63);
+        expect(name).toMatch(/^Person_organization_membership_tenant_id_\w*_[0-9a-f]{12}_unique$/);
+      });
+      // The same constraint gets the same name whatever the order of its properties
+      expect(indexNames(target([`${prefix}user_id`, `${prefix}tenant_id`]))).toEqual([names[0]]);
+    });
+
+    it('should create the label table before indexing an added label', () => {
+      const executor = new SchemaMigrationExecutor(mockQueryExecutor, sqlGenerator, { graphName: 'social' });
+      const target: SchemaDefinition = {
+        ...sourceSchema,
+        vertices: {
+          ...sourceSchema.vertices,
+          Company: { properties: { name: { type: 'string' } }, required: ['name'], keys: ['name'] },
+        },
+      };
+
+      const plan = executor.createMigrationPlan(sourceSchema, target);
+      const descriptions = plan.steps.map(step => step.description);
+
+      expect(descriptions).toEqual([
+        "Create vertex table for label 'Company'",
+        "Create AGE label table for vertex label 'Company'",
+        "Create unique index on (name) of vertex label 'Company'",
+      ]);
+      expect(plan.steps[1].sql).toContain("PERFORM ag_catalog.create_vlabel('social', 'Company')");
+    });
+
+    it('should require a graph name to migrate unique constraints', () => {
+      expect(() => migrationExecutor.createMigrationPlan(sourceSchema, withUnique(['name'])))
+        .toThrow(/graph name is required/);
+    });
+  });
+
+  describe('down steps', () => {
+    it('should plan steps undoing the migration', () => {
+      const plan = migrationExecutor.createMigrationPlan(sourceSchema, targetSchema, { allowDataLoss: true });
+      const descriptions = plan.downSteps!.map(step => step.description);
+
+      expect(descriptions).toContain("Drop vertex table for label 'Company'");
+      expect(descriptions).toContain("Drop column 'email' from vertex table 'Person'");
+      expect(descriptions).toContain("Drop NOT NULL constraint from column 'email' in vertex table 'Person'");
+      expect(descriptions).toContain("Drop edge table for label 'WORKS_AT'");
+      expect(plan.downSteps!.find(step => step.description.includes("table for label 'Company'"))!.sql)
+        .toBe('DROP TABLE IF EXISTS "v_Company" CASCADE');
+    });
+
+    it('should checksum the steps and down steps', () => {
+      const plan = migrationExecutor.createMigrationPlan(sourceSchema, targetSchema, { allowDataLoss: true });
+      const again = migrationExecutor.createMigrationPlan(sourceSchema, targetSchema, { allowDataLoss: true });
+      const reverse = migrationExecutor.createMigrationPlan(targetSchema, sourceSchema, { allowDataLoss: true });
+
+      expect(plan.checksum).toMatch(/^[0-9a-f]{64}$/);
+      expect(again.checksum).toBe(plan.checksum);
+      expect(reverse.checksum).not.toBe(plan.checksum);
+    });
+  });
+
+  describe('migration history', () => {
+    const v1: SchemaDefinition = {
+      version: '1.0.0',
+      vertices: { Person: { properties: { name: { type: 'string' } } } },
+      edges: {},
+    };
+    const v2: SchemaDefinition = {
+      version: '1.1.0',
+      vertices: {
+        Person: { properties: { name: { type: 'string' }, email: { type: 'string' } } },
+        Company: { properties: { name: { type: 'string' } } },
+      },
+      edges: {},
+    };
+
+    let driver: FakeDriver;
+    let executor: SchemaMigrationExecutor;
+    let ledger: Record<string, any>[];
+
+    const record = (sourceVersion: string, targetVersion: string, direction: string, checksum: string) =>
+      ledger.push({
+        id: ledger.length + 1,
+        source_version: sourceVersion,
+        target_version: targetVersion,
+        direction,
+        checksum,
+        status: 'applied',
+        executed_steps: 1,
+        total_steps: 1,
+        error: null,
+        started_at: '2024-01-01T00:00:00Z',
+        finished_at: '2024-01-01T00:00:01Z',
+      });
+
+    const queries = () => driver.getQueries().filter(query => !query.includes('CREATE TABLE IF NOT EXISTS "public"'));
+
+    beforeEach(async () => {
+      driver = new FakeDriver();
+      ledger = [];
+      driver.respond('INSERT INTO "public"."age_schema_migrations"', statement => {
+        const [source, target, direction, checksum, status, totalSteps, executedSteps, checkpoint] = statement.values!;
+        const baseline = statement.text.includes('now())');
+        ledger.push({
+          id: ledger.length + 1,
+          source_version: source,
+          target_version: baseline ? source : target,
+          direction: baseline ? target : direction,
+          checksum: baseline ? '' : checksum,
+          status: baseline ? direction : status,
+          executed_steps: baseline ? 0 : executedSteps,
+          total_steps: baseline ? 0 : totalSteps,
+          error: null,
+          checkpoint: baseline ? null : checkpoint,
+          started_at: new Date().toISOString(),
+          finished_at: null,
+        });
+        return { rows: [{ id: ledger.length }] };
+      });
+      driver.respond('UPDATE "public"."age_schema_migrations"', statement => {
+        if (!statement.text.includes('status =')) {
+          const [id, executedSteps, checkpoint] = statement.values!;
+          Object.assign(ledger[id - 1], { executed_steps: executedSteps, checkpoint });
+          return { rowCount: 1 };
+        }
+        const [id, status, executedSteps, error, checkpoint] = statement.values!;
+        Object.assign(ledger[id - 1], {
+          status,
+          executed_steps: executedSteps,
+          error,
+          checkpoint,
+          finished_at: new Date().toISOString(),
+        });
+        return { rowCount: 1 };
+      });
+      driver.respond('FROM "public"."age_schema_migrations" ORDER BY id', () => ({ rows: ledger.map(row => ({ ...row })) }));
+
+      executor = new SchemaMigrationExecutor(new QueryExecutor(await driver.connect()), new SQLGenerator(v2));
+    });
+
+    it('should migrate up through every version and record each migration', async () => {
+      const results = await executor.migrateTo('1.1.0', [v2, v1], { execute: true, createBackup: false, logMigration: false });
+
+      expect(results.map(result => [result.plan.sourceVersion, result.plan.targetVersion, result.success]))
+        .toEqual([['0.0.0', '1.0.0', true], ['1.0.0', '1.1.0', true]]);
+
+      const history = await executor.getMigrationHistory();
+      expect(history.map(entry => [entry.sourceVersion, entry.targetVersion, entry.direction, entry.status]))
+        .toEqual([
+          ['0.0.0', '1.0.0', MigrationDirection.UP, MigrationStatus.APPLIED],
+          ['1.0.0', '1.1.0', MigrationDirection.UP, MigrationStatus.APPLIED],
+        ]);
+      expect(history[1]).toMatchObject({ checksum: results[1].plan.checksum, executedSteps: 2, totalSteps: 2 });
+      expect(history[1].startedAt).toBeInstanceOf(Date);
+      expect(await executor.getCurrentVersion()).toBe('1.1.0');
+
+      const sql = queries();
+      expect(sql[0]).toBe('SELECT pg_advisory_lock(hashtext($1))');
+      expect(driver.getStatements('query').find(statement => statement.text.includes('pg_advisory_lock'))!.values)
+        .toEqual(['"public"."age_schema_migrations"']);
+      expect(sql.filter(query => query === 'BEGIN')).toHaveLength(2);
+      expect(sql.indexOf('SELECT pg_advisory_unlock(hashtext($1))'))
+        .toBeGreaterThan(sql.lastIndexOf('COMMIT'));
+    });
+
+    it('should do nothing when the database is at the requested version', async () => {
+      record('0.0.0', '1.0.0', 'up', executor.createMigrationPlan({ version: '0.0.0', vertices: {}, edges: {} }, v1).checksum!);
+
+      expect(await executor.migrateTo('1.0.0', [v1, v2], { execute: true })).toEqual([]);
+      expect(queries()).not.toContain('BEGIN');
+    });
+
+    it('should migrate down with the generated down steps', async () => {
+      const initial = executor.createMigrationPlan({ version: '0.0.0', vertices: {}, edges: {} }, v1);
+      const upgrade = executor.createMigrationPlan(v1, v2, { allowDataLoss: true });
+      record('0.0.0', '1.0.0', 'up', initial.checksum!);
+      record('1.0.0', '1.1.0', 'up', upgrade.checksum!);
+
+      await expect(executor.migrateTo('1.0.0', [v1, v2], { execute: true, createBackup: false }))
+        .rejects.toThrow(ValidationError);
+      expect(queries()).not.toContain('BEGIN');
+
+      const results = await executor.migrateTo('1.0.0', [v1, v2], {
+        execute: true,
+        allowDataLoss: true,
+        createBackup: false,
+        logMigration: false,
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].plan).toMatchObject({ sourceVersion: '1.1.0', targetVersion: '1.0.0', steps: upgrade.downSteps });
+      expect(queries()).toContain('DROP TABLE IF EXISTS "v_Company" CASCADE');
+      expect(ledger[2]).toMatchObject({
+        source_version: '1.1.0',
+        target_version: '1.0.0',
+        direction: 'down',
+        checksum: upgrade.checksum,
+        status: 'applied',
+      });
+      expect(await executor.getCurrentVersion()).toBe('1.0.0');
+
+      // The history with a down migration still verifies
+      await executor.migrateTo('1.0.0', [v1, v2], { execute: true });
+    });
+
+    it('should refuse to run when an applied migration changed', async () => {
+      record('0.0.0', '1.0.0', 'up', 'edited');
+
+      const error = await executor.migrateTo('1.1.0', [v1, v2], { execute: true }).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(MigrationChecksumError);
+      expect(error.message).toContain('Migration 0.0.0 -> 1.0.0 was applied with checksum edited');
+      expect(queries()).not.toContain('BEGIN');
+      expect(queries()[queries().length - 1]).toBe('SELECT pg_advisory_unlock(hashtext($1))');
+    });
+
+    it('should record the failing step and stop', async () => {
+      driver.respond('ADD COLUMN "email"', new Error('permission denied'));
+      record('0.0.0', '1.0.0', 'up', executor.createMigrationPlan({ version: '0.0.0', vertices: {}, edges: {} }, v1).checksum!);
+
+      const results = await executor.migrateTo('1.1.0', [v1, v2], { execute: true, createBackup: false, logMigration: false });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].success).toBe(false);
+      expect(results[0].error).toMatch(/^Migration failed: permission denied/);
+      expect(queries()).toContain('ROLLBACK');
+      expect(ledger[1]).toMatchObject({ status: 'failed', executed_steps: 0 });
+      expect(ledger[1].error).toMatch(/^Step 1 of 2 \(Add column 'email' to vertex table 'Person'\) failed: permission denied/);
+      expect(await executor.getCurrentVersion()).toBe('1.0.0');
+    });
+
+    it('should hold the migrations lock while executing a recorded plan', async () => {
+      const plan = executor.createMigrationPlan(v1, v2);
+
+      const result = await executor.executeMigrationPlan(plan, { execute: true, recordHistory: true, createBackup: false, logMigration: false });
+
+      expect(result.success).toBe(true);
+      const sql = queries();
+      expect(sql[0]).toBe('SELECT pg_advisory_lock(hashtext($1))');
+      expect(sql.filter(query => query.includes('pg_advisory_lock'))).toHaveLength(1);
+      expect(sql[sql.length - 1]).toBe('SELECT pg_advisory_unlock(hashtext($1))');
+      expect(ledger[0]).toMatchObject({ source_version: '1.0.0', target_version: '1.1.0', status: 'applied' });
+    });
+
+    it('should log a failure to release the migrations lock without hiding the result', async () => {
+      driver.respond('pg_advisory_unlock', new Error('connection lost'));
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const results = await executor.migrateTo('1.1.0', [v1, v2], { execute: true, createBackup: false, logMigration: false });
+
+      expect(results.map(result => result.success)).toEqual([true, true]);
+      expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^Failed to release the migrations lock: connection lost/));
+      warn.mockRestore();
+    });
+
+    it('should plan without locking or executing on a dry run', async () => {
+      const results = await executor.migrateTo('1.1.0', [v1, v2]);
+
+      expect(results.map(result => result.executedSteps)).toEqual([0, 0]);
+      expect(queries().some(query => query.includes('pg_advisory') || query === 'BEGIN')).toBe(false);
+      expect(ledger).toEqual([]);
+    });
+
+    it('should baseline a database created before the migrations table', async () => {
+      await executor.baseline('1.0.0');
+
+      expect(ledger[0]).toMatchObject({ source_version: '1.0.0', target_version: '1.0.0', direction: 'baseline', status: 'applied' });
+      expect(await executor.getCurrentVersion()).toBe('1.0.0');
+      await expect(executor.baseline('1.1.0')).rejects.toThrow(SchemaVersionError);
+
+      await executor.migrateTo('1.1.0', [v1, v2], { execute: true, createBackup: false, logMigration: false });
+      expect(ledger[1]).toMatchObject({ source_version: '1.0.0', target_version: '1.1.0', status: 'applied' });
+    });
+
+    describe('data migrations', () => {
+      const rename = { kind: DataMigrationKind.RENAME_PROPERTY, label: 'Person', from: 'mail', to: 'email' } as const;
+      const retype = { kind: DataMigrationKind.RETYPE_PROPERTY, label: 'Person', property: 'age', type: PropertyType.INTEGER } as const;
+
+      let graphExecutor: SchemaMigrationExecutor;
+      let failAfter: string | null;
+
+      // Person vertices with graph ids 1 to 5 still having the old property
+      const remaining = (text: string) => {
+        const checkpoint = Number(/id\(item\) > (\d+)/.exec(text)![1]);
+        return [1, 2, 3, 4, 5].filter(id => id > checkpoint);
+      };
+
+      beforeEach(async () => {
+        failAfter = null;
+        driver.respond('SHOW search_path', { rows: [{ search_path: 'ag_catalog, "$user", public' }] });
+        driver.respond('RETURN count(item) AS total', statement => ({
+          rows: [{ total: String(remaining(statement.text).length) }],
+        }));
+        driver.respond('RETURN count(item) AS processed', statement => {
+          if (failAfter !== null && statement.text.includes(`id(item) > ${failAfter} `)) {
+            throw new Error('connection lost');
+          }
+          const ids = remaining(statement.text).slice(0, Number(/LIMIT (\d+)/.exec(statement.text)![1]));
+          return { rows: [{ processed: String(ids.length), checkpoint: ids.length > 0 ? String(ids[ids.length - 1]) : null }] };
+        });
+
+        graphExecutor = new SchemaMigrationExecutor(new QueryExecutor(await driver.connect()), new SQLGenerator(v2), {
+          graphName: 'social',
+        });
+      });
+
+      it('should plan data migrations after the schema changes and undo them first', () => {
+        const plan = graphExecutor.createMigrationPlan(v1, v2, { dataMigrations: { '1.1.0': [rename] } });
+
+        expect(plan.steps.map(step => step.description)).toEqual([
+          "Add column 'email' to vertex table 'Person'",
+          "Create vertex table for label 'Company'",
+          "Rename property 'mail' to 'email' of vertex label 'Person'",
+        ]);
+        expect(plan.steps[2]).toMatchObject({ sql: '', data: rename, canCauseDataLoss: false });
+        expect(plan.downSteps![0].data).toEqual({ ...rename, from: 'email', to: 'mail' });
+        expect(plan.checksum).not.toBe(graphExecutor.createMigrationPlan(v1, v2).checksum);
+
+        expect(() => graphExecutor.createMigrationPlan(v1, v2, { dataMigrations: { '1.1.0': [retype] } }))
+          .toThrow("Migration contains changes that can cause data loss: Convert property 'age' of vertex label 'Person' to integer");
+        expect(graphExecutor.createMigrationPlan(v1, v2, { allowDataLoss: true, dataMigrations: { '1.1.0': [retype] } }))
+          .toMatchObject({ canCauseDataLoss: true, downSteps: [{ description: "Drop vertex table for label 'Company'" }, {}] });
+        expect(() => executor.createMigrationPlan(v1, v2, { dataMigrations: { '1.1.0': [rename] } }))
+          .toThrow('A graph name is required to run data migrations');
+      });
+
+      it('should run data migrations in batches and resume after a failure', async () => {
+        record('0.0.0', '1.0.0', 'up', graphExecutor.createMigrationPlan({ version: '0.0.0', vertices: {}, edges: {} }, v1).checksum!);
+        const progress: DataMigrationProgress[] = [];
+        const options = {
+          execute: true,
+          createBackup: false,
+          logMigration: false,
+          batchSize: 2,
+          dataMigrations: { '1.1.0': [rename] },
+          onProgress: (update: DataMigrationProgress) => progress.push(update),
+        };
+
+        failAfter = '2';
+        const [failed] = await graphExecutor.migrateTo('1.1.0', [v1, v2], options);
+
+        expect(failed).toMatchObject({ success: false, executedSteps: 2, totalSteps: 3 });
+        expect(ledger[1]).toMatchObject({ status: 'failed', executed_steps: 2, checkpoint: '2' });
+        expect(ledger[1].error).toMatch(/^Step 3 of 3 \(Rename property 'mail' to 'email' of vertex label 'Person'\) failed: Cypher query execution failed: connection lost/);
+        expect(progress).toEqual([
+          { description: "Rename property 'mail' to 'email' of vertex label 'Person'", processed: 2, total: 5, checkpoint: '2' },
+        ]);
+
+        failAfter = null;
+        progress.length = 0;
+        const [resumed] = await graphExecutor.migrateTo('1.1.0', [v1, v2], options);
+
+        expect(resumed).toMatchObject({ success: true, executedSteps: 3 });
+        expect(progress.map(update => [update.processed, update.total, update.checkpoint])).toEqual([[2, 3, '4'], [3, 3, '5']]);
+        expect(ledger[2]).toMatchObject({ status: 'applied', executed_steps: 3, checkpoint: null });
+        expect(queries().filter(query => query.includes('ADD COLUMN "email"'))).toHaveLength(1);
+        expect(queries().filter(query => query.includes('RETURN count(item) AS processed'))
+          .map(query => /id\(item\) > (\d+)/.exec(query)![1])).toEqual(['0', '2', '2', '4', '5']);
+        expect(await graphExecutor.getCurrentVersion()).toBe('1.1.0');
+      });
+    });
+
+    it('should reject unknown and duplicate versions', async () => {
+      await expect(executor.migrateTo('2.0.0', [v1, v2])).rejects.toThrow('No schema has version 2.0.0');
+      await expect(executor.migrateTo('1.0.0', [v1, { ...v1 }])).rejects.toThrow('Two schemas have version 1.0.0');
+
+      record('0.9.0', '0.9.0', 'baseline', '');
+      await expect(executor.migrateTo('1.0.0', [v1, v2])).rejects.toThrow('The database is at version 0.9.0');
+    });
+  });
+
   describe('executeMigrationPlan', () => {
     it('should execute a migration plan', async () => {
       const plan: MigrationPlan = {
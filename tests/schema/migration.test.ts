@@ -216,6 +216,29 @@ describe('Schema Migration', () => {
       expect(modifiedRequired?.breaking).toBe(false);
     });
     
+    it('should detect added unique constraints', () => {
+      const newSchema = {
+        ...oldSchema,
+        vertices: {
+          Person: {
+            ...oldSchema.vertices.Person,
+            keys: ['id'],
+            unique: ['id', ['name', 'age']],
+          },
+        },
+      };
+      
+      const changes = compareSchemas(oldSchema, newSchema);
+      
+      const modifiedUnique = changes.find(
+        change => change.type === SchemaChangeType.MODIFIED && change.path === 'vertices.Person.unique'
+      );
+      
+      expect(modifiedUnique?.breaking).toBe(true);
+      expect(modifiedUnique?.newValue).toEqual([['id'], ['name', 'age']]);
+      expect(compareSchemas(newSchema, newSchema)).toEqual([]);
+    });
+    
     it('should detect changes to edge relationships', () => {
       const newSchema = {
         ...oldSchema,
@@ -259,6 +259,71 @@ describe('SchemaParser', () => {
       expect(() => parser.validate(invalidSchema)).toThrow(ValidationErrorCollection);
     });
 
+    it('should accept identity keys and unique constraints', () => {
+      const parser = new SchemaParser();
+
+      const schema = {
+        version: '1.0.0',
+        vertices: {
+          Person: {
+            properties: {
+              tenantId: { type: PropertyType.STRING },
+              externalId: { type: PropertyType.STRING },
+              email: { type: PropertyType.STRING },
+            },
+            required: ['tenantId', 'externalId'],
+            keys: ['tenantId', 'externalId'],
+            unique: ['email', ['tenantId', 'email']],
+          },
+        },
+        edges: {},
+      };
+
+      expect(() => parser.validate(schema)).not.toThrow();
+    });
+
+    it('should reject invalid identity keys and unique constraints', () => {
+      const parser = new SchemaParser({
+        collectAllErrors: true,
+      });
+
+      const invalidSchema = {
+        version: '1.0.0',
+        vertices: {
+          Person: {
+            properties: {
+              id: { type: PropertyType.STRING },
+              tags: { type: PropertyType.ARRAY },
+            },
+            keys: ['id', 'id'],
+            unique: ['missing', [], 'tags'],
+          },
+          Company: {
+            properties: {
+              name: { type: PropertyType.STRING },
+            },
+            keys: ['name'],
+          },
+        },
+        edges: {},
+      };
+
+      try {
+        parser.validate(invalidSchema);
+        fail('Should have thrown ValidationErrorCollection');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationErrorCollection);
+        const messages = (error as ValidationErrorCollection).errors.map(e => e.message);
+        expect(messages).toEqual(expect.arrayContaining([
+          'Duplicate constraint property: id',
+          'Key property must be required: name',
+          'Constraint property not found: missing',
+          'Unique constraint must be a property name or a non-empty array of property names',
+          'Unique property must have a scalar type: tags',
+        ]));
+      }
+    });
+
     it('should detect circular dependencies', () => {
       const parser = new SchemaParser({
         detectCircularDependencies: true,
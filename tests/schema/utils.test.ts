@@ -2,6 +2,9 @@ import { describe, it, expect } from 'vitest';
 import {
   parseVersion,
   formatVersion,
+  compareVersions,
+  getUniqueConstraints,
+  findDuplicateKeys,
 } from '../../src/schema/utils';
 
 describe('Schema Utils', () => {
@@ -99,4 +102,43 @@ describe('Schema Utils', () => {
       expect(formatVersion(version)).toBe('1.2.3-alpha.1+build.456');
     });
   });
+
+  describe('compareVersions', () => {
+    it('should order versions by precedence', () => {
+      const versions = ['1.10.0', '1.2.0', '1.2.0-beta', '0.9.1', '1.2.0-alpha', '2.0.0'];
+
+      expect([...versions].sort(compareVersions)).toEqual(['0.9.1', '1.2.0-alpha', '1.2.0-beta', '1.2.0', '1.10.0', '2.0.0']);
+      expect(compareVersions('1.0.0+build.1', '1.0.0')).toBe(0);
+    });
+  });
+
+  describe('getUniqueConstraints', () => {
+    it('should list the identity key first and drop repeated constraints', () => {
+      const constraints = getUniqueConstraints({
+        properties: {},
+        keys: ['tenantId', 'externalId'],
+        unique: ['email', ['externalId', 'tenantId'], ['tenantId', 'email']],
+      });
+      
+      expect(constraints).toEqual([['tenantId', 'externalId'], ['email'], ['tenantId', 'email']]);
+      expect(getUniqueConstraints({ properties: {} })).toEqual([]);
+    });
+  });
+  
+  describe('findDuplicateKeys', () => {
+    it('should group items sharing key values and skip incomplete keys', () => {
+      const items = [
+        { tenantId: 't1', email: 'a@example.com' },
+        { tenantId: 't2', email: 'a@example.com' },
+        { tenantId: 't1', email: 'a@example.com' },
+        { tenantId: 't1' },
+        { tenantId: 't1', email: null },
+      ];
+      
+      expect(findDuplicateKeys(items, ['tenantId', 'email'])).toEqual([
+        { properties: ['tenantId', 'email'], values: ['t1', 'a@example.com'], indexes: [0, 2] },
+      ]);
+      expect(findDuplicateKeys(items, ['email'])[0].indexes).toEqual([0, 1, 2]);
+    });
+  });
 });
@@ -98,5 +98,31 @@ describe('CypherQueryGenerator', () => {
       expect(query).toContain('from_exists');
       expect(query).toContain('to_exists');
     });
+
+    it('should look up endpoints resolved by key properties by their key values', () => {
+      const query = generator.generateValidateEdgeEndpointsQuery('temp_edges', 'test_graph', {
+        VISITED: { to: ['latitude', 'longitude'] },
+      });
+
+      expect(query).toContain('to_keys_0 AS (');
+      expect(query).toContain('MATCH (v:Location)');
+      expect(query).toContain('RETURN [v.latitude, v.longitude]');
+      expect(query).toContain("CASE e.edge_type WHEN 'VISITED' THEN EXISTS(SELECT 1 FROM to_keys_0 k WHERE k.key = e.to_key)");
+      // Endpoints without keys are still looked up by id
+      expect(query).toContain('EXISTS(SELECT 1 FROM vertex_ids v WHERE v.vertex_id::text::bigint = e.from_id::bigint) AS from_exists');
+      expect(query).toContain('SELECT edge_type, from_id, to_id, from_key, to_key, from_exists, to_exists');
+      expect(() => generator.generateValidateEdgeEndpointsQuery('temp_edges', 'test_graph', { LIKES: { from: ['name'] } }))
+        .toThrow('Edge type "LIKES" not found in schema');
+    });
+  });
+
+  describe('generateCreateEdgesQuery', () => {
+    it('should match endpoints on their key properties', () => {
+      const query = generator.generateCreateEdgesQuery('VISITED', 'test_graph', { from: ['name'], to: ['latitude', 'longitude'] });
+
+      expect(query).toContain('MATCH (from:Person {name: edge_data.from[0]})');
+      expect(query).toContain('MATCH (to:Location {latitude: edge_data.to[0], longitude: edge_data.to[1]})');
+      expect(generator.generateCreateEdgesQuery('VISITED', 'test_graph')).toContain('MATCH (from:Person {id: edge_data.from})');
+    });
   });
 });
@@ -0,0 +1,234 @@
+/**
+ * Unit tests for dead-letter sinks
+ *
+ * These tests verify that the file and table sinks store rejected records,
+ * that loads write records failing validation or failing to load to a sink,
+ * and that replayDeadLetters loads them again.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DeadLetter, createFileDeadLetterSink, createTableDeadLetterSink } from '../../../src/loader/dead-letter';
+import { SchemaLoader } from '../../../src/loader/schema-loader';
+import { createBatchLoader } from '../../../src/loader/batch-loader-impl';
+import { SchemaDefinition } from '../../../src/schema/types';
+import { QueryExecutor } from '../../../src/db/query';
+import { FakeDriver } from '../../../src/db/fake-driver';
+import { createLoaderDatabase, loaderSchema, stagedLoads, storing } from './schema-loader-fixtures';
+
+describe('Dead letters', () => {
+  let directory: string;
+  let driver: FakeDriver;
+  let queryExecutor: QueryExecutor;
+  let schemaLoader: SchemaLoader<SchemaDefinition>;
+
+  const letter = (id: string): DeadLetter => ({
+    kind: 'vertex',
+    label: 'Person',
+    data: { id },
+    batch: 0,
+    databaseError: 'duplicate key',
+    rejectedAt: '2026-01-01T00:00:00.000Z',
+  });
+
+  const readAll = async (source: AsyncIterable<DeadLetter>) => {
+    const letters: DeadLetter[] = [];
+    for await (const item of source) {
+      letters.push(item);
+    }
+    return letters;
+  };
+
+  const loaded = () => stagedLoads(driver).map(load => load.ids);
+
+  // Fail the stores of a record
+  const failStoring = (id: string) => {
+    driver.respond(storing(id), new Error(`bad item ${id}`));
+  };
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'dead-letter-'));
+    ({ driver, queryExecutor } = await createLoaderDatabase());
+
+    schemaLoader = new SchemaLoader(loaderSchema, queryExecutor, {
+      defaultGraphName: 'social',
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should append letters to a file sink, read them back and clear them', async () => {
+    const sink = createFileDeadLetterSink(path.join(directory, 'rejected.ndjson'));
+
+    expect(await readAll(sink.read!())).toEqual([]);
+
+    await sink.write([letter('p1')]);
+    await sink.write([letter('p2'), letter('p3')]);
+    expect((await readAll(sink.read!())).map(item => item.data.id)).toEqual(['p1', 'p2', 'p3']);
+
+    await sink.clear!();
+    expect(await readAll(sink.read!())).toEqual([]);
+  });
+
+  it('should insert letters into a table sink and read them in order', async () => {
+    const sink = createTableDeadLetterSink(queryExecutor, { table: 'rejected' });
+
+    await sink.write([{ ...letter('p1'), validationErrors: [{ message: 'bad', path: 'vertex(Person).age', type: 'ValidationError' }] }]);
+
+    const [create, insert] = driver.getStatements('query').slice(-2);
+    expect(create.text).toContain('CREATE TABLE IF NOT EXISTS "public"."rejected"');
+    expect(insert.text).toContain('INSERT INTO "public"."rejected"');
+    expect(JSON.parse(insert.values![0])).toEqual([{
+      kind: 'vertex',
+      label: 'Person',
+      batch: 0,
+      data: { id: 'p1' },
+      validation_errors: [{ message: 'bad', path: 'vertex(Person).age', type: 'ValidationError' }],
+      database_error: 'duplicate key',
+      rejected_at: '2026-01-01T00:00:00.000Z',
+    }]);
+
+    driver.respond('FROM "public"."rejected" ORDER BY id', {
+      rows: [{ kind: 'edge', label: 'KNOWS', batch: '2', data: { from: 'p1', to: 'p2' }, validation_errors: null, database_error: 'boom', rejected_at: new Date('2026-01-02T00:00:00Z') }],
+    });
+    expect(await readAll(sink.read!())).toEqual([{
+      kind: 'edge',
+      label: 'KNOWS',
+      batch: 2,
+      data: { from: 'p1', to: 'p2' },
+      databaseError: 'boom',
+      rejectedAt: '2026-01-02T00:00:00.000Z',
+    }]);
+  });
+
+  it('should write records failing schema validation to the sink and load the rest', async () => {
+    const letters: DeadLetter[] = [];
+
+    const result = await schemaLoader.loadGraphData({
+      vertices: { Person: [{ id: 'p1' }, { id: 'p2', age: 'old' }, { id: 'p3' }] },
+      edges: { KNOWS: [{ from: 'p1', to: 'p3' }, { from: 'p1' }] },
+    }, { batchSize: 2, deadLetters: item => { letters.push(item); } });
+
+    expect(result).toMatchObject({ success: true, vertexCount: 2, edgeCount: 1, deadLetterCount: 2 });
+    expect(result.warnings).toContain('2 records were rejected and written to the dead-letter sink');
+    expect(loaded()).toEqual([['p1'], ['p3'], ['p1-p3']]);
+    expect(letters.map(({ kind, label, batch, data }) => [kind, label, batch, data])).toEqual([
+      ['vertex', 'Person', 0, { id: 'p2', age: 'old' }],
+      ['edge', 'KNOWS', 0, { from: 'p1' }],
+    ]);
+    expect(letters[0].validationErrors).toEqual([expect.objectContaining({ path: 'vertex(Person).age' })]);
+    expect(letters[1].validationErrors).toEqual([
+      { message: 'Missing required property: to', path: 'edge(KNOWS)', type: 'MissingRequiredPropertyError' },
+    ]);
+    expect(letters.every(item => item.databaseError === undefined)).toBe(true);
+  });
+
+  it('should write the records failing to load without a checkpoint after the load commits', async () => {
+    failStoring('p2');
+    const letters: (DeadLetter & { commits: number })[] = [];
+    const commits = () => driver.getQueries().filter(text => text.trim() === 'COMMIT').length;
+
+    const result = await schemaLoader.loadGraphData(
+      { vertices: { Person: ['p1', 'p2', 'p3'].map(id => ({ id })) }, edges: {} },
+      { batchSize: 2, deadLetters: item => { letters.push({ ...item, commits: commits() }); } }
+    );
+
+    expect(result).toMatchObject({ success: true, vertexCount: 2, deadLetterCount: 1 });
+    expect(driver.getQueries().filter(text => /^\s*(BEGIN|COMMIT|ROLLBACK)\s*$/.test(text)).map(text => text.trim()))
+      .toEqual(['BEGIN', 'COMMIT']);
+    expect(loaded()).toEqual([['p1', 'p2'], ['p1'], ['p2'], ['p3']]);
+    expect(letters).toEqual([expect.objectContaining({ data: { id: 'p2' }, batch: 0, commits: 1 })]);
+    expect(letters[0].databaseError).toMatch(/^bad item p2/);
+  });
+
+  it('should write the letters of a checkpointed batch only once it commits', async () => {
+    let reset = true;
+    driver.respond(/^\s*COMMIT\s*$/, () => reset ? new Error('connection reset') : { rows: [] });
+    const letters: DeadLetter[] = [];
+    const data = { vertices: { Person: [{ id: 'p1' }, { id: 'p2', age: 'old' }] }, edges: {} };
+    const options = { checkpointed: true, loadId: 'load-1', batchSize: 2, batchRetries: 0, deadLetters: (item: DeadLetter) => { letters.push(item); } };
+
+    const failed = await schemaLoader.loadGraphData(data, options);
+    expect(failed.success).toBe(false);
+    expect(letters).toEqual([]);
+
+    reset = false;
+    const loadedAgain = await schemaLoader.loadGraphData(data, options);
+    expect(loadedAgain).toMatchObject({ success: true, vertexCount: 1, deadLetterCount: 1 });
+    expect(letters.map(item => item.data)).toEqual([{ id: 'p2', age: 'old' }]);
+  });
+
+  it('should isolate the records a checkpointed batch fails to load and continue', async () => {
+    failStoring('p3');
+    const letters: DeadLetter[] = [];
+
+    const result = await schemaLoader.loadGraphData(
+      { vertices: { Person: ['p1', 'p2', 'p3', 'p4', 'p5'].map(id => ({ id })) }, edges: {} },
+      { checkpointed: true, loadId: 'load-1', batchSize: 4, batchRetries: 0, deadLetters: item => { letters.push(item); } }
+    );
+
+    expect(result).toMatchObject({ success: true, vertexCount: 4, deadLetterCount: 1 });
+    expect(result.batches!.failed).toEqual([]);
+    // The failing batch is halved within savepoints until the failing record is found
+    expect(loaded()).toEqual([
+      ['p1', 'p2', 'p3'], ['p1', 'p2'], ['p3'], ['p3'], ['p4'], ['p5'],
+    ]);
+    expect(letters).toEqual([expect.objectContaining({ kind: 'vertex', label: 'Person', batch: 0, data: { id: 'p3' } })]);
+    expect(letters[0].databaseError).toMatch(/^bad item p3/);
+    const savepoints = driver.getQueries().map(text => text.trim()).filter(text => text.includes('SAVEPOINT'));
+    expect(savepoints.filter(text => text.startsWith('ROLLBACK TO'))).toHaveLength(3);
+  });
+
+  it('should replay the letters of a sink and keep the records rejected again', async () => {
+    const sink = createFileDeadLetterSink(path.join(directory, 'rejected.ndjson'));
+    await sink.write([
+      letter('p1'),
+      { ...letter('p2'), data: { id: 'p2', age: 'old' } },
+      { kind: 'edge', label: 'KNOWS', data: { from: 'p1', to: 'p2' }, batch: 3, rejectedAt: '2026-01-01T00:00:00.000Z' },
+    ]);
+
+    const result = await schemaLoader.replayDeadLetters(sink);
+
+    expect(result).toMatchObject({ success: true, vertexCount: 1, edgeCount: 1, deadLetterCount: 1 });
+    expect(loaded()).toEqual([['p1'], ['p1-p2']]);
+    expect((await readAll(sink.read!())).map(item => item.data)).toEqual([{ id: 'p2', age: 'old' }]);
+
+    failStoring('p2');
+    const failed = await schemaLoader.replayDeadLetters([letter('p2')]);
+    expect(failed.success).toBe(false);
+
+    const unreadable = await schemaLoader.replayDeadLetters({ write: async () => {} });
+    expect(unreadable.errors?.[0].message).toBe('Dead-letter sink cannot be read');
+  });
+
+  it('should write the records of batches the batch loader fails to load', async () => {
+    driver.respond(
+      statement => statement.text.includes('age_params') && String(statement.values?.[1]).includes('p3'),
+      new Error('invalid input syntax')
+    );
+    const letters: DeadLetter[] = [];
+    const batchLoader = createBatchLoader(loaderSchema, queryExecutor, { validateBeforeLoad: false });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await batchLoader.loadGraphData(
+      { vertices: { Person: ['p1', 'p2', 'p3', 'p4'].map(id => ({ id })) }, edges: {} },
+      { batchSize: 2, deadLetters: item => { letters.push(item); } }
+    );
+
+    expect(result.success).toBe(true);
+    // The failed batch is halved, so only the failing record is written
+    expect(letters.map(({ label, batch, data }) => [label, batch, data.id])).toEqual([['Person', 1, 'p3']]);
+    expect(letters[0].databaseError).toMatch(/invalid input syntax/);
+    expect(driver.getStatements('query')
+      .filter(statement => statement.text.includes('age_params') && String(statement.values?.[1]).includes('p4'))
+      .map(statement => JSON.parse(statement.values![1]).map((item: any) => item.id))).toEqual([['p3', 'p4'], ['p4']]);
+  });
+});
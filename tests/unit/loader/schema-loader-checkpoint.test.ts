@@ -0,0 +1,133 @@
+/**
+ * Unit tests for SchemaLoader checkpointed loads
+ *
+ * These tests verify that checkpointed loads commit and record each batch,
+ * skip committed batches when resumed, retry failed batches and leave out
+ * items whose identity key is already in the graph.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GraphData, SchemaLoader } from '../../../src/loader/schema-loader';
+import { SchemaDefinition } from '../../../src/schema/types';
+import { FakeDriver } from '../../../src/db/fake-driver';
+import { createLoaderDatabase, loaderSchema, recordCheckpoints, stagedLoads, storing } from './schema-loader-fixtures';
+
+describe('SchemaLoader checkpointed loads', () => {
+  let driver: FakeDriver;
+  let schemaLoader: SchemaLoader<SchemaDefinition>;
+  let ledger: Map<string, any>;
+
+  const people = (...ids: string[]) => ids.map(id => ({ id }));
+
+  const data: GraphData = {
+    vertices: { Person: people('p1', 'p2', 'p3', 'p4', 'p5') },
+    edges: { KNOWS: [{ from: 'p1', to: 'p2' }, { from: 'p2', to: 'p3' }] },
+  };
+
+  const batches = (list: { label: string; batch: number }[] | undefined) =>
+    (list || []).map(({ label, batch }) => `${label}:${batch}`);
+
+  // Transaction statements and checkpoint writes, in the order they were sent
+  const commits = () => driver.getQueries()
+    .map(text => text.trim())
+    .filter(text => /^(BEGIN|COMMIT|ROLLBACK)$/.test(text) || text.startsWith('INSERT INTO "public"."age_schema_load_checkpoints"'))
+    .map(text => text.startsWith('INSERT') ? 'checkpoint' : text);
+
+  // Fail the stores of a record a number of times
+  const failStoring = (id: string, times: number) => {
+    driver.respond(storing(id), () => times-- > 0 ? new Error('deadlock detected') : { rows: [] });
+  };
+
+  beforeEach(async () => {
+    const database = await createLoaderDatabase();
+    driver = database.driver;
+    ledger = recordCheckpoints(driver);
+
+    schemaLoader = new SchemaLoader(loaderSchema, database.queryExecutor, {
+      defaultGraphName: 'social',
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should commit each batch with its checkpoint and resume after the last committed batch', async () => {
+    // The third batch of Person fails on the first attempt and on the retry
+    failStoring('p5', 2);
+
+    const failed = await schemaLoader.loadGraphData(data, { checkpointed: true, loadId: 'load-1', batchSize: 2 });
+
+    expect(failed).toMatchObject({ success: false, loadId: 'load-1', vertexCount: 4, edgeCount: 0 });
+    expect(batches(failed.batches!.retried)).toEqual(['Person:2']);
+    expect(batches(failed.batches!.failed)).toEqual(['Person:2']);
+    expect(failed.batches!.failed[0].error.message).toMatch(/^deadlock detected/);
+    expect(stagedLoads(driver).map(load => load.ids)).toEqual([['p1', 'p2'], ['p3', 'p4'], ['p5'], ['p5']]);
+    // Each batch is created in the graph and recorded in the transaction it commits in
+    expect(driver.getQueries().filter(text => text.includes('CREATE (v:Person {'))).toHaveLength(2);
+    expect(driver.getQueries().find(text => text.includes('CREATE (v:Person {'))).toContain("cypher('social', $$");
+    expect(commits()).toEqual([
+      'BEGIN', 'checkpoint', 'COMMIT',
+      'BEGIN', 'checkpoint', 'COMMIT',
+      'BEGIN', 'ROLLBACK',
+      'BEGIN', 'ROLLBACK', 'checkpoint',
+    ]);
+    expect([...ledger.values()].map(row => [row.label, row.batch, row.status, row.attempts])).toEqual([
+      ['Person', 0, 'committed', 1],
+      ['Person', 1, 'committed', 1],
+      ['Person', 2, 'failed', 2],
+    ]);
+
+    const loadsBefore = stagedLoads(driver).length;
+    const resumed = await schemaLoader.resumeLoad('load-1', data, { batchSize: 2 });
+
+    expect(resumed).toMatchObject({ success: true, loadId: 'load-1', vertexCount: 1, edgeCount: 2, edgeTypes: ['KNOWS'] });
+    expect(batches(resumed.batches!.skipped)).toEqual(['Person:0', 'Person:1']);
+    expect(batches(resumed.batches!.retried)).toEqual(['Person:2']);
+    expect(resumed.batches!.failed).toEqual([]);
+    expect(stagedLoads(driver).slice(loadsBefore).map(load => load.ids)).toEqual([['p5'], ['p1-p2', 'p2-p3']]);
+    expect(ledger.get('load-1:vertex:Person:2')).toMatchObject({ status: 'committed', attempts: 3, error: null });
+    expect(ledger.get('load-1:edge:KNOWS:0')).toMatchObject({ status: 'committed', graph_name: 'social', item_count: 2 });
+  });
+
+  it('should leave out items whose identity key is already in the graph', async () => {
+    driver.respond(
+      statement => statement.text.includes('UNWIND $keys AS candidate') && statement.values![0].includes('"p2"'),
+      { rows: [{ key: '["p2"]' }] }
+    );
+
+    const result = await schemaLoader.loadGraphData(
+      { vertices: { Person: people('p1', 'p2'), Tag: [{ name: 'a' }] }, edges: {} },
+      { checkpointed: true, loadId: 'load-2' }
+    );
+
+    expect(result).toMatchObject({ success: true, vertexCount: 2 });
+    expect(stagedLoads(driver).map(load => load.ids)).toEqual([['p1'], ['a']]);
+    // Only labels with keys are looked up, with the keys passed as a parameter
+    const lookups = driver.getStatements('query').filter(statement => statement.text.includes('RETURN DISTINCT'));
+    expect(lookups.every(lookup => lookup.text.replace(/\s+/g, ' ').includes('MATCH (x:Person) WHERE x.id = candidate[0]')))
+      .toBe(true);
+    expect(lookups[0].values).toEqual([JSON.stringify({ keys: [['p1'], ['p2']] })]);
+  });
+
+  it('should refuse to resume unknown loads and loads whose committed batches changed', async () => {
+    const unknown = await schemaLoader.resumeLoad('missing', data);
+    expect(unknown.success).toBe(false);
+    expect(unknown.errors?.[0].message).toBe("Load 'missing' has no checkpoints");
+
+    await schemaLoader.loadGraphData(data, { checkpointed: true, loadId: 'load-3', batchSize: 2 });
+    const changed = await schemaLoader.resumeLoad(
+      'load-3',
+      { vertices: { Person: people('p1', 'p9', 'p3', 'p4', 'p5') }, edges: {} },
+      { batchSize: 2 }
+    );
+    expect(changed.success).toBe(false);
+    expect(batches(changed.batches!.failed)).toEqual(['Person:0']);
+    expect(changed.errors?.[0].message).toBe("Batch 0 of vertex label 'Person' differs from the batch load 'load-3' committed");
+
+    const otherGraph = await schemaLoader.resumeLoad('load-3', data, { graphName: 'other' });
+    expect(otherGraph.errors?.[0].message).toBe("Load 'load-3' loads into graph 'social', not 'other'");
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for SchemaLoader edge endpoints resolved by key properties
+ *
+ * These tests verify that edges store the key values of their endpoints,
+ * that unresolved keys are reported per edge, and that endpoint keys must
+ * name properties of the endpoint vertex labels.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SchemaLoader } from '../../../src/loader/schema-loader';
+import { createBatchLoader } from '../../../src/loader/batch-loader-impl';
+import { SchemaDefinition } from '../../../src/schema/types';
+import { QueryExecutor } from '../../../src/db/query';
+
+describe('SchemaLoader endpoint keys', () => {
+  let schemaLoader: SchemaLoader<SchemaDefinition>;
+  let queryExecutor: QueryExecutor;
+  let transaction: any;
+
+  const schema: SchemaDefinition = {
+    version: '1.0.0',
+    vertices: {
+      Person: { properties: { email: { type: 'string' }, name: { type: 'string' } } },
+      Company: { properties: { country: { type: 'string' }, registrationNo: { type: 'string' } } },
+    },
+    edges: {
+      WORKS_AT: { properties: { since: { type: 'integer' } }, fromVertex: 'Person', toVertex: 'Company' },
+    },
+  } as unknown as SchemaDefinition;
+
+  const endpointKeys = { WORKS_AT: { from: ['email'], to: ['country', 'registrationNo'] } };
+
+  const inserts = () => vi.mocked(queryExecutor.executeSQL).mock.calls
+    .filter(([text]) => text.includes('INSERT INTO temp_edges_'))
+    .map(([, params]) => params);
+
+  beforeEach(() => {
+    transaction = {
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+    };
+
+    queryExecutor = {
+      beginTransaction: vi.fn().mockResolvedValue(transaction),
+      executeSQL: vi.fn().mockResolvedValue({ rows: [] }),
+      executeCypher: vi.fn().mockResolvedValue({ rows: [] }),
+    } as unknown as QueryExecutor;
+
+    schemaLoader = new SchemaLoader(schema, queryExecutor, {
+      defaultGraphName: 'jobs',
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    });
+  });
+
+  it('should store the key values of endpoints and report unresolved keys per edge', async () => {
+    vi.mocked(queryExecutor.executeSQL).mockImplementation(async (text: string) => {
+      if (text.includes('edge_endpoints AS')) {
+        return {
+          rows: [{
+            edge_type: 'WORKS_AT',
+            from_id: '["bob@example.com"]',
+            to_id: '["DE","HRB 2"]',
+            from_key: ['bob@example.com'],
+            to_key: ['DE', 'HRB 2'],
+            from_exists: true,
+            to_exists: false,
+          }],
+        } as any;
+      }
+      return { rows: [] } as any;
+    });
+
+    const result = await schemaLoader.loadEdges({
+      WORKS_AT: [
+        { from: 'ann@example.com', to: { country: 'DE', registrationNo: 'HRB 1' }, since: 2020 },
+        { from: { email: 'bob@example.com' }, to: { country: 'DE', registrationNo: 'HRB 2' } },
+      ],
+    }, { endpointKeys });
+
+    expect(inserts()).toEqual([
+      ['WORKS_AT', '["ann@example.com"]', '["DE","HRB 1"]', '["ann@example.com"]', '["DE","HRB 1"]', '{"since":2020}'],
+      ['WORKS_AT', '["bob@example.com"]', '["DE","HRB 2"]', '["bob@example.com"]', '["DE","HRB 2"]', '{}'],
+    ]);
+
+    const validation = vi.mocked(queryExecutor.executeSQL).mock.calls.find(([text]) => text.includes('edge_endpoints AS'))!;
+    expect(validation[0]).toContain('RETURN [v.country, v.registrationNo]');
+
+    expect(result.success).toBe(false);
+    expect(result.warnings).toEqual([
+      'Edge endpoint validation failed: WORKS_AT from (email="bob@example.com") (exists: true), ' +
+      'to (country="DE", registrationNo="HRB 2") (exists: false)',
+    ]);
+    expect(transaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should create the edges of each label matching their endpoints on the keys', async () => {
+    vi.mocked(queryExecutor.executeSQL).mockImplementation(async (text: string) => {
+      if (text.includes('AS edges')) {
+        return { rows: [{ edges: [{ from: ['ann@example.com'], to: ['DE', 'HRB 1'], since: 2020 }] }] } as any;
+      }
+      return { rows: [] } as any;
+    });
+
+    const result = await schemaLoader.loadEdges({
+      WORKS_AT: [{ from: 'ann@example.com', to: { country: 'DE', registrationNo: 'HRB 1' }, since: 2020 }],
+    }, { endpointKeys });
+
+    expect(result.success).toBe(true);
+    const texts = vi.mocked(queryExecutor.executeSQL).mock.calls.map(([text]) => text);
+    expect(texts.find(text => text.includes('AS edges'))).toContain('WHERE edge_type = $1');
+    const create = texts.find(text => text.includes('created_edges'))!;
+    expect(create).toMatch(/UNWIND public\.get_edges_[0-9a-f]{32}\(\) AS edge_data/);
+    expect(create).toContain('MATCH (from:Person {email: edge_data.from[0]})');
+    expect(create).toContain('MATCH (to:Company {country: edge_data.to[0], registrationNo: edge_data.to[1]})');
+    expect(create).toContain('CREATE (from)-[:WORKS_AT {');
+    expect(transaction.commit).toHaveBeenCalled();
+  });
+
+  it('should store keyed endpoints as key values when the batch loader creates edges', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const batchLoader = createBatchLoader(schema, queryExecutor, { validateBeforeLoad: false });
+
+    await batchLoader.loadGraphData({
+      vertices: {},
+      edges: { WORKS_AT: [{ from: 'ann@example.com', to: { country: 'DE', registrationNo: 'HRB 1' }, since: 2020 }] },
+    }, { graphName: 'jobs', endpointKeys });
+
+    const calls = vi.mocked(queryExecutor.executeSQL).mock.calls;
+    const stored = calls.find(([text, params]) => text.includes('age_params') && params?.[0] === 'edge_WORKS_AT')!;
+    expect(JSON.parse(stored[1]![1])).toEqual([{ from: ['ann@example.com'], to: ['DE', 'HRB 1'], since: 2020 }]);
+    const create = calls.map(([text]) => text).find(text => text.includes('created_edges'))!;
+    expect(create).toContain('MATCH (from:Person {email: edge_data.from[0]})');
+    expect(create).toContain('MATCH (to:Company {country: edge_data.to[0], registrationNo: edge_data.to[1]})');
+    vi.restoreAllMocks();
+  });
+
+  it('should refuse endpoint keys that are not declared on the endpoint label', async () => {
+    const result = await schemaLoader.loadEdges(
+      { WORKS_AT: [{ from: 'ann@example.com', to: 'c1' }] },
+      { endpointKeys: { WORKS_AT: { from: ['phone'] } } }
+    );
+
+    expect(result.errors?.[0].message).toBe(
+      "Property 'phone' used to resolve the 'from' endpoint of 'WORKS_AT' is not declared on vertex label 'Person'"
+    );
+    expect(inserts()).toEqual([]);
+  });
+
+  it('should fail edges missing a key value of an endpoint', async () => {
+    const result = await schemaLoader.loadEdges(
+      { WORKS_AT: [{ from: 'ann@example.com', to: { country: 'DE' } }] },
+      { endpointKeys }
+    );
+
+    expect(result.errors?.[0].message).toBe("Edge in 'WORKS_AT' is missing key property 'registrationNo' of its 'to' endpoint");
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Test fixtures for SchemaLoader unit tests
+ *
+ * This module provides a schema, a fake database recording the SQL the
+ * loader sends, and helpers reading the loaded records back from that SQL.
+ */
+
+import { vi } from 'vitest';
+import { FakeDriver, FakeStatement } from '../../../src/db/fake-driver';
+import { QueryExecutor } from '../../../src/db/query';
+import { Connection, ConnectionSource } from '../../../src/db/types';
+import { EdgeLabel, PropertyDefinition, PropertyType, SchemaDefinition } from '../../../src/schema/types';
+
+/**
+ * Create an edge label
+ *
+ * @param label - Edge label
+ * @param fromLabel - Source vertex label
+ * @param toLabel - Target vertex label
+ * @param properties - Edge properties
+ * @returns Edge label
+ */
+function edgeLabel(
+  label: string,
+  fromLabel: string,
+  toLabel: string,
+  properties: Record<string, PropertyDefinition> = {}
+): EdgeLabel {
+  return {
+    label,
+    properties,
+    from: fromLabel,
+    to: toLabel,
+    fromLabel,
+    toLabel,
+    fromVertex: fromLabel,
+    toVertex: toLabel,
+  };
+}
+
+/**
+ * Sample schema for testing: people are identified by their id, companies
+ * and tags have no identity key
+ */
+export const loaderSchema: SchemaDefinition = {
+  version: '1.0.0',
+  vertices: {
+    Person: { properties: { id: { type: PropertyType.STRING }, age: { type: PropertyType.INTEGER } }, required: ['id'], keys: ['id'] },
+    Company: { properties: { id: { type: PropertyType.STRING } } },
+    Tag: { properties: { name: { type: PropertyType.STRING } } },
+  },
+  edges: {
+    KNOWS: edgeLabel('KNOWS', 'Person', 'Person', { since: { type: PropertyType.INTEGER } }),
+    WORKS_AT: edgeLabel('WORKS_AT', 'Person', 'Company'),
+  },
+};
+
+/**
+ * Load of one label stored in a temporary table
+ */
+export interface StagedLoad {
+  /**
+   * Vertex or edge label
+   */
+  label: string;
+
+  /**
+   * Ids of the stored vertices, or `from-to` of the stored edges
+   */
+  ids: string[];
+
+  /**
+   * Number of the connection the load ran on
+   */
+  clientId: number;
+}
+
+/**
+ * Fake database for loader tests
+ */
+export interface LoaderDatabase {
+  /**
+   * Fake driver receiving the statements
+   */
+  driver: FakeDriver;
+
+  /**
+   * Query executor on the first connection of the driver
+   */
+  queryExecutor: QueryExecutor;
+
+  /**
+   * Source of worker connections on the driver
+   */
+  connections: ConnectionSource;
+}
+
+/**
+ * Silent query logger
+ */
+const quietLogger = { logQuery: () => {}, logError: () => {}, debug: () => {} };
+
+/**
+ * Get the temporary table a statement reads or writes
+ *
+ * @param statement - Statement
+ * @returns Table name, if the statement uses a loader temporary table
+ */
+function tempTable(statement: FakeStatement): string | undefined {
+  return /\btemp_(?:vertices|edges)_\d+\b/.exec(statement.text)?.[0];
+}
+
+/**
+ * Get the id of a vertex or edge stored by an insert into a temporary table
+ *
+ * @param statement - Insert statement
+ * @returns Vertex id or `from-to` of the edge
+ */
+function stagedId(statement: FakeStatement): string {
+  const values = statement.values!;
+  if (statement.text.includes('(vertex_label, properties)')) {
+    const properties = JSON.parse(values[1]);
+    return properties.id ?? properties.name;
+  }
+  return `${values[1]}-${values[2]}`;
+}
+
+/**
+ * Create a fake database answering the loader's temporary tables
+ *
+ * The rows inserted into a temporary table are returned when the loader
+ * reads the vertices or edges of a label back, so that the loader goes on
+ * to create them in the graph.
+ *
+ * @returns Fake database
+ */
+export async function createLoaderDatabase(): Promise<LoaderDatabase> {
+  const driver = new FakeDriver();
+  driver.respond('SHOW search_path', { rows: [{ search_path: 'ag_catalog, "$user", public' }] });
+
+  const stagedRows = (statement: FakeStatement) => driver.getStatements('query').filter(stored =>
+    stored.clientId === statement.clientId &&
+    tempTable(stored) === tempTable(statement) &&
+    /^\s*INSERT INTO/.test(stored.text) &&
+    stored.values?.[0] === statement.values?.[0]
+  );
+
+  driver.respond(/AS vertices\s+FROM temp_vertices_/, statement => {
+    const rows = stagedRows(statement);
+    return { rows: [{ vertices: rows.length > 0 ? rows.map(row => JSON.parse(row.values![1])) : null }] };
+  });
+  driver.respond(/AS edges\s+FROM temp_edges_/, statement => {
+    const rows = stagedRows(statement);
+    return {
+      rows: [{
+        edges: rows.length > 0
+          ? rows.map(row => ({ ...JSON.parse(row.values![5]), from: row.values![3] ?? row.values![1], to: row.values![4] ?? row.values![2] }))
+          : null,
+      }],
+    };
+  });
+
+  const queryExecutor = new QueryExecutor(await driver.connect() as Connection, quietLogger);
+  const connections: ConnectionSource = {
+    getConnection: vi.fn().mockImplementation(async () => driver.connect()),
+    releaseConnection: vi.fn().mockImplementation(async (connection: Connection) => connection.release()),
+  };
+
+  return { driver, queryExecutor, connections };
+}
+
+/**
+ * Keep the checkpoints a load records in the default checkpoints table
+ *
+ * The recorded rows are returned when the loader reads the checkpoints of
+ * a load back.
+ *
+ * @param driver - Fake driver
+ * @returns Checkpoint rows by `loadId:kind:label:batch`
+ */
+export function recordCheckpoints(driver: FakeDriver): Map<string, any> {
+  const ledger = new Map<string, any>();
+
+  driver.respond('SELECT graph_name, kind, label, batch, checksum, status', statement => ({
+    rows: [...ledger.values()].filter(row => row.load_id === statement.values![0]),
+  }));
+  driver.respond('INSERT INTO "public"."age_schema_load_checkpoints"', statement => {
+    const [load_id, graph_name, kind, label, batch, item_count, checksum, status, attempts, error] = statement.values!;
+    const key = `${load_id}:${kind}:${label}:${batch}`;
+    ledger.set(key, {
+      load_id, graph_name, kind, label, batch, item_count, checksum, status, error,
+      attempts: (ledger.get(key)?.attempts ?? 0) + attempts,
+    });
+    return { rows: [] };
+  });
+
+  return ledger;
+}
+
+/**
+ * List the loads stored in temporary tables, in the order they started
+ *
+ * Each temporary table created starts a load; the records inserted into it
+ * are listed with the load, including a record whose insert failed.
+ *
+ * @param driver - Fake driver
+ * @returns Loads
+ */
+export function stagedLoads(driver: FakeDriver): StagedLoad[] {
+  const loads: StagedLoad[] = [];
+  const current = new Map<string, StagedLoad>();
+
+  for (const statement of driver.getStatements('query')) {
+    const table = tempTable(statement);
+    if (!table) {
+      continue;
+    }
+
+    const key = `${statement.clientId}:${table}`;
+    if (/^\s*CREATE TEMPORARY TABLE/.test(statement.text)) {
+      current.delete(key);
+    } else if (/^\s*INSERT INTO/.test(statement.text)) {
+      let load = current.get(key);
+      if (!load) {
+        load = { label: statement.values![0], ids: [], clientId: statement.clientId };
+        current.set(key, load);
+        loads.push(load);
+      }
+      load.ids.push(stagedId(statement));
+    }
+  }
+
+  return loads;
+}
+
+/**
+ * Check whether a statement stores the record with an id in a temporary table
+ *
+ * @param id - Vertex id, or id of an edge endpoint
+ * @returns Statement predicate
+ */
+export function storing(id: string): (statement: FakeStatement) => boolean {
+  return statement =>
+    /^\s*INSERT INTO temp_/.test(statement.text) && stagedId(statement).split('-').includes(id);
+}
+
+/**
+ * List the transaction control statements sent, without savepoints
+ *
+ * @param driver - Fake driver
+ * @param clientId - Number of the connection; all connections by default
+ * @returns BEGIN, COMMIT and ROLLBACK statements in order
+ */
+export function transactionStatements(driver: FakeDriver, clientId?: number): string[] {
+  return driver.getStatements('query')
+    .filter(statement => clientId === undefined || statement.clientId === clientId)
+    .map(statement => statement.text.trim())
+    .filter(text => /^(BEGIN|COMMIT|ROLLBACK)\b/.test(text) && !text.startsWith('ROLLBACK TO'));
+}
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for SchemaLoader instrumentation
+ *
+ * These tests verify that the SchemaLoader reports a span for each load and
+ * for its validation, storing and creation phases.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SchemaLoader } from '../../../src/loader/schema-loader';
+import { SchemaDefinition } from '../../../src/schema/types';
+import { QueryExecutor } from '../../../src/db/query';
+import { InMemoryInstrumentation, SpanAttribute, SpanName } from '../../../src/db/instrumentation';
+
+describe('SchemaLoader instrumentation', () => {
+  let queryExecutor: QueryExecutor;
+  let instrumentation: InMemoryInstrumentation;
+  let schemaLoader: SchemaLoader<SchemaDefinition>;
+
+  const schema: SchemaDefinition = {
+    version: '1.0.0',
+    vertices: {
+      Person: {
+        properties: { name: { type: 'string' } },
+        required: ['name'],
+      },
+      Company: {
+        properties: { name: { type: 'string' } },
+      },
+    },
+    edges: {},
+  } as SchemaDefinition;
+
+  beforeEach(() => {
+    queryExecutor = {
+      beginTransaction: vi.fn().mockResolvedValue({
+        commit: vi.fn().mockResolvedValue(undefined),
+        rollback: vi.fn().mockResolvedValue(undefined),
+      }),
+      executeSQL: vi.fn().mockResolvedValue({ rows: [] }),
+      executeCypher: vi.fn().mockResolvedValue({ rows: [] }),
+    } as unknown as QueryExecutor;
+    instrumentation = new InMemoryInstrumentation();
+
+    schemaLoader = new SchemaLoader(schema, queryExecutor, {
+      defaultGraphName: 'social',
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      instrumentation,
+    });
+  });
+
+  it('should record the load and each of its phases', async () => {
+    await schemaLoader.loadVertices({
+      Person: [{ name: 'Ann' }, { name: 'Bob' }],
+      Company: [{ name: 'Acme' }],
+    });
+
+    expect(instrumentation.getFinishedSpans().map(span => span.name)).toEqual([
+      SpanName.LOAD_VALIDATE,
+      SpanName.LOAD_STORE,
+      SpanName.LOAD_STORE,
+      SpanName.LOAD_CREATE,
+      SpanName.LOAD_VERTICES,
+    ]);
+
+    const stores = instrumentation.getFinishedSpans(SpanName.LOAD_STORE);
+    expect(stores.map(span => span.attributes)).toEqual([
+      { [SpanAttribute.GRAPH]: 'social', [SpanAttribute.LABEL]: 'Person', [SpanAttribute.ROW_COUNT]: 2 },
+      { [SpanAttribute.GRAPH]: 'social', [SpanAttribute.LABEL]: 'Company', [SpanAttribute.ROW_COUNT]: 1 },
+    ]);
+
+    const [create] = instrumentation.getFinishedSpans(SpanName.LOAD_CREATE);
+    expect(create.attributes[SpanAttribute.ROW_COUNT]).toBe(3);
+
+    const [load] = instrumentation.getFinishedSpans(SpanName.LOAD_VERTICES);
+    expect(load.attributes[SpanAttribute.GRAPH]).toBe('social');
+  });
+
+  it('should record the error of a failed load', async () => {
+    const result = await schemaLoader.loadGraphData(
+      { vertices: { Person: [{}] }, edges: {} },
+      { graphName: 'other' }
+    );
+
+    expect(result.success).toBe(false);
+    const [validate] = instrumentation.getFinishedSpans(SpanName.LOAD_VALIDATE);
+    expect(validate.error).toBeDefined();
+
+    const [graphLoad] = instrumentation.getFinishedSpans(SpanName.LOAD_GRAPH);
+    expect(graphLoad.attributes[SpanAttribute.GRAPH]).toBe('other');
+    expect(graphLoad.error).toBe(result.errors?.[0]);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Unit tests for SchemaLoader parallel loading
+ *
+ * These tests verify that labels are spread over worker connections, that
+ * edge labels wait for the vertex labels they connect, and that the 'all'
+ * and 'label' commit modes publish or keep the loaded labels.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GraphData, ProgressInfo, SchemaLoader } from '../../../src/loader/schema-loader';
+import { QueryExecutor } from '../../../src/db/query';
+import { FakeDriver } from '../../../src/db/fake-driver';
+import { ConnectionSource } from '../../../src/db/types';
+import { createLoaderDatabase, loaderSchema, stagedLoads, storing, transactionStatements } from './schema-loader-fixtures';
+
+describe('SchemaLoader parallel loading', () => {
+  let driver: FakeDriver;
+  let queryExecutor: QueryExecutor;
+  let connections: ConnectionSource;
+  let gates: Record<string, { promise: Promise<void>; resolve: () => void }>;
+
+  const data: GraphData = {
+    vertices: {
+      Person: [{ id: 'p1' }, { id: 'p2' }],
+      Company: [{ id: 'c1' }],
+    },
+    edges: {
+      KNOWS: [{ from: 'p1', to: 'p2' }],
+      WORKS_AT: [{ from: 'p1', to: 'c1' }, { from: 'p2', to: 'c1' }],
+    },
+  };
+
+  // Hold the creation of a label in the graph until the gate is opened
+  const gate = (label: string) => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(done => { resolve = done; });
+    gates[label] = { promise, resolve };
+    driver.respond(
+      statement => statement.text.includes(`CREATE (v:${label} {`) || statement.text.includes(`-[:${label} {`),
+      async () => {
+        await promise;
+        return { rows: [] };
+      }
+    );
+  };
+
+  const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+  const started = () => stagedLoads(driver).map(load => load.label);
+  const statements = () => driver.getQueries().map(text => text.replace(/\s+/g, ' ').trim());
+  const mainStatements = () => driver.getStatements('query').filter(statement => statement.clientId === 1);
+
+  const createLoader = (maxParallelBatches = 2) => new SchemaLoader(loaderSchema, queryExecutor, {
+    defaultGraphName: 'social',
+    parallelInserts: true,
+    maxParallelBatches,
+    connections,
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  });
+
+  beforeEach(async () => {
+    gates = {};
+    const database = await createLoaderDatabase();
+    driver = database.driver;
+    connections = database.connections;
+    queryExecutor = database.queryExecutor;
+
+    let labelQueries = 0;
+    driver.respond(
+      statement => statement.clientId === 1 && statement.text.includes('FROM ag_catalog.ag_label'),
+      () => {
+        labelQueries++;
+        return {
+          rows: [
+            { name: 'Person', id: 3, kind: 'v', seq_name: 'Person_id_seq' },
+            ...(labelQueries > 1 ? [
+              { name: 'Company', id: 4, kind: 'v', seq_name: 'Company_id_seq' },
+              { name: 'KNOWS', id: 5, kind: 'e', seq_name: 'KNOWS_id_seq' },
+              { name: 'WORKS_AT', id: 6, kind: 'e', seq_name: 'WORKS_AT_id_seq' },
+            ] : []),
+          ],
+        };
+      }
+    );
+  });
+
+  it('should start each edge label once the vertex labels it connects have loaded', async () => {
+    ['Person', 'Company', 'KNOWS', 'WORKS_AT'].forEach(gate);
+    const progress: ProgressInfo[] = [];
+
+    const loading = createLoader().loadGraphData(data, { commitMode: 'label', onProgress: update => progress.push(update) });
+
+    await settle();
+    expect(started().sort()).toEqual(['Company', 'Person']);
+
+    gates.Person.resolve();
+    await settle();
+    // KNOWS only needs Person; WORKS_AT waits for Company
+    expect(started().slice(2)).toEqual(['KNOWS']);
+
+    gates.Company.resolve();
+    await settle();
+    expect(started().slice(2)).toEqual(['KNOWS', 'WORKS_AT']);
+
+    gates.KNOWS.resolve();
+    await settle();
+    gates.WORKS_AT.resolve();
+    const result = await loading;
+
+    expect(result).toMatchObject({ success: true, vertexCount: 3, edgeCount: 3 });
+    expect(result.vertexTypes.sort()).toEqual(['Company', 'Person']);
+    expect(connections.getConnection).toHaveBeenCalledTimes(2);
+    expect(connections.releaseConnection).toHaveBeenCalledTimes(2);
+    // Each label is loaded on a worker connection, in a transaction of its own, into the graph
+    const workers = Object.fromEntries(stagedLoads(driver).map(load => [load.label, load.clientId]));
+    expect(workers).toEqual({ Person: workers.KNOWS, Company: workers.WORKS_AT, KNOWS: workers.KNOWS, WORKS_AT: workers.WORKS_AT });
+    expect([workers.KNOWS, workers.WORKS_AT].sort()).toEqual([2, 3]);
+    expect(mainStatements()).toEqual([]);
+    expect(transactionStatements(driver, 2)).toEqual(['BEGIN', 'COMMIT', 'BEGIN', 'COMMIT']);
+    expect(transactionStatements(driver, 3)).toEqual(['BEGIN', 'COMMIT', 'BEGIN', 'COMMIT']);
+    const creates = statements().filter(text => text.includes('created_vertices') || text.includes('created_edges'));
+    expect(creates).toHaveLength(4);
+    expect(creates.every(text => text.startsWith("SELECT * FROM cypher('social', $$"))).toBe(true);
+    expect(progress.filter(update => update.phase === 'creating').map(update => [update.currentType, update.worker])).toEqual([
+      ['Person', 0], ['Company', 1], ['KNOWS', 0], ['WORKS_AT', 1],
+    ]);
+  });
+
+  it('should keep the labels loaded before a failure when committing each label', async () => {
+    driver.respond(storing('c1'), new Error('disk full'));
+
+    const result = await createLoader().loadGraphData(data, { commitMode: 'label' });
+
+    expect(result.success).toBe(false);
+    expect(result).toMatchObject({ vertexCount: 2, edgeCount: 1, vertexTypes: ['Person'], edgeTypes: ['KNOWS'] });
+    expect(started()).not.toContain('WORKS_AT');
+    expect(result.errors?.map(error => error.message)).toEqual([
+      expect.stringMatching(/^disk full/),
+      "Edge label 'WORKS_AT' was not loaded because vertex label 'Company' failed to load",
+    ]);
+  });
+
+  it('should load into a staging graph and publish it in one transaction', async () => {
+    const result = await createLoader(4).loadGraphData(data);
+
+    expect(result).toMatchObject({ success: true, vertexCount: 3, edgeCount: 3 });
+    expect(connections.getConnection).toHaveBeenCalledTimes(4);
+
+    const [create] = mainStatements();
+    const stagingGraph = create.values![0];
+    expect(create.text).toBe('SELECT ag_catalog.create_graph($1)');
+    expect(stagingGraph).toMatch(/^social_staging_\d+$/);
+    const creates = statements().filter(text => text.includes('created_vertices') || text.includes('created_edges'));
+    expect(creates).toHaveLength(4);
+    expect(creates.every(text => text.startsWith(`SELECT * FROM cypher('${stagingGraph}', $$`))).toBe(true);
+    // Each label reads its data through a function of its own, dropped after the create
+    const functions = creates.map(text => /UNWIND (public\.get_(?:vertices|edges)_[0-9a-f]{32})\(\) AS (?:vertex|edge)_data/.exec(text)?.[1]);
+    expect(new Set(functions).size).toBe(4);
+    functions.forEach(name => expect(statements()).toContain(`DROP FUNCTION IF EXISTS ${name}()`));
+
+    const published = mainStatements().map(statement => statement.text.replace(/\s+/g, ' ').trim());
+    expect(published.filter(text => text.startsWith('SELECT ag_catalog.create_'))).toEqual([
+      'SELECT ag_catalog.create_graph($1)',
+      'SELECT ag_catalog.create_vlabel($1, $2)',
+      'SELECT ag_catalog.create_elabel($1, $2)',
+      'SELECT ag_catalog.create_elabel($1, $2)',
+    ]);
+    expect(published).toContain(
+      `INSERT INTO "social"."Company" (id, properties) SELECT m.new_id, v.properties FROM ONLY "${stagingGraph}"."Company" v ` +
+      'JOIN age_staged_ids m ON m.old_id = v.id'
+    );
+    expect(published).toContain(
+      'INSERT INTO "social"."WORKS_AT" (id, start_id, end_id, properties) ' +
+      'SELECT ag_catalog._graphid($1, nextval($2::regclass)), s.new_id, t.new_id, e.properties ' +
+      `FROM ONLY "${stagingGraph}"."WORKS_AT" e JOIN age_staged_ids s ON s.old_id = e.start_id ` +
+      'JOIN age_staged_ids t ON t.old_id = e.end_id'
+    );
+    const insert = mainStatements().find(statement => statement.text.includes('"social"."WORKS_AT"'))!;
+    expect(insert.values).toEqual([6, '"social"."WORKS_AT_id_seq"']);
+    // The publishing statements run between one BEGIN and COMMIT
+    expect(published.indexOf('BEGIN')).toBeLessThan(published.indexOf(published.find(text => text.includes('"social"."Company"'))!));
+    expect(published.filter(text => text === 'COMMIT')).toHaveLength(1);
+    expect(published.indexOf('COMMIT')).toBeGreaterThan(published.indexOf(published.find(text => text.includes('"social"."WORKS_AT"'))!));
+    expect(published[published.length - 1]).toBe('SELECT ag_catalog.drop_graph($1, true)');
+  });
+
+  it('should leave the graph unchanged when a label fails to load into the staging graph', async () => {
+    driver.respond(storing('p2'), new Error('disk full'));
+
+    const result = await createLoader(1).loadGraphData(data);
+
+    expect(result).toMatchObject({ success: false, vertexCount: 0, edgeCount: 0, vertexTypes: [], edgeTypes: [] });
+    expect(result.errors?.[0].message).toMatch(/^disk full/);
+    // Nothing more is started once a label has failed
+    expect(started()).toEqual(['Person']);
+    const published = mainStatements().map(statement => statement.text.trim());
+    expect(published).not.toContain('BEGIN');
+    expect(published.some(text => text.startsWith('INSERT INTO'))).toBe(false);
+    expect(published[published.length - 1]).toBe('SELECT ag_catalog.drop_graph($1, true)');
+    expect(connections.releaseConnection).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for SchemaLoader streaming ingestion
+ *
+ * These tests verify that streamed sources are loaded in bounded batches
+ * through loadVertices and loadEdges in a single transaction.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GraphData, ProgressInfo, SchemaLoader } from '../../../src/loader/schema-loader';
+import { SchemaDefinition } from '../../../src/schema/types';
+import { QueryExecutor } from '../../../src/db/query';
+
+describe('SchemaLoader streaming', () => {
+  let schemaLoader: SchemaLoader<SchemaDefinition>;
+  let queryExecutor: QueryExecutor;
+  let transaction: any;
+  let directory: string;
+
+  const schema: SchemaDefinition = {
+    version: '1.0.0',
+    vertices: {
+      Person: {
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          age: { type: 'integer' },
+          active: { type: 'boolean' },
+        },
+        required: ['id'],
+      },
+    },
+    edges: {
+      KNOWS: {
+        properties: {
+          since: { type: 'integer' },
+        },
+        fromVertex: 'Person',
+        toVertex: 'Person',
+      },
+    },
+  } as SchemaDefinition;
+
+  const count = (data: Record<string, any[]>) => Object.values(data).reduce((sum, list) => sum + list.length, 0);
+
+  const batchSizes = (spy: ReturnType<typeof vi.spyOn>) => spy.mock.calls.map(([data]) => count(data as Record<string, any[]>));
+
+  // Stand in for the temporary table pipeline, which has its own tests
+  const stubLoads = () => ({
+    loadVertices: vi.spyOn(schemaLoader, 'loadVertices').mockImplementation(async vertices => ({
+      success: true,
+      vertexCount: count(vertices),
+      edgeCount: 0,
+      vertexTypes: Object.keys(vertices),
+      edgeTypes: [],
+      duration: 0,
+    })),
+    loadEdges: vi.spyOn(schemaLoader, 'loadEdges').mockImplementation(async edges => ({
+      success: true,
+      vertexCount: 0,
+      edgeCount: count(edges),
+      vertexTypes: [],
+      edgeTypes: Object.keys(edges),
+      duration: 0,
+    })),
+  });
+
+  beforeEach(() => {
+    transaction = {
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+    };
+
+    queryExecutor = {
+      beginTransaction: vi.fn().mockResolvedValue(transaction),
+      executeSQL: vi.fn().mockResolvedValue({ rows: [] }),
+      executeCypher: vi.fn().mockResolvedValue({ rows: [] }),
+    } as unknown as QueryExecutor;
+
+    schemaLoader = new SchemaLoader(schema, queryExecutor, {
+      defaultGraphName: 'social',
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    });
+
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'schema-loader-streaming-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load graph data chunks in batches, vertices before edges', async () => {
+    const { loadVertices, loadEdges } = stubLoads();
+    const pulled: number[] = [];
+    let yielded = 0;
+
+    async function* chunks(): AsyncGenerator<GraphData> {
+      for (let i = 1; i <= 5; i++) {
+        yielded++;
+        yield {
+          vertices: { Person: [{ id: String(i) }] },
+          edges: i > 1 ? { KNOWS: [{ from: String(i - 1), to: String(i) }] } : {},
+        };
+      }
+    }
+    const loadVertexBatch = loadVertices.getMockImplementation()!;
+    loadVertices.mockImplementation(async (vertices, options) => {
+      pulled.push(yielded);
+      return loadVertexBatch(vertices, options);
+    });
+
+    const progress: ProgressInfo[] = [];
+    const result = await schemaLoader.loadFromStream(chunks(), { batchSize: 2, onProgress: update => progress.push(update) });
+
+    expect(result).toMatchObject({ success: true, vertexCount: 5, edgeCount: 4, vertexTypes: ['Person'], edgeTypes: ['KNOWS'] });
+    expect(batchSizes(loadVertices)).toEqual([2, 1, 2]);
+    expect(batchSizes(loadEdges)).toEqual([2, 2]);
+    // Batches are loaded as the stream is read rather than after it ends
+    expect(pulled).toEqual([2, 3, 5]);
+    // Vertices buffered before a batch of edges are loaded first
+    expect(loadVertices.mock.invocationCallOrder[1]).toBeLessThan(loadEdges.mock.invocationCallOrder[0]);
+    expect(loadVertices.mock.calls[0][1]).toMatchObject({ transaction, graphName: 'social', batchSize: 2 });
+    expect(queryExecutor.beginTransaction).toHaveBeenCalledTimes(1);
+    expect(transaction.commit).toHaveBeenCalledTimes(1);
+    expect(progress.map(update => [update.current, update.total, update.percentage])).toEqual([
+      [2, 0, 0], [3, 0, 0], [5, 0, 0], [7, 0, 0], [9, 0, 0],
+    ]);
+  });
+
+  it('should stop reading and roll back when a batch fails', async () => {
+    let closed = false;
+    async function* chunks(): AsyncGenerator<GraphData> {
+      try {
+        for (let i = 0; ; i++) {
+          yield { vertices: { Person: [{ id: String(i) }] }, edges: {} };
+        }
+      } finally {
+        closed = true;
+      }
+    }
+    vi.mocked(queryExecutor.executeSQL).mockImplementation(async (sql: string) => {
+      if (sql.includes('CREATE TEMPORARY TABLE')) {
+        throw new Error('disk full');
+      }
+      return { rows: [] } as any;
+    });
+
+    const result = await schemaLoader.loadFromStream(chunks(), { batchSize: 3 });
+
+    expect(result.success).toBe(false);
+    expect(result.vertexCount).toBe(0);
+    expect(result.errors?.[0].message).toBe('disk full');
+    expect(closed).toBe(true);
+    expect(transaction.rollback).toHaveBeenCalled();
+    expect(transaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('should stream NDJSON files', async () => {
+    const filePath = path.join(directory, 'graph.ndjson');
+    fs.writeFileSync(filePath, [
+      '{"type":"vertex","label":"Person","data":{"id":"1"}}',
+      '{"type":"vertex","label":"Person","data":{"id":"2"}}',
+      '{"type":"edge","label":"KNOWS","data":{"from":"1","to":"2","since":2020}}',
+    ].join('\n'));
+    const progress: ProgressInfo[] = [];
+    stubLoads();
+
+    const result = await schemaLoader.loadFromFile(filePath, { onProgress: update => progress.push(update) });
+
+    expect(result).toMatchObject({ success: true, vertexCount: 2, edgeCount: 1 });
+    expect(progress[progress.length - 1]).toMatchObject({ current: 3, total: 3, percentage: 100 });
+
+    const invalid = path.join(directory, 'invalid.jsonl');
+    fs.writeFileSync(invalid, '{"type":"vertex","label":"Person","data":{"id":"1"}}\nnot json\n');
+    const failed = await schemaLoader.loadFromFile(invalid);
+    expect(failed.success).toBe(false);
+    expect(failed.errors?.[0].message).toMatch(/^Invalid JSON on line 2/);
+  });
+
+  it('should load CSV files per label with typed values, vertex files first', async () => {
+    const people = path.join(directory, 'people.csv');
+    const knows = path.join(directory, 'knows.csv');
+    fs.writeFileSync(people, 'person_id,name,age,active\n1,Alice,42,true\n2,Bob,,0\n');
+    fs.writeFileSync(knows, 'source,target,since\n1,2,2020\n');
+    const { loadVertices, loadEdges } = stubLoads();
+
+    const result = await schemaLoader.loadFromCsvFiles([
+      { path: knows, label: 'KNOWS', kind: 'edge', columns: { source: 'from', target: 'to' } },
+      { path: people, label: 'Person', columns: { person_id: 'id' } },
+    ]);
+
+    expect(result).toMatchObject({ success: true, vertexCount: 2, edgeCount: 1 });
+    expect(loadVertices.mock.calls[0][0]).toEqual({
+      Person: [{ id: '1', name: 'Alice', age: 42, active: true }, { id: '2', name: 'Bob', active: false }],
+    });
+    expect(loadEdges.mock.calls[0][0]).toEqual({ KNOWS: [{ from: '1', to: '2', since: 2020 }] });
+
+    fs.writeFileSync(people, 'id,age\n1,forty\n');
+    const failed = await schemaLoader.loadFromFile(people, { csv: { label: 'Person' } });
+    expect(failed.errors?.[0].message).toBe("Value 'forty' of property 'age' of 'Person' is not of type integer");
+
+    const missing = await schemaLoader.loadFromCsvFiles([{ path: path.join(directory, 'missing.csv'), label: 'Person' }]);
+    expect(missing.errors?.[0].message).toContain('File not found');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for SchemaLoader unique constraint checks
+ *
+ * These tests verify that the SchemaLoader rejects data whose identity keys
+ * or unique properties repeat within the loaded data or are already taken
+ * in the graph, before anything is written.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SchemaLoader } from '../../../src/loader/schema-loader';
+import { SchemaDefinition } from '../../../src/schema/types';
+import { UniqueConstraintError } from '../../../src/schema/errors';
+import { QueryExecutor } from '../../../src/db/query';
+
+describe('SchemaLoader unique constraints', () => {
+  let schemaLoader: SchemaLoader<SchemaDefinition>;
+  let queryExecutor: QueryExecutor;
+  let transaction: any;
+
+  const schema: SchemaDefinition = {
+    version: '1.0.0',
+    vertices: {
+      Person: {
+        properties: {
+          tenantId: { type: 'string' },
+          externalId: { type: 'string' },
+          email: { type: 'string' },
+        },
+        required: ['tenantId', 'externalId'],
+        keys: ['tenantId', 'externalId'],
+        unique: ['email'],
+      },
+    },
+    edges: {
+      KNOWS: {
+        properties: {
+          ref: { type: 'string' },
+        },
+        unique: ['ref'],
+        fromVertex: 'Person',
+        toVertex: 'Person',
+      },
+    },
+  } as SchemaDefinition;
+
+  beforeEach(() => {
+    transaction = {
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+    };
+
+    queryExecutor = {
+      beginTransaction: vi.fn().mockResolvedValue(transaction),
+      executeSQL: vi.fn().mockResolvedValue({ rows: [] }),
+      executeCypher: vi.fn().mockResolvedValue({ rows: [] }),
+    } as unknown as QueryExecutor;
+
+    schemaLoader = new SchemaLoader(schema, queryExecutor, {
+      defaultGraphName: 'social',
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    });
+  });
+
+  it('should reject keys duplicated within the data', async () => {
+    const result = await schemaLoader.loadVertices({
+      Person: [
+        { tenantId: 't1', externalId: '1', email: 'a@example.com' },
+        { tenantId: 't1', externalId: '2' },
+        { tenantId: 't1', externalId: '1' },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toBeInstanceOf(UniqueConstraintError);
+    expect(result.errors?.[0].message).toContain('Person(tenantId, externalId)');
+    expect(result.errors?.[0].message).toContain('duplicated by items 0, 2');
+    expect(queryExecutor.executeSQL).not.toHaveBeenCalled();
+    expect(transaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should reject keys already taken in the graph', async () => {
+    (queryExecutor.executeCypher as any)
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ key: ['a@example.com'] }] });
+
+    const result = await schemaLoader.loadVertices({
+      Person: [
+        { tenantId: 't1', externalId: '1', email: 'a@example.com' },
+        { tenantId: 't1', externalId: '2' },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toBeInstanceOf(UniqueConstraintError);
+    expect(result.errors?.[0].message).toContain("already exists in graph 'social'");
+
+    const [keyQuery, keyParams, graphName, options] = (queryExecutor.executeCypher as any).mock.calls[0];
+    expect(keyQuery).toContain('UNWIND $keys AS candidate\n    MATCH (x:Person)');
+    expect(keyQuery).toContain('WHERE x.tenantId = candidate[0] AND x.externalId = candidate[1]');
+    expect(keyParams).toEqual({ keys: [['t1', '1'], ['t1', '2']] });
+    expect(graphName).toBe('social');
+    expect(options).toEqual({ transaction });
+
+    const [emailQuery, emailParams] = (queryExecutor.executeCypher as any).mock.calls[1];
+    expect(emailQuery).toContain('WHERE x.email = candidate[0]');
+    expect(emailParams).toEqual({ keys: [['a@example.com']] });
+  });
+
+  it('should look up existing keys one batch at a time', async () => {
+    await schemaLoader.loadEdges(
+      {
+        KNOWS: [
+          { from: '1', to: '2', ref: 'r1' },
+          { from: '2', to: '3', ref: 'r2' },
+          { from: '3', to: '1', ref: 'r3' },
+        ],
+      },
+      { batchSize: 2 }
+    );
+
+    const calls = (queryExecutor.executeCypher as any).mock.calls;
+    expect(calls).toHaveLength(2);
+    expect(calls[0][0]).toContain('MATCH ()-[x:KNOWS]->()\n    WHERE x.ref = candidate[0]');
+    expect(calls.map((call: any[]) => call[1])).toEqual([{ keys: [['r1'], ['r2']] }, { keys: [['r3']] }]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for the NDJSON, CSV and graph data stream readers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GraphRecord, readCSV, readGraphData, readNDJSON } from '../../../src/loader/stream-sources';
+import { SchemaLoaderError } from '../../../src/loader/schema-loader';
+
+async function collect(records: AsyncIterable<GraphRecord>): Promise<GraphRecord[]> {
+  const collected: GraphRecord[] = [];
+  for await (const record of records) {
+    collected.push(record);
+  }
+  return collected;
+}
+
+describe('stream sources', () => {
+  it('should read graph data chunks vertices first', async () => {
+    const records = await collect(readGraphData([
+      { vertices: { Person: [{ id: '1' }] }, edges: { KNOWS: [{ from: '1', to: '2' }] } },
+      { vertices: { Person: [{ id: '2' }] }, edges: {} },
+    ]));
+
+    expect(records.map(record => `${record.kind}:${record.label}:${JSON.stringify(record.data)}`)).toEqual([
+      'vertex:Person:{"id":"1"}',
+      'edge:KNOWS:{"from":"1","to":"2"}',
+      'vertex:Person:{"id":"2"}',
+    ]);
+  });
+
+  it('should read NDJSON records split across chunks', async () => {
+    const text = [
+      '{"type":"vertex","label":"Person","data":{"id":"1","name":"Zoë"}}',
+      '',
+      '{"vertices":{"Person":[{"id":"2"}]},"edges":{}}',
+      '{"type":"edge","label":"KNOWS","data":{"from":"1","to":"2"}}',
+    ].join('\r\n');
+    const bytes = Buffer.from(text);
+    // Split inside the two-byte ë
+    const split = bytes.indexOf(Buffer.from('ë')) + 1;
+
+    const records = await collect(readNDJSON([bytes.subarray(0, split), bytes.subarray(split)]));
+
+    expect(records).toEqual([
+      { kind: 'vertex', label: 'Person', data: { id: '1', name: 'Zoë' } },
+      { kind: 'vertex', label: 'Person', data: { id: '2' } },
+      { kind: 'edge', label: 'KNOWS', data: { from: '1', to: '2' } },
+    ]);
+  });
+
+  it('should name the line of an invalid NDJSON record', async () => {
+    await expect(collect(readNDJSON(['{"type":"vertex","label":"Person","data":{}}\n{oops}\n'])))
+      .rejects.toThrow(/^Invalid JSON on line 2/);
+    await expect(collect(readNDJSON(['{"type":"node","label":"Person","data":{}}'])))
+      .rejects.toThrow(SchemaLoaderError);
+  });
+
+  it('should read CSV rows with quoted fields and mapped columns', async () => {
+    const records = await collect(readCSV([
+      'Full Name,age,"notes",internal\r\n',
+      '"Smith, Jane",42,"said ""hi""\nthen left",x\r\n',
+      'Bob,,,y\n',
+    ], {
+      label: 'Person',
+      columns: { 'Full Name': 'name', internal: null },
+      parseValue: (property, value) => (property === 'age' ? Number(value) : value),
+    }));
+
+    expect(records).toEqual([
+      { kind: 'vertex', label: 'Person', data: { name: 'Smith, Jane', age: 42, notes: 'said "hi"\nthen left' } },
+      { kind: 'vertex', label: 'Person', data: { name: 'Bob' } },
+    ]);
+  });
+
+  it('should reject malformed CSV', async () => {
+    await expect(collect(readCSV(['a,b\n1\n'], { label: 'Person' })))
+      .rejects.toThrow("Row 2 of CSV file of label 'Person' has 1 fields, expected 2");
+    await expect(collect(readCSV(['a\n"open\n'], { label: 'Person' })))
+      .rejects.toThrow('a quoted field is not closed');
+    await expect(collect(readCSV(['source;target\n1;2\n'], { label: 'KNOWS', kind: 'edge', delimiter: ';' })))
+      .rejects.toThrow("needs columns mapped to 'from' and 'to'");
+    expect(await collect(readCSV(['source;target\n1;2\n'], {
+      label: 'KNOWS',
+      kind: 'edge',
+      delimiter: ';',
+      columns: { source: 'from', target: 'to' },
+    }))).toEqual([{ kind: 'edge', label: 'KNOWS', data: { from: '1', to: '2' } }]);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Unit tests for QueryBuilder write clauses
+ *
+ * These tests verify that CREATE, MERGE, SET, REMOVE, DELETE and DETACH DELETE
+ * clauses are generated with parameterized values and validated against the schema.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QueryBuilder } from '../../src/query/builder';
+import { QueryExecutor } from '../../src/db/query';
+import { SchemaDefinition } from '../../src/schema/types';
+import { prop } from '../../src/query/expressions';
+
+// Mock schema definition
+const mockSchema: SchemaDefinition = {
+  version: '1.0.0',
+  vertices: {
+    Person: {
+      properties: {
+        id: { type: 'integer' },
+        name: { type: 'string' },
+        age: { type: 'integer' },
+        visits: { type: 'integer' },
+        nickname: { type: 'string', nullable: true }
+      },
+      required: ['id', 'name']
+    },
+    Movie: {
+      properties: {
+        id: { type: 'integer' },
+        title: { type: 'string' }
+      },
+      required: ['id']
+    }
+  },
+  edges: {
+    ACTED_IN: {
+      properties: {
+        role: { type: 'string' }
+      },
+      required: ['role'],
+      fromVertex: 'Person',
+      toVertex: 'Movie'
+    }
+  }
+} as unknown as SchemaDefinition;
+
+// Mock query executor
+const mockExecutor = {
+  executeCypher: vi.fn().mockResolvedValue({ rows: [] }),
+  executeSQL: vi.fn().mockResolvedValue({ rows: [] })
+} as unknown as QueryExecutor;
+
+describe('QueryBuilder write clauses', () => {
+  let queryBuilder: QueryBuilder<typeof mockSchema>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryBuilder = new QueryBuilder(mockSchema, mockExecutor, 'test_graph');
+  });
+
+  describe('CREATE', () => {
+    it('should create a vertex with parameterized properties', () => {
+      const cypher = queryBuilder
+        .create('Person', 'p', { id: 1, name: "O'Brien" })
+        .return('p')
+        .toCypher();
+
+      expect(cypher).toBe('CREATE (p:Person {id: $p_id, name: $p_name})\nRETURN p');
+      expect(queryBuilder.getParameters()).toEqual({ p_id: 1, p_name: "O'Brien" });
+      expect(queryBuilder.validateQuery()).toEqual([]);
+    });
+
+    it('should create an edge between matched vertices', () => {
+      queryBuilder
+        .match('Person', 'p').constraint({ id: 1 }).done()
+        .match('Movie', 'm').constraint({ id: 2 }).done()
+        .createEdge('p', 'ACTED_IN', 'm', { role: 'Lead' }, 'r');
+
+      expect(queryBuilder.toCypher()).toContain('CREATE (p)-[r:ACTED_IN {role: $r_role}]->(m)');
+      expect(queryBuilder.validateQuery()).toEqual([]);
+    });
+
+    it('should report missing required properties and invalid types', () => {
+      queryBuilder.create('Person', 'p', { id: 'one', unknown: true } as any);
+
+      expect(queryBuilder.validateSchema()).toEqual([
+        expect.stringContaining("Invalid value for property 'id' of vertex label 'Person'"),
+        "Invalid property 'unknown' for vertex label 'Person'",
+        "Missing required property 'name' for vertex label 'Person'"
+      ]);
+    });
+
+    it('should report invalid edge endpoints', () => {
+      queryBuilder
+        .match('Movie', 'a').done()
+        .match('Movie', 'b').done()
+        .createEdge('a', 'ACTED_IN', 'b', { role: 'Lead' });
+
+      expect(queryBuilder.validateSchema()).toEqual([
+        "Invalid source vertex label for edge 'ACTED_IN': expected 'Person', got 'Movie'"
+      ]);
+    });
+
+    it('should report unbound edge endpoints', () => {
+      queryBuilder.createEdge('p', 'ACTED_IN', 'm', { role: 'Lead' });
+
+      const errors = queryBuilder.validateQuery();
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toContain("Variable 'p' is not defined (used in CREATE clause)");
+    });
+  });
+
+  describe('MERGE', () => {
+    it('should merge with ON CREATE SET and ON MATCH SET', () => {
+      const cypher = queryBuilder
+        .merge('Person', 'p', { id: 7 })
+        .onCreateSet({ name: 'Ada', visits: 1 })
+        .onMatchSet({ visits: prop('p', 'visits').plus(1) })
+        .return('p')
+        .toCypher();
+
+      expect(cypher).toBe(
+        'MERGE (p:Person {id: $p_id}) ' +
+        'ON CREATE SET p.name = $p_name, p.visits = $p_visits ' +
+        'ON MATCH SET p.visits = p.visits + $p_visits\n' +
+        'RETURN p'
+      );
+      expect(queryBuilder.getParameters()).toEqual({
+        p_id: 7,
+        p_name: 'Ada',
+        p_visits: 1
+      });
+      expect(queryBuilder.validateQuery()).toEqual([]);
+    });
+
+    it('should require required properties in the pattern or ON CREATE SET', () => {
+      queryBuilder.merge('Person', 'p', { id: 7 });
+
+      expect(queryBuilder.validateSchema()).toEqual([
+        "Missing required property 'name' for vertex label 'Person'"
+      ]);
+    });
+
+    it('should merge an edge between matched vertices', () => {
+      queryBuilder
+        .match('Person', 'p').done()
+        .match('Movie', 'm').done()
+        .mergeEdge('p', 'ACTED_IN', 'm', { role: 'Lead' }, 'r');
+
+      expect(queryBuilder.toCypher()).toContain('MERGE (p)-[r:ACTED_IN {role: $r_role}]->(m)');
+      expect(queryBuilder.validateQuery()).toEqual([]);
+    });
+
+    it('should reject null merge properties', () => {
+      expect(() => queryBuilder.merge('Person', 'p', { id: null })).toThrow(/MERGE cannot match on null/);
+    });
+  });
+
+  describe('SET and REMOVE', () => {
+    it('should set properties on a matched alias', () => {
+      const person = queryBuilder.vertex('Person', 'p');
+      const cypher = queryBuilder
+        .match('Person', 'p').constraint({ id: 1 }).done()
+        .set(person, { age: 42, nickname: null })
+        .toCypher();
+
+      expect(cypher).toContain('SET p.age = $p_age, p.nickname = $p_nickname');
+      expect(queryBuilder.getParameters()).toMatchObject({ p_age: 42, p_nickname: null });
+      expect(queryBuilder.validateQuery()).toEqual([]);
+    });
+
+    it('should validate SET values against the label of the alias', () => {
+      queryBuilder
+        .match('Person', 'p').done()
+        .set('p', { age: 'old', name: null, height: 180 });
+
+      expect(queryBuilder.validateSchema()).toEqual([
+        expect.stringContaining("Invalid value for property 'age' of vertex label 'Person'"),
+        expect.stringContaining("Invalid value for property 'name' of vertex label 'Person'"),
+        "Invalid property 'height' for vertex label 'Person'"
+      ]);
+    });
+
+    it('should remove properties and reject required ones', () => {
+      const cypher = queryBuilder
+        .match('Person', 'p').done()
+        .remove('p', 'nickname', 'name')
+        .toCypher();
+
+      expect(cypher).toContain('REMOVE p.nickname, p.name');
+      expect(queryBuilder.validateSchema()).toEqual([
+        "Cannot remove required property 'name' from vertex label 'Person'"
+      ]);
+    });
+
+    it('should reject invalid property references', () => {
+      expect(() => queryBuilder.set('p', { 'name = 1 //': 'x' })).toThrow(/Invalid property name/);
+      expect(() => queryBuilder.remove('p', 'a.b')).toThrow(/Invalid property reference/);
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should generate DELETE and DETACH DELETE', () => {
+      queryBuilder
+        .match('Person', 'p').done()
+        .match('Movie', 'm').done()
+        .match('p', 'ACTED_IN', 'm', 'r').done()
+        .delete('r')
+        .detachDelete('p', 'm');
+
+      const cypher = queryBuilder.toCypher();
+      expect(cypher).toContain('\nDELETE r\nDETACH DELETE p, m');
+      expect(queryBuilder.validateQuery()).toEqual([]);
+    });
+
+    it('should report deleting undefined aliases', () => {
+      queryBuilder.match('Person', 'p').done().delete('q');
+
+      expect(queryBuilder.validateQuery()[0]).toContain("Variable 'q' is not defined (used in DELETE clause)");
+    });
+
+    it('should reject invalid aliases', () => {
+      expect(() => queryBuilder.delete()).toThrow(/At least one alias/);
+      expect(() => queryBuilder.detachDelete('p; MATCH')).toThrow(/Invalid alias/);
+    });
+  });
+
+  it('should execute write queries with values bound through age_params', async () => {
+    await queryBuilder
+      .merge('Person', 'p', { id: 7 })
+      .onCreateSet({ name: 'Ada' })
+      .done()
+      .execute();
+
+    expect(mockExecutor.executeSQL).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO age_params'),
+      ['p_id', '7']
+    );
+    expect(mockExecutor.executeCypher).toHaveBeenCalledWith(
+      "MERGE (p:Person {id: age_schema_client.get_age_param('p_id')}) " +
+      "ON CREATE SET p.name = age_schema_client.get_age_param('p_name')",
+      {},
+      'test_graph',
+      expect.any(Object)
+    );
+  });
+});
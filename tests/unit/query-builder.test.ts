@@ -310,8 +310,10 @@ describe('QueryBuilder Unit Tests', () => {
       .toCypher();
 
     // The implementation should add property constraints to the vertex pattern
-    expect(cypherQuery).toContain('MATCH (m:Movie {title: "The Godfather"})');
+    expect(cypherQuery).toContain('MATCH (m:Movie {title: $m_title})');
+    expect(cypherQuery).not.toContain('The Godfather');
     expect(cypherQuery).toContain('RETURN m.title AS title, m.year AS year');
+    expect(queryBuilder.getParameters()).toEqual({ m_title: 'The Godfather' });
   });
 
   // Test: Bidirectional relationship
@@ -426,7 +428,8 @@ describe('QueryBuilder Unit Tests', () => {
       .toCypher();
 
     // The implementation should add property constraints to the vertex pattern
-    expect(cypherQuery).toContain('MATCH (m:Movie {genre: "Drama", rating: 8.5})');
+    expect(cypherQuery).toContain('MATCH (m:Movie {genre: $m_genre, rating: $m_rating})');
+    expect(queryBuilder.getParameters()).toEqual({ m_genre: 'Drama', m_rating: 8.5 });
     expect(cypherQuery).toContain('RETURN m.title AS title');
   });
 
@@ -539,7 +542,7 @@ describe('QueryBuilder Unit Tests', () => {
       .return('p.name AS director', 'm.title AS movie')
       .toCypher();
 
-    expect(cypherQuery).toContain('MATCH (p:Person {name: "John"})');
+    expect(cypherQuery).toContain('MATCH (p:Person {name: $p_name})');
     expect(cypherQuery).toContain('MATCH (m:Movie)');
     expect(cypherQuery).toContain('MATCH (p)-[e:DIRECTED]->(m)');
     expect(cypherQuery).toContain('RETURN p.name AS director, m.title AS movie');
@@ -561,7 +564,8 @@ describe('QueryBuilder Unit Tests', () => {
     expect(cypherQuery).toContain('MATCH (p:Person)');
     expect(cypherQuery).toContain('MATCH (m:Movie)');
     // The property constraint should be added to the edge pattern
-    expect(cypherQuery).toContain('MATCH (p)-[e:DIRECTED {year: 2020}]->(m)');
+    expect(cypherQuery).toContain('MATCH (p)-[e:DIRECTED {year: $e_year}]->(m)');
+    expect(queryBuilder.getParameters()).toEqual({ e_year: 2020 });
     expect(cypherQuery).toContain('RETURN p.name AS director, m.title AS movie');
   });
 
@@ -581,7 +585,8 @@ describe('QueryBuilder Unit Tests', () => {
     expect(cypherQuery).toContain('MATCH (p:Person)');
     expect(cypherQuery).toContain('MATCH (m:Movie)');
     // Both property constraints should be added to the edge pattern
-    expect(cypherQuery).toContain('MATCH (p)-[e:DIRECTED {year: 2020, role: "Director"}]->(m)');
+    expect(cypherQuery).toContain('MATCH (p)-[e:DIRECTED {year: $e_year, role: $e_role}]->(m)');
+    expect(queryBuilder.getParameters()).toEqual({ e_year: 2020, e_role: 'Director' });
     expect(cypherQuery).toContain('RETURN p.name AS director, m.title AS movie');
   });
 
@@ -624,11 +629,11 @@ describe('QueryBuilder Unit Tests', () => {
     expect(cypherQuery).toContain('MATCH (p:Person)');
     expect(cypherQuery).toContain('MATCH (m:Movie)');
     // The property constraint should be added to the edge pattern
-    expect(cypherQuery).toContain('MATCH (p)-[e:DIRECTED {role: "Director"}]->(m)');
+    expect(cypherQuery).toContain('MATCH (p)-[e:DIRECTED {role: $e_role}]->(m)');
     // The condition should be added as a WHERE clause
     expect(cypherQuery).toContain('WHERE e.year > $year');
     expect(cypherQuery).toContain('RETURN p.name AS director, m.title AS movie');
-    expect(queryBuilder.getParameters()).toEqual({ year: 2010 });
+    expect(queryBuilder.getParameters()).toEqual({ e_role: 'Director', year: 2010 });
   });
 
   // Test: Throw error for null values in edge property constraints
@@ -705,4 +710,179 @@ describe('QueryBuilder Unit Tests', () => {
     expect(cypherQuery).toContain('WHERE NOT exists(p.age)');
     expect(cypherQuery).toContain('RETURN p.name AS name');
   });
+
+  // Test: Quotes in constraint values never reach the Cypher text
+  it('should bind constraint values containing quotes as parameters', () => {
+    const title = 'x"}) MATCH (n) DETACH DELETE n //';
+    const cypherQuery = queryBuilder
+      .match('Movie', 'm')
+      .constraint({ title })
+      .done()
+      .return('m.title AS title')
+      .toCypher();
+
+    expect(cypherQuery).toContain('MATCH (m:Movie {title: $m_title})');
+    expect(cypherQuery).not.toContain('DETACH DELETE');
+    expect(queryBuilder.getParameters()).toEqual({ m_title: title });
+  });
+
+  // Test: Generated parameter names are unique within a query
+  it('should generate unique parameter names for repeated constraints', () => {
+    const cypherQuery = queryBuilder
+      .match('Movie', 'm')
+      .constraint({ title: 'A' })
+      .done()
+      .match('Person', 'p')
+      .constraint({ name: 'B' })
+      .done()
+      .return('m.title AS title')
+      .toCypher();
+
+    expect(cypherQuery).toContain('MATCH (m:Movie {title: $m_title})');
+    expect(cypherQuery).toContain('MATCH (p:Person {name: $p_name})');
+    expect(queryBuilder.bindParam('m_title', 'C')).toBe('m_title_2');
+    expect(queryBuilder.bindParam('m_title', 'A')).toBe('m_title');
+  });
+
+  // Test: User parameters cannot replace generated parameters
+  it('should reject user parameters colliding with generated parameters', () => {
+    queryBuilder
+      .match('Person', 'p')
+      .constraint({ name: 'Ann' })
+      .done();
+
+    expect(() => queryBuilder.withParam('p_name', 'Bob')).toThrow(/Parameter 'p_name' is already bound/);
+    expect(() => queryBuilder.where('p.age > $p_name', { p_name: 30 })).toThrow(/Parameter 'p_name' is already bound/);
+    expect(queryBuilder.getParameters()).toEqual({ p_name: 'Ann' });
+    expect(queryBuilder.toCypher()).not.toContain('WHERE');
+
+    // A user parameter bound first keeps its value; the constraint gets a name of its own
+    const cypherQuery = queryBuilder
+      .reset()
+      .withParam('p_name', 'Bob')
+      .match('Person', 'p')
+      .constraint({ name: 'Ann' })
+      .done()
+      .toCypher();
+
+    expect(cypherQuery).toContain('MATCH (p:Person {name: $p_name_2})');
+    expect(queryBuilder.getParameters()).toEqual({ p_name: 'Bob', p_name_2: 'Ann' });
+  });
+
+  // Test: Invalid parameter names are rejected
+  it('should reject invalid parameter names', () => {
+    expect(() => queryBuilder.withParam("x') RETURN 1 //", 1)).toThrow(/Invalid parameter name/);
+  });
+
+  // Test: Execute binds parameters through age_params
+  it('should bind parameters through age_params when executing', async () => {
+    const executeSQL = vi.fn().mockResolvedValue({ rows: [] });
+    const executeCypher = vi.fn().mockResolvedValue({ rows: [] });
+    const builder = new QueryBuilder(
+      mockSchema,
+      { executeSQL, executeCypher } as unknown as QueryExecutor,
+      'test_graph'
+    );
+
+    await builder
+      .match('Movie', 'm')
+      .constraint({ title: "O'Brien" })
+      .done()
+      .where('m.rating >= $minRating', { minRating: 8 })
+      .return('m.title AS title')
+      .execute();
+
+    const inserts = executeSQL.mock.calls.filter(([sql]) => sql.includes('INSERT INTO age_params'));
+    expect(inserts.map(([, values]) => values)).toEqual([
+      ['m_title', JSON.stringify("O'Brien")],
+      ['minRating', '8'],
+    ]);
+
+    const [cypher, params] = executeCypher.mock.calls[0];
+    expect(cypher).toContain("MATCH (m:Movie {title: age_schema_client.get_age_param('m_title')})");
+    expect(cypher).toContain("WHERE m.rating >= age_schema_client.get_age_param('minRating')");
+    expect(cypher).not.toContain('Brien');
+    expect(params).toEqual({});
+
+    const cleanup = executeSQL.mock.calls.find(([sql]) => sql.includes('DELETE FROM age_params'));
+    expect(cleanup[1]).toEqual([['m_title', 'minRating']]);
+  });
+
+  // Test: Execute leaves references inside string literals alone
+  it('should not bind parameter references inside quoted strings', async () => {
+    const executeSQL = vi.fn().mockResolvedValue({ rows: [] });
+    const executeCypher = vi.fn().mockResolvedValue({ rows: [] });
+    const builder = new QueryBuilder(
+      mockSchema,
+      { executeSQL, executeCypher } as unknown as QueryExecutor,
+      'test_graph'
+    );
+
+    await builder
+      .match('Movie', 'm')
+      .done()
+      .where(`m.note = 'costs $price' AND m.tagline <> "it\\"s $price" AND m.price = $price`, { price: 5 })
+      .return('m.title AS title')
+      .execute();
+
+    const [cypher] = executeCypher.mock.calls[0];
+    expect(cypher).toContain(
+      `WHERE m.note = 'costs $price' AND m.tagline <> "it\\"s $price" ` +
+      "AND m.price = age_schema_client.get_age_param('price')"
+    );
+  });
+
+  // Test: Stream binds parameters and cleans them up when iteration stops
+  it('should stream rows and clear parameters after an early break', async () => {
+    const executeSQL = vi.fn().mockResolvedValue({ rows: [] });
+    const streamCypher = vi.fn(async function* () {
+      yield { title: 'A' };
+      yield { title: 'B' };
+    });
+    const builder = new QueryBuilder(
+      mockSchema,
+      { executeSQL, streamCypher } as unknown as QueryExecutor,
+      'test_graph'
+    );
+
+    const rows: any[] = [];
+    for await (const row of builder
+      .match('Movie', 'm')
+      .constraint({ genre: 'Drama' })
+      .return('m.title AS title')
+      .stream({ batchSize: 10 })) {
+      rows.push(row);
+      break;
+    }
+
+    expect(rows).toEqual([{ title: 'A' }]);
+    const [cypher, , graphName, options] = streamCypher.mock.calls[0] as any[];
+    expect(cypher).toContain("{genre: age_schema_client.get_age_param('m_genre')}");
+    expect(graphName).toBe('test_graph');
+    expect(options).toEqual({ batchSize: 10, returnColumns: ['title'] });
+
+    const cleanup = executeSQL.mock.calls.find(([sql]) => sql.includes('DELETE FROM age_params'));
+    expect(cleanup[1]).toEqual([['m_genre']]);
+    expect(builder.toCypher()).toBe('');
+  });
+
+  // Test: Execute passes the RETURN aliases as result columns
+  it('should pass RETURN column names to the executor', async () => {
+    const executeCypher = vi.fn().mockResolvedValue({ rows: [] });
+    const builder = new QueryBuilder(
+      mockSchema,
+      { executeSQL: vi.fn(), executeCypher } as unknown as QueryExecutor,
+      'test_graph'
+    );
+
+    await builder
+      .match('Movie', 'm')
+      .done()
+      .return('m.title AS title', "coalesce(m.genre, 'n/a') AS genre", 'm')
+      .execute();
+
+    expect(executeCypher.mock.calls[0][3]).toMatchObject({
+      returnColumns: ['title', 'genre', 'm'],
+    });
+  });
 });